@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import Layout from './layout';
 import Login from './auth/login';
@@ -17,6 +17,9 @@ import UsersListPage from './main/usersListPage';
 import ProfileSettings from './profileSettings';
 import AllGamesPage from './main/games/allGamesPage';
 import GamePage from './main/games/gamePage';
+import BookmarksPage from './main/bookmarksPage';
+import CollectionsPage from './main/collectionsPage';
+import CollectionPage from './main/collectionPage';
 
 const ProtectedRoute = ({
   user,
@@ -41,6 +44,17 @@ const ProtectedRoute = ({
 const FakeStackOverflow = ({ socket }: { socket: FakeSOSocket | null }) => {
   const [user, setUser] = useState<User | null>(null);
 
+  useEffect(() => {
+    if (!socket) return;
+
+    // (Re)connect with the current token whenever a user logs in, and disconnect on sign out
+    if (user) {
+      socket.disconnect().connect();
+    } else {
+      socket.disconnect();
+    }
+  }, [user, socket]);
+
   return (
     <LoginContext.Provider value={{ setUser }}>
       <Routes>
@@ -66,6 +80,9 @@ const FakeStackOverflow = ({ socket }: { socket: FakeSOSocket | null }) => {
             <Route path='/user/:username' element={<ProfileSettings />} />
             <Route path='/games' element={<AllGamesPage />} />
             <Route path='/games/:gameID' element={<GamePage />} />
+            <Route path='/bookmarks' element={<BookmarksPage />} />
+            <Route path='/collections' element={<CollectionsPage />} />
+            <Route path='/collection/:cid' element={<CollectionPage />} />
           </Route>
         }
       </Routes>
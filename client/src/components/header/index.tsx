@@ -3,9 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import useHeader from '../../hooks/useHeader';
 import './index.css';
 import useUserContext from '../../hooks/useUserContext';
+import NotificationBell from './notificationBell';
 
 /**
- * Header component that renders the main title and a search bar.
+ * Header component that renders the main title, a search bar and the notification bell.
  * The search bar allows the user to input a query and navigate to the search results page
  * when they press Enter.
  */
@@ -20,11 +21,13 @@ const Header = () => {
       <input
         id='searchBar'
         placeholder='Search ...'
+        title='Search with [tag], "exact phrase", -exclude, user:name, answers:0, score:>5, is:accepted or created:2025-01..2025-03'
         type='text'
         value={val}
         onChange={handleInputChange}
         onKeyDown={handleKeyDown}
       />
+      <NotificationBell />
       <button onClick={handleSignOut} className='logout-button'>
         Log out
       </button>
@@ -0,0 +1,100 @@
+import React from 'react';
+import './index.css';
+import { Notification } from '../../../types';
+import { getMetaData } from '../../../tool';
+import useNotifications from '../../../hooks/useNotifications';
+
+/**
+ * Builds the sentence describing a notification.
+ *
+ * @param notification - The notification to describe.
+ *
+ * @returns The description of the activity the notification is about.
+ */
+const describeNotification = (notification: Notification): string => {
+  const { actor, text } = notification;
+
+  switch (notification.type) {
+    case 'answer':
+      return `${actor} answered your question "${text}"`;
+    case 'comment':
+      return `${actor} commented on your post in "${text}"`;
+    case 'upvote':
+      return `${actor} upvoted your post in "${text}"`;
+    case 'downvote':
+      return `${actor} downvoted your post in "${text}"`;
+    case 'message':
+      return `${actor} sent you a message: ${text}`;
+    case 'game':
+      return `${actor} joined your ${text} game`;
+    case 'bounty':
+      return `You were awarded ${actor}'s bounty on "${text}"`;
+    default:
+      return text;
+  }
+};
+
+/**
+ * NotificationBell component renders a bell with the number of unread notifications, and a
+ * dropdown listing the recent notifications. Clicking a notification marks it as read and
+ * navigates to the question, chat or game it is about.
+ */
+const NotificationBell = () => {
+  const {
+    notifications,
+    unreadCount,
+    open,
+    toggleOpen,
+    openNotification,
+    toggleRead,
+    markAllRead,
+  } = useNotifications();
+
+  return (
+    <div className='notification_bell'>
+      <button
+        className='notification_bell_button'
+        onClick={toggleOpen}
+        title='Notifications'
+        aria-label={`Notifications, ${unreadCount} unread`}>
+        🔔
+        {unreadCount > 0 && (
+          <span className='notification_badge'>{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+      {open && (
+        <div className='notification_dropdown'>
+          <div className='notification_dropdown_header'>
+            <span>Notifications</span>
+            <button
+              className='notification_link_button'
+              onClick={markAllRead}
+              disabled={unreadCount === 0}>
+              Mark all as read
+            </button>
+          </div>
+          {notifications.length === 0 && (
+            <div className='notification_empty'>You have no notifications.</div>
+          )}
+          {notifications.map(notification => (
+            <div
+              key={notification._id}
+              className={`notification_item${notification.read ? '' : ' notification_unread'}`}>
+              <div className='notification_content' onClick={() => openNotification(notification)}>
+                <div className='notification_text'>{describeNotification(notification)}</div>
+                <div className='notification_time'>
+                  {getMetaData(new Date(notification.createdAt))}
+                </div>
+              </div>
+              <button className='notification_link_button' onClick={() => toggleRead(notification)}>
+                {notification.read ? 'Mark unread' : 'Mark read'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -11,14 +11,32 @@ import { Comment } from '../../../../types';
  * - ansBy The username of the user who wrote the answer.
  * - meta Additional metadata related to the answer.
  * - comments An array of comments associated with the answer.
- * - handleAddComment Callback function to handle adding a new comment.
+ * - handleAddComment Callback function to handle adding a new comment. Not provided when the question is closed or locked.
+ * - accepted Whether the answer was accepted by the asker of the question.
+ * - handleToggleAccepted Callback function to accept or unaccept the answer. Only provided to the asker.
+ * - handleAwardBounty Callback function to award the bounty on the question to the answer. Only provided to the user who offered it.
+ * - handleEdit Callback function to open the editor of the answer. Only provided to users who can edit it.
+ * - handleShowHistory Callback function to show the revision history of the answer.
+ * - deletedBy The username of the user who deleted the answer, if it is deleted.
+ * - handleToggleDeleted Callback function to delete or restore the answer. Only provided to users who can do so.
+ * - handleToggleCommentDeleted Callback function to delete or restore a comment of the answer.
+ * - canToggleCommentDeleted Callback function to check whether a comment can be deleted or restored.
  */
 interface AnswerProps {
   text: string;
   ansBy: string;
   meta: string;
   comments: Comment[];
-  handleAddComment: (comment: Comment) => void;
+  handleAddComment?: (comment: Comment) => void;
+  accepted?: boolean;
+  handleToggleAccepted?: () => void;
+  handleAwardBounty?: () => void;
+  handleEdit?: () => void;
+  handleShowHistory?: () => void;
+  deletedBy?: string | null;
+  handleToggleDeleted?: () => void;
+  handleToggleCommentDeleted?: (comment: Comment) => void;
+  canToggleCommentDeleted?: (comment: Comment) => boolean;
 }
 
 /**
@@ -30,17 +48,76 @@ interface AnswerProps {
  * @param meta Additional metadata related to the answer.
  * @param comments An array of comments associated with the answer.
  * @param handleAddComment Function to handle adding a new comment.
+ * @param accepted Whether the answer is the accepted answer.
+ * @param handleToggleAccepted Function to accept or unaccept the answer.
+ * @param handleAwardBounty Function to award the bounty on the question to the answer.
+ * @param handleEdit Function to edit the answer.
+ * @param handleShowHistory Function to show the revision history of the answer.
+ * @param deletedBy The user who deleted the answer, if it is deleted.
+ * @param handleToggleDeleted Function to delete or restore the answer.
+ * @param handleToggleCommentDeleted Function to delete or restore a comment.
+ * @param canToggleCommentDeleted Function to check whether a comment can be deleted or restored.
  */
-const AnswerView = ({ text, ansBy, meta, comments, handleAddComment }: AnswerProps) => (
-  <div className='answer right_padding'>
+const AnswerView = ({
+  text,
+  ansBy,
+  meta,
+  comments,
+  handleAddComment,
+  accepted,
+  handleToggleAccepted,
+  handleAwardBounty,
+  handleEdit,
+  handleShowHistory,
+  deletedBy,
+  handleToggleDeleted,
+  handleToggleCommentDeleted,
+  canToggleCommentDeleted,
+}: AnswerProps) => (
+  <div
+    className={`answer right_padding ${accepted ? 'answer_accepted' : ''} ${deletedBy ? 'post_deleted' : ''}`}>
     <div id='answerText' className='answerText'>
+      {accepted && <div className='accepted_badge'>Accepted Answer</div>}
+      {deletedBy && <div className='deleted_badge'>Deleted by {deletedBy}</div>}
       {handleHyperlink(text)}
     </div>
     <div className='answerAuthor'>
       <div className='answer_author'>{ansBy}</div>
       <div className='answer_question_meta'>{meta}</div>
+      {handleToggleAccepted && (
+        <button className='accept_button' onClick={handleToggleAccepted}>
+          {accepted ? 'Unaccept' : 'Accept'}
+        </button>
+      )}
+      {handleAwardBounty && (
+        <button className='accept_button' onClick={handleAwardBounty}>
+          Award bounty
+        </button>
+      )}
+      <div className='post_actions'>
+        {handleEdit && (
+          <button className='post_action_button' onClick={handleEdit}>
+            Edit
+          </button>
+        )}
+        {handleShowHistory && (
+          <button className='post_action_button' onClick={handleShowHistory}>
+            History
+          </button>
+        )}
+        {handleToggleDeleted && (
+          <button className='post_action_button' onClick={handleToggleDeleted}>
+            {deletedBy ? 'Undelete' : 'Delete'}
+          </button>
+        )}
+      </div>
     </div>
-    <CommentSection comments={comments} handleAddComment={handleAddComment} />
+    <CommentSection
+      comments={comments}
+      handleAddComment={handleAddComment}
+      handleToggleDeleted={handleToggleCommentDeleted}
+      canToggleDeleted={canToggleCommentDeleted}
+    />
   </div>
 );
 
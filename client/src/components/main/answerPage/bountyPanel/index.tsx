@@ -0,0 +1,95 @@
+import React from 'react';
+import './index.css';
+import { Bounty } from '../../../../types';
+import useBountyPanel, {
+  BOUNTY_MAX_AMOUNT,
+  BOUNTY_MAX_DAYS,
+  BOUNTY_MIN_AMOUNT,
+} from '../../../../hooks/useBountyPanel';
+
+/**
+ * Interface representing the props for the BountyPanel component.
+ *
+ * - bounty - The open bounty on the question, if any.
+ * - canOffer - Whether a bounty can be offered on the question.
+ * - handleOfferBounty - Callback function to offer a bounty on the question.
+ * - error - The reason the last bounty offer failed, if it did.
+ */
+interface BountyPanelProps {
+  bounty?: Bounty | null;
+  canOffer: boolean;
+  handleOfferBounty: (amount: number, days: number) => Promise<void>;
+  error: string | null;
+}
+
+/**
+ * BountyPanel component shows the open bounty on a question and when it expires, or a form to
+ * offer one when the question has neither a bounty nor an accepted answer.
+ *
+ * @param bounty The open bounty on the question, if any.
+ * @param canOffer Whether a bounty can be offered on the question.
+ * @param handleOfferBounty Function to offer a bounty on the question.
+ * @param error The reason the last bounty offer failed, if it did.
+ */
+const BountyPanel = ({ bounty, canOffer, handleOfferBounty, error }: BountyPanelProps) => {
+  const { open, setOpen, amount, setAmount, days, setDays, submitOffer } =
+    useBountyPanel(handleOfferBounty);
+
+  if (bounty) {
+    return (
+      <div className='bounty_panel bounty_open right_padding'>
+        <span className='bounty_amount'>+{bounty.amount}</span>
+        <span>
+          bounty offered by {bounty.offeredBy}, expires{' '}
+          {new Date(bounty.expiresAt).toLocaleDateString()}
+        </span>
+      </div>
+    );
+  }
+
+  if (!canOffer) {
+    return null;
+  }
+
+  return (
+    <div className='bounty_panel right_padding'>
+      {open ? (
+        <>
+          <label>
+            Points
+            <input
+              type='number'
+              min={BOUNTY_MIN_AMOUNT}
+              max={BOUNTY_MAX_AMOUNT}
+              value={amount}
+              onChange={e => setAmount(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            Days
+            <input
+              type='number'
+              min={1}
+              max={BOUNTY_MAX_DAYS}
+              value={days}
+              onChange={e => setDays(Number(e.target.value))}
+            />
+          </label>
+          <button className='bounty_button' onClick={submitOffer}>
+            Offer
+          </button>
+          <button className='bounty_cancel' onClick={() => setOpen(false)}>
+            Cancel
+          </button>
+        </>
+      ) : (
+        <button className='bounty_button' onClick={() => setOpen(true)}>
+          Start a bounty
+        </button>
+      )}
+      {error && <span className='bounty_error'>{error}</span>}
+    </div>
+  );
+};
+
+export default BountyPanel;
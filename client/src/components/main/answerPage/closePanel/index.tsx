@@ -0,0 +1,206 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import './index.css';
+import { CloseReason, DuplicateRedirect, Question } from '../../../../types';
+import SimilarQuestions from '../../similarQuestions';
+import useClosePanel from '../../../../hooks/useClosePanel';
+
+/**
+ * Names each reason a question can be closed for.
+ */
+const closeReasonDisplayName: Record<CloseReason, string> = {
+  duplicate: 'Duplicate',
+  offTopic: 'Off-topic',
+  unclear: 'Needs details or clarity',
+  needsFocus: 'Needs more focus',
+  opinionBased: 'Opinion-based',
+};
+
+/**
+ * Explains why a question closed for each reason, other than as a duplicate, was closed.
+ */
+const closeReasonExplanation: Record<Exclude<CloseReason, 'duplicate'>, string> = {
+  offTopic: 'it is not about programming',
+  unclear: 'it is not clear what it is asking',
+  needsFocus: 'it asks more than one question at once',
+  opinionBased: 'its answers would mostly be based on opinions',
+};
+
+/**
+ * Interface representing the props for the ClosePanel component.
+ *
+ * - question - The question being viewed.
+ * - redirectedFrom - The duplicate question the user was redirected from, if any.
+ * - isModerator - Whether the current user is a moderator, and can lock the question.
+ * - hasCloseVote - Whether the current user voted to close the question.
+ * - hasReopenVote - Whether the current user voted to reopen the question.
+ * - handleVoteClose - Callback function to vote to close the question for a reason.
+ * - handleRetractCloseVote - Callback function to retract the close vote of the current user.
+ * - handleVoteReopen - Callback function to vote to reopen the question.
+ * - handleRetractReopenVote - Callback function to retract the reopen vote of the current user.
+ * - handleToggleLocked - Callback function to lock or unlock the question.
+ * - error - The reason the last change to the status of the question failed, if it did.
+ */
+interface ClosePanelProps {
+  question: Question;
+  redirectedFrom: DuplicateRedirect | null;
+  isModerator: boolean;
+  hasCloseVote: boolean;
+  hasReopenVote: boolean;
+  handleVoteClose: (reason: CloseReason, duplicateOf?: string) => Promise<void>;
+  handleRetractCloseVote: () => void;
+  handleVoteReopen: () => void;
+  handleRetractReopenVote: () => void;
+  handleToggleLocked: () => void;
+  error: string | null;
+}
+
+/**
+ * ClosePanel component explains why a question was closed or locked, linking to the original of
+ * a duplicate, or that the user was redirected from a duplicate. While the question is open, it
+ * shows its close votes and lets the user vote to close it, and once it is closed, it shows its
+ * reopen votes. Moderators can also lock and unlock the question.
+ *
+ * @param question The question being viewed.
+ * @param redirectedFrom The duplicate question the user was redirected from, if any.
+ * @param isModerator Whether the current user can lock the question.
+ * @param hasCloseVote Whether the current user voted to close the question.
+ * @param hasReopenVote Whether the current user voted to reopen the question.
+ * @param handleVoteClose Function to vote to close the question for a reason.
+ * @param handleRetractCloseVote Function to retract the close vote of the current user.
+ * @param handleVoteReopen Function to vote to reopen the question.
+ * @param handleRetractReopenVote Function to retract the reopen vote of the current user.
+ * @param handleToggleLocked Function to lock or unlock the question.
+ * @param error The reason the last change to the status of the question failed, if it did.
+ */
+const ClosePanel = ({
+  question,
+  redirectedFrom,
+  isModerator,
+  hasCloseVote,
+  hasReopenVote,
+  handleVoteClose,
+  handleRetractCloseVote,
+  handleVoteReopen,
+  handleRetractReopenVote,
+  handleToggleLocked,
+  error,
+}: ClosePanelProps) => {
+  const {
+    open,
+    setOpen,
+    reason,
+    setReason,
+    similarQuestions,
+    originalInput,
+    setOriginalInput,
+    inputErr,
+    voteForReason,
+  } = useClosePanel(question, handleVoteClose);
+  const status = question.status ?? 'open';
+  const closeVoteCount = question.closeVotes?.length ?? 0;
+  const reopenVoteCount = question.reopenVotes?.length ?? 0;
+
+  return (
+    <>
+      {status === 'locked' && (
+        <div className='close_banner close_banner_locked right_padding'>
+          This question has been locked by a moderator. It cannot be answered, commented on, or
+          voted to close or reopen.
+        </div>
+      )}
+      {question.duplicateOf && (
+        <div className='close_banner right_padding'>
+          This question has been closed as a duplicate.{' '}
+          <Link to={`/question/${question.duplicateOf}`}>See the original question</Link> for its
+          answers.
+        </div>
+      )}
+      {question.closeReason && question.closeReason !== 'duplicate' && (
+        <div className='close_banner right_padding'>
+          This question has been closed as {closeReasonDisplayName[question.closeReason]}, because{' '}
+          {closeReasonExplanation[question.closeReason]}. It cannot be answered or commented on
+          until it is reopened.
+        </div>
+      )}
+      {redirectedFrom && (
+        <div className='close_banner right_padding'>
+          You were redirected from{' '}
+          <Link to={`/question/${redirectedFrom.qid}?noredirect=true`}>{redirectedFrom.title}</Link>
+          , which was closed as a duplicate of this question.
+        </div>
+      )}
+      <div className='close_panel right_padding'>
+        {status === 'open' && (
+          <>
+            {closeVoteCount > 0 && (
+              <span className='close_votes'>{closeVoteCount} close votes</span>
+            )}
+            {hasCloseVote ? (
+              <button className='close_button' onClick={handleRetractCloseVote}>
+                Retract close vote
+              </button>
+            ) : (
+              <button className='close_button' onClick={() => setOpen(!open)}>
+                {open ? 'Cancel' : 'Close'}
+              </button>
+            )}
+          </>
+        )}
+        {status === 'closed' && (
+          <>
+            {reopenVoteCount > 0 && (
+              <span className='close_votes'>{reopenVoteCount} reopen votes</span>
+            )}
+            <button
+              className='close_button'
+              onClick={hasReopenVote ? handleRetractReopenVote : handleVoteReopen}>
+              {hasReopenVote ? 'Retract reopen vote' : 'Reopen'}
+            </button>
+          </>
+        )}
+        {isModerator && (
+          <button className='close_button' onClick={handleToggleLocked}>
+            {status === 'locked' ? 'Unlock' : 'Lock'}
+          </button>
+        )}
+        {error && <span className='close_error'>{error}</span>}
+      </div>
+      {status === 'open' && open && !hasCloseVote && (
+        <div className='close_picker right_padding'>
+          <select value={reason} onChange={e => setReason(e.target.value as CloseReason | '')}>
+            <option value=''>Why should this question be closed?</option>
+            {(Object.keys(closeReasonDisplayName) as CloseReason[]).map(r => (
+              <option key={r} value={r}>
+                {closeReasonDisplayName[r]}
+              </option>
+            ))}
+          </select>
+          {reason === 'duplicate' && (
+            <SimilarQuestions
+              heading='Is this a duplicate of one of these questions?'
+              questions={similarQuestions}
+              handleSelect={q => handleVoteClose('duplicate', q._id)}
+              selectLabel='Vote'
+            />
+          )}
+          <div className='close_input'>
+            {reason === 'duplicate' && (
+              <input
+                placeholder='Or paste a link to the original question'
+                value={originalInput}
+                onChange={e => setOriginalInput(e.target.value)}
+              />
+            )}
+            <button className='close_button' onClick={voteForReason}>
+              Vote to close
+            </button>
+          </div>
+          {inputErr && <div className='close_error'>{inputErr}</div>}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ClosePanel;
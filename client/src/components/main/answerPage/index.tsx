@@ -7,50 +7,228 @@ import './index.css';
 import QuestionBody from './questionBody';
 import VoteComponent from '../voteComponent';
 import CommentSection from '../commentSection';
+import PostEditor from './postEditor';
+import RevisionHistory from './revisionHistory';
+import SaveQuestion from './saveQuestion';
+import BountyPanel from './bountyPanel';
+import ClosePanel from './closePanel';
 import useAnswerPage from '../../../hooks/useAnswerPage';
 
 /**
  * AnswerPage component that displays the full content of a question along with its answers.
- * It also includes the functionality to vote, ask a new question, and post a new answer.
+ * It also includes the functionality to vote, ask a new question, post a new answer, edit the
+ * question and answers or browse their revision history, save the question for later, offer or
+ * award a bounty, and vote to close or reopen the question. Closed and locked questions cannot be
+ * answered or commented on.
  */
 const AnswerPage = () => {
-  const { questionID, question, handleNewComment, handleNewAnswer } = useAnswerPage();
+  const {
+    questionID,
+    question,
+    handleNewComment,
+    handleNewAnswer,
+    canAcceptAnswers,
+    handleToggleAccepted,
+    canEdit,
+    editingId,
+    setEditingId,
+    historyId,
+    setHistoryId,
+    handleEditQuestion,
+    handleEditAnswer,
+    isModerator,
+    showDeleted,
+    setShowDeleted,
+    canToggleDeleted,
+    handleToggleQuestionDeleted,
+    handleToggleAnswerDeleted,
+    handleToggleCommentDeleted,
+    isBookmarked,
+    handleToggleBookmark,
+    canOfferBounty,
+    handleOfferBounty,
+    bountyError,
+    canAwardBounty,
+    handleAwardBounty,
+    redirectedFrom,
+    isOpen,
+    hasCloseVote,
+    hasReopenVote,
+    handleVoteClose,
+    handleRetractCloseVote,
+    handleVoteReopen,
+    handleRetractReopenVote,
+    handleToggleLocked,
+    closeError,
+  } = useAnswerPage();
 
   if (!question) {
     return null;
   }
 
+  // The accepted answer is pinned to the top, the other answers keep their order
+  const answers = [
+    ...question.answers.filter(a => a._id === question.acceptedAnswer),
+    ...question.answers.filter(a => a._id !== question.acceptedAnswer),
+  ];
+
+  const questionContent = {
+    title: question.title,
+    text: question.text,
+    tags: question.tags.map(t => t.name),
+  };
+
+  /**
+   * Shows the revision history of a post, or hides it if it is already shown.
+   *
+   * @param id - The ID of the question or answer.
+   */
+  const toggleHistory = (id: string | undefined) =>
+    setHistoryId(historyId === id || id === undefined ? null : id);
+
   return (
     <>
       <VoteComponent question={question} />
       <AnswerHeader ansCount={question.answers.length} title={question.title} />
-      <QuestionBody
-        views={question.views.length}
-        text={question.text}
-        askby={question.askedBy}
-        meta={getMetaData(new Date(question.askDateTime))}
+      <ClosePanel
+        question={question}
+        redirectedFrom={redirectedFrom}
+        isModerator={isModerator}
+        hasCloseVote={hasCloseVote}
+        hasReopenVote={hasReopenVote}
+        handleVoteClose={handleVoteClose}
+        handleRetractCloseVote={handleRetractCloseVote}
+        handleVoteReopen={handleVoteReopen}
+        handleRetractReopenVote={handleRetractReopenVote}
+        handleToggleLocked={handleToggleLocked}
+        error={closeError}
+      />
+      <SaveQuestion
+        qid={questionID}
+        bookmarkCount={question.bookmarkCount ?? 0}
+        isBookmarked={isBookmarked}
+        handleToggleBookmark={handleToggleBookmark}
+      />
+      <BountyPanel
+        bounty={question.bounty}
+        canOffer={canOfferBounty}
+        handleOfferBounty={handleOfferBounty}
+        error={bountyError}
       />
+      {isModerator && (
+        <label className='show_deleted_toggle'>
+          <input
+            type='checkbox'
+            checked={showDeleted}
+            onChange={e => setShowDeleted(e.target.checked)}
+          />
+          Show deleted answers and comments
+        </label>
+      )}
+      {editingId === questionID ? (
+        <PostEditor
+          initial={questionContent}
+          handleSave={handleEditQuestion}
+          handleCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <QuestionBody
+          views={question.views.length}
+          text={question.text}
+          askby={question.askedBy}
+          meta={getMetaData(new Date(question.askDateTime))}
+          handleEdit={canEdit(question.askedBy) ? () => setEditingId(questionID) : undefined}
+          handleShowHistory={() => toggleHistory(questionID)}
+          deletedBy={question.deletedBy}
+          handleToggleDeleted={
+            canToggleDeleted(question.askedBy, question.deletedBy)
+              ? handleToggleQuestionDeleted
+              : undefined
+          }
+        />
+      )}
+      {historyId === questionID && (
+        <RevisionHistory
+          targetType='question'
+          targetId={questionID}
+          current={questionContent}
+          handleClose={() => setHistoryId(null)}
+        />
+      )}
       <CommentSection
         comments={question.comments}
-        handleAddComment={(comment: Comment) => handleNewComment(comment, 'question', questionID)}
+        handleAddComment={
+          isOpen
+            ? (comment: Comment) => handleNewComment(comment, 'question', questionID)
+            : undefined
+        }
+        handleToggleDeleted={(comment: Comment) =>
+          handleToggleCommentDeleted(comment, 'question', questionID)
+        }
+        canToggleDeleted={(comment: Comment) =>
+          canToggleDeleted(comment.commentBy, comment.deletedBy)
+        }
       />
-      {question.answers.map((a, idx) => (
-        <AnswerView
-          key={idx}
-          text={a.text}
-          ansBy={a.ansBy}
-          meta={getMetaData(new Date(a.ansDateTime))}
-          comments={a.comments}
-          handleAddComment={(comment: Comment) => handleNewComment(comment, 'answer', a._id)}
-        />
+      {answers.map(a => (
+        <React.Fragment key={a._id}>
+          {editingId === a._id ? (
+            <PostEditor
+              initial={{ text: a.text }}
+              handleSave={(content, summary) => handleEditAnswer(a._id, content, summary)}
+              handleCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <AnswerView
+              text={a.text}
+              ansBy={a.ansBy}
+              meta={getMetaData(new Date(a.ansDateTime))}
+              comments={a.comments}
+              handleAddComment={
+                isOpen
+                  ? (comment: Comment) => handleNewComment(comment, 'answer', a._id)
+                  : undefined
+              }
+              accepted={a._id === question.acceptedAnswer}
+              handleToggleAccepted={
+                canAcceptAnswers ? () => handleToggleAccepted(a._id) : undefined
+              }
+              handleAwardBounty={canAwardBounty(a) ? () => handleAwardBounty(a._id) : undefined}
+              handleEdit={canEdit(a.ansBy) ? () => setEditingId(a._id ?? null) : undefined}
+              handleShowHistory={() => toggleHistory(a._id)}
+              deletedBy={a.deletedBy}
+              handleToggleDeleted={
+                canToggleDeleted(a.ansBy, a.deletedBy)
+                  ? () => handleToggleAnswerDeleted(a)
+                  : undefined
+              }
+              handleToggleCommentDeleted={(comment: Comment) =>
+                handleToggleCommentDeleted(comment, 'answer', a._id)
+              }
+              canToggleCommentDeleted={(comment: Comment) =>
+                canToggleDeleted(comment.commentBy, comment.deletedBy)
+              }
+            />
+          )}
+          {a._id && historyId === a._id && (
+            <RevisionHistory
+              targetType='answer'
+              targetId={a._id}
+              current={{ text: a.text }}
+              handleClose={() => setHistoryId(null)}
+            />
+          )}
+          <VoteComponent question={question} answer={a} />
+        </React.Fragment>
       ))}
-      <button
-        className='bluebtn ansButton'
-        onClick={() => {
-          handleNewAnswer();
-        }}>
-        Answer Question
-      </button>
+      {isOpen && (
+        <button
+          className='bluebtn ansButton'
+          onClick={() => {
+            handleNewAnswer();
+          }}>
+          Answer Question
+        </button>
+      )}
     </>
   );
 };
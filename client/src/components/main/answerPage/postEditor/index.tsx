@@ -0,0 +1,96 @@
+import React from 'react';
+import './index.css';
+import Form from '../../baseComponents/form';
+import Input from '../../baseComponents/input';
+import TextArea from '../../baseComponents/textarea';
+import usePostEditor from '../../../../hooks/usePostEditor';
+import { PostContent } from '../../../../types';
+
+/**
+ * Interface representing the props for the PostEditor component.
+ *
+ * - initial - The current content of the question or answer being edited.
+ * - handleSave - Callback function to submit the new content and the edit summary.
+ * - handleCancel - Callback function to close the editor without saving.
+ */
+interface PostEditorProps {
+  initial: PostContent;
+  handleSave: (content: PostContent, summary: string) => void;
+  handleCancel: () => void;
+}
+
+/**
+ * PostEditor component that renders a form to edit a question (title, text and tags) or an
+ * answer (text), along with a summary of the edit.
+ *
+ * @param initial The current content of the post.
+ * @param handleSave Function to submit the edit.
+ * @param handleCancel Function to discard the edit.
+ */
+const PostEditor = ({ initial, handleSave, handleCancel }: PostEditorProps) => {
+  const {
+    isQuestion,
+    title,
+    setTitle,
+    text,
+    setText,
+    tagNames,
+    setTagNames,
+    summary,
+    setSummary,
+    titleErr,
+    textErr,
+    tagErr,
+    saveEdit,
+  } = usePostEditor(initial, handleSave);
+
+  return (
+    <Form>
+      {isQuestion && (
+        <Input
+          title={'Question Title'}
+          hint={'Limit title to 100 characters or less'}
+          id={'editTitleInput'}
+          val={title}
+          setState={setTitle}
+          err={titleErr}
+        />
+      )}
+      <TextArea
+        title={isQuestion ? 'Question Text' : 'Answer Text'}
+        id={'editTextInput'}
+        val={text}
+        setState={setText}
+        err={textErr}
+      />
+      {isQuestion && (
+        <Input
+          title={'Tags'}
+          hint={'Add keywords separated by whitespace'}
+          id={'editTagInput'}
+          val={tagNames}
+          setState={setTagNames}
+          err={tagErr}
+        />
+      )}
+      <Input
+        title={'Edit Summary'}
+        hint={'Briefly explain your changes'}
+        id={'editSummaryInput'}
+        mandatory={false}
+        val={summary}
+        setState={setSummary}
+      />
+      <div className='post_editor_buttons'>
+        <button className='form_postBtn' onClick={saveEdit}>
+          Save Edits
+        </button>
+        <button className='post_editor_cancel' onClick={handleCancel}>
+          Cancel
+        </button>
+      </div>
+    </Form>
+  );
+};
+
+export default PostEditor;
@@ -9,12 +9,20 @@ import { handleHyperlink } from '../../../../tool';
  * - text - The content of the question, which may contain hyperlinks.
  * - askby - The username of the user who asked the question.
  * - meta - Additional metadata related to the question, such as the date and time it was asked.
+ * - handleEdit - Callback function to open the editor of the question. Only provided to users who can edit it.
+ * - handleShowHistory - Callback function to show the revision history of the question.
+ * - deletedBy - The username of the user who deleted the question, if it is deleted.
+ * - handleToggleDeleted - Callback function to delete or restore the question. Only provided to users who can do so.
  */
 interface QuestionBodyProps {
   views: number;
   text: string;
   askby: string;
   meta: string;
+  handleEdit?: () => void;
+  handleShowHistory?: () => void;
+  deletedBy?: string | null;
+  handleToggleDeleted?: () => void;
 }
 
 /**
@@ -26,14 +34,49 @@ interface QuestionBodyProps {
  * @param text The content of the question.
  * @param askby The username of the question's author.
  * @param meta Additional metadata related to the question.
+ * @param handleEdit Function to edit the question.
+ * @param handleShowHistory Function to show the revision history of the question.
+ * @param deletedBy The user who deleted the question, if it is deleted.
+ * @param handleToggleDeleted Function to delete or restore the question.
  */
-const QuestionBody = ({ views, text, askby, meta }: QuestionBodyProps) => (
-  <div id='questionBody' className='questionBody right_padding'>
+const QuestionBody = ({
+  views,
+  text,
+  askby,
+  meta,
+  handleEdit,
+  handleShowHistory,
+  deletedBy,
+  handleToggleDeleted,
+}: QuestionBodyProps) => (
+  <div
+    id='questionBody'
+    className={`questionBody right_padding ${deletedBy ? 'post_deleted' : ''}`}>
     <div className='bold_title answer_question_view'>{views} views</div>
-    <div className='answer_question_text'>{handleHyperlink(text)}</div>
+    <div className='answer_question_text'>
+      {deletedBy && <div className='deleted_badge'>Deleted by {deletedBy}</div>}
+      {handleHyperlink(text)}
+    </div>
     <div className='answer_question_right'>
       <div className='question_author'>{askby}</div>
       <div className='answer_question_meta'>asked {meta}</div>
+      <div className='post_actions'>
+        {handleEdit && (
+          <button className='post_action_button' onClick={handleEdit}>
+            Edit
+          </button>
+        )}
+        {handleShowHistory && (
+          <button className='post_action_button' onClick={handleShowHistory}>
+            History
+          </button>
+        )}
+        {handleToggleDeleted && (
+          <button className='post_action_button' onClick={handleToggleDeleted}>
+            {deletedBy ? 'Undelete' : 'Delete'}
+          </button>
+        )}
+      </div>
     </div>
   </div>
 );
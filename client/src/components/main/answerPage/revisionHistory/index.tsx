@@ -0,0 +1,116 @@
+import React from 'react';
+import './index.css';
+import useRevisionHistory from '../../../../hooks/useRevisionHistory';
+import { diffLines } from '../../../../tool';
+import { PostContent, RevisionTargetType } from '../../../../types';
+
+/**
+ * Interface representing the props for the RevisionHistory component.
+ *
+ * - targetType - Whether the post is a question or an answer.
+ * - targetId - The ID of the post.
+ * - current - The current content of the post.
+ * - handleClose - Callback function to close the revision history.
+ */
+interface RevisionHistoryProps {
+  targetType: RevisionTargetType;
+  targetId: string;
+  current: PostContent;
+  handleClose: () => void;
+}
+
+/**
+ * Interface representing the props for the DiffView component.
+ *
+ * - label - The name of the compared field.
+ * - before - The value of the field before the edit.
+ * - after - The value of the field after the edit.
+ */
+interface DiffViewProps {
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * DiffView component that displays two versions of a field side by side, highlighting the lines
+ * that were removed, added or changed.
+ *
+ * @param label The name of the compared field.
+ * @param before The older version.
+ * @param after The newer version.
+ */
+const DiffView = ({ label, before, after }: DiffViewProps) => (
+  <div className='diff_field'>
+    <div className='diff_label'>{label}</div>
+    <table className='diff_table'>
+      <tbody>
+        {diffLines(before, after).map((row, idx) => (
+          <tr key={idx} className={`diff_row_${row.type}`}>
+            <td className='diff_before'>{row.left}</td>
+            <td className='diff_after'>{row.right}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/**
+ * RevisionHistory component that lists the edits of a question or answer, and shows the selected
+ * edit as a side-by-side diff of the versions before and after it.
+ *
+ * @param targetType Whether the post is a question or an answer.
+ * @param targetId The ID of the post.
+ * @param current The current content of the post.
+ * @param handleClose Function to close the revision history.
+ */
+const RevisionHistory = ({ targetType, targetId, current, handleClose }: RevisionHistoryProps) => {
+  const { revisions, selected, setSelected, before, after, err } = useRevisionHistory(
+    targetType,
+    targetId,
+    current,
+  );
+
+  return (
+    <div className='revision_history right_padding'>
+      <div className='revision_history_header'>
+        <h3>Revision History</h3>
+        <button className='revision_history_close' onClick={handleClose}>
+          Close
+        </button>
+      </div>
+      {err && <div className='revision_history_error'>{err}</div>}
+      {!err && revisions.length === 0 && <div>This {targetType} has not been edited.</div>}
+      <ul className='revision_list'>
+        {revisions.map((revision, idx) => (
+          <li
+            key={revision._id ?? idx}
+            className={idx === selected ? 'revision_item revision_selected' : 'revision_item'}
+            onClick={() => setSelected(idx)}>
+            Edit {idx + 1} by <strong>{revision.editedBy}</strong> on{' '}
+            {new Date(revision.editedAt).toLocaleString()}
+            {revision.summary && <span className='revision_summary'>: {revision.summary}</span>}
+          </li>
+        ))}
+      </ul>
+      {before && after && (
+        <>
+          {targetType === 'question' && (
+            <>
+              <DiffView label='Title' before={before.title ?? ''} after={after.title ?? ''} />
+              <DiffView
+                label='Tags'
+                before={(before.tags ?? []).join(' ')}
+                after={(after.tags ?? []).join(' ')}
+              />
+            </>
+          )}
+          <DiffView label='Text' before={before.text} after={after.text} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import './index.css';
+import useQuestionCollections from '../../../../hooks/useQuestionCollections';
+
+/**
+ * Interface representing the props for the SaveQuestion component.
+ *
+ * qid - The ID of the question.
+ * bookmarkCount - The number of users who bookmarked the question.
+ * isBookmarked - Whether the current user bookmarked the question.
+ * handleToggleBookmark - Function to bookmark the question, or remove the bookmark.
+ */
+interface SaveQuestionProps {
+  qid: string;
+  bookmarkCount: number;
+  isBookmarked: boolean;
+  handleToggleBookmark: () => void;
+}
+
+/**
+ * SaveQuestion component renders the controls to bookmark a question and to add it to the
+ * collections of the user, or remove it from them.
+ *
+ * @param qid - The ID of the question.
+ * @param bookmarkCount - The number of users who bookmarked the question.
+ * @param isBookmarked - Whether the current user bookmarked the question.
+ * @param handleToggleBookmark - Function to bookmark the question, or remove the bookmark.
+ */
+const SaveQuestion = ({
+  qid,
+  bookmarkCount,
+  isBookmarked,
+  handleToggleBookmark,
+}: SaveQuestionProps) => {
+  const { collections, toggleCollection } = useQuestionCollections(qid);
+
+  return (
+    <div className='save_question right_padding'>
+      <button
+        className={`save_question_bookmark ${isBookmarked ? 'save_question_bookmarked' : ''}`}
+        onClick={handleToggleBookmark}>
+        {isBookmarked ? 'Bookmarked' : 'Bookmark'}
+      </button>
+      <span className='save_question_count'>{bookmarkCount} bookmarks</span>
+      {collections.length > 0 ? (
+        <select
+          className='save_question_collections'
+          value=''
+          onChange={e => toggleCollection(e.target.value)}>
+          <option value='' disabled>
+            Save to collection...
+          </option>
+          {collections.map(c => (
+            <option key={c._id} value={c._id}>
+              {c.questions.includes(qid) ? `✓ ${c.name}` : c.name}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <Link to='/collections' className='save_question_link'>
+          Create a collection
+        </Link>
+      )}
+    </div>
+  );
+};
+
+export default SaveQuestion;
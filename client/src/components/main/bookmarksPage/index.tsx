@@ -0,0 +1,15 @@
+import React from 'react';
+import QuestionPage from '../questionPage';
+import useUserContext from '../../../hooks/useUserContext';
+
+/**
+ * BookmarksPage component renders the questions the current user bookmarked, with the same
+ * ordering and pager controls as the list of all questions.
+ */
+const BookmarksPage = () => {
+  const { user } = useUserContext();
+
+  return <QuestionPage filter={{ bookmarkedBy: user.username }} title='Bookmarks' />;
+};
+
+export default BookmarksPage;
@@ -0,0 +1,61 @@
+import React from 'react';
+import './index.css';
+import QuestionPage from '../questionPage';
+import useCollectionPage from '../../../hooks/useCollectionPage';
+
+/**
+ * CollectionPage component renders the questions of a collection, with the same ordering and
+ * pager controls as the list of all questions. Its owner can also share the collection by link,
+ * make it private again, or delete it.
+ */
+const CollectionPage = () => {
+  const {
+    collectionID,
+    collection,
+    error,
+    canManage,
+    copied,
+    handleToggleShared,
+    handleCopyLink,
+    handleDelete,
+  } = useCollectionPage();
+
+  if (error) {
+    return <div className='bold_title right_padding'>{error}</div>;
+  }
+
+  if (!collection) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className='collection_info right_padding'>
+        <div className='collection_owner'>
+          Collection by {collection.owner} · {collection.shared ? 'shared' : 'private'}
+        </div>
+        {collection.description && (
+          <div className='collection_description'>{collection.description}</div>
+        )}
+        <div className='collection_actions'>
+          {collection.shared && (
+            <button onClick={handleCopyLink}>{copied ? 'Link copied' : 'Copy link'}</button>
+          )}
+          {canManage && (
+            <>
+              <button onClick={handleToggleShared}>
+                {collection.shared ? 'Make private' : 'Share by link'}
+              </button>
+              <button className='collection_delete' onClick={handleDelete}>
+                Delete collection
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <QuestionPage filter={{ collection: collectionID }} title={collection.name} />
+    </>
+  );
+};
+
+export default CollectionPage;
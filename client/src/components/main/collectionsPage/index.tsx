@@ -0,0 +1,68 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import './index.css';
+import useCollectionsPage from '../../../hooks/useCollectionsPage';
+import { getMetaData } from '../../../tool';
+
+/**
+ * CollectionsPage component renders the collections of the current user, with a form to create
+ * a new one. Each collection links to the page listing its questions.
+ */
+const CollectionsPage = () => {
+  const {
+    collections,
+    name,
+    setName,
+    description,
+    setDescription,
+    shared,
+    setShared,
+    err,
+    handleCreate,
+  } = useCollectionsPage();
+
+  return (
+    <div className='collections_page right_padding'>
+      <div className='bold_title'>My Collections</div>
+      <div className='collections_form'>
+        <input
+          className='collections_input'
+          placeholder='Collection name'
+          value={name}
+          onChange={e => setName(e.target.value)}
+        />
+        <input
+          className='collections_input'
+          placeholder='Description (optional)'
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+        />
+        <label>
+          <input type='checkbox' checked={shared} onChange={e => setShared(e.target.checked)} />
+          Share by link
+        </label>
+        <button className='bluebtn' onClick={handleCreate}>
+          Create
+        </button>
+      </div>
+      {err && <div className='collections_error'>{err}</div>}
+      {collections.length === 0 && <div className='collections_empty'>No collections yet</div>}
+      <ul className='collections_list'>
+        {collections.map(c => (
+          <li key={c._id} className='collections_item'>
+            <Link to={`/collection/${c._id}`} className='collections_name'>
+              {c.name}
+            </Link>
+            {c.shared && <span className='collections_shared'>shared</span>}
+            {c.description && <div className='collections_description'>{c.description}</div>}
+            <div className='collections_meta'>
+              {c.questions.length} questions · updated {getMetaData(new Date(c.updatedAt))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CollectionsPage;
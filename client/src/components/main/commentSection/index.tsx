@@ -8,11 +8,15 @@ import useUserContext from '../../../hooks/useUserContext';
  * Interface representing the props for the Comment Section component.
  *
  * - comments - list of the comment components
- * - handleAddComment - a function that handles adding a new comment, taking a Comment object as an argument
+ * - handleAddComment - a function that handles adding a new comment, taking a Comment object as an argument. Not provided when comments cannot be added
+ * - handleToggleDeleted - a function that deletes a comment, or restores it if it is deleted
+ * - canToggleDeleted - a function that checks whether the current user can delete or restore a comment
  */
 interface CommentSectionProps {
   comments: Comment[];
-  handleAddComment: (comment: Comment) => void;
+  handleAddComment?: (comment: Comment) => void;
+  handleToggleDeleted?: (comment: Comment) => void;
+  canToggleDeleted?: (comment: Comment) => boolean;
 }
 
 /**
@@ -20,8 +24,15 @@ interface CommentSectionProps {
  *
  * @param comments: an array of Comment objects
  * @param handleAddComment: function to handle the addition of a new comment
+ * @param handleToggleDeleted: function to delete or restore a comment
+ * @param canToggleDeleted: function to check whether a comment can be deleted or restored
  */
-const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) => {
+const CommentSection = ({
+  comments,
+  handleAddComment,
+  handleToggleDeleted,
+  canToggleDeleted,
+}: CommentSectionProps) => {
   const { user } = useUserContext();
   const [text, setText] = useState<string>('');
   const [textErr, setTextErr] = useState<string>('');
@@ -42,7 +53,7 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
       commentDateTime: new Date(),
     };
 
-    handleAddComment(newComment);
+    handleAddComment?.(newComment);
     setText('');
     setTextErr('');
   };
@@ -58,11 +69,21 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
           <ul className='comments-list'>
             {comments.length > 0 ? (
               comments.map((comment, index) => (
-                <li key={index} className='comment-item'>
+                <li
+                  key={index}
+                  className={`comment-item ${comment.deletedAt ? 'comment-deleted' : ''}`}>
                   <p className='comment-text'>{comment.text}</p>
                   <small className='comment-meta'>
                     {comment.commentBy}, {getMetaData(new Date(comment.commentDateTime))}
+                    {comment.deletedAt && ` (deleted by ${comment.deletedBy})`}
                   </small>
+                  {handleToggleDeleted && canToggleDeleted?.(comment) && (
+                    <button
+                      className='comment-delete-button'
+                      onClick={() => handleToggleDeleted(comment)}>
+                      {comment.deletedAt ? 'Undelete' : 'Delete'}
+                    </button>
+                  )}
                 </li>
               ))
             ) : (
@@ -70,20 +91,22 @@ const CommentSection = ({ comments, handleAddComment }: CommentSectionProps) =>
             )}
           </ul>
 
-          <div className='add-comment'>
-            <div className='input-row'>
-              <textarea
-                placeholder='Comment'
-                value={text}
-                onChange={e => setText(e.target.value)}
-                className='comment-textarea'
-              />
-              <button className='add-comment-button' onClick={handleAddCommentClick}>
-                Add Comment
-              </button>
+          {handleAddComment && (
+            <div className='add-comment'>
+              <div className='input-row'>
+                <textarea
+                  placeholder='Comment'
+                  value={text}
+                  onChange={e => setText(e.target.value)}
+                  className='comment-textarea'
+                />
+                <button className='add-comment-button' onClick={handleAddCommentClick}>
+                  Add Comment
+                </button>
+              </div>
+              {textErr && <small className='error'>{textErr}</small>}
             </div>
-            {textErr && <small className='error'>{textErr}</small>}
-          </div>
+          )}
         </div>
       )}
     </div>
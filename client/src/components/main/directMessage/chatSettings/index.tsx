@@ -0,0 +1,93 @@
+import React from 'react';
+import './index.css';
+import { Chat } from '../../../../types';
+import useChatSettings from '../../../../hooks/useChatSettings';
+
+/**
+ * ChatSettings component lists the members of a group chat with their roles. Admins can rename
+ * the group and add or remove members, the owner can also change who the admins are and transfer
+ * the ownership, and every member can leave the group.
+ *
+ * @param chat The group chat.
+ * @param handleLeft Function called once the user has left the chat.
+ */
+const ChatSettings = ({ chat, handleLeft }: { chat: Chat; handleLeft: () => void }) => {
+  const {
+    isOwner,
+    isAdmin,
+    newName,
+    setNewName,
+    newMember,
+    setNewMember,
+    error,
+    handleRename,
+    handleAddMember,
+    handleRemoveMember,
+    handleSetAdmin,
+    handleTransferOwnership,
+    handleLeave,
+  } = useChatSettings(chat, handleLeft);
+
+  return (
+    <div className='chat-settings'>
+      <ul className='chat-members'>
+        {chat.participants.map(member => {
+          const memberIsAdmin = !!chat.admins?.includes(member);
+
+          return (
+            <li key={member} className='chat-member'>
+              <span>
+                {member}
+                {member === chat.owner && <span className='chat-role'> owner</span>}
+                {member !== chat.owner && memberIsAdmin && (
+                  <span className='chat-role'> admin</span>
+                )}
+              </span>
+              {isOwner && member !== chat.owner && (
+                <>
+                  <button onClick={() => handleSetAdmin(member, !memberIsAdmin)}>
+                    {memberIsAdmin ? 'Remove admin' : 'Make admin'}
+                  </button>
+                  <button onClick={() => handleTransferOwnership(member)}>Make owner</button>
+                </>
+              )}
+              {isAdmin && member !== chat.owner && (isOwner || !memberIsAdmin) && (
+                <button onClick={() => handleRemoveMember(member)}>Remove</button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {isAdmin && (
+        <div className='chat-settings-row'>
+          <input
+            className='custom-input'
+            placeholder='Username to add'
+            value={newMember}
+            onChange={e => setNewMember(e.target.value)}
+          />
+          <button className='custom-button' onClick={handleAddMember}>
+            Add
+          </button>
+          <input
+            className='custom-input'
+            placeholder='New group name'
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+          />
+          <button className='custom-button' onClick={handleRename}>
+            Rename
+          </button>
+        </div>
+      )}
+      {!isOwner && (
+        <button className='custom-button' onClick={handleLeave}>
+          Leave Group
+        </button>
+      )}
+      {error && <p className='chat-settings-error'>{error}</p>}
+    </div>
+  );
+};
+
+export default ChatSettings;
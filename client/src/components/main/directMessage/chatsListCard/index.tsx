@@ -4,6 +4,7 @@ import { Chat } from '../../../../types';
 
 /**
  * ChatsListCard component displays information about a chat and allows the user to select it.
+ * Group chats are shown by their name, and chats with unread messages show how many there are.
  *
  * @param chat: The chat object containing details like participants and chat ID.
  * @param handleChatSelect: A function to handle the selection of a chat, receiving the chat's ID as an argument.
@@ -16,7 +17,8 @@ const ChatsListCard = ({
   handleChatSelect: (chatID: string | undefined) => void;
 }) => (
   <div className='chats-list-card' onClick={() => handleChatSelect(chat._id)}>
-    <p>{chat.participants.join(', ')}</p>
+    <p>{chat.name ?? chat.participants.join(', ')}</p>
+    {!!chat.unreadCount && <span className='chats-list-badge'>{chat.unreadCount}</span>}
   </div>
 );
 
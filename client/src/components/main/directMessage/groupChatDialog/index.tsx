@@ -0,0 +1,44 @@
+import React from 'react';
+import './index.css';
+import { Chat } from '../../../../types';
+import UsersListPage from '../../usersListPage';
+import useGroupChatDialog from '../../../../hooks/useGroupChatDialog';
+
+/**
+ * GroupChatDialog component lets the user create a named group chat with the members they pick
+ * from the list of users.
+ *
+ * @param handleCreated Function called with the group chat once it is created.
+ */
+const GroupChatDialog = ({ handleCreated }: { handleCreated: (chat: Chat) => void }) => {
+  const { open, setOpen, name, setName, members, toggleMember, error, handleCreateGroup } =
+    useGroupChatDialog(handleCreated);
+
+  return (
+    <div className='group-dialog'>
+      <button className='custom-button' onClick={() => setOpen(!open)}>
+        {open ? 'Cancel' : 'New Group'}
+      </button>
+      {open && (
+        <div className='group-dialog-body'>
+          <input
+            className='custom-input'
+            placeholder='Group name'
+            value={name}
+            onChange={e => setName(e.target.value)}
+          />
+          <p className='group-dialog-members'>
+            Members: {members.length > 0 ? members.join(', ') : 'click users below to add them'}
+          </p>
+          <button className='custom-button' onClick={handleCreateGroup}>
+            Create Group
+          </button>
+          {error && <p className='group-dialog-error'>{error}</p>}
+          <UsersListPage handleUserSelect={toggleMember} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupChatDialog;
@@ -4,10 +4,15 @@ import useDirectMessage from '../../../hooks/useDirectMessage';
 import ChatsListCard from './chatsListCard';
 import UsersListPage from '../usersListPage';
 import MessageCard from '../messageCard';
+import GroupChatDialog from './groupChatDialog';
+import ChatSettings from './chatSettings';
 
 /**
  * DirectMessage component renders a page for direct messaging between users.
- * It includes a list of users and a chat window to send and receive messages.
+ * It includes a list of users and a chat window to send and receive messages, a dialog to create
+ * group chats, and the settings of the selected group chat. Scrolling to the top of the chat
+ * window loads older messages, and the participants who read the latest message are shown below it.
+ * The other participants who are typing a message are shown above the message input.
  */
 const DirectMessage = () => {
   const {
@@ -15,13 +20,22 @@ const DirectMessage = () => {
     chatToCreate,
     chats,
     newMessage,
-    setNewMessage,
+    handleNewMessageChange,
+    typingUsers,
     showCreatePanel,
     setShowCreatePanel,
     handleSendMessage,
     handleChatSelect,
     handleUserSelect,
     handleCreateChat,
+    handleChatCreated,
+    handleChatLeft,
+    loadingMessages,
+    messagesRef,
+    handleMessagesScroll,
+    handleEditMessage,
+    handleDeleteMessage,
+    seenBy,
   } = useDirectMessage();
 
   return (
@@ -41,6 +55,7 @@ const DirectMessage = () => {
             <UsersListPage handleUserSelect={handleUserSelect} />
           </>
         )}
+        <GroupChatDialog handleCreated={handleChatCreated} />
       </div>
       <div className='direct-message-container'>
         <div className='chats-list'>
@@ -51,18 +66,44 @@ const DirectMessage = () => {
         <div className='chat-container'>
           {selectedChat ? (
             <>
-              <h2>Chat Participants: {selectedChat.participants.join(', ')}</h2>
-              <div className='chat-messages'>
+              {selectedChat.owner ? (
+                <>
+                  <h2>{selectedChat.name}</h2>
+                  <ChatSettings
+                    key={selectedChat._id}
+                    chat={selectedChat}
+                    handleLeft={handleChatLeft}
+                  />
+                </>
+              ) : (
+                <h2>Chat Participants: {selectedChat.participants.join(', ')}</h2>
+              )}
+              <div className='chat-messages' ref={messagesRef} onScroll={handleMessagesScroll}>
+                {loadingMessages && (
+                  <div className='chat-messages-status'>Loading older messages...</div>
+                )}
                 {selectedChat.messages.map(message => (
-                  <MessageCard key={message._id} message={message} />
+                  <MessageCard
+                    key={message._id}
+                    message={message}
+                    handleEdit={msg => handleEditMessage(message._id!, msg)}
+                    handleDelete={() => handleDeleteMessage(message._id!)}
+                  />
                 ))}
+                {seenBy.length > 0 && (
+                  <div className='chat-messages-status'>Seen by {seenBy.join(', ')}</div>
+                )}
+              </div>
+              <div className='chat-typing'>
+                {typingUsers.length > 0 &&
+                  `${typingUsers.join(', ')} ${typingUsers.length === 1 ? 'is' : 'are'} typing…`}
               </div>
               <div className='message-input'>
                 <input
                   className='custom-input'
                   type='text'
                   value={newMessage}
-                  onChange={e => setNewMessage(e.target.value)}
+                  onChange={e => handleNewMessageChange(e.target.value)}
                 />
                 <button className='custom-button' onClick={handleSendMessage}>
                   Send
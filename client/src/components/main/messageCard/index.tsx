@@ -2,20 +2,104 @@ import React from 'react';
 import './index.css';
 import { Message } from '../../../types';
 import { getMetaData } from '../../../tool';
+import useMessageCard from '../../../hooks/useMessageCard';
 
 /**
- * MessageCard component displays a single message with its sender and timestamp.
+ * Interface representing the props for the MessageCard component.
+ *
+ * - message - The message to display.
+ * - handleEdit - Function to save the new text of the message, if it can be edited.
+ * - handleDelete - Function to delete the message, if it can be deleted.
+ */
+interface MessageCardProps {
+  message: Message;
+  handleEdit?: (msg: string) => Promise<void>;
+  handleDelete?: () => Promise<void>;
+}
+
+/**
+ * MessageCard component displays a single message with its sender and timestamp. System messages,
+ * which record changes to a group chat, are shown as a note instead. Edited messages are marked as
+ * such, and deleted messages are shown without their text. The author of a message can edit or
+ * delete it, when the page allows it.
  *
  * @param message: The message object to display.
+ * @param handleEdit: Function to save the new text of the message.
+ * @param handleDelete: Function to delete the message.
  */
-const MessageCard = ({ message }: { message: Message }) => (
-  <div className='message'>
-    <div className='message-header'>
-      <div className='message-sender'>{message.msgFrom}</div>
-      <div className='message-time'>{getMetaData(new Date(message.msgDateTime))}</div>
+const MessageCard = ({ message, handleEdit, handleDelete }: MessageCardProps) => {
+  const {
+    canEdit,
+    canDelete,
+    editing,
+    draft,
+    setDraft,
+    error,
+    startEditing,
+    cancelEditing,
+    saveEdit,
+    deleteMessage,
+  } = useMessageCard(message, handleEdit, handleDelete);
+
+  if (message.type === 'system') {
+    return (
+      <div className='message-system'>
+        {message.msg} · {getMetaData(new Date(message.msgDateTime))}
+      </div>
+    );
+  }
+
+  return (
+    <div className='message'>
+      <div className='message-header'>
+        <div className='message-sender'>{message.msgFrom}</div>
+        <div className='message-time'>
+          {getMetaData(new Date(message.msgDateTime))}
+          {message.editedAt && !message.deletedAt && (
+            <span
+              className='message-edited'
+              title={`Edited ${getMetaData(new Date(message.editedAt))}`}>
+              {' '}
+              (edited)
+            </span>
+          )}
+        </div>
+      </div>
+      {message.deletedAt && <div className='message-body message-deleted'>message deleted</div>}
+      {!message.deletedAt && editing && (
+        <div className='message-edit'>
+          <input
+            className='message-edit-input'
+            type='text'
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+          />
+          <button className='message-action' onClick={saveEdit}>
+            Save
+          </button>
+          <button className='message-action' onClick={cancelEditing}>
+            Cancel
+          </button>
+        </div>
+      )}
+      {!message.deletedAt && !editing && <div className='message-body'>{message.msg}</div>}
+      {!editing && (canEdit || canDelete) && (
+        <div className='message-actions-row'>
+          {canEdit && (
+            <button className='message-action' onClick={startEditing}>
+              Edit
+            </button>
+          )}
+          {canDelete && (
+            <button className='message-action' onClick={deleteMessage}>
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+      {error && <div className='message-error'>{error}</div>}
     </div>
-    <div className='message-body'>{message.msg}</div>
-  </div>
-);
+  );
+};
 
 export default MessageCard;
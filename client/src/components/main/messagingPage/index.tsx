@@ -4,10 +4,18 @@ import MessageCard from '../messageCard';
 
 /**
  * Represents the MessagingPage component which displays the public chat room.
- * and provides functionality to send and receive messages.
+ * and provides functionality to send and receive messages, and to edit or delete one's own.
  */
 const MessagingPage = () => {
-  const { messages, newMessage, setNewMessage, handleSendMessage, error } = useMessagingPage();
+  const {
+    messages,
+    newMessage,
+    setNewMessage,
+    handleSendMessage,
+    handleEditMessage,
+    handleDeleteMessage,
+    error,
+  } = useMessagingPage();
 
   return (
     <div className='chat-room'>
@@ -16,7 +24,12 @@ const MessagingPage = () => {
       </div>
       <div className='chat-messages'>
         {messages.map(message => (
-          <MessageCard key={message._id} message={message} />
+          <MessageCard
+            key={message._id}
+            message={message}
+            handleEdit={msg => handleEditMessage(message._id!, msg)}
+            handleDelete={() => handleDeleteMessage(message._id!)}
+          />
         ))}
       </div>
       <div className='message-input'>
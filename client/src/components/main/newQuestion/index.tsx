@@ -1,13 +1,16 @@
 import React from 'react';
 import useNewQuestion from '../../../hooks/useNewQuestion';
+import useSimilarQuestions from '../../../hooks/useSimilarQuestions';
 import Form from '../baseComponents/form';
 import Input from '../baseComponents/input';
 import TextArea from '../baseComponents/textarea';
+import SimilarQuestions from '../similarQuestions';
 import './index.css';
 
 /**
  * NewQuestionPage component allows users to submit a new question with a title,
- * description, tags, and username.
+ * description, tags, and username. Existing questions similar to the one being written are
+ * suggested as it is typed, so that users can check them before asking.
  */
 const NewQuestionPage = () => {
   const {
@@ -22,6 +25,7 @@ const NewQuestionPage = () => {
     tagErr,
     postQuestion,
   } = useNewQuestion();
+  const { similarQuestions } = useSimilarQuestions(title, text, tagNames);
 
   return (
     <Form>
@@ -33,6 +37,10 @@ const NewQuestionPage = () => {
         setState={setTitle}
         err={titleErr}
       />
+      <SimilarQuestions
+        heading='Similar questions that may already have your answer'
+        questions={similarQuestions}
+      />
       <TextArea
         title={'Question Text'}
         hint={'Add details'}
@@ -10,11 +10,17 @@ import AskQuestionButton from '../../askQuestionButton';
  * titleText - The title text displayed at the top of the header.
  * qcnt - The number of questions to be displayed in the header.
  * setQuestionOrder - A function that sets the order of questions based on the selected message.
+ * showRelevance - Whether the questions can be ordered by relevance, when searching by keywords.
+ * showDeleted - Whether deleted questions are included in the list.
+ * setShowDeleted - A function that includes or excludes deleted questions. Only provided to moderators.
  */
 interface QuestionHeaderProps {
   titleText: string;
   qcnt: number;
   setQuestionOrder: (order: OrderType) => void;
+  showRelevance?: boolean;
+  showDeleted?: boolean;
+  setShowDeleted?: (showDeleted: boolean) => void;
 }
 
 /**
@@ -25,8 +31,18 @@ interface QuestionHeaderProps {
  * @param titleText - The title text to display in the header.
  * @param qcnt - The number of questions displayed in the header.
  * @param setQuestionOrder - Function to set the order of questions based on input message.
+ * @param showRelevance - Whether to show the relevance order button.
+ * @param showDeleted - Whether deleted questions are shown.
+ * @param setShowDeleted - Function to show or hide deleted questions.
  */
-const QuestionHeader = ({ titleText, qcnt, setQuestionOrder }: QuestionHeaderProps) => (
+const QuestionHeader = ({
+  titleText,
+  qcnt,
+  setQuestionOrder,
+  showRelevance,
+  showDeleted,
+  setShowDeleted,
+}: QuestionHeaderProps) => (
   <div>
     <div className='space_between right_padding'>
       <div className='bold_title'>{titleText}</div>
@@ -34,14 +50,26 @@ const QuestionHeader = ({ titleText, qcnt, setQuestionOrder }: QuestionHeaderPro
     </div>
     <div className='space_between right_padding'>
       <div id='question_count'>{qcnt} questions</div>
-      <div className='btns'>
-        {Object.keys(orderTypeDisplayName).map((order, idx) => (
-          <OrderButton
-            key={idx}
-            orderType={order as OrderType}
-            setQuestionOrder={setQuestionOrder}
+      {setShowDeleted && (
+        <label className='show_deleted'>
+          <input
+            type='checkbox'
+            checked={!!showDeleted}
+            onChange={e => setShowDeleted(e.target.checked)}
           />
-        ))}
+          Show deleted
+        </label>
+      )}
+      <div className='btns'>
+        {Object.keys(orderTypeDisplayName)
+          .filter(order => showRelevance || order !== 'relevance')
+          .map((order, idx) => (
+            <OrderButton
+              key={idx}
+              orderType={order as OrderType}
+              setQuestionOrder={setQuestionOrder}
+            />
+          ))}
       </div>
     </div>
   </div>
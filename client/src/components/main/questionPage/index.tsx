@@ -2,29 +2,65 @@ import React from 'react';
 import './index.css';
 import QuestionHeader from './header';
 import QuestionView from './question';
+import Pager from './pager';
 import useQuestionPage from '../../../hooks/useQuestionPage';
+import { QuestionListFilter } from '../../../types';
+
+/**
+ * Interface representing the props for the QuestionPage component.
+ *
+ * filter - The bookmarks or collection to narrow the questions to, if any.
+ * title - The title to show instead of the one derived from the search, if any.
+ */
+interface QuestionPageProps {
+  filter?: QuestionListFilter;
+  title?: string;
+}
 
 /**
  * QuestionPage component renders a page displaying a list of questions
- * based on filters such as order and search terms.
- * It includes a header with order buttons and a button to ask a new question.
+ * based on filters such as order and search terms, one page at a time.
+ * It includes a header with order buttons and a button to ask a new question, and pager controls.
+ * The same list is used for the bookmarks of the user and the questions of a collection.
+ *
+ * @param filter - The bookmarks or collection to narrow the questions to, if any.
+ * @param title - The title to show instead of the one derived from the search, if any.
  */
-const QuestionPage = () => {
-  const { titleText, qlist, setQuestionOrder } = useQuestionPage();
+const QuestionPage = ({ filter, title }: QuestionPageProps) => {
+  const {
+    titleText,
+    qlist,
+    snippets,
+    isSearching,
+    error,
+    total,
+    page,
+    pageCount,
+    setPage,
+    setQuestionOrder,
+    isModerator,
+    showDeleted,
+    setShowDeleted,
+  } = useQuestionPage(filter);
 
   return (
     <>
       <QuestionHeader
-        titleText={titleText}
-        qcnt={qlist.length}
+        titleText={title ?? titleText}
+        qcnt={total}
         setQuestionOrder={setQuestionOrder}
+        showRelevance={isSearching}
+        showDeleted={showDeleted}
+        setShowDeleted={isModerator ? setShowDeleted : undefined}
       />
+      {error && <div className='question_list_error right_padding'>{error}</div>}
       <div id='question_list' className='question_list'>
         {qlist.map((q, idx) => (
-          <QuestionView q={q} key={idx} />
+          <QuestionView q={q} key={idx} snippet={q._id ? snippets[q._id] : undefined} />
         ))}
       </div>
-      {titleText === 'Search Results' && !qlist.length && (
+      <Pager page={page} pageCount={pageCount} setPage={setPage} />
+      {titleText === 'Search Results' && !error && !qlist.length && (
         <div className='bold_title right_padding'>No Questions Found</div>
       )}
     </>
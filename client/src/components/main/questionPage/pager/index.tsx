@@ -0,0 +1,45 @@
+import React from 'react';
+import './index.css';
+
+/**
+ * Interface representing the props for the Pager component.
+ *
+ * page - The number of the page being displayed, starting at 1.
+ * pageCount - The number of pages.
+ * setPage - A function that displays another page.
+ */
+interface PagerProps {
+  page: number;
+  pageCount: number;
+  setPage: (page: number) => void;
+}
+
+/**
+ * Pager component renders the controls to move between the pages of the question list.
+ * Nothing is rendered when all the questions fit on a single page.
+ *
+ * @param page - The number of the current page.
+ * @param pageCount - The number of pages.
+ * @param setPage - Callback function to display another page.
+ */
+const Pager = ({ page, pageCount, setPage }: PagerProps) => {
+  if (pageCount <= 1) {
+    return null;
+  }
+
+  return (
+    <div className='pager right_padding'>
+      <button className='btn' disabled={page <= 1} onClick={() => setPage(page - 1)}>
+        Previous
+      </button>
+      <span className='pager_status'>
+        Page {page} of {pageCount}
+      </span>
+      <button className='btn' disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+        Next
+      </button>
+    </div>
+  );
+};
+
+export default Pager;
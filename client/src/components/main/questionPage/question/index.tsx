@@ -2,15 +2,17 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import './index.css';
 import { getMetaData } from '../../../../tool';
-import { Question } from '../../../../types';
+import { Question, SnippetPart } from '../../../../types';
 
 /**
  * Interface representing the props for the Question component.
  *
  * q - The question object containing details about the question.
+ * snippet - The search result snippet of the question, with the matched terms highlighted.
  */
 interface QuestionProps {
   q: Question;
+  snippet?: SnippetPart[];
 }
 
 /**
@@ -19,8 +21,9 @@ interface QuestionProps {
  * and clicking on a tag triggers the clickTag function.
  *
  * @param q - The question object containing question details.
+ * @param snippet - The search result snippet to show below the title, if any.
  */
-const QuestionView = ({ q }: QuestionProps) => {
+const QuestionView = ({ q, snippet }: QuestionProps) => {
   const navigate = useNavigate();
 
   /**
@@ -46,7 +49,7 @@ const QuestionView = ({ q }: QuestionProps) => {
 
   return (
     <div
-      className='question right_padding'
+      className={`question right_padding ${q.deletedAt ? 'question_deleted' : ''}`}
       onClick={() => {
         if (q._id) {
           handleAnswer(q._id);
@@ -55,9 +58,25 @@ const QuestionView = ({ q }: QuestionProps) => {
       <div className='postStats'>
         <div>{q.answers.length || 0} answers</div>
         <div>{q.views.length} views</div>
+        <div>{q.bookmarkCount ?? 0} bookmarks</div>
       </div>
       <div className='question_mid'>
-        <div className='postTitle'>{q.title}</div>
+        <div className='postTitle'>
+          {q.bounty && <span className='question_bounty'>+{q.bounty.amount}</span>}
+          {q.title}
+          {q.status === 'closed' && (
+            <span className='question_status'> [{q.duplicateOf ? 'duplicate' : 'closed'}]</span>
+          )}
+          {q.status === 'locked' && <span className='question_status'> [locked]</span>}
+        </div>
+        {snippet && snippet.length > 0 && (
+          <div className='question_snippet'>
+            {snippet.map((part, idx) =>
+              part.match ? <mark key={idx}>{part.text}</mark> : <span key={idx}>{part.text}</span>,
+            )}
+          </div>
+        )}
+        {q.deletedAt && <div className='deleted_marker'>deleted by {q.deletedBy}</div>}
         <div className='question_tags'>
           {q.tags.map((tag, idx) => (
             <button
@@ -1,15 +1,19 @@
 import React, { useState } from 'react';
 import './index.css';
 import { NavLink, useLocation } from 'react-router-dom';
+import useUnreadChatCount from '../../../hooks/useUnreadChatCount';
 
 /**
- * The SideBarNav component has four menu items: "Questions", "Tags", "Messaging", and "Users".
+ * The SideBarNav component has menu items for the questions, tags, messaging, users, games, and
+ * the bookmarks and collections of the user. The messaging items show how many chat messages the
+ * user has not read yet.
  * It highlights the currently selected item based on the active page and
  * triggers corresponding functions when the menu items are clicked.
  */
 const SideBarNav = () => {
   const [showOptions, setShowOptions] = useState<boolean>(false);
   const location = useLocation();
+  const { unreadChatCount } = useUnreadChatCount();
 
   const toggleOptions = () => {
     setShowOptions(!showOptions);
@@ -38,6 +42,7 @@ const SideBarNav = () => {
         className={({ isActive }) => `menu_button ${isActive ? 'menu_selected' : ''}`}
         onClick={toggleOptions}>
         Messaging
+        {unreadChatCount > 0 && <span className='menu_badge'>{unreadChatCount}</span>}
       </NavLink>
       {showOptions && (
         <div className='additional-options'>
@@ -50,6 +55,7 @@ const SideBarNav = () => {
             to='/messaging/direct-message'
             className={`menu_button message-options ${isActiveOption('/messaging/direct-message')}`}>
             Direct Messages
+            {unreadChatCount > 0 && <span className='menu_badge'>{unreadChatCount}</span>}
           </NavLink>
         </div>
       )}
@@ -65,6 +71,18 @@ const SideBarNav = () => {
         className={({ isActive }) => `menu_button ${isActive ? 'menu_selected' : ''}`}>
         Games
       </NavLink>
+      <NavLink
+        to='/bookmarks'
+        id='menu_bookmarks'
+        className={({ isActive }) => `menu_button ${isActive ? 'menu_selected' : ''}`}>
+        Bookmarks
+      </NavLink>
+      <NavLink
+        to='/collections'
+        id='menu_collections'
+        className={({ isActive }) => `menu_button ${isActive ? 'menu_selected' : ''}`}>
+        Collections
+      </NavLink>
     </div>
   );
 };
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import './index.css';
+import { SimilarQuestion } from '../../../types';
+
+/**
+ * Interface representing the props for the SimilarQuestions component.
+ *
+ * - heading - The text shown above the list.
+ * - questions - The similar questions, most similar first.
+ * - handleSelect - Callback function to pick one of the questions, if they can be picked.
+ * - selectLabel - The label of the button picking a question.
+ */
+interface SimilarQuestionsProps {
+  heading: string;
+  questions: SimilarQuestion[];
+  handleSelect?: (question: SimilarQuestion) => void;
+  selectLabel?: string;
+}
+
+/**
+ * SimilarQuestions component lists existing questions similar to another one, with links to
+ * them and, when given a select function, a button to pick each of them.
+ *
+ * @param heading The text shown above the list.
+ * @param questions The similar questions, most similar first.
+ * @param handleSelect Function to pick one of the questions.
+ * @param selectLabel The label of the button picking a question.
+ */
+const SimilarQuestions = ({
+  heading,
+  questions,
+  handleSelect,
+  selectLabel = 'Select',
+}: SimilarQuestionsProps) => {
+  if (questions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='similar_questions'>
+      <div className='similar_questions_heading'>{heading}</div>
+      <ul className='similar_questions_list'>
+        {questions.map(q => (
+          <li key={q._id} className='similar_question'>
+            <span className={`similar_question_answers ${q.accepted ? 'accepted' : ''}`}>
+              {q.answerCount}
+            </span>
+            <Link to={`/question/${q._id}`} className='similar_question_title'>
+              {q.title}
+            </Link>
+            {handleSelect && (
+              <button className='similar_question_select' onClick={() => handleSelect(q)}>
+                {selectLabel}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SimilarQuestions;
@@ -9,7 +9,7 @@ import AskQuestionButton from '../askQuestionButton';
  * and provides functionality to handle tag clicks and ask a new question.
  */
 const TagPage = () => {
-  const { tlist, clickTag } = useTagPage();
+  const { tlist, clickTag, refreshTags, getPreference, setPreference } = useTagPage();
 
   return (
     <>
@@ -19,8 +19,15 @@ const TagPage = () => {
         <AskQuestionButton />
       </div>
       <div className='tag_list right_padding'>
-        {tlist.map((t, idx) => (
-          <TagView key={idx} t={t} clickTag={clickTag} />
+        {tlist.map(t => (
+          <TagView
+            key={t.name}
+            t={t}
+            clickTag={clickTag}
+            onMerged={refreshTags}
+            preference={getPreference(t.name)}
+            setPreference={preference => setPreference(t.name, preference)}
+          />
         ))}
       </div>
     </>
@@ -1,29 +1,45 @@
-import React from 'react';
+import React, { useState } from 'react';
 import './index.css';
-import { TagData } from '../../../../types';
+import { TagData, TagPreference } from '../../../../types';
 import useTagSelected from '../../../../hooks/useTagSelected';
+import useUserContext from '../../../../hooks/useUserContext';
+import TagManager from '../tagManager';
 
 /**
  * Props for the Tag component.
  *
  * t - The tag object.
  * clickTag - Function to handle the tag click event.
+ * onMerged - Function called after a moderator merged the tag into another.
+ * preference - Whether the current user watches or ignores the tag.
+ * setPreference - Function to watch, ignore, or stop following the tag.
  */
 interface TagProps {
   t: TagData;
   clickTag: (tagName: string) => void;
+  onMerged: () => void;
+  preference: TagPreference;
+  setPreference: (preference: TagPreference) => void;
 }
 
 /**
  * Tag component that displays information about a specific tag.
- * The component displays the tag's name, description, and the number of associated questions.
- * It also triggers a click event to handle tag selection.
+ * The component displays the tag's name, description, synonyms, and the number of associated
+ * questions, with buttons to watch or ignore the tag. It also triggers a click event to handle
+ * tag selection.
+ * Moderators can open controls to curate the tag.
  *
  * @param t - The tag object .
  * @param clickTag - Function to handle tag clicks.
+ * @param onMerged - Function called after the tag was merged into another.
+ * @param preference - Whether the current user watches or ignores the tag.
+ * @param setPreference - Function to change how the current user follows the tag.
  */
-const TagView = ({ t, clickTag }: TagProps) => {
-  const { tag } = useTagSelected(t);
+const TagView = ({ t, clickTag, onMerged, preference, setPreference }: TagProps) => {
+  const { tag, setTag } = useTagSelected(t);
+  const { user } = useUserContext();
+  const [managing, setManaging] = useState<boolean>(false);
+  const isModerator = user.role === 'moderator' || user.role === 'admin';
 
   return (
     <div
@@ -33,7 +49,39 @@ const TagView = ({ t, clickTag }: TagProps) => {
       }}>
       <div className='tagName'>{tag.name}</div>
       <div className='tagDescription'>{tag.description}</div>
+      {tag.synonyms && tag.synonyms.length > 0 && (
+        <div className='tagSynonyms'>Synonyms: {tag.synonyms.join(', ')}</div>
+      )}
       <div>{t.qcnt} questions</div>
+      <div className='tagFollowButtons'>
+        <button
+          className={preference === 'watched' ? 'tagFollowActive' : ''}
+          onClick={e => {
+            e.stopPropagation();
+            setPreference(preference === 'watched' ? 'none' : 'watched');
+          }}>
+          {preference === 'watched' ? 'Unwatch' : 'Watch'}
+        </button>
+        <button
+          className={preference === 'ignored' ? 'tagFollowActive' : ''}
+          onClick={e => {
+            e.stopPropagation();
+            setPreference(preference === 'ignored' ? 'none' : 'ignored');
+          }}>
+          {preference === 'ignored' ? 'Unignore' : 'Ignore'}
+        </button>
+      </div>
+      {isModerator && (
+        <button
+          className='tagManageButton'
+          onClick={e => {
+            e.stopPropagation();
+            setManaging(!managing);
+          }}>
+          {managing ? 'Done' : 'Manage'}
+        </button>
+      )}
+      {managing && tag.name && <TagManager tag={tag} setTag={setTag} onMerged={onMerged} />}
     </div>
   );
 };
@@ -0,0 +1,83 @@
+import React from 'react';
+import './index.css';
+import { Tag } from '../../../../types';
+import useTagManager from '../../../../hooks/useTagManager';
+
+/**
+ * Props for the TagManager component.
+ *
+ * tag - The tag being curated.
+ * setTag - Function to update the displayed tag after a change.
+ * onMerged - Function called after the tag was merged into another.
+ */
+interface TagManagerProps {
+  tag: Tag;
+  setTag: (tag: Tag) => void;
+  onMerged: () => void;
+}
+
+/**
+ * TagManager component renders the moderator controls of a tag, to edit its description,
+ * add and remove synonyms, and merge it into another tag.
+ *
+ * @param tag - The tag being curated.
+ * @param setTag - Function to update the displayed tag.
+ * @param onMerged - Function called after the tag was merged.
+ */
+const TagManager = ({ tag, setTag, onMerged }: TagManagerProps) => {
+  const {
+    description,
+    setDescription,
+    synonym,
+    setSynonym,
+    mergeTarget,
+    setMergeTarget,
+    err,
+    saveDescription,
+    addSynonym,
+    removeSynonym,
+    mergeInto,
+  } = useTagManager(tag, setTag, onMerged);
+
+  return (
+    <div className='tag_manager' onClick={e => e.stopPropagation()}>
+      <textarea
+        className='tag_manager_input'
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+      />
+      <button onClick={saveDescription}>Save description</button>
+      <div className='tag_manager_synonyms'>
+        {(tag.synonyms ?? []).map(s => (
+          <span key={s} className='tag_manager_synonym'>
+            {s}
+            <button onClick={() => removeSynonym(s)} aria-label={`Remove synonym ${s}`}>
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className='tag_manager_row'>
+        <input
+          className='tag_manager_input'
+          placeholder='New synonym'
+          value={synonym}
+          onChange={e => setSynonym(e.target.value)}
+        />
+        <button onClick={addSynonym}>Add synonym</button>
+      </div>
+      <div className='tag_manager_row'>
+        <input
+          className='tag_manager_input'
+          placeholder='Merge into tag'
+          value={mergeTarget}
+          onChange={e => setMergeTarget(e.target.value)}
+        />
+        <button onClick={mergeInto}>Merge</button>
+      </div>
+      {err && <div className='tag_manager_error'>{err}</div>}
+    </div>
+  );
+};
+
+export default TagManager;
@@ -20,7 +20,7 @@ interface UserListPageProps {
  * It includes a header with a search bar.
  */
 const UsersListPage = (props: UserListPageProps) => {
-  const { userList, setUserFilter } = useUsersListPage();
+  const { userList, setUserFilter, onlineUsers } = useUsersListPage();
   const { handleUserSelect = null } = props;
   const navigate = useNavigate();
 
@@ -44,6 +44,7 @@ const UsersListPage = (props: UserListPageProps) => {
           <UserCardView
             key={user.username}
             user={user}
+            online={onlineUsers.has(user.username)}
             handleUserCardViewClickHandler={handleUserCardViewClickHandler}
           />
         ))}
@@ -6,10 +6,12 @@ import { User } from '../../../../types';
  * Interface representing the props for the User component.
  *
  * user - The user object containing details about the user.
+ * online - Whether the user is currently online.
  * handleUserCardViewClickHandler - The function to handle the click event on the user card.
  */
 interface UserProps {
   user: User;
+  online?: boolean;
   handleUserCardViewClickHandler: (user: User) => void;
 }
 
@@ -17,18 +19,24 @@ interface UserProps {
  * User component renders the details of a user including its username and dateJoined.
  * Clicking on the component triggers the handleUserPage function,
  * and clicking on a tag triggers the clickTag function.
+ * Users who are currently online are marked with a dot next to their username.
  *
  * @param user - The user object containing user details.
+ * @param online - Whether the user is currently online.
  */
 const UserCardView = (props: UserProps) => {
-  const { user, handleUserCardViewClickHandler } = props;
+  const { user, online = false, handleUserCardViewClickHandler } = props;
 
   return (
     <div className='user right_padding' onClick={() => handleUserCardViewClickHandler(user)}>
       <div className='user_mid'>
-        <div className='userUsername'>{user.username}</div>
+        <div className='userUsername'>
+          {online && <span className='user-online-dot' title='Online' />}
+          {user.username}
+        </div>
       </div>
       <div className='userStats'>
+        <div>{user.reputation ?? 0} reputation</div>
         <div>joined {new Date(user.dateJoined).toUTCString()}</div>
       </div>
     </div>
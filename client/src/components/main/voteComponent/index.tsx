@@ -1,35 +1,45 @@
 import { downvoteQuestion, upvoteQuestion } from '../../../services/questionService';
+import { downvoteAnswer, upvoteAnswer } from '../../../services/answerService';
 import './index.css';
 import useUserContext from '../../../hooks/useUserContext';
-import { Question } from '../../../types';
+import { Answer, Question } from '../../../types';
 import useVoteStatus from '../../../hooks/useVoteStatus';
 
 /**
  * Interface represents the props for the VoteComponent.
  *
  * question - The question object containing voting information.
+ * answer - The answer of the question to vote on instead of the question itself. Optional.
  */
 interface VoteComponentProps {
   question: Question;
+  answer?: Answer;
 }
 
 /**
- * A Vote component that allows users to upvote or downvote a question.
+ * A Vote component that allows users to upvote or downvote a question, or one of its answers.
  *
  * @param question - The question object containing voting information.
+ * @param answer - The answer to vote on, if the votes are for an answer of the question.
  */
-const VoteComponent = ({ question }: VoteComponentProps) => {
+const VoteComponent = ({ question, answer }: VoteComponentProps) => {
   const { user } = useUserContext();
-  const { count, voted } = useVoteStatus({ question });
+  const { count, voted } = useVoteStatus({ target: answer ?? question });
 
   /**
-   * Function to handle upvoting or downvoting a question.
+   * Function to handle upvoting or downvoting a question or answer.
    *
    * @param type - The type of vote, either 'upvote' or 'downvote'.
    */
   const handleVote = async (type: string) => {
     try {
-      if (question._id) {
+      if (question._id && answer) {
+        if (answer._id && type === 'upvote') {
+          await upvoteAnswer(question._id, answer._id);
+        } else if (answer._id && type === 'downvote') {
+          await downvoteAnswer(question._id, answer._id);
+        }
+      } else if (question._id) {
         if (type === 'upvote') {
           await upvoteQuestion(question._id, user.username);
         } else if (type === 'downvote') {
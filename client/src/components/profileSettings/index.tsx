@@ -1,10 +1,26 @@
 import React from 'react';
 import './index.css';
 import useProfileSettings from '../../hooks/useProfileSettings';
+import { ReputationReason, UserRole } from '../../types';
+
+/**
+ * Describes each action that changes the reputation of a user.
+ */
+const reputationReasonDisplayName: Record<ReputationReason, string> = {
+  questionUpvote: 'question upvoted',
+  questionDownvote: 'question downvoted',
+  answerUpvote: 'answer upvoted',
+  answerDownvote: 'answer downvoted',
+  answerAccepted: 'answer accepted',
+  bountyAwarded: 'bounty awarded',
+  bountyOffered: 'bounty offered',
+  bountyRefunded: 'bounty refunded',
+};
 
 const ProfileSettings: React.FC = () => {
   const {
     userData,
+    reputationHistory,
     loading,
     editBioMode,
     newBio,
@@ -13,8 +29,12 @@ const ProfileSettings: React.FC = () => {
     successMessage,
     errorMessage,
     showConfirmation,
+    deleteContent,
+    setDeleteContent,
     pendingAction,
-    canEditProfile,
+    canEditBiography,
+    canManageAccount,
+    canChangeRole,
     showPassword,
     togglePasswordVisibility,
 
@@ -26,6 +46,7 @@ const ProfileSettings: React.FC = () => {
 
     handleResetPassword,
     handleUpdateBiography,
+    handleUpdateRole,
     handleDeleteUser,
   } = useProfileSettings();
 
@@ -56,7 +77,7 @@ const ProfileSettings: React.FC = () => {
             {!editBioMode && (
               <p>
                 <strong>Biography:</strong> {userData.biography || 'No biography yet.'}
-                {canEditProfile && (
+                {canEditBiography && (
                   <button
                     className='login-button'
                     style={{ marginLeft: '1rem' }}
@@ -95,8 +116,42 @@ const ProfileSettings: React.FC = () => {
               {userData.dateJoined ? new Date(userData.dateJoined).toLocaleDateString() : 'N/A'}
             </p>
 
+            <p>
+              <strong>Reputation:</strong> {userData.reputation ?? 0}
+            </p>
+            {reputationHistory.length > 0 && (
+              <ul className='reputation-history'>
+                {reputationHistory.map((event, idx) => (
+                  <li key={event._id ?? idx}>
+                    <span className={event.change >= 0 ? 'reputation-gain' : 'reputation-loss'}>
+                      {event.change >= 0 ? `+${event.change}` : event.change}
+                    </span>{' '}
+                    {reputationReasonDisplayName[event.reason]}
+                    {' · '}
+                    {new Date(event.createdAt).toLocaleDateString()}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <p>
+              <strong>Role:</strong>{' '}
+              {canChangeRole ? (
+                <select
+                  className='role-select'
+                  value={userData.role ?? 'user'}
+                  onChange={e => handleUpdateRole(e.target.value as UserRole)}>
+                  <option value='user'>user</option>
+                  <option value='moderator'>moderator</option>
+                  <option value='admin'>admin</option>
+                </select>
+              ) : (
+                (userData.role ?? 'user')
+              )}
+            </p>
+
             {/* ---- Reset Password Section ---- */}
-            {canEditProfile && (
+            {canManageAccount && (
               <>
                 <h4>Reset Password</h4>
                 <input
@@ -121,9 +176,17 @@ const ProfileSettings: React.FC = () => {
             )}
 
             {/* ---- Danger Zone (Delete User) ---- */}
-            {canEditProfile && (
+            {canManageAccount && (
               <>
                 <h4>Danger Zone</h4>
+                <label className='delete-content-option'>
+                  <input
+                    type='checkbox'
+                    checked={deleteContent}
+                    onChange={e => setDeleteContent(e.target.checked)}
+                  />
+                  Also delete all questions, answers, comments and messages of this user
+                </label>
                 <button className='delete-button' onClick={handleDeleteUser}>
                   Delete This User
                 </button>
@@ -139,8 +202,11 @@ const ProfileSettings: React.FC = () => {
           <div className='modal'>
             <div className='modal-content'>
               <p>
-                Are you sure you want to delete user <strong>{userData?.username}</strong>? This
-                action cannot be undone.
+                Are you sure you want to delete user <strong>{userData?.username}</strong>?{' '}
+                {deleteContent
+                  ? 'All of their content will be deleted as well.'
+                  : 'Their content will be kept, but attributed to a deleted user.'}{' '}
+                This action cannot be undone.
               </p>
               <button className='delete-button' onClick={() => pendingAction && pendingAction()}>
                 Confirm
@@ -1,9 +1,34 @@
-import { useNavigate, useParams } from 'react-router-dom';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useEffect, useState } from 'react';
-import { Comment, Answer, Question, VoteData } from '../types';
+import {
+  Comment,
+  Answer,
+  Question,
+  VoteData,
+  AnswerVoteUpdatePayload,
+  PostContent,
+  DuplicateRedirect,
+  CloseReason,
+} from '../types';
 import useUserContext from './useUserContext';
-import addComment from '../services/commentService';
-import { getQuestionById } from '../services/questionService';
+import addComment, { deleteComment, undeleteComment } from '../services/commentService';
+import {
+  acceptAnswer,
+  deleteQuestion,
+  editQuestion,
+  getQuestionById,
+  setQuestionBookmarked,
+  undeleteQuestion,
+} from '../services/questionService';
+import { deleteAnswer, editAnswer, undeleteAnswer } from '../services/answerService';
+import { awardBounty, offerBounty } from '../services/bountyService';
+import {
+  retractCloseVote,
+  retractReopenVote,
+  setQuestionLocked,
+  voteClose,
+  voteReopen,
+} from '../services/closureService';
 
 /**
  * Custom hook for managing the answer page's state, navigation, and real-time updates.
@@ -12,14 +37,85 @@ import { getQuestionById } from '../services/questionService';
  * @returns question - The current question object with its answers, comments, and votes.
  * @returns handleNewComment - Function to handle the submission of a new comment to a question or answer.
  * @returns handleNewAnswer - Function to navigate to the "New Answer" page
+ * @returns canAcceptAnswers - Whether the current user asked the question, and can accept its answers.
+ * @returns handleToggleAccepted - Function to accept an answer, or unaccept it if it is already accepted.
+ * @returns canEdit - Function to check whether the current user can edit a post written by a given user.
+ * @returns editingId - The ID of the question or answer being edited, if any.
+ * @returns setEditingId - Function to open or close the editor of a post.
+ * @returns historyId - The ID of the question or answer whose revision history is shown, if any.
+ * @returns setHistoryId - Function to show or hide the revision history of a post.
+ * @returns handleEditQuestion - Function to submit an edit of the question.
+ * @returns handleEditAnswer - Function to submit an edit of an answer.
+ * @returns isModerator - Whether the current user is a moderator, and can view deleted content.
+ * @returns showDeleted - Whether deleted answers and comments are shown.
+ * @returns setShowDeleted - Function to show or hide deleted answers and comments.
+ * @returns canToggleDeleted - Function to check whether the current user can delete or restore a post.
+ * @returns handleToggleQuestionDeleted - Function to delete the question, or restore it if it is deleted.
+ * @returns handleToggleAnswerDeleted - Function to delete an answer, or restore it if it is deleted.
+ * @returns handleToggleCommentDeleted - Function to delete a comment, or restore it if it is deleted.
+ * @returns isBookmarked - Whether the current user bookmarked the question.
+ * @returns handleToggleBookmark - Function to bookmark the question, or remove the bookmark.
+ * @returns canOfferBounty - Whether a bounty can be offered on the question, which has none and no accepted answer.
+ * @returns handleOfferBounty - Function to offer a bounty on the question.
+ * @returns bountyError - The reason the last bounty offer failed, if it did.
+ * @returns canAwardBounty - Function to check whether the current user can award their bounty to an answer.
+ * @returns handleAwardBounty - Function to award the bounty of the current user to an answer.
+ * @returns redirectedFrom - The duplicate question the user was redirected from, if any.
+ * @returns isOpen - Whether the question is open, and can be answered and commented on.
+ * @returns hasCloseVote - Whether the current user voted to close the question.
+ * @returns hasReopenVote - Whether the current user voted to reopen the question.
+ * @returns handleVoteClose - Function to vote to close the question for a reason.
+ * @returns handleRetractCloseVote - Function to retract the close vote of the current user.
+ * @returns handleVoteReopen - Function to vote to reopen the question.
+ * @returns handleRetractReopenVote - Function to retract the reopen vote of the current user.
+ * @returns handleToggleLocked - Function to lock the question, or unlock it if it is locked.
+ * @returns closeError - The reason the last change to the status of the question failed, if it did.
  */
 const useAnswerPage = () => {
   const { qid } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
 
   const { user, socket } = useUserContext();
   const [questionID, setQuestionID] = useState<string>(qid || '');
   const [question, setQuestion] = useState<Question | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [showDeleted, setShowDeleted] = useState<boolean>(false);
+  const [bountyError, setBountyError] = useState<string | null>(null);
+  const [closeError, setCloseError] = useState<string | null>(null);
+  // Kept apart from the question, since the broadcast updates of the question do not carry it
+  const [isBookmarked, setIsBookmarked] = useState<boolean>(false);
+
+  const canAcceptAnswers = question?.askedBy === user.username;
+  const isModerator = user.role === 'moderator' || user.role === 'admin';
+  const canOfferBounty = !!question && !question.bounty && !question.acceptedAnswer;
+  const isOpen = (question?.status ?? 'open') === 'open';
+  const hasCloseVote = !!question?.closeVotes?.some(v => v.voter === user.username);
+  const hasReopenVote = !!question?.reopenVotes?.includes(user.username);
+  const redirectedFrom =
+    (location.state as { duplicateFrom?: DuplicateRedirect } | null)?.duplicateFrom ?? null;
+  const noRedirect = searchParams.get('noredirect') === 'true';
+
+  /**
+   * Checks whether the current user can edit a post. Authors can edit their own posts, and
+   * moderators can edit any post.
+   *
+   * @param owner - The username of the author of the post.
+   */
+  const canEdit = (owner: string) =>
+    owner === user.username || user.role === 'moderator' || user.role === 'admin';
+
+  /**
+   * Checks whether the current user can delete a post, or restore it if it is deleted. Authors can
+   * delete their own posts and restore them if they deleted them, moderators can do both for any post.
+   *
+   * @param owner - The username of the author of the post.
+   * @param deletedBy - The username of the user who deleted the post, if it is deleted.
+   */
+  const canToggleDeleted = (owner: string, deletedBy?: string | null) =>
+    deletedBy ? isModerator || deletedBy === user.username : canEdit(owner);
 
   /**
    * Function to handle navigation to the "New Answer" page.
@@ -61,14 +157,291 @@ const useAnswerPage = () => {
     }
   };
 
+  /**
+   * Function to accept an answer as the solution to the question, or unaccept it if it is
+   * already the accepted answer.
+   *
+   * @param aid - The ID of the answer.
+   */
+  const handleToggleAccepted = async (aid: string | undefined) => {
+    try {
+      if (!question?._id || aid === undefined) {
+        throw new Error('No question or answer ID provided.');
+      }
+
+      const updated = await acceptAnswer(
+        question._id,
+        question.acceptedAnswer === aid ? null : aid,
+      );
+      setQuestion(updated);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error accepting answer:', error);
+    }
+  };
+
+  /**
+   * Function to bookmark the question for the current user, or remove their bookmark.
+   */
+  const handleToggleBookmark = async () => {
+    try {
+      if (!question?._id) {
+        throw new Error('No question ID provided.');
+      }
+
+      const { bookmarkCount, bookmarked } = await setQuestionBookmarked(
+        question._id,
+        !isBookmarked,
+      );
+      setIsBookmarked(bookmarked);
+      setQuestion(prev => (prev ? { ...prev, bookmarkCount } : prev));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error updating bookmark:', error);
+    }
+  };
+
+  /**
+   * Function to offer a bounty on the question, paid from the reputation of the current user.
+   *
+   * @param amount - The number of reputation points to offer.
+   * @param days - The number of days before the bounty expires.
+   */
+  const handleOfferBounty = async (amount: number, days: number) => {
+    try {
+      if (!question?._id) {
+        throw new Error('No question ID provided.');
+      }
+
+      const updated = await offerBounty(question._id, amount, days);
+      setQuestion(updated);
+      setBountyError(null);
+    } catch (error) {
+      setBountyError((error as Error).message);
+    }
+  };
+
+  /**
+   * Checks whether the current user can award the bounty on the question to an answer. Only the
+   * user who offered the bounty can award it, and not to one of their own answers.
+   *
+   * @param answer - The answer that would receive the bounty.
+   */
+  const canAwardBounty = (answer: Answer) =>
+    question?.bounty?.offeredBy === user.username &&
+    answer.ansBy !== user.username &&
+    !answer.deletedBy;
+
+  /**
+   * Function to award the bounty the current user offered on the question to an answer.
+   *
+   * @param aid - The ID of the answer.
+   */
+  const handleAwardBounty = async (aid: string | undefined) => {
+    try {
+      if (!question?._id || aid === undefined) {
+        throw new Error('No question or answer ID provided.');
+      }
+
+      const updated = await awardBounty(question._id, aid);
+      setQuestion(updated);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error awarding bounty:', error);
+    }
+  };
+
+  /**
+   * Function to send a change to the status of the question, such as a close or reopen vote, and
+   * keep the reason it failed if it did.
+   *
+   * @param change - Function making the change to the question with the given ID.
+   */
+  const changeStatus = async (change: (id: string) => Promise<Question>) => {
+    try {
+      if (!question?._id) {
+        throw new Error('No question ID provided.');
+      }
+
+      const updated = await change(question._id);
+      setQuestion(updated);
+      setCloseError(null);
+    } catch (error) {
+      setCloseError((error as Error).message);
+    }
+  };
+
+  /**
+   * Function to vote to close the question.
+   *
+   * @param reason - The reason to close the question for.
+   * @param duplicateOf - The ID of the original question, when closing it as a duplicate.
+   */
+  const handleVoteClose = (reason: CloseReason, duplicateOf?: string) =>
+    changeStatus(id => voteClose(id, reason, duplicateOf));
+
+  /**
+   * Function to retract the vote of the current user to close the question.
+   */
+  const handleRetractCloseVote = () => changeStatus(retractCloseVote);
+
+  /**
+   * Function to vote to reopen the question.
+   */
+  const handleVoteReopen = () => changeStatus(voteReopen);
+
+  /**
+   * Function to retract the vote of the current user to reopen the question.
+   */
+  const handleRetractReopenVote = () => changeStatus(retractReopenVote);
+
+  /**
+   * Function to lock the question, or unlock it if it is locked.
+   */
+  const handleToggleLocked = () =>
+    changeStatus(id => setQuestionLocked(id, question?.status !== 'locked'));
+
+  /**
+   * Function to submit an edit of the question, and close the editor once it is saved.
+   *
+   * @param content - The new title, text and tags of the question.
+   * @param summary - A description of the edit.
+   */
+  const handleEditQuestion = async (content: PostContent, summary: string) => {
+    try {
+      if (!question?._id) {
+        throw new Error('No question ID provided.');
+      }
+
+      const updated = await editQuestion(question._id, content, summary);
+      setQuestion(updated);
+      setEditingId(null);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error editing question:', error);
+    }
+  };
+
+  /**
+   * Function to submit an edit of an answer, and close the editor once it is saved.
+   * The question is updated when the server broadcasts the edited answer.
+   *
+   * @param aid - The ID of the answer.
+   * @param content - The new text of the answer.
+   * @param summary - A description of the edit.
+   */
+  const handleEditAnswer = async (
+    aid: string | undefined,
+    content: PostContent,
+    summary: string,
+  ) => {
+    try {
+      if (aid === undefined) {
+        throw new Error('No answer ID provided.');
+      }
+
+      await editAnswer(questionID, aid, content.text, summary);
+      setEditingId(null);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error editing answer:', error);
+    }
+  };
+
+  /**
+   * Function to delete the question, or restore it if it is already deleted.
+   */
+  const handleToggleQuestionDeleted = async () => {
+    try {
+      if (!question?._id) {
+        throw new Error('No question ID provided.');
+      }
+
+      const updated = question.deletedAt
+        ? await undeleteQuestion(question._id)
+        : await deleteQuestion(question._id);
+      setQuestion(prevQuestion =>
+        prevQuestion
+          ? { ...prevQuestion, deletedAt: updated.deletedAt, deletedBy: updated.deletedBy }
+          : prevQuestion,
+      );
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting question:', error);
+    }
+  };
+
+  /**
+   * Function to delete an answer, or restore it if it is already deleted.
+   * The question is updated when the server broadcasts the updated answer.
+   *
+   * @param answer - The answer to delete or restore.
+   */
+  const handleToggleAnswerDeleted = async (answer: Answer) => {
+    try {
+      if (answer._id === undefined) {
+        throw new Error('No answer ID provided.');
+      }
+
+      if (answer.deletedAt) {
+        await undeleteAnswer(questionID, answer._id);
+      } else {
+        await deleteAnswer(questionID, answer._id);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting answer:', error);
+    }
+  };
+
+  /**
+   * Function to delete a comment, or restore it if it is already deleted.
+   * The question is updated when the server broadcasts the updated comments.
+   *
+   * @param comment - The comment to delete or restore.
+   * @param targetType - The type of the commented item, either 'question' or 'answer'.
+   * @param targetId - The ID of the commented item.
+   */
+  const handleToggleCommentDeleted = async (
+    comment: Comment,
+    targetType: 'question' | 'answer',
+    targetId: string | undefined,
+  ) => {
+    try {
+      if (targetId === undefined || comment._id === undefined) {
+        throw new Error('No comment or target ID provided.');
+      }
+
+      if (comment.deletedAt) {
+        await undeleteComment(targetId, targetType, comment._id);
+      } else {
+        await deleteComment(targetId, targetType, comment._id);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error deleting comment:', error);
+    }
+  };
+
   useEffect(() => {
     /**
      * Function to fetch the question data based on the question ID.
      */
     const fetchData = async () => {
       try {
-        const res = await getQuestionById(questionID, user.username);
+        const res = await getQuestionById(questionID, user.username, showDeleted);
+
+        // Duplicates lead to their original, unless the duplicate itself was asked for
+        if (res?.duplicateOf && !noRedirect) {
+          navigate(`/question/${res.duplicateOf}`, {
+            replace: true,
+            state: { duplicateFrom: { qid: questionID, title: res.title } },
+          });
+          return;
+        }
+
         setQuestion(res || null);
+        setIsBookmarked(!!res?.bookmarked);
       } catch (error) {
         // eslint-disable-next-line no-console
         console.error('Error fetching question:', error);
@@ -77,27 +450,53 @@ const useAnswerPage = () => {
 
     // eslint-disable-next-line no-console
     fetchData().catch(e => console.log(e));
-  }, [questionID, user.username]);
+  }, [questionID, user.username, showDeleted, noRedirect, navigate]);
 
   useEffect(() => {
     /**
-     * Function to handle updates to the answers of a question.
+     * Function to handle new, edited or deleted answers of a question. Deleted answers are only
+     * kept, marked as deleted, for moderators viewing deleted content and for the user who deleted them.
      *
-     * @param answer - The updated answer object.
+     * @param answer - The new or updated answer object.
      */
     const handleAnswerUpdate = ({ qid: id, answer }: { qid: string; answer: Answer }) => {
       if (id === questionID) {
-        setQuestion(prevQuestion =>
-          prevQuestion
-            ? // Creates a new Question object with the new answer appended to the end
-              { ...prevQuestion, answers: [...prevQuestion.answers, answer] }
-            : prevQuestion,
-        );
+        setQuestion(prevQuestion => {
+          if (!prevQuestion) {
+            return prevQuestion;
+          }
+
+          if (answer.deletedAt) {
+            return showDeleted || answer.deletedBy === user.username
+              ? {
+                  ...prevQuestion,
+                  answers: prevQuestion.answers.map(a =>
+                    a._id === answer._id
+                      ? { ...a, deletedAt: answer.deletedAt, deletedBy: answer.deletedBy }
+                      : a,
+                  ),
+                }
+              : {
+                  ...prevQuestion,
+                  answers: prevQuestion.answers.filter(a => a._id !== answer._id),
+                };
+          }
+
+          // Replaces an edited answer in place, or appends a new answer to the end
+          return prevQuestion.answers.some(a => a._id === answer._id)
+            ? {
+                ...prevQuestion,
+                answers: prevQuestion.answers.map(a => (a._id === answer._id ? answer : a)),
+              }
+            : { ...prevQuestion, answers: [...prevQuestion.answers, answer] };
+        });
       }
     };
 
     /**
      * Function to handle updates to the comments of a question or answer.
+     * The broadcast objects leave out deleted comments, so moderators viewing deleted content
+     * fetch the question again instead.
      *
      * @param result - The updated question or answer object.
      * @param type - The type of the object being updated, either 'question' or 'answer'.
@@ -109,7 +508,12 @@ const useAnswerPage = () => {
       result: Question | Answer;
       type: 'question' | 'answer';
     }) => {
-      if (type === 'question') {
+      if (showDeleted) {
+        getQuestionById(questionID, user.username, true)
+          .then(res => setQuestion(res || null))
+          // eslint-disable-next-line no-console
+          .catch(e => console.log(e));
+      } else if (type === 'question') {
         const questionResult = result as Question;
 
         if (questionResult._id === questionID) {
@@ -130,6 +534,24 @@ const useAnswerPage = () => {
       }
     };
 
+    /**
+     * Function to handle updates to the question, such as a change of its accepted answer.
+     * Deleting or restoring the question only updates its deletion status.
+     *
+     * @param q The updated question object.
+     */
+    const handleQuestionUpdate = (q: Question) => {
+      if (q._id !== questionID) {
+        return;
+      }
+
+      setQuestion(prevQuestion =>
+        prevQuestion && (q.deletedAt || prevQuestion.deletedAt)
+          ? { ...prevQuestion, deletedAt: q.deletedAt, deletedBy: q.deletedBy }
+          : q,
+      );
+    };
+
     /**
      * Function to handle updates to the views of a question.
      *
@@ -142,12 +564,30 @@ const useAnswerPage = () => {
     };
 
     /**
-     * Function to handle vote updates for a question.
+     * Function to handle vote updates for a question or one of its answers.
      *
-     * @param voteData - The updated vote data for a question
+     * @param voteData - The updated vote data for a question, or for an answer if it contains an answer ID
      */
-    const handleVoteUpdate = (voteData: VoteData) => {
-      if (voteData.qid === questionID) {
+    const handleVoteUpdate = (voteData: VoteData | AnswerVoteUpdatePayload) => {
+      if (voteData.qid !== questionID) {
+        return;
+      }
+
+      if ('aid' in voteData) {
+        setQuestion(prevQuestion =>
+          prevQuestion
+            ? // Updates the votes of the answer with a matching object ID
+              {
+                ...prevQuestion,
+                answers: prevQuestion.answers.map(a =>
+                  a._id === voteData.aid
+                    ? { ...a, upVotes: [...voteData.upVotes], downVotes: [...voteData.downVotes] }
+                    : a,
+                ),
+              }
+            : prevQuestion,
+        );
+      } else {
         setQuestion(prevQuestion =>
           prevQuestion
             ? {
@@ -160,24 +600,72 @@ const useAnswerPage = () => {
       }
     };
 
+    /**
+     * Function to join the room of the question, which receives its question and views updates.
+     * Rooms are lost when the connection drops, so the room is joined again on reconnection.
+     */
+    const joinQuestion = () => {
+      socket.emit('joinQuestion', questionID);
+    };
+
+    joinQuestion();
+
+    socket.on('connect', joinQuestion);
+    socket.on('questionUpdate', handleQuestionUpdate);
     socket.on('answerUpdate', handleAnswerUpdate);
     socket.on('viewsUpdate', handleViewsUpdate);
     socket.on('commentUpdate', handleCommentUpdate);
     socket.on('voteUpdate', handleVoteUpdate);
 
     return () => {
+      socket.off('connect', joinQuestion);
+      socket.emit('leaveQuestion', questionID);
+      socket.off('questionUpdate', handleQuestionUpdate);
       socket.off('answerUpdate', handleAnswerUpdate);
       socket.off('viewsUpdate', handleViewsUpdate);
       socket.off('commentUpdate', handleCommentUpdate);
       socket.off('voteUpdate', handleVoteUpdate);
     };
-  }, [questionID, socket]);
+  }, [questionID, showDeleted, socket, user.username]);
 
   return {
     questionID,
     question,
     handleNewComment,
     handleNewAnswer,
+    canAcceptAnswers,
+    handleToggleAccepted,
+    canEdit,
+    editingId,
+    setEditingId,
+    historyId,
+    setHistoryId,
+    handleEditQuestion,
+    handleEditAnswer,
+    isModerator,
+    showDeleted,
+    setShowDeleted,
+    canToggleDeleted,
+    handleToggleQuestionDeleted,
+    handleToggleAnswerDeleted,
+    handleToggleCommentDeleted,
+    isBookmarked,
+    handleToggleBookmark,
+    canOfferBounty,
+    handleOfferBounty,
+    bountyError,
+    canAwardBounty,
+    handleAwardBounty,
+    redirectedFrom,
+    isOpen,
+    hasCloseVote,
+    hasReopenVote,
+    handleVoteClose,
+    handleRetractCloseVote,
+    handleVoteReopen,
+    handleRetractReopenVote,
+    handleToggleLocked,
+    closeError,
   };
 };
 
@@ -2,7 +2,8 @@ import { useNavigate } from 'react-router-dom';
 import { ChangeEvent, useState } from 'react';
 import useLoginContext from './useLoginContext';
 import { createUser, loginUser } from '../services/userService';
-import { User } from '../types';
+import { setAuthToken } from '../services/config';
+import { AuthResponse } from '../types';
 
 /**
  * Custom hook to manage authentication logic, including handling input changes,
@@ -96,18 +97,19 @@ const useAuth = (authType: 'login' | 'signup') => {
       return;
     }
 
-    let user: User;
+    let auth: AuthResponse;
     try {
       if (authType === 'login') {
-        user = await loginUser({ username, password });
+        auth = await loginUser({ username, password });
       } else if (authType === 'signup') {
-        user = await createUser({ username, password });
+        auth = await createUser({ username, password });
       } else {
         throw new Error('Invalid authentication type');
       }
 
       // Redirect to home page on successful login/signup
-      setUser(user);
+      setAuthToken(auth.token);
+      setUser(auth.user);
       navigate('/home');
     } catch (error) {
       setErr((error as Error).message);
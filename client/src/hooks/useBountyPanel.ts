@@ -0,0 +1,47 @@
+import { useState } from 'react';
+
+/**
+ * The smallest bounty a user can offer, in reputation points.
+ */
+export const BOUNTY_MIN_AMOUNT = 50;
+
+/**
+ * The largest bounty a user can offer, in reputation points.
+ */
+export const BOUNTY_MAX_AMOUNT = 500;
+
+/**
+ * The longest a bounty can stay open, in days.
+ */
+export const BOUNTY_MAX_DAYS = 14;
+
+/**
+ * Custom hook for the form to offer a bounty on a question.
+ *
+ * @param handleOfferBounty - Function to offer the bounty once the form is submitted.
+ *
+ * @returns open - Whether the form is shown.
+ * @returns setOpen - Function to show or hide the form.
+ * @returns amount - The number of reputation points to offer.
+ * @returns setAmount - Function to update the amount.
+ * @returns days - The number of days before the bounty expires.
+ * @returns setDays - Function to update the number of days.
+ * @returns submitOffer - Function to offer the bounty and close the form.
+ */
+const useBountyPanel = (handleOfferBounty: (amount: number, days: number) => Promise<void>) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [amount, setAmount] = useState<number>(BOUNTY_MIN_AMOUNT);
+  const [days, setDays] = useState<number>(7);
+
+  /**
+   * Function to offer the bounty and close the form.
+   */
+  const submitOffer = async () => {
+    await handleOfferBounty(amount, days);
+    setOpen(false);
+  };
+
+  return { open, setOpen, amount, setAmount, days, setDays, submitOffer };
+};
+
+export default useBountyPanel;
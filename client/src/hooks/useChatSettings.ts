@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Chat } from '../types';
+import useUserContext from './useUserContext';
+import {
+  addParticipant,
+  leaveChat,
+  removeParticipant,
+  renameChat,
+  setChatAdmin,
+  transferChatOwnership,
+} from '../services/chatService';
+
+/**
+ * Custom hook for the settings of a group chat. Admins can rename the group and add or remove
+ * members, the owner can also change who the admins are and transfer the ownership, and every
+ * member can leave. The updated chat arrives through its chat update.
+ *
+ * @param chat - The group chat.
+ * @param handleLeft - Function called once the user has left the chat.
+ *
+ * @returns isOwner - Whether the user owns the chat.
+ * @returns isAdmin - Whether the user manages the chat, as its owner or an admin.
+ * @returns newName - The new name of the chat entered by the user.
+ * @returns setNewName - Function to update the new name.
+ * @returns newMember - The username of the user to add entered by the user.
+ * @returns setNewMember - Function to update the username of the user to add.
+ * @returns error - The reason the last change failed, if it did.
+ * @returns handleRename - Function to rename the chat.
+ * @returns handleAddMember - Function to add the entered user to the chat.
+ * @returns handleRemoveMember - Function to remove a member from the chat.
+ * @returns handleSetAdmin - Function to make a member an admin, or remove them as one.
+ * @returns handleTransferOwnership - Function to make a member the owner of the chat.
+ * @returns handleLeave - Function to leave the chat.
+ */
+const useChatSettings = (chat: Chat, handleLeft: () => void) => {
+  const { user } = useUserContext();
+  const [newName, setNewName] = useState<string>('');
+  const [newMember, setNewMember] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = chat.owner === user.username;
+  const isAdmin = isOwner || !!chat.admins?.includes(user.username);
+
+  /**
+   * Function to make a change to the chat, and keep the reason it failed if it did.
+   *
+   * @param change - Function making the change to the chat with the given ID.
+   *
+   * @returns Whether the change was made.
+   */
+  const changeChat = async (change: (chatID: string) => Promise<unknown>): Promise<boolean> => {
+    if (!chat._id) {
+      return false;
+    }
+
+    try {
+      await change(chat._id);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  };
+
+  /**
+   * Function to rename the chat to the entered name.
+   */
+  const handleRename = async () => {
+    if (newName.trim() !== '' && (await changeChat(id => renameChat(id, newName.trim())))) {
+      setNewName('');
+    }
+  };
+
+  /**
+   * Function to add the user whose username was entered to the chat.
+   */
+  const handleAddMember = async () => {
+    if (newMember.trim() !== '' && (await changeChat(id => addParticipant(id, newMember.trim())))) {
+      setNewMember('');
+    }
+  };
+
+  /**
+   * Function to remove a member from the chat.
+   *
+   * @param username - The username of the member.
+   */
+  const handleRemoveMember = (username: string) =>
+    changeChat(id => removeParticipant(id, username));
+
+  /**
+   * Function to make a member an admin of the chat, or remove them as one.
+   *
+   * @param username - The username of the member.
+   * @param admin - Whether the member should be an admin.
+   */
+  const handleSetAdmin = (username: string, admin: boolean) =>
+    changeChat(id => setChatAdmin(id, username, admin));
+
+  /**
+   * Function to make a member the owner of the chat.
+   *
+   * @param username - The username of the member.
+   */
+  const handleTransferOwnership = (username: string) =>
+    changeChat(id => transferChatOwnership(id, username));
+
+  /**
+   * Function to leave the chat.
+   */
+  const handleLeave = async () => {
+    if (await changeChat(leaveChat)) {
+      handleLeft();
+    }
+  };
+
+  return {
+    isOwner,
+    isAdmin,
+    newName,
+    setNewName,
+    newMember,
+    setNewMember,
+    error,
+    handleRename,
+    handleAddMember,
+    handleRemoveMember,
+    handleSetAdmin,
+    handleTransferOwnership,
+    handleLeave,
+  };
+};
+
+export default useChatSettings;
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { CloseReason, Question } from '../types';
+import useSimilarQuestions from './useSimilarQuestions';
+
+/**
+ * Finds the ID of a question in a link to it, or in the ID itself.
+ *
+ * @param input - The link or ID entered by the user.
+ *
+ * @returns The ID of the question, or null if there is none.
+ */
+const parseQuestionId = (input: string): string | null => {
+  const ids = input.match(/[0-9a-fA-F]{24}/g);
+  return ids ? ids[ids.length - 1] : null;
+};
+
+/**
+ * Custom hook for the panel to vote to close a question. When the user picks duplicate as the
+ * reason, the questions similar to it are suggested as originals.
+ *
+ * @param question - The question that could be closed.
+ * @param handleVoteClose - Function to vote to close the question for a reason.
+ *
+ * @returns open - Whether the panel to pick the close reason is shown.
+ * @returns setOpen - Function to show or hide the panel.
+ * @returns reason - The close reason picked by the user, if any.
+ * @returns setReason - Function to pick the close reason.
+ * @returns similarQuestions - The questions similar to the question, most similar first.
+ * @returns originalInput - The link to or ID of the original question entered by the user.
+ * @returns setOriginalInput - Function to update the link or ID of the original question.
+ * @returns inputErr - Error message for the link or ID, if any.
+ * @returns voteForReason - Function to vote for the picked reason, or the question the user entered a link to.
+ */
+const useClosePanel = (
+  question: Question,
+  handleVoteClose: (reason: CloseReason, duplicateOf?: string) => Promise<void>,
+) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [reason, setReason] = useState<CloseReason | ''>('');
+  const [originalInput, setOriginalInput] = useState<string>('');
+  const [inputErr, setInputErr] = useState<string>('');
+
+  // Similar questions are only looked up while the user is picking an original
+  const { similarQuestions } = useSimilarQuestions(
+    open && reason === 'duplicate' ? question.title : '',
+    question.text,
+    question.tags.map(t => t.name).join(' '),
+    question._id,
+  );
+
+  /**
+   * Function to vote for the picked reason. Duplicate votes are for the question the user entered
+   * a link to or the ID of.
+   */
+  const voteForReason = async () => {
+    if (!reason) {
+      setInputErr('Pick a reason to close the question');
+      return;
+    }
+
+    if (reason !== 'duplicate') {
+      setInputErr('');
+      await handleVoteClose(reason);
+      return;
+    }
+
+    const id = parseQuestionId(originalInput);
+
+    if (!id) {
+      setInputErr('Enter a link to the original question');
+      return;
+    }
+
+    setInputErr('');
+    await handleVoteClose(reason, id);
+  };
+
+  return {
+    open,
+    setOpen,
+    reason,
+    setReason,
+    similarQuestions,
+    originalInput,
+    setOriginalInput,
+    inputErr,
+    voteForReason,
+  };
+};
+
+export default useClosePanel;
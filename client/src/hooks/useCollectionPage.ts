@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Collection } from '../types';
+import {
+  deleteCollection,
+  getCollection,
+  setCollectionShared,
+} from '../services/collectionService';
+import useUserContext from './useUserContext';
+
+/**
+ * Custom hook for managing the page of a collection, where its owner can share it, copy its link,
+ * or delete it.
+ *
+ * @returns collectionID - The ID of the collection, from the URL parameters.
+ * @returns collection - The collection, once it is loaded.
+ * @returns error - The reason the collection could not be loaded, such as it being private.
+ * @returns canManage - Whether the current user can share or delete the collection.
+ * @returns copied - Whether the link to the collection was just copied.
+ * @returns handleToggleShared - Function to share the collection, or make it private again.
+ * @returns handleCopyLink - Function to copy the link to the collection.
+ * @returns handleDelete - Function to delete the collection.
+ */
+const useCollectionPage = () => {
+  const { cid } = useParams();
+  const navigate = useNavigate();
+  const { user } = useUserContext();
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const collectionID = cid ?? '';
+  const canManage = collection?.owner === user.username || user.role === 'admin';
+
+  useEffect(() => {
+    /**
+     * Function to fetch the collection.
+     */
+    const fetchCollection = async () => {
+      try {
+        setCollection(await getCollection(collectionID));
+        setError(null);
+      } catch (err) {
+        setCollection(null);
+        setError('This collection does not exist or is private');
+      }
+    };
+
+    fetchCollection();
+  }, [collectionID]);
+
+  /**
+   * Function to share the collection, or make it private again.
+   */
+  const handleToggleShared = async () => {
+    if (!collection) {
+      return;
+    }
+
+    try {
+      setCollection(await setCollectionShared(collection._id, !collection.shared));
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+    }
+  };
+
+  /**
+   * Function to copy the link to the collection, so that it can be shared.
+   */
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+    }
+  };
+
+  /**
+   * Function to delete the collection, and go back to the list of collections.
+   */
+  const handleDelete = async () => {
+    try {
+      await deleteCollection(collectionID);
+      navigate('/collections');
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+    }
+  };
+
+  return {
+    collectionID,
+    collection,
+    error,
+    canManage,
+    copied,
+    handleToggleShared,
+    handleCopyLink,
+    handleDelete,
+  };
+};
+
+export default useCollectionPage;
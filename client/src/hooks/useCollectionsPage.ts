@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Collection } from '../types';
+import { createCollection, getCollectionsByUser } from '../services/collectionService';
+import useUserContext from './useUserContext';
+
+/**
+ * Custom hook for managing the collections page, which lists the collections of the current user
+ * and lets them create new ones.
+ *
+ * @returns collections - The collections of the current user, most recently changed first.
+ * @returns name - The name of the collection being created.
+ * @returns setName - Function to set the name of the collection being created.
+ * @returns description - The description of the collection being created.
+ * @returns setDescription - Function to set the description of the collection being created.
+ * @returns shared - Whether the collection being created can be viewed by others.
+ * @returns setShared - Function to set whether the collection being created can be viewed by others.
+ * @returns err - The reason the collection could not be created, if any.
+ * @returns handleCreate - Function to create the collection.
+ */
+const useCollectionsPage = () => {
+  const { user } = useUserContext();
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [shared, setShared] = useState<boolean>(false);
+  const [err, setErr] = useState<string>('');
+
+  useEffect(() => {
+    /**
+     * Function to fetch the collections of the current user.
+     */
+    const fetchCollections = async () => {
+      try {
+        setCollections(await getCollectionsByUser(user.username));
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(error);
+      }
+    };
+
+    fetchCollections();
+  }, [user.username]);
+
+  /**
+   * Function to create a collection with the entered details, and add it to the top of the list.
+   */
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setErr('Collection name cannot be empty');
+      return;
+    }
+
+    try {
+      const collection = await createCollection(name, description, shared);
+      setCollections(prev => [collection, ...prev]);
+      setName('');
+      setDescription('');
+      setShared(false);
+      setErr('');
+    } catch (error) {
+      setErr('Error when creating the collection');
+    }
+  };
+
+  return {
+    collections,
+    name,
+    setName,
+    description,
+    setDescription,
+    shared,
+    setShared,
+    err,
+    handleCreate,
+  };
+};
+
+export default useCollectionsPage;
@@ -1,23 +1,141 @@
-import { useEffect, useState } from 'react';
-import { Chat, ChatUpdatePayload, User } from '../types';
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Chat, ChatUpdatePayload, MessageInChat, TypingUpdatePayload, User } from '../types';
 import useUserContext from './useUserContext';
-import { createChat, getChatById, getChatsByUser, sendMessage } from '../services/chatService';
+import {
+  createChat,
+  deleteChatMessage,
+  editChatMessage,
+  getChatById,
+  getChatMessages,
+  getChatsByUser,
+  markChatRead,
+  sendMessage,
+} from '../services/chatService';
+
+/**
+ * How often the user is reported as typing while they keep typing, in milliseconds.
+ */
+const TYPING_INTERVAL_MS = 2000;
+
+/**
+ * How long another participant is shown as typing after their last typing update, in milliseconds.
+ * Covers participants whose stop was never received, e.g. because they closed the page.
+ */
+const TYPING_TIMEOUT_MS = 5000;
+
+/**
+ * Chats from the server hold their latest messages only. When such a chat replaces one that is
+ * already loaded, the older messages loaded for it so far are kept. So is its unread count, which
+ * the server only sends with the list of chats of the user.
+ *
+ * @param loadedChat - The chat as loaded so far.
+ * @param updatedChat - The chat from the server.
+ * @returns The updated chat, with the older messages loaded so far.
+ */
+const mergeChat = (loadedChat: Chat | null, updatedChat: Chat): Chat => {
+  if (!loadedChat || loadedChat._id !== updatedChat._id) {
+    return updatedChat;
+  }
+
+  const chat = { ...updatedChat, unreadCount: loadedChat.unreadCount };
+  const overlap = loadedChat.messages.findIndex(
+    message => message._id === updatedChat.messages[0]?._id,
+  );
+  if (overlap <= 0) {
+    return chat;
+  }
+
+  return {
+    ...chat,
+    messages: [...loadedChat.messages.slice(0, overlap), ...updatedChat.messages],
+    hasMoreMessages: loadedChat.hasMoreMessages,
+  };
+};
+
+/**
+ * Counts the messages of a chat the user has not read yet, for chats that are new to the user.
+ *
+ * @param chat - The chat.
+ * @param username - The username of the user.
+ * @returns The number of messages from others in the chat.
+ */
+const countMessagesFromOthers = (chat: Chat, username: string): number =>
+  chat.messages.filter(message => message.msgFrom !== username && !message.deletedAt).length;
+
+/**
+ * Replaces a message of a chat that was edited or deleted, if it is loaded.
+ *
+ * @param chat - The chat.
+ * @param updatedMessage - The message that was edited or deleted.
+ * @returns The chat with the updated message.
+ */
+const replaceMessage = (chat: Chat, updatedMessage: MessageInChat): Chat => ({
+  ...chat,
+  messages: chat.messages.map(message =>
+    message._id === updatedMessage._id ? updatedMessage : message,
+  ),
+});
 
 /**
  * useDirectMessage is a custom hook that provides state and functions for direct messaging between users.
- * It includes a selected user, messages, and a new message state.
+ * It includes a selected user, messages, and a new message state. A chat passed as `chatId` in the
+ * navigation state, e.g. from a notification, is selected when the page opens. Chats the user is
+ * removed from, or leaves, are dropped from the list. Older messages of the selected chat are
+ * loaded when its messages are scrolled to the top. The user can edit or delete their own messages.
+ * Chats are marked as read when they are opened, and when new messages arrive in the open chat;
+ * other chats count their unread messages. The participants of the open chat see who is typing.
  */
 
 const useDirectMessage = () => {
   const { user, socket } = useUserContext();
+  const location = useLocation();
   const [showCreatePanel, setShowCreatePanel] = useState<boolean>(false);
   const [chatToCreate, setChatToCreate] = useState<string>('');
   const [selectedChat, setSelectedChat] = useState<Chat | null>(null);
   const [chats, setChats] = useState<Chat[]>([]);
   const [newMessage, setNewMessage] = useState('');
+  const [loadingMessages, setLoadingMessages] = useState<boolean>(false);
+  const messagesRef = useRef<HTMLDivElement>(null);
+  const scrollHeightBeforeLoad = useRef<number | null>(null);
+  const selectedChatId = useRef<string | undefined>(undefined);
+  const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  const typingTimeouts = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const lastTypingAt = useRef<number | null>(null);
 
-  const handleJoinChat = (chatID: string) => {
-    socket.emit('joinChat', chatID);
+  useEffect(() => {
+    selectedChatId.current = selectedChat?._id;
+  }, [selectedChat?._id]);
+
+  const readChat = async (chatID: string) => {
+    try {
+      await markChatRead(chatID);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(error);
+    }
+  };
+
+  const stopTyping = () => {
+    if (lastTypingAt.current !== null && selectedChat?._id) {
+      socket.emit('stopTyping', selectedChat._id);
+    }
+    lastTypingAt.current = null;
+  };
+
+  const handleNewMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (!selectedChat?._id) return;
+
+    if (value === '') {
+      stopTyping();
+    } else if (
+      lastTypingAt.current === null ||
+      Date.now() - lastTypingAt.current >= TYPING_INTERVAL_MS
+    ) {
+      socket.emit('typing', selectedChat._id);
+      lastTypingAt.current = Date.now();
+    }
   };
 
   const handleSendMessage = async () => {
@@ -27,8 +145,9 @@ const useDirectMessage = () => {
           { msg: newMessage, msgFrom: user.username, msgDateTime: new Date() },
           selectedChat._id,
         );
-        setSelectedChat(updatedChat);
+        setSelectedChat(prevChat => mergeChat(prevChat, updatedChat));
         setNewMessage('');
+        stopTyping();
       } catch (error) {
         throw new Error(`Error sending message: ${error}`);
       }
@@ -41,12 +160,152 @@ const useDirectMessage = () => {
       const chat = await getChatById(chatID);
       setSelectedChat(chat);
       setNewMessage('');
-      handleJoinChat(chat._id);
+      readChat(chatID);
     } catch (error) {
       throw new Error(`Error selecting chat (ID: ${chatID}): ${error}`);
     }
   };
 
+  useEffect(() => {
+    const { chatId } = (location.state ?? {}) as { chatId?: string };
+    if (chatId) {
+      handleChatSelect(chatId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.state]);
+
+  const handleEditMessage = async (messageId: string, msg: string) => {
+    if (!selectedChat?._id) return;
+    const updatedMessage = await editChatMessage(selectedChat._id, messageId, msg);
+    setSelectedChat(prevChat => prevChat && replaceMessage(prevChat, updatedMessage));
+  };
+
+  const handleDeleteMessage = async (messageId: string) => {
+    if (!selectedChat?._id) return;
+    const updatedMessage = await deleteChatMessage(selectedChat._id, messageId);
+    setSelectedChat(prevChat => prevChat && replaceMessage(prevChat, updatedMessage));
+  };
+
+  const handleLoadOlderMessages = async () => {
+    if (!selectedChat?._id || !selectedChat.hasMoreMessages || loadingMessages) return;
+
+    const chatID = selectedChat._id;
+    setLoadingMessages(true);
+    try {
+      const page = await getChatMessages(chatID, selectedChat.messages[0]?._id);
+      scrollHeightBeforeLoad.current = messagesRef.current?.scrollHeight ?? null;
+      setSelectedChat(prevChat =>
+        prevChat?._id === chatID
+          ? {
+              ...prevChat,
+              messages: [...page.messages, ...prevChat.messages],
+              hasMoreMessages: page.hasMore,
+            }
+          : prevChat,
+      );
+    } catch (error) {
+      throw new Error(`Error loading older messages of chat (ID: ${chatID}): ${error}`);
+    } finally {
+      setLoadingMessages(false);
+    }
+  };
+
+  const handleMessagesScroll = () => {
+    if (messagesRef.current?.scrollTop === 0) {
+      handleLoadOlderMessages();
+    }
+  };
+
+  const firstMessageId = selectedChat?.messages[0]?._id;
+  const lastMessageId = selectedChat?.messages[selectedChat.messages.length - 1]?._id;
+  const seenBy =
+    selectedChat?.lastRead
+      ?.filter(
+        receipt =>
+          receipt.username !== user.username &&
+          !!lastMessageId &&
+          receipt.messageId === lastMessageId,
+      )
+      .map(receipt => receipt.username) ?? [];
+
+  // Keeps the messages in view when older ones are added above them, and otherwise
+  // scrolls to the latest message
+  useLayoutEffect(() => {
+    const container = messagesRef.current;
+    if (!container) return;
+
+    if (scrollHeightBeforeLoad.current !== null) {
+      container.scrollTop = container.scrollHeight - scrollHeightBeforeLoad.current;
+      scrollHeightBeforeLoad.current = null;
+    } else {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [selectedChat?._id, firstMessageId, lastMessageId]);
+
+  useEffect(() => {
+    const chatID = selectedChat?._id;
+    if (!chatID) return undefined;
+
+    /**
+     * Function to join the room of the open chat, which receives its typing updates.
+     * Rooms are lost when the connection drops, so the room is joined again on reconnection.
+     */
+    const joinChat = () => {
+      socket.emit('joinChat', chatID);
+    };
+
+    const removeTypingUser = (username: string) => {
+      clearTimeout(typingTimeouts.current[username]);
+      delete typingTimeouts.current[username];
+      setTypingUsers(prev => prev.filter(typingUser => typingUser !== username));
+    };
+
+    const handleTypingUpdate = (typingUpdate: TypingUpdatePayload) => {
+      const { chatId, username, typing } = typingUpdate;
+      if (chatId !== chatID || username === user.username) return;
+
+      if (!typing) {
+        removeTypingUser(username);
+        return;
+      }
+
+      clearTimeout(typingTimeouts.current[username]);
+      typingTimeouts.current[username] = setTimeout(
+        () => removeTypingUser(username),
+        TYPING_TIMEOUT_MS,
+      );
+      setTypingUsers(prev => (prev.includes(username) ? prev : [...prev, username]));
+    };
+
+    joinChat();
+
+    socket.on('connect', joinChat);
+    socket.on('typingUpdate', handleTypingUpdate);
+
+    return () => {
+      socket.off('connect', joinChat);
+      socket.off('typingUpdate', handleTypingUpdate);
+      if (lastTypingAt.current !== null) {
+        socket.emit('stopTyping', chatID);
+        lastTypingAt.current = null;
+      }
+      socket.emit('leaveChat', chatID);
+      Object.values(typingTimeouts.current).forEach(clearTimeout);
+      typingTimeouts.current = {};
+      setTypingUsers([]);
+    };
+  }, [selectedChat?._id, user.username, socket]);
+
+  const handleChatCreated = (chat: Chat) => {
+    setSelectedChat(chat);
+    setNewMessage('');
+  };
+
+  const handleChatLeft = () => {
+    setChats(prevChats => prevChats.filter(chat => chat._id !== selectedChat?._id));
+    setSelectedChat(null);
+  };
+
   const handleUserSelect = (selectedUser: User) => {
     setChatToCreate(selectedUser.username);
   };
@@ -59,7 +318,6 @@ const useDirectMessage = () => {
       setChatToCreate('');
       setNewMessage('');
       setShowCreatePanel(false);
-      handleJoinChat(newChat._id);
     } catch (error) {
       throw new Error(`Error creating chat: ${error}`);
     }
@@ -76,13 +334,96 @@ const useDirectMessage = () => {
     };
 
     const handleChatUpdate = (chatUpdate: ChatUpdatePayload) => {
+      if (chatUpdate.removed === user.username) {
+        setChats(prevChats => prevChats.filter(chat => chat._id !== chatUpdate.chat._id));
+        setSelectedChat(prevChat => (prevChat?._id === chatUpdate.chat._id ? null : prevChat));
+        return;
+      }
+
       switch (chatUpdate.type) {
         case 'created':
-          setChats(prevChats => [...prevChats, chatUpdate.chat]);
+          setChats(prevChats =>
+            prevChats.some(chat => chat._id === chatUpdate.chat._id)
+              ? prevChats
+              : [
+                  ...prevChats,
+                  {
+                    ...chatUpdate.chat,
+                    unreadCount: countMessagesFromOthers(chatUpdate.chat, user.username),
+                  },
+                ],
+          );
           break;
+        case 'participantAdded':
         case 'newMessage':
-          setSelectedChat(chatUpdate.chat);
+        case 'participantRemoved':
+        case 'renamed':
+        case 'rolesChanged': {
+          const { messages } = chatUpdate.chat;
+          const isOpen = selectedChatId.current === chatUpdate.chat._id;
+          const isUnread =
+            chatUpdate.type === 'newMessage' &&
+            messages[messages.length - 1]?.msgFrom !== user.username;
+
+          if (isUnread && isOpen && chatUpdate.chat._id) {
+            readChat(chatUpdate.chat._id);
+          }
+
+          // Users who were just added do not have the chat yet
+          setChats(prevChats =>
+            prevChats.some(chat => chat._id === chatUpdate.chat._id)
+              ? prevChats.map(chat => {
+                  if (chat._id !== chatUpdate.chat._id) return chat;
+                  const updatedChat = mergeChat(chat, chatUpdate.chat);
+                  return isUnread && !isOpen
+                    ? { ...updatedChat, unreadCount: (chat.unreadCount ?? 0) + 1 }
+                    : updatedChat;
+                })
+              : [
+                  ...prevChats,
+                  {
+                    ...chatUpdate.chat,
+                    unreadCount: countMessagesFromOthers(chatUpdate.chat, user.username),
+                  },
+                ],
+          );
+          setSelectedChat(prevChat =>
+            prevChat?._id === chatUpdate.chat._id ? mergeChat(prevChat, chatUpdate.chat) : prevChat,
+          );
+          break;
+        }
+        case 'messagesRead': {
+          const { lastRead } = chatUpdate.chat;
+          const readByUser = chatUpdate.readBy === user.username;
+
+          setChats(prevChats =>
+            prevChats.map(chat =>
+              chat._id === chatUpdate.chat._id
+                ? { ...chat, lastRead, unreadCount: readByUser ? 0 : chat.unreadCount }
+                : chat,
+            ),
+          );
+          setSelectedChat(prevChat =>
+            prevChat && prevChat._id === chatUpdate.chat._id ? { ...prevChat, lastRead } : prevChat,
+          );
+          break;
+        }
+        case 'messageUpdated': {
+          const { message } = chatUpdate;
+          if (!message) break;
+
+          setChats(prevChats =>
+            prevChats.map(chat =>
+              chat._id === chatUpdate.chat._id ? replaceMessage(chat, message) : chat,
+            ),
+          );
+          setSelectedChat(prevChat =>
+            prevChat && prevChat._id === chatUpdate.chat._id
+              ? replaceMessage(prevChat, message)
+              : prevChat,
+          );
           break;
+        }
         default:
           throw new Error(`Invalid chat update type: ${chatUpdate.type}`);
       }
@@ -94,22 +435,30 @@ const useDirectMessage = () => {
 
     return () => {
       socket.off('chatUpdate', handleChatUpdate);
-      socket.emit('leaveChat', selectedChat?._id);
     };
-  }, [user.username, socket, selectedChat?._id]);
+  }, [user.username, socket]);
 
   return {
     selectedChat,
     chatToCreate,
     chats,
     newMessage,
-    setNewMessage,
+    handleNewMessageChange,
+    typingUsers,
     showCreatePanel,
     setShowCreatePanel,
     handleSendMessage,
     handleChatSelect,
     handleUserSelect,
     handleCreateChat,
+    handleChatCreated,
+    handleChatLeft,
+    loadingMessages,
+    messagesRef,
+    handleMessagesScroll,
+    handleEditMessage,
+    handleDeleteMessage,
+    seenBy,
   };
 };
 
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Chat, User } from '../types';
+import useUserContext from './useUserContext';
+import { createChat } from '../services/chatService';
+
+/**
+ * Custom hook for the dialog to create a group chat. The user names the group and picks its
+ * members, and is added to it as its owner.
+ *
+ * @param handleCreated - Function called with the group chat once it is created.
+ *
+ * @returns open - Whether the dialog is shown.
+ * @returns setOpen - Function to show or hide the dialog.
+ * @returns name - The name of the group.
+ * @returns setName - Function to update the name of the group.
+ * @returns members - The usernames of the members picked so far, other than the user.
+ * @returns toggleMember - Function to pick a member, or unpick them if they are already picked.
+ * @returns error - The reason the group cannot be created, if any.
+ * @returns handleCreateGroup - Function to create the group chat and close the dialog.
+ */
+const useGroupChatDialog = (handleCreated: (chat: Chat) => void) => {
+  const { user } = useUserContext();
+  const [open, setOpen] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [members, setMembers] = useState<string[]>([]);
+  const [error, setError] = useState<string>('');
+
+  /**
+   * Function to pick a member, or unpick them if they are already picked. The user is always a
+   * member of the groups they create.
+   *
+   * @param member - The user who was clicked.
+   */
+  const toggleMember = (member: User) => {
+    if (member.username === user.username) {
+      return;
+    }
+
+    setMembers(prev =>
+      prev.includes(member.username)
+        ? prev.filter(m => m !== member.username)
+        : [...prev, member.username],
+    );
+  };
+
+  /**
+   * Function to create the group chat and close the dialog.
+   */
+  const handleCreateGroup = async () => {
+    if (name.trim() === '') {
+      setError('Give the group a name');
+      return;
+    }
+    if (members.length === 0) {
+      setError('Pick at least one member');
+      return;
+    }
+
+    try {
+      const chat = await createChat([user.username, ...members], name.trim());
+      handleCreated(chat);
+      setName('');
+      setMembers([]);
+      setError('');
+      setOpen(false);
+    } catch (err) {
+      setError('The group could not be created');
+    }
+  };
+
+  return { open, setOpen, name, setName, members, toggleMember, error, handleCreateGroup };
+};
+
+export default useGroupChatDialog;
@@ -1,6 +1,7 @@
 import { ChangeEvent, useState, KeyboardEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import useLoginContext from './useLoginContext';
+import { setAuthToken } from '../services/config';
 
 /**
  * Custom hook to manage the state and logic for a header input field.
@@ -47,9 +48,10 @@ const useHeader = () => {
   };
 
   /**
-   * Signs the user out by clearing the user context and navigating to the landing page.
+   * Signs the user out by clearing the user context and token, and navigating to the landing page.
    */
   const handleSignOut = () => {
+    setAuthToken(null);
     setUser(null);
     navigate('/');
   };
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Message } from '../types';
+import useUserContext from './useUserContext';
+
+/**
+ * Custom hook for a message card, which lets the author of a message edit or delete it.
+ *
+ * @param message - The message shown by the card.
+ * @param handleEdit - Function to save the new text of the message. Messages cannot be edited without it.
+ * @param handleDelete - Function to delete the message. Messages cannot be deleted without it.
+ *
+ * @returns canEdit - Whether the user can edit the message.
+ * @returns canDelete - Whether the user can delete the message.
+ * @returns editing - Whether the message is being edited.
+ * @returns draft - The new text of the message.
+ * @returns setDraft - Function to update the new text of the message.
+ * @returns error - The reason the message could not be changed, if any.
+ * @returns startEditing - Function to start editing the message.
+ * @returns cancelEditing - Function to stop editing the message without saving it.
+ * @returns saveEdit - Function to save the new text of the message.
+ * @returns deleteMessage - Function to delete the message.
+ */
+const useMessageCard = (
+  message: Message,
+  handleEdit?: (msg: string) => Promise<void>,
+  handleDelete?: () => Promise<void>,
+) => {
+  const { user } = useUserContext();
+  const [editing, setEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const isAuthor =
+    message.msgFrom === user.username && message.type !== 'system' && !message.deletedAt;
+  const canEdit = isAuthor && !!handleEdit;
+  const canDelete = isAuthor && !!handleDelete;
+
+  /**
+   * Function to start editing the message, from its current text.
+   */
+  const startEditing = () => {
+    setDraft(message.msg);
+    setError('');
+    setEditing(true);
+  };
+
+  /**
+   * Function to stop editing the message without saving it.
+   */
+  const cancelEditing = () => {
+    setEditing(false);
+    setError('');
+  };
+
+  /**
+   * Function to save the new text of the message. The message is left being edited if it fails.
+   */
+  const saveEdit = async () => {
+    if (!handleEdit) return;
+
+    if (draft.trim() === '') {
+      setError('Message cannot be empty');
+      return;
+    }
+
+    try {
+      await handleEdit(draft);
+      setEditing(false);
+      setError('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  /**
+   * Function to delete the message.
+   */
+  const deleteMessage = async () => {
+    if (!handleDelete) return;
+
+    try {
+      await handleDelete();
+      setError('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return {
+    canEdit,
+    canDelete,
+    editing,
+    draft,
+    setDraft,
+    error,
+    startEditing,
+    cancelEditing,
+    saveEdit,
+    deleteMessage,
+  };
+};
+
+export default useMessageCard;
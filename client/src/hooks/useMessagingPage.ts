@@ -1,7 +1,7 @@
 import React, { useEffect } from 'react';
 import useUserContext from './useUserContext';
-import { Message } from '../types';
-import { addMessage, getMessages } from '../services/messageService';
+import { Message, MessageUpdatePayload } from '../types';
+import { addMessage, deleteMessage, editMessage, getMessages } from '../services/messageService';
 
 /**
  * Custom hook that handles the logic for the messaging page.
@@ -10,6 +10,8 @@ import { addMessage, getMessages } from '../services/messageService';
  * @returns newMessage - The new message to be sent.
  * @returns setNewMessage - The function to set the new message.
  * @returns handleSendMessage - The function to handle sending a new message.
+ * @returns handleEditMessage - The function to edit a message of the user.
+ * @returns handleDeleteMessage - The function to delete a message of the user.
  */
 const useMessagingPage = () => {
   const { user, socket } = useUserContext();
@@ -27,8 +29,12 @@ const useMessagingPage = () => {
   }, []);
 
   useEffect(() => {
-    const handleMessageUpdate = async (data: { msg: Message }) => {
-      setMessages([...messages, data.msg]);
+    const handleMessageUpdate = async (data: MessageUpdatePayload) => {
+      if (data.type === 'created') {
+        setMessages([...messages, data.msg]);
+      } else {
+        setMessages(messages.map(message => (message._id === data.msg._id ? data.msg : message)));
+      }
     };
 
     socket.on('messageUpdate', handleMessageUpdate);
@@ -62,7 +68,35 @@ const useMessagingPage = () => {
     setNewMessage('');
   };
 
-  return { messages, newMessage, setNewMessage, handleSendMessage, error };
+  /**
+   * Handles editing the text of a message of the user. The message is updated once the server
+   * sends the change.
+   *
+   * @param messageId - The ID of the message to edit.
+   * @param msg - The new text of the message.
+   */
+  const handleEditMessage = async (messageId: string, msg: string) => {
+    await editMessage(messageId, msg);
+  };
+
+  /**
+   * Handles deleting a message of the user. The message is updated once the server sends the change.
+   *
+   * @param messageId - The ID of the message to delete.
+   */
+  const handleDeleteMessage = async (messageId: string) => {
+    await deleteMessage(messageId);
+  };
+
+  return {
+    messages,
+    newMessage,
+    setNewMessage,
+    handleSendMessage,
+    handleEditMessage,
+    handleDeleteMessage,
+    error,
+  };
 };
 
 export default useMessagingPage;
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getNotifications,
+  markAllNotificationsRead,
+  setNotificationRead,
+} from '../services/notificationService';
+import { Notification, NotificationUpdatePayload } from '../types';
+import useUserContext from './useUserContext';
+
+/**
+ * Custom hook for the notification bell in the header. It loads the recent notifications of the
+ * user and keeps them up to date as new notifications arrive or are read in another tab.
+ *
+ * @returns notifications - The most recent notifications, newest first.
+ * @returns unreadCount - The number of notifications the user has not read yet.
+ * @returns open - Whether the notification dropdown is open.
+ * @returns toggleOpen - Function to open or close the notification dropdown.
+ * @returns openNotification - Function to mark a notification as read and go to what it is about.
+ * @returns toggleRead - Function to mark a notification as read or unread.
+ * @returns markAllRead - Function to mark all the notifications as read.
+ */
+const useNotifications = () => {
+  const { socket } = useUserContext();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+  const [open, setOpen] = useState<boolean>(false);
+
+  useEffect(() => {
+    /**
+     * Function to fetch the recent notifications and the unread count.
+     */
+    const fetchNotifications = async () => {
+      try {
+        const res = await getNotifications();
+        setNotifications(res.notifications);
+        setUnreadCount(res.unreadCount);
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(error);
+      }
+    };
+
+    /**
+     * Function to handle a notification update event from the socket. New notifications are
+     * added to the top of the list, other changes reload the list.
+     *
+     * @param update - The notification update.
+     */
+    const handleNotificationUpdate = (update: NotificationUpdatePayload) => {
+      const { notification } = update;
+
+      if (update.type === 'created' && notification) {
+        setNotifications(prev => [notification, ...prev]);
+        setUnreadCount(prev => prev + 1);
+      } else {
+        fetchNotifications();
+      }
+    };
+
+    fetchNotifications();
+
+    socket.on('notificationUpdate', handleNotificationUpdate);
+
+    return () => {
+      socket.off('notificationUpdate', handleNotificationUpdate);
+    };
+  }, [socket]);
+
+  /**
+   * Function to open or close the notification dropdown.
+   */
+  const toggleOpen = () => {
+    setOpen(prev => !prev);
+  };
+
+  /**
+   * Function to mark a notification as read or unread, and update the list and unread count.
+   *
+   * @param notification - The notification to update.
+   * @param read - Whether the notification should be marked as read.
+   */
+  const updateRead = async (notification: Notification, read: boolean) => {
+    if (notification.read === read) {
+      return;
+    }
+
+    try {
+      const updated = await setNotificationRead(notification._id, read);
+      setNotifications(prev => prev.map(n => (n._id === updated._id ? updated : n)));
+      setUnreadCount(prev => Math.max(0, prev + (read ? -1 : 1)));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(error);
+    }
+  };
+
+  /**
+   * Function to mark a notification as read or unread, the opposite of what it is now.
+   *
+   * @param notification - The notification to update.
+   */
+  const toggleRead = (notification: Notification) => updateRead(notification, !notification.read);
+
+  /**
+   * Function to mark a notification as read, close the dropdown, and go to the question, chat or
+   * game the notification is about.
+   *
+   * @param notification - The notification that was clicked.
+   */
+  const openNotification = (notification: Notification) => {
+    updateRead(notification, true);
+    setOpen(false);
+
+    if (notification.qid) {
+      navigate(`/question/${notification.qid}`);
+    } else if (notification.chatId) {
+      navigate('/messaging/direct-message', { state: { chatId: notification.chatId } });
+    } else if (notification.gameID) {
+      navigate(`/games/${notification.gameID}`);
+    }
+  };
+
+  /**
+   * Function to mark all the notifications as read.
+   */
+  const markAllRead = async () => {
+    try {
+      await markAllNotificationsRead();
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(error);
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount,
+    open,
+    toggleOpen,
+    openNotification,
+    toggleRead,
+    markAllRead,
+  };
+};
+
+export default useNotifications;
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { validateHyperlink } from '../tool';
+import { PostContent } from '../types';
+
+/**
+ * Custom hook to handle the form state and validation when editing a question or answer.
+ *
+ * @param initial - The current content of the post, used to prefill the form.
+ * @param handleSave - Function called with the new content and the edit summary once the form is valid.
+ *
+ * @returns title - The current value of the title input. Only used for questions.
+ * @returns text - The current value of the text input.
+ * @returns tagNames - The current value of the tags input. Only used for questions.
+ * @returns summary - The current value of the edit summary input.
+ * @returns titleErr - Error message for the title field, if any.
+ * @returns textErr - Error message for the text field, if any.
+ * @returns tagErr - Error message for the tag field, if any.
+ * @returns saveEdit - Function to validate the form and submit the edit.
+ */
+const usePostEditor = (
+  initial: PostContent,
+  handleSave: (content: PostContent, summary: string) => void,
+) => {
+  const isQuestion = initial.title !== undefined;
+  const [title, setTitle] = useState<string>(initial.title ?? '');
+  const [text, setText] = useState<string>(initial.text);
+  const [tagNames, setTagNames] = useState<string>((initial.tags ?? []).join(' '));
+  const [summary, setSummary] = useState<string>('');
+
+  const [titleErr, setTitleErr] = useState<string>('');
+  const [textErr, setTextErr] = useState<string>('');
+  const [tagErr, setTagErr] = useState<string>('');
+
+  const parseTagNames = () => tagNames.split(' ').filter(tagName => tagName.trim() !== '');
+
+  /**
+   * Function to validate the form before submitting the edit.
+   *
+   * @returns boolean - True if the form is valid, false otherwise.
+   */
+  const validateForm = (): boolean => {
+    let isValid = true;
+
+    if (!text) {
+      setTextErr('Text cannot be empty');
+      isValid = false;
+    } else if (!validateHyperlink(text)) {
+      setTextErr('Invalid hyperlink format.');
+      isValid = false;
+    } else {
+      setTextErr('');
+    }
+
+    if (!isQuestion) {
+      return isValid;
+    }
+
+    if (!title) {
+      setTitleErr('Title cannot be empty');
+      isValid = false;
+    } else if (title.length > 100) {
+      setTitleErr('Title cannot be more than 100 characters');
+      isValid = false;
+    } else {
+      setTitleErr('');
+    }
+
+    const tagnames = parseTagNames();
+    if (tagnames.length === 0) {
+      setTagErr('Should have at least 1 tag');
+      isValid = false;
+    } else if (tagnames.length > 5) {
+      setTagErr('Cannot have more than 5 tags');
+      isValid = false;
+    } else if (tagnames.some(tagName => tagName.length > 20)) {
+      setTagErr('New tag length cannot be more than 20');
+      isValid = false;
+    } else {
+      setTagErr('');
+    }
+
+    return isValid;
+  };
+
+  /**
+   * Function to submit the edit if the form is valid.
+   */
+  const saveEdit = () => {
+    if (!validateForm()) return;
+
+    handleSave(isQuestion ? { title, text, tags: parseTagNames() } : { text }, summary);
+  };
+
+  return {
+    isQuestion,
+    title,
+    setTitle,
+    text,
+    setText,
+    tagNames,
+    setTagNames,
+    summary,
+    setSummary,
+    titleErr,
+    textErr,
+    tagErr,
+    saveEdit,
+  };
+};
+
+export default usePostEditor;
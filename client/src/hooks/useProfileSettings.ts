@@ -6,8 +6,10 @@ import {
   deleteUser,
   resetPassword,
   updateBiography,
+  updateRole,
+  getReputationHistory,
 } from '../services/userService';
-import { User } from '../types';
+import { ReputationEvent, User, UserRole } from '../types';
 import useUserContext from './useUserContext';
 
 /**
@@ -22,6 +24,7 @@ const useProfileSettings = () => {
 
   // Local state
   const [userData, setUserData] = useState<User | null>(null);
+  const [reputationHistory, setReputationHistory] = useState<ReputationEvent[]>([]);
   const [newPassword, setNewPassword] = useState('');
   const [confirmNewPassword, setConfirmNewPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -33,10 +36,16 @@ const useProfileSettings = () => {
   // For delete-user confirmation modal
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
+  const [deleteContent, setDeleteContent] = useState(false);
 
   const [showPassword, setShowPassword] = useState(false);
 
-  const canEditProfile = currentUser.username === username;
+  const isOwnProfile = currentUser.username === username;
+  // Moderators can edit any biography, only admins can manage other accounts and roles
+  const canEditBiography =
+    isOwnProfile || currentUser.role === 'moderator' || currentUser.role === 'admin';
+  const canManageAccount = isOwnProfile || currentUser.role === 'admin';
+  const canChangeRole = !isOwnProfile && currentUser.role === 'admin';
 
   useEffect(() => {
     if (!username) return;
@@ -47,9 +56,11 @@ const useProfileSettings = () => {
         const data = await getUserByUsername(username);
         setUserData(data);
         setNewBio(data.biography);
+        setReputationHistory(await getReputationHistory(username));
       } catch (error) {
         setErrorMessage('Error fetching user profile');
         setUserData(null);
+        setReputationHistory([]);
       } finally {
         setLoading(false);
       }
@@ -111,6 +122,23 @@ const useProfileSettings = () => {
     }
   };
 
+  /**
+   * Handler for changing the role of the viewed user.
+   *
+   * @param role - The new role to assign.
+   */
+  const handleUpdateRole = async (role: UserRole) => {
+    if (!username) return;
+
+    try {
+      const data = await updateRole(username, role);
+      setUserData(data);
+      setMessage(`Role changed to ${role}`, 'success');
+    } catch (error) {
+      setMessage((error as Error).message, 'error');
+    }
+  };
+
   /**
    * Handler for deleting the user (triggers confirmation modal)
    */
@@ -121,10 +149,10 @@ const useProfileSettings = () => {
     setShowConfirmation(true);
     setPendingAction(() => async () => {
       try {
-        await deleteUser(username);
+        await deleteUser(username, deleteContent ? 'hardDelete' : 'anonymize');
         setSuccessMessage('User deleted successfully');
-        // Navigate home after successful deletion
-        navigate('/');
+        // Navigate home after deleting one's own account, or back to the users list otherwise
+        navigate(isOwnProfile ? '/' : '/users');
       } catch (error) {
         // Error handling
         setErrorMessage((error as Error).message);
@@ -137,6 +165,7 @@ const useProfileSettings = () => {
 
   return {
     userData,
+    reputationHistory,
     newPassword,
     confirmNewPassword,
     setNewPassword,
@@ -152,11 +181,16 @@ const useProfileSettings = () => {
     setShowConfirmation,
     pendingAction,
     setPendingAction,
-    canEditProfile,
+    deleteContent,
+    setDeleteContent,
+    canEditBiography,
+    canManageAccount,
+    canChangeRole,
     showPassword,
     togglePasswordVisibility,
     handleResetPassword,
     handleUpdateBiography,
+    handleUpdateRole,
     handleDeleteUser,
   };
 };
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { Collection } from '../types';
+import { getCollectionsByUser, setCollectionQuestion } from '../services/collectionService';
+import useUserContext from './useUserContext';
+
+/**
+ * Custom hook for adding a question to the collections of the current user, or removing it.
+ *
+ * @param qid - The ID of the question.
+ *
+ * @returns collections - The collections of the current user.
+ * @returns toggleCollection - Function to add the question to a collection, or remove it if it is already in it.
+ */
+const useQuestionCollections = (qid: string) => {
+  const { user } = useUserContext();
+  const [collections, setCollections] = useState<Collection[]>([]);
+
+  useEffect(() => {
+    /**
+     * Function to fetch the collections of the current user.
+     */
+    const fetchCollections = async () => {
+      try {
+        setCollections(await getCollectionsByUser(user.username));
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(error);
+      }
+    };
+
+    fetchCollections();
+  }, [user.username]);
+
+  /**
+   * Function to add the question to a collection, or remove it if it is already in it.
+   *
+   * @param id - The ID of the collection.
+   */
+  const toggleCollection = async (id: string) => {
+    const collection = collections.find(c => c._id === id);
+
+    if (!collection) {
+      return;
+    }
+
+    try {
+      const updated = await setCollectionQuestion(id, qid, !collection.questions.includes(qid));
+      setCollections(prev => prev.map(c => (c._id === updated._id ? updated : c)));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(error);
+    }
+  };
+
+  return { collections, toggleCollection };
+};
+
+export default useQuestionCollections;
@@ -1,24 +1,47 @@
 import { useSearchParams } from 'react-router-dom';
 import { useEffect, useState } from 'react';
 import useUserContext from './useUserContext';
-import { Answer, OrderType, Question } from '../types';
+import { Answer, OrderType, Question, QuestionListFilter, SnippetPart } from '../types';
 import { getQuestionsByFilter } from '../services/questionService';
 
 /**
  * Custom hook for managing the question page state, filtering, and real-time updates.
  *
+ * @param filter - The bookmarks or collection to narrow the questions to, if any.
+ *
  * @returns titleText - The current title of the question page
  * @returns qlist - The list of questions to display
+ * @returns snippets - The search result snippet of each question, by question ID
+ * @returns isSearching - Whether the questions are searched by keywords, and can be ordered by relevance
+ * @returns error - The reason the questions could not be fetched, such as an invalid search
+ * @returns total - The number of questions matching the filter, across all pages
+ * @returns page - The number of the page being displayed, starting at 1
+ * @returns pageCount - The number of pages of questions
+ * @returns setPage - Function to display another page of questions
  * @returns setQuestionOrder - Function to set the sorting order of questions (e.g., newest, oldest).
+ * @returns isModerator - Whether the current user is a moderator, and can view deleted questions.
+ * @returns showDeleted - Whether deleted questions are included in the list.
+ * @returns setShowDeleted - Function to include or exclude deleted questions.
  */
-const useQuestionPage = () => {
-  const { socket } = useUserContext();
+const useQuestionPage = (filter: QuestionListFilter = {}) => {
+  const { user, socket } = useUserContext();
+  const { bookmarkedBy, collection } = filter;
 
   const [searchParams] = useSearchParams();
   const [titleText, setTitleText] = useState<string>('All Questions');
   const [search, setSearch] = useState<string>('');
   const [questionOrder, setQuestionOrder] = useState<OrderType>('newest');
   const [qlist, setQlist] = useState<Question[]>([]);
+  const [snippets, setSnippets] = useState<Record<string, SnippetPart[]>>({});
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState<number>(0);
+  const [page, setPage] = useState<number>(1);
+  const [pageSize, setPageSize] = useState<number>(1);
+  const [showDeleted, setShowDeleted] = useState<boolean>(false);
+
+  const isModerator = user.role === 'moderator' || user.role === 'admin';
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
 
   useEffect(() => {
     let pageTitle = 'All Questions';
@@ -37,28 +60,59 @@ const useQuestionPage = () => {
 
     setTitleText(pageTitle);
     setSearch(searchString);
+    setIsSearching(!!searchQuery);
+    // Search results are best ranked by how well they match
+    setQuestionOrder(searchQuery ? 'relevance' : 'newest');
   }, [searchParams]);
 
+  useEffect(() => {
+    // A new filter starts again from the first page
+    setPage(1);
+  }, [questionOrder, search, showDeleted, bookmarkedBy, collection]);
+
   useEffect(() => {
     /**
      * Function to fetch questions based on the filter and update the question list.
      */
     const fetchData = async () => {
       try {
-        const res = await getQuestionsByFilter(questionOrder, search);
-        setQlist(res || []);
-      } catch (error) {
-        // eslint-disable-next-line no-console
-        console.log(error);
+        const res = await getQuestionsByFilter(questionOrder, search, showDeleted, page, {
+          bookmarkedBy,
+          collection,
+        });
+        setQlist(res.questions || []);
+        setSnippets(res.snippets ?? {});
+        setTotal(res.total);
+        setPageSize(res.pageSize);
+        setError(null);
+      } catch (err) {
+        setQlist([]);
+        setTotal(0);
+        setError(err instanceof Error ? err.message : 'Error when fetching questions');
       }
     };
 
     /**
-     * Function to handle question updates from the socket.
+     * Function to handle question updates from the socket. Deleted questions are removed from
+     * the list, unless deleted questions are shown. New questions are only added to the first page,
+     * and never to bookmarks or collections, which they cannot be part of yet.
      *
      * @param question - the updated question object.
      */
     const handleQuestionUpdate = (question: Question) => {
+      if (question.deletedAt) {
+        setQlist(prevQlist =>
+          showDeleted
+            ? prevQlist.map(q =>
+                q._id === question._id
+                  ? { ...q, deletedAt: question.deletedAt, deletedBy: question.deletedBy }
+                  : q,
+              )
+            : prevQlist.filter(q => q._id !== question._id),
+        );
+        return;
+      }
+
       setQlist(prevQlist => {
         const questionExists = prevQlist.some(q => q._id === question._id);
 
@@ -67,7 +121,7 @@ const useQuestionPage = () => {
           return prevQlist.map(q => (q._id === question._id ? question : q));
         }
 
-        return [question, ...prevQlist];
+        return page === 1 && !bookmarkedBy && !collection ? [question, ...prevQlist] : prevQlist;
       });
     };
 
@@ -79,7 +133,20 @@ const useQuestionPage = () => {
      */
     const handleAnswerUpdate = ({ qid, answer }: { qid: string; answer: Answer }) => {
       setQlist(prevQlist =>
-        prevQlist.map(q => (q._id === qid ? { ...q, answers: [...q.answers, answer] } : q)),
+        prevQlist.map(q => {
+          if (q._id !== qid) {
+            return q;
+          }
+
+          if (answer.deletedAt) {
+            return { ...q, answers: q.answers.filter(a => a._id !== answer._id) };
+          }
+
+          // Edited answers are replaced in place, new answers are appended
+          return q.answers.some(a => a._id === answer._id)
+            ? { ...q, answers: q.answers.map(a => (a._id === answer._id ? answer : a)) }
+            : { ...q, answers: [...q.answers, answer] };
+        }),
       );
     };
 
@@ -92,20 +159,46 @@ const useQuestionPage = () => {
       setQlist(prevQlist => prevQlist.map(q => (q._id === question._id ? question : q)));
     };
 
+    /**
+     * Function to join the room of the question list, which receives the question updates.
+     * Rooms are lost when the connection drops, so the room is joined again on reconnection.
+     */
+    const joinQuestionList = () => {
+      socket.emit('joinQuestionList');
+    };
+
     fetchData();
+    joinQuestionList();
 
+    socket.on('connect', joinQuestionList);
     socket.on('questionUpdate', handleQuestionUpdate);
     socket.on('answerUpdate', handleAnswerUpdate);
     socket.on('viewsUpdate', handleViewsUpdate);
 
     return () => {
+      socket.off('connect', joinQuestionList);
       socket.off('questionUpdate', handleQuestionUpdate);
       socket.off('answerUpdate', handleAnswerUpdate);
       socket.off('viewsUpdate', handleViewsUpdate);
+      socket.emit('leaveQuestionList');
     };
-  }, [questionOrder, search, socket]);
-
-  return { titleText, qlist, setQuestionOrder };
+  }, [questionOrder, search, showDeleted, page, bookmarkedBy, collection, socket]);
+
+  return {
+    titleText,
+    qlist,
+    snippets,
+    isSearching,
+    error,
+    total,
+    page,
+    pageCount,
+    setPage,
+    setQuestionOrder,
+    isModerator,
+    showDeleted,
+    setShowDeleted,
+  };
 };
 
 export default useQuestionPage;
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { getQuestionRevisions } from '../services/questionService';
+import { getAnswerRevisions } from '../services/answerService';
+import { PostContent, Revision, RevisionTargetType } from '../types';
+
+/**
+ * Custom hook for fetching the revision history of a question or answer, and selecting an edit
+ * to compare.
+ *
+ * @param targetType - Whether the post is a question or an answer.
+ * @param targetId - The ID of the post.
+ * @param current - The current content of the post.
+ *
+ * @returns revisions - The prior versions of the post, oldest first.
+ * @returns selected - The index of the selected edit, or `null` if none is selected.
+ * @returns setSelected - Function to select an edit.
+ * @returns before - The content of the post before the selected edit.
+ * @returns after - The content of the post after the selected edit.
+ * @returns err - Error message if the revisions could not be fetched.
+ */
+const useRevisionHistory = (
+  targetType: RevisionTargetType,
+  targetId: string,
+  current: PostContent,
+) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [err, setErr] = useState<string>('');
+
+  useEffect(() => {
+    /**
+     * Function to fetch the revisions of the post.
+     */
+    const fetchData = async () => {
+      try {
+        const res =
+          targetType === 'question'
+            ? await getQuestionRevisions(targetId)
+            : await getAnswerRevisions(targetId);
+        setRevisions(res);
+        // Shows the most recent edit by default
+        setSelected(res.length > 0 ? res.length - 1 : null);
+        setErr('');
+      } catch (error) {
+        setErr('Error fetching revision history');
+      }
+    };
+
+    fetchData();
+  }, [targetType, targetId]);
+
+  // Each revision holds the content before an edit, the next version holds the content after it
+  const before: PostContent | null = selected !== null ? revisions[selected] : null;
+  const after: PostContent | null = selected !== null ? (revisions[selected + 1] ?? current) : null;
+
+  return { revisions, selected, setSelected, before, after, err };
+};
+
+export default useRevisionHistory;
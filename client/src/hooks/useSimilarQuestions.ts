@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import getSimilarQuestions from '../services/duplicateService';
+import { SimilarQuestion } from '../types';
+
+/**
+ * How long to wait after the last keystroke before looking up similar questions, in milliseconds.
+ */
+const SIMILAR_QUESTIONS_DELAY_MS = 400;
+
+/**
+ * The shortest title for which similar questions are looked up.
+ */
+const MIN_TITLE_LENGTH = 3;
+
+/**
+ * Custom hook that looks up the existing questions similar to a question, and updates them as
+ * the question is written.
+ *
+ * @param title - The title of the question.
+ * @param text - The text of the question.
+ * @param tagNames - The names of the tags of the question, separated by whitespace.
+ * @param exclude - The ID of a question to leave out, such as the question itself.
+ *
+ * @returns similarQuestions - The most similar questions first.
+ */
+const useSimilarQuestions = (title: string, text: string, tagNames: string, exclude?: string) => {
+  const [similarQuestions, setSimilarQuestions] = useState<SimilarQuestion[]>([]);
+
+  useEffect(() => {
+    if (title.trim().length < MIN_TITLE_LENGTH) {
+      setSimilarQuestions([]);
+      return undefined;
+    }
+
+    /**
+     * Function to fetch the questions similar to the current title, text and tags.
+     */
+    const fetchSimilarQuestions = async () => {
+      try {
+        const tags = tagNames.split(' ').filter(t => t.trim() !== '');
+        setSimilarQuestions(await getSimilarQuestions(title, text, tags, exclude));
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(error);
+      }
+    };
+
+    // The lookup waits until the user stops typing, so that not every keystroke sends a request
+    const timeout = setTimeout(fetchSimilarQuestions, SIMILAR_QUESTIONS_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [title, text, tagNames, exclude]);
+
+  return { similarQuestions };
+};
+
+export default useSimilarQuestions;
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import {
+  addTagSynonym,
+  mergeTags,
+  removeTagSynonym,
+  updateTagDescription,
+} from '../services/tagService';
+import { Tag } from '../types';
+
+/**
+ * Custom hook for the moderator controls that curate a tag: editing its description,
+ * managing its synonyms and merging it into another tag.
+ *
+ * @param tag - The tag being curated.
+ * @param setTag - Function to update the displayed tag after a change.
+ * @param onMerged - Function called after the tag was merged into another, and no longer exists.
+ *
+ * @returns description - The description being edited.
+ * @returns setDescription - Function to update the description being edited.
+ * @returns synonym - The synonym being added.
+ * @returns setSynonym - Function to update the synonym being added.
+ * @returns mergeTarget - The name of the tag to merge into.
+ * @returns setMergeTarget - Function to update the name of the tag to merge into.
+ * @returns err - The error message of the last failed change, if any.
+ * @returns saveDescription - Function to save the edited description.
+ * @returns addSynonym - Function to add the synonym to the tag.
+ * @returns removeSynonym - Function to remove a synonym from the tag.
+ * @returns mergeInto - Function to merge the tag into the target tag.
+ */
+const useTagManager = (tag: Tag, setTag: (tag: Tag) => void, onMerged: () => void) => {
+  const [description, setDescription] = useState<string>(tag.description);
+  const [synonym, setSynonym] = useState<string>('');
+  const [mergeTarget, setMergeTarget] = useState<string>('');
+  const [err, setErr] = useState<string>('');
+
+  /**
+   * Runs a change to the tag, and shows its error message if it fails.
+   *
+   * @param change - The change to run, resolving to the updated tag.
+   * @param message - The message to show if the change fails.
+   */
+  const runChange = async (change: () => Promise<Tag>, message: string) => {
+    try {
+      setTag(await change());
+      setErr('');
+    } catch (e) {
+      setErr(message);
+    }
+  };
+
+  /**
+   * Function to save the edited description of the tag.
+   */
+  const saveDescription = () => {
+    if (!description.trim()) {
+      setErr('Description cannot be empty');
+      return;
+    }
+
+    runChange(
+      () => updateTagDescription(tag.name, description),
+      'Failed to update the description',
+    );
+  };
+
+  /**
+   * Function to add the entered synonym to the tag.
+   */
+  const addSynonym = async () => {
+    if (!synonym.trim()) {
+      setErr('Synonym cannot be empty');
+      return;
+    }
+
+    await runChange(
+      () => addTagSynonym(tag.name, synonym.trim()),
+      `Failed to add "${synonym.trim()}", it may already be a tag that should be merged instead`,
+    );
+    setSynonym('');
+  };
+
+  /**
+   * Function to remove a synonym from the tag.
+   *
+   * @param name - The synonym to remove.
+   */
+  const removeSynonym = (name: string) => {
+    runChange(() => removeTagSynonym(tag.name, name), `Failed to remove "${name}"`);
+  };
+
+  /**
+   * Function to merge the tag into the entered target tag.
+   */
+  const mergeInto = async () => {
+    if (!mergeTarget.trim()) {
+      setErr('Enter the tag to merge into');
+      return;
+    }
+
+    try {
+      await mergeTags(tag.name, mergeTarget.trim());
+      onMerged();
+    } catch (e) {
+      setErr(`Failed to merge into "${mergeTarget.trim()}"`);
+    }
+  };
+
+  return {
+    description,
+    setDescription,
+    synonym,
+    setSynonym,
+    mergeTarget,
+    setMergeTarget,
+    err,
+    saveDescription,
+    addSynonym,
+    removeSynonym,
+    mergeInto,
+  };
+};
+
+export default useTagManager;
@@ -1,17 +1,25 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { getTagsWithQuestionNumber } from '../services/tagService';
-import { TagData } from '../types';
+import { getUserByUsername, updateTagPreference } from '../services/userService';
+import { TagData, TagPreference } from '../types';
+import useUserContext from './useUserContext';
 
 /**
  * Custom hook for managing the tag page's state and navigation.
  *
  * @returns tlist - An array of tag data retrieved from the server
  * @returns clickTag - Function to navigate to the home page with the selected tag as a URL parameter.
+ * @returns refreshTags - Function to fetch the tags again, after tags were merged.
+ * @returns getPreference - Function to get whether the current user watches or ignores a tag.
+ * @returns setPreference - Function to watch, ignore, or stop following a tag.
  */
 const useTagPage = () => {
   const navigate = useNavigate();
+  const { user } = useUserContext();
   const [tlist, setTlist] = useState<TagData[]>([]);
+  const [watchedTags, setWatchedTags] = useState<string[]>([]);
+  const [ignoredTags, setIgnoredTags] = useState<string[]>([]);
 
   /**
    * Function to navigate to the home page with the specified tag as a search parameter.
@@ -25,21 +33,68 @@ const useTagPage = () => {
     navigate(`/home?${searchParams.toString()}`);
   };
 
+  /**
+   * Function to fetch the tags with their number of questions.
+   */
+  const refreshTags = async () => {
+    try {
+      const res = await getTagsWithQuestionNumber();
+      setTlist(res || []);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.log(e);
+    }
+  };
+
+  /**
+   * Function to get how the current user follows a tag.
+   *
+   * @param tagName - The name of the tag.
+   */
+  const getPreference = (tagName: string): TagPreference => {
+    if (watchedTags.includes(tagName)) {
+      return 'watched';
+    }
+    return ignoredTags.includes(tagName) ? 'ignored' : 'none';
+  };
+
+  /**
+   * Function to update how the current user follows a tag.
+   *
+   * @param tagName - The name of the tag.
+   * @param preference - The new preference for the tag.
+   */
+  const setPreference = async (tagName: string, preference: TagPreference) => {
+    try {
+      const updatedUser = await updateTagPreference(user.username, tagName, preference);
+      setWatchedTags(updatedUser.watchedTags ?? []);
+      setIgnoredTags(updatedUser.ignoredTags ?? []);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.log(e);
+    }
+  };
+
   useEffect(() => {
-    const fetchData = async () => {
+    refreshTags();
+  }, []);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
       try {
-        const res = await getTagsWithQuestionNumber();
-        setTlist(res || []);
+        const res = await getUserByUsername(user.username);
+        setWatchedTags(res.watchedTags ?? []);
+        setIgnoredTags(res.ignoredTags ?? []);
       } catch (e) {
         // eslint-disable-next-line no-console
         console.log(e);
       }
     };
 
-    fetchData();
-  }, []);
+    fetchPreferences();
+  }, [user.username]);
 
-  return { tlist, clickTag };
+  return { tlist, clickTag, refreshTags, getPreference, setPreference };
 };
 
 export default useTagPage;
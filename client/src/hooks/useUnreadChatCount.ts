@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { Chat, ChatUpdatePayload } from '../types';
+import { getChatsByUser } from '../services/chatService';
+import useUserContext from './useUserContext';
+
+/**
+ * Custom hook for the number of chat messages the user has not read yet, across all their chats.
+ * The counts are loaded with the chats of the user, and kept up to date as new messages arrive and
+ * chats are read, in this tab or another one.
+ *
+ * @returns unreadChatCount - The number of unread messages in the chats of the user.
+ */
+const useUnreadChatCount = () => {
+  const { user, socket } = useUserContext();
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    /**
+     * Function to fetch the chats of the user with their unread counts.
+     */
+    const fetchUnreadCounts = async () => {
+      try {
+        const chats: Chat[] = await getChatsByUser(user.username);
+        setUnreadCounts(
+          Object.fromEntries(
+            chats.filter(chat => chat._id).map(chat => [chat._id, chat.unreadCount ?? 0]),
+          ),
+        );
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(error);
+      }
+    };
+
+    /**
+     * Function to handle a chat update event from the socket. New messages from others are
+     * unread until the user reads the chat, and chats the user was removed from are not counted.
+     *
+     * @param chatUpdate - The chat update.
+     */
+    const handleChatUpdate = (chatUpdate: ChatUpdatePayload) => {
+      const { _id: chatId, messages } = chatUpdate.chat;
+      if (!chatId) return;
+
+      if (
+        chatUpdate.removed === user.username ||
+        (chatUpdate.type === 'messagesRead' && chatUpdate.readBy === user.username)
+      ) {
+        setUnreadCounts(prev => ({ ...prev, [chatId]: 0 }));
+      } else if (
+        chatUpdate.type === 'newMessage' &&
+        messages[messages.length - 1]?.msgFrom !== user.username
+      ) {
+        setUnreadCounts(prev => ({ ...prev, [chatId]: (prev[chatId] ?? 0) + 1 }));
+      }
+    };
+
+    fetchUnreadCounts();
+
+    socket.on('chatUpdate', handleChatUpdate);
+
+    return () => {
+      socket.off('chatUpdate', handleChatUpdate);
+    };
+  }, [user.username, socket]);
+
+  const unreadChatCount = Object.values(unreadCounts).reduce((total, count) => total + count, 0);
+
+  return { unreadChatCount };
+};
+
+export default useUnreadChatCount;
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import useUserContext from './useUserContext';
-import { User, UserUpdatePayload } from '../types';
-import { getUsers } from '../services/userService';
+import { PresenceUpdatePayload, User, UserUpdatePayload } from '../types';
+import { getOnlineUsers, getUsers } from '../services/userService';
 
 /**
  * Custom hook for managing the users list page state, filtering, and real-time updates.
@@ -9,12 +9,14 @@ import { getUsers } from '../services/userService';
  * @returns titleText - The current title of the users list page
  * @returns ulist - The list of users to display
  * @returns setUserFilter - Function to set the filtering value of the user search.
+ * @returns onlineUsers - The usernames of the users who are currently online.
  */
 const useUsersListPage = () => {
   const { socket } = useUserContext();
 
   const [userFilter, setUserFilter] = useState<string>('');
   const [userList, setUserList] = useState<User[]>([]);
+  const [onlineUsers, setOnlineUsers] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     /**
@@ -30,6 +32,19 @@ const useUsersListPage = () => {
       }
     };
 
+    /**
+     * Function to fetch the users who are online. Later changes arrive as presence updates.
+     */
+    const fetchOnlineUsers = async () => {
+      try {
+        const res = await getOnlineUsers();
+        setOnlineUsers(new Set(res));
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.log(error);
+      }
+    };
+
     /**
      * Removes a user from the userList using a filter
      * @param prevUserList the list of users
@@ -72,12 +87,48 @@ const useUsersListPage = () => {
       }
     };
 
+    /**
+     * Function to handle presence updates from the socket.
+     *
+     * @param presenceUpdate - the user who came online or went offline.
+     */
+    const handlePresenceUpdate = (presenceUpdate: PresenceUpdatePayload) => {
+      const { username, online } = presenceUpdate;
+      setOnlineUsers(prevOnlineUsers => {
+        const nextOnlineUsers = new Set(prevOnlineUsers);
+        if (online) {
+          nextOnlineUsers.add(username);
+        } else {
+          nextOnlineUsers.delete(username);
+        }
+        return nextOnlineUsers;
+      });
+    };
+
+    /**
+     * Function to join the room of the user list, which receives the user updates.
+     * Rooms are lost when the connection drops, so the room is joined again on reconnection.
+     */
+    const joinUserList = () => {
+      socket.emit('joinUserList');
+    };
+
     fetchData();
+    fetchOnlineUsers();
+    joinUserList();
 
+    socket.on('connect', joinUserList);
+    // Presence updates missed while disconnected are caught up on reconnection
+    socket.on('connect', fetchOnlineUsers);
     socket.on('userUpdate', handleModifiedUserUpdate);
+    socket.on('presenceUpdate', handlePresenceUpdate);
 
     return () => {
+      socket.off('connect', joinUserList);
+      socket.off('connect', fetchOnlineUsers);
       socket.off('userUpdate', handleModifiedUserUpdate);
+      socket.off('presenceUpdate', handlePresenceUpdate);
+      socket.emit('leaveUserList');
     };
   }, [socket]);
 
@@ -87,7 +138,7 @@ const useUsersListPage = () => {
   const filteredUserlist = userList.filter(user =>
     user.username.toLowerCase().includes(lowerCaseUserFilter),
   );
-  return { userList: filteredUserlist, setUserFilter };
+  return { userList: filteredUserlist, setUserFilter, onlineUsers };
 };
 
 export default useUsersListPage;
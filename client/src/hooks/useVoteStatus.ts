@@ -1,13 +1,13 @@
 import { useEffect, useState } from 'react';
-import { Question } from '../types';
+import { Answer, Question } from '../types';
 import useUserContext from './useUserContext';
 
 /**
- * Custom hook to handle voting logic for a question.
+ * Custom hook to handle voting logic for a question or an answer.
  * It manages the current vote count, user vote status (upvoted, downvoted),
  * and handles real-time vote updates via socket events.
  *
- * @param question - The question object for which the voting is tracked.
+ * @param target - The question or answer object for which the voting is tracked.
  *
  * @returns count - The urrent vote count (upVotes - downVotes)
  * @returns setCount - The function to manually update vote count
@@ -15,7 +15,7 @@ import useUserContext from './useUserContext';
  * @returns setVoted - The function to manually update user's vote status
  */
 
-const useVoteStatus = ({ question }: { question: Question }) => {
+const useVoteStatus = ({ target }: { target: Question | Answer }) => {
   const { user, socket } = useUserContext();
   const [count, setCount] = useState<number>(0);
   const [voted, setVoted] = useState<number>(0);
@@ -24,22 +24,22 @@ const useVoteStatus = ({ question }: { question: Question }) => {
     /**
      * Function to get the current vote value for the user.
      *
-     * @returns The current vote value for the user in the question, 1 for upvote, -1 for downvote, 0 for no vote.
+     * @returns The current vote value for the user in the target, 1 for upvote, -1 for downvote, 0 for no vote.
      */
     const getVoteValue = () => {
-      if (user.username && question?.upVotes?.includes(user.username)) {
+      if (user.username && target?.upVotes?.includes(user.username)) {
         return 1;
       }
-      if (user.username && question?.downVotes?.includes(user.username)) {
+      if (user.username && target?.downVotes?.includes(user.username)) {
         return -1;
       }
       return 0;
     };
 
     // Set the initial count and vote value
-    setCount((question.upVotes || []).length - (question.downVotes || []).length);
+    setCount((target.upVotes || []).length - (target.downVotes || []).length);
     setVoted(getVoteValue());
-  }, [question, user.username, socket]);
+  }, [target, user.username, socket]);
 
   return {
     count,
@@ -5,6 +5,7 @@ import { io } from 'socket.io-client';
 import { useEffect, useState } from 'react';
 import FakeStackOverflow from './components/fakestackoverflow';
 import { FakeSOSocket } from './types';
+import { getAuthToken } from './services/config';
 
 const container = document.getElementById('root');
 
@@ -19,7 +20,13 @@ const App = () => {
 
   useEffect(() => {
     if (!socket) {
-      setSocket(io(serverURL));
+      // The connection is opened once a user logs in, authenticating with their token
+      setSocket(
+        io(serverURL, {
+          autoConnect: false,
+          auth: cb => cb({ token: getAuthToken() }),
+        }),
+      );
     }
 
     return () => {
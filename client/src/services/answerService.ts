@@ -1,4 +1,4 @@
-import { Answer } from '../types';
+import { Answer, Revision } from '../types';
 import api from './config';
 
 const ANSWER_API_URL = `${process.env.REACT_APP_SERVER_URL}/answer`;
@@ -20,4 +20,112 @@ const addAnswer = async (qid: string, ans: Answer): Promise<Answer> => {
   return res.data;
 };
 
-export default addAnswer;
+/**
+ * Function to upvote an answer.
+ *
+ * @param qid - The ID of the question the answer belongs to.
+ * @param aid - The ID of the answer to upvote.
+ * @throws Error if there is an issue upvoting the answer.
+ */
+const upvoteAnswer = async (qid: string, aid: string) => {
+  const data = { qid, aid };
+  const res = await api.post(`${ANSWER_API_URL}/upvoteAnswer`, data);
+  if (res.status !== 200) {
+    throw new Error('Error while upvoting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to downvote an answer.
+ *
+ * @param qid - The ID of the question the answer belongs to.
+ * @param aid - The ID of the answer to downvote.
+ * @throws Error if there is an issue downvoting the answer.
+ */
+const downvoteAnswer = async (qid: string, aid: string) => {
+  const data = { qid, aid };
+  const res = await api.post(`${ANSWER_API_URL}/downvoteAnswer`, data);
+  if (res.status !== 200) {
+    throw new Error('Error while downvoting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to edit the text of an answer. Only the author of the answer or a moderator can do this.
+ *
+ * @param qid - The ID of the question the answer belongs to.
+ * @param aid - The ID of the answer to edit.
+ * @param text - The new text of the answer.
+ * @param summary - A description of the edit.
+ * @throws Error if there is an issue editing the answer.
+ */
+const editAnswer = async (
+  qid: string,
+  aid: string,
+  text: string,
+  summary: string,
+): Promise<Answer> => {
+  const data = { qid, aid, text, summary };
+  const res = await api.patch(`${ANSWER_API_URL}/editAnswer`, data);
+  if (res.status !== 200) {
+    throw new Error('Error while editing the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the prior versions of an answer, oldest first.
+ *
+ * @param aid - The ID of the answer.
+ * @throws Error if there is an issue fetching the revisions.
+ */
+const getAnswerRevisions = async (aid: string): Promise<Revision[]> => {
+  const res = await api.get(`${ANSWER_API_URL}/getAnswerRevisions/${aid}`);
+  if (res.status !== 200) {
+    throw new Error('Error while fetching the answer revisions');
+  }
+  return res.data;
+};
+
+/**
+ * Function to delete an answer. Only the author of the answer or a moderator can do this.
+ *
+ * @param qid - The ID of the question the answer belongs to.
+ * @param aid - The ID of the answer to delete.
+ * @throws Error if there is an issue deleting the answer.
+ */
+const deleteAnswer = async (qid: string, aid: string): Promise<Answer> => {
+  const res = await api.post(`${ANSWER_API_URL}/deleteAnswer`, { qid, aid });
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to restore a deleted answer.
+ * Only a moderator or the user who deleted the answer can do this.
+ *
+ * @param qid - The ID of the question the answer belongs to.
+ * @param aid - The ID of the answer to restore.
+ * @throws Error if there is an issue restoring the answer.
+ */
+const undeleteAnswer = async (qid: string, aid: string): Promise<Answer> => {
+  const res = await api.post(`${ANSWER_API_URL}/undeleteAnswer`, { qid, aid });
+  if (res.status !== 200) {
+    throw new Error('Error while restoring the answer');
+  }
+  return res.data;
+};
+
+export {
+  addAnswer,
+  upvoteAnswer,
+  downvoteAnswer,
+  editAnswer,
+  getAnswerRevisions,
+  deleteAnswer,
+  undeleteAnswer,
+};
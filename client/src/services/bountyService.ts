@@ -0,0 +1,45 @@
+import axios from 'axios';
+import { Question } from '../types';
+import api from './config';
+
+const BOUNTY_API_URL = `${process.env.REACT_APP_SERVER_URL}/bounty`;
+
+/**
+ * Function to offer a bounty on a question, paid from the reputation of the logged in user.
+ *
+ * @param qid - The ID of the question.
+ * @param amount - The number of reputation points to offer.
+ * @param days - The number of days before the bounty expires.
+ * @returns The question with its new bounty.
+ * @throws Error with the reason given by the server if the bounty cannot be offered.
+ */
+const offerBounty = async (qid: string, amount: number, days: number): Promise<Question> => {
+  try {
+    const res = await api.post(`${BOUNTY_API_URL}/offerBounty`, { qid, amount, days });
+    return res.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      throw new Error(`Error when offering bounty: ${error.response.data}`);
+    } else {
+      throw new Error('Error when offering bounty');
+    }
+  }
+};
+
+/**
+ * Function to award the bounty the logged in user offered on a question to one of its answers.
+ *
+ * @param qid - The ID of the question.
+ * @param aid - The ID of the answer that receives the bounty.
+ * @returns The question, which no longer has a bounty.
+ * @throws Error if there is an issue awarding the bounty.
+ */
+const awardBounty = async (qid: string, aid: string): Promise<Question> => {
+  const res = await api.post(`${BOUNTY_API_URL}/awardBounty`, { qid, aid });
+  if (res.status !== 200) {
+    throw new Error('Error when awarding bounty');
+  }
+  return res.data;
+};
+
+export { offerBounty, awardBounty };
@@ -1,4 +1,5 @@
-import { Message } from '../types';
+import axios from 'axios';
+import { Chat, ChatMessagesPage, Message, MessageInChat } from '../types';
 import api from './config';
 
 const CHAT_API_URL = `${process.env.REACT_APP_SERVER_URL}/chat`;
@@ -37,6 +38,27 @@ export const getChatById = async (chatID: string) => {
   return res.data;
 };
 
+/**
+ * Fetches a page of messages of a chat, sent before the given message.
+ *
+ * @param chatID - The ID of the chat to fetch the messages of.
+ * @param before - The ID of the oldest message loaded so far. Without it, the latest messages are fetched.
+ * @returns The page of messages, and whether older messages are left.
+ * @throws Throws an error if the fetch fails or if the status code is not 200.
+ */
+export const getChatMessages = async (
+  chatID: string,
+  before?: string,
+): Promise<ChatMessagesPage> => {
+  const res = await api.get(`${CHAT_API_URL}/${chatID}/messages`, { params: { before } });
+
+  if (res.status !== 200) {
+    throw new Error('Error when fetching chat messages');
+  }
+
+  return res.data;
+};
+
 /**
  * Sends a message to a specific chat.
  *
@@ -56,14 +78,16 @@ export const sendMessage = async (message: Omit<Message, 'type'>, chatID: string
 };
 
 /**
- * Creates a new chat with the specified participants.
+ * Creates a new chat with the specified participants. Chats with a name are group chats, owned by
+ * the logged in user.
  *
- * @param participants - An array of user IDs representing the participants of the chat.
+ * @param participants - An array of usernames representing the participants of the chat.
+ * @param name - The name of a group chat.
  * @returns The newly created chat data.
  * @throws Throws an error if the chat creation fails or if the status code is not 200.
  */
-export const createChat = async (participants: string[]) => {
-  const res = await api.post(`${CHAT_API_URL}/createChat`, { participants, messages: [] });
+export const createChat = async (participants: string[], name?: string) => {
+  const res = await api.post(`${CHAT_API_URL}/createChat`, { participants, messages: [], name });
 
   if (res.status !== 200) {
     throw new Error('Error when adding message to chat');
@@ -71,3 +95,127 @@ export const createChat = async (participants: string[]) => {
 
   return res.data;
 };
+
+/**
+ * Sends a change to a chat, its membership or one of its messages.
+ *
+ * @param chatID - The ID of the chat.
+ * @param route - The route of the change.
+ * @param body - The body of the request.
+ * @returns The response data.
+ * @throws Throws an error with the reason given by the server if the change cannot be made.
+ */
+const postChatChange = async <T>(chatID: string, route: string, body?: object): Promise<T> => {
+  try {
+    const res = await api.post(`${CHAT_API_URL}/${chatID}/${route}`, body);
+    return res.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const { status, data } = error.response;
+      throw new Error(status === 403 ? data.error : data);
+    }
+    throw new Error('Error when updating chat');
+  }
+};
+
+/**
+ * Adds a user to a group chat. Only admins of the chat can do so.
+ *
+ * @param chatID - The ID of the chat.
+ * @param username - The username of the user to add.
+ * @returns The updated chat.
+ */
+export const addParticipant = (chatID: string, username: string) =>
+  postChatChange<Chat>(chatID, 'addParticipant', { username });
+
+/**
+ * Removes a participant from a group chat. Only admins of the chat can do so.
+ *
+ * @param chatID - The ID of the chat.
+ * @param username - The username of the participant to remove.
+ * @returns The updated chat.
+ */
+export const removeParticipant = (chatID: string, username: string) =>
+  postChatChange<Chat>(chatID, 'removeParticipant', { username });
+
+/**
+ * Removes the logged in user from a group chat.
+ *
+ * @param chatID - The ID of the chat to leave.
+ */
+export const leaveChat = (chatID: string) => postChatChange<{ chatId: string }>(chatID, 'leave');
+
+/**
+ * Renames a group chat. Only admins of the chat can do so.
+ *
+ * @param chatID - The ID of the chat.
+ * @param name - The new name of the chat.
+ * @returns The updated chat.
+ */
+export const renameChat = (chatID: string, name: string) =>
+  postChatChange<Chat>(chatID, 'rename', { name });
+
+/**
+ * Transfers the ownership of a group chat to another participant. Only the owner can do so.
+ *
+ * @param chatID - The ID of the chat.
+ * @param username - The username of the new owner.
+ * @returns The updated chat.
+ */
+export const transferChatOwnership = (chatID: string, username: string) =>
+  postChatChange<Chat>(chatID, 'transferOwnership', { username });
+
+/**
+ * Makes a participant of a group chat an admin, or removes them as one. Only the owner can do so.
+ *
+ * @param chatID - The ID of the chat.
+ * @param username - The username of the participant.
+ * @param admin - Whether the participant should be an admin.
+ * @returns The updated chat.
+ */
+export const setChatAdmin = (chatID: string, username: string, admin: boolean) =>
+  postChatChange<Chat>(chatID, 'setAdmin', { username, admin });
+
+/**
+ * Edits the text of a message the logged in user sent in a chat.
+ *
+ * @param chatID - The ID of the chat.
+ * @param messageId - The ID of the message to edit.
+ * @param msg - The new text of the message.
+ * @returns The edited message.
+ * @throws Throws an error with the reason given by the server if the message cannot be edited.
+ */
+export const editChatMessage = async (
+  chatID: string,
+  messageId: string,
+  msg: string,
+): Promise<MessageInChat> => {
+  try {
+    const res = await api.patch(`${CHAT_API_URL}/${chatID}/editMessage`, { messageId, msg });
+    return res.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const { status, data } = error.response;
+      throw new Error(status === 403 ? data.error : data);
+    }
+    throw new Error('Error when editing chat message');
+  }
+};
+
+/**
+ * Deletes a message the logged in user sent in a chat. The message is kept without its text.
+ *
+ * @param chatID - The ID of the chat.
+ * @param messageId - The ID of the message to delete.
+ * @returns The deleted message.
+ */
+export const deleteChatMessage = (chatID: string, messageId: string) =>
+  postChatChange<MessageInChat>(chatID, 'deleteMessage', { messageId });
+
+/**
+ * Marks a chat as read by the logged in user, up to its latest message.
+ *
+ * @param chatID - The ID of the chat to mark as read.
+ * @returns The updated chat.
+ */
+export const markChatRead = (chatID: string) => postChatChange<Chat>(chatID, 'markRead');
@@ -0,0 +1,91 @@
+import axios from 'axios';
+import { CloseReason, Question } from '../types';
+import api from './config';
+
+const CLOSURE_API_URL = `${process.env.REACT_APP_SERVER_URL}/closure`;
+
+/**
+ * Function to send a change to the status of a question, such as a close or reopen vote.
+ *
+ * @param route - The route of the change.
+ * @param body - The body of the request, with the ID of the question.
+ * @param fallbackError - The error message if the server gave no reason.
+ * @returns The updated question.
+ * @throws Error with the reason given by the server if the change cannot be made.
+ */
+const postStatusChange = async (
+  route: string,
+  body: { qid: string; reason?: CloseReason; duplicateOf?: string },
+  fallbackError: string,
+): Promise<Question> => {
+  try {
+    const res = await api.post(`${CLOSURE_API_URL}/${route}`, body);
+    return res.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const { status, data } = error.response;
+      throw new Error(status === 403 ? data.error : data);
+    }
+    throw new Error(fallbackError);
+  }
+};
+
+/**
+ * Function to vote to close a question.
+ *
+ * @param qid - The ID of the question to close.
+ * @param reason - The reason to close the question for.
+ * @param duplicateOf - The ID of the original question, when closing it as a duplicate.
+ * @returns The question with the vote, closed if the vote was the deciding one.
+ * @throws Error with the reason given by the server if the vote cannot be cast.
+ */
+const voteClose = (qid: string, reason: CloseReason, duplicateOf?: string): Promise<Question> =>
+  postStatusChange(
+    'voteClose',
+    { qid, reason, duplicateOf },
+    'Error when voting to close question',
+  );
+
+/**
+ * Function to retract the vote of the logged in user to close a question.
+ *
+ * @param qid - The ID of the question.
+ * @throws Error with the reason given by the server if the vote cannot be retracted.
+ */
+const retractCloseVote = (qid: string): Promise<Question> =>
+  postStatusChange('retractCloseVote', { qid }, 'Error when retracting vote');
+
+/**
+ * Function to vote to reopen a closed question.
+ *
+ * @param qid - The ID of the question to reopen.
+ * @returns The question with the vote, reopened if the vote was the deciding one.
+ * @throws Error with the reason given by the server if the vote cannot be cast.
+ */
+const voteReopen = (qid: string): Promise<Question> =>
+  postStatusChange('voteReopen', { qid }, 'Error when voting to reopen question');
+
+/**
+ * Function to retract the vote of the logged in user to reopen a question.
+ *
+ * @param qid - The ID of the question.
+ * @throws Error with the reason given by the server if the vote cannot be retracted.
+ */
+const retractReopenVote = (qid: string): Promise<Question> =>
+  postStatusChange('retractReopenVote', { qid }, 'Error when retracting vote');
+
+/**
+ * Function to lock a question, or unlock it. Only moderators can do so.
+ *
+ * @param qid - The ID of the question.
+ * @param locked - Whether the question should be locked.
+ * @throws Error with the reason given by the server if the question cannot be locked or unlocked.
+ */
+const setQuestionLocked = (qid: string, locked: boolean): Promise<Question> =>
+  postStatusChange(
+    locked ? 'lockQuestion' : 'unlockQuestion',
+    { qid },
+    `Error when ${locked ? 'locking' : 'unlocking'} question`,
+  );
+
+export { voteClose, retractCloseVote, voteReopen, retractReopenVote, setQuestionLocked };
@@ -0,0 +1,117 @@
+import { Collection } from '../types';
+import api from './config';
+
+const COLLECTION_API_URL = `${process.env.REACT_APP_SERVER_URL}/collection`;
+
+/**
+ * Function to create a collection owned by the logged in user.
+ *
+ * @param name - The name of the collection.
+ * @param description - What the collection is about.
+ * @param shared - Whether other users with a link can view the collection.
+ * @throws Error if there is an issue creating the collection.
+ */
+const createCollection = async (
+  name: string,
+  description: string,
+  shared: boolean,
+): Promise<Collection> => {
+  const res = await api.post(`${COLLECTION_API_URL}/createCollection`, {
+    name,
+    description,
+    shared,
+  });
+  if (res.status !== 200) {
+    throw new Error('Error when creating collection');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get a collection by its ID. Private collections can only be fetched by their owner.
+ *
+ * @param id - The ID of the collection.
+ * @throws Error if there is an issue fetching the collection.
+ */
+const getCollection = async (id: string): Promise<Collection> => {
+  const res = await api.get(`${COLLECTION_API_URL}/getCollection/${id}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching collection');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the collections of a user. Only the shared ones are returned for other users.
+ *
+ * @param username - The username of the user who owns the collections.
+ * @throws Error if there is an issue fetching the collections.
+ */
+const getCollectionsByUser = async (username: string): Promise<Collection[]> => {
+  const res = await api.get(`${COLLECTION_API_URL}/getCollectionsByUser/${username}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching collections');
+  }
+  return res.data;
+};
+
+/**
+ * Function to share a collection, or make it private again.
+ *
+ * @param id - The ID of the collection.
+ * @param shared - Whether other users with a link can view the collection.
+ * @throws Error if there is an issue updating the collection.
+ */
+const setCollectionShared = async (id: string, shared: boolean): Promise<Collection> => {
+  const res = await api.patch(`${COLLECTION_API_URL}/updateCollection`, { id, shared });
+  if (res.status !== 200) {
+    throw new Error('Error when updating collection');
+  }
+  return res.data;
+};
+
+/**
+ * Function to add a question to a collection, or remove it.
+ *
+ * @param id - The ID of the collection.
+ * @param qid - The ID of the question.
+ * @param included - Whether the question should be in the collection.
+ * @throws Error if there is an issue updating the collection.
+ */
+const setCollectionQuestion = async (
+  id: string,
+  qid: string,
+  included: boolean,
+): Promise<Collection> => {
+  const res = await api.post(
+    `${COLLECTION_API_URL}/${included ? 'addQuestion' : 'removeQuestion'}`,
+    { id, qid },
+  );
+  if (res.status !== 200) {
+    throw new Error('Error when updating collection');
+  }
+  return res.data;
+};
+
+/**
+ * Function to delete a collection. The questions in it are not affected.
+ *
+ * @param id - The ID of the collection.
+ * @throws Error if there is an issue deleting the collection.
+ */
+const deleteCollection = async (id: string): Promise<Collection> => {
+  const res = await api.delete(`${COLLECTION_API_URL}/deleteCollection/${id}`);
+  if (res.status !== 200) {
+    throw new Error('Error when deleting collection');
+  }
+  return res.data;
+};
+
+export {
+  createCollection,
+  getCollection,
+  getCollectionsByUser,
+  setCollectionShared,
+  setCollectionQuestion,
+  deleteCollection,
+};
@@ -40,4 +40,46 @@ const addComment = async (
   return res.data;
 };
 
+/**
+ * Deletes a comment of a question or an answer.
+ * Only the author of the comment or a moderator can do this.
+ *
+ * @param id - The ID of the question or answer the comment belongs to.
+ * @param type - The type of the commented item, either 'question' or 'answer'.
+ * @param cid - The ID of the comment to delete.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+export const deleteComment = async (
+  id: string,
+  type: 'question' | 'answer',
+  cid: string,
+): Promise<Comment> => {
+  const res = await api.post(`${COMMENT_API_URL}/deleteComment`, { id, type, cid });
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the comment');
+  }
+  return res.data;
+};
+
+/**
+ * Restores a deleted comment of a question or an answer.
+ * Only a moderator or the user who deleted the comment can do this.
+ *
+ * @param id - The ID of the question or answer the comment belongs to.
+ * @param type - The type of the commented item, either 'question' or 'answer'.
+ * @param cid - The ID of the comment to restore.
+ * @throws Error Throws an error if the request fails or the response status is not 200.
+ */
+export const undeleteComment = async (
+  id: string,
+  type: 'question' | 'answer',
+  cid: string,
+): Promise<Comment> => {
+  const res = await api.post(`${COMMENT_API_URL}/undeleteComment`, { id, type, cid });
+  if (res.status !== 200) {
+    throw new Error('Error while restoring the comment');
+  }
+  return res.data;
+};
+
 export default addComment;
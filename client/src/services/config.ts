@@ -16,11 +16,40 @@ const handleErr = (err: AxiosError) => {
 
 const api = axios.create({ withCredentials: true });
 
+/**
+ * The token issued to the logged-in user, sent with every request.
+ */
+let authToken: string | null = null;
+
+/**
+ * Stores the token issued at login or signup, or clears it on sign out.
+ *
+ * @param token - The token to send with subsequent requests, or null to clear it.
+ */
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+};
+
+/**
+ * Returns the token of the logged-in user, if any.
+ */
+export const getAuthToken = () => authToken;
+
+/**
+ * Attaches the authentication token, if any, to an outgoing request.
+ */
+const handleReq = (config: InternalAxiosRequestConfig) => {
+  if (authToken) {
+    config.headers.Authorization = `Bearer ${authToken}`;
+  }
+  return config;
+};
+
 /**
  * Add a request interceptor to the Axios instance.
  */
 api.interceptors.request.use(
-  (config: InternalAxiosRequestConfig) => config,
+  (config: InternalAxiosRequestConfig) => handleReq(config),
   (error: AxiosError) => handleErr(error),
 );
 
@@ -0,0 +1,30 @@
+import { SimilarQuestion } from '../types';
+import api from './config';
+
+const DUPLICATE_API_URL = `${process.env.REACT_APP_SERVER_URL}/duplicate`;
+
+/**
+ * Function to get the existing questions most similar to a question being written.
+ *
+ * @param title - The title of the question.
+ * @param text - The text of the question.
+ * @param tags - The names of the tags of the question.
+ * @param exclude - The ID of a question to leave out, such as the question itself.
+ * @throws Error if there is an issue fetching the similar questions.
+ */
+const getSimilarQuestions = async (
+  title: string,
+  text: string,
+  tags: string[],
+  exclude?: string,
+): Promise<SimilarQuestion[]> => {
+  const res = await api.get(`${DUPLICATE_API_URL}/getSimilarQuestions`, {
+    params: { title, text, tags: tags.join(','), exclude },
+  });
+  if (res.status !== 200) {
+    throw new Error('Error when fetching similar questions');
+  }
+  return res.data;
+};
+
+export default getSimilarQuestions;
@@ -1,3 +1,4 @@
+import axios from 'axios';
 import api from './config';
 import { Message } from '../types';
 
@@ -41,4 +42,43 @@ const getMessages = async (): Promise<Message[]> => {
   return res.data;
 };
 
-export { addMessage, getMessages };
+/**
+ * Edits the text of a message sent by the logged in user.
+ *
+ * @param messageId - The ID of the message to edit.
+ * @param msg - The new text of the message.
+ * @throws an error with the reason given by the server if the message cannot be edited.
+ */
+const editMessage = async (messageId: string, msg: string): Promise<Message> => {
+  try {
+    const res = await api.patch(`${MESSAGE_API_URL}/editMessage`, { messageId, msg });
+    return res.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const { status, data } = error.response;
+      throw new Error(status === 403 ? data.error : data);
+    }
+    throw new Error('Error while editing a message');
+  }
+};
+
+/**
+ * Deletes a message sent by the logged in user. The message is kept without its text.
+ *
+ * @param messageId - The ID of the message to delete.
+ * @throws an error with the reason given by the server if the message cannot be deleted.
+ */
+const deleteMessage = async (messageId: string): Promise<Message> => {
+  try {
+    const res = await api.post(`${MESSAGE_API_URL}/deleteMessage`, { messageId });
+    return res.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const { status, data } = error.response;
+      throw new Error(status === 403 ? data.error : data);
+    }
+    throw new Error('Error while deleting a message');
+  }
+};
+
+export { addMessage, getMessages, editMessage, deleteMessage };
@@ -0,0 +1,48 @@
+import { Notification, NotificationList } from '../types';
+import api from './config';
+
+const NOTIFICATION_API_URL = `${process.env.REACT_APP_SERVER_URL}/notification`;
+
+/**
+ * Function to get the most recent notifications of the logged in user.
+ *
+ * @throws Error if there is an issue fetching the notifications.
+ */
+const getNotifications = async (): Promise<NotificationList> => {
+  const res = await api.get(`${NOTIFICATION_API_URL}/getNotifications`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching notifications');
+  }
+  return res.data;
+};
+
+/**
+ * Function to mark a notification as read or unread.
+ *
+ * @param id - The ID of the notification.
+ * @param read - Whether the notification should be marked as read.
+ * @throws Error if there is an issue updating the notification.
+ */
+const setNotificationRead = async (id: string, read: boolean): Promise<Notification> => {
+  const res = await api.post(`${NOTIFICATION_API_URL}/${read ? 'markRead' : 'markUnread'}`, {
+    id,
+  });
+  if (res.status !== 200) {
+    throw new Error('Error when updating notification');
+  }
+  return res.data;
+};
+
+/**
+ * Function to mark all the notifications of the logged in user as read.
+ *
+ * @throws Error if there is an issue updating the notifications.
+ */
+const markAllNotificationsRead = async (): Promise<void> => {
+  const res = await api.post(`${NOTIFICATION_API_URL}/markAllRead`);
+  if (res.status !== 200) {
+    throw new Error('Error when updating notifications');
+  }
+};
+
+export { getNotifications, setNotificationRead, markAllNotificationsRead };
@@ -1,24 +1,53 @@
-import { Question } from '../types';
+import axios from 'axios';
+import {
+  BookmarkUpdate,
+  PostContent,
+  Question,
+  QuestionListFilter,
+  QuestionPage,
+  Revision,
+} from '../types';
 import api from './config';
 
 const QUESTION_API_URL = `${process.env.REACT_APP_SERVER_URL}/question`;
 
 /**
- * Function to get questions by filter.
+ * Function to get a page of questions by filter.
  *
  * @param order - The order in which to fetch questions. Default is 'newest'.
  * @param search - The search term to filter questions. Default is an empty string.
- * @throws Error if there is an issue fetching or filtering questions.
+ * @param includeDeleted - Whether deleted questions should be included. Only allowed for moderators.
+ * @param page - The number of the page to fetch, starting at 1. Default is the first page.
+ * @param filter - The bookmarks or collection to narrow the questions to, if any.
+ * @throws Error if there is an issue fetching or filtering questions. If the search string is
+ * invalid, the error message explains why.
  */
 const getQuestionsByFilter = async (
   order: string = 'newest',
   search: string = '',
-): Promise<Question[]> => {
-  const res = await api.get(`${QUESTION_API_URL}/getQuestion?order=${order}&search=${search}`);
-  if (res.status !== 200) {
+  includeDeleted: boolean = false,
+  page: number = 1,
+  filter: QuestionListFilter = {},
+): Promise<QuestionPage> => {
+  try {
+    const res = await api.get(`${QUESTION_API_URL}/getQuestion`, {
+      params: { order, search, includeDeleted, page, ...filter },
+    });
+    return res.data;
+  } catch (error) {
+    // Invalid searches, and collections that cannot be viewed, are explained by the server
+    if (axios.isAxiosError(error) && error.response) {
+      const { status, data } = error.response;
+
+      if (status === 400 || status === 404) {
+        throw new Error(data);
+      }
+      if (status === 403) {
+        throw new Error(data.error);
+      }
+    }
     throw new Error('Error when fetching or filtering questions');
   }
-  return res.data;
 };
 
 /**
@@ -26,10 +55,17 @@ const getQuestionsByFilter = async (
  *
  * @param qid - The ID of the question to retrieve.
  * @param username - The username of the user requesting the question.
+ * @param includeDeleted - Whether deleted content should be included. Only allowed for moderators.
  * @throws Error if there is an issue fetching the question by ID.
  */
-const getQuestionById = async (qid: string, username: string): Promise<Question> => {
-  const res = await api.get(`${QUESTION_API_URL}/getQuestionById/${qid}?username=${username}`);
+const getQuestionById = async (
+  qid: string,
+  username: string,
+  includeDeleted: boolean = false,
+): Promise<Question> => {
+  const res = await api.get(
+    `${QUESTION_API_URL}/getQuestionById/${qid}?username=${username}&includeDeleted=${includeDeleted}`,
+  );
   if (res.status !== 200) {
     throw new Error('Error when fetching question by id');
   }
@@ -84,4 +120,123 @@ const downvoteQuestion = async (qid: string, username: string) => {
   return res.data;
 };
 
-export { getQuestionsByFilter, getQuestionById, addQuestion, upvoteQuestion, downvoteQuestion };
+/**
+ * Function to accept an answer as the solution to a question, or unaccept the current one.
+ * Only the author of the question can do this.
+ *
+ * @param qid - The ID of the question.
+ * @param aid - The ID of the answer to accept, or `null` to unaccept the accepted answer.
+ * @throws Error if there is an issue accepting the answer.
+ */
+const acceptAnswer = async (qid: string, aid: string | null): Promise<Question> => {
+  const data = { qid, aid };
+  const res = await api.post(`${QUESTION_API_URL}/acceptAnswer`, data);
+  if (res.status !== 200) {
+    throw new Error('Error while accepting the answer');
+  }
+  return res.data;
+};
+
+/**
+ * Function to edit the title, text and tags of a question. Only the author of the question or a
+ * moderator can do this.
+ *
+ * @param qid - The ID of the question to edit.
+ * @param content - The new title, text and tag names of the question.
+ * @param summary - A description of the edit.
+ * @throws Error if there is an issue editing the question.
+ */
+const editQuestion = async (
+  qid: string,
+  content: PostContent,
+  summary: string,
+): Promise<Question> => {
+  const data = {
+    qid,
+    title: content.title,
+    text: content.text,
+    tags: (content.tags ?? []).map(name => ({ name, description: 'user added tag' })),
+    summary,
+  };
+  const res = await api.patch(`${QUESTION_API_URL}/editQuestion`, data);
+  if (res.status !== 200) {
+    throw new Error('Error while editing the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to get the prior versions of a question, oldest first.
+ *
+ * @param qid - The ID of the question.
+ * @throws Error if there is an issue fetching the revisions.
+ */
+const getQuestionRevisions = async (qid: string): Promise<Revision[]> => {
+  const res = await api.get(`${QUESTION_API_URL}/getQuestionRevisions/${qid}`);
+  if (res.status !== 200) {
+    throw new Error('Error while fetching the question revisions');
+  }
+  return res.data;
+};
+
+/**
+ * Function to delete a question. Deleted questions are hidden, and can be restored by a moderator.
+ * Only the author of the question or a moderator can do this.
+ *
+ * @param qid - The ID of the question to delete.
+ * @throws Error if there is an issue deleting the question.
+ */
+const deleteQuestion = async (qid: string): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/deleteQuestion`, { qid });
+  if (res.status !== 200) {
+    throw new Error('Error while deleting the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to restore a deleted question.
+ * Only a moderator or the user who deleted the question can do this.
+ *
+ * @param qid - The ID of the question to restore.
+ * @throws Error if there is an issue restoring the question.
+ */
+const undeleteQuestion = async (qid: string): Promise<Question> => {
+  const res = await api.post(`${QUESTION_API_URL}/undeleteQuestion`, { qid });
+  if (res.status !== 200) {
+    throw new Error('Error while restoring the question');
+  }
+  return res.data;
+};
+
+/**
+ * Function to bookmark a question for the logged in user, or remove their bookmark.
+ *
+ * @param qid - The ID of the question.
+ * @param bookmarked - Whether the question should be bookmarked.
+ * @throws Error if there is an issue updating the bookmark.
+ */
+const setQuestionBookmarked = async (qid: string, bookmarked: boolean): Promise<BookmarkUpdate> => {
+  const res = await api.post(
+    `${QUESTION_API_URL}/${bookmarked ? 'bookmarkQuestion' : 'unbookmarkQuestion'}`,
+    { qid },
+  );
+  if (res.status !== 200) {
+    throw new Error('Error while updating the bookmark');
+  }
+  return res.data;
+};
+
+export {
+  getQuestionsByFilter,
+  getQuestionById,
+  addQuestion,
+  upvoteQuestion,
+  downvoteQuestion,
+  acceptAnswer,
+  editQuestion,
+  getQuestionRevisions,
+  deleteQuestion,
+  undeleteQuestion,
+  setQuestionBookmarked,
+};
@@ -30,4 +30,72 @@ const getTagByName = async (name: string): Promise<Tag> => {
   return res.data;
 };
 
-export { getTagsWithQuestionNumber, getTagByName };
+/**
+ * Function to update the description of a tag. Only allowed for moderators.
+ *
+ * @param name - The name of the tag.
+ * @param description - The new description of the tag.
+ * @throws Error if there is an issue updating the tag.
+ */
+const updateTagDescription = async (name: string, description: string): Promise<Tag> => {
+  const res = await api.patch(`${TAG_API_URL}/updateDescription`, { name, description });
+  if (res.status !== 200) {
+    throw new Error(`Error when updating tag: ${name}`);
+  }
+  return res.data;
+};
+
+/**
+ * Function to add a synonym to a tag. Only allowed for moderators.
+ *
+ * @param name - The name of the tag.
+ * @param synonym - The synonym to add.
+ * @throws Error if there is an issue adding the synonym, such as the synonym being another tag.
+ */
+const addTagSynonym = async (name: string, synonym: string): Promise<Tag> => {
+  const res = await api.post(`${TAG_API_URL}/addSynonym`, { name, synonym });
+  if (res.status !== 200) {
+    throw new Error(`Error when adding synonym to tag: ${name}`);
+  }
+  return res.data;
+};
+
+/**
+ * Function to remove a synonym from a tag. Only allowed for moderators.
+ *
+ * @param name - The name of the tag.
+ * @param synonym - The synonym to remove.
+ * @throws Error if there is an issue removing the synonym.
+ */
+const removeTagSynonym = async (name: string, synonym: string): Promise<Tag> => {
+  const res = await api.post(`${TAG_API_URL}/removeSynonym`, { name, synonym });
+  if (res.status !== 200) {
+    throw new Error(`Error when removing synonym from tag: ${name}`);
+  }
+  return res.data;
+};
+
+/**
+ * Function to merge a tag into another. The source tag is removed and becomes a synonym of
+ * the target tag. Only allowed for moderators.
+ *
+ * @param source - The name of the tag to merge.
+ * @param target - The name of the tag to merge into.
+ * @throws Error if there is an issue merging the tags.
+ */
+const mergeTags = async (source: string, target: string): Promise<Tag> => {
+  const res = await api.post(`${TAG_API_URL}/mergeTags`, { source, target });
+  if (res.status !== 200) {
+    throw new Error(`Error when merging tag ${source} into ${target}`);
+  }
+  return res.data;
+};
+
+export {
+  getTagsWithQuestionNumber,
+  getTagByName,
+  updateTagDescription,
+  addTagSynonym,
+  removeTagSynonym,
+  mergeTags,
+};
@@ -1,5 +1,13 @@
 import axios from 'axios';
-import { User, UserCredentials } from '../types';
+import {
+  AuthResponse,
+  DeletionPolicy,
+  ReputationEvent,
+  TagPreference,
+  User,
+  UserCredentials,
+  UserRole,
+} from '../types';
 import api from './config';
 
 const USER_API_URL = `${process.env.REACT_APP_SERVER_URL}/user`;
@@ -17,6 +25,20 @@ const getUsers = async (): Promise<User[]> => {
   return res.data;
 };
 
+/**
+ * Function to get the usernames of the users who are currently online.
+ *
+ * @returns A promise resolving to the usernames of the online users
+ * @throws Error if there is an issue fetching the online users.
+ */
+const getOnlineUsers = async (): Promise<string[]> => {
+  const res = await api.get(`${USER_API_URL}/getOnlineUsers`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching online users');
+  }
+  return res.data;
+};
+
 /**
  * Function to get users
  *
@@ -34,10 +56,10 @@ const getUserByUsername = async (username: string): Promise<User> => {
  * Sends a POST request to create a new user account.
  *
  * @param user - The user credentials (username and password) for signup.
- * @returns {Promise<User>} The newly created user object.
+ * @returns {Promise<AuthResponse>} The newly created user object and its authentication token.
  * @throws {Error} If an error occurs during the signup process.
  */
-const createUser = async (user: UserCredentials): Promise<User> => {
+const createUser = async (user: UserCredentials): Promise<AuthResponse> => {
   try {
     const res = await api.post(`${USER_API_URL}/signup`, user);
     return res.data;
@@ -54,10 +76,10 @@ const createUser = async (user: UserCredentials): Promise<User> => {
  * Sends a POST request to authenticate a user.
  *
  * @param user - The user credentials (username and password) for login.
- * @returns {Promise<User>} The authenticated user object.
+ * @returns {Promise<AuthResponse>} The authenticated user object and its authentication token.
  * @throws {Error} If an error occurs during the login process.
  */
-const loginUser = async (user: UserCredentials): Promise<User> => {
+const loginUser = async (user: UserCredentials): Promise<AuthResponse> => {
   try {
     const res = await api.post(`${USER_API_URL}/login`, user);
     return res.data;
@@ -73,11 +95,12 @@ const loginUser = async (user: UserCredentials): Promise<User> => {
 /**
  * Deletes a user by their username.
  * @param username - The unique username of the user
+ * @param policy - How the content of the user is handled. The server default is used if omitted.
  * @returns A promise that resolves to the deleted user data
  * @throws {Error} If the request to the server is unsuccessful
  */
-const deleteUser = async (username: string): Promise<User> => {
-  const res = await api.delete(`${USER_API_URL}/deleteUser/${username}`);
+const deleteUser = async (username: string, policy?: DeletionPolicy): Promise<User> => {
+  const res = await api.delete(`${USER_API_URL}/deleteUser/${username}`, { params: { policy } });
   if (res.status !== 200) {
     throw new Error('Error when deleting user');
   }
@@ -120,12 +143,69 @@ const updateBiography = async (username: string, newBiography: string): Promise<
   return res.data;
 };
 
+/**
+ * Updates the role of a user. Only admins are allowed to do this.
+ * @param username The unique username of the user
+ * @param role The new role to assign to this user
+ * @returns A promise resolving to the updated user
+ * @throws Error if the request fails
+ */
+const updateRole = async (username: string, role: UserRole): Promise<User> => {
+  const res = await api.patch(`${USER_API_URL}/updateRole`, { username, role });
+  if (res.status !== 200) {
+    throw new Error('Error when updating role');
+  }
+  return res.data;
+};
+
+/**
+ * Updates whether the user watches or ignores a tag.
+ * @param username The unique username of the user
+ * @param tag The name of the tag
+ * @param preference The new preference for the tag
+ * @returns A promise resolving to the updated user
+ * @throws Error if the request fails
+ */
+const updateTagPreference = async (
+  username: string,
+  tag: string,
+  preference: TagPreference,
+): Promise<User> => {
+  const res = await api.patch(`${USER_API_URL}/updateTagPreference`, {
+    username,
+    tag,
+    preference,
+  });
+  if (res.status !== 200) {
+    throw new Error('Error when updating tag preference');
+  }
+  return res.data;
+};
+
+/**
+ * Retrieves the reputation history of a user, most recent changes first.
+ * @param username The unique username of the user
+ * @returns A promise resolving to the reputation changes of the user
+ * @throws Error if the request fails
+ */
+const getReputationHistory = async (username: string): Promise<ReputationEvent[]> => {
+  const res = await api.get(`${USER_API_URL}/getReputationHistory/${username}`);
+  if (res.status !== 200) {
+    throw new Error('Error when fetching reputation history');
+  }
+  return res.data;
+};
+
 export {
   getUsers,
+  getOnlineUsers,
   getUserByUsername,
   loginUser,
   createUser,
   deleteUser,
   resetPassword,
   updateBiography,
+  updateRole,
+  updateTagPreference,
+  getReputationHistory,
 };
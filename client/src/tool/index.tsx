@@ -1,4 +1,5 @@
 import React from 'react';
+import { DiffRow } from '../types';
 
 /**
  * List of all the months of the year.
@@ -131,4 +132,66 @@ const handleHyperlink = (text: string) => {
   return <div>{content}</div>;
 };
 
-export { getMetaData, handleHyperlink, validateHyperlink };
+/**
+ * Computes a line-by-line, side-by-side diff between two versions of a text, based on their
+ * longest common subsequence of lines. Consecutive removed and added lines are paired up as
+ * changed rows, so each row can be displayed next to its replacement.
+ *
+ * @param before - The older version of the text.
+ * @param after - The newer version of the text.
+ * @returns {DiffRow[]} - The rows of the diff, in order.
+ */
+const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] is the length of the longest common subsequence of a[i:] and b[j:]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flushChanges = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? removed[k] : null;
+      const right = k < added.length ? added[k] : null;
+      let type: DiffRow['type'] = 'changed';
+      if (left === null) {
+        type = 'added';
+      } else if (right === null) {
+        type = 'removed';
+      }
+      rows.push({ left, right, type });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flushChanges();
+      rows.push({ left: a[i], right: b[j], type: 'same' });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j]);
+      j++;
+    } else {
+      removed.push(a[i]);
+      i++;
+    }
+  }
+  flushChanges();
+
+  return rows;
+};
+
+export { getMetaData, handleHyperlink, validateHyperlink, diffLines };
@@ -10,6 +10,17 @@ export interface UserCredentials {
   password: string;
 }
 
+/**
+ * Represents how the content of a deleted user is handled: either kept and attributed to a
+ * "deleted user" ghost, or removed along with the account.
+ */
+export type DeletionPolicy = 'anonymize' | 'hardDelete';
+
+/**
+ * Represents the role of a user, from least to most privileged.
+ */
+export type UserRole = 'user' | 'moderator' | 'admin';
+
 /**
  * Represents a user in the application.
  */
@@ -18,6 +29,56 @@ export interface User {
   username: string;
   dateJoined: Date;
   biography: string;
+  role?: UserRole;
+  reputation?: number;
+  watchedTags?: string[];
+  ignoredTags?: string[];
+}
+
+/**
+ * Represents how a user follows a tag: watched tags are boosted in their feed, ignored tags are
+ * hidden from it.
+ */
+export type TagPreference = 'watched' | 'ignored' | 'none';
+
+/**
+ * Represents the action that changed the reputation of a user.
+ */
+export type ReputationReason =
+  | 'questionUpvote'
+  | 'questionDownvote'
+  | 'answerUpvote'
+  | 'answerDownvote'
+  | 'answerAccepted'
+  | 'bountyAwarded'
+  | 'bountyOffered'
+  | 'bountyRefunded';
+
+/**
+ * Represents a single change to the reputation of a user.
+ * - `change`: The number of points gained (positive) or lost (negative).
+ * - `reason`: The action that caused the change.
+ * - `qid`: The question the change relates to, if any.
+ * - `aid`: The answer the change relates to, if any.
+ */
+export interface ReputationEvent {
+  _id?: string;
+  username: string;
+  change: number;
+  reason: ReputationReason;
+  qid?: string;
+  aid?: string;
+  createdAt: Date;
+}
+
+/**
+ * Represents the response of a successful login or signup.
+ * - user - The authenticated user.
+ * - token - The token identifying the user in requests and socket connections.
+ */
+export interface AuthResponse {
+  user: User;
+  token: string;
 }
 
 /**
@@ -27,8 +88,12 @@ export interface User {
 export const orderTypeDisplayName = {
   newest: 'Newest',
   unanswered: 'Unanswered',
+  unaccepted: 'Unaccepted',
   active: 'Active',
   mostViewed: 'Most Viewed',
+  relevance: 'Relevance',
+  forYou: 'For You',
+  featured: 'Featured',
 } as const;
 
 /**
@@ -40,14 +105,20 @@ export type OrderType = keyof typeof orderTypeDisplayName;
 /**
  * Interface represents a comment.
  *
+ * _id - The unique identifier for the comment. Optional field
  * text - The text of the comment.
  * commentBy - Username of the author of the comment.
  * commentDateTime - Time at which the comment was created.
+ * deletedAt - Time at which the comment was deleted, if it was.
+ * deletedBy - Username of the user who deleted the comment, if it was.
  */
 export interface Comment {
+  _id?: string;
   text: string;
   commentBy: string;
   commentDateTime: Date;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
 }
 
 /**
@@ -55,11 +126,13 @@ export interface Comment {
  *
  * @property name - The name of the tag.
  * @property description - A description of the tag.
+ * @property synonyms - Other names of the tag, which are replaced by the tag name when tagging.
  */
 export interface Tag {
   _id?: string;
   name: string;
   description: string;
+  synonyms?: string[];
 }
 
 /**
@@ -92,6 +165,10 @@ export interface VoteData {
  * - ansBy - The username of the user who wrote the answer
  * - ansDateTime - The date and time when the answer was created
  * - comments - Comments associated with the answer.
+ * - upVotes - An array of usernames who upvoted the answer.
+ * - downVotes - An array of usernames who downvoted the answer.
+ * - deletedAt - The date and time when the answer was deleted, if it was.
+ * - deletedBy - The username of the user who deleted the answer, if it was.
  */
 export interface Answer {
   _id?: string;
@@ -99,6 +176,51 @@ export interface Answer {
   ansBy: string;
   ansDateTime: Date;
   comments: Comment[];
+  upVotes: string[];
+  downVotes: string[];
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+}
+
+/**
+ * Interface representing the points a user offered for answering a question.
+ *
+ * - amount - The number of reputation points offered.
+ * - offeredBy - The username of the user who offered the bounty.
+ * - offeredAt - The date and time when the bounty was offered.
+ * - expiresAt - The date and time when the bounty expires.
+ */
+export interface Bounty {
+  amount: number;
+  offeredBy: string;
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Type representing the lifecycle state of a question.
+ * - `open`: The question can be answered and commented on.
+ * - `closed`: The question was closed for a reason, and can be voted to reopen.
+ * - `locked`: The question was locked by a moderator.
+ */
+export type QuestionStatus = 'open' | 'closed' | 'locked';
+
+/**
+ * Type representing the reasons a question can be closed for.
+ */
+export type CloseReason = 'duplicate' | 'offTopic' | 'unclear' | 'needsFocus' | 'opinionBased';
+
+/**
+ * Interface representing a vote to close a question.
+ *
+ * - voter - The username of the user who voted.
+ * - reason - The reason the voter gave to close the question.
+ * - duplicateOf - The ID of the question the voter considers the original, for duplicates.
+ */
+export interface CloseVote {
+  voter: string;
+  reason: CloseReason;
+  duplicateOf?: string | null;
 }
 
 /**
@@ -115,6 +237,18 @@ export interface Answer {
  * - upVotes - An array of usernames who upvoted the question.
  * - downVotes - An array of usernames who downvoted the question.
  * - comments - Comments associated with the question.
+ * - acceptedAnswer - The ID of the answer accepted by the asker, if any.
+ * - deletedAt - The date and time when the question was deleted, if it was.
+ * - deletedBy - The username of the user who deleted the question, if it was.
+ * - bookmarkCount - The number of users who bookmarked the question.
+ * - bookmarked - Whether the current user bookmarked the question. Only set on the question fetched by its ID.
+ * - bounty - The open bounty on the question, if any.
+ * - status - Whether the question is open, closed or locked.
+ * - closeReason - The reason the question was closed for, if it was.
+ * - closedAt - The date and time when the question was closed, if it was.
+ * - duplicateOf - The ID of the original question, if the question was closed as its duplicate.
+ * - closeVotes - The votes to close the question.
+ * - reopenVotes - The usernames of the users who voted to reopen the question.
  */
 export interface Question {
   _id?: string;
@@ -128,6 +262,168 @@ export interface Question {
   upVotes: string[];
   downVotes: string[];
   comments: Comment[];
+  acceptedAnswer?: string | null;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+  bookmarkCount?: number;
+  bookmarked?: boolean;
+  bounty?: Bounty | null;
+  status?: QuestionStatus;
+  closeReason?: CloseReason | null;
+  closedAt?: Date | null;
+  duplicateOf?: string | null;
+  closeVotes?: CloseVote[];
+  reopenVotes?: string[];
+}
+
+/**
+ * Interface representing the duplicate question a user was redirected from to its original.
+ *
+ * - qid - The ID of the duplicate question.
+ * - title - The title of the duplicate question.
+ */
+export interface DuplicateRedirect {
+  qid: string;
+  title: string;
+}
+
+/**
+ * Interface representing an existing question similar to one being written.
+ *
+ * - _id - The unique identifier of the question.
+ * - title - The title of the question.
+ * - answerCount - The number of answers to the question.
+ * - accepted - Whether the question has an accepted answer.
+ * - similarity - How similar the question is, from its title, text and shared tags.
+ */
+export interface SimilarQuestion {
+  _id: string;
+  title: string;
+  answerCount: number;
+  accepted: boolean;
+  similarity: number;
+}
+
+/**
+ * Interface representing a part of a search result snippet.
+ *
+ * - text - The text of the part.
+ * - match - Whether the part is a matched search term, to be highlighted.
+ */
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Interface representing a page of questions returned by the server.
+ *
+ * - questions - The questions on the page.
+ * - total - The number of questions matching the filter, across all pages.
+ * - page - The number of the page, starting at 1.
+ * - pageSize - The maximum number of questions per page.
+ * - snippets - The search result snippet of each question, by question ID. Only set when
+ *   searching by keywords.
+ */
+export interface QuestionPage {
+  questions: Question[];
+  total: number;
+  page: number;
+  pageSize: number;
+  snippets?: Record<string, SnippetPart[]>;
+}
+
+/**
+ * Interface representing a narrower list of questions to fetch.
+ *
+ * - bookmarkedBy - The username of the user whose bookmarked questions are wanted.
+ * - collection - The ID of the collection whose questions are wanted.
+ */
+export interface QuestionListFilter {
+  bookmarkedBy?: string;
+  collection?: string;
+}
+
+/**
+ * Interface representing the bookmarks of a question after one was added or removed.
+ *
+ * - qid - The ID of the question.
+ * - bookmarkCount - The number of users who bookmarked the question.
+ * - bookmarked - Whether the current user bookmarked the question.
+ */
+export interface BookmarkUpdate {
+  qid: string;
+  bookmarkCount: number;
+  bookmarked: boolean;
+}
+
+/**
+ * Interface representing a named collection of questions put together by a user.
+ *
+ * - _id - The unique identifier of the collection.
+ * - name - The name of the collection.
+ * - description - What the collection is about.
+ * - owner - The username of the user who created the collection.
+ * - questions - The IDs of the questions in the collection.
+ * - shared - Whether other users with a link to the collection can view it.
+ * - createdAt - When the collection was created.
+ * - updatedAt - When the collection was last changed.
+ */
+export interface Collection {
+  _id: string;
+  name: string;
+  description: string;
+  owner: string;
+  questions: string[];
+  shared: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Represents the kinds of posts that can be edited.
+ */
+export type RevisionTargetType = 'question' | 'answer';
+
+/**
+ * Interface representing the editable content of a question or answer.
+ * - title - The title of the question. Only set for questions.
+ * - text - The text of the post.
+ * - tags - The tag names of the question. Only set for questions.
+ */
+export interface PostContent {
+  title?: string;
+  text: string;
+  tags?: string[];
+}
+
+/**
+ * Interface representing a prior version of an edited question or answer.
+ * - targetType - Whether the revision belongs to a question or an answer.
+ * - targetId - The ID of the edited post.
+ * - editedBy - The username of the user whose edit replaced this version.
+ * - editedAt - When the edit was made.
+ * - summary - The edit summary provided by the editor.
+ */
+export interface Revision extends PostContent {
+  _id?: string;
+  targetType: RevisionTargetType;
+  targetId: string;
+  editedBy: string;
+  editedAt: Date;
+  summary: string;
+}
+
+/**
+ * Interface representing a row of a side-by-side diff between two versions of a text.
+ * - left - The line of the older version, or `null` if the line was added.
+ * - right - The line of the newer version, or `null` if the line was removed.
+ * - type - How the line changed between the versions.
+ */
+export interface DiffRow {
+  left: string | null;
+  right: string | null;
+  type: 'same' | 'added' | 'removed' | 'changed';
 }
 
 /**
@@ -136,14 +432,19 @@ export interface Question {
  * - msg - The text of the message.
  * - msgFrom - The username of the user sending the message.
  * - msgDateTime - The date and time when the message was sent.
- * - type - The type of message, either 'global' or 'direct'.
+ * - type - The type of message, either 'global', 'direct' or 'system'. System messages record
+ *   changes to the membership of a group chat, made by `msgFrom`.
+ * - editedAt - When the message was last edited by its author. Optional field.
+ * - deletedAt - When the message was deleted by its author. Deleted messages have no text. Optional field.
  */
 export interface Message {
   _id?: string;
   msg: string;
   msgFrom: string;
   msgDateTime: Date;
-  type: 'global' | 'direct';
+  type: 'global' | 'direct' | 'system';
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
 }
 
 /**
@@ -155,6 +456,14 @@ export interface VoteUpdatePayload {
   downVotes: string[];
 }
 
+/**
+ * Interface representing the payload for a vote update socket event on an answer,
+ * which additionally identifies the answer that was voted on.
+ */
+export interface AnswerVoteUpdatePayload extends VoteUpdatePayload {
+  aid: string;
+}
+
 /**
  * Interface representing the payload for an answer update event.
  */
@@ -176,27 +485,117 @@ export interface CommentUpdatePayload {
 /**
  * Interface representing the payload for a message update event, which contains:
  * - msg: The updated message.
+ * - type: Whether the message was sent, edited or deleted.
  */
 export interface MessageUpdatePayload {
   msg: Message;
+  type: 'created' | 'edited' | 'deleted';
 }
 
 /**
- * Interface representing the payload for a chat update event.
+ * Interface representing the payload for a chat update event. When a participant is removed or
+ * leaves, `removed` is their username. When a message is edited or deleted, `message` is the
+ * updated message. When a participant reads the chat, `readBy` is their username.
  */
 export interface ChatUpdatePayload {
   chat: Chat;
-  type: 'created' | 'newMessage';
+  type:
+    | 'created'
+    | 'newMessage'
+    | 'participantAdded'
+    | 'participantRemoved'
+    | 'renamed'
+    | 'rolesChanged'
+    | 'messageUpdated'
+    | 'messagesRead';
+  removed?: string;
+  message?: MessageInChat;
+  readBy?: string;
 }
 
 /**
  * Interface representing the payload for a user update event, which contains:
  * - user: The updated user.
- * - type: The modification to the user (created or deleted).
+ * - type: The modification to the user (created, deleted or updated).
  */
 export interface UserUpdatePayload {
   user: User;
-  type: 'created' | 'deleted';
+  type: 'created' | 'deleted' | 'updated';
+}
+
+/**
+ * Interface representing the payload for a presence update event, which contains:
+ * - username: The user who came online or went offline.
+ * - online: Whether the user now has at least one open connection.
+ */
+export interface PresenceUpdatePayload {
+  username: string;
+  online: boolean;
+}
+
+/**
+ * Interface representing the payload for a typing update event, which contains:
+ * - chatId: The chat the user is typing in.
+ * - username: The user who started or stopped typing.
+ * - typing: Whether the user is typing.
+ */
+export interface TypingUpdatePayload {
+  chatId: string;
+  username: string;
+  typing: boolean;
+}
+
+/**
+ * Represents the activity a notification is about: an answer, comment, upvote or downvote on
+ * the user's content, a direct message, another player joining the user's game, or a bounty
+ * awarded to the user.
+ */
+export type NotificationType =
+  | 'answer'
+  | 'comment'
+  | 'upvote'
+  | 'downvote'
+  | 'message'
+  | 'game'
+  | 'bounty';
+
+/**
+ * Represents a notification about activity that concerns the user.
+ * - `actor`: The username of the user whose activity caused the notification.
+ * - `text`: A short description of the content, such as the question title or the message.
+ * - `qid`, `chatId`, `gameID`: The question, chat or game the notification links to.
+ * - `read`: Whether the user has read the notification.
+ */
+export interface Notification {
+  _id: string;
+  recipient: string;
+  type: NotificationType;
+  actor: string;
+  text: string;
+  qid?: string;
+  chatId?: string;
+  gameID?: string;
+  read: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Represents the most recent notifications of the user, and the number of notifications
+ * they have not read yet.
+ */
+export interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+/**
+ * Interface representing the payload for a notification update event, which contains:
+ * - notification: The created or updated notification, absent when all notifications were read.
+ * - type: The modification to the notifications.
+ */
+export interface NotificationUpdatePayload {
+  notification?: Notification;
+  type: 'created' | 'updated' | 'allRead';
 }
 
 /**
@@ -281,15 +680,43 @@ export interface MessageInChat extends Message {
   } | null; // If user not found
 }
 
+/**
+ * Represents how far a participant has read a chat: the ID of the last message of the chat
+ * when they read it.
+ */
+export interface ChatReadReceipt {
+  username: string;
+  messageId: string;
+}
+
+/**
+ * Represents a page of older messages of a chat, in the order they were sent,
+ * and whether even older messages are left.
+ */
+export interface ChatMessagesPage {
+  messages: MessageInChat[];
+  hasMore: boolean;
+}
+
 /**
  * Represents a Chat with participants and messages (fully enriched).
- * participants is still an array of user ObjectIds.
+ * participants is an array of usernames.
  * messages is an array of MessageInChat objects.
+ * Group chats have a name, an owner and admins who manage them, direct chats have none.
+ * Chats are loaded with their latest messages only, hasMoreMessages tells whether older ones are left.
+ * lastRead tells how far each participant has read the chat, and unreadCount, when listing the
+ * chats of the user, how many messages from others they have not read yet.
  */
 export interface Chat {
   _id?: string;
-  participants: string[]; // array of user IDs
+  participants: string[]; // array of usernames
   messages: MessageInChat[]; // array of messages, each with user details
+  name?: string | null;
+  owner?: string | null;
+  admins?: string[];
+  hasMoreMessages?: boolean;
+  lastRead?: ChatReadReceipt[];
+  unreadCount?: number;
   createdAt?: Date; // set by Mongoose if timestamps: true
   updatedAt?: Date; // set by Mongoose if timestamps: true
 }
@@ -301,13 +728,16 @@ export interface ServerToClientEvents {
   questionUpdate: (question: Question) => void;
   answerUpdate: (update: AnswerUpdatePayload) => void;
   viewsUpdate: (question: Question) => void;
-  voteUpdate: (vote: VoteUpdatePayload) => void;
+  voteUpdate: (vote: VoteUpdatePayload | AnswerVoteUpdatePayload) => void;
   commentUpdate: (update: CommentUpdatePayload) => void;
   messageUpdate: (message: MessageUpdatePayload) => void;
   userUpdate: (user: UserUpdatePayload) => void;
   gameUpdate: (game: GameUpdatePayload) => void;
   gameError: (error: GameErrorPayload) => void;
   chatUpdate: (chat: ChatUpdatePayload) => void;
+  notificationUpdate: (update: NotificationUpdatePayload) => void;
+  presenceUpdate: (update: PresenceUpdatePayload) => void;
+  typingUpdate: (update: TypingUpdatePayload) => void;
 }
 
 /**
@@ -317,6 +747,14 @@ export interface ClientToServerEvents {
   makeMove: (move: GameMove) => void;
   joinGame: (gameID: string) => void;
   leaveGame: (gameID: string) => void;
-  joinChat: (chatID: string) => void;
-  leaveChat: (chatID: string | undefined) => void;
+  joinQuestion: (qid: string) => void;
+  leaveQuestion: (qid: string) => void;
+  joinQuestionList: () => void;
+  leaveQuestionList: () => void;
+  joinUserList: () => void;
+  leaveUserList: () => void;
+  joinChat: (chatId: string) => void;
+  leaveChat: (chatId: string) => void;
+  typing: (chatId: string) => void;
+  stopTyping: (chatId: string) => void;
 }
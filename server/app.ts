@@ -18,6 +18,15 @@ import userController from './controllers/user.controller';
 import messageController from './controllers/message.controller';
 import chatController from './controllers/chat.controller';
 import gameController from './controllers/game.controller';
+import notificationController from './controllers/notification.controller';
+import collectionController from './controllers/collection.controller';
+import bountyController from './controllers/bounty.controller';
+import duplicateController from './controllers/duplicate.controller';
+import closureController from './controllers/closure.controller';
+import { authenticate, authenticateSocket } from './middleware/auth.middleware';
+import { createEmitter, getUserRoom } from './utils/emitter.util';
+import { addConnection, removeConnection } from './services/presence.service';
+import { startBountyExpiryJob } from './utils/bounty.util';
 
 dotenv.config();
 
@@ -35,22 +44,46 @@ function connectDatabase() {
   return mongoose.connect(MONGO_URL).catch(err => console.log('MongoDB connection error: ', err));
 }
 
+// The job closing expired bounties runs alongside the server, once it is started
+let bountyExpiryJob: NodeJS.Timeout | null = null;
+
 function startServer() {
   connectDatabase();
   server.listen(port, () => {
     console.log(`Server is running on port ${port}`);
   });
+  bountyExpiryJob = startBountyExpiryJob(socket, error =>
+    console.log('Bounty expiry error: ', error),
+  );
 }
 
+socket.use(authenticateSocket);
+
+const emitter = createEmitter(socket);
+
 socket.on('connection', socket => {
-  console.log('A user connected ->', socket.id);
+  const { username } = socket.data;
+  console.log('A user connected ->', socket.id, username);
+  // Every connection of a user joins their room, so events meant for the user reach all their tabs
+  socket.join(getUserRoom(username));
+
+  // Users are online from their first connection until their last one is closed
+  if (addConnection(username)) {
+    emitter.presenceUpdate({ username, online: true });
+  }
 
   socket.on('disconnect', () => {
     console.log('User disconnected');
+    if (removeConnection(username)) {
+      emitter.presenceUpdate({ username, online: false });
+    }
   });
 });
 
 process.on('SIGINT', async () => {
+  if (bountyExpiryJob) {
+    clearInterval(bountyExpiryJob);
+  }
   await mongoose.disconnect();
   socket.close();
 
@@ -74,6 +107,8 @@ app.get('/', (_: Request, res: Response) => {
   res.end();
 });
 
+app.use(authenticate);
+
 app.use('/question', questionController(socket));
 app.use('/tag', tagController());
 app.use('/answer', answerController(socket));
@@ -82,6 +117,11 @@ app.use('/messaging', messageController(socket));
 app.use('/user', userController(socket));
 app.use('/chat', chatController(socket));
 app.use('/games', gameController(socket));
+app.use('/notification', notificationController(socket));
+app.use('/collection', collectionController());
+app.use('/bounty', bountyController(socket));
+app.use('/duplicate', duplicateController());
+app.use('/closure', closureController(socket));
 
 // Export the app instance
 export { app, server, startServer };
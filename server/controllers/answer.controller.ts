@@ -1,10 +1,33 @@
 import express, { Response } from 'express';
-import { Answer, AnswerRequest, AnswerResponse, FakeSOSocket } from '../types/types';
-import { addAnswerToQuestion, saveAnswer } from '../services/answer.service';
+import { ObjectId } from 'mongodb';
+import {
+  Answer,
+  AnswerRequest,
+  AnswerResponse,
+  AnswerVoteRequest,
+  AnswerDeletionRequest,
+  EditAnswerRequest,
+  FakeSOSocket,
+  RevisionHistoryRequest,
+} from '../types/types';
+import {
+  addAnswerToQuestion,
+  addVoteToAnswer,
+  editAnswer,
+  saveAnswer,
+  setAnswerDeleted,
+} from '../services/answer.service';
+import { getRevisionHistory } from '../services/revision.service';
+import { getQuestionStatus } from '../services/closure.service';
 import { populateDocument } from '../utils/database.util';
+import { canModify, canRestore, hasRole } from '../utils/authorization.util';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { sendAuthorNotification, sendNotification } from '../utils/notification.util';
+import { createEmitter } from '../utils/emitter.util';
 
 const answerController = (socket: FakeSOSocket) => {
   const router = express.Router();
+  const emitter = createEmitter(socket);
 
   /**
    * Checks if the provided answer request contains the required fields.
@@ -29,9 +52,11 @@ const answerController = (socket: FakeSOSocket) => {
   }
 
   /**
-   * Adds a new answer to a question in the database. The answer request and answer are
+   * Adds a new answer by the authenticated user to a question in the database. Only the text and
+   * date of the answer are taken from the request. The answer request and answer are
    * validated and then saved. If successful, the answer is associated with the corresponding
-   * question. If there is an error, the HTTP response's status is updated.
+   * question, whose author is notified. Closed and locked questions cannot be answered.
+   * If there is an error, the HTTP response's status is updated.
    *
    * @param req The AnswerRequest object containing the question ID and answer data.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -43,15 +68,39 @@ const answerController = (socket: FakeSOSocket) => {
       res.status(400).send('Invalid request');
       return;
     }
-    if (!isAnswerValid(req.body.ans)) {
+
+    const { qid } = req.body;
+    const { text, ansDateTime } = req.body.ans;
+    const ansInfo: Answer = {
+      text,
+      ansBy: req.user!.username,
+      ansDateTime,
+      comments: [],
+      upVotes: [],
+      downVotes: [],
+    };
+
+    if (!isAnswerValid(ansInfo)) {
       res.status(400).send('Invalid answer');
       return;
     }
 
-    const { qid } = req.body;
-    const ansInfo: Answer = req.body.ans;
-
     try {
+      const questionStatus = await getQuestionStatus(qid, 'question');
+
+      if (typeof questionStatus !== 'string') {
+        if (questionStatus.error === 'Question not found') {
+          res.status(404).send(questionStatus.error);
+          return;
+        }
+        throw new Error(questionStatus.error);
+      }
+
+      if (questionStatus !== 'open') {
+        sendForbidden(res, `the question is ${questionStatus}`);
+        return;
+      }
+
       const ansFromDb = await saveAnswer(ansInfo);
 
       if ('error' in ansFromDb) {
@@ -71,18 +120,286 @@ const answerController = (socket: FakeSOSocket) => {
       }
 
       // Populates the fields of the answer that was added and emits the new object
-      socket.emit('answerUpdate', {
+      emitter.answerUpdate({
         qid,
         answer: populatedAns as AnswerResponse,
       });
+      await sendNotification(emitter, {
+        recipient: status.askedBy,
+        type: 'answer',
+        actor: ansInfo.ansBy,
+        text: status.title,
+        qid: status._id,
+      });
       res.json(ansFromDb);
     } catch (err) {
       res.status(500).send(`Error when adding answer: ${(err as Error).message}`);
     }
   };
 
+  /**
+   * Helper function to handle upvoting or downvoting an answer on behalf of the authenticated user.
+   * The author of the answer is notified when a vote is cast. Answers that are deleted, or not part
+   * of the given question, cannot be voted on.
+   *
+   * @param req The AnswerVoteRequest object containing the question and answer IDs.
+   * @param res The HTTP response object used to send back the result of the operation.
+   * @param type The type of vote to perform (upvote or downvote).
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const voteAnswer = async (
+    req: AnswerVoteRequest,
+    res: Response,
+    type: 'upvote' | 'downvote',
+  ): Promise<void> => {
+    if (!req.body.qid || !req.body.aid) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { qid, aid } = req.body;
+    const { username } = req.user!;
+
+    try {
+      const status = await addVoteToAnswer(qid, aid, username, type);
+
+      if ('error' in status) {
+        if (status.error === 'Answer not found!') {
+          res.status(404).send(status.error);
+          return;
+        }
+        throw new Error(status.error);
+      }
+
+      // Emit the updated vote counts to all connected clients
+      emitter.voteUpdate({ qid, aid, upVotes: status.upVotes, downVotes: status.downVotes });
+
+      // Only casting a vote is notified, not cancelling one
+      if ((type === 'upvote' ? status.upVotes : status.downVotes).includes(username)) {
+        await sendAuthorNotification(emitter, aid, 'answer', type, username);
+      }
+      res.json({ msg: status.msg, upVotes: status.upVotes, downVotes: status.downVotes });
+    } catch (err) {
+      res.status(500).send(`Error when ${type}ing: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles upvoting an answer. The request must contain the question ID (qid) and answer ID (aid).
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The AnswerVoteRequest object containing the question and answer IDs.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const upvoteAnswer = async (req: AnswerVoteRequest, res: Response): Promise<void> => {
+    await voteAnswer(req, res, 'upvote');
+  };
+
+  /**
+   * Handles downvoting an answer. The request must contain the question ID (qid) and answer ID (aid).
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The AnswerVoteRequest object containing the question and answer IDs.
+   * @param res The HTTP response object used to send back the result of the operation.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const downvoteAnswer = async (req: AnswerVoteRequest, res: Response): Promise<void> => {
+    await voteAnswer(req, res, 'downvote');
+  };
+
+  /**
+   * Edits the text of an answer, storing the replaced version in its revision history. Only the
+   * author of the answer or a moderator is allowed to do this.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The EditAnswerRequest object containing the IDs, new text and edit summary.
+   * @param res The HTTP response object used to send back the edited answer.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const updateAnswer = async (req: EditAnswerRequest, res: Response): Promise<void> => {
+    const { qid, aid, text, summary } = req.body;
+
+    if (!qid || !aid || !ObjectId.isValid(aid) || !text) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const answer = (await populateDocument(aid, 'answer')) as AnswerResponse;
+
+      if ('error' in answer) {
+        throw new Error(answer.error);
+      }
+
+      if (!canModify(req.user!, answer.ansBy, 'moderator')) {
+        sendForbidden(res, 'only the author of the answer or a moderator can edit it');
+        return;
+      }
+
+      const status = await editAnswer(aid, text, req.user!.username, summary ?? '');
+
+      if ('error' in status) {
+        throw new Error(status.error);
+      }
+
+      const populatedAns = (await populateDocument(aid, 'answer')) as AnswerResponse;
+
+      if ('error' in populatedAns) {
+        throw new Error(populatedAns.error);
+      }
+
+      emitter.answerUpdate({ qid, answer: populatedAns });
+      res.json(populatedAns);
+    } catch (err) {
+      res.status(500).send(`Error when editing answer: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves the prior versions of an answer, oldest first. Only moderators can see the history
+   * of a deleted answer; to anyone else it is not found.
+   * If there is an error, the HTTP response's status is updated.
+   *
+   * @param req The RevisionHistoryRequest object containing the answer ID as a parameter.
+   * @param res The HTTP response object used to send back the revisions.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getAnswerRevisions = async (req: RevisionHistoryRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const revisions = await getRevisionHistory('answer', id, hasRole(req.user!, 'moderator'));
+
+      if ('error' in revisions) {
+        if (revisions.error === 'Answer not found!') {
+          res.status(404).send('Answer not found');
+          return;
+        }
+        throw new Error(revisions.error);
+      }
+
+      res.json(revisions);
+    } catch (err) {
+      res.status(500).send(`Error when fetching answer revisions: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Helper function to soft delete an answer, or restore it. Answers can be deleted by their
+   * author or a moderator, and restored by a moderator or by the author if they deleted it.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The AnswerDeletionRequest object containing the question and answer IDs.
+   * @param res The HTTP response object used to send back the updated answer.
+   * @param deleted Whether the answer should be deleted or restored.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const changeAnswerDeletion = async (
+    req: AnswerDeletionRequest,
+    res: Response,
+    deleted: boolean,
+  ): Promise<void> => {
+    const { qid, aid } = req.body;
+
+    if (!qid || !aid || !ObjectId.isValid(aid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const answer = (await populateDocument(aid, 'answer', true)) as AnswerResponse;
+
+      if ('error' in answer) {
+        throw new Error(answer.error);
+      }
+
+      const allowed = deleted
+        ? canModify(req.user!, answer.ansBy, 'moderator')
+        : canRestore(req.user!, answer.ansBy, answer.deletedBy);
+
+      if (!allowed) {
+        sendForbidden(
+          res,
+          deleted
+            ? 'only the author of the answer or a moderator can delete it'
+            : 'only a moderator or the user who deleted the answer can restore it',
+        );
+        return;
+      }
+
+      if (!!answer.deletedAt === deleted) {
+        res.status(400).send(deleted ? 'Answer is already deleted' : 'Answer is not deleted');
+        return;
+      }
+
+      const status = await setAnswerDeleted(aid, deleted ? req.user!.username : null);
+
+      if ('error' in status) {
+        throw new Error(status.error);
+      }
+
+      // Deleted answers are announced without their content, restored ones are sent in full
+      const updatedAnswer = deleted
+        ? status
+        : ((await populateDocument(aid, 'answer')) as AnswerResponse);
+
+      if ('error' in updatedAnswer) {
+        throw new Error(updatedAnswer.error);
+      }
+
+      emitter.answerUpdate({ qid, answer: updatedAnswer });
+      res.json(updatedAnswer);
+    } catch (err) {
+      res
+        .status(500)
+        .send(`Error when ${deleted ? 'deleting' : 'restoring'} answer: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles soft deleting an answer. The request must contain the question ID (qid) and answer ID (aid).
+   *
+   * @param req The AnswerDeletionRequest object containing the question and answer IDs.
+   * @param res The HTTP response object used to send back the deleted answer.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteAnswer = async (req: AnswerDeletionRequest, res: Response): Promise<void> => {
+    await changeAnswerDeletion(req, res, true);
+  };
+
+  /**
+   * Handles restoring a soft deleted answer. The request must contain the question ID (qid) and answer ID (aid).
+   *
+   * @param req The AnswerDeletionRequest object containing the question and answer IDs.
+   * @param res The HTTP response object used to send back the restored answer.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const undeleteAnswer = async (req: AnswerDeletionRequest, res: Response): Promise<void> => {
+    await changeAnswerDeletion(req, res, false);
+  };
+
   // add appropriate HTTP verbs and their endpoints to the router.
   router.post('/addAnswer', addAnswer);
+  router.post('/upvoteAnswer', upvoteAnswer);
+  router.post('/downvoteAnswer', downvoteAnswer);
+  router.patch('/editAnswer', updateAnswer);
+  router.get('/getAnswerRevisions/:id', getAnswerRevisions);
+  router.post('/deleteAnswer', deleteAnswer);
+  router.post('/undeleteAnswer', undeleteAnswer);
 
   return router;
 };
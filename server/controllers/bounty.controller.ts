@@ -0,0 +1,163 @@
+import express, { Response, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import {
+  AwardBountyRequest,
+  FakeSOSocket,
+  OfferBountyRequest,
+  QuestionResponse,
+} from '../types/types';
+import {
+  awardBounty,
+  BOUNTY_DEFAULT_DAYS,
+  BOUNTY_MAX_AMOUNT,
+  BOUNTY_MAX_DAYS,
+  BOUNTY_MIN_AMOUNT,
+  offerBounty,
+} from '../services/bounty.service';
+import { populateDocument } from '../utils/database.util';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { announceBountyResolution } from '../utils/bounty.util';
+import { createEmitter } from '../utils/emitter.util';
+
+/**
+ * Express controller for the bounties users offer on questions, paid from their reputation, and
+ * award to the answers that deserve them.
+ * @param socket The socket instance used to emit the questions whose bounty changed.
+ * @returns An Express router with endpoints for bounty actions.
+ */
+const bountyController = (socket: FakeSOSocket) => {
+  const router: Router = express.Router();
+  const emitter = createEmitter(socket);
+
+  /**
+   * Checks whether a value is a whole number within a range.
+   *
+   * @param value The value to check.
+   * @param min The smallest allowed number.
+   * @param max The largest allowed number.
+   *
+   * @returns `true` if the value is a whole number between `min` and `max`, otherwise `false`.
+   */
+  const isIntegerInRange = (value: unknown, min: number, max: number): boolean =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+  /**
+   * Offers a bounty on a question, paid from the reputation of the authenticated user. Both the
+   * author of the question and any other user can offer one, while the question has no open
+   * bounty and no accepted answer.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The OfferBountyRequest object containing the question ID, amount and duration.
+   * @param res The HTTP response object used to send back the question with its bounty.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const offerBountyRoute = async (req: OfferBountyRequest, res: Response): Promise<void> => {
+    const { qid, amount, days = BOUNTY_DEFAULT_DAYS } = req.body ?? {};
+
+    if (
+      !qid ||
+      !ObjectId.isValid(qid) ||
+      !isIntegerInRange(amount, BOUNTY_MIN_AMOUNT, BOUNTY_MAX_AMOUNT) ||
+      !isIntegerInRange(days, 1, BOUNTY_MAX_DAYS)
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const status = await offerBounty(qid, req.user!.username, amount, days);
+
+      if ('error' in status) {
+        if (status.error === 'Question not found') {
+          res.status(404).send(status.error);
+          return;
+        }
+        if (status.error !== 'Error when offering the bounty') {
+          res.status(400).send(status.error);
+          return;
+        }
+        throw new Error(status.error);
+      }
+
+      const question = (await populateDocument(qid, 'question')) as QuestionResponse;
+
+      if ('error' in question) {
+        throw new Error(question.error);
+      }
+
+      emitter.questionUpdate(question);
+      res.json(question);
+    } catch (err) {
+      res.status(500).send(`Error when offering bounty: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Awards the bounty of a question to one of its answers. Only the user who offered the bounty
+   * can award it, and not to one of their own answers.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The AwardBountyRequest object containing the question and answer IDs.
+   * @param res The HTTP response object used to send back the question without its bounty.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const awardBountyRoute = async (req: AwardBountyRequest, res: Response): Promise<void> => {
+    const { qid, aid } = req.body ?? {};
+
+    if (!qid || !aid || !ObjectId.isValid(qid) || !ObjectId.isValid(aid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const question = (await populateDocument(qid, 'question')) as QuestionResponse;
+
+      if ('error' in question) {
+        throw new Error(question.error);
+      }
+
+      if (!question.bounty) {
+        res.status(400).send('Question has no bounty');
+        return;
+      }
+
+      if (question.bounty.offeredBy !== req.user!.username) {
+        sendForbidden(res, 'only the user who offered the bounty can award it');
+        return;
+      }
+
+      const resolution = await awardBounty(qid, aid);
+
+      if ('error' in resolution) {
+        if (resolution.error === 'Question not found' || resolution.error === 'Answer not found') {
+          res.status(404).send(resolution.error);
+          return;
+        }
+        if (resolution.error !== 'Error when awarding the bounty') {
+          res.status(400).send(resolution.error);
+          return;
+        }
+        throw new Error(resolution.error);
+      }
+
+      const updatedQuestion = await announceBountyResolution(emitter, resolution);
+
+      if ('error' in updatedQuestion) {
+        throw new Error(updatedQuestion.error);
+      }
+
+      res.json(updatedQuestion);
+    } catch (err) {
+      res.status(500).send(`Error when awarding bounty: ${(err as Error).message}`);
+    }
+  };
+
+  router.post('/offerBounty', offerBountyRoute);
+  router.post('/awardBounty', awardBountyRoute);
+
+  return router;
+};
+
+export default bountyController;
@@ -1,4 +1,5 @@
 import express, { Response } from 'express';
+import { ObjectId } from 'mongodb';
 import {
   saveChat,
   createMessage,
@@ -6,19 +7,38 @@ import {
   getChat,
   addParticipantToChat,
   getChatsByParticipants,
+  removeParticipantFromChat,
+  renameChat,
+  transferChatOwnership,
+  setChatAdmin,
+  getChatMessages,
+  markChatRead,
+  countUnreadMessages,
 } from '../services/chat.service';
-import { populateDocument } from '../utils/database.util';
+import { getMessage, editMessage, deleteMessage } from '../services/message.service';
+import { populateDocument, populateMessages } from '../utils/database.util';
 import {
+  Chat,
+  MessageInChat,
   CreateChatRequest,
+  CreateChatPayload,
   AddMessageRequestToChat,
-  AddParticipantRequest,
+  ParticipantRequest,
   ChatIdRequest,
   GetChatByParticipantsRequest,
   ChatUpdatePayload,
   ChatResponse,
+  RenameChatRequest,
+  SetChatAdminRequest,
+  GetChatMessagesRequest,
+  EditChatMessageRequest,
+  DeleteChatMessageRequest,
 } from '../types/chat';
 import { FakeSOSocket } from '../types/socket';
 import { Message } from '../types/message';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { sendNotification } from '../utils/notification.util';
+import { createEmitter, getChatRoom } from '../utils/emitter.util';
 
 /*
  * This controller handles chat-related routes.
@@ -28,9 +48,11 @@ import { Message } from '../types/message';
  */
 const chatController = (socket: FakeSOSocket) => {
   const router = express.Router();
+  const emitter = createEmitter(socket);
 
   /**
-   * Validates that the request body contains all required fields for a chat.
+   * Validates that the request body contains all required fields for a chat. Group chats must
+   * have a name that is not blank.
    * @param req The incoming request containing chat data.
    * @returns `true` if the body contains valid chat fields; otherwise, `false`.
    */
@@ -39,7 +61,9 @@ const chatController = (socket: FakeSOSocket) => {
     req.body.participants !== undefined &&
     Array.isArray(req.body.participants) &&
     req.body.messages !== undefined &&
-    Array.isArray(req.body.messages);
+    Array.isArray(req.body.messages) &&
+    (req.body.name === undefined ||
+      (typeof req.body.name === 'string' && req.body.name.trim() !== ''));
 
   /**
    * Validates that the request body contains all required fields for a message.
@@ -50,8 +74,6 @@ const chatController = (socket: FakeSOSocket) => {
     !!req.body &&
     req.body.msg !== undefined &&
     req.body.msg !== '' &&
-    req.body.msgFrom !== undefined &&
-    req.body.msgFrom !== '' &&
     req.body.msgDateTime !== null;
 
   /**
@@ -59,11 +81,89 @@ const chatController = (socket: FakeSOSocket) => {
    * @param req The incoming request containing participant data.
    * @returns `true` if the body contains valid participant fields; otherwise, `false`.
    */
-  const isAddParticipantRequestValid = (req: AddParticipantRequest): boolean =>
-    !!req.body && req.body.userId !== undefined && req.body.userId !== '';
+  const isParticipantRequestValid = (req: ParticipantRequest): boolean =>
+    !!req.body && typeof req.body.username === 'string' && req.body.username !== '';
+
+  /**
+   * Checks whether a participant manages a group chat, as its owner or one of its admins.
+   * @param chat The group chat.
+   * @param username The username of the participant.
+   * @returns `true` if the participant is an admin of the chat; otherwise, `false`.
+   */
+  const isChatAdmin = (chat: Chat, username: string): boolean =>
+    chat.owner === username || !!chat.admins?.includes(username);
+
+  /**
+   * Finds the group chat whose membership the authenticated user wants to change. Sends a 403
+   * response if the user is not one of its participants, and a 400 response if it is a direct chat.
+   * @param req The request object containing the chat ID.
+   * @param res The response object used to send back the refusal.
+   * @returns {Promise<Chat | null>} The chat, or `null` if a response was sent.
+   * @throws {Error} Throws an error if the chat cannot be found.
+   */
+  const getGroupChatOfUser = async (req: ChatIdRequest, res: Response): Promise<Chat | null> => {
+    const chat = await getChat(req.params.chatId);
+    if ('error' in chat) {
+      throw new Error(chat.error);
+    }
+    if (!chat.participants.includes(req.user!.username)) {
+      sendForbidden(res, 'not a participant of this chat');
+      return null;
+    }
+    if (!chat.owner) {
+      res.status(400).send('Only group chats can be managed');
+      return null;
+    }
+    return chat;
+  };
+
+  /**
+   * Records a change to a group chat as a system message in it, and sends the updated chat to its
+   * participants, and to the participant who was removed, if any.
+   * @param chatId The ID of the chat.
+   * @param actor The username of the user who made the change.
+   * @param text The description of the change.
+   * @param type The type of the change.
+   * @param removed The username of the participant who was removed or left, if any.
+   * @returns {Promise<Chat>} The updated chat, with its messages populated.
+   * @throws {Error} Throws an error if the message cannot be recorded.
+   */
+  const recordChatChange = async (
+    chatId: string,
+    actor: string,
+    text: string,
+    type: ChatUpdatePayload['type'],
+    removed?: string,
+  ): Promise<Chat> => {
+    const message = await createMessage({
+      msg: text,
+      msgFrom: actor,
+      msgDateTime: new Date(),
+      type: 'system',
+    });
+    if ('error' in message) {
+      throw new Error(message.error);
+    }
+
+    const result = await addMessageToChat(chatId, message._id!.toString());
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    const populatedChat = (await populateDocument(chatId, 'chat')) as ChatResponse;
+    if ('error' in populatedChat) {
+      throw new Error(populatedChat.error);
+    }
+
+    emitter.chatUpdate({ chat: populatedChat, type, removed });
+    return populatedChat;
+  };
 
   /**
    * Creates a new chat with the given participants (and optional initial messages).
+   * The authenticated user must be one of the participants, and every participant is sent the new chat.
+   * Initial messages are direct messages sent by the authenticated user.
+   * Chats with a name are group chats, owned by the authenticated user.
    * @param req The request object containing the chat data.
    * @param res The response object to send the result.
    * @returns {Promise<void>} A promise that resolves when the chat is created.
@@ -74,8 +174,40 @@ const chatController = (socket: FakeSOSocket) => {
       res.status(400).send('Invalid request body');
       return;
     }
+    if (!req.body.participants.includes(req.user!.username)) {
+      sendForbidden(res, 'cannot create a chat without being a participant');
+      return;
+    }
     try {
-      const result = await saveChat(req.body);
+      const { username } = req.user!;
+      const name = req.body.name?.trim();
+      const chat: CreateChatPayload = {
+        participants: req.body.participants,
+        messages: req.body.messages.map(({ msg, msgDateTime }) => ({
+          msg,
+          msgFrom: username,
+          msgDateTime,
+          type: 'direct',
+        })),
+      };
+      const result = name
+        ? await saveChat(
+            {
+              ...chat,
+              name,
+              messages: [
+                {
+                  msg: `${username} created the group "${name}"`,
+                  msgFrom: username,
+                  msgDateTime: new Date(),
+                  type: 'system',
+                },
+                ...chat.messages,
+              ],
+            },
+            username,
+          )
+        : await saveChat(chat);
       if ('error' in result) {
         throw new Error(result.error);
       }
@@ -88,13 +220,8 @@ const chatController = (socket: FakeSOSocket) => {
         throw new Error(populatedChat.error);
       }
 
-      if (populatedChat._id) {
-        const payload: ChatUpdatePayload = {
-          chat: populatedChat,
-          type: 'created',
-        };
-        socket.to(populatedChat._id.toString()).emit('chatUpdate', payload);
-      }
+      const payload: ChatUpdatePayload = { chat: populatedChat, type: 'created' };
+      emitter.chatUpdate(payload);
 
       res.status(200).json(populatedChat);
     } catch (err) {
@@ -103,7 +230,8 @@ const chatController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Adds a new message to an existing chat.
+   * Adds a new message sent by the authenticated user to an existing chat, and notifies the other
+   * participants. Only participants of the chat can send messages to it.
    * @param req The request object containing the message data.
    * @param res The response object to send the result.
    * @returns {Promise<void>} A promise that resolves when the message is added.
@@ -118,9 +246,18 @@ const chatController = (socket: FakeSOSocket) => {
       return;
     }
     try {
+      const chat = await getChat(req.params.chatId);
+      if ('error' in chat) {
+        throw new Error(chat.error);
+      }
+      if (!chat.participants.includes(req.user!.username)) {
+        sendForbidden(res, 'not a participant of this chat');
+        return;
+      }
+
       const messageData: Message = {
         msg: req.body.msg,
-        msgFrom: req.body.msgFrom,
+        msgFrom: req.user!.username,
         msgDateTime: req.body.msgDateTime ?? new Date(),
         type: 'direct',
       };
@@ -143,7 +280,19 @@ const chatController = (socket: FakeSOSocket) => {
       }
 
       const payload: ChatUpdatePayload = { chat: populatedChat, type: 'newMessage' };
-      socket.to(req.params.chatId).emit('chatUpdate', payload);
+      emitter.chatUpdate(payload);
+
+      await Promise.all(
+        populatedChat.participants.map(participant =>
+          sendNotification(emitter, {
+            recipient: participant,
+            type: 'message',
+            actor: messageData.msgFrom,
+            text: messageData.msg,
+            chatId: req.params.chatId,
+          }),
+        ),
+      );
 
       res.status(200).json(populatedChat);
     } catch (err) {
@@ -153,6 +302,7 @@ const chatController = (socket: FakeSOSocket) => {
 
   /**
    * Retrieves a chat by its ID, optionally populating participants and messages.
+   * Only participants of the chat can retrieve it.
    * @param req The request object containing the chat ID.
    * @param res The response object to send the result.
    * @returns {Promise<void>} A promise that resolves when the chat is retrieved.
@@ -164,6 +314,10 @@ const chatController = (socket: FakeSOSocket) => {
       if ('error' in result) {
         throw new Error(result.error);
       }
+      if (!result.participants.includes(req.user!.username)) {
+        sendForbidden(res, 'not a participant of this chat');
+        return;
+      }
       const populatedChat = await populateDocument(result._id?.toString(), 'chat');
       if ('error' in populatedChat) {
         throw new Error(populatedChat.error);
@@ -175,7 +329,181 @@ const chatController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Retrieves chats for a user based on their username.
+   * Checks that the authenticated user can change a message of a chat. Only the author of a
+   * message can change it, and neither system messages nor deleted messages can be changed.
+   * Sends a 403 or 400 response otherwise.
+   * @param req The request object containing the chat ID and the ID of the message.
+   * @param res The response object used to send back the refusal.
+   * @returns {Promise<boolean>} Whether the message can be changed.
+   * @throws {Error} Throws an error if the chat or the message cannot be found.
+   */
+  const canChangeChatMessage = async (
+    req: EditChatMessageRequest | DeleteChatMessageRequest,
+    res: Response,
+  ): Promise<boolean> => {
+    const { messageId } = req.body;
+    const chat = await getChat(req.params.chatId);
+    if ('error' in chat) {
+      throw new Error(chat.error);
+    }
+    if (!chat.participants.includes(req.user!.username)) {
+      sendForbidden(res, 'not a participant of this chat');
+      return false;
+    }
+    // Chats from getChat are not populated, so their messages hold the message IDs
+    if (!chat.messages.some(id => id.toString() === messageId)) {
+      res.status(400).send('The message is not part of this chat');
+      return false;
+    }
+
+    const message = await getMessage(messageId);
+    if ('error' in message) {
+      throw new Error(message.error);
+    }
+    if (message.type === 'system') {
+      res.status(400).send('System messages cannot be changed');
+      return false;
+    }
+    if (message.deletedAt) {
+      res.status(400).send('The message was deleted');
+      return false;
+    }
+    if (message.msgFrom !== req.user!.username) {
+      sendForbidden(res, 'only the author of the message can change it');
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Sends the participants of a chat a message of it that was edited or deleted, with the chat.
+   * @param chatId The ID of the chat.
+   * @param messageId The ID of the message that changed.
+   * @returns {Promise<MessageInChat>} The message, enriched with the details of its sender.
+   * @throws {Error} Throws an error if the chat cannot be populated.
+   */
+  const sendChatMessageUpdate = async (
+    chatId: string,
+    messageId: string,
+  ): Promise<MessageInChat> => {
+    const populatedChat = (await populateDocument(chatId, 'chat')) as ChatResponse;
+    if ('error' in populatedChat) {
+      throw new Error(populatedChat.error);
+    }
+
+    const [message] = await populateMessages([new ObjectId(messageId)]);
+    emitter.chatUpdate({ chat: populatedChat, type: 'messageUpdated', message });
+    return message;
+  };
+
+  /**
+   * Edits the text of a message of a chat. Only the author of the message can edit it.
+   * @param req The request object containing the chat ID, the message ID and the new text.
+   * @param res The response object to send the edited message.
+   * @returns {Promise<void>} A promise that resolves when the message is edited.
+   * @throws {Error} Throws an error if editing the message fails.
+   */
+  const editChatMessageRoute = async (
+    req: EditChatMessageRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { messageId, msg } = req.body;
+    if (!messageId || !ObjectId.isValid(messageId) || typeof msg !== 'string' || !msg.trim()) {
+      res.status(400).send('Invalid request body');
+      return;
+    }
+
+    try {
+      if (!(await canChangeChatMessage(req, res))) {
+        return;
+      }
+
+      const result = await editMessage(messageId, msg);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      res.status(200).json(await sendChatMessageUpdate(req.params.chatId, messageId));
+    } catch (err) {
+      res.status(500).send(`Error editing message: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Deletes a message of a chat, leaving it in the chat without its text. Only the author of the
+   * message can delete it.
+   * @param req The request object containing the chat ID and the message ID.
+   * @param res The response object to send the deleted message.
+   * @returns {Promise<void>} A promise that resolves when the message is deleted.
+   * @throws {Error} Throws an error if deleting the message fails.
+   */
+  const deleteChatMessageRoute = async (
+    req: DeleteChatMessageRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { messageId } = req.body;
+    if (!messageId || !ObjectId.isValid(messageId)) {
+      res.status(400).send('Invalid request body');
+      return;
+    }
+
+    try {
+      if (!(await canChangeChatMessage(req, res))) {
+        return;
+      }
+
+      const result = await deleteMessage(messageId);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      res.status(200).json(await sendChatMessageUpdate(req.params.chatId, messageId));
+    } catch (err) {
+      res.status(500).send(`Error deleting message: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves a page of messages of a chat, sent before the message given as `before` in the
+   * query, or the latest ones. Only participants of the chat can read its messages.
+   * @param req The request object containing the chat ID and the optional `before` message ID.
+   * @param res The response object to send the page of messages.
+   * @returns {Promise<void>} A promise that resolves when the messages are retrieved.
+   * @throws {Error} Throws an error if the message retrieval fails.
+   */
+  const getChatMessagesRoute = async (
+    req: GetChatMessagesRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { before } = req.query;
+    if (before !== undefined && (typeof before !== 'string' || !ObjectId.isValid(before))) {
+      res.status(400).send('Invalid message cursor');
+      return;
+    }
+
+    try {
+      const chat = await getChat(req.params.chatId);
+      if ('error' in chat) {
+        throw new Error(chat.error);
+      }
+      if (!chat.participants.includes(req.user!.username)) {
+        sendForbidden(res, 'not a participant of this chat');
+        return;
+      }
+
+      const page = await getChatMessages(req.params.chatId, before);
+      if ('error' in page) {
+        throw new Error(page.error);
+      }
+      res.status(200).json(page);
+    } catch (err) {
+      res.status(500).send(`Error retrieving chat messages: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves chats for a user based on their username, with the number of messages they have not
+   * read yet in each. Users can only retrieve their own chats.
    * @param req The request object containing the username parameter in `req.params`.
    * @param res The response object to send the result, either the populated chats or an error message.
    * @returns {Promise<void>} A promise that resolves when the chats are successfully retrieved and populated.
@@ -184,56 +512,367 @@ const chatController = (socket: FakeSOSocket) => {
     req: GetChatByParticipantsRequest,
     res: Response,
   ): Promise<void> => {
+    const { username } = req.params;
+    if (username !== req.user!.username) {
+      sendForbidden(res, 'users can only retrieve their own chats');
+      return;
+    }
     try {
-      const result = await getChatsByParticipants([req.params.username]);
+      const result = await getChatsByParticipants([username]);
       const populatedChats = await Promise.all(
         result.map(c => populateDocument(c._id?.toString(), 'chat') as Promise<ChatResponse>),
       );
+      const unreadCounts = await Promise.all(result.map(c => countUnreadMessages(c, username)));
       for (const chat of populatedChats) {
         if ('error' in chat) {
           throw new Error('Failed populating chats');
         }
       }
-      res.status(200).json(populatedChats);
+      for (const unreadCount of unreadCounts) {
+        if (typeof unreadCount !== 'number') {
+          throw new Error(unreadCount.error);
+        }
+      }
+      res
+        .status(200)
+        .json(
+          populatedChats.map((chat, i) => ({ ...(chat as Chat), unreadCount: unreadCounts[i] })),
+        );
     } catch (err) {
       res.status(500).send(`Error retrieving chat: ${(err as Error).message}`);
     }
   };
 
   /**
-   * Adds a participant to an existing chat.
-   * @param req The request object containing the participant data.
+   * Marks a chat as read by the authenticated user, up to its latest message, and sends the
+   * updated chat to its participants, so that they see how far it was read.
+   * @param req The request object containing the chat ID.
+   * @param res The response object to send the updated chat.
+   * @returns {Promise<void>} A promise that resolves when the chat is marked as read.
+   * @throws {Error} Throws an error if marking the chat as read fails.
+   */
+  const markChatReadRoute = async (req: ChatIdRequest, res: Response): Promise<void> => {
+    try {
+      const { username } = req.user!;
+      const chat = await getChat(req.params.chatId);
+      if ('error' in chat) {
+        throw new Error(chat.error);
+      }
+      if (!chat.participants.includes(username)) {
+        sendForbidden(res, 'not a participant of this chat');
+        return;
+      }
+
+      const result = await markChatRead(req.params.chatId, username);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      const populatedChat = (await populateDocument(req.params.chatId, 'chat')) as ChatResponse;
+      if ('error' in populatedChat) {
+        throw new Error(populatedChat.error);
+      }
+
+      emitter.chatUpdate({ chat: populatedChat, type: 'messagesRead', readBy: username });
+      res.status(200).json(populatedChat);
+    } catch (err) {
+      res.status(500).send(`Error marking chat as read: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Adds a user to a group chat. Only admins of the chat can add participants.
+   * @param req The request object containing the username of the user to add.
    * @param res The response object to send the result.
    * @returns {Promise<void>} A promise that resolves when the participant is added.
    * @throws {Error} Throws an error if the participant addition fails.
    */
   const addParticipantToChatRoute = async (
-    req: AddParticipantRequest,
+    req: ParticipantRequest,
     res: Response,
   ): Promise<void> => {
-    if (!isAddParticipantRequestValid(req)) {
+    if (!isParticipantRequestValid(req)) {
       res.status(400).send('Invalid request body');
       return;
     }
     try {
-      const result = await addParticipantToChat(req.params.chatId, req.body.userId);
+      const actor = req.user!.username;
+      const { username } = req.body;
+      const chat = await getGroupChatOfUser(req, res);
+      if (!chat) {
+        return;
+      }
+      if (!isChatAdmin(chat, actor)) {
+        sendForbidden(res, 'only admins can add participants');
+        return;
+      }
+      if (chat.participants.includes(username)) {
+        res.status(400).send('User is already a participant');
+        return;
+      }
+
+      const result = await addParticipantToChat(req.params.chatId, username);
       if ('error' in result) {
         throw new Error(result.error);
       }
 
-      res.status(200).json(result);
+      const updatedChat = await recordChatChange(
+        req.params.chatId,
+        actor,
+        `${actor} added ${username}`,
+        'participantAdded',
+      );
+      res.status(200).json(updatedChat);
     } catch (err) {
       res.status(500).send(`Error adding participant to chat: ${(err as Error).message}`);
     }
   };
 
+  /**
+   * Removes a participant from a group chat. Admins can remove participants, but only the owner
+   * can remove other admins, and the owner cannot be removed.
+   * @param req The request object containing the username of the participant to remove.
+   * @param res The response object to send the result.
+   * @returns {Promise<void>} A promise that resolves when the participant is removed.
+   * @throws {Error} Throws an error if the participant removal fails.
+   */
+  const removeParticipantRoute = async (req: ParticipantRequest, res: Response): Promise<void> => {
+    if (!isParticipantRequestValid(req)) {
+      res.status(400).send('Invalid request body');
+      return;
+    }
+    try {
+      const actor = req.user!.username;
+      const { username } = req.body;
+      const chat = await getGroupChatOfUser(req, res);
+      if (!chat) {
+        return;
+      }
+      if (!isChatAdmin(chat, actor)) {
+        sendForbidden(res, 'only admins can remove participants');
+        return;
+      }
+      if (!chat.participants.includes(username) || username === actor) {
+        res.status(400).send('Only other participants can be removed');
+        return;
+      }
+      if (username === chat.owner || (isChatAdmin(chat, username) && actor !== chat.owner)) {
+        sendForbidden(res, 'only the owner can remove admins, and the owner cannot be removed');
+        return;
+      }
+
+      const result = await removeParticipantFromChat(req.params.chatId, username);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      const updatedChat = await recordChatChange(
+        req.params.chatId,
+        actor,
+        `${actor} removed ${username}`,
+        'participantRemoved',
+        username,
+      );
+      res.status(200).json(updatedChat);
+    } catch (err) {
+      res.status(500).send(`Error removing participant from chat: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Removes the authenticated user from a group chat. The owner has to transfer the ownership of
+   * the chat before leaving it.
+   * @param req The request object containing the chat ID.
+   * @param res The response object to send the result.
+   * @returns {Promise<void>} A promise that resolves when the user has left the chat.
+   * @throws {Error} Throws an error if leaving the chat fails.
+   */
+  const leaveChatRoute = async (req: ChatIdRequest, res: Response): Promise<void> => {
+    try {
+      const { username } = req.user!;
+      const chat = await getGroupChatOfUser(req, res);
+      if (!chat) {
+        return;
+      }
+      if (chat.owner === username) {
+        res.status(400).send('The owner must transfer ownership before leaving the chat');
+        return;
+      }
+
+      const result = await removeParticipantFromChat(req.params.chatId, username);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      await recordChatChange(
+        req.params.chatId,
+        username,
+        `${username} left the chat`,
+        'participantRemoved',
+        username,
+      );
+      res.status(200).json({ chatId: req.params.chatId });
+    } catch (err) {
+      res.status(500).send(`Error leaving chat: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Renames a group chat. Only admins of the chat can rename it.
+   * @param req The request object containing the new name of the chat.
+   * @param res The response object to send the result.
+   * @returns {Promise<void>} A promise that resolves when the chat is renamed.
+   * @throws {Error} Throws an error if the chat cannot be renamed.
+   */
+  const renameChatRoute = async (req: RenameChatRequest, res: Response): Promise<void> => {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (name === '') {
+      res.status(400).send('Invalid request body');
+      return;
+    }
+    try {
+      const actor = req.user!.username;
+      const chat = await getGroupChatOfUser(req, res);
+      if (!chat) {
+        return;
+      }
+      if (!isChatAdmin(chat, actor)) {
+        sendForbidden(res, 'only admins can rename the chat');
+        return;
+      }
+
+      const result = await renameChat(req.params.chatId, name);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      const updatedChat = await recordChatChange(
+        req.params.chatId,
+        actor,
+        `${actor} renamed the chat to "${name}"`,
+        'renamed',
+      );
+      res.status(200).json(updatedChat);
+    } catch (err) {
+      res.status(500).send(`Error renaming chat: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Transfers the ownership of a group chat to another participant. Only the owner can do so, and
+   * stays an admin of the chat.
+   * @param req The request object containing the username of the new owner.
+   * @param res The response object to send the result.
+   * @returns {Promise<void>} A promise that resolves when the ownership is transferred.
+   * @throws {Error} Throws an error if the ownership cannot be transferred.
+   */
+  const transferOwnershipRoute = async (req: ParticipantRequest, res: Response): Promise<void> => {
+    if (!isParticipantRequestValid(req)) {
+      res.status(400).send('Invalid request body');
+      return;
+    }
+    try {
+      const actor = req.user!.username;
+      const { username } = req.body;
+      const chat = await getGroupChatOfUser(req, res);
+      if (!chat) {
+        return;
+      }
+      if (chat.owner !== actor) {
+        sendForbidden(res, 'only the owner can transfer ownership');
+        return;
+      }
+      if (!chat.participants.includes(username) || username === actor) {
+        res.status(400).send('Ownership can only be transferred to another participant');
+        return;
+      }
+
+      const result = await transferChatOwnership(req.params.chatId, username);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      const updatedChat = await recordChatChange(
+        req.params.chatId,
+        actor,
+        `${actor} made ${username} the owner`,
+        'rolesChanged',
+      );
+      res.status(200).json(updatedChat);
+    } catch (err) {
+      res.status(500).send(`Error transferring chat ownership: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Makes a participant of a group chat an admin, or removes them as one. Only the owner can
+   * change who the admins are.
+   * @param req The request object containing the username of the participant and whether they should be an admin.
+   * @param res The response object to send the result.
+   * @returns {Promise<void>} A promise that resolves when the admins are updated.
+   * @throws {Error} Throws an error if the admins cannot be updated.
+   */
+  const setAdminRoute = async (req: SetChatAdminRequest, res: Response): Promise<void> => {
+    if (!isParticipantRequestValid(req) || typeof req.body.admin !== 'boolean') {
+      res.status(400).send('Invalid request body');
+      return;
+    }
+    try {
+      const actor = req.user!.username;
+      const { username, admin } = req.body;
+      const chat = await getGroupChatOfUser(req, res);
+      if (!chat) {
+        return;
+      }
+      if (chat.owner !== actor) {
+        sendForbidden(res, 'only the owner can change the admins');
+        return;
+      }
+      if (!chat.participants.includes(username) || username === actor) {
+        res.status(400).send('Only other participants can be made admins');
+        return;
+      }
+
+      const result = await setChatAdmin(req.params.chatId, username, admin);
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      const updatedChat = await recordChatChange(
+        req.params.chatId,
+        actor,
+        admin ? `${actor} made ${username} an admin` : `${actor} removed ${username} as an admin`,
+        'rolesChanged',
+      );
+      res.status(200).json(updatedChat);
+    } catch (err) {
+      res.status(500).send(`Error updating chat admins: ${(err as Error).message}`);
+    }
+  };
+
+  // Connections viewing a chat join its room, to receive the typing updates of its participants.
+  // Only participants can join, and only connections in the room can send typing updates.
   socket.on('connection', conn => {
-    conn.on('joinChat', (chatId: string) => {
-      conn.join(chatId);
+    conn.on('joinChat', async (chatId: string) => {
+      const chat = await getChat(chatId);
+      if (!('error' in chat) && chat.participants.includes(conn.data.username)) {
+        conn.join(getChatRoom(chatId));
+      }
+    });
+
+    conn.on('leaveChat', (chatId: string) => {
+      conn.leave(getChatRoom(chatId));
     });
-    conn.on('leaveChat', (chatId: string | undefined) => {
-      if (chatId !== undefined) {
-        conn.leave(chatId);
+
+    conn.on('typing', (chatId: string) => {
+      if (conn.rooms.has(getChatRoom(chatId))) {
+        emitter.typingUpdate({ chatId, username: conn.data.username, typing: true });
+      }
+    });
+
+    conn.on('stopTyping', (chatId: string) => {
+      if (conn.rooms.has(getChatRoom(chatId))) {
+        emitter.typingUpdate({ chatId, username: conn.data.username, typing: false });
       }
     });
   });
@@ -243,7 +882,16 @@ const chatController = (socket: FakeSOSocket) => {
   router.post('/:chatId/addMessage', addMessageToChatRoute);
   router.get('/:chatId', getChatRoute);
   router.post('/:chatId/addParticipant', addParticipantToChatRoute);
+  router.post('/:chatId/removeParticipant', removeParticipantRoute);
+  router.post('/:chatId/leave', leaveChatRoute);
+  router.post('/:chatId/rename', renameChatRoute);
+  router.post('/:chatId/transferOwnership', transferOwnershipRoute);
+  router.post('/:chatId/setAdmin', setAdminRoute);
   router.get('/getChatsByUser/:username', getChatsByUserRoute);
+  router.get('/:chatId/messages', getChatMessagesRoute);
+  router.post('/:chatId/markRead', markChatReadRoute);
+  router.patch('/:chatId/editMessage', editChatMessageRoute);
+  router.post('/:chatId/deleteMessage', deleteChatMessageRoute);
 
   return router;
 };
@@ -0,0 +1,305 @@
+import express, { Request, Response, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import {
+  CloseVoteRequest,
+  FakeSOSocket,
+  QuestionResponse,
+  QuestionStatusRequest,
+} from '../types/types';
+import {
+  CLOSE_REASONS,
+  CLOSE_VOTE_REPUTATION,
+  retractCloseVote,
+  retractReopenVote,
+  setQuestionLocked,
+  voteToClose,
+  voteToReopen,
+} from '../services/closure.service';
+import { getUserByUsername } from '../services/user.service';
+import { populateDocument } from '../utils/database.util';
+import { hasRole } from '../utils/authorization.util';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { createEmitter } from '../utils/emitter.util';
+
+/**
+ * Express controller for the lifecycle of questions: voting to close them, including as
+ * duplicates of another question, voting to reopen them, and locking them.
+ * @param socket The socket instance used to emit the questions whose status or votes changed.
+ * @returns An Express router with endpoints for question status actions.
+ */
+const closureController = (socket: FakeSOSocket) => {
+  const router: Router = express.Router();
+  const emitter = createEmitter(socket);
+
+  /**
+   * Checks whether the authenticated user has enough reputation to vote to close or reopen
+   * questions, and sends a 403 response if they do not.
+   *
+   * @param req The HTTP request object of the authenticated user.
+   * @param res The HTTP response object used to send back the refusal.
+   *
+   * @returns `true` if the user can vote, otherwise `false`.
+   */
+  const checkVoteReputation = async (req: Request, res: Response): Promise<boolean> => {
+    const user = await getUserByUsername(req.user!.username);
+
+    if ('error' in user) {
+      throw new Error(user.error);
+    }
+
+    if ((user.reputation ?? 0) < CLOSE_VOTE_REPUTATION) {
+      sendForbidden(res, `voting to close or reopen requires ${CLOSE_VOTE_REPUTATION} reputation`);
+      return false;
+    }
+
+    return true;
+  };
+
+  /**
+   * Sends the updated question to the client and the other viewers of the question, or the
+   * matching HTTP response if the status change failed.
+   *
+   * @param qid The ID of the question.
+   * @param status The result of the status change.
+   * @param res The HTTP response object used to send back the question.
+   * @param unexpectedError The error of the status change when something unexpected went wrong.
+   */
+  const sendStatusResult = async (
+    qid: string,
+    status: QuestionResponse,
+    res: Response,
+    unexpectedError: string,
+  ): Promise<void> => {
+    if ('error' in status) {
+      if (status.error === 'Question not found' || status.error === 'Original question not found') {
+        res.status(404).send(status.error);
+        return;
+      }
+      if (status.error !== unexpectedError) {
+        res.status(400).send(status.error);
+        return;
+      }
+      throw new Error(status.error);
+    }
+
+    const question = (await populateDocument(qid, 'question')) as QuestionResponse;
+
+    if ('error' in question) {
+      throw new Error(question.error);
+    }
+
+    emitter.questionUpdate(question);
+    res.json(question);
+  };
+
+  /**
+   * Votes to close a question for a reason, or as a duplicate of another question. Users need
+   * enough reputation to vote. The vote of a moderator closes the question at once, as does the
+   * vote of the asker to close their question as a duplicate.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The CloseVoteRequest object containing the question ID, reason and original question.
+   * @param res The HTTP response object used to send back the question with the vote.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const voteCloseRoute = async (req: CloseVoteRequest, res: Response): Promise<void> => {
+    const { qid, reason, duplicateOf } = req.body ?? {};
+
+    if (
+      !qid ||
+      !ObjectId.isValid(qid) ||
+      !CLOSE_REASONS.includes(reason) ||
+      (reason === 'duplicate' ? !duplicateOf || !ObjectId.isValid(duplicateOf) : !!duplicateOf)
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { username } = req.user!;
+
+    try {
+      const question = (await populateDocument(qid, 'question')) as QuestionResponse;
+
+      if ('error' in question) {
+        throw new Error(question.error);
+      }
+
+      const binding =
+        hasRole(req.user!, 'moderator') ||
+        (reason === 'duplicate' && question.askedBy === username);
+
+      if (!binding && !(await checkVoteReputation(req, res))) {
+        return;
+      }
+
+      const status = await voteToClose(qid, username, reason, duplicateOf, binding);
+      await sendStatusResult(qid, status, res, 'Error when voting to close the question');
+    } catch (err) {
+      res.status(500).send(`Error when voting to close question: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retracts the vote of the authenticated user to close a question, while it is still open.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The QuestionStatusRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the question without the vote.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const retractCloseVoteRoute = async (
+    req: QuestionStatusRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { qid } = req.body ?? {};
+
+    if (!qid || !ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const status = await retractCloseVote(qid, req.user!.username);
+      await sendStatusResult(qid, status, res, 'Error when retracting the vote');
+    } catch (err) {
+      res.status(500).send(`Error when retracting vote: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Votes to reopen a closed question. Users need enough reputation to vote, and the vote of a
+   * moderator reopens the question at once.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The QuestionStatusRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the question with the vote.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const voteReopenRoute = async (req: QuestionStatusRequest, res: Response): Promise<void> => {
+    const { qid } = req.body ?? {};
+
+    if (!qid || !ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const binding = hasRole(req.user!, 'moderator');
+
+      if (!binding && !(await checkVoteReputation(req, res))) {
+        return;
+      }
+
+      const status = await voteToReopen(qid, req.user!.username, binding);
+      await sendStatusResult(qid, status, res, 'Error when voting to reopen the question');
+    } catch (err) {
+      res.status(500).send(`Error when voting to reopen question: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retracts the vote of the authenticated user to reopen a question, while it is still closed.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The QuestionStatusRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the question without the vote.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const retractReopenVoteRoute = async (
+    req: QuestionStatusRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { qid } = req.body ?? {};
+
+    if (!qid || !ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const status = await retractReopenVote(qid, req.user!.username);
+      await sendStatusResult(qid, status, res, 'Error when retracting the vote');
+    } catch (err) {
+      res.status(500).send(`Error when retracting vote: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Helper function to lock a question, or unlock it. Only moderators can lock questions.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The QuestionStatusRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the updated question.
+   * @param locked Whether the question should be locked or unlocked.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const changeQuestionLock = async (
+    req: QuestionStatusRequest,
+    res: Response,
+    locked: boolean,
+  ): Promise<void> => {
+    const { qid } = req.body ?? {};
+
+    if (!qid || !ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasRole(req.user!, 'moderator')) {
+      sendForbidden(res, `only moderators can ${locked ? 'lock' : 'unlock'} questions`);
+      return;
+    }
+
+    try {
+      const status = await setQuestionLocked(qid, locked);
+      await sendStatusResult(
+        qid,
+        status,
+        res,
+        `Error when ${locked ? 'locking' : 'unlocking'} the question`,
+      );
+    } catch (err) {
+      res
+        .status(500)
+        .send(`Error when ${locked ? 'locking' : 'unlocking'} question: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Locks a question, so that it can no longer be answered, commented on or voted to close.
+   *
+   * @param req The QuestionStatusRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the locked question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const lockQuestionRoute = async (req: QuestionStatusRequest, res: Response): Promise<void> =>
+    changeQuestionLock(req, res, true);
+
+  /**
+   * Unlocks a locked question, putting it back the way it was before it was locked.
+   *
+   * @param req The QuestionStatusRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the unlocked question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const unlockQuestionRoute = async (req: QuestionStatusRequest, res: Response): Promise<void> =>
+    changeQuestionLock(req, res, false);
+
+  router.post('/voteClose', voteCloseRoute);
+  router.post('/retractCloseVote', retractCloseVoteRoute);
+  router.post('/voteReopen', voteReopenRoute);
+  router.post('/retractReopenVote', retractReopenVoteRoute);
+  router.post('/lockQuestion', lockQuestionRoute);
+  router.post('/unlockQuestion', unlockQuestionRoute);
+
+  return router;
+};
+
+export default closureController;
@@ -0,0 +1,346 @@
+import express, { Request, Response, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import {
+  CollectionIdRequest,
+  CollectionQuestionRequest,
+  CollectionUpdate,
+  CreateCollectionRequest,
+  UpdateCollectionRequest,
+  UserCollectionsRequest,
+} from '../types/types';
+import {
+  deleteCollection,
+  getCollectionById,
+  getCollectionsByOwner,
+  saveCollection,
+  setCollectionQuestion,
+  updateCollection,
+} from '../services/collection.service';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { canModify, canViewCollection } from '../utils/authorization.util';
+
+/**
+ * Express controller for the named collections of questions users put together, including
+ * creating, sharing and deleting them, and adding questions to them.
+ * @returns An Express router with endpoints for collection actions.
+ */
+const collectionController = () => {
+  const router: Router = express.Router();
+
+  /**
+   * Checks whether the optional details of a collection in a request body have the expected types.
+   *
+   * @param update The details to check.
+   *
+   * @returns `true` if the details are valid, otherwise `false`.
+   */
+  const isValidUpdate = (update: CollectionUpdate): boolean =>
+    (update.name === undefined || (typeof update.name === 'string' && !!update.name.trim())) &&
+    (update.description === undefined || typeof update.description === 'string') &&
+    (update.shared === undefined || typeof update.shared === 'boolean');
+
+  /**
+   * Helper function to check that a collection exists and that the authenticated user may change
+   * it, which only its owner and admins can do.
+   * If the collection cannot be changed, the appropriate HTTP response status and message are sent.
+   *
+   * @param id The ID of the collection.
+   * @param req The HTTP request object of the authenticated user.
+   * @param res The HTTP response object used to send back the reason the collection cannot be changed.
+   *
+   * @returns A Promise that resolves to `true` if the collection can be changed, otherwise `false`.
+   */
+  const authorizeCollectionChange = async (
+    id: string,
+    req: Request,
+    res: Response,
+  ): Promise<boolean> => {
+    const collection = await getCollectionById(id);
+
+    if ('error' in collection) {
+      if (collection.error === 'Collection not found') {
+        res.status(404).send(collection.error);
+        return false;
+      }
+      throw new Error(collection.error);
+    }
+
+    if (!canModify(req.user!, collection.owner, 'admin')) {
+      sendForbidden(res, 'only the owner of the collection can change it');
+      return false;
+    }
+
+    return true;
+  };
+
+  /**
+   * Creates a collection owned by the authenticated user.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The CreateCollectionRequest object containing the name, description and sharing of the collection.
+   * @param res The HTTP response object used to send back the created collection.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const createCollectionRoute = async (
+    req: CreateCollectionRequest,
+    res: Response,
+  ): Promise<void> => {
+    if (!req.body || !req.body.name || !isValidUpdate(req.body)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { name, description, shared } = req.body;
+
+    try {
+      const collection = await saveCollection({
+        name: name.trim(),
+        description: description?.trim() ?? '',
+        owner: req.user!.username,
+        questions: [],
+        shared: shared ?? false,
+      });
+
+      if ('error' in collection) {
+        throw new Error(collection.error);
+      }
+
+      res.json(collection);
+    } catch (err) {
+      res.status(500).send(`Error when creating collection: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves a collection by its ID. Private collections can only be viewed by their owner and admins.
+   * If the collection cannot be viewed or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The CollectionIdRequest object containing the collection ID as a parameter.
+   * @param res The HTTP response object used to send back the collection.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getCollectionRoute = async (req: CollectionIdRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const collection = await getCollectionById(id);
+
+      if ('error' in collection) {
+        if (collection.error === 'Collection not found') {
+          res.status(404).send(collection.error);
+          return;
+        }
+        throw new Error(collection.error);
+      }
+
+      if (!canViewCollection(req.user!, collection)) {
+        sendForbidden(res, 'the collection is private');
+        return;
+      }
+
+      res.json(collection);
+    } catch (err) {
+      res.status(500).send(`Error when fetching collection: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves the collections of a user. Other users only see the collections the user shares.
+   * If an error occurs, the HTTP response status is updated.
+   *
+   * @param req The UserCollectionsRequest object containing the username as a parameter.
+   * @param res The HTTP response object used to send back the collections.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getCollectionsByUserRoute = async (
+    req: UserCollectionsRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { username } = req.params;
+
+    try {
+      const collections = await getCollectionsByOwner(
+        username,
+        !canModify(req.user!, username, 'admin'),
+      );
+
+      if ('error' in collections) {
+        throw new Error(collections.error);
+      }
+
+      res.json(collections);
+    } catch (err) {
+      res.status(500).send(`Error when fetching collections: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Updates the name, description or sharing of a collection. Only the owner of the collection
+   * or an admin can update it.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The UpdateCollectionRequest object containing the collection ID and the details to change.
+   * @param res The HTTP response object used to send back the updated collection.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const updateCollectionRoute = async (
+    req: UpdateCollectionRequest,
+    res: Response,
+  ): Promise<void> => {
+    if (!req.body || !req.body.id || !ObjectId.isValid(req.body.id) || !isValidUpdate(req.body)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { id, name, description, shared } = req.body;
+
+    try {
+      if (!(await authorizeCollectionChange(id, req, res))) {
+        return;
+      }
+
+      const collection = await updateCollection(id, {
+        ...(name !== undefined ? { name: name.trim() } : {}),
+        ...(description !== undefined ? { description: description.trim() } : {}),
+        ...(shared !== undefined ? { shared } : {}),
+      });
+
+      if ('error' in collection) {
+        throw new Error(collection.error);
+      }
+
+      res.json(collection);
+    } catch (err) {
+      res.status(500).send(`Error when updating collection: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Helper function to add a question to a collection or remove it. Only the owner of the
+   * collection or an admin can change its questions.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The CollectionQuestionRequest object containing the collection and question IDs.
+   * @param res The HTTP response object used to send back the updated collection.
+   * @param included Whether the question should be in the collection.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const changeCollectionQuestion = async (
+    req: CollectionQuestionRequest,
+    res: Response,
+    included: boolean,
+  ): Promise<void> => {
+    if (
+      !req.body ||
+      !req.body.id ||
+      !req.body.qid ||
+      !ObjectId.isValid(req.body.id) ||
+      !ObjectId.isValid(req.body.qid)
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { id, qid } = req.body;
+
+    try {
+      if (!(await authorizeCollectionChange(id, req, res))) {
+        return;
+      }
+
+      const collection = await setCollectionQuestion(id, qid, included);
+
+      if ('error' in collection) {
+        if (collection.error === 'Question not found') {
+          res.status(404).send(collection.error);
+          return;
+        }
+        throw new Error(collection.error);
+      }
+
+      res.json(collection);
+    } catch (err) {
+      res.status(500).send(`Error when updating collection: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Adds a question to a collection.
+   *
+   * @param req The CollectionQuestionRequest object containing the collection and question IDs.
+   * @param res The HTTP response object used to send back the updated collection.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const addQuestionRoute = async (req: CollectionQuestionRequest, res: Response): Promise<void> =>
+    changeCollectionQuestion(req, res, true);
+
+  /**
+   * Removes a question from a collection.
+   *
+   * @param req The CollectionQuestionRequest object containing the collection and question IDs.
+   * @param res The HTTP response object used to send back the updated collection.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const removeQuestionRoute = async (
+    req: CollectionQuestionRequest,
+    res: Response,
+  ): Promise<void> => changeCollectionQuestion(req, res, false);
+
+  /**
+   * Deletes a collection. Only the owner of the collection or an admin can delete it.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The CollectionIdRequest object containing the collection ID as a parameter.
+   * @param res The HTTP response object used to send back the deleted collection.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteCollectionRoute = async (req: CollectionIdRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      if (!(await authorizeCollectionChange(id, req, res))) {
+        return;
+      }
+
+      const collection = await deleteCollection(id);
+
+      if ('error' in collection) {
+        throw new Error(collection.error);
+      }
+
+      res.json(collection);
+    } catch (err) {
+      res.status(500).send(`Error when deleting collection: ${(err as Error).message}`);
+    }
+  };
+
+  router.post('/createCollection', createCollectionRoute);
+  router.get('/getCollection/:id', getCollectionRoute);
+  router.get('/getCollectionsByUser/:username', getCollectionsByUserRoute);
+  router.patch('/updateCollection', updateCollectionRoute);
+  router.post('/addQuestion', addQuestionRoute);
+  router.post('/removeQuestion', removeQuestionRoute);
+  router.delete('/deleteCollection/:id', deleteCollectionRoute);
+
+  return router;
+};
+
+export default collectionController;
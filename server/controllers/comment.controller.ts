@@ -1,11 +1,28 @@
 import express, { Response } from 'express';
 import { ObjectId } from 'mongodb';
-import { Comment, AddCommentRequest, FakeSOSocket } from '../types/types';
-import { addComment, saveComment } from '../services/comment.service';
+import {
+  Comment,
+  AddCommentRequest,
+  CommentDeletionRequest,
+  CommentResponse,
+  FakeSOSocket,
+} from '../types/types';
+import {
+  addComment,
+  getCommentById,
+  saveComment,
+  setCommentDeleted,
+} from '../services/comment.service';
+import { getQuestionStatus } from '../services/closure.service';
 import { populateDocument } from '../utils/database.util';
+import { canModify, canRestore } from '../utils/authorization.util';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { sendAuthorNotification } from '../utils/notification.util';
+import { createEmitter } from '../utils/emitter.util';
 
 const commentController = (socket: FakeSOSocket) => {
   const router = express.Router();
+  const emitter = createEmitter(socket);
 
   /**
    * Checks if the provided answer request contains the required fields.
@@ -20,7 +37,6 @@ const commentController = (socket: FakeSOSocket) => {
     (req.body.type === 'question' || req.body.type === 'answer') &&
     !!req.body.comment &&
     req.body.comment.text !== undefined &&
-    req.body.comment.commentBy !== undefined &&
     req.body.comment.commentDateTime !== undefined;
 
   /**
@@ -39,7 +55,9 @@ const commentController = (socket: FakeSOSocket) => {
     comment.commentDateTime !== null;
 
   /**
-   * Handles adding a new comment to the specified question or answer. The comment is first validated and then saved.
+   * Handles adding a new comment by the authenticated user to the specified question or answer.
+   * The comment is first validated and then saved, and the author of the commented item is notified.
+   * Questions that are closed or locked, and their answers, cannot be commented on.
    * If the comment is invalid or saving fails, the HTTP response status is updated.
    *
    * @param req The AddCommentRequest object containing the comment data.
@@ -61,7 +79,8 @@ const commentController = (socket: FakeSOSocket) => {
       return;
     }
 
-    const { comment, type } = req.body;
+    const { type } = req.body;
+    const comment: Comment = { ...req.body.comment, commentBy: req.user!.username };
 
     if (!isCommentValid(comment)) {
       res.status(400).send('Invalid comment body');
@@ -69,6 +88,24 @@ const commentController = (socket: FakeSOSocket) => {
     }
 
     try {
+      const questionStatus = await getQuestionStatus(id, type);
+
+      if (typeof questionStatus !== 'string') {
+        if (
+          questionStatus.error === 'Question not found' ||
+          questionStatus.error === 'Answer not found'
+        ) {
+          res.status(404).send(questionStatus.error);
+          return;
+        }
+        throw new Error(questionStatus.error);
+      }
+
+      if (questionStatus !== 'open') {
+        sendForbidden(res, `the question is ${questionStatus}`);
+        return;
+      }
+
       const comFromDb = await saveComment(comment);
 
       if ('error' in comFromDb) {
@@ -89,17 +126,129 @@ const commentController = (socket: FakeSOSocket) => {
         throw new Error(populatedDoc.error);
       }
 
-      socket.emit('commentUpdate', {
+      emitter.commentUpdate({
         result: populatedDoc,
         type,
       });
+      await sendAuthorNotification(emitter, id, type, 'comment', comment.commentBy);
       res.json(comFromDb);
     } catch (err: unknown) {
       res.status(500).send(`Error when adding comment: ${(err as Error).message}`);
     }
   };
 
+  /**
+   * Helper function to soft delete a comment, or restore it. Comments can be deleted by their
+   * author or a moderator, and restored by a moderator or by the author if they deleted it.
+   * The question or answer the comment belongs to is emitted without the deleted comment.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The CommentDeletionRequest object containing the comment and commented item IDs.
+   * @param res The HTTP response object used to send back the updated comment.
+   * @param deleted Whether the comment should be deleted or restored.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const changeCommentDeletion = async (
+    req: CommentDeletionRequest,
+    res: Response,
+    deleted: boolean,
+  ): Promise<void> => {
+    const { id, type, cid } = req.body;
+
+    if (
+      !id ||
+      !cid ||
+      (type !== 'question' && type !== 'answer') ||
+      !ObjectId.isValid(id) ||
+      !ObjectId.isValid(cid)
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const comment: CommentResponse = await getCommentById(cid);
+
+      if ('error' in comment) {
+        throw new Error(comment.error);
+      }
+
+      const allowed = deleted
+        ? canModify(req.user!, comment.commentBy, 'moderator')
+        : canRestore(req.user!, comment.commentBy, comment.deletedBy);
+
+      if (!allowed) {
+        sendForbidden(
+          res,
+          deleted
+            ? 'only the author of the comment or a moderator can delete it'
+            : 'only a moderator or the user who deleted the comment can restore it',
+        );
+        return;
+      }
+
+      if (!!comment.deletedAt === deleted) {
+        res.status(400).send(deleted ? 'Comment is already deleted' : 'Comment is not deleted');
+        return;
+      }
+
+      const status = await setCommentDeleted(cid, deleted ? req.user!.username : null);
+
+      if ('error' in status) {
+        throw new Error(status.error);
+      }
+
+      const populatedDoc = await populateDocument(id, type);
+
+      if (populatedDoc && 'error' in populatedDoc) {
+        throw new Error(populatedDoc.error);
+      }
+
+      emitter.commentUpdate({
+        result: populatedDoc,
+        type,
+      });
+      res.json(status);
+    } catch (err: unknown) {
+      res
+        .status(500)
+        .send(
+          `Error when ${deleted ? 'deleting' : 'restoring'} comment: ${(err as Error).message}`,
+        );
+    }
+  };
+
+  /**
+   * Handles soft deleting a comment.
+   *
+   * @param req The CommentDeletionRequest object containing the comment and commented item IDs.
+   * @param res The HTTP response object used to send back the deleted comment.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteCommentRoute = async (req: CommentDeletionRequest, res: Response): Promise<void> => {
+    await changeCommentDeletion(req, res, true);
+  };
+
+  /**
+   * Handles restoring a soft deleted comment.
+   *
+   * @param req The CommentDeletionRequest object containing the comment and commented item IDs.
+   * @param res The HTTP response object used to send back the restored comment.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const undeleteCommentRoute = async (
+    req: CommentDeletionRequest,
+    res: Response,
+  ): Promise<void> => {
+    await changeCommentDeletion(req, res, false);
+  };
+
   router.post('/addComment', addCommentRoute);
+  router.post('/deleteComment', deleteCommentRoute);
+  router.post('/undeleteComment', undeleteCommentRoute);
 
   return router;
 };
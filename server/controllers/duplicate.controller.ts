@@ -0,0 +1,59 @@
+import express, { Response, Router } from 'express';
+import { ObjectId } from 'mongodb';
+import { SimilarQuestionsRequest } from '../types/types';
+import { getSimilarQuestions } from '../services/duplicate.service';
+
+/**
+ * Express controller for finding the existing questions similar to a new one, so that users can
+ * find an answer before asking a duplicate.
+ * @returns An Express router with endpoints for duplicate detection.
+ */
+const duplicateController = () => {
+  const router: Router = express.Router();
+
+  /**
+   * Finds the existing questions most similar to a question being written, from its title, text
+   * and tags, so that the user can check them before asking.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The SimilarQuestionsRequest object containing the title, text and tags.
+   * @param res The HTTP response object used to send back the similar questions.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getSimilarQuestionsRoute = async (
+    req: SimilarQuestionsRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { title, text, tags, exclude } = req.query;
+
+    if (
+      typeof title !== 'string' ||
+      (text !== undefined && typeof text !== 'string') ||
+      (tags !== undefined && typeof tags !== 'string') ||
+      (exclude !== undefined && !ObjectId.isValid(exclude))
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const tagNames = tags ? tags.split(',').filter(t => t.length > 0) : [];
+      const questions = await getSimilarQuestions(title, text, tagNames, exclude);
+
+      if ('error' in questions) {
+        throw new Error(questions.error);
+      }
+
+      res.json(questions);
+    } catch (err) {
+      res.status(500).send(`Error when finding similar questions: ${(err as Error).message}`);
+    }
+  };
+
+  router.get('/getSimilarQuestions', getSimilarQuestionsRoute);
+
+  return router;
+};
+
+export default duplicateController;
@@ -4,6 +4,8 @@ import { CreateGameRequest, GameMovePayload, GameRequest, GetGamesRequest } from
 import { GAME_TYPES } from '../types/gameConstants';
 import findGames from '../services/game.service';
 import GameManager from '../services/games/gameManager';
+import { sendNotification } from '../utils/notification.util';
+import { createEmitter } from '../utils/emitter.util';
 
 /**
  * Express controller for handling game-related requests,
@@ -13,6 +15,7 @@ import GameManager from '../services/games/gameManager';
  */
 const gameController = (socket: FakeSOSocket) => {
   const router = express.Router();
+  const emitter = createEmitter(socket);
 
   /**
    * Validates the request for creating a game.
@@ -24,11 +27,10 @@ const gameController = (socket: FakeSOSocket) => {
 
   /**
    * Validates the request for game actions like joining or leaving the game.
-   * @param req The request object containing game ID and player ID.
+   * @param req The request object containing game ID.
    * @returns A boolean indicating whether the request is valid.
    */
-  const isGameRequestValid = (req: GameRequest) =>
-    !!req.body && !!req.body.gameID && !!req.body.playerID;
+  const isGameRequestValid = (req: GameRequest) => !!req.body && !!req.body.gameID;
 
   /**
    * Creates a new game based on the provided game type and responds with the created game or an error message.
@@ -57,8 +59,9 @@ const gameController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Joins a game with the specified game ID and player ID, and emits the updated game state.
-   * @param req The request object containing the game ID and player ID.
+   * Joins the authenticated user to the game with the specified game ID, emits the updated game state,
+   * and notifies the players who were already waiting in the game.
+   * @param req The request object containing the game ID.
    * @param res The response object to send the result.
    */
   const joinGame = async (req: GameRequest, res: Response) => {
@@ -68,7 +71,8 @@ const gameController = (socket: FakeSOSocket) => {
         return;
       }
 
-      const { gameID, playerID } = req.body;
+      const { gameID } = req.body;
+      const { username: playerID } = req.user!;
 
       const game = await GameManager.getInstance().joinGame(gameID, playerID);
 
@@ -76,7 +80,18 @@ const gameController = (socket: FakeSOSocket) => {
         throw new Error(game.error);
       }
 
-      socket.to(gameID).emit('gameUpdate', { gameState: game });
+      emitter.gameUpdate(gameID, { gameState: game });
+      await Promise.all(
+        game.players.map(player =>
+          sendNotification(emitter, {
+            recipient: player,
+            type: 'game',
+            actor: playerID,
+            text: game.gameType,
+            gameID,
+          }),
+        ),
+      );
       res.status(200).json(game);
     } catch (error) {
       res.status(500).send(`Error when joining game: ${(error as Error).message}`);
@@ -84,8 +99,8 @@ const gameController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Leaves the game with the specified game ID and player ID, and emits the updated game state.
-   * @param req The request object containing the game ID and player ID.
+   * Removes the authenticated user from the game with the specified game ID, and emits the updated game state.
+   * @param req The request object containing the game ID.
    * @param res The response object to send the result.
    */
   const leaveGame = async (req: GameRequest, res: Response) => {
@@ -95,7 +110,8 @@ const gameController = (socket: FakeSOSocket) => {
         return;
       }
 
-      const { gameID, playerID } = req.body;
+      const { gameID } = req.body;
+      const { username: playerID } = req.user!;
 
       const game = await GameManager.getInstance().leaveGame(gameID, playerID);
 
@@ -103,7 +119,7 @@ const gameController = (socket: FakeSOSocket) => {
         throw new Error(game.error);
       }
 
-      socket.to(gameID).emit('gameUpdate', { gameState: game });
+      emitter.gameUpdate(gameID, { gameState: game });
       res.status(200).json(game);
     } catch (error) {
       res.status(500).send(`Error when leaving game: ${(error as Error).message}`);
@@ -129,11 +145,14 @@ const gameController = (socket: FakeSOSocket) => {
 
   /**
    * Handles a game move by applying the move to the game state, emitting updates to all players, and saving the state.
+   * The move is attributed to the user who opened the connection, regardless of the player ID in the payload.
+   * @param playerID The username of the authenticated user making the move.
    * @param gameMove The payload containing the game ID and move details.
    * @throws Error if applying the move or saving the game state fails.
    */
-  const playMove = async (gameMove: GameMovePayload): Promise<void> => {
-    const { gameID, move } = gameMove;
+  const playMove = async (playerID: string, gameMove: GameMovePayload): Promise<void> => {
+    const { gameID } = gameMove;
+    const move = { ...gameMove.move, playerID };
 
     try {
       const game = GameManager.getInstance().getGame(gameID);
@@ -143,7 +162,7 @@ const gameController = (socket: FakeSOSocket) => {
       }
 
       game.applyMove(move);
-      socket.to(gameID).emit('gameUpdate', { gameState: game.toModel() });
+      emitter.gameUpdate(gameID, { gameState: game.toModel() });
 
       await game.saveGameState();
 
@@ -151,7 +170,7 @@ const gameController = (socket: FakeSOSocket) => {
         GameManager.getInstance().removeGame(gameID);
       }
     } catch (error) {
-      socket.to(gameID).emit('gameError', {
+      emitter.gameError(gameID, {
         player: move.playerID,
         error: (error as Error).message,
       });
@@ -167,7 +186,7 @@ const gameController = (socket: FakeSOSocket) => {
       conn.leave(gameID);
     });
 
-    conn.on('makeMove', playMove);
+    conn.on('makeMove', (gameMove: GameMovePayload) => playMove(conn.data.username, gameMove));
   });
 
   // Register routes
@@ -1,10 +1,25 @@
 import express, { Response, Request } from 'express';
+import { ObjectId } from 'mongodb';
 import { FakeSOSocket } from '../types/socket';
-import { AddMessageRequest, Message } from '../types/types';
-import { saveMessage, getMessages } from '../services/message.service';
+import {
+  AddMessageRequest,
+  DeleteMessageRequest,
+  EditMessageRequest,
+  Message,
+} from '../types/types';
+import {
+  saveMessage,
+  getMessages,
+  getMessage,
+  editMessage,
+  deleteMessage,
+} from '../services/message.service';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { createEmitter } from '../utils/emitter.util';
 
 const messageController = (socket: FakeSOSocket) => {
   const router = express.Router();
+  const emitter = createEmitter(socket);
 
   /**
    * Checks if the provided message request contains the required fields.
@@ -32,7 +47,7 @@ const messageController = (socket: FakeSOSocket) => {
     message.msgDateTime !== null;
 
   /**
-   * Handles adding a new message. The message is first validated and then saved.
+   * Handles adding a new message sent by the authenticated user. The message is first validated and then saved.
    * If the message is invalid or saving fails, the HTTP response status is updated.
    *
    * @param req The AddMessageRequest object containing the message and chat data.
@@ -46,7 +61,7 @@ const messageController = (socket: FakeSOSocket) => {
       return;
     }
 
-    const { messageToAdd: msg } = req.body;
+    const msg: Omit<Message, 'type'> = { ...req.body.messageToAdd, msgFrom: req.user!.username };
 
     if (!isMessageValid(msg)) {
       res.status(400).send('Invalid message body');
@@ -60,7 +75,7 @@ const messageController = (socket: FakeSOSocket) => {
         throw new Error(msgFromDb.error);
       }
 
-      socket.emit('messageUpdate', { msg: msgFromDb });
+      emitter.messageUpdate({ msg: msgFromDb, type: 'created' });
 
       res.json(msgFromDb);
     } catch (err: unknown) {
@@ -68,6 +83,116 @@ const messageController = (socket: FakeSOSocket) => {
     }
   };
 
+  /**
+   * Fetches the global message to edit or delete, and checks that the authenticated user can
+   * change it. Only the author of a message can change it, and deleted messages cannot be changed.
+   * If the message cannot be changed, the HTTP response status is updated.
+   *
+   * @param req The request object containing the ID of the message.
+   * @param res The HTTP response object.
+   *
+   * @returns A Promise that resolves to the message, or `null` if it cannot be changed.
+   * @throws {Error} Throws an error if the message cannot be fetched.
+   */
+  const getOwnMessage = async (
+    req: EditMessageRequest | DeleteMessageRequest,
+    res: Response,
+  ): Promise<Message | null> => {
+    const message = await getMessage(req.body.messageId);
+
+    if ('error' in message) {
+      throw new Error(message.error);
+    }
+
+    if (message.type !== 'global') {
+      res.status(400).send('Only global messages can be changed here');
+      return null;
+    }
+
+    if (message.deletedAt) {
+      res.status(400).send('The message was deleted');
+      return null;
+    }
+
+    if (message.msgFrom !== req.user!.username) {
+      sendForbidden(res, 'only the author of the message can change it');
+      return null;
+    }
+
+    return message;
+  };
+
+  /**
+   * Handles editing the text of a global message. Only its author can edit it.
+   *
+   * @param req The EditMessageRequest object containing the message ID and the new text.
+   * @param res The HTTP response object used to send back the edited message.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const editMessageRoute = async (req: EditMessageRequest, res: Response): Promise<void> => {
+    const { messageId, msg } = req.body;
+
+    if (!messageId || !ObjectId.isValid(messageId) || typeof msg !== 'string' || !msg.trim()) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      if (!(await getOwnMessage(req, res))) {
+        return;
+      }
+
+      const editedMessage = await editMessage(messageId, msg);
+
+      if ('error' in editedMessage) {
+        throw new Error(editedMessage.error);
+      }
+
+      emitter.messageUpdate({ msg: editedMessage, type: 'edited' });
+
+      res.json(editedMessage);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when editing a message: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Handles deleting a global message. Only its author can delete it. The message is kept
+   * without its text, so that clients show it as deleted.
+   *
+   * @param req The DeleteMessageRequest object containing the message ID.
+   * @param res The HTTP response object used to send back the deleted message.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteMessageRoute = async (req: DeleteMessageRequest, res: Response): Promise<void> => {
+    const { messageId } = req.body;
+
+    if (!messageId || !ObjectId.isValid(messageId)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      if (!(await getOwnMessage(req, res))) {
+        return;
+      }
+
+      const deletedMessage = await deleteMessage(messageId);
+
+      if ('error' in deletedMessage) {
+        throw new Error(deletedMessage.error);
+      }
+
+      emitter.messageUpdate({ msg: deletedMessage, type: 'deleted' });
+
+      res.json(deletedMessage);
+    } catch (err: unknown) {
+      res.status(500).send(`Error when deleting a message: ${(err as Error).message}`);
+    }
+  };
+
   /**
    * Fetch all global messages in ascending order of their date and time.
    * @param req The request object.
@@ -82,6 +207,8 @@ const messageController = (socket: FakeSOSocket) => {
   // Add appropriate HTTP verbs and their endpoints to the router
   router.post('/addMessage', addMessageRoute);
   router.get('/getMessages', getMessagesRoute);
+  router.patch('/editMessage', editMessageRoute);
+  router.post('/deleteMessage', deleteMessageRoute);
 
   return router;
 };
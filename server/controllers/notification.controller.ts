@@ -0,0 +1,142 @@
+import express, { Request, Response, Router } from 'express';
+import { FakeSOSocket, NotificationIdRequest } from '../types/types';
+import {
+  getNotifications,
+  markAllNotificationsRead,
+  setNotificationRead,
+} from '../services/notification.service';
+import { createEmitter } from '../utils/emitter.util';
+
+/**
+ * Express controller for the notifications of the authenticated user, including fetching them
+ * and marking them as read or unread.
+ * @param socket The socket instance used to keep the other connections of the user up to date.
+ * @returns An Express router with endpoints for notification actions.
+ */
+const notificationController = (socket: FakeSOSocket) => {
+  const router: Router = express.Router();
+  const emitter = createEmitter(socket);
+
+  /**
+   * Retrieves the most recent notifications of the authenticated user, along with the number of
+   * notifications they have not read yet.
+   * If an error occurs, the HTTP response status is updated.
+   *
+   * @param req The HTTP request object.
+   * @param res The HTTP response object used to send back the notifications.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getNotificationsRoute = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await getNotifications(req.user!.username);
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      res.json(result);
+    } catch (err) {
+      res.status(500).send(`Error when fetching notifications: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Helper function to mark a notification of the authenticated user as read or unread, and emit
+   * the updated notification to the user's other connections.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The NotificationIdRequest object containing the notification ID.
+   * @param res The HTTP response object used to send back the updated notification.
+   * @param read Whether the notification should be marked as read.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const changeNotificationRead = async (
+    req: NotificationIdRequest,
+    res: Response,
+    read: boolean,
+  ): Promise<void> => {
+    if (!req.body || !req.body.id) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    const { username } = req.user!;
+
+    try {
+      const notification = await setNotificationRead(req.body.id, username, read);
+
+      if ('error' in notification) {
+        if (notification.error === 'Notification not found') {
+          res.status(404).send(notification.error);
+          return;
+        }
+        throw new Error(notification.error);
+      }
+
+      emitter.notificationUpdate(username, { notification, type: 'updated' });
+      res.json(notification);
+    } catch (err) {
+      res.status(500).send(`Error when updating notification: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Marks a notification of the authenticated user as read.
+   *
+   * @param req The NotificationIdRequest object containing the notification ID.
+   * @param res The HTTP response object used to send back the updated notification.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const markReadRoute = async (req: NotificationIdRequest, res: Response): Promise<void> =>
+    changeNotificationRead(req, res, true);
+
+  /**
+   * Marks a notification of the authenticated user as unread.
+   *
+   * @param req The NotificationIdRequest object containing the notification ID.
+   * @param res The HTTP response object used to send back the updated notification.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const markUnreadRoute = async (req: NotificationIdRequest, res: Response): Promise<void> =>
+    changeNotificationRead(req, res, false);
+
+  /**
+   * Marks all the notifications of the authenticated user as read, and lets the user's other
+   * connections know.
+   * If an error occurs, the HTTP response status is updated.
+   *
+   * @param req The HTTP request object.
+   * @param res The HTTP response object used to send back the number of updated notifications.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const markAllReadRoute = async (req: Request, res: Response): Promise<void> => {
+    const { username } = req.user!;
+
+    try {
+      const result = await markAllNotificationsRead(username);
+
+      if (typeof result !== 'number') {
+        throw new Error(result.error);
+      }
+
+      emitter.notificationUpdate(username, { type: 'allRead' });
+      res.json({ updated: result });
+    } catch (err) {
+      res.status(500).send(`Error when updating notifications: ${(err as Error).message}`);
+    }
+  };
+
+  router.get('/getNotifications', getNotificationsRoute);
+  router.post('/markRead', markReadRoute);
+  router.post('/markUnread', markUnreadRoute);
+  router.post('/markAllRead', markAllReadRoute);
+
+  return router;
+};
+
+export default notificationController;
@@ -7,43 +7,150 @@ import {
   AddQuestionRequest,
   VoteRequest,
   FakeSOSocket,
+  AcceptAnswerRequest,
+  Answer,
+  QuestionResponse,
+  EditQuestionRequest,
+  RevisionHistoryRequest,
+  QuestionDeletionRequest,
+  BookmarkRequest,
 } from '../types/types';
 import {
   addVoteToQuestion,
+  editQuestion,
   fetchAndIncrementQuestionViewsById,
-  filterQuestionsByAskedBy,
-  filterQuestionsBySearch,
-  getQuestionsByOrder,
+  isQuestionBookmarked,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  getQuestionPage,
   saveQuestion,
+  setAcceptedAnswer,
+  setQuestionBookmarked,
+  setQuestionDeleted,
 } from '../services/question.service';
+import { getCollectionById } from '../services/collection.service';
+import { getRevisionHistory } from '../services/revision.service';
 import { processTags } from '../services/tag.service';
 import { populateDocument } from '../utils/database.util';
+import { parseSearchQuery } from '../utils/parse.util';
+import { canModify, canRestore, canViewCollection, hasRole } from '../utils/authorization.util';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { sendAuthorNotification } from '../utils/notification.util';
+import { createEmitter, getQuestionRoom, QUESTION_LIST_ROOM } from '../utils/emitter.util';
+import { awardBounty } from '../services/bounty.service';
+import { notifyBountyAward } from '../utils/bounty.util';
 
 const questionController = (socket: FakeSOSocket) => {
   const router = express.Router();
+  const emitter = createEmitter(socket);
 
   /**
-   * Retrieves a list of questions filtered by a search term and ordered by a specified criterion.
+   * Parses a page number or page size from the request query.
+   *
+   * @param value The query parameter, if it was provided.
+   * @param fallback The value to use when the query parameter was not provided.
+   *
+   * @returns The parsed positive integer, or `null` if the parameter is not a positive integer.
+   */
+  const parsePageParam = (value: string | undefined, fallback: number): number | null => {
+    if (value === undefined || value === '') {
+      return fallback;
+    }
+
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+  };
+
+  /**
+   * Retrieves a page of questions filtered by a search term and ordered by a specified criterion,
+   * along with the total number of matching questions.
    * If there is an error, the HTTP response's status is updated.
    *
-   * @param req The FindQuestionRequest object containing the query parameters `order` and `search`.
-   * @param res The HTTP response object used to send back the filtered list of questions.
+   * Moderators can ask for soft deleted questions to be included.
+   * A search string with invalid operators is rejected with a message explaining the problem.
+   * The list can be narrowed to the bookmarks of the user, or to the questions of a collection
+   * the user can view.
+   *
+   * @param req The FindQuestionRequest object containing the query parameters `order`, `search`,
+   *            `bookmarkedBy`, `collection`, `page` and `pageSize`.
+   * @param res The HTTP response object used to send back the page of questions.
    *
    * @returns A Promise that resolves to void.
    */
   const getQuestionsByFilter = async (req: FindQuestionRequest, res: Response): Promise<void> => {
     const { order } = req.query;
     const { search } = req.query;
-    const { askedBy } = req.query;
+    const { askedBy, bookmarkedBy, collection } = req.query;
+    const includeDeleted = req.query.includeDeleted === 'true';
+    const page = parsePageParam(req.query.page, 1);
+    const pageSize = parsePageParam(req.query.pageSize, DEFAULT_PAGE_SIZE);
+
+    if (
+      page === null ||
+      pageSize === null ||
+      pageSize > MAX_PAGE_SIZE ||
+      (collection !== undefined && !ObjectId.isValid(collection))
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (bookmarkedBy && !canModify(req.user!, bookmarkedBy, 'admin')) {
+      sendForbidden(res, 'only the user who bookmarked the questions can view them');
+      return;
+    }
+
+    if (includeDeleted && !hasRole(req.user!, 'moderator')) {
+      sendForbidden(res, 'only moderators can view deleted questions');
+      return;
+    }
+
+    const searchQuery = parseSearchQuery(search ?? '');
+
+    if ('error' in searchQuery) {
+      res.status(400).send(`Invalid search: ${searchQuery.error}`);
+      return;
+    }
+
     try {
-      let qlist: Question[] = await getQuestionsByOrder(order);
-      // Filter by askedBy if provided
-      if (askedBy) {
-        qlist = filterQuestionsByAskedBy(qlist, askedBy);
-      }
-      // Filter by search keyword and tags
-      const resqlist: Question[] = await filterQuestionsBySearch(qlist, search);
-      res.json(resqlist);
+      let questionIds: string[] | undefined;
+
+      if (collection) {
+        const found = await getCollectionById(collection);
+
+        if ('error' in found) {
+          if (found.error === 'Collection not found') {
+            res.status(404).send(found.error);
+            return;
+          }
+          throw new Error(found.error);
+        }
+
+        if (!canViewCollection(req.user!, found)) {
+          sendForbidden(res, 'the collection is private');
+          return;
+        }
+
+        questionIds = found.questions.map(id => id.toString());
+      }
+
+      const result = await getQuestionPage({
+        order,
+        search: searchQuery,
+        askedBy,
+        bookmarkedBy,
+        questionIds,
+        viewer: req.user!.username,
+        includeDeleted,
+        page,
+        pageSize,
+      });
+
+      if ('error' in result) {
+        throw new Error(result.error);
+      }
+
+      res.json(result);
     } catch (err: unknown) {
       if (err instanceof Error) {
         res.status(500).send(`Error when fetching questions by filter: ${err.message}`);
@@ -55,6 +162,8 @@ const questionController = (socket: FakeSOSocket) => {
 
   /**
    * Retrieves a question by its unique ID, and increments the view count for that question.
+   * The response says whether the user bookmarked the question, which is left out of the broadcast.
+   * Moderators can ask for soft deleted content to be included.
    * If there is an error, the HTTP response's status is updated.
    *
    * @param req The FindQuestionByIdRequest object containing the question ID as a parameter.
@@ -64,24 +173,25 @@ const questionController = (socket: FakeSOSocket) => {
    */
   const getQuestionById = async (req: FindQuestionByIdRequest, res: Response): Promise<void> => {
     const { qid } = req.params;
-    const { username } = req.query;
+    const { username } = req.user!;
+    const includeDeleted = req.query.includeDeleted === 'true';
 
     if (!ObjectId.isValid(qid)) {
       res.status(400).send('Invalid ID format');
       return;
     }
 
-    if (username === undefined) {
-      res.status(400).send('Invalid username requesting question.');
+    if (includeDeleted && !hasRole(req.user!, 'moderator')) {
+      sendForbidden(res, 'only moderators can view deleted content');
       return;
     }
 
     try {
-      const q = await fetchAndIncrementQuestionViewsById(qid, username);
+      const q = await fetchAndIncrementQuestionViewsById(qid, username, includeDeleted);
 
       if (q && !('error' in q)) {
-        socket.emit('viewsUpdate', q);
-        res.json(q);
+        emitter.viewsUpdate(q);
+        res.json({ ...q, bookmarked: await isQuestionBookmarked(qid, username) });
         return;
       }
 
@@ -115,8 +225,10 @@ const questionController = (socket: FakeSOSocket) => {
     question.askDateTime !== null;
 
   /**
-   * Adds a new question to the database. The question is first validated and then saved.
-   * If the tags are invalid or saving the question fails, the HTTP response status is updated.
+   * Adds a new question to the database, asked by the authenticated user. Only the content of the
+   * question is taken from the request: its votes, status and bounty start empty, and bounties are
+   * offered through the bounty route only. The question is first validated and then saved. If the tags are invalid or saving the question fails, the HTTP
+   * response status is updated.
    *
    * @param req The AddQuestionRequest object containing the question data.
    * @param res The HTTP response object used to send back the result of the operation.
@@ -124,11 +236,23 @@ const questionController = (socket: FakeSOSocket) => {
    * @returns A Promise that resolves to void.
    */
   const addQuestion = async (req: AddQuestionRequest, res: Response): Promise<void> => {
-    if (!isQuestionBodyValid(req.body)) {
+    const { title, text, tags, askDateTime } = req.body;
+    const question: Question = {
+      title,
+      text,
+      tags,
+      askedBy: req.user!.username,
+      askDateTime,
+      answers: [],
+      views: [],
+      upVotes: [],
+      downVotes: [],
+      comments: [],
+    };
+    if (!isQuestionBodyValid(question)) {
       res.status(400).send('Invalid question body');
       return;
     }
-    const question: Question = req.body;
     try {
       const questionswithtags: Question = {
         ...question,
@@ -149,7 +273,7 @@ const questionController = (socket: FakeSOSocket) => {
         throw new Error(populatedQuestion.error);
       }
 
-      socket.emit('questionUpdate', populatedQuestion as Question);
+      emitter.questionUpdate(populatedQuestion as Question);
       res.json(result);
     } catch (err: unknown) {
       if (err instanceof Error) {
@@ -161,9 +285,10 @@ const questionController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Helper function to handle upvoting or downvoting a question.
+   * Helper function to handle upvoting or downvoting a question on behalf of the authenticated user.
+   * The author of the question is notified when a vote is cast.
    *
-   * @param req The VoteRequest object containing the question ID and the username.
+   * @param req The VoteRequest object containing the question ID.
    * @param res The HTTP response object used to send back the result of the operation.
    * @param type The type of vote to perform (upvote or downvote).
    *
@@ -174,12 +299,13 @@ const questionController = (socket: FakeSOSocket) => {
     res: Response,
     type: 'upvote' | 'downvote',
   ): Promise<void> => {
-    if (!req.body.qid || !req.body.username) {
+    if (!req.body.qid) {
       res.status(400).send('Invalid request');
       return;
     }
 
-    const { qid, username } = req.body;
+    const { qid } = req.body;
+    const { username } = req.user!;
 
     try {
       let status;
@@ -194,7 +320,12 @@ const questionController = (socket: FakeSOSocket) => {
       }
 
       // Emit the updated vote counts to all connected clients
-      socket.emit('voteUpdate', { qid, upVotes: status.upVotes, downVotes: status.downVotes });
+      emitter.voteUpdate({ qid, upVotes: status.upVotes, downVotes: status.downVotes });
+
+      // Only casting a vote is notified, not cancelling one
+      if ((type === 'upvote' ? status.upVotes : status.downVotes).includes(username)) {
+        await sendAuthorNotification(emitter, qid, 'question', type, username);
+      }
       res.json({ msg: status.msg, upVotes: status.upVotes, downVotes: status.downVotes });
     } catch (err) {
       res.status(500).send(`Error when ${type}ing: ${(err as Error).message}`);
@@ -202,10 +333,10 @@ const questionController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Handles upvoting a question. The request must contain the question ID (qid) and the username.
+   * Handles upvoting a question. The request must contain the question ID (qid).
    * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
    *
-   * @param req The VoteRequest object containing the question ID and the username.
+   * @param req The VoteRequest object containing the question ID.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
@@ -215,10 +346,10 @@ const questionController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Handles downvoting a question. The request must contain the question ID (qid) and the username.
+   * Handles downvoting a question. The request must contain the question ID (qid).
    * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
    *
-   * @param req The VoteRequest object containing the question ID and the username.
+   * @param req The VoteRequest object containing the question ID.
    * @param res The HTTP response object used to send back the result of the operation.
    *
    * @returns A Promise that resolves to void.
@@ -227,12 +358,374 @@ const questionController = (socket: FakeSOSocket) => {
     voteQuestion(req, res, 'downvote');
   };
 
+  /**
+   * Accepts one of the answers of a question as its solution, or unaccepts the current one if the
+   * answer ID is `null`. Only the author of the question is allowed to do this.
+   * Accepting an answer also awards it the open bounty of the question, if it can receive it.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The AcceptAnswerRequest object containing the question ID and answer ID.
+   * @param res The HTTP response object used to send back the updated question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const acceptAnswer = async (req: AcceptAnswerRequest, res: Response): Promise<void> => {
+    const { qid, aid } = req.body;
+
+    if (
+      !qid ||
+      !ObjectId.isValid(qid) ||
+      aid === undefined ||
+      (aid !== null && !ObjectId.isValid(aid))
+    ) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const question = (await populateDocument(qid, 'question')) as QuestionResponse;
+
+      if ('error' in question) {
+        throw new Error(question.error);
+      }
+
+      if (question.askedBy !== req.user!.username) {
+        sendForbidden(res, 'only the author of the question can accept an answer');
+        return;
+      }
+
+      if (aid !== null && !(question.answers as Answer[]).some(a => a._id?.toString() === aid)) {
+        res.status(400).send('Answer does not belong to the question');
+        return;
+      }
+
+      const status = await setAcceptedAnswer(qid, aid);
+
+      if ('error' in status) {
+        throw new Error(status.error);
+      }
+
+      if (aid !== null && question.bounty) {
+        // The bounty stays open if it cannot go to this answer, such as one by its own offerer
+        const resolution = await awardBounty(qid, aid);
+
+        if (!('error' in resolution)) {
+          await notifyBountyAward(emitter, resolution);
+        }
+      }
+
+      const populatedQuestion = (await populateDocument(qid, 'question')) as QuestionResponse;
+
+      if ('error' in populatedQuestion) {
+        throw new Error(populatedQuestion.error);
+      }
+
+      emitter.questionUpdate(populatedQuestion);
+      res.json(populatedQuestion);
+    } catch (err) {
+      res.status(500).send(`Error when accepting answer: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Edits the title, text and tags of a question, storing the replaced version in its revision
+   * history. Only the author of the question or a moderator is allowed to do this.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The EditQuestionRequest object containing the question ID, new content and edit summary.
+   * @param res The HTTP response object used to send back the edited question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const updateQuestion = async (req: EditQuestionRequest, res: Response): Promise<void> => {
+    const { qid, title, text, tags, summary } = req.body;
+
+    if (!qid || !ObjectId.isValid(qid) || !title || !text || !tags || tags.length === 0) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const question = (await populateDocument(qid, 'question')) as QuestionResponse;
+
+      if ('error' in question) {
+        throw new Error(question.error);
+      }
+
+      if (!canModify(req.user!, question.askedBy, 'moderator')) {
+        sendForbidden(res, 'only the author of the question or a moderator can edit it');
+        return;
+      }
+
+      const processedTags = await processTags(tags);
+
+      if (processedTags.length === 0) {
+        throw new Error('Invalid tags');
+      }
+
+      const status = await editQuestion(
+        qid,
+        { title, text, tags: processedTags },
+        req.user!.username,
+        summary ?? '',
+      );
+
+      if ('error' in status) {
+        throw new Error(status.error);
+      }
+
+      const populatedQuestion = (await populateDocument(qid, 'question')) as QuestionResponse;
+
+      if ('error' in populatedQuestion) {
+        throw new Error(populatedQuestion.error);
+      }
+
+      emitter.questionUpdate(populatedQuestion);
+      res.json(populatedQuestion);
+    } catch (err) {
+      res.status(500).send(`Error when editing question: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Retrieves the prior versions of a question, oldest first. Only moderators can see the history
+   * of a deleted question; to anyone else it is not found.
+   * If there is an error, the HTTP response's status is updated.
+   *
+   * @param req The RevisionHistoryRequest object containing the question ID as a parameter.
+   * @param res The HTTP response object used to send back the revisions.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const getQuestionRevisions = async (
+    req: RevisionHistoryRequest,
+    res: Response,
+  ): Promise<void> => {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      res.status(400).send('Invalid ID format');
+      return;
+    }
+
+    try {
+      const revisions = await getRevisionHistory('question', id, hasRole(req.user!, 'moderator'));
+
+      if ('error' in revisions) {
+        if (revisions.error === 'Question not found!') {
+          res.status(404).send('Question not found');
+          return;
+        }
+        throw new Error(revisions.error);
+      }
+
+      res.json(revisions);
+    } catch (err) {
+      res.status(500).send(`Error when fetching question revisions: ${(err as Error).message}`);
+    }
+  };
+
+  /**
+   * Helper function to soft delete a question, or restore it. Questions can be deleted by their
+   * author or a moderator, and restored by a moderator or by the author if they deleted it.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The QuestionDeletionRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the updated question.
+   * @param deleted Whether the question should be deleted or restored.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const changeQuestionDeletion = async (
+    req: QuestionDeletionRequest,
+    res: Response,
+    deleted: boolean,
+  ): Promise<void> => {
+    const { qid } = req.body;
+
+    if (!qid || !ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const question = (await populateDocument(qid, 'question', true)) as QuestionResponse;
+
+      if ('error' in question) {
+        throw new Error(question.error);
+      }
+
+      const allowed = deleted
+        ? canModify(req.user!, question.askedBy, 'moderator')
+        : canRestore(req.user!, question.askedBy, question.deletedBy);
+
+      if (!allowed) {
+        sendForbidden(
+          res,
+          deleted
+            ? 'only the author of the question or a moderator can delete it'
+            : 'only a moderator or the user who deleted the question can restore it',
+        );
+        return;
+      }
+
+      if (!!question.deletedAt === deleted) {
+        res.status(400).send(deleted ? 'Question is already deleted' : 'Question is not deleted');
+        return;
+      }
+
+      const status = await setQuestionDeleted(qid, deleted ? req.user!.username : null);
+
+      if ('error' in status) {
+        throw new Error(status.error);
+      }
+
+      // Deleted questions are announced without their content, restored ones are sent in full
+      const updatedQuestion = deleted
+        ? status
+        : ((await populateDocument(qid, 'question')) as QuestionResponse);
+
+      if ('error' in updatedQuestion) {
+        throw new Error(updatedQuestion.error);
+      }
+
+      emitter.questionUpdate(updatedQuestion);
+      res.json(updatedQuestion);
+    } catch (err) {
+      res
+        .status(500)
+        .send(
+          `Error when ${deleted ? 'deleting' : 'restoring'} question: ${(err as Error).message}`,
+        );
+    }
+  };
+
+  /**
+   * Handles soft deleting a question. The request must contain the question ID (qid).
+   *
+   * @param req The QuestionDeletionRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the deleted question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const deleteQuestion = async (req: QuestionDeletionRequest, res: Response): Promise<void> => {
+    await changeQuestionDeletion(req, res, true);
+  };
+
+  /**
+   * Handles restoring a soft deleted question. The request must contain the question ID (qid).
+   *
+   * @param req The QuestionDeletionRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the restored question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const undeleteQuestion = async (req: QuestionDeletionRequest, res: Response): Promise<void> => {
+    await changeQuestionDeletion(req, res, false);
+  };
+
+  /**
+   * Helper function to bookmark a question for the authenticated user, or remove their bookmark.
+   * If the request is invalid or an error occurs, the appropriate HTTP response status and message are returned.
+   *
+   * @param req The BookmarkRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the number of bookmarks of the question.
+   * @param bookmarked Whether the question should be bookmarked.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const changeQuestionBookmark = async (
+    req: BookmarkRequest,
+    res: Response,
+    bookmarked: boolean,
+  ): Promise<void> => {
+    const { qid } = req.body;
+
+    if (!qid || !ObjectId.isValid(qid)) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    try {
+      const question = await setQuestionBookmarked(qid, req.user!.username, bookmarked);
+
+      if ('error' in question) {
+        if (question.error === 'Question not found!') {
+          res.status(404).send('Question not found');
+          return;
+        }
+        throw new Error(question.error);
+      }
+
+      res.json({ qid, bookmarkCount: question.bookmarkCount ?? 0, bookmarked });
+    } catch (err) {
+      res
+        .status(500)
+        .send(
+          `Error when ${bookmarked ? 'bookmarking' : 'unbookmarking'} question: ${(err as Error).message}`,
+        );
+    }
+  };
+
+  /**
+   * Handles bookmarking a question for the authenticated user. The request must contain the
+   * question ID (qid).
+   *
+   * @param req The BookmarkRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the number of bookmarks of the question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const bookmarkQuestion = async (req: BookmarkRequest, res: Response): Promise<void> => {
+    await changeQuestionBookmark(req, res, true);
+  };
+
+  /**
+   * Handles removing the authenticated user's bookmark from a question. The request must contain
+   * the question ID (qid).
+   *
+   * @param req The BookmarkRequest object containing the question ID.
+   * @param res The HTTP response object used to send back the number of bookmarks of the question.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const unbookmarkQuestion = async (req: BookmarkRequest, res: Response): Promise<void> => {
+    await changeQuestionBookmark(req, res, false);
+  };
+
+  // Connections join the rooms of the question list and of the question being viewed, to receive
+  // the updates of those questions
+  socket.on('connection', conn => {
+    conn.on('joinQuestionList', () => {
+      conn.join(QUESTION_LIST_ROOM);
+    });
+
+    conn.on('leaveQuestionList', () => {
+      conn.leave(QUESTION_LIST_ROOM);
+    });
+
+    conn.on('joinQuestion', (qid: string) => {
+      conn.join(getQuestionRoom(qid));
+    });
+
+    conn.on('leaveQuestion', (qid: string) => {
+      conn.leave(getQuestionRoom(qid));
+    });
+  });
+
   // add appropriate HTTP verbs and their endpoints to the router
   router.get('/getQuestion', getQuestionsByFilter);
   router.get('/getQuestionById/:qid', getQuestionById);
   router.post('/addQuestion', addQuestion);
   router.post('/upvoteQuestion', upvoteQuestion);
   router.post('/downvoteQuestion', downvoteQuestion);
+  router.post('/acceptAnswer', acceptAnswer);
+  router.patch('/editQuestion', updateQuestion);
+  router.get('/getQuestionRevisions/:id', getQuestionRevisions);
+  router.post('/deleteQuestion', deleteQuestion);
+  router.post('/undeleteQuestion', undeleteQuestion);
+  router.post('/bookmarkQuestion', bookmarkQuestion);
+  router.post('/unbookmarkQuestion', unbookmarkQuestion);
 
   return router;
 };
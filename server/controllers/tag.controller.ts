@@ -1,6 +1,20 @@
 import express, { Request, Response, Router } from 'express';
-import { getTagCountMap } from '../services/tag.service';
-import TagModel from '../models/tags.model';
+import {
+  addTagSynonym,
+  findTagByName,
+  getTagCountMap,
+  mergeTags,
+  removeTagSynonym,
+  updateTagDescription,
+} from '../services/tag.service';
+import {
+  MergeTagsRequest,
+  TagDescriptionRequest,
+  TagResponse,
+  TagSynonymRequest,
+} from '../types/types';
+import { sendForbidden } from '../middleware/auth.middleware';
+import { hasRole } from '../utils/authorization.util';
 
 const tagController = () => {
   const router: Router = express.Router();
@@ -33,7 +47,8 @@ const tagController = () => {
   };
 
   /**
-   * Retrieves a tag from the database by its name, provided in the request parameters.
+   * Retrieves a tag from the database by its name or one of its synonyms, provided in the request
+   * parameters.
    * If the tag is not found or an error occurs, the appropriate HTTP response status and message are returned.
    *
    * @param req The Request object containing the tag name in the URL parameters.
@@ -44,7 +59,7 @@ const tagController = () => {
   const getTagByName = async (req: Request, res: Response): Promise<void> => {
     try {
       const { name } = req.params; // Get the tag name from the request parameters
-      const tag = await TagModel.findOne({ name }); // Use the model's method to find the tag
+      const tag = await findTagByName(name);
 
       if (!tag) {
         res.status(404).send(`Tag with name "${name}" not found`);
@@ -56,9 +71,137 @@ const tagController = () => {
     }
   };
 
+  /**
+   * Sends the result of a tag update, or rejects the request if the update failed.
+   * Missing tags are reported with a 404 status, database failures with a 500 status, and updates
+   * that conflict with other tags with a 400 status.
+   *
+   * @param res The HTTP response object used to send back the updated tag.
+   * @param result The updated tag, or the error message of the update.
+   * @param action A description of the update, for the error message.
+   */
+  const sendTagResult = (res: Response, result: TagResponse, action: string): void => {
+    if ('error' in result) {
+      let status = 400;
+
+      if (result.error === 'Tag not found') {
+        status = 404;
+      } else if (result.error.startsWith('Error when')) {
+        status = 500;
+      }
+
+      res.status(status).send(`Error when ${action}: ${result.error}`);
+      return;
+    }
+
+    res.json(result);
+  };
+
+  /**
+   * Updates the description of a tag. Only moderators can curate tags.
+   *
+   * @param req The TagDescriptionRequest object containing the tag name and the new description.
+   * @param res The HTTP response object used to send back the updated tag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const updateDescription = async (req: TagDescriptionRequest, res: Response): Promise<void> => {
+    const { name, description } = req.body;
+
+    if (!name || typeof description !== 'string' || !description.trim()) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasRole(req.user!, 'moderator')) {
+      sendForbidden(res, 'only moderators can edit tags');
+      return;
+    }
+
+    sendTagResult(res, await updateTagDescription(name, description.trim()), 'editing the tag');
+  };
+
+  /**
+   * Declares a synonym of a tag. Questions tagged with the synonym afterwards get the tag instead.
+   * Only moderators can curate tags.
+   *
+   * @param req The TagSynonymRequest object containing the tag name and the synonym.
+   * @param res The HTTP response object used to send back the updated tag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const addSynonym = async (req: TagSynonymRequest, res: Response): Promise<void> => {
+    const { name, synonym } = req.body;
+
+    if (!name || !synonym || !synonym.trim()) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasRole(req.user!, 'moderator')) {
+      sendForbidden(res, 'only moderators can edit tags');
+      return;
+    }
+
+    sendTagResult(res, await addTagSynonym(name, synonym.trim()), 'adding the synonym');
+  };
+
+  /**
+   * Removes a synonym of a tag. Only moderators can curate tags.
+   *
+   * @param req The TagSynonymRequest object containing the tag name and the synonym.
+   * @param res The HTTP response object used to send back the updated tag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const removeSynonym = async (req: TagSynonymRequest, res: Response): Promise<void> => {
+    const { name, synonym } = req.body;
+
+    if (!name || !synonym) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasRole(req.user!, 'moderator')) {
+      sendForbidden(res, 'only moderators can edit tags');
+      return;
+    }
+
+    sendTagResult(res, await removeTagSynonym(name, synonym), 'removing the synonym');
+  };
+
+  /**
+   * Merges a tag into another, moving its questions and keeping its name as a synonym.
+   * Only moderators can curate tags.
+   *
+   * @param req The MergeTagsRequest object containing the names of the source and target tags.
+   * @param res The HTTP response object used to send back the merged tag.
+   *
+   * @returns A Promise that resolves to void.
+   */
+  const merge = async (req: MergeTagsRequest, res: Response): Promise<void> => {
+    const { source, target } = req.body;
+
+    if (!source || !target) {
+      res.status(400).send('Invalid request');
+      return;
+    }
+
+    if (!hasRole(req.user!, 'moderator')) {
+      sendForbidden(res, 'only moderators can merge tags');
+      return;
+    }
+
+    sendTagResult(res, await mergeTags(source, target), 'merging the tags');
+  };
+
   // Add appropriate HTTP verbs and their endpoints to the router.
   router.get('/getTagsWithQuestionNumber', getTagsWithQuestionNumber);
   router.get('/getTagByName/:name', getTagByName); // New endpoint to get tag by name
+  router.patch('/updateDescription', updateDescription);
+  router.post('/addSynonym', addSynonym);
+  router.post('/removeSynonym', removeSynonym);
+  router.post('/mergeTags', merge);
 
   return router;
 };
@@ -6,18 +6,37 @@ import {
   UserByUsernameRequest,
   FakeSOSocket,
   UpdateBiographyRequest,
+  UpdateRoleRequest,
+  UpdateTagPreferenceRequest,
+  AuthResponse,
+  DeleteUserRequest,
+  ChatResponse,
+  ChatUpdatePayload,
+  QuestionResponse,
+  ReputationHistoryRequest,
 } from '../types/types';
 import {
+  DELETED_USERNAME,
   deleteUserByUsername,
+  getDefaultDeletionPolicy,
   getUserByUsername,
   getUsersList,
   loginUser,
   saveUser,
+  setTagPreference,
   updateUser,
 } from '../services/user.service';
+import { getReputationHistory } from '../services/reputation.service';
+import { getOnlineUsers } from '../services/presence.service';
+import { issueToken } from '../utils/token.util';
+import { authorizeOwnerOrRole, sendForbidden } from '../middleware/auth.middleware';
+import { hasRole, USER_ROLES } from '../utils/authorization.util';
+import { populateDocument } from '../utils/database.util';
+import { createEmitter, USER_LIST_ROOM } from '../utils/emitter.util';
 
 const userController = (socket: FakeSOSocket) => {
   const router: Router = express.Router();
+  const emitter = createEmitter(socket);
 
   /**
    * Validates that the request body contains all required fields for a user.
@@ -28,13 +47,15 @@ const userController = (socket: FakeSOSocket) => {
     req.body !== undefined &&
     req.body.username !== undefined &&
     req.body.username !== '' &&
+    req.body.username !== DELETED_USERNAME &&
     req.body.password !== undefined &&
     req.body.password !== '';
 
   /**
-   * Handles the creation of a new user account.
+   * Handles the creation of a new user account. Only the credentials and biography are taken from
+   * the request: new users start with the default role and reputation.
    * @param req The request containing username, email, and password in the body.
-   * @param res The response, either returning the created user or an error.
+   * @param res The response, either returning the created user with an authentication token or an error.
    * @returns A promise resolving to void.
    */
   const createUser = async (req: UserRequest, res: Response): Promise<void> => {
@@ -43,12 +64,14 @@ const userController = (socket: FakeSOSocket) => {
       return;
     }
 
-    const requestUser = req.body;
+    const { username, password, biography } = req.body;
 
     const user: User = {
-      ...requestUser,
+      username,
+      password,
       dateJoined: new Date(),
-      biography: requestUser.biography ?? '',
+      biography: biography ?? '',
+      role: 'user',
     };
 
     try {
@@ -58,11 +81,15 @@ const userController = (socket: FakeSOSocket) => {
         throw new Error(result.error);
       }
 
-      socket.emit('userUpdate', {
+      emitter.userUpdate({
         user: result,
         type: 'created',
       });
-      res.status(200).json(result);
+      const response: AuthResponse = {
+        user: result,
+        token: issueToken(result.username, result.role),
+      };
+      res.status(200).json(response);
     } catch (error) {
       res.status(500).send(`Error when saving user: ${error}`);
     }
@@ -71,7 +98,7 @@ const userController = (socket: FakeSOSocket) => {
   /**
    * Handles user login by validating credentials.
    * @param req The request containing username and password in the body.
-   * @param res The response, either returning the user or an error.
+   * @param res The response, either returning the user with an authentication token or an error.
    * @returns A promise resolving to void.
    */
   const userLogin = async (req: UserRequest, res: Response): Promise<void> => {
@@ -92,14 +119,15 @@ const userController = (socket: FakeSOSocket) => {
         throw Error(user.error);
       }
 
-      res.status(200).json(user);
+      const response: AuthResponse = { user, token: issueToken(user.username, user.role) };
+      res.status(200).json(response);
     } catch (error) {
       res.status(500).send('Login failed');
     }
   };
 
   /**
-   * Retrieves a user by their username.
+   * Retrieves a user by their username. The tag preferences are only included for the user themselves.
    * @param req The request containing the username as a route parameter.
    * @param res The response, either returning the user or an error.
    * @returns A promise resolving to void.
@@ -108,7 +136,7 @@ const userController = (socket: FakeSOSocket) => {
     try {
       const { username } = req.params;
 
-      const user = await getUserByUsername(username);
+      const user = await getUserByUsername(username, username === req.user!.username);
 
       if ('error' in user) {
         throw Error(user.error);
@@ -138,26 +166,89 @@ const userController = (socket: FakeSOSocket) => {
   };
 
   /**
-   * Deletes a user by their username.
+   * Retrieves the usernames of the users who are currently online. Changes to this snapshot are
+   * sent to every connection as presence updates.
+   * @param res The response, returning the usernames of the online users.
+   * @returns A promise resolving to void.
+   */
+  const getOnlineUsersRoute = async (_: Request, res: Response): Promise<void> => {
+    res.status(200).json(getOnlineUsers());
+  };
+
+  /**
+   * Retrieves the reputation history of a user, most recent changes first.
    * @param req The request containing the username as a route parameter.
+   * @param res The response, either returning the reputation changes or an error.
+   * @returns A promise resolving to void.
+   */
+  const getUserReputationHistory = async (
+    req: ReputationHistoryRequest,
+    res: Response,
+  ): Promise<void> => {
+    try {
+      const history = await getReputationHistory(req.params.username);
+
+      if ('error' in history) {
+        throw new Error(history.error);
+      }
+
+      res.status(200).json(history);
+    } catch (error) {
+      res.status(500).send(`Error when retrieving reputation history: ${error}`);
+    }
+  };
+
+  /**
+   * Deletes a user by their username, cleaning up their content according to the deletion policy
+   * given in the query (or the configured default), and emits the changes to the affected
+   * questions and chats.
+   * @param req The request containing the username as a route parameter and optionally the policy.
    * @param res The response, either confirming deletion or returning an error.
    * @returns A promise resolving to void.
    */
-  const deleteUser = async (req: UserByUsernameRequest, res: Response): Promise<void> => {
+  const deleteUser = async (req: DeleteUserRequest, res: Response): Promise<void> => {
+    const { policy = getDefaultDeletionPolicy() } = req.query;
+
+    if (policy !== 'anonymize' && policy !== 'hardDelete') {
+      res.status(400).send('Invalid deletion policy');
+      return;
+    }
+
     try {
       const { username } = req.params;
 
-      const deletedUser = await deleteUserByUsername(username);
+      const result = await deleteUserByUsername(username, policy);
 
-      if ('error' in deletedUser) {
-        throw Error(deletedUser.error);
+      if ('error' in result) {
+        throw Error(result.error);
       }
 
-      socket.emit('userUpdate', {
-        user: deletedUser,
+      emitter.userUpdate({
+        user: result.user,
         type: 'deleted',
       });
-      res.status(200).json(deletedUser);
+
+      // The deletion has already been committed, so failing to populate an update only skips its event
+      const questions = await Promise.all(
+        result.questions.map(qid => populateDocument(qid, 'question') as Promise<QuestionResponse>),
+      );
+      questions.forEach(question => {
+        if (!('error' in question)) {
+          emitter.questionUpdate(question);
+        }
+      });
+
+      const chats = await Promise.all(
+        result.chats.map(chatId => populateDocument(chatId, 'chat') as Promise<ChatResponse>),
+      );
+      chats.forEach(chat => {
+        if (!('error' in chat)) {
+          const payload: ChatUpdatePayload = { chat, type: 'participantRemoved' };
+          emitter.chatUpdate(payload);
+        }
+      });
+
+      res.status(200).json(result.user);
     } catch (error) {
       res.status(500).send(`Error when deleting user by username: ${error}`);
     }
@@ -220,7 +311,7 @@ const userController = (socket: FakeSOSocket) => {
       }
 
       // Emit socket event for real-time updates
-      socket.emit('userUpdate', {
+      emitter.userUpdate({
         user: updatedUser,
         type: 'updated',
       });
@@ -231,14 +322,133 @@ const userController = (socket: FakeSOSocket) => {
     }
   };
 
+  /**
+   * Validates that the request body contains all required fields for updating a user's role.
+   * @param req The incoming request containing user data.
+   * @returns `true` if the body contains a username and a known role; otherwise, `false`.
+   */
+  const isUpdateRoleRequestValid = (req: UpdateRoleRequest): boolean =>
+    req.body !== undefined &&
+    req.body.username !== undefined &&
+    req.body.username !== '' &&
+    USER_ROLES.includes(req.body.role);
+
+  /**
+   * Updates a user's role. Only admins can change roles, and they cannot change their own.
+   * @param req The request containing the username and role in the body.
+   * @param res The response, either confirming the update or returning an error.
+   * @returns A promise resolving to void.
+   */
+  const updateRole = async (req: UpdateRoleRequest, res: Response): Promise<void> => {
+    try {
+      if (!isUpdateRoleRequestValid(req)) {
+        res.status(400).send('Invalid role update body');
+        return;
+      }
+
+      if (!hasRole(req.user!, 'admin') || req.user!.username === req.body.username) {
+        sendForbidden(res, 'only an admin can change the role of another user');
+        return;
+      }
+
+      const updatedUser = await updateUser(req.body.username, { role: req.body.role });
+
+      if ('error' in updatedUser) {
+        throw new Error(updatedUser.error);
+      }
+
+      emitter.userUpdate({
+        user: updatedUser,
+        type: 'updated',
+      });
+
+      res.status(200).json(updatedUser);
+    } catch (error) {
+      res.status(500).send(`Error when updating user role: ${(error as Error).message}`);
+    }
+  };
+
+  /**
+   * Validates that the request body contains all required fields for updating a tag preference.
+   * @param req The incoming request containing the tag preference.
+   * @returns `true` if the body contains a username, a tag and a known preference; otherwise, `false`.
+   */
+  const isUpdateTagPreferenceRequestValid = (req: UpdateTagPreferenceRequest): boolean =>
+    req.body !== undefined &&
+    !!req.body.username &&
+    !!req.body.tag &&
+    ['watched', 'ignored', 'none'].includes(req.body.preference);
+
+  /**
+   * Updates whether a user watches or ignores a tag. The preferences are private to the user, so
+   * no update is broadcast.
+   * @param req The request containing the username, tag and preference in the body.
+   * @param res The response, either returning the updated user or an error.
+   * @returns A promise resolving to void.
+   */
+  const updateTagPreference = async (
+    req: UpdateTagPreferenceRequest,
+    res: Response,
+  ): Promise<void> => {
+    try {
+      if (!isUpdateTagPreferenceRequestValid(req)) {
+        res.status(400).send('Invalid tag preference body');
+        return;
+      }
+
+      const { username, tag, preference } = req.body;
+      const updatedUser = await setTagPreference(username, tag, preference);
+
+      if ('error' in updatedUser) {
+        throw new Error(updatedUser.error);
+      }
+
+      res.status(200).json(updatedUser);
+    } catch (error) {
+      res.status(500).send(`Error when updating tag preference: ${(error as Error).message}`);
+    }
+  };
+
   // Define routes for the user-related operations.
+  // Account modifications are restricted to the account owner, or a sufficiently privileged user.
   router.post('/signup', createUser);
   router.post('/login', userLogin);
-  router.patch('/resetPassword', resetPassword);
+  router.patch(
+    '/resetPassword',
+    authorizeOwnerOrRole((req: UserRequest) => req.body?.username, 'admin'),
+    resetPassword,
+  );
   router.get('/getUser/:username', getUser);
-  router.delete('/deleteUser/:username', deleteUser);
-  router.patch('/updateBiography', updateBiography);
+  router.delete(
+    '/deleteUser/:username',
+    authorizeOwnerOrRole((req: DeleteUserRequest) => req.params.username, 'admin'),
+    deleteUser,
+  );
+  router.patch(
+    '/updateBiography',
+    authorizeOwnerOrRole((req: UpdateBiographyRequest) => req.body?.username, 'moderator'),
+    updateBiography,
+  );
+  router.patch(
+    '/updateTagPreference',
+    authorizeOwnerOrRole((req: UpdateTagPreferenceRequest) => req.body?.username, 'admin'),
+    updateTagPreference,
+  );
+  router.patch('/updateRole', updateRole);
   router.get('/getUsers', getUsers);
+  router.get('/getOnlineUsers', getOnlineUsersRoute);
+  router.get('/getReputationHistory/:username', getUserReputationHistory);
+
+  // Connections viewing the user list join its room, to receive the updates of users
+  socket.on('connection', conn => {
+    conn.on('joinUserList', () => {
+      conn.join(USER_LIST_ROOM);
+    });
+
+    conn.on('leaveUserList', () => {
+      conn.leave(USER_LIST_ROOM);
+    });
+  });
 
   return router;
 };
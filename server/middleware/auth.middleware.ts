@@ -0,0 +1,137 @@
+import { NextFunction, Request, Response } from 'express';
+import { ExtendedError } from 'socket.io';
+import { AuthenticatedUser, FakeSOConnection, UserRole } from '../types/types';
+import { verifyToken } from '../utils/token.util';
+import { getUserRole } from '../services/user.service';
+import { canModify } from '../utils/authorization.util';
+
+/**
+ * Routes that can be reached without a token, as they are used to obtain one.
+ */
+const PUBLIC_ROUTES = ['/user/signup', '/user/login'];
+
+/**
+ * Extracts the token from an `Authorization: Bearer <token>` header.
+ *
+ * @param header The value of the authorization header, if any.
+ *
+ * @returns The token, or `undefined` if the header is missing or malformed.
+ */
+const extractBearerToken = (header: string | undefined): string | undefined => {
+  if (!header || !header.startsWith('Bearer ')) {
+    return undefined;
+  }
+
+  return header.slice('Bearer '.length).trim();
+};
+
+/**
+ * Resolves the user a token was issued for, with their current role. The role in the token is
+ * not trusted, since it may have changed since the token was issued.
+ *
+ * @param token The token sent by the caller, if any.
+ *
+ * @returns The authenticated user, or `null` if the token is invalid or the user no longer exists.
+ */
+const resolveUser = async (token: string | undefined): Promise<AuthenticatedUser | null> => {
+  const tokenUser = verifyToken(token);
+
+  if (!tokenUser) {
+    return null;
+  }
+
+  const role = await getUserRole(tokenUser.username);
+
+  if (typeof role !== 'string') {
+    return null;
+  }
+
+  return { username: tokenUser.username, role };
+};
+
+/**
+ * Express middleware that resolves the identity of the caller from the bearer token and
+ * stores it on `req.user`, with the caller's current role. Requests to non-public routes
+ * without a valid token, or from users who no longer exist, are rejected with a 401 status.
+ *
+ * @param req The incoming request.
+ * @param res The response, used to reject unauthenticated requests.
+ * @param next The next handler in the chain.
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  if (PUBLIC_ROUTES.includes(req.path)) {
+    next();
+    return;
+  }
+
+  const user = await resolveUser(extractBearerToken(req.headers.authorization));
+
+  if (!user) {
+    res.status(401).send('Authentication required');
+    return;
+  }
+
+  req.user = user;
+  next();
+};
+
+/**
+ * Socket.IO middleware that verifies the token sent in the handshake `auth` payload and
+ * attaches the username to the connection's data, so events can be attributed to it.
+ * Connections from users who no longer exist are rejected.
+ *
+ * @param conn The connecting socket.
+ * @param next Callback to accept the connection, or reject it with an error.
+ */
+export const authenticateSocket = async (
+  conn: FakeSOConnection,
+  next: (err?: ExtendedError) => void,
+): Promise<void> => {
+  const user = await resolveUser(conn.handshake.auth?.token);
+
+  if (!user) {
+    next(new Error('Authentication required'));
+    return;
+  }
+
+  conn.data.username = user.username;
+  next();
+};
+
+/**
+ * Rejects a request with a 403 status. All denied requests share the same `{ error }` body,
+ * so clients can handle authorization failures uniformly.
+ *
+ * @param res The response to send the rejection with.
+ * @param message A description of the action that was denied.
+ */
+export const sendForbidden = (res: Response, message: string): void => {
+  res.status(403).json({ error: `Forbidden: ${message}` });
+};
+
+/**
+ * Creates a middleware that only lets a request through if the authenticated user owns the
+ * targeted resource, or holds at least the given role. Requests that do not identify an owner
+ * are passed on, so the route handler can reject them as invalid.
+ *
+ * @param getOwner Extracts the username of the resource owner from the request.
+ * @param role The minimum role required to act on resources owned by other users.
+ *
+ * @returns The authorization middleware.
+ */
+export const authorizeOwnerOrRole =
+  <R extends Request>(getOwner: (req: R) => string | undefined, role: UserRole) =>
+  (req: R, res: Response, next: NextFunction): void => {
+    const owner = getOwner(req);
+
+    if (owner && !canModify(req.user!, owner, role)) {
+      sendForbidden(res, `only ${owner} or a ${role} can perform this action`);
+      return;
+    }
+
+    next();
+  };
@@ -0,0 +1,19 @@
+import mongoose, { Model } from 'mongoose';
+import collectionSchema from './schema/collection.schema';
+import { Collection } from '../types/types';
+
+/**
+ * Mongoose model for the `Collection` collection.
+ *
+ * This model is created using the `Collection` interface and the `collectionSchema`, representing
+ * the `Collection` collection in the MongoDB database, and provides an interface for interacting
+ * with the question collections of users.
+ *
+ * @type {Model<Collection>}
+ */
+const CollectionModel: Model<Collection> = mongoose.model<Collection>(
+  'Collection',
+  collectionSchema,
+);
+
+export default CollectionModel;
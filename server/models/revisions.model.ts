@@ -0,0 +1,16 @@
+import mongoose, { Model } from 'mongoose';
+import revisionSchema from './schema/revision.schema';
+import { Revision } from '../types/types';
+
+/**
+ * Mongoose model for the `Revision` collection.
+ *
+ * This model is created using the `Revision` interface and the `revisionSchema`, representing the
+ * `Revision` collection in the MongoDB database, and provides an interface for interacting with
+ * the prior versions of edited questions and answers.
+ *
+ * @type {Model<Revision>}
+ */
+const RevisionModel: Model<Revision> = mongoose.model<Revision>('Revision', revisionSchema);
+
+export default RevisionModel;
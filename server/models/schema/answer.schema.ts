@@ -8,6 +8,10 @@ import { Schema } from 'mongoose';
  * - `ansBy`: The username of the user who provided the answer.
  * - `ansDateTime`: The date and time when the answer was given.
  * - `comments`: Comments that have been added to the answer by users.
+ * - `deletedAt`: When the answer was soft deleted, or `null` if it is visible.
+ * - `deletedBy`: The username of the user who deleted the answer, or `null` if it is visible.
+ *
+ * The text is text indexed for search.
  */
 const answerSchema: Schema = new Schema(
   {
@@ -21,8 +25,14 @@ const answerSchema: Schema = new Schema(
       type: Date,
     },
     comments: [{ type: Schema.Types.ObjectId, ref: 'Comment' }],
+    upVotes: [{ type: String }],
+    downVotes: [{ type: String }],
+    deletedAt: { type: Date, default: null },
+    deletedBy: { type: String, default: null },
   },
   { collection: 'Answer' },
 );
 
+answerSchema.index({ text: 'text' });
+
 export default answerSchema;
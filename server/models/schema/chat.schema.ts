@@ -3,14 +3,31 @@ import { Schema } from 'mongoose';
 /**
  * Mongoose schema for the Chat collection.
  *
- * - `participants`: an array of ObjectIds referencing the User collection.
+ * - `participants`: an array of the usernames of the participants.
  * - `messages`: an array of ObjectIds referencing the Message collection.
+ * - `name`: the name of a group chat, unset for direct chats.
+ * - `owner`: the username of the owner of a group chat, unset for direct chats.
+ * - `admins`: the usernames of the admins of a group chat, including its owner. Unset for direct chats.
+ * - `lastRead`: for each participant who read the chat, the ObjectId of the last message they read.
  * - Timestamps store `createdAt` & `updatedAt`.
  */
 const chatSchema: Schema = new Schema(
   {
     participants: [{ type: String }],
     messages: [{ type: Schema.Types.ObjectId, ref: 'Message' }],
+    name: { type: String },
+    owner: { type: String },
+    admins: { type: [String], default: undefined },
+    lastRead: {
+      type: [
+        {
+          _id: false,
+          username: { type: String },
+          messageId: { type: Schema.Types.ObjectId, ref: 'Message' },
+        },
+      ],
+      default: undefined,
+    },
   },
   { collection: 'Chat', timestamps: true },
 );
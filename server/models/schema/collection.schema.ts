@@ -0,0 +1,40 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Collection collection.
+ *
+ * This schema defines the structure for storing a named collection of questions put together by a user.
+ * Each collection includes the following fields:
+ * - `name`: The name of the collection.
+ * - `description`: What the collection is about.
+ * - `owner`: The username of the user who created the collection.
+ * - `questions`: An array of references to the `Question` documents in the collection.
+ * - `shared`: Whether other users with a link to the collection can view it.
+ * - `createdAt`: When the collection was created.
+ * - `updatedAt`: When the collection was last changed.
+ */
+const collectionSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+      default: '',
+    },
+    owner: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    questions: [{ type: Schema.Types.ObjectId, ref: 'Question' }],
+    shared: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { collection: 'Collection', timestamps: true },
+);
+
+export default collectionSchema;
@@ -8,6 +8,10 @@ import { Schema } from 'mongoose';
  * - `text`: The content of the comment.
  * - `commentBy`: The username of the user who commented.
  * - `commentDateTime`: The date and time when the comment was posted.
+ * - `deletedAt`: When the comment was soft deleted, or `null` if it is visible.
+ * - `deletedBy`: The username of the user who deleted the comment, or `null` if it is visible.
+ *
+ * The text is text indexed for search.
  */
 const commentSchema: Schema = new Schema(
   {
@@ -20,8 +24,12 @@ const commentSchema: Schema = new Schema(
     commentDateTime: {
       type: Date,
     },
+    deletedAt: { type: Date, default: null },
+    deletedBy: { type: String, default: null },
   },
   { collection: 'Comment' },
 );
 
+commentSchema.index({ text: 'text' });
+
 export default commentSchema;
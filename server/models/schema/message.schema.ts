@@ -8,7 +8,9 @@ import { Schema } from 'mongoose';
  * - `msg`: The text of the message.
  * - `msgFrom`: The username of the user sending the message.
  * - `msgDateTime`: The date and time the message was sent.
- * - `type`: The type of message, either 'global' or 'direct'.
+ * - `type`: The type of message, either 'global', 'direct' or 'system'.
+ * - `editedAt`: When the message was last edited.
+ * - `deletedAt`: When the message was deleted. Deleted messages have no text.
  */
 const messageSchema: Schema = new Schema(
   {
@@ -23,7 +25,13 @@ const messageSchema: Schema = new Schema(
     },
     type: {
       type: String,
-      enum: ['global', 'direct'],
+      enum: ['global', 'direct', 'system'],
+    },
+    editedAt: {
+      type: Date,
+    },
+    deletedAt: {
+      type: Date,
     },
   },
   { collection: 'Message' },
@@ -0,0 +1,49 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Notification collection.
+ *
+ * This schema defines the structure for storing a notification about activity that concerns a user.
+ * Each notification includes the following fields:
+ * - `recipient`: The username of the user the notification is for.
+ * - `type`: The activity the notification is about.
+ * - `actor`: The username of the user whose activity caused the notification.
+ * - `text`: A short description of the content, such as the question title or the message.
+ * - `qid`: The question the notification relates to, if any.
+ * - `chatId`: The chat the notification relates to, if any.
+ * - `gameID`: The game the notification relates to, if any.
+ * - `read`: Whether the recipient has read the notification.
+ * - `createdAt`: When the notification was created.
+ */
+const notificationSchema: Schema = new Schema(
+  {
+    recipient: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: ['answer', 'comment', 'upvote', 'downvote', 'message', 'game', 'bounty'],
+      required: true,
+    },
+    actor: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String,
+      default: '',
+    },
+    qid: { type: Schema.Types.ObjectId, ref: 'Question' },
+    chatId: { type: Schema.Types.ObjectId, ref: 'Chat' },
+    gameID: { type: String },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { collection: 'Notification', timestamps: { createdAt: true, updatedAt: false } },
+);
+
+export default notificationSchema;
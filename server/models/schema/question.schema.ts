@@ -14,6 +14,20 @@ import { Schema } from 'mongoose';
  * - `upVotes`: An array of usernames that have upvoted the question.
  * - `downVotes`: An array of usernames that have downvoted the question.
  * - `comments`: Comments that have been added to the question by users.
+ * - `deletedAt`: When the question was soft deleted, or `null` if it is visible.
+ * - `deletedBy`: The username of the user who deleted the question, or `null` if it is visible.
+ * - `bookmarks`: An array of usernames that have bookmarked the question. It is private to each
+ *   user, so it is left out of query results unless explicitly selected.
+ * - `bookmarkCount`: The number of users who bookmarked the question.
+ * - `bounty`: The open bounty on the question, or `null` if there is none.
+ * - `status`: Whether the question is open, closed or locked.
+ * - `closeReason`: The reason the question was closed for, or `null` if it was not.
+ * - `closedAt`: When the question was closed, or `null` if it is not closed.
+ * - `duplicateOf`: The original question, if the question was closed as its duplicate.
+ * - `closeVotes`: The votes to close the question, with the reason, and original for duplicates, each voter chose.
+ * - `reopenVotes`: The usernames of the users who voted to reopen the question.
+ *
+ * The title and text are text indexed for search, with matches in the title weighing more.
  */
 const questionSchema: Schema = new Schema(
   {
@@ -35,8 +49,50 @@ const questionSchema: Schema = new Schema(
     upVotes: [{ type: String }],
     downVotes: [{ type: String }],
     comments: [{ type: Schema.Types.ObjectId, ref: 'Comment' }],
+    acceptedAnswer: { type: Schema.Types.ObjectId, ref: 'Answer', default: null },
+    deletedAt: { type: Date, default: null },
+    deletedBy: { type: String, default: null },
+    bookmarks: { type: [{ type: String }], select: false },
+    bookmarkCount: { type: Number, default: 0 },
+    bounty: {
+      type: new Schema(
+        {
+          amount: { type: Number, required: true },
+          offeredBy: { type: String, required: true },
+          offeredAt: { type: Date, required: true },
+          expiresAt: { type: Date, required: true },
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
+    status: { type: String, enum: ['open', 'closed', 'locked'], default: 'open' },
+    closeReason: {
+      type: String,
+      enum: ['duplicate', 'offTopic', 'unclear', 'needsFocus', 'opinionBased', null],
+      default: null,
+    },
+    closedAt: { type: Date, default: null },
+    duplicateOf: { type: Schema.Types.ObjectId, ref: 'Question', default: null },
+    closeVotes: [
+      new Schema(
+        {
+          voter: { type: String, required: true },
+          reason: {
+            type: String,
+            enum: ['duplicate', 'offTopic', 'unclear', 'needsFocus', 'opinionBased'],
+            required: true,
+          },
+          duplicateOf: { type: Schema.Types.ObjectId, ref: 'Question', default: null },
+        },
+        { _id: false },
+      ),
+    ],
+    reopenVotes: [{ type: String }],
   },
   { collection: 'Question' },
 );
 
+questionSchema.index({ title: 'text', text: 'text' }, { weights: { title: 3, text: 1 } });
+
 export default questionSchema;
@@ -0,0 +1,46 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the ReputationEvent collection.
+ *
+ * This schema defines the structure for storing a change to the reputation of a user.
+ * Each event includes the following fields:
+ * - `username`: The username of the user whose reputation changed.
+ * - `change`: The number of reputation points gained or lost.
+ * - `reason`: The action that caused the change.
+ * - `qid`: The question the change relates to.
+ * - `aid`: The answer the change relates to, if any.
+ * - `createdAt`: When the change happened.
+ */
+const reputationEventSchema: Schema = new Schema(
+  {
+    username: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    change: {
+      type: Number,
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: [
+        'questionUpvote',
+        'questionDownvote',
+        'answerUpvote',
+        'answerDownvote',
+        'answerAccepted',
+        'bountyOffered',
+        'bountyAwarded',
+        'bountyRefunded',
+      ],
+      required: true,
+    },
+    qid: { type: Schema.Types.ObjectId, ref: 'Question' },
+    aid: { type: Schema.Types.ObjectId, ref: 'Answer' },
+  },
+  { collection: 'ReputationEvent', timestamps: { createdAt: true, updatedAt: false } },
+);
+
+export default reputationEventSchema;
@@ -0,0 +1,53 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Mongoose schema for the Revision collection.
+ *
+ * This schema defines the structure for storing a prior version of an edited question or answer.
+ * Each revision includes the following fields:
+ * - `targetType`: Whether the edited post is a question or an answer.
+ * - `targetId`: The ID of the edited post.
+ * - `title`: The title of the question before the edit.
+ * - `text`: The text of the post before the edit.
+ * - `tags`: The tag names of the question before the edit.
+ * - `editedBy`: The username of the user who made the edit.
+ * - `editedAt`: When the edit was made.
+ * - `summary`: The edit summary provided by the editor.
+ */
+const revisionSchema: Schema = new Schema(
+  {
+    targetType: {
+      type: String,
+      enum: ['question', 'answer'],
+      required: true,
+    },
+    targetId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    tags: [{ type: String }],
+    editedBy: {
+      type: String,
+      required: true,
+    },
+    editedAt: {
+      type: Date,
+      required: true,
+    },
+    summary: {
+      type: String,
+      default: '',
+    },
+  },
+  { collection: 'Revision' },
+);
+
+export default revisionSchema;
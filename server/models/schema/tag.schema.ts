@@ -7,6 +7,7 @@ import { Schema } from 'mongoose';
  * Each tag includes the following fields:
  * - `name`: The name of the tag. This field is required.
  * - `description`: A brief description of the tag. This field is required.
+ * - `synonyms`: Other names of the tag, which are replaced by the tag name when questions are tagged.
  */
 const tagSchema: Schema = new Schema(
   {
@@ -18,6 +19,7 @@ const tagSchema: Schema = new Schema(
       type: String,
       required: true,
     },
+    synonyms: [{ type: String }],
   },
   { collection: 'Tag' },
 );
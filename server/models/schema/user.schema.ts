@@ -9,6 +9,10 @@ import { Schema } from 'mongoose';
  * - `password`: The encrypted password securing the user's account.
  * - `dateJoined`: The date the user joined the platform.
  * - `biography`: The biography of the user (optional field).
+ * - `role`: The role of the user, which determines what they may modify.
+ * - `reputation`: The reputation points the user earned from the community.
+ * - `watchedTags`: The names of the tags the user watches, boosted in their feed.
+ * - `ignoredTags`: The names of the tags the user ignores, hidden from their feed.
  */
 const userSchema: Schema = new Schema(
   {
@@ -27,6 +31,17 @@ const userSchema: Schema = new Schema(
       type: String,
       default: '',
     },
+    role: {
+      type: String,
+      enum: ['user', 'moderator', 'admin'],
+      default: 'user',
+    },
+    reputation: {
+      type: Number,
+      default: 0,
+    },
+    watchedTags: [{ type: String }],
+    ignoredTags: [{ type: String }],
   },
   { collection: 'User' },
 );
@@ -2,7 +2,7 @@ import mongoose from 'mongoose';
 import AnswerModel from './models/answers.model';
 import QuestionModel from './models/questions.model';
 import TagModel from './models/tags.model';
-import { Answer, Comment, Question, Tag, User } from './types/types';
+import { Answer, Comment, Question, Tag, User, UserRole } from './types/types';
 import {
   Q1_DESC,
   Q1_TXT,
@@ -122,6 +122,8 @@ async function answerCreate(
     ansBy: ansBy,
     ansDateTime: ansDateTime,
     comments: comments,
+    upVotes: [],
+    downVotes: [],
   };
   return await AnswerModel.create(answerDetail);
 }
@@ -174,7 +176,7 @@ async function questionCreate(
   return await QuestionModel.create(questionDetail);
 }
 
-async function userCreate(username: string, password: string, dateJoined: Date, biography?: string): Promise<User> {
+async function userCreate(username: string, password: string, dateJoined: Date, biography?: string, role?: UserRole): Promise<User> {
   if (username === '' || password === '' || dateJoined === null) {
     throw new Error('Invalid User Format');
   }
@@ -184,6 +186,7 @@ async function userCreate(username: string, password: string, dateJoined: Date,
     password,
     dateJoined,
     biography: biography ?? '',
+    role: role ?? 'user',
   };
 
   return await UserModel.create(userDetail);
@@ -195,8 +198,8 @@ async function userCreate(username: string, password: string, dateJoined: Date,
  */
 const populate = async () => {
   try {
-    await userCreate('sana', 'sanaPassword', new Date('2023-12-11T03:30:00'), 'I am a software engineer.');
-    await userCreate('ihba001', 'SomePassword#123', new Date('2022-12-11T03:30:00'), 'I am a student.');
+    await userCreate('sana', 'sanaPassword', new Date('2023-12-11T03:30:00'), 'I am a software engineer.', 'admin');
+    await userCreate('ihba001', 'SomePassword#123', new Date('2022-12-11T03:30:00'), 'I am a student.', 'moderator');
     await userCreate('saltyPeter', 'VeryStrongPassword#!@', new Date('2023-12-11T03:30:00'), 'I am a chef.');
     await userCreate('monkeyABC', 'password', new Date('2023-11-11T03:30:00'), 'I am a monkey.');
     await userCreate('hamkalo', 'redapplecar', new Date('2023-12-02T03:30:00'), 'I am a hamster.');
@@ -1,25 +1,10 @@
-import { Answer, AnswerResponse, Question, QuestionResponse } from '../types/types';
+import { Answer, AnswerResponse, QuestionResponse } from '../types/types';
 import AnswerModel from '../models/answers.model';
 import QuestionModel from '../models/questions.model';
-
-/**
- * Records the most recent answer time for a question.
- *
- * @param {Question} question - The question to check
- * @param {Map<string, Date>} mp - A map of the most recent answer time for each question
- */
-export const getMostRecentAnswerTime = (question: Question, mp: Map<string, Date>): void => {
-  // This is a private function and we can assume that the answers field is not undefined or an array of ObjectId
-  const answers = question.answers as Answer[];
-  answers.forEach((answer: Answer) => {
-    if (question._id !== undefined) {
-      const currentMostRecent = mp.get(question?._id.toString());
-      if (!currentMostRecent || currentMostRecent < answer.ansDateTime) {
-        mp.set(question._id.toString(), answer.ansDateTime);
-      }
-    }
-  });
-};
+import { getVoteUpdateOperation, getVotesAfterToggle } from '../utils/vote.util';
+import { getDeletionUpdate, getVisibilityFilter } from '../utils/deletion.util';
+import { applyVoteReputation } from './reputation.service';
+import { saveRevision } from './revision.service';
 
 /**
  * Saves a new answer to the database.
@@ -38,7 +23,7 @@ export const saveAnswer = async (answer: Answer): Promise<AnswerResponse> => {
 };
 
 /**
- * Adds an answer to a question.
+ * Adds an answer to a question. Answers cannot be added to deleted questions.
  *
  * @param {string} qid - The ID of the question to add an answer to
  * @param {Answer} ans - The answer to add
@@ -51,7 +36,7 @@ export const addAnswerToQuestion = async (qid: string, ans: Answer): Promise<Que
       throw new Error('Invalid answer');
     }
     const result = await QuestionModel.findOneAndUpdate(
-      { _id: qid },
+      { _id: qid, ...getVisibilityFilter() },
       { $push: { answers: { $each: [ans._id], $position: 0 } } },
       { new: true },
     );
@@ -63,3 +48,153 @@ export const addAnswerToQuestion = async (qid: string, ans: Answer): Promise<Que
     return { error: 'Error when adding answer to question' };
   }
 };
+
+/**
+ * Adds a vote to an answer, and updates the reputation of its author. Only visible answers of the
+ * given question, itself visible, can be voted on. The votes before the vote are read in the same
+ * atomic update, so quick repeated votes are each credited once.
+ *
+ * @param qid The ID of the question the answer belongs to.
+ * @param aid The ID of the answer to add a vote to.
+ * @param username The username of the user who voted.
+ * @param type The type of vote to add, either 'upvote' or 'downvote'.
+ *
+ * @returns A Promise that resolves to an object containing either a success message or an error message,
+ *          along with the updated upVotes and downVotes arrays.
+ */
+export const addVoteToAnswer = async (
+  qid: string,
+  aid: string,
+  username: string,
+  type: 'upvote' | 'downvote',
+): Promise<{ msg: string; upVotes: string[]; downVotes: string[] } | { error: string }> => {
+  try {
+    const question = await QuestionModel.exists({
+      _id: qid,
+      answers: aid,
+      ...getVisibilityFilter(),
+    });
+
+    if (!question) {
+      return { error: 'Answer not found!' };
+    }
+
+    const answer = await AnswerModel.findOneAndUpdate(
+      { _id: aid, ...getVisibilityFilter() },
+      getVoteUpdateOperation(username, type),
+      { new: false },
+    ).select('ansBy upVotes downVotes');
+
+    if (!answer) {
+      return { error: 'Answer not found!' };
+    }
+
+    const before = { upVotes: answer.upVotes ?? [], downVotes: answer.downVotes ?? [] };
+    const result = getVotesAfterToggle(before, username, type);
+
+    await applyVoteReputation('answer', answer.ansBy, username, before, result, { qid, aid });
+
+    let msg = '';
+
+    if (type === 'upvote') {
+      msg = result.upVotes.includes(username)
+        ? 'Answer upvoted successfully'
+        : 'Upvote cancelled successfully';
+    } else {
+      msg = result.downVotes.includes(username)
+        ? 'Answer downvoted successfully'
+        : 'Downvote cancelled successfully';
+    }
+
+    return { msg, upVotes: result.upVotes, downVotes: result.downVotes };
+  } catch (err) {
+    return {
+      error:
+        type === 'upvote'
+          ? 'Error when adding upvote to answer'
+          : 'Error when adding downvote to answer',
+    };
+  }
+};
+
+/**
+ * Edits the text of an answer. The version being replaced is stored as a revision, along with the
+ * editor and the edit summary.
+ *
+ * @param {string} aid - The ID of the answer to edit
+ * @param {string} text - The new text of the answer
+ * @param {string} editedBy - The username of the user making the edit
+ * @param {string} summary - A description of the edit
+ *
+ * @returns {Promise<AnswerResponse>} - The edited answer, or an error message
+ */
+export const editAnswer = async (
+  aid: string,
+  text: string,
+  editedBy: string,
+  summary: string,
+): Promise<AnswerResponse> => {
+  try {
+    const answer = await AnswerModel.findById(aid);
+
+    if (!answer) {
+      return { error: 'Answer not found!' };
+    }
+
+    const revision = await saveRevision({
+      targetType: 'answer',
+      targetId: answer._id,
+      text: answer.text,
+      editedBy,
+      editedAt: new Date(),
+      summary,
+    });
+
+    if ('error' in revision) {
+      throw new Error(revision.error);
+    }
+
+    const result = await AnswerModel.findOneAndUpdate(
+      { _id: aid },
+      { $set: { text } },
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Answer not found!' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when editing the answer' };
+  }
+};
+
+/**
+ * Soft deletes an answer, hiding it and its comments from other users, or restores it.
+ *
+ * @param {string} aid - The ID of the answer
+ * @param {string | null} deletedBy - The username of the user deleting the answer, or `null` to restore it
+ *
+ * @returns {Promise<AnswerResponse>} - The updated answer, or an error message
+ */
+export const setAnswerDeleted = async (
+  aid: string,
+  deletedBy: string | null,
+): Promise<AnswerResponse> => {
+  try {
+    const result = await AnswerModel.findOneAndUpdate(
+      { _id: aid },
+      getDeletionUpdate<Answer>(deletedBy),
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Answer not found!' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: `Error when ${deletedBy ? 'deleting' : 'restoring'} the answer` };
+  }
+};
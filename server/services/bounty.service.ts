@@ -0,0 +1,278 @@
+import { ObjectId } from 'mongodb';
+import AnswerModel from '../models/answers.model';
+import QuestionModel from '../models/questions.model';
+import ReputationEventModel from '../models/reputationEvents.model';
+import UserModel from '../models/users.model';
+import {
+  Bounty,
+  BountyResolution,
+  BountyResolutionResponse,
+  QuestionResponse,
+} from '../types/types';
+import { changeReputation } from './reputation.service';
+
+/**
+ * The smallest number of reputation points a bounty can offer.
+ */
+export const BOUNTY_MIN_AMOUNT = 50;
+
+/**
+ * The largest number of reputation points a bounty can offer.
+ */
+export const BOUNTY_MAX_AMOUNT = 500;
+
+/**
+ * The number of days a bounty stays open when no duration is given.
+ */
+export const BOUNTY_DEFAULT_DAYS = 7;
+
+/**
+ * The largest number of days a bounty can stay open.
+ */
+export const BOUNTY_MAX_DAYS = 14;
+
+/**
+ * The number of milliseconds in a day.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Closes the open bounty of a question, unless it was closed or replaced in the meantime, so that
+ * a bounty is never paid out twice.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {Bounty} bounty - The bounty to close
+ *
+ * @returns {Promise<boolean>} - `true` if the bounty was closed by this call
+ */
+const closeBounty = async (qid: string, bounty: Bounty): Promise<boolean> => {
+  const result = await QuestionModel.findOneAndUpdate(
+    { '_id': qid, 'bounty.offeredAt': bounty.offeredAt },
+    { $set: { bounty: null } },
+    { new: true },
+  );
+
+  return !!result;
+};
+
+/**
+ * Offers a bounty on a question, paid from the reputation of the user offering it. A question
+ * can only have one open bounty, and only while none of its answers is accepted.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string} username - The username of the user offering the bounty
+ * @param {number} amount - The reputation points offered
+ * @param {number} days - The number of days before the bounty expires
+ *
+ * @returns {Promise<QuestionResponse>} - The question with its bounty, or an error message
+ */
+export const offerBounty = async (
+  qid: string,
+  username: string,
+  amount: number,
+  days: number,
+): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOne({ _id: qid, deletedAt: null }).select(
+      'bounty acceptedAnswer',
+    );
+
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+
+    if (question.bounty) {
+      return { error: 'Question already has a bounty' };
+    }
+
+    if (question.acceptedAnswer) {
+      return { error: 'Question already has an accepted answer' };
+    }
+
+    const payer = await UserModel.findOneAndUpdate(
+      { username, reputation: { $gte: amount } },
+      { $inc: { reputation: -amount } },
+    );
+
+    if (!payer) {
+      return { error: 'Not enough reputation' };
+    }
+
+    const offeredAt = new Date();
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid, bounty: null },
+      {
+        $set: {
+          bounty: {
+            amount,
+            offeredBy: username,
+            offeredAt,
+            expiresAt: new Date(offeredAt.getTime() + days * DAY_MS),
+          },
+        },
+      },
+      { new: true },
+    );
+
+    if (!result) {
+      // Another bounty was offered in the meantime, so the payment is given back
+      await UserModel.updateOne({ username }, { $inc: { reputation: amount } });
+      return { error: 'Question already has a bounty' };
+    }
+
+    await ReputationEventModel.create({ username, change: -amount, reason: 'bountyOffered', qid });
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when offering the bounty' };
+  }
+};
+
+/**
+ * Awards the open bounty of a question to one of its answers, whose author gains the offered
+ * reputation. The bounty cannot be awarded to an answer of the user who offered it.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string} aid - The ID of the answer
+ *
+ * @returns {Promise<BountyResolutionResponse>} - How the bounty was closed, or an error message
+ */
+export const awardBounty = async (qid: string, aid: string): Promise<BountyResolutionResponse> => {
+  try {
+    const question = await QuestionModel.findById(qid).select('title bounty answers').lean();
+
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+
+    const { bounty } = question;
+
+    if (!bounty) {
+      return { error: 'Question has no bounty' };
+    }
+
+    const answer = (question.answers as ObjectId[]).some(id => id.toString() === aid)
+      ? await AnswerModel.findOne({ _id: aid, deletedAt: null }).select('ansBy')
+      : null;
+
+    if (!answer) {
+      return { error: 'Answer not found' };
+    }
+
+    if (answer.ansBy === bounty.offeredBy) {
+      return { error: 'The bounty cannot be awarded to an answer of the user who offered it' };
+    }
+
+    if (!(await closeBounty(qid, bounty))) {
+      return { error: 'Question has no bounty' };
+    }
+
+    const user = await changeReputation(answer.ansBy, bounty.amount, 'bountyAwarded', { qid, aid });
+
+    if ('error' in user) {
+      throw new Error(user.error);
+    }
+
+    return { qid, title: question.title, bounty, awardedTo: answer.ansBy };
+  } catch (error) {
+    return { error: 'Error when awarding the bounty' };
+  }
+};
+
+/**
+ * Finds the answer an expired bounty is awarded to: the accepted answer, or else the highest
+ * scored answer with a positive score. Answers of the user who offered the bounty are skipped.
+ *
+ * @param {string[]} answerIds - The IDs of the answers of the question
+ * @param {string | null} acceptedAnswer - The ID of the accepted answer, if any
+ * @param {Bounty} bounty - The expired bounty
+ *
+ * @returns {Promise<string | null>} - The ID of the answer, or `null` if none deserves the bounty
+ */
+const findBountyWinner = async (
+  answerIds: string[],
+  acceptedAnswer: string | null,
+  bounty: Bounty,
+): Promise<string | null> => {
+  const answers = await AnswerModel.find({
+    _id: { $in: answerIds },
+    deletedAt: null,
+    ansBy: { $ne: bounty.offeredBy },
+  }).select('upVotes downVotes');
+
+  const accepted = answers.find(a => a._id.toString() === acceptedAnswer);
+
+  if (accepted) {
+    return accepted._id.toString();
+  }
+
+  const [best] = answers
+    .map(a => ({ id: a._id.toString(), score: a.upVotes.length - a.downVotes.length }))
+    .filter(a => a.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  return best ? best.id : null;
+};
+
+/**
+ * Refunds an expired bounty that no answer deserves to the user who offered it.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string} title - The title of the question
+ * @param {Bounty} bounty - The expired bounty
+ *
+ * @returns {Promise<BountyResolutionResponse>} - How the bounty was closed, or an error message
+ */
+const refundBounty = async (
+  qid: string,
+  title: string,
+  bounty: Bounty,
+): Promise<BountyResolutionResponse> => {
+  if (!(await closeBounty(qid, bounty))) {
+    return { error: 'Question has no bounty' };
+  }
+
+  const user = await changeReputation(bounty.offeredBy, bounty.amount, 'bountyRefunded', { qid });
+
+  if ('error' in user) {
+    return { error: 'Error when refunding the bounty' };
+  }
+
+  return { qid, title, bounty, awardedTo: null };
+};
+
+/**
+ * Closes the bounties that have expired, awarding each to the answer that deserves it, or
+ * refunding it to the user who offered it if no answer does.
+ *
+ * @param {Date} now - The current date, before which bounties have expired
+ *
+ * @returns {Promise<BountyResolution[] | { error: string }>} - How each bounty was closed, or an error message
+ */
+export const resolveExpiredBounties = async (
+  now: Date = new Date(),
+): Promise<BountyResolution[] | { error: string }> => {
+  try {
+    const questions = await QuestionModel.find({ 'bounty.expiresAt': { $lte: now } })
+      .select('title bounty answers acceptedAnswer')
+      .lean();
+    // Each bounty is on a different question, so they are closed independently of each other
+    const resolutions = await Promise.all(
+      questions.map(async question => {
+        const qid = question._id.toString();
+        const bounty = question.bounty!;
+        const winner = await findBountyWinner(
+          (question.answers as ObjectId[]).map(id => id.toString()),
+          question.acceptedAnswer?.toString() ?? null,
+          bounty,
+        );
+
+        return winner ? awardBounty(qid, winner) : refundBounty(qid, question.title, bounty);
+      }),
+    );
+
+    return resolutions.filter((r): r is BountyResolution => !('error' in r));
+  } catch (error) {
+    return { error: 'Error when resolving expired bounties' };
+  }
+};
@@ -1,21 +1,35 @@
+import { ObjectId } from 'mongodb';
 import ChatModel from '../models/chat.model';
 import MessageModel from '../models/messages.model';
 import UserModel from '../models/users.model';
-import { Chat, ChatResponse, CreateChatPayload } from '../types/chat';
+import {
+  Chat,
+  ChatMessagesResponse,
+  ChatResponse,
+  CreateChatPayload,
+  UnreadCountResponse,
+} from '../types/chat';
 import { Message, MessageResponse } from '../types/message';
+import { CHAT_MESSAGES_PAGE_SIZE, populateMessages } from '../utils/database.util';
 
 /**
  * Creates and saves a new chat document in the database, saving messages dynamically.
+ * Chats with a name are group chats, owned and managed by the given owner.
  *
  * @param chat - The chat object to be saved, including full message objects.
+ * @param owner - The username of the owner of a group chat.
  * @returns {Promise<ChatResponse>} - Resolves with the saved chat or an error message.
  */
-export const saveChat = async (chatPayload: CreateChatPayload): Promise<ChatResponse> => {
+export const saveChat = async (
+  chatPayload: CreateChatPayload,
+  owner?: string,
+): Promise<ChatResponse> => {
   try {
     const messages = await Promise.all(chatPayload.messages.map(m => MessageModel.create(m)));
     const chat = {
       participants: chatPayload.participants,
       messages: messages.map(m => m._id),
+      ...(owner && { name: chatPayload.name, owner, admins: [owner] }),
     };
 
     const result = await ChatModel.create(chat);
@@ -91,6 +105,40 @@ export const getChat = async (chatId: string): Promise<ChatResponse> => {
   }
 };
 
+/**
+ * Retrieves a page of messages of a chat, enriched with the details of their senders.
+ *
+ * @param chatId - The ID of the chat to retrieve the messages of.
+ * @param before - The ID of a message of the chat. The page holds the messages sent right before
+ * it, or the latest messages if it is not given.
+ * @returns {Promise<ChatMessagesResponse>} - Resolves with the page of messages or an error message.
+ */
+export const getChatMessages = async (
+  chatId: string,
+  before?: string,
+): Promise<ChatMessagesResponse> => {
+  try {
+    const chat = await ChatModel.findById(chatId);
+    if (chat === null) {
+      return { error: `No chat found with ID: ${chatId}` };
+    }
+
+    const messageIds = chat.toObject().messages as unknown as ObjectId[];
+    const end = before
+      ? messageIds.findIndex(messageId => messageId.toString() === before)
+      : messageIds.length;
+    if (end === -1) {
+      return { error: `No message found with ID ${before} in chat ${chatId}` };
+    }
+
+    const start = Math.max(end - CHAT_MESSAGES_PAGE_SIZE, 0);
+    const messages = await populateMessages(messageIds.slice(start, end));
+    return { messages, hasMore: start > 0 };
+  } catch (error) {
+    return { error: `Error when retrieving chat messages: ${error}` };
+  }
+};
+
 /**
  * Retrieves chats that include all the provided participants.
  * @param p An array of participant usernames to match in the chat's participants.
@@ -110,22 +158,22 @@ export const getChatsByParticipants = async (p: string[]): Promise<Chat[]> => {
  * Adds a participant to an existing chat.
  *
  * @param chatId - The ID of the chat to update.
- * @param userId - The ID of the user to add to the chat.
+ * @param username - The username of the user to add to the chat.
  * @returns {Promise<ChatResponse>} - Resolves with the updated chat object or an error message.
  */
 export const addParticipantToChat = async (
   chatId: string,
-  userId: string,
+  username: string,
 ): Promise<ChatResponse> => {
   try {
-    const user = await UserModel.findById(userId);
+    const user = await UserModel.findOne({ username });
     if (user === null) {
-      return { error: `No user found with ID: ${userId}` };
+      return { error: `No user found with username: ${username}` };
     }
 
     const result = await ChatModel.findByIdAndUpdate(
       chatId,
-      { $addToSet: { participants: userId } },
+      { $addToSet: { participants: username } },
       { new: true },
     );
     if (result === null) {
@@ -137,3 +185,181 @@ export const addParticipantToChat = async (
     return { error: `Error when adding participant to chat: ${error}` };
   }
 };
+
+/**
+ * Removes a participant from a chat, along with their admin role if they had one.
+ *
+ * @param chatId - The ID of the chat to update.
+ * @param username - The username of the participant to remove.
+ * @returns {Promise<ChatResponse>} - Resolves with the updated chat object or an error message.
+ */
+export const removeParticipantFromChat = async (
+  chatId: string,
+  username: string,
+): Promise<ChatResponse> => {
+  try {
+    const result = await ChatModel.findByIdAndUpdate(
+      chatId,
+      { $pull: { participants: username, admins: username } },
+      { new: true },
+    );
+    if (result === null) {
+      return { error: `No chat found with ID: ${chatId}` };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: `Error when removing participant from chat: ${error}` };
+  }
+};
+
+/**
+ * Renames a group chat.
+ *
+ * @param chatId - The ID of the chat to update.
+ * @param name - The new name of the chat.
+ * @returns {Promise<ChatResponse>} - Resolves with the updated chat object or an error message.
+ */
+export const renameChat = async (chatId: string, name: string): Promise<ChatResponse> => {
+  try {
+    const result = await ChatModel.findByIdAndUpdate(chatId, { $set: { name } }, { new: true });
+    if (result === null) {
+      return { error: `No chat found with ID: ${chatId}` };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: `Error when renaming chat: ${error}` };
+  }
+};
+
+/**
+ * Makes a participant the owner of a group chat. The new owner is also made an admin, and the
+ * previous owner stays one.
+ *
+ * @param chatId - The ID of the chat to update.
+ * @param username - The username of the participant to make the owner.
+ * @returns {Promise<ChatResponse>} - Resolves with the updated chat object or an error message.
+ */
+export const transferChatOwnership = async (
+  chatId: string,
+  username: string,
+): Promise<ChatResponse> => {
+  try {
+    const result = await ChatModel.findOneAndUpdate(
+      { _id: chatId, participants: username },
+      { $set: { owner: username }, $addToSet: { admins: username } },
+      { new: true },
+    );
+    if (result === null) {
+      return { error: `No chat found with ID ${chatId} and participant ${username}` };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: `Error when transferring chat ownership: ${error}` };
+  }
+};
+
+/**
+ * Makes a participant of a group chat an admin, or removes them as one.
+ *
+ * @param chatId - The ID of the chat to update.
+ * @param username - The username of the participant.
+ * @param admin - Whether the participant should be an admin.
+ * @returns {Promise<ChatResponse>} - Resolves with the updated chat object or an error message.
+ */
+export const setChatAdmin = async (
+  chatId: string,
+  username: string,
+  admin: boolean,
+): Promise<ChatResponse> => {
+  try {
+    const result = await ChatModel.findOneAndUpdate(
+      { _id: chatId, participants: username },
+      admin ? { $addToSet: { admins: username } } : { $pull: { admins: username } },
+      { new: true },
+    );
+    if (result === null) {
+      return { error: `No chat found with ID ${chatId} and participant ${username}` };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: `Error when updating chat admins: ${error}` };
+  }
+};
+
+/**
+ * Marks a chat as read by one of its participants, up to its latest message.
+ *
+ * @param chatId - The ID of the chat to mark as read.
+ * @param username - The username of the participant who read the chat.
+ * @returns {Promise<ChatResponse>} - Resolves with the updated chat object or an error message.
+ */
+export const markChatRead = async (chatId: string, username: string): Promise<ChatResponse> => {
+  try {
+    // Replaces the receipt of the participant in a single update, so that they never have two
+    const updatedChat = await ChatModel.findOneAndUpdate(
+      { _id: chatId, participants: username },
+      [
+        {
+          $set: {
+            lastRead: {
+              $concatArrays: [
+                {
+                  $filter: {
+                    input: { $ifNull: ['$lastRead', []] },
+                    cond: { $ne: ['$$this.username', username] },
+                  },
+                },
+                [{ username, messageId: { $arrayElemAt: ['$messages', -1] } }],
+              ],
+            },
+          },
+        },
+      ],
+      { new: true },
+    );
+    if (!updatedChat) {
+      return { error: `No chat found with ID ${chatId} and participant ${username}` };
+    }
+    return updatedChat;
+  } catch (error) {
+    return { error: `Error when marking chat as read: ${error}` };
+  }
+};
+
+/**
+ * Counts the messages of a chat, sent by others, that a participant has not read yet. Deleted
+ * messages are not counted.
+ *
+ * @param chat - The chat, with its messages not populated.
+ * @param username - The username of the participant.
+ * @returns {Promise<UnreadCountResponse>} - Resolves with the number of unread messages or an error message.
+ */
+export const countUnreadMessages = async (
+  chat: Chat,
+  username: string,
+): Promise<UnreadCountResponse> => {
+  try {
+    const messageIds = chat.messages as unknown as ObjectId[];
+    const receipt = chat.lastRead?.find(lastRead => lastRead.username === username);
+    const firstUnread = receipt
+      ? messageIds.findIndex(messageId => messageId.toString() === receipt.messageId?.toString()) +
+        1
+      : 0;
+    const unreadIds = messageIds.slice(firstUnread);
+    if (unreadIds.length === 0) {
+      return 0;
+    }
+
+    return await MessageModel.countDocuments({
+      _id: { $in: unreadIds },
+      msgFrom: { $ne: username },
+      deletedAt: null,
+    });
+  } catch (error) {
+    return { error: `Error when counting unread messages: ${error}` };
+  }
+};
@@ -0,0 +1,326 @@
+import { ObjectId } from 'mongodb';
+import { FilterQuery } from 'mongoose';
+import QuestionModel from '../models/questions.model';
+import { CloseReason, Question, QuestionResponse, QuestionStatus } from '../types/types';
+import { getVisibilityFilter } from '../utils/deletion.util';
+
+/**
+ * The reputation a user needs to vote to close or reopen a question.
+ */
+export const CLOSE_VOTE_REPUTATION = 500;
+
+/**
+ * The number of votes that must agree on a reason, and original for duplicates, to close a question.
+ */
+export const CLOSE_VOTES_NEEDED = 3;
+
+/**
+ * The number of votes needed to reopen a closed question.
+ */
+export const REOPEN_VOTES_NEEDED = 3;
+
+/**
+ * The reasons a question can be closed for.
+ */
+export const CLOSE_REASONS: CloseReason[] = [
+  'duplicate',
+  'offTopic',
+  'unclear',
+  'needsFocus',
+  'opinionBased',
+];
+
+/**
+ * Builds the filter matching a visible question with the given status. Questions created before
+ * statuses existed have none, and are open.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {QuestionStatus} status - The status the question must have
+ *
+ * @returns {FilterQuery<Question>} - The filter on the question
+ */
+const getStatusFilter = (qid: string, status: QuestionStatus): FilterQuery<Question> => ({
+  _id: qid,
+  ...getVisibilityFilter(),
+  status: status === 'open' ? { $in: ['open', null] } : status,
+});
+
+/**
+ * Finds the status of a question, or of the question an answer belongs to.
+ *
+ * @param {string} id - The ID of the question or answer
+ * @param {'question' | 'answer'} type - Whether the ID is of a question or an answer
+ *
+ * @returns {Promise<QuestionStatus | { error: string }>} - The status, or an error message
+ */
+export const getQuestionStatus = async (
+  id: string,
+  type: 'question' | 'answer',
+): Promise<QuestionStatus | { error: string }> => {
+  try {
+    const question =
+      type === 'question'
+        ? await QuestionModel.findOne({ _id: id, ...getVisibilityFilter() }).select('status')
+        : await QuestionModel.findOne({ answers: id, ...getVisibilityFilter() }).select('status');
+
+    if (!question) {
+      return { error: type === 'question' ? 'Question not found' : 'Answer not found' };
+    }
+
+    return question.status ?? 'open';
+  } catch (error) {
+    return { error: 'Error when finding the question status' };
+  }
+};
+
+/**
+ * Finds why a vote on a question could not be cast or retracted.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {QuestionStatus} status - The status the question needs for the vote
+ * @param {string} notVotedError - The error when the question has that status, but the vote is not allowed
+ *
+ * @returns {Promise<{ error: string }>} - The error message
+ */
+const getVoteError = async (
+  qid: string,
+  status: QuestionStatus,
+  notVotedError: string,
+): Promise<{ error: string }> => {
+  const current = await getQuestionStatus(qid, 'question');
+
+  if (typeof current !== 'string') {
+    return current;
+  }
+
+  return { error: current === status ? notVotedError : `Question is ${current}` };
+};
+
+/**
+ * Votes to close an open question. Votes for duplicates name the original question and, if that
+ * question is itself a duplicate, go to its original, so that duplicates always link to the
+ * original. The question is closed once enough votes agree on the reason, and original for
+ * duplicates, or at once for a binding vote, such as one by a moderator.
+ *
+ * @param {string} qid - The ID of the question to close
+ * @param {string} voter - The username of the user voting
+ * @param {CloseReason} reason - The reason to close the question for
+ * @param {string | undefined} duplicateOf - The ID of the original question, for duplicates
+ * @param {boolean} binding - Whether the vote closes the question on its own
+ *
+ * @returns {Promise<QuestionResponse>} - The question with the vote, or an error message
+ */
+export const voteToClose = async (
+  qid: string,
+  voter: string,
+  reason: CloseReason,
+  duplicateOf: string | undefined,
+  binding: boolean,
+): Promise<QuestionResponse> => {
+  try {
+    let target: ObjectId | null = null;
+
+    if (reason === 'duplicate') {
+      const original = await QuestionModel.findOne({
+        _id: duplicateOf,
+        ...getVisibilityFilter(),
+      }).select('duplicateOf');
+
+      if (!original) {
+        return { error: 'Original question not found' };
+      }
+
+      target = original.duplicateOf ?? original._id;
+
+      if (target.toString() === qid) {
+        return { error: 'A question cannot be a duplicate of itself' };
+      }
+    }
+
+    const voted = await QuestionModel.findOneAndUpdate(
+      { ...getStatusFilter(qid, 'open'), 'closeVotes.voter': { $ne: voter } },
+      { $push: { closeVotes: { voter, reason, duplicateOf: target } } },
+      { new: true },
+    );
+
+    if (!voted) {
+      return await getVoteError(qid, 'open', 'You already voted to close this question');
+    }
+
+    const agreeing = (voted.closeVotes ?? []).filter(
+      v => v.reason === reason && (!target || target.equals(v.duplicateOf ?? undefined)),
+    ).length;
+
+    if (!binding && agreeing < CLOSE_VOTES_NEEDED) {
+      return voted;
+    }
+
+    const closed = await QuestionModel.findOneAndUpdate(
+      getStatusFilter(qid, 'open'),
+      {
+        $set: {
+          status: 'closed',
+          closeReason: reason,
+          closedAt: new Date(),
+          duplicateOf: target,
+          reopenVotes: [],
+        },
+      },
+      { new: true },
+    );
+
+    return closed ?? voted;
+  } catch (error) {
+    return { error: 'Error when voting to close the question' };
+  }
+};
+
+/**
+ * Retracts the vote of a user to close a question, while the question is open.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string} voter - The username of the user who voted
+ *
+ * @returns {Promise<QuestionResponse>} - The question without the vote, or an error message
+ */
+export const retractCloseVote = async (qid: string, voter: string): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOneAndUpdate(
+      { ...getStatusFilter(qid, 'open'), 'closeVotes.voter': voter },
+      { $pull: { closeVotes: { voter } } },
+      { new: true },
+    );
+
+    if (!question) {
+      return await getVoteError(qid, 'open', 'You have not voted to close this question');
+    }
+
+    return question;
+  } catch (error) {
+    return { error: 'Error when retracting the vote' };
+  }
+};
+
+/**
+ * Votes to reopen a closed question. The question is reopened once enough users voted for it,
+ * or at once for a binding vote, such as one by a moderator. Reopening clears the reason the
+ * question was closed for, and all the votes, so that it can be voted on again.
+ *
+ * @param {string} qid - The ID of the question to reopen
+ * @param {string} voter - The username of the user voting
+ * @param {boolean} binding - Whether the vote reopens the question on its own
+ *
+ * @returns {Promise<QuestionResponse>} - The question with the vote, or an error message
+ */
+export const voteToReopen = async (
+  qid: string,
+  voter: string,
+  binding: boolean,
+): Promise<QuestionResponse> => {
+  try {
+    const voted = await QuestionModel.findOneAndUpdate(
+      { ...getStatusFilter(qid, 'closed'), reopenVotes: { $ne: voter } },
+      { $push: { reopenVotes: voter } },
+      { new: true },
+    );
+
+    if (!voted) {
+      return await getVoteError(qid, 'closed', 'You already voted to reopen this question');
+    }
+
+    if (!binding && (voted.reopenVotes ?? []).length < REOPEN_VOTES_NEEDED) {
+      return voted;
+    }
+
+    const reopened = await QuestionModel.findOneAndUpdate(
+      getStatusFilter(qid, 'closed'),
+      {
+        $set: {
+          status: 'open',
+          closeReason: null,
+          closedAt: null,
+          duplicateOf: null,
+          closeVotes: [],
+          reopenVotes: [],
+        },
+      },
+      { new: true },
+    );
+
+    return reopened ?? voted;
+  } catch (error) {
+    return { error: 'Error when voting to reopen the question' };
+  }
+};
+
+/**
+ * Retracts the vote of a user to reopen a question, while the question is closed.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string} voter - The username of the user who voted
+ *
+ * @returns {Promise<QuestionResponse>} - The question without the vote, or an error message
+ */
+export const retractReopenVote = async (qid: string, voter: string): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOneAndUpdate(
+      { ...getStatusFilter(qid, 'closed'), reopenVotes: voter },
+      { $pull: { reopenVotes: voter } },
+      { new: true },
+    );
+
+    if (!question) {
+      return await getVoteError(qid, 'closed', 'You have not voted to reopen this question');
+    }
+
+    return question;
+  } catch (error) {
+    return { error: 'Error when retracting the vote' };
+  }
+};
+
+/**
+ * Locks a question, or unlocks it. A locked question cannot be answered, commented on or voted
+ * to close or reopen. Unlocking a question puts it back the way it was before it was locked,
+ * closed if it had been closed and open otherwise.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {boolean} locked - Whether the question should be locked or unlocked
+ *
+ * @returns {Promise<QuestionResponse>} - The updated question, or an error message
+ */
+export const setQuestionLocked = async (
+  qid: string,
+  locked: boolean,
+): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findOne({ _id: qid, ...getVisibilityFilter() }).select(
+      'status closeReason',
+    );
+
+    if (!question) {
+      return { error: 'Question not found' };
+    }
+
+    const status = question.status ?? 'open';
+    const unlockedStatus: QuestionStatus = question.closeReason ? 'closed' : 'open';
+
+    if ((status === 'locked') === locked) {
+      return { error: locked ? 'Question is already locked' : 'Question is not locked' };
+    }
+
+    const updated = await QuestionModel.findOneAndUpdate(
+      getStatusFilter(qid, status),
+      { $set: { status: locked ? 'locked' : unlockedStatus } },
+      { new: true },
+    );
+
+    if (!updated) {
+      throw new Error('Question status changed');
+    }
+
+    return updated;
+  } catch (error) {
+    return { error: `Error when ${locked ? 'locking' : 'unlocking'} the question` };
+  }
+};
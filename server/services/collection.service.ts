@@ -0,0 +1,153 @@
+import CollectionModel from '../models/collections.model';
+import QuestionModel from '../models/questions.model';
+import {
+  Collection,
+  CollectionResponse,
+  CollectionsResponse,
+  CollectionUpdate,
+} from '../types/types';
+
+/**
+ * Saves a new collection to the database.
+ *
+ * @param {Collection} collection - The collection to save
+ *
+ * @returns {Promise<CollectionResponse>} - The saved collection, or an error message
+ */
+export const saveCollection = async (collection: Collection): Promise<CollectionResponse> => {
+  try {
+    return await CollectionModel.create(collection);
+  } catch (error) {
+    return { error: 'Error when saving a collection' };
+  }
+};
+
+/**
+ * Retrieves a collection by its ID.
+ *
+ * @param {string} id - The ID of the collection
+ *
+ * @returns {Promise<CollectionResponse>} - The collection, or an error message
+ */
+export const getCollectionById = async (id: string): Promise<CollectionResponse> => {
+  try {
+    const collection = await CollectionModel.findById(id);
+
+    if (!collection) {
+      return { error: 'Collection not found' };
+    }
+
+    return collection;
+  } catch (error) {
+    return { error: 'Error when fetching the collection' };
+  }
+};
+
+/**
+ * Retrieves the collections of a user, most recently changed first.
+ *
+ * @param {string} owner - The username of the user who owns the collections
+ * @param {boolean} sharedOnly - Whether only the collections the user shares are wanted
+ *
+ * @returns {Promise<CollectionsResponse>} - The collections, or an error message
+ */
+export const getCollectionsByOwner = async (
+  owner: string,
+  sharedOnly: boolean,
+): Promise<CollectionsResponse> => {
+  try {
+    return await CollectionModel.find({ owner, ...(sharedOnly ? { shared: true } : {}) }).sort({
+      updatedAt: -1,
+    });
+  } catch (error) {
+    return { error: 'Error when fetching collections' };
+  }
+};
+
+/**
+ * Updates the name, description or sharing of a collection.
+ *
+ * @param {string} id - The ID of the collection
+ * @param {CollectionUpdate} update - The details to change
+ *
+ * @returns {Promise<CollectionResponse>} - The updated collection, or an error message
+ */
+export const updateCollection = async (
+  id: string,
+  update: CollectionUpdate,
+): Promise<CollectionResponse> => {
+  try {
+    const result = await CollectionModel.findOneAndUpdate(
+      { _id: id },
+      { $set: update },
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Collection not found' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when updating the collection' };
+  }
+};
+
+/**
+ * Adds a question to a collection, or removes it. Adding a question that is already in the
+ * collection leaves it unchanged.
+ *
+ * @param {string} id - The ID of the collection
+ * @param {string} qid - The ID of the question
+ * @param {boolean} included - Whether the question should be in the collection
+ *
+ * @returns {Promise<CollectionResponse>} - The updated collection, or an error message
+ */
+export const setCollectionQuestion = async (
+  id: string,
+  qid: string,
+  included: boolean,
+): Promise<CollectionResponse> => {
+  try {
+    if (included && !(await QuestionModel.exists({ _id: qid }))) {
+      return { error: 'Question not found' };
+    }
+
+    const result = await CollectionModel.findOneAndUpdate(
+      { _id: id },
+      included ? { $addToSet: { questions: qid } } : { $pull: { questions: qid } },
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Collection not found' };
+    }
+
+    return result;
+  } catch (error) {
+    return {
+      error: `Error when ${included ? 'adding the question to' : 'removing the question from'} the collection`,
+    };
+  }
+};
+
+/**
+ * Deletes a collection. The questions in it are not affected.
+ *
+ * @param {string} id - The ID of the collection
+ *
+ * @returns {Promise<CollectionResponse>} - The deleted collection, or an error message
+ */
+export const deleteCollection = async (id: string): Promise<CollectionResponse> => {
+  try {
+    const result = await CollectionModel.findOneAndDelete({ _id: id });
+
+    if (!result) {
+      return { error: 'Collection not found' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when deleting the collection' };
+  }
+};
@@ -2,6 +2,7 @@ import { AnswerResponse, Comment, CommentResponse, QuestionResponse } from '../t
 import AnswerModel from '../models/answers.model';
 import QuestionModel from '../models/questions.model';
 import CommentModel from '../models/comments.model';
+import { getDeletionUpdate, getVisibilityFilter } from '../utils/deletion.util';
 
 /**
  * Saves a new comment to the database.
@@ -20,7 +21,7 @@ export const saveComment = async (comment: Comment): Promise<CommentResponse> =>
 };
 
 /**
- * Adds a comment to a question or answer.
+ * Adds a comment to a question or answer. Comments cannot be added to deleted questions or answers.
  *
  * @param id The ID of the question or answer to add a comment to
  * @param type The type of the comment, either 'question' or 'answer'
@@ -40,13 +41,13 @@ export const addComment = async (
     let result: QuestionResponse | AnswerResponse | null;
     if (type === 'question') {
       result = await QuestionModel.findOneAndUpdate(
-        { _id: id },
+        { _id: id, ...getVisibilityFilter() },
         { $push: { comments: { $each: [comment._id] } } },
         { new: true },
       );
     } else {
       result = await AnswerModel.findOneAndUpdate(
-        { _id: id },
+        { _id: id, ...getVisibilityFilter() },
         { $push: { comments: { $each: [comment._id] } } },
         { new: true },
       );
@@ -59,3 +60,53 @@ export const addComment = async (
     return { error: `Error when adding comment: ${(error as Error).message}` };
   }
 };
+
+/**
+ * Retrieves a comment by its ID, including soft deleted comments.
+ *
+ * @param {string} cid - The ID of the comment
+ *
+ * @returns {Promise<CommentResponse>} - The comment, or an error message
+ */
+export const getCommentById = async (cid: string): Promise<CommentResponse> => {
+  try {
+    const comment = await CommentModel.findById(cid);
+
+    if (!comment) {
+      return { error: 'Comment not found!' };
+    }
+
+    return comment;
+  } catch (error) {
+    return { error: 'Error when fetching the comment' };
+  }
+};
+
+/**
+ * Soft deletes a comment, hiding it from other users, or restores it.
+ *
+ * @param {string} cid - The ID of the comment
+ * @param {string | null} deletedBy - The username of the user deleting the comment, or `null` to restore it
+ *
+ * @returns {Promise<CommentResponse>} - The updated comment, or an error message
+ */
+export const setCommentDeleted = async (
+  cid: string,
+  deletedBy: string | null,
+): Promise<CommentResponse> => {
+  try {
+    const result = await CommentModel.findOneAndUpdate(
+      { _id: cid },
+      getDeletionUpdate<Comment>(deletedBy),
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Comment not found!' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: `Error when ${deletedBy ? 'deleting' : 'restoring'} the comment` };
+  }
+};
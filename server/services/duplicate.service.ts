@@ -0,0 +1,93 @@
+import { ObjectId } from 'mongodb';
+import AnswerModel from '../models/answers.model';
+import QuestionModel from '../models/questions.model';
+import { SimilarQuestion, SimilarQuestionsResponse } from '../types/types';
+import { getVisibilityFilter } from '../utils/deletion.util';
+import { findTagIds } from './tag.service';
+
+/**
+ * The largest number of similar questions suggested for a new question.
+ */
+export const SIMILAR_QUESTIONS_LIMIT = 5;
+
+/**
+ * How much each tag shared with the new question adds to the similarity of a question, relative
+ * to its text score.
+ */
+export const SHARED_TAG_WEIGHT = 0.75;
+
+/**
+ * Finds the existing questions most similar to a question being written. Questions are matched
+ * by the words of the title and text against the text index, where the title weighs more, and
+ * rank higher for each tag they share with the new question.
+ * Deleted questions, and questions already closed as duplicates, are left out, and deleted
+ * answers are not counted.
+ *
+ * @param {string} title - The title of the new question
+ * @param {string} text - The text of the new question
+ * @param {string[]} tags - The names of the tags of the new question
+ * @param {string} exclude - The ID of a question to leave out, such as the question itself
+ *
+ * @returns {Promise<SimilarQuestionsResponse>} - The most similar questions first, or an error message
+ */
+export const getSimilarQuestions = async (
+  title: string,
+  text: string = '',
+  tags: string[] = [],
+  exclude?: string,
+): Promise<SimilarQuestionsResponse> => {
+  // Only words are searched for, so that quotes and dashes are not read as search operators
+  const words = `${title} ${text}`.match(/\w+/g) ?? [];
+
+  if (words.length === 0) {
+    return [];
+  }
+
+  try {
+    const tagIds = tags.length > 0 ? await findTagIds(tags) : [];
+
+    return await QuestionModel.aggregate<SimilarQuestion>([
+      {
+        $match: {
+          $text: { $search: words.join(' ') },
+          ...getVisibilityFilter(),
+          duplicateOf: null,
+          ...(exclude ? { _id: { $ne: new ObjectId(exclude) } } : {}),
+        },
+      },
+      {
+        $addFields: {
+          similarity: {
+            $add: [
+              { $meta: 'textScore' },
+              {
+                $multiply: [{ $size: { $setIntersection: ['$tags', tagIds] } }, SHARED_TAG_WEIGHT],
+              },
+            ],
+          },
+        },
+      },
+      { $sort: { similarity: -1, _id: -1 } },
+      { $limit: SIMILAR_QUESTIONS_LIMIT },
+      {
+        $lookup: {
+          from: AnswerModel.collection.name,
+          localField: 'answers',
+          foreignField: '_id',
+          pipeline: [{ $match: getVisibilityFilter() }, { $project: { _id: 1 } }],
+          as: 'visibleAnswers',
+        },
+      },
+      {
+        $project: {
+          title: 1,
+          similarity: 1,
+          answerCount: { $size: '$visibleAnswers' },
+          accepted: { $ne: [{ $ifNull: ['$acceptedAnswer', null] }, null] },
+        },
+      },
+    ]);
+  } catch (error) {
+    return { error: 'Error when finding similar questions' };
+  }
+};
@@ -17,6 +17,72 @@ export const saveMessage = async (message: Message): Promise<MessageResponse> =>
   }
 };
 
+/**
+ * Retrieves a message by its ID.
+ *
+ * @param {string} messageId - The ID of the message to retrieve
+ *
+ * @returns {Promise<MessageResponse>} - The message or an error message
+ */
+export const getMessage = async (messageId: string): Promise<MessageResponse> => {
+  try {
+    const message = await MessageModel.findById(messageId);
+    if (!message) {
+      return { error: `No message found with ID: ${messageId}` };
+    }
+    return message;
+  } catch (error) {
+    return { error: `Error when retrieving a message: ${error}` };
+  }
+};
+
+/**
+ * Replaces the text of a message and records when it was edited.
+ *
+ * @param {string} messageId - The ID of the message to edit
+ * @param {string} msg - The new text of the message
+ *
+ * @returns {Promise<MessageResponse>} - The edited message or an error message
+ */
+export const editMessage = async (messageId: string, msg: string): Promise<MessageResponse> => {
+  try {
+    const message = await MessageModel.findOneAndUpdate(
+      { _id: messageId, deletedAt: null },
+      { $set: { msg, editedAt: new Date() } },
+      { new: true },
+    );
+    if (!message) {
+      return { error: `No message found with ID: ${messageId}` };
+    }
+    return message;
+  } catch (error) {
+    return { error: `Error when editing a message: ${error}` };
+  }
+};
+
+/**
+ * Deletes a message, leaving a tombstone without its text in its place.
+ *
+ * @param {string} messageId - The ID of the message to delete
+ *
+ * @returns {Promise<MessageResponse>} - The deleted message or an error message
+ */
+export const deleteMessage = async (messageId: string): Promise<MessageResponse> => {
+  try {
+    const message = await MessageModel.findOneAndUpdate(
+      { _id: messageId, deletedAt: null },
+      { $set: { msg: '', deletedAt: new Date() } },
+      { new: true },
+    );
+    if (!message) {
+      return { error: `No message found with ID: ${messageId}` };
+    }
+    return message;
+  } catch (error) {
+    return { error: `Error when deleting a message: ${error}` };
+  }
+};
+
 /**
  * Retrieves all global messages from the database, sorted by date in ascending order.
  *
@@ -0,0 +1,146 @@
+import AnswerModel from '../models/answers.model';
+import NotificationModel from '../models/notifications.model';
+import QuestionModel from '../models/questions.model';
+import {
+  Notification,
+  NotificationListResponse,
+  NotificationResponse,
+  NotificationTargetResponse,
+} from '../types/types';
+
+/**
+ * The number of recent notifications returned when fetching the notifications of a user.
+ */
+export const NOTIFICATION_LIST_SIZE = 20;
+
+/**
+ * Saves a new notification to the database.
+ *
+ * @param {Notification} notification - The notification to save
+ *
+ * @returns {Promise<NotificationResponse>} - The saved notification, or an error message
+ */
+export const saveNotification = async (
+  notification: Notification,
+): Promise<NotificationResponse> => {
+  try {
+    return await NotificationModel.create(notification);
+  } catch (error) {
+    return { error: 'Error when saving a notification' };
+  }
+};
+
+/**
+ * Finds the author of a question or answer, and the question it relates to, so that they can be
+ * notified of activity on it.
+ *
+ * @param {string} id - The ID of the question or answer
+ * @param {'question' | 'answer'} type - Whether the ID is of a question or an answer
+ *
+ * @returns {Promise<NotificationTargetResponse>} - The author and question, or an error message
+ */
+export const getNotificationTarget = async (
+  id: string,
+  type: 'question' | 'answer',
+): Promise<NotificationTargetResponse> => {
+  try {
+    if (type === 'question') {
+      const question = await QuestionModel.findById(id).select('askedBy title');
+
+      if (!question) {
+        return { error: 'Question not found' };
+      }
+
+      return { author: question.askedBy, qid: question._id, title: question.title };
+    }
+
+    const answer = await AnswerModel.findById(id).select('ansBy');
+    const question = await QuestionModel.findOne({ answers: id }).select('title');
+
+    if (!answer || !question) {
+      return { error: 'Answer not found' };
+    }
+
+    return { author: answer.ansBy, qid: question._id, title: question.title };
+  } catch (error) {
+    return { error: 'Error when finding the notification target' };
+  }
+};
+
+/**
+ * Retrieves the most recent notifications of a user, newest first, along with the number of
+ * notifications they have not read yet.
+ *
+ * @param {string} username - The username of the recipient
+ *
+ * @returns {Promise<NotificationListResponse>} - The notifications and the unread count, or an error message
+ */
+export const getNotifications = async (username: string): Promise<NotificationListResponse> => {
+  try {
+    const [notifications, unreadCount] = await Promise.all([
+      NotificationModel.find({ recipient: username })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(NOTIFICATION_LIST_SIZE),
+      NotificationModel.countDocuments({ recipient: username, read: false }),
+    ]);
+
+    return { notifications, unreadCount };
+  } catch (error) {
+    return { error: 'Error when fetching notifications' };
+  }
+};
+
+/**
+ * Marks a notification as read or unread. Only the notifications of the specified user can be
+ * changed.
+ *
+ * @param {string} id - The ID of the notification
+ * @param {string} username - The username of the recipient
+ * @param {boolean} read - Whether the notification should be marked as read
+ *
+ * @returns {Promise<NotificationResponse>} - The updated notification, or an error message
+ */
+export const setNotificationRead = async (
+  id: string,
+  username: string,
+  read: boolean,
+): Promise<NotificationResponse> => {
+  try {
+    const notification = await NotificationModel.findOneAndUpdate(
+      { _id: id, recipient: username },
+      { $set: { read } },
+      { new: true },
+    );
+
+    if (!notification) {
+      return { error: 'Notification not found' };
+    }
+
+    return notification;
+  } catch (error) {
+    return { error: 'Error when updating the notification' };
+  }
+};
+
+/**
+ * Marks all the unread notifications of a user as read.
+ *
+ * @param {string} username - The username of the recipient
+ *
+ * @returns {Promise<number | { error: string }>} - The number of notifications that were marked
+ *          as read, or an error message
+ */
+export const markAllNotificationsRead = async (
+  username: string,
+): Promise<number | { error: string }> => {
+  try {
+    const result = await NotificationModel.updateMany(
+      { recipient: username, read: false },
+      { $set: { read: true } },
+    );
+
+    return result.modifiedCount;
+  } catch (error) {
+    return { error: 'Error when updating the notifications' };
+  }
+};
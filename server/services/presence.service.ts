@@ -0,0 +1,42 @@
+/**
+ * The number of open connections of each connected user. Users are online while they have at
+ * least one connection, e.g. one per open tab.
+ */
+const connectionCounts = new Map<string, number>();
+
+/**
+ * Records a new connection of a user.
+ *
+ * @param {string} username - The username of the user who connected
+ *
+ * @returns {boolean} - `true` if it is the first connection of the user, who just came online
+ */
+export const addConnection = (username: string): boolean => {
+  const count = connectionCounts.get(username) ?? 0;
+  connectionCounts.set(username, count + 1);
+  return count === 0;
+};
+
+/**
+ * Records that a connection of a user was closed.
+ *
+ * @param {string} username - The username of the user who disconnected
+ *
+ * @returns {boolean} - `true` if it was the last connection of the user, who just went offline
+ */
+export const removeConnection = (username: string): boolean => {
+  const count = connectionCounts.get(username) ?? 0;
+  if (count <= 1) {
+    connectionCounts.delete(username);
+    return count === 1;
+  }
+  connectionCounts.set(username, count - 1);
+  return false;
+};
+
+/**
+ * Lists the users who are currently online.
+ *
+ * @returns {string[]} - The usernames of the users with at least one open connection
+ */
+export const getOnlineUsers = (): string[] => [...connectionCounts.keys()];
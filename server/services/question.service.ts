@@ -1,108 +1,258 @@
 import { ObjectId } from 'mongodb';
-import { QueryOptions } from 'mongoose';
-import { OrderType, Question, QuestionResponse } from '../types/types';
+import { FilterQuery } from 'mongoose';
+import {
+  NumberRange,
+  Question,
+  QuestionEdit,
+  QuestionPageResponse,
+  QuestionQuery,
+  QuestionResponse,
+  SearchQuery,
+  Tag,
+} from '../types/types';
 import AnswerModel from '../models/answers.model';
 import QuestionModel from '../models/questions.model';
 import TagModel from '../models/tags.model';
 import CommentModel from '../models/comments.model';
-import { parseKeyword, parseTags } from '../utils/parse.util';
-import { checkTagInQuestion } from './tag.service';
+import UserModel from '../models/users.model';
+import { hasTextSearch } from '../utils/parse.util';
+import { getVoteUpdateOperation, getVotesAfterToggle } from '../utils/vote.util';
+import { getDeletionUpdate, getVisibilityFilter } from '../utils/deletion.util';
 import {
-  sortQuestionsByActive,
-  sortQuestionsByMostViews,
-  sortQuestionsByNewest,
-  sortQuestionsByUnanswered,
-} from '../utils/sort.util';
+  ACCEPTED_ANSWER_REPUTATION,
+  applyVoteReputation,
+  changeReputation,
+} from './reputation.service';
+import { saveRevision } from './revision.service';
+import getQuestionOrderStages from '../utils/sort.util';
+import buildSnippet from '../utils/snippet.util';
+import { findTextMatches } from './search.service';
+import { findTagIds } from './tag.service';
+
+/**
+ * The number of questions per page when no page size is requested.
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * The largest number of questions that can be requested per page.
+ */
+export const MAX_PAGE_SIZE = 100;
 
 /**
- * Checks if any keywords in the provided list exist in a given question's title or text.
+ * Builds the filter on a range of numbers.
  *
- * @param {Question} q - The question to check
- * @param {string[]} keywordlist - The list of keywords to check for
+ * @param {NumberRange} range - The inclusive range of accepted numbers
  *
- * @returns {boolean} - `true` if any keyword is present, `false` otherwise.
+ * @returns {{ $gte?: number; $lte?: number }} - The filter on the field holding the number
  */
-const checkKeywordInQuestion = (q: Question, keywordlist: string[]): boolean => {
-  for (const w of keywordlist) {
-    if (q.title.includes(w) || q.text.includes(w)) {
-      return true;
-    }
-  }
-
-  return false;
-};
+const getRangeFilter = ({ min, max }: NumberRange): { $gte?: number; $lte?: number } => ({
+  ...(min !== undefined ? { $gte: min } : {}),
+  ...(max !== undefined ? { $lte: max } : {}),
+});
 
 /**
- * Retrieves questions from the database, ordered by the specified criteria.
+ * Builds the query filter matching questions against a parsed search query, except for the
+ * number of answers and the score, which are only known further down the pipeline.
+ * A question matches the tags and keywords if it matched the text search for the keywords and
+ * phrases, or if it has any of the tags. Tags may be given by any of their synonyms.
+ * All the other parts of the query must match as well.
  *
- * @param {OrderType} order - The order type to filter the questions
+ * @param {SearchQuery} search - The parsed search query
+ * @param {string[] | null} textMatchIds - The IDs of the questions matching the keywords and
+ *        phrases, or `null` if the search query has neither
  *
- * @returns {Promise<Question[]>} - Promise that resolves to a list of ordered questions
+ * @returns {Promise<FilterQuery<Question>>} - The filter to merge into the question query
  */
-export const getQuestionsByOrder = async (order: OrderType): Promise<Question[]> => {
-  try {
-    let qlist = [];
-    if (order === 'active') {
-      qlist = await QuestionModel.find().populate([
-        { path: 'tags', model: TagModel },
-        { path: 'answers', model: AnswerModel },
-      ]);
-      return sortQuestionsByActive(qlist);
-    }
-    qlist = await QuestionModel.find().populate([{ path: 'tags', model: TagModel }]);
-    if (order === 'unanswered') {
-      return sortQuestionsByUnanswered(qlist);
-    }
-    if (order === 'newest') {
-      return sortQuestionsByNewest(qlist);
-    }
-    return sortQuestionsByMostViews(qlist);
-  } catch (error) {
-    return [];
+const getSearchFilter = async (
+  search: SearchQuery,
+  textMatchIds: string[] | null,
+): Promise<FilterQuery<Question>> => {
+  const conditions: FilterQuery<Question>[] = [];
+  const matchConditions: FilterQuery<Question>[] = [];
+
+  if (textMatchIds) {
+    matchConditions.push({ _id: { $in: textMatchIds.map(id => new ObjectId(id)) } });
+  }
+
+  if (search.tags.length > 0) {
+    matchConditions.push({ tags: { $in: await findTagIds(search.tags) } });
+  }
+
+  if (matchConditions.length > 0) {
+    conditions.push({ $or: matchConditions });
+  }
+
+  if (search.excludedTags.length > 0) {
+    conditions.push({ tags: { $nin: await findTagIds(search.excludedTags) } });
   }
+
+  // Keywords only contain word characters, so they can be used as patterns without escaping
+  search.excludedKeywords.forEach(w => {
+    const pattern = new RegExp(`\\b${w}\\b`, 'i');
+    conditions.push({ title: { $not: pattern }, text: { $not: pattern } });
+  });
+
+  if (search.user) {
+    conditions.push({ askedBy: search.user });
+  }
+
+  if (search.accepted !== undefined) {
+    conditions.push({ acceptedAnswer: search.accepted ? { $ne: null } : null });
+  }
+
+  if (search.created) {
+    const { from, to } = search.created;
+    conditions.push({
+      askDateTime: { ...(from ? { $gte: from } : {}), ...(to ? { $lt: to } : {}) },
+    });
+  }
+
+  return conditions.length > 0 ? { $and: conditions } : {};
 };
 
 /**
- * Filters a list of questions by the user who asked them.
+ * Builds the aggregation fields flagging the questions with any of the tags a user watches or
+ * ignores, for the `forYou` order.
  *
- * @param qlist The array of Question objects to be filtered.
- * @param askedBy The username of the user who asked the questions.
+ * @param {string} username - The username of the user whose feed is built
  *
- * @returns Filtered Question objects.
+ * @returns {Promise<Record<string, unknown>>} - The `isWatched` and `isIgnored` fields
  */
-export const filterQuestionsByAskedBy = (qlist: Question[], askedBy: string): Question[] =>
-  qlist.filter(q => q.askedBy === askedBy);
+const getTagPreferenceFields = async (username: string): Promise<Record<string, unknown>> => {
+  const user = await UserModel.findOne({ username }).select('watchedTags ignoredTags');
+  const [watchedIds, ignoredIds] = await Promise.all([
+    findTagIds(user?.watchedTags ?? []),
+    findTagIds(user?.ignoredTags ?? []),
+  ]);
+
+  return {
+    isWatched: { $gt: [{ $size: { $setIntersection: ['$tags', watchedIds] } }, 0] },
+    isIgnored: { $gt: [{ $size: { $setIntersection: ['$tags', ignoredIds] } }, 0] },
+  };
+};
 
 /**
- * Filters questions based on a search string containing tags and/or keywords.
+ * Retrieves a page of questions from the database, filtered and ordered by the specified criteria.
+ * Filtering, sorting and paging all happen in the database, and only the questions on the
+ * requested page are populated with their tags and answers.
+ * Keywords and phrases are looked up in the text indexes of questions, answers and comments, which
+ * also rank the questions for the `relevance` order, and the page then carries a snippet of each
+ * question.
+ * The `forYou` order is personalized with the tags the viewer watches and ignores.
+ * Soft deleted questions and answers are left out, unless `includeDeleted` is set.
  *
- * @param {Question[]} qlist - The list of questions to filter
- * @param {string} search - The search string containing tags and/or keywords
+ * @param {QuestionQuery} query - The filters, order and page of the questions
  *
- * @returns {Question[]} - The filtered list of questions matching the search criteria
+ * @returns {Promise<QuestionPageResponse>} - The page of questions and the total number of
+ *          matching questions, or an error message
  */
-export const filterQuestionsBySearch = (qlist: Question[], search: string): Question[] => {
-  const searchTags = parseTags(search);
-  const searchKeyword = parseKeyword(search);
+export const getQuestionPage = async (query: QuestionQuery): Promise<QuestionPageResponse> => {
+  const { order, search, askedBy, bookmarkedBy, questionIds, viewer, includeDeleted } = query;
+  const { page, pageSize } = query;
 
-  if (!qlist || qlist.length === 0) {
-    return [];
-  }
-  return qlist.filter((q: Question) => {
-    if (searchKeyword.length === 0 && searchTags.length === 0) {
-      return true;
-    }
+  try {
+    const visible = getVisibilityFilter(includeDeleted);
+    const isTextSearch = hasTextSearch(search);
+    const textMatches = isTextSearch
+      ? await findTextMatches(search.keywords, search.phrases, includeDeleted)
+      : new Map();
+    const searchFilter = await getSearchFilter(
+      search,
+      isTextSearch ? [...textMatches.keys()] : null,
+    );
+    const statsFilter: FilterQuery<Question> = {
+      ...(search.answers ? { answerCount: getRangeFilter(search.answers) } : {}),
+      ...(search.score ? { score: getRangeFilter(search.score) } : {}),
+    };
+    const preferenceFields =
+      order === 'forYou' && viewer ? await getTagPreferenceFields(viewer) : {};
+    const matchIds = [...textMatches.keys()].map(id => new ObjectId(id));
+    const matchScores = [...textMatches.values()].map(m => m.score);
+    const listFilter: FilterQuery<Question> = {
+      ...(askedBy ? { askedBy } : {}),
+      ...(bookmarkedBy ? { bookmarks: bookmarkedBy } : {}),
+      ...(questionIds ? { _id: { $in: questionIds.map(id => new ObjectId(id)) } } : {}),
+    };
 
-    if (searchKeyword.length === 0) {
-      return checkTagInQuestion(q, searchTags);
-    }
+    const [result] = await QuestionModel.aggregate<{
+      questions: { _id: ObjectId }[];
+      total: { count: number }[];
+    }>([
+      { $match: { ...visible, ...listFilter, ...searchFilter } },
+      {
+        $lookup: {
+          from: AnswerModel.collection.name,
+          localField: 'answers',
+          foreignField: '_id',
+          pipeline: [{ $match: visible }, { $project: { ansDateTime: 1 } }],
+          as: 'visibleAnswers',
+        },
+      },
+      {
+        $addFields: {
+          answerCount: { $size: '$visibleAnswers' },
+          lastAnswerTime: { $max: '$visibleAnswers.ansDateTime' },
+          viewCount: { $size: '$views' },
+          score: { $subtract: [{ $size: '$upVotes' }, { $size: '$downVotes' }] },
+          // Questions only matched by their tags are the least relevant
+          relevance: {
+            $let: {
+              vars: { index: { $indexOfArray: [matchIds, '$_id'] } },
+              in: {
+                $cond: [{ $gte: ['$$index', 0] }, { $arrayElemAt: [matchScores, '$$index'] }, 0],
+              },
+            },
+          },
+          ...preferenceFields,
+        },
+      },
+      ...(Object.keys(statsFilter).length > 0 ? [{ $match: statsFilter }] : []),
+      ...getQuestionOrderStages(order),
+      {
+        $facet: {
+          questions: [
+            { $skip: (page - 1) * pageSize },
+            { $limit: pageSize },
+            { $project: { _id: 1 } },
+          ],
+          total: [{ $count: 'count' }],
+        },
+      },
+    ]);
+
+    const ids = result?.questions.map(q => q._id.toString()) ?? [];
+    const qlist = await QuestionModel.find({ _id: { $in: ids } }).populate([
+      { path: 'tags', model: TagModel },
+      { path: 'answers', model: AnswerModel, match: visible },
+    ]);
+
+    // `find` does not keep the order of the IDs, so the page is put back in the aggregation order
+    const questionsById = new Map(qlist.map(q => [q._id.toString(), q]));
+    const questions = ids
+      .map(id => questionsById.get(id))
+      .filter((q): q is NonNullable<typeof q> => q !== undefined);
+
+    const total = result?.total[0]?.count ?? 0;
 
-    if (searchTags.length === 0) {
-      return checkKeywordInQuestion(q, searchKeyword);
+    if (!isTextSearch) {
+      return { questions, total, page, pageSize };
     }
 
-    return checkKeywordInQuestion(q, searchKeyword) || checkTagInQuestion(q, searchTags);
-  });
+    // Phrases are highlighted word by word, as the text index matches them
+    const terms = [...search.keywords, ...search.phrases.flatMap(p => p.match(/\w+/g) ?? [])];
+
+    const snippets = Object.fromEntries(
+      questions.map(q => [
+        q._id.toString(),
+        buildSnippet([q.title, q.text, ...(textMatches.get(q._id.toString())?.texts ?? [])], terms),
+      ]),
+    );
+
+    return { questions, total, page, pageSize, snippets };
+  } catch (error) {
+    return { error: 'Error when fetching questions' };
+  }
 };
 
 /**
@@ -110,17 +260,21 @@ export const filterQuestionsBySearch = (qlist: Question[], search: string): Ques
  *
  * @param {string} qid - The ID of the question to fetch.
  * @param {string} username - The username of the user requesting the question.
+ * @param {boolean} includeDeleted - Whether soft deleted content should be returned.
  *
  * @returns {Promise<QuestionResponse | null>} - Promise that resolves to the fetched question
- *          with incremented views, null if the question is not found, or an error message.
+ *          with incremented views, as a plain object, null if the question is not found, or an
+ *          error message.
  */
 export const fetchAndIncrementQuestionViewsById = async (
   qid: string,
   username: string,
+  includeDeleted: boolean = false,
 ): Promise<QuestionResponse | null> => {
   try {
+    const visible = getVisibilityFilter(includeDeleted);
     const q = await QuestionModel.findOneAndUpdate(
-      { _id: new ObjectId(qid) },
+      { _id: new ObjectId(qid), ...visible },
       { $addToSet: { views: username } },
       { new: true },
     ).populate([
@@ -131,16 +285,33 @@ export const fetchAndIncrementQuestionViewsById = async (
       {
         path: 'answers',
         model: AnswerModel,
-        populate: { path: 'comments', model: CommentModel },
+        match: visible,
+        populate: { path: 'comments', model: CommentModel, match: visible },
       },
-      { path: 'comments', model: CommentModel },
+      { path: 'comments', model: CommentModel, match: visible },
     ]);
-    return q;
+    return q ? q.toObject() : null;
   } catch (error) {
     return { error: 'Error when fetching and updating a question' };
   }
 };
 
+/**
+ * Checks whether a user bookmarked a question.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string} username - The username of the user
+ *
+ * @returns {Promise<boolean>} - Whether the user bookmarked the question, `false` if the check fails
+ */
+export const isQuestionBookmarked = async (qid: string, username: string): Promise<boolean> => {
+  try {
+    return !!(await QuestionModel.exists({ _id: qid, bookmarks: username }));
+  } catch (error) {
+    return false;
+  }
+};
+
 /**
  * Saves a new question to the database.
  *
@@ -158,7 +329,9 @@ export const saveQuestion = async (question: Question): Promise<QuestionResponse
 };
 
 /**
- * Adds a vote to a question.
+ * Adds a vote to a question, and updates the reputation of its author. The votes before the vote
+ * are read in the same atomic update, so quick repeated votes are each credited once. Soft deleted
+ * questions cannot be voted on.
  *
  * @param qid The ID of the question to add a vote to.
  * @param username The username of the user who voted.
@@ -172,61 +345,22 @@ export const addVoteToQuestion = async (
   username: string,
   type: 'upvote' | 'downvote',
 ): Promise<{ msg: string; upVotes: string[]; downVotes: string[] } | { error: string }> => {
-  let updateOperation: QueryOptions;
-
-  if (type === 'upvote') {
-    updateOperation = [
-      {
-        $set: {
-          upVotes: {
-            $cond: [
-              { $in: [username, '$upVotes'] },
-              { $filter: { input: '$upVotes', as: 'u', cond: { $ne: ['$$u', username] } } },
-              { $concatArrays: ['$upVotes', [username]] },
-            ],
-          },
-          downVotes: {
-            $cond: [
-              { $in: [username, '$upVotes'] },
-              '$downVotes',
-              { $filter: { input: '$downVotes', as: 'd', cond: { $ne: ['$$d', username] } } },
-            ],
-          },
-        },
-      },
-    ];
-  } else {
-    updateOperation = [
-      {
-        $set: {
-          downVotes: {
-            $cond: [
-              { $in: [username, '$downVotes'] },
-              { $filter: { input: '$downVotes', as: 'd', cond: { $ne: ['$$d', username] } } },
-              { $concatArrays: ['$downVotes', [username]] },
-            ],
-          },
-          upVotes: {
-            $cond: [
-              { $in: [username, '$downVotes'] },
-              '$upVotes',
-              { $filter: { input: '$upVotes', as: 'u', cond: { $ne: ['$$u', username] } } },
-            ],
-          },
-        },
-      },
-    ];
-  }
-
   try {
-    const result = await QuestionModel.findOneAndUpdate({ _id: qid }, updateOperation, {
-      new: true,
-    });
+    const question = await QuestionModel.findOneAndUpdate(
+      { _id: qid, ...getVisibilityFilter() },
+      getVoteUpdateOperation(username, type),
+      { new: false },
+    ).select('askedBy upVotes downVotes');
 
-    if (!result) {
+    if (!question) {
       return { error: 'Question not found!' };
     }
 
+    const before = { upVotes: question.upVotes ?? [], downVotes: question.downVotes ?? [] };
+    const result = getVotesAfterToggle(before, username, type);
+
+    await applyVoteReputation('question', question.askedBy, username, before, result, { qid });
+
     let msg = '';
 
     if (type === 'upvote') {
@@ -239,11 +373,7 @@ export const addVoteToQuestion = async (
         : 'Downvote cancelled successfully';
     }
 
-    return {
-      msg,
-      upVotes: result.upVotes || [],
-      downVotes: result.downVotes || [],
-    };
+    return { msg, upVotes: result.upVotes, downVotes: result.downVotes };
   } catch (err) {
     return {
       error:
@@ -253,3 +383,191 @@ export const addVoteToQuestion = async (
     };
   }
 };
+
+/**
+ * Sets the accepted answer of a question. The author of the newly accepted answer gains reputation,
+ * and the author of the previously accepted answer loses it. Accepting one's own answer does not
+ * change reputation.
+ *
+ * @param qid The ID of the question.
+ * @param aid The ID of the answer to accept, or `null` to unaccept the currently accepted answer.
+ *
+ * @returns A Promise that resolves to the updated question, or an error message.
+ */
+export const setAcceptedAnswer = async (
+  qid: string,
+  aid: string | null,
+): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findById(qid).select('askedBy acceptedAnswer');
+
+    if (!question) {
+      return { error: 'Question not found!' };
+    }
+
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      { $set: { acceptedAnswer: aid } },
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Question not found!' };
+    }
+
+    const previous = question.acceptedAnswer?.toString() ?? null;
+
+    if (previous !== aid) {
+      const changes = [
+        { id: previous, points: -ACCEPTED_ANSWER_REPUTATION },
+        { id: aid, points: ACCEPTED_ANSWER_REPUTATION },
+      ];
+
+      await Promise.all(
+        changes.map(async ({ id, points }) => {
+          const answer = id ? await AnswerModel.findById(id).select('ansBy') : null;
+
+          if (answer && answer.ansBy !== question.askedBy) {
+            await changeReputation(answer.ansBy, points, 'answerAccepted', { qid, aid: id! });
+          }
+        }),
+      );
+    }
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when setting the accepted answer' };
+  }
+};
+
+/**
+ * Edits the title, text and tags of a question. The version being replaced is stored as a
+ * revision, along with the editor and the edit summary.
+ *
+ * @param {string} qid - The ID of the question to edit
+ * @param {QuestionEdit} edit - The new content of the question, with already processed tags
+ * @param {string} editedBy - The username of the user making the edit
+ * @param {string} summary - A description of the edit
+ *
+ * @returns {Promise<QuestionResponse>} - The edited question, or an error message
+ */
+export const editQuestion = async (
+  qid: string,
+  edit: QuestionEdit,
+  editedBy: string,
+  summary: string,
+): Promise<QuestionResponse> => {
+  try {
+    const question = await QuestionModel.findById(qid).populate<{ tags: Tag[] }>({
+      path: 'tags',
+      model: TagModel,
+    });
+
+    if (!question) {
+      return { error: 'Question not found!' };
+    }
+
+    const revision = await saveRevision({
+      targetType: 'question',
+      targetId: question._id,
+      title: question.title,
+      text: question.text,
+      tags: question.tags.map(tag => tag.name),
+      editedBy,
+      editedAt: new Date(),
+      summary,
+    });
+
+    if ('error' in revision) {
+      throw new Error(revision.error);
+    }
+
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      { $set: { title: edit.title, text: edit.text, tags: edit.tags.map(tag => tag._id) } },
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Question not found!' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: 'Error when editing the question' };
+  }
+};
+
+/**
+ * Soft deletes a question, hiding it and its content from other users, or restores it.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string | null} deletedBy - The username of the user deleting the question, or `null` to restore it
+ *
+ * @returns {Promise<QuestionResponse>} - The updated question, or an error message
+ */
+export const setQuestionDeleted = async (
+  qid: string,
+  deletedBy: string | null,
+): Promise<QuestionResponse> => {
+  try {
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      getDeletionUpdate<Question>(deletedBy),
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Question not found!' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: `Error when ${deletedBy ? 'deleting' : 'restoring'} the question` };
+  }
+};
+
+/**
+ * Bookmarks a question for a user, or removes their bookmark. Bookmarking a question twice
+ * leaves it unchanged. The number of bookmarks is recounted in the same update, so it stays in
+ * step with the bookmarks when users bookmark the question at the same time.
+ *
+ * @param {string} qid - The ID of the question
+ * @param {string} username - The username of the user the bookmark belongs to
+ * @param {boolean} bookmarked - Whether the question should be bookmarked
+ *
+ * @returns {Promise<QuestionResponse>} - The updated question, or an error message
+ */
+export const setQuestionBookmarked = async (
+  qid: string,
+  username: string,
+  bookmarked: boolean,
+): Promise<QuestionResponse> => {
+  try {
+    const result = await QuestionModel.findOneAndUpdate(
+      { _id: qid },
+      [
+        {
+          $set: {
+            bookmarks: {
+              [bookmarked ? '$setUnion' : '$setDifference']: [
+                { $ifNull: ['$bookmarks', []] },
+                [username],
+              ],
+            },
+          },
+        },
+        { $set: { bookmarkCount: { $size: '$bookmarks' } } },
+      ],
+      { new: true },
+    );
+
+    if (!result) {
+      return { error: 'Question not found!' };
+    }
+
+    return result;
+  } catch (error) {
+    return { error: `Error when ${bookmarked ? 'bookmarking' : 'unbookmarking'} the question` };
+  }
+};
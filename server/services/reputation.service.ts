@@ -0,0 +1,134 @@
+import UserModel from '../models/users.model';
+import ReputationEventModel from '../models/reputationEvents.model';
+import {
+  ReputationHistoryResponse,
+  ReputationReason,
+  ReputationTarget,
+  UserResponse,
+  VoteState,
+} from '../types/types';
+
+/**
+ * The reputation points an author gains for each upvote on their questions.
+ */
+export const QUESTION_UPVOTE_REPUTATION = 5;
+
+/**
+ * The reputation points an author gains for each downvote on their questions.
+ */
+export const QUESTION_DOWNVOTE_REPUTATION = -2;
+
+/**
+ * The reputation points an author gains for each upvote on their answers.
+ */
+export const ANSWER_UPVOTE_REPUTATION = 10;
+
+/**
+ * The reputation points an author gains for each downvote on their answers.
+ */
+export const ANSWER_DOWNVOTE_REPUTATION = -2;
+
+/**
+ * The reputation points an author gains when one of their answers is accepted.
+ */
+export const ACCEPTED_ANSWER_REPUTATION = 15;
+
+/**
+ * Changes the reputation of a user and records the change in their reputation history.
+ *
+ * @param {string} username - The username of the user whose reputation changes.
+ * @param {number} change - The number of points to add, negative to remove points.
+ * @param {ReputationReason} reason - The action that caused the change.
+ * @param {ReputationTarget} target - The question (and answer) the change relates to.
+ *
+ * @returns {Promise<UserResponse>} - Resolves with the updated user, or an error message.
+ */
+export const changeReputation = async (
+  username: string,
+  change: number,
+  reason: ReputationReason,
+  target: ReputationTarget,
+): Promise<UserResponse> => {
+  try {
+    const user = await UserModel.findOneAndUpdate(
+      { username },
+      { $inc: { reputation: change } },
+      { new: true },
+    ).select('-password');
+
+    if (!user) {
+      throw Error('User not found');
+    }
+
+    await ReputationEventModel.create({ username, change, reason, ...target });
+
+    return user;
+  } catch (error) {
+    return { error: `Error occurred when changing reputation: ${error}` };
+  }
+};
+
+/**
+ * Updates the reputation of the author of a question or answer after a user toggled their vote on it.
+ * Each vote that was added or removed is recorded as a separate change. Votes on one's own
+ * content do not change reputation.
+ *
+ * @param {'question' | 'answer'} type - The type of the document that was voted on.
+ * @param {string} author - The username of the author of the document.
+ * @param {string} voter - The username of the user who voted.
+ * @param {VoteState} before - The votes of the document before the vote.
+ * @param {VoteState} after - The votes of the document after the vote.
+ * @param {ReputationTarget} target - The question (and answer) that was voted on.
+ *
+ * @returns {Promise<void>} - Resolves once the reputation has been updated.
+ */
+export const applyVoteReputation = async (
+  type: 'question' | 'answer',
+  author: string,
+  voter: string,
+  before: VoteState,
+  after: VoteState,
+  target: ReputationTarget,
+): Promise<void> => {
+  if (author === voter) {
+    return;
+  }
+
+  const votes = [
+    {
+      key: 'upVotes',
+      points: type === 'question' ? QUESTION_UPVOTE_REPUTATION : ANSWER_UPVOTE_REPUTATION,
+      reason: `${type}Upvote`,
+    },
+    {
+      key: 'downVotes',
+      points: type === 'question' ? QUESTION_DOWNVOTE_REPUTATION : ANSWER_DOWNVOTE_REPUTATION,
+      reason: `${type}Downvote`,
+    },
+  ] as const;
+
+  await Promise.all(
+    votes
+      .filter(({ key }) => before[key].includes(voter) !== after[key].includes(voter))
+      .map(({ key, points, reason }) =>
+        changeReputation(author, after[key].includes(voter) ? points : -points, reason, target),
+      ),
+  );
+};
+
+/**
+ * Retrieves the reputation history of a user, most recent changes first.
+ *
+ * @param {string} username - The username of the user.
+ *
+ * @returns {Promise<ReputationHistoryResponse>} - Resolves with the reputation changes, or an error message.
+ */
+export const getReputationHistory = async (
+  username: string,
+): Promise<ReputationHistoryResponse> => {
+  try {
+    return await ReputationEventModel.find({ username }).sort({ createdAt: -1 });
+  } catch (error) {
+    return { error: `Error occurred when retrieving reputation history: ${error}` };
+  }
+};
@@ -0,0 +1,58 @@
+import RevisionModel from '../models/revisions.model';
+import QuestionModel from '../models/questions.model';
+import AnswerModel from '../models/answers.model';
+import {
+  Revision,
+  RevisionHistoryResponse,
+  RevisionResponse,
+  RevisionTargetType,
+} from '../types/types';
+import { getVisibilityFilter } from '../utils/deletion.util';
+
+/**
+ * Saves a prior version of an edited question or answer to the database.
+ *
+ * @param {Revision} revision - The revision to save
+ *
+ * @returns {Promise<RevisionResponse>} - The saved revision, or an error message if the save failed
+ */
+export const saveRevision = async (revision: Revision): Promise<RevisionResponse> => {
+  try {
+    return await RevisionModel.create(revision);
+  } catch (error) {
+    return { error: 'Error when saving a revision' };
+  }
+};
+
+/**
+ * Retrieves the prior versions of a question or answer, oldest first.
+ * The history of a soft deleted post is hidden along with the post, unless `includeDeleted` is set.
+ *
+ * @param {RevisionTargetType} targetType - Whether the post is a question or an answer
+ * @param {string} targetId - The ID of the post
+ * @param {boolean} includeDeleted - Whether the history of a soft deleted post is returned
+ *
+ * @returns {Promise<RevisionHistoryResponse>} - The revisions, or an error message if the post
+ *          was not found or the query failed
+ */
+export const getRevisionHistory = async (
+  targetType: RevisionTargetType,
+  targetId: string,
+  includeDeleted: boolean = false,
+): Promise<RevisionHistoryResponse> => {
+  try {
+    const visibleTarget = { _id: targetId, ...getVisibilityFilter(includeDeleted) };
+    const targetExists =
+      targetType === 'question'
+        ? await QuestionModel.exists(visibleTarget)
+        : await AnswerModel.exists(visibleTarget);
+
+    if (!targetExists) {
+      return { error: `${targetType === 'question' ? 'Question' : 'Answer'} not found!` };
+    }
+
+    return await RevisionModel.find({ targetType, targetId }).sort({ editedAt: 1 });
+  } catch (error) {
+    return { error: 'Error when fetching revision history' };
+  }
+};
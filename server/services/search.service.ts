@@ -0,0 +1,142 @@
+import { ObjectId } from 'mongodb';
+import { PipelineStage } from 'mongoose';
+import AnswerModel from '../models/answers.model';
+import CommentModel from '../models/comments.model';
+import QuestionModel from '../models/questions.model';
+import { TextMatch } from '../types/types';
+import { getVisibilityFilter } from '../utils/deletion.util';
+
+/**
+ * How much a matching answer adds to the relevance of its question, relative to its text score.
+ */
+export const ANSWER_MATCH_WEIGHT = 0.5;
+
+/**
+ * How much a matching comment adds to the relevance of its question, relative to its text score.
+ */
+export const COMMENT_MATCH_WEIGHT = 0.25;
+
+/**
+ * Interface representing a document returned by a text search, with its text score.
+ */
+interface ScoredText {
+  _id: ObjectId;
+  text: string;
+  score: number;
+}
+
+/**
+ * Interface representing a question or answer with the IDs of its answers or comments.
+ */
+interface Parent {
+  _id: ObjectId;
+  answers?: ObjectId[];
+  comments?: ObjectId[];
+}
+
+/**
+ * Finds the questions matching a text search over the text indexes of questions, answers and
+ * comments. A question is matched by its own title and text, by the text of its answers, and by
+ * the text of the comments on the question or on its answers.
+ * A document matches if it contains all of the phrases and, when there are keywords, any of them.
+ * Soft deleted questions, answers and comments are left out, unless `includeDeleted` is set.
+ *
+ * @param {string[]} keywords - The search keywords
+ * @param {string[]} phrases - The phrases that must appear as written
+ * @param {boolean} includeDeleted - Whether soft deleted content should be searched
+ *
+ * @returns {Promise<Map<string, TextMatch>>} - The relevance of each matching question, and the
+ *          texts of the answers and comments that matched, by question ID
+ */
+export const findTextMatches = async (
+  keywords: string[],
+  phrases: string[] = [],
+  includeDeleted: boolean = false,
+): Promise<Map<string, TextMatch>> => {
+  const visible = getVisibilityFilter(includeDeleted);
+  const textSearch: PipelineStage[] = [
+    {
+      $match: {
+        $text: { $search: [...keywords, ...phrases.map(p => `"${p}"`)].join(' ') },
+        ...visible,
+      },
+    },
+    { $project: { text: 1, score: { $meta: 'textScore' } } },
+  ];
+
+  const [questions, answers, comments] = await Promise.all([
+    QuestionModel.aggregate<ScoredText>(textSearch),
+    AnswerModel.aggregate<ScoredText>(textSearch),
+    CommentModel.aggregate<ScoredText>(textSearch),
+  ]);
+
+  const matches = new Map<string, TextMatch>();
+
+  /**
+   * Adds to the relevance of a question, and records the matched text of its answer or comment.
+   */
+  const addMatch = (qid: ObjectId, score: number, text?: string) => {
+    const match = matches.get(qid.toString()) ?? { score: 0, texts: [] };
+    match.score += score;
+    if (text) {
+      match.texts.push(text);
+    }
+    matches.set(qid.toString(), match);
+  };
+
+  questions.forEach(q => addMatch(q._id, q.score));
+
+  if (answers.length === 0 && comments.length === 0) {
+    return matches;
+  }
+
+  const answersById = new Map(answers.map(a => [a._id.toString(), a]));
+  const commentsById = new Map(comments.map(c => [c._id.toString(), c]));
+  const commentIds = comments.map(c => c._id);
+
+  const [commentedQuestions, commentedAnswers] = await Promise.all([
+    QuestionModel.find({ comments: { $in: commentIds }, ...visible })
+      .select('comments')
+      .lean<Parent[]>(),
+    AnswerModel.find({ comments: { $in: commentIds }, ...visible })
+      .select('comments')
+      .lean<Parent[]>(),
+  ]);
+
+  commentedQuestions.forEach(q => {
+    (q.comments ?? [])
+      .map(cid => commentsById.get(cid.toString()))
+      .forEach(c => c && addMatch(q._id, c.score * COMMENT_MATCH_WEIGHT, c.text));
+  });
+
+  // Comments on answers count towards the question the answer belongs to
+  const answerComments = new Map(
+    commentedAnswers.map(a => [
+      a._id.toString(),
+      (a.comments ?? [])
+        .map(cid => commentsById.get(cid.toString()))
+        .filter((c): c is ScoredText => c !== undefined),
+    ]),
+  );
+
+  const answerParents = await QuestionModel.find({
+    answers: { $in: [...answers.map(a => a._id), ...commentedAnswers.map(a => a._id)] },
+    ...visible,
+  })
+    .select('answers')
+    .lean<Parent[]>();
+
+  answerParents.forEach(q => {
+    (q.answers ?? []).forEach(aid => {
+      const answer = answersById.get(aid.toString());
+      if (answer) {
+        addMatch(q._id, answer.score * ANSWER_MATCH_WEIGHT, answer.text);
+      }
+      (answerComments.get(aid.toString()) ?? []).forEach(c =>
+        addMatch(q._id, c.score * COMMENT_MATCH_WEIGHT, c.text),
+      );
+    });
+  });
+
+  return matches;
+};
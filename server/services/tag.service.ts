@@ -1,29 +1,36 @@
-import { Question, Tag } from '../types/types';
+import { ObjectId } from 'mongodb';
+import { Tag, TagResponse } from '../types/types';
 import QuestionModel from '../models/questions.model';
 import TagModel from '../models/tags.model';
+import { getVisibilityFilter } from '../utils/deletion.util';
 
 /**
- * Checks if given question contains any tags from the given list.
+ * Finds the tag with the given name, or the tag that has the name as a synonym.
  *
- * @param {Question} q - The question to check
- * @param {string[]} taglist - The list of tags to check for
+ * @param {string} name - The name or synonym of the tag
  *
- * @returns {boolean} - `true` if any tag is present in the question, `false` otherwise
+ * @returns {Promise<Tag | null>} - The canonical tag, or `null` if no tag has the name
  */
-export const checkTagInQuestion = (q: Question, taglist: string[]): boolean => {
-  for (const tagname of taglist) {
-    for (const tag of q.tags) {
-      if (tagname === tag.name) {
-        return true;
-      }
-    }
-  }
+export const findTagByName = async (name: string): Promise<Tag | null> =>
+  TagModel.findOne({ $or: [{ name }, { synonyms: name }] });
 
-  return false;
+/**
+ * Finds the IDs of the tags with the given names, or that have any of the names as a synonym.
+ *
+ * @param {string[]} names - The names or synonyms of the tags
+ *
+ * @returns {Promise<ObjectId[]>} - The IDs of the matching tags
+ */
+export const findTagIds = async (names: string[]): Promise<ObjectId[]> => {
+  const tags = await TagModel.find({
+    $or: [{ name: { $in: names } }, { synonyms: { $in: names } }],
+  }).select('_id');
+
+  return tags.map(t => t._id);
 };
 
 /**
- * Adds a tag to the database if it does not already exist.
+ * Adds a tag to the database if it does not already exist, either by name or as a synonym.
  *
  * @param {Tag} tag - The tag to add
  *
@@ -32,7 +39,7 @@ export const checkTagInQuestion = (q: Question, taglist: string[]): boolean => {
 export const addTag = async (tag: Tag): Promise<Tag | null> => {
   try {
     // Check if a tag with the given name already exists
-    const existingTag = await TagModel.findOne({ name: tag.name });
+    const existingTag = await findTagByName(tag.name);
 
     if (existingTag) {
       return existingTag as Tag;
@@ -51,6 +58,7 @@ export const addTag = async (tag: Tag): Promise<Tag | null> => {
 /**
  * Processes a list of tags by removing duplicates, checking for existing tags in the database,
  * and adding non-existing tags. Returns an array of the existing or newly added tags.
+ * Synonyms are replaced by the tag they belong to.
  * If an error occurs during the process, it is logged, and an empty array is returned.
  *
  * @param tags The array of Tag objects to be processed.
@@ -70,7 +78,7 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
     // Use Promise.all to asynchronously process each unique tag.
     const processedTags = await Promise.all(
       uniqueTags.map(async tag => {
-        const existingTag = await TagModel.findOne({ name: tag.name });
+        const existingTag = await findTagByName(tag.name);
 
         if (existingTag) {
           return existingTag; // If tag exists, return it as part of the processed tags
@@ -86,7 +94,11 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
       }),
     );
 
-    return processedTags;
+    // A tag and its synonym, or two synonyms of a tag, resolve to the same tag
+    return processedTags.filter(
+      (tag, index) =>
+        processedTags.findIndex(t => t._id?.toString() === tag._id?.toString()) === index,
+    );
   } catch (error: unknown) {
     // Log the error for debugging purposes
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -97,7 +109,7 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
 };
 
 /**
- * Gets a map of tags and their corresponding question counts.
+ * Gets a map of tags and their corresponding question counts. Deleted questions are not counted.
  *
  * @returns {Promise<Map<string, number> | null | { error: string }>} - A map of tags to their
  *          counts, `null` if there are no tags in the database, or the error message.
@@ -105,7 +117,7 @@ export const processTags = async (tags: Tag[]): Promise<Tag[]> => {
 export const getTagCountMap = async (): Promise<Map<string, number> | null | { error: string }> => {
   try {
     const tlist = await TagModel.find();
-    const qlist = await QuestionModel.find().populate({
+    const qlist = await QuestionModel.find(getVisibilityFilter()).populate({
       path: 'tags',
       model: TagModel,
     });
@@ -129,3 +141,140 @@ export const getTagCountMap = async (): Promise<Map<string, number> | null | { e
     return { error: 'Error when construction tag map' };
   }
 };
+
+/**
+ * Updates the description of a tag.
+ *
+ * @param {string} name - The name of the tag
+ * @param {string} description - The new description
+ *
+ * @returns {Promise<TagResponse>} - The updated tag, or an error message
+ */
+export const updateTagDescription = async (
+  name: string,
+  description: string,
+): Promise<TagResponse> => {
+  try {
+    const tag = await TagModel.findOneAndUpdate({ name }, { $set: { description } }, { new: true });
+
+    if (!tag) {
+      return { error: 'Tag not found' };
+    }
+
+    return tag;
+  } catch (error) {
+    return { error: 'Error when updating the tag description' };
+  }
+};
+
+/**
+ * Declares a synonym of a tag, so that questions tagged with the synonym get the tag instead.
+ * A name that is already a tag, or a synonym of another tag, cannot be added; the tags have to be
+ * merged instead.
+ *
+ * @param {string} name - The name of the tag
+ * @param {string} synonym - The synonym to add
+ *
+ * @returns {Promise<TagResponse>} - The updated tag, or an error message
+ */
+export const addTagSynonym = async (name: string, synonym: string): Promise<TagResponse> => {
+  try {
+    if (name === synonym) {
+      return { error: 'A tag cannot be a synonym of itself' };
+    }
+
+    const existingTag = await findTagByName(synonym);
+
+    if (existingTag && existingTag.name !== name) {
+      return {
+        error: `"${synonym}" is already used by the tag "${existingTag.name}", merge the tags instead`,
+      };
+    }
+
+    const tag = await TagModel.findOneAndUpdate(
+      { name },
+      { $addToSet: { synonyms: synonym } },
+      { new: true },
+    );
+
+    if (!tag) {
+      return { error: 'Tag not found' };
+    }
+
+    return tag;
+  } catch (error) {
+    return { error: 'Error when adding the tag synonym' };
+  }
+};
+
+/**
+ * Removes a synonym of a tag. Questions already tagged through the synonym keep the tag.
+ *
+ * @param {string} name - The name of the tag
+ * @param {string} synonym - The synonym to remove
+ *
+ * @returns {Promise<TagResponse>} - The updated tag, or an error message
+ */
+export const removeTagSynonym = async (name: string, synonym: string): Promise<TagResponse> => {
+  try {
+    const tag = await TagModel.findOneAndUpdate(
+      { name },
+      { $pull: { synonyms: synonym } },
+      { new: true },
+    );
+
+    if (!tag) {
+      return { error: 'Tag not found' };
+    }
+
+    return tag;
+  } catch (error) {
+    return { error: 'Error when removing the tag synonym' };
+  }
+};
+
+/**
+ * Merges a tag into another. The questions tagged with the source tag are tagged with the target
+ * tag instead, the name and synonyms of the source tag become synonyms of the target tag, and the
+ * source tag is removed.
+ *
+ * @param {string} sourceName - The name of the tag to merge, which is removed
+ * @param {string} targetName - The name of the tag to keep
+ *
+ * @returns {Promise<TagResponse>} - The target tag after the merge, or an error message
+ */
+export const mergeTags = async (sourceName: string, targetName: string): Promise<TagResponse> => {
+  try {
+    if (sourceName === targetName) {
+      return { error: 'A tag cannot be merged into itself' };
+    }
+
+    const [source, target] = await Promise.all([
+      TagModel.findOne({ name: sourceName }),
+      TagModel.findOne({ name: targetName }),
+    ]);
+
+    if (!source || !target) {
+      return { error: 'Tag not found' };
+    }
+
+    // Questions tagged with both tags end up with a single reference to the target
+    await QuestionModel.updateMany({ tags: source._id }, { $addToSet: { tags: target._id } });
+    await QuestionModel.updateMany({ tags: source._id }, { $pull: { tags: source._id } });
+
+    const merged = await TagModel.findOneAndUpdate(
+      { _id: target._id },
+      { $addToSet: { synonyms: { $each: [source.name, ...(source.synonyms ?? [])] } } },
+      { new: true },
+    );
+    await TagModel.deleteOne({ _id: source._id });
+
+    if (!merged) {
+      return { error: 'Tag not found' };
+    }
+
+    return merged;
+  } catch (error) {
+    return { error: 'Error when merging the tags' };
+  }
+};
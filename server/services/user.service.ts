@@ -1,15 +1,51 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { ObjectId } from 'mongodb';
 import UserModel from '../models/users.model';
-import { User, UserCredentials, UserResponse, UsersResponse } from '../types/types';
+import QuestionModel from '../models/questions.model';
+import AnswerModel from '../models/answers.model';
+import CommentModel from '../models/comments.model';
+import ChatModel from '../models/chat.model';
+import MessageModel from '../models/messages.model';
+import GameModel from '../models/games.model';
+import NotificationModel from '../models/notifications.model';
+import CollectionModel from '../models/collections.model';
+import ReputationEventModel from '../models/reputationEvents.model';
+import {
+  DeletionPolicy,
+  TagPreference,
+  User,
+  UserCredentials,
+  UserDeletionResponse,
+  UserDeletionResult,
+  UserResponse,
+  UserRole,
+  UsersResponse,
+} from '../types/types';
+import {
+  DUMMY_PASSWORD_HASH,
+  hashPassword,
+  isPasswordHashed,
+  verifyPassword,
+} from '../utils/password.util';
 
 /**
- * Saves a new user to the database.
+ * The fields left out of the users returned to anyone but the user themselves: the password, and
+ * the tag preferences, which are private to the user.
+ */
+const PUBLIC_USER_PROJECTION = '-password -watchedTags -ignoredTags';
+
+/**
+ * Saves a new user to the database. The password is hashed before it is stored.
  *
  * @param {User} user - The user object to be saved, containing user details like username, password, etc.
  * @returns {Promise<UserResponse>} - Resolves with the saved user object (without the password) or an error message.
  */
 export const saveUser = async (user: User): Promise<UserResponse> => {
   try {
-    const result = await UserModel.create(user);
+    const result = await UserModel.create({
+      ...user,
+      password: await hashPassword(user.password),
+    });
 
     if (!result) {
       throw Error('Failed to create user');
@@ -21,6 +57,8 @@ export const saveUser = async (user: User): Promise<UserResponse> => {
       username: result.username,
       dateJoined: result.dateJoined,
       biography: result.biography,
+      role: result.role,
+      reputation: result.reputation,
     };
   } catch (error) {
     return { error: `Error occurred when saving user: ${error}` };
@@ -28,14 +66,21 @@ export const saveUser = async (user: User): Promise<UserResponse> => {
 };
 
 /**
- * Retrieves a user from the database by their username.
+ * Retrieves a user from the database by their username. The tag preferences of the user are only
+ * included when asked for, for the user themselves.
  *
  * @param {string} username - The username of the user to find.
+ * @param {boolean} includePreferences - Whether to include the watched and ignored tags.
  * @returns {Promise<UserResponse>} - Resolves with the found user object (without the password) or an error message.
  */
-export const getUserByUsername = async (username: string): Promise<UserResponse> => {
+export const getUserByUsername = async (
+  username: string,
+  includePreferences: boolean = false,
+): Promise<UserResponse> => {
   try {
-    const user = await UserModel.findOne({ username }).select('-password');
+    const user = await UserModel.findOne({ username }).select(
+      includePreferences ? '-password' : PUBLIC_USER_PROJECTION,
+    );
 
     if (!user) {
       throw Error('User not found');
@@ -47,15 +92,36 @@ export const getUserByUsername = async (username: string): Promise<UserResponse>
   }
 };
 
+/**
+ * Retrieves the current role of a user. Requests are authorized with this role rather than the one
+ * their token was issued with, so role changes and deleted accounts take effect immediately.
+ *
+ * @param {string} username - The username of the user.
+ * @returns {Promise<UserRole | { error: string }>} - Resolves with the role of the user, or an error message if the user does not exist.
+ */
+export const getUserRole = async (username: string): Promise<UserRole | { error: string }> => {
+  try {
+    const user = await UserModel.findOne({ username }).select('role').lean();
+
+    if (!user) {
+      throw Error('User not found');
+    }
+
+    return user.role ?? 'user';
+  } catch (error) {
+    return { error: `Error occurred when finding user: ${error}` };
+  }
+};
+
 /**
  * Retrieves all users from the database.
  * Users documents are returned in the order in which they were created, oldest to newest.
  *
- * @returns {Promise<UsersResponse>} - Resolves with the found user objects (without the passwords) or an error message.
+ * @returns {Promise<UsersResponse>} - Resolves with the found user objects (without the passwords and tag preferences) or an error message.
  */
 export const getUsersList = async (): Promise<UsersResponse> => {
   try {
-    const users = await UserModel.find({}).select('-password');
+    const users = await UserModel.find({}).select(PUBLIC_USER_PROJECTION);
     users.sort((a, b) => a.dateJoined.getTime() - b.dateJoined.getTime());
     return users;
   } catch (error) {
@@ -65,6 +131,9 @@ export const getUsersList = async (): Promise<UsersResponse> => {
 
 /**
  * Authenticates a user by verifying their username and password.
+ * Users whose password is still stored in plaintext have it rehashed after a successful login.
+ * A password is verified even when the user does not exist, so the response time does not reveal
+ * which usernames are taken.
  *
  * @param {UserCredentials} loginCredentials - An object containing the username and password.
  * @returns {Promise<UserResponse>} - Resolves with the authenticated user object (without the password) or an error message.
@@ -73,55 +142,433 @@ export const loginUser = async (loginCredentials: UserCredentials): Promise<User
   const { username, password } = loginCredentials;
 
   try {
-    const user = await UserModel.findOne({ username, password }).select('-password');
+    const user = await UserModel.findOne({ username });
+    const passwordMatches = await verifyPassword(password, user?.password || DUMMY_PASSWORD_HASH);
 
-    if (!user) {
+    if (!user || !user.password || !passwordMatches) {
       throw Error('Authentication failed');
     }
 
-    return user;
+    const { password: storedPassword, ...safeUser } = user.toObject();
+
+    if (!isPasswordHashed(storedPassword)) {
+      await UserModel.updateOne({ username }, { $set: { password: await hashPassword(password) } });
+    }
+
+    return safeUser;
   } catch (error) {
     return { error: `Error occurred when authenticating user: ${error}` };
   }
 };
 
 /**
- * Deletes a user from the database by their username.
+ * The username that the content of deleted users is attributed to when it is anonymized.
+ * The username is reserved, so no real user can ever sign up with it.
+ */
+export const DELETED_USERNAME = '[deleted]';
+
+/**
+ * The code of the error the database raises when a transaction is started on a server that does
+ * not support them.
+ */
+const ILLEGAL_OPERATION_CODE = 20;
+
+/**
+ * Returns the deletion policy configured through the `USER_DELETION_POLICY` environment variable,
+ * falling back to anonymizing the user's content.
+ *
+ * @returns {DeletionPolicy} - The default deletion policy.
+ */
+export const getDefaultDeletionPolicy = (): DeletionPolicy =>
+  process.env.USER_DELETION_POLICY === 'hardDelete' ? 'hardDelete' : 'anonymize';
+
+/**
+ * Replaces a user with the "deleted user" ghost in the games they played, so that the games and
+ * records of the other players are kept.
+ *
+ * @param {string} username - The username of the user being deleted.
+ * @param {ClientSession | undefined} session - The session of the surrounding transaction, if any.
+ */
+const anonymizeGamePlayer = async (
+  username: string,
+  session: ClientSession | undefined,
+): Promise<void> => {
+  await GameModel.updateMany(
+    { players: username },
+    { $set: { 'players.$[player]': DELETED_USERNAME } },
+    { arrayFilters: [{ player: username }], session },
+  );
+  await GameModel.updateMany(
+    { 'state.player1': username },
+    { $set: { 'state.player1': DELETED_USERNAME } },
+    { session },
+  );
+  await GameModel.updateMany(
+    { 'state.player2': username },
+    { $set: { 'state.player2': DELETED_USERNAME } },
+    { session },
+  );
+  await GameModel.updateMany(
+    { 'state.winners': username },
+    { $set: { 'state.winners.$[winner]': DELETED_USERNAME } },
+    { arrayFilters: [{ winner: username }], session },
+  );
+};
+
+/**
+ * Attributes all content authored by a user to the "deleted user" ghost.
+ *
+ * @param {string} username - The username of the user being deleted.
+ * @param {ClientSession | undefined} session - The session of the surrounding transaction, if any.
+ */
+const anonymizeUserContent = async (
+  username: string,
+  session: ClientSession | undefined,
+): Promise<void> => {
+  await QuestionModel.updateMany(
+    { askedBy: username },
+    { $set: { askedBy: DELETED_USERNAME } },
+    { session },
+  );
+  await AnswerModel.updateMany(
+    { ansBy: username },
+    { $set: { ansBy: DELETED_USERNAME } },
+    { session },
+  );
+  await CommentModel.updateMany(
+    { commentBy: username },
+    { $set: { commentBy: DELETED_USERNAME } },
+    { session },
+  );
+  await MessageModel.updateMany(
+    { msgFrom: username },
+    { $set: { msgFrom: DELETED_USERNAME } },
+    { session },
+  );
+  await NotificationModel.updateMany(
+    { actor: username },
+    { $set: { actor: DELETED_USERNAME } },
+    { session },
+  );
+
+  await anonymizeGamePlayer(username, session);
+};
+
+/**
+ * Removes all content authored by a user. Deleting a question also removes its answers and comments,
+ * and deleting an answer also removes its comments. References to removed answers, comments and
+ * messages are pulled from the documents that contain them.
+ *
+ * @param {string} username - The username of the user being deleted.
+ * @param {ClientSession | undefined} session - The session of the surrounding transaction, if any.
+ */
+const hardDeleteUserContent = async (
+  username: string,
+  session: ClientSession | undefined,
+): Promise<void> => {
+  const questions = await QuestionModel.find({ askedBy: username })
+    .select('answers comments')
+    .session(session ?? null);
+  const answers = await AnswerModel.find({
+    $or: [{ ansBy: username }, { _id: { $in: questions.flatMap(q => q.answers as ObjectId[]) } }],
+  })
+    .select('comments')
+    .session(session ?? null);
+
+  const answerIds = answers.map(a => a._id);
+  const commentIds = [
+    ...questions.flatMap(q => q.comments as ObjectId[]),
+    ...answers.flatMap(a => a.comments as ObjectId[]),
+    ...(
+      await CommentModel.find({ commentBy: username })
+        .select('_id')
+        .session(session ?? null)
+    ).map(c => c._id),
+  ];
+  const messageIds = (
+    await MessageModel.find({ msgFrom: username })
+      .select('_id')
+      .session(session ?? null)
+  ).map(m => m._id);
+
+  await QuestionModel.deleteMany({ askedBy: username }, { session });
+  await AnswerModel.deleteMany({ _id: { $in: answerIds } }, { session });
+  await CommentModel.deleteMany({ _id: { $in: commentIds } }, { session });
+  await MessageModel.deleteMany({ _id: { $in: messageIds } }, { session });
+
+  await QuestionModel.updateMany(
+    { $or: [{ answers: { $in: answerIds } }, { comments: { $in: commentIds } }] },
+    { $pull: { answers: { $in: answerIds }, comments: { $in: commentIds } } },
+    { session },
+  );
+  await QuestionModel.updateMany(
+    { acceptedAnswer: { $in: answerIds } },
+    { $set: { acceptedAnswer: null } },
+    { session },
+  );
+  await AnswerModel.updateMany(
+    { comments: { $in: commentIds } },
+    { $pull: { comments: { $in: commentIds } } },
+    { session },
+  );
+  await ChatModel.updateMany(
+    { messages: { $in: messageIds } },
+    { $pull: { messages: { $in: messageIds } } },
+    { session },
+  );
+
+  // Games shared with other players belong to them too, so only the user's own games are removed
+  await GameModel.deleteMany(
+    { $and: [{ players: username }, { players: { $not: { $elemMatch: { $ne: username } } } }] },
+    { session },
+  );
+  await anonymizeGamePlayer(username, session);
+  await NotificationModel.deleteMany({ actor: username }, { session });
+};
+
+/**
+ * Hands the group chats owned by a user over to another member: their first other admin, or
+ * their first other participant if they have no other admin. The new owner is made an admin.
+ *
+ * @param {string} username - The username of the user being deleted.
+ * @param {ClientSession | undefined} session - The session of the surrounding transaction, if any.
+ */
+const transferOwnedChats = async (
+  username: string,
+  session: ClientSession | undefined,
+): Promise<void> => {
+  const otherAdmins = {
+    $filter: { input: { $ifNull: ['$admins', []] }, cond: { $ne: ['$$this', username] } },
+  };
+  const otherParticipants = {
+    $filter: { input: '$participants', cond: { $ne: ['$$this', username] } },
+  };
+
+  await ChatModel.updateMany(
+    { owner: username },
+    [
+      {
+        $set: {
+          owner: {
+            $ifNull: [{ $arrayElemAt: [otherAdmins, 0] }, { $arrayElemAt: [otherParticipants, 0] }],
+          },
+        },
+      },
+      {
+        $set: {
+          admins: {
+            $cond: [
+              { $eq: [{ $type: '$owner' }, 'string'] },
+              { $setUnion: [otherAdmins, ['$owner']] },
+              otherAdmins,
+            ],
+          },
+        },
+      },
+    ],
+    { session },
+  );
+};
+
+/**
+ * Finds the IDs of the questions whose content involves a user: questions they asked, answered,
+ * commented or voted on (directly or on one of the answers), or viewed.
+ *
+ * @param {string} username - The username of the user.
+ * @param {ClientSession | undefined} session - The session of the surrounding transaction, if any.
+ * @returns {Promise<string[]>} - The IDs of the affected questions.
+ */
+const findQuestionsInvolvingUser = async (
+  username: string,
+  session: ClientSession | undefined,
+): Promise<string[]> => {
+  const commentIds = (
+    await CommentModel.find({ commentBy: username })
+      .select('_id')
+      .session(session ?? null)
+  ).map(c => c._id);
+  const answerIds = (
+    await AnswerModel.find({
+      $or: [
+        { ansBy: username },
+        { comments: { $in: commentIds } },
+        { upVotes: username },
+        { downVotes: username },
+      ],
+    })
+      .select('_id')
+      .session(session ?? null)
+  ).map(a => a._id);
+
+  const questions = await QuestionModel.find({
+    $or: [
+      { askedBy: username },
+      { answers: { $in: answerIds } },
+      { comments: { $in: commentIds } },
+      { upVotes: username },
+      { downVotes: username },
+      { views: username },
+    ],
+  })
+    .select('_id')
+    .session(session ?? null);
+
+  return questions.map(q => q._id.toString());
+};
+
+/**
+ * Deletes a user and their footprint in every other collection. The user is deleted last, so that
+ * a deletion interrupted without a transaction can be completed by deleting the user again.
  *
  * @param {string} username - The username of the user to delete.
- * @returns {Promise<UserResponse>} - Resolves with the deleted user object (without the password) or an error message.
+ * @param {DeletionPolicy} policy - How the content authored by the user is handled.
+ * @param {ClientSession | undefined} session - The session of the surrounding transaction, if any.
+ * @returns {Promise<UserDeletionResult>} - The deleted user and the affected documents.
+ */
+const deleteUserAndFootprint = async (
+  username: string,
+  policy: DeletionPolicy,
+  session: ClientSession | undefined,
+): Promise<UserDeletionResult> => {
+  const user = await UserModel.findOne({ username })
+    .select(PUBLIC_USER_PROJECTION)
+    .session(session ?? null);
+
+  if (!user) {
+    throw Error('Error deleting user');
+  }
+
+  const questions = await findQuestionsInvolvingUser(username, session);
+  const ownQuestions =
+    policy === 'hardDelete'
+      ? (
+          await QuestionModel.find({ askedBy: username })
+            .select('_id')
+            .session(session ?? null)
+        ).map(q => q._id.toString())
+      : [];
+  const chats = (
+    await ChatModel.find({ participants: username })
+      .select('_id')
+      .session(session ?? null)
+  ).map(c => c._id.toString());
+
+  if (policy === 'hardDelete') {
+    await hardDeleteUserContent(username, session);
+  } else {
+    await anonymizeUserContent(username, session);
+  }
+
+  await QuestionModel.updateMany(
+    { $or: [{ upVotes: username }, { downVotes: username }, { views: username }] },
+    { $pull: { upVotes: username, downVotes: username, views: username } },
+    { session },
+  );
+  await AnswerModel.updateMany(
+    { $or: [{ upVotes: username }, { downVotes: username }] },
+    { $pull: { upVotes: username, downVotes: username } },
+    { session },
+  );
+  await transferOwnedChats(username, session);
+  await ChatModel.updateMany(
+    { participants: username },
+    { $pull: { participants: username, admins: username, lastRead: { username } } },
+    { session },
+  );
+  await NotificationModel.deleteMany({ recipient: username }, { session });
+  await CollectionModel.deleteMany({ owner: username }, { session });
+  await ReputationEventModel.deleteMany({ username }, { session });
+
+  await UserModel.deleteOne({ username }, { session });
+
+  return {
+    user,
+    questions: questions.filter(qid => !ownQuestions.includes(qid)),
+    chats,
+  };
+};
+
+/**
+ * Checks whether an error was raised because the database does not support transactions, as
+ * standalone servers such as the default development database do. Transactions need a replica set.
+ *
+ * @param {unknown} error - The error raised when starting the transaction.
+ * @returns {boolean} - `true` if transactions are not supported.
  */
-export const deleteUserByUsername = async (username: string): Promise<UserResponse> => {
+const isTransactionUnsupported = (error: unknown): boolean =>
+  (error as { code?: number } | null)?.code === ILLEGAL_OPERATION_CODE;
+
+/**
+ * Deletes a user from the database by their username, along with their footprint in every other
+ * collection:
+ * - Their content is anonymized or removed, depending on the deletion policy.
+ * - Their votes and views are removed from all questions and answers.
+ * - They are removed from every chat they are part of, and the group chats they own are handed
+ *   over to another member.
+ * - Their notifications, collections and reputation history are removed.
+ *
+ * This runs in a single transaction when the database supports them. Otherwise, the same steps run
+ * in order without one.
+ *
+ * @param {string} username - The username of the user to delete.
+ * @param {DeletionPolicy} policy - How the content authored by the user is handled.
+ * @returns {Promise<UserDeletionResponse>} - Resolves with the deleted user object (without the password)
+ *          and the IDs of the questions and chats that were changed, or an error message.
+ */
+export const deleteUserByUsername = async (
+  username: string,
+  policy: DeletionPolicy = getDefaultDeletionPolicy(),
+): Promise<UserDeletionResponse> => {
+  const session = await mongoose.startSession();
+
   try {
-    const deletedUser = await UserModel.findOneAndDelete({ username }).select('-password');
+    let result: UserDeletionResult | undefined;
 
-    if (!deletedUser) {
+    try {
+      // The callback may be retried on transient errors, so it must only depend on its arguments
+      await session.withTransaction(async () => {
+        result = await deleteUserAndFootprint(username, policy, session);
+      });
+    } catch (error) {
+      if (!isTransactionUnsupported(error)) {
+        throw error;
+      }
+      result = await deleteUserAndFootprint(username, policy, undefined);
+    }
+
+    if (!result) {
       throw Error('Error deleting user');
     }
 
-    return deletedUser;
+    return result;
   } catch (error) {
-    return { error: `Error occurred when finding user: ${error}` };
+    return { error: `Error occurred when deleting user: ${error}` };
+  } finally {
+    await session.endSession();
   }
 };
 
 /**
- * Updates user information in the database.
+ * Updates user information in the database. A new password, if provided, is hashed before it is stored.
  *
  * @param {string} username - The username of the user to update.
  * @param {Partial<User>} updates - An object containing the fields to update and their new values.
- * @returns {Promise<UserResponse>} - Resolves with the updated user object (without the password) or an error message.
+ * @returns {Promise<UserResponse>} - Resolves with the updated user object (without the password and tag preferences) or an error message.
  */
 export const updateUser = async (
   username: string,
   updates: Partial<User>,
 ): Promise<UserResponse> => {
   try {
+    const hashedUpdates = updates.password
+      ? { ...updates, password: await hashPassword(updates.password) }
+      : updates;
+
     const updatedUser = await UserModel.findOneAndUpdate(
       { username },
-      { $set: updates },
+      { $set: hashedUpdates },
       { new: true },
-    ).select('-password');
+    ).select(PUBLIC_USER_PROJECTION);
 
     if (!updatedUser) {
       throw Error('Error updating user');
@@ -132,3 +579,41 @@ export const updateUser = async (
     return { error: `Error occurred when updating user: ${error}` };
   }
 };
+
+/**
+ * Sets whether a user watches or ignores a tag. A tag is never both watched and ignored, so
+ * setting one preference clears the other.
+ *
+ * @param {string} username - The username of the user.
+ * @param {string} tag - The name of the tag.
+ * @param {TagPreference} preference - The new preference for the tag.
+ * @returns {Promise<UserResponse>} - Resolves with the updated user object (without the password) or an error message.
+ */
+export const setTagPreference = async (
+  username: string,
+  tag: string,
+  preference: TagPreference,
+): Promise<UserResponse> => {
+  try {
+    const update = {
+      $pull: {
+        ...(preference !== 'watched' ? { watchedTags: tag } : {}),
+        ...(preference !== 'ignored' ? { ignoredTags: tag } : {}),
+      },
+      ...(preference === 'watched' ? { $addToSet: { watchedTags: tag } } : {}),
+      ...(preference === 'ignored' ? { $addToSet: { ignoredTags: tag } } : {}),
+    };
+
+    const updatedUser = await UserModel.findOneAndUpdate({ username }, update, {
+      new: true,
+    }).select('-password');
+
+    if (!updatedUser) {
+      throw Error('User not found');
+    }
+
+    return updatedUser;
+  } catch (error) {
+    return { error: `Error occurred when updating tag preferences: ${error}` };
+  }
+};
@@ -3,11 +3,29 @@ import supertest from 'supertest';
 import { ObjectId } from 'mongodb';
 import { app } from '../../app';
 import * as answerUtil from '../../services/answer.service';
+import * as revisionUtil from '../../services/revision.service';
+import * as notificationUtil from '../../services/notification.service';
+import * as closureUtil from '../../services/closure.service';
 import * as databaseUtil from '../../utils/database.util';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const MODERATOR_TOKEN = issueToken('moderator1', 'moderator');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
 
 const saveAnswerSpy = jest.spyOn(answerUtil, 'saveAnswer');
 const addAnswerToQuestionSpy = jest.spyOn(answerUtil, 'addAnswerToQuestion');
 const popDocSpy = jest.spyOn(databaseUtil, 'populateDocument');
+const addVoteToAnswerSpy = jest.spyOn(answerUtil, 'addVoteToAnswer');
+const editAnswerSpy = jest.spyOn(answerUtil, 'editAnswer');
+const setAnswerDeletedSpy = jest.spyOn(answerUtil, 'setAnswerDeleted');
+const getRevisionHistorySpy = jest.spyOn(revisionUtil, 'getRevisionHistory');
+const saveNotificationSpy = jest.spyOn(notificationUtil, 'saveNotification');
+const getNotificationTargetSpy = jest.spyOn(notificationUtil, 'getNotificationTarget');
+const getQuestionStatusSpy = jest.spyOn(closureUtil, 'getQuestionStatus').mockResolvedValue('open');
 
 describe('POST /addAnswer', () => {
   it('should add a new answer to the question', async () => {
@@ -28,6 +46,8 @@ describe('POST /addAnswer', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [],
+      upVotes: [],
+      downVotes: [],
     };
     saveAnswerSpy.mockResolvedValueOnce(mockAnswer);
 
@@ -58,8 +78,12 @@ describe('POST /addAnswer', () => {
       answers: [mockAnswer],
       comments: [],
     });
+    saveNotificationSpy.mockImplementationOnce(async notification => notification);
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -68,9 +92,88 @@ describe('POST /addAnswer', () => {
       ansBy: 'dummyUserId',
       ansDateTime: mockAnswer.ansDateTime.toISOString(),
       comments: [],
+      upVotes: [],
+      downVotes: [],
+    });
+    expect(saveNotificationSpy).toHaveBeenCalledWith({
+      recipient: 'dummyUserId',
+      type: 'answer',
+      actor: 'user1',
+      text: 'This is a test question',
+      qid: validQid,
+      read: false,
+    });
+  });
+
+  it('should only save the text and date of the answer from the request', async () => {
+    saveAnswerSpy.mockResolvedValueOnce({ error: 'Error when saving an answer' });
+
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({
+        qid: new mongoose.Types.ObjectId().toString(),
+        ans: {
+          text: 'This is a test answer',
+          ansBy: 'dummyUserId',
+          ansDateTime: new Date('2024-06-03'),
+          upVotes: ['user2'],
+          deletedAt: new Date('2024-06-04'),
+        },
+      });
+
+    expect(response.status).toBe(500);
+    expect(saveAnswerSpy).toHaveBeenCalledWith({
+      text: 'This is a test answer',
+      ansBy: 'user1',
+      ansDateTime: new Date('2024-06-03').toISOString(),
+      comments: [],
+      upVotes: [],
+      downVotes: [],
     });
   });
 
+  it('should return 403 if the question is locked', async () => {
+    const mockReqBody = {
+      qid: new mongoose.Types.ObjectId().toString(),
+      ans: {
+        text: 'This is a test answer',
+        ansBy: 'dummyUserId',
+        ansDateTime: new Date('2024-06-03'),
+      },
+    };
+    getQuestionStatusSpy.mockResolvedValueOnce('locked');
+
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ error: 'Forbidden: the question is locked' });
+    expect(saveAnswerSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 if the question is not found', async () => {
+    const mockReqBody = {
+      qid: new mongoose.Types.ObjectId().toString(),
+      ans: {
+        text: 'This is a test answer',
+        ansBy: 'dummyUserId',
+        ansDateTime: new Date('2024-06-03'),
+      },
+    };
+    getQuestionStatusSpy.mockResolvedValueOnce({ error: 'Question not found' });
+
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('Question not found');
+  });
+
   it('should return bad request error if answer text property is missing', async () => {
     const mockReqBody = {
       qid: 'dummyQuestionId',
@@ -80,7 +183,10 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid answer');
@@ -94,12 +200,15 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
   });
 
-  it('should return bad request error if answer object has ansBy property missing', async () => {
+  it('should attribute the answer to the authenticated user', async () => {
     const mockReqBody = {
       qid: 'dummyQuestionId',
       ans: {
@@ -108,9 +217,14 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    saveAnswerSpy.mockResolvedValueOnce({ error: 'Error when saving an answer' });
 
-    expect(response.status).toBe(400);
+    await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(saveAnswerSpy).toHaveBeenCalledWith(expect.objectContaining({ ansBy: 'user1' }));
   });
 
   it('should return bad request error if answer object has ansDateTime property missing', async () => {
@@ -122,13 +236,18 @@ describe('POST /addAnswer', () => {
       },
     };
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
   });
 
   it('should return bad request error if request body is missing', async () => {
-    const response = await supertest(app).post('/answer/addAnswer');
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
     expect(response.status).toBe(400);
   });
@@ -146,7 +265,10 @@ describe('POST /addAnswer', () => {
 
     saveAnswerSpy.mockResolvedValueOnce({ error: 'Error when saving an answer' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
   });
@@ -168,12 +290,17 @@ describe('POST /addAnswer', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [],
+      upVotes: [],
+      downVotes: [],
     };
 
     saveAnswerSpy.mockResolvedValueOnce(mockAnswer);
     addAnswerToQuestionSpy.mockResolvedValueOnce({ error: 'Error when adding answer to question' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
   });
@@ -195,6 +322,8 @@ describe('POST /addAnswer', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [],
+      upVotes: [],
+      downVotes: [],
     };
 
     const mockQuestion = {
@@ -215,8 +344,373 @@ describe('POST /addAnswer', () => {
     addAnswerToQuestionSpy.mockResolvedValueOnce(mockQuestion);
     popDocSpy.mockResolvedValueOnce({ error: 'Error when populating document' });
 
-    const response = await supertest(app).post('/answer/addAnswer').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/answer/addAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
   });
 });
+
+describe('POST /upvoteAnswer', () => {
+  it('should upvote an answer as the authenticated user', async () => {
+    const mockReqBody = {
+      qid: '65e9b5a995b6c7045a30d823',
+      aid: '65e9b58910afe6e94fc6e6dc',
+    };
+
+    const mockResponse = {
+      msg: 'Answer upvoted successfully',
+      upVotes: ['user1'],
+      downVotes: [],
+    };
+
+    addVoteToAnswerSpy.mockResolvedValueOnce(mockResponse);
+    getNotificationTargetSpy.mockResolvedValueOnce({
+      author: 'author1',
+      qid: new ObjectId(mockReqBody.qid),
+      title: 'Question title',
+    });
+    saveNotificationSpy.mockImplementationOnce(async notification => notification);
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(addVoteToAnswerSpy).toHaveBeenCalledWith(
+      mockReqBody.qid,
+      mockReqBody.aid,
+      'user1',
+      'upvote',
+    );
+    expect(getNotificationTargetSpy).toHaveBeenCalledWith(mockReqBody.aid, 'answer');
+    expect(saveNotificationSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ recipient: 'author1', type: 'upvote', actor: 'user1' }),
+    );
+  });
+
+  it('should not notify the author when an upvote is cancelled', async () => {
+    addVoteToAnswerSpy.mockResolvedValueOnce({
+      msg: 'Upvote cancelled successfully',
+      upVotes: [],
+      downVotes: [],
+    });
+    getNotificationTargetSpy.mockClear();
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', aid: '65e9b58910afe6e94fc6e6dc' });
+
+    expect(response.status).toBe(200);
+    expect(getNotificationTargetSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return bad request error if the answer ID is missing', async () => {
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request error if the question ID is missing', async () => {
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ aid: '65e9b58910afe6e94fc6e6dc' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return database error if addVoteToAnswer fails', async () => {
+    addVoteToAnswerSpy.mockResolvedValueOnce({ error: 'Error when adding upvote to answer' });
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', aid: '65e9b58910afe6e94fc6e6dc' });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toContain('Error when adding upvote to answer');
+  });
+
+  it('should return 404 without emitting if the answer is not a visible answer of the question', async () => {
+    addVoteToAnswerSpy.mockResolvedValueOnce({ error: 'Answer not found!' });
+
+    const response = await supertest(app)
+      .post('/answer/upvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: '65e9b5a995b6c7045a30d823', aid: '65e9b58910afe6e94fc6e6dc' });
+
+    expect(response.status).toBe(404);
+    expect(saveNotificationSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /downvoteAnswer', () => {
+  it('should downvote an answer as the authenticated user', async () => {
+    const mockReqBody = {
+      qid: '65e9b5a995b6c7045a30d823',
+      aid: '65e9b58910afe6e94fc6e6dc',
+    };
+
+    const mockResponse = {
+      msg: 'Answer downvoted successfully',
+      upVotes: [],
+      downVotes: ['user1'],
+    };
+
+    addVoteToAnswerSpy.mockResolvedValueOnce(mockResponse);
+    getNotificationTargetSpy.mockResolvedValueOnce({
+      author: 'author1',
+      qid: new ObjectId(mockReqBody.qid),
+      title: 'Question title',
+    });
+    saveNotificationSpy.mockImplementationOnce(async notification => notification);
+
+    const response = await supertest(app)
+      .post('/answer/downvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(mockResponse);
+    expect(addVoteToAnswerSpy).toHaveBeenCalledWith(
+      mockReqBody.qid,
+      mockReqBody.aid,
+      'user1',
+      'downvote',
+    );
+  });
+
+  it('should return bad request error if the request body is missing', async () => {
+    const response = await supertest(app)
+      .post('/answer/downvoteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('PATCH /editAnswer', () => {
+  const qid = '65e9b5a995b6c7045a30d823';
+  const aid = '65e9b58910afe6e94fc6e6dc';
+  const ownAnswer = {
+    _id: new ObjectId(aid),
+    text: 'Original answer',
+    ansBy: 'user1',
+    ansDateTime: new Date('2024-06-03'),
+    comments: [],
+    upVotes: [],
+    downVotes: [],
+  };
+
+  it('should edit an answer written by the authenticated user', async () => {
+    const editedAnswer = { ...ownAnswer, text: 'Edited answer' };
+    popDocSpy.mockResolvedValueOnce(ownAnswer).mockResolvedValueOnce(editedAnswer);
+    editAnswerSpy.mockResolvedValueOnce(editedAnswer);
+
+    const response = await supertest(app)
+      .patch('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid, text: 'Edited answer', summary: 'Clarified' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.text).toEqual('Edited answer');
+    expect(editAnswerSpy).toHaveBeenCalledWith(aid, 'Edited answer', 'user1', 'Clarified');
+  });
+
+  it("should let a moderator edit another user's answer", async () => {
+    const otherAnswer = { ...ownAnswer, ansBy: 'someone-else' };
+    popDocSpy.mockResolvedValueOnce(otherAnswer).mockResolvedValueOnce(otherAnswer);
+    editAnswerSpy.mockResolvedValueOnce(otherAnswer);
+
+    const response = await supertest(app)
+      .patch('/answer/editAnswer')
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+      .send({ qid, aid, text: 'Edited answer' });
+
+    expect(response.status).toBe(200);
+    expect(editAnswerSpy).toHaveBeenCalledWith(aid, 'Edited answer', 'moderator1', '');
+  });
+
+  it('should return 403 if the authenticated user did not write the answer', async () => {
+    popDocSpy.mockResolvedValueOnce({ ...ownAnswer, ansBy: 'someone-else' });
+
+    const response = await supertest(app)
+      .patch('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid, text: 'Edited answer' });
+
+    expect(response.status).toBe(403);
+    expect(editAnswerSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return bad request error if the text is missing', async () => {
+    const response = await supertest(app)
+      .patch('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return database error if editAnswer fails', async () => {
+    popDocSpy.mockResolvedValueOnce(ownAnswer);
+    editAnswerSpy.mockResolvedValueOnce({ error: 'Error when editing the answer' });
+
+    const response = await supertest(app)
+      .patch('/answer/editAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid, text: 'Edited answer' });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when editing answer: Error when editing the answer');
+  });
+});
+
+describe('GET /getAnswerRevisions/:id', () => {
+  it('should return the revisions of the answer', async () => {
+    getRevisionHistorySpy.mockResolvedValueOnce([]);
+
+    const response = await supertest(app)
+      .get('/answer/getAnswerRevisions/65e9b58910afe6e94fc6e6dc')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([]);
+    expect(getRevisionHistorySpy).toHaveBeenCalledWith('answer', '65e9b58910afe6e94fc6e6dc', false);
+  });
+
+  it('should include the history of deleted answers for moderators', async () => {
+    getRevisionHistorySpy.mockResolvedValueOnce([]);
+
+    const response = await supertest(app)
+      .get('/answer/getAnswerRevisions/65e9b58910afe6e94fc6e6dc')
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`);
+
+    expect(response.status).toBe(200);
+    expect(getRevisionHistorySpy).toHaveBeenCalledWith('answer', '65e9b58910afe6e94fc6e6dc', true);
+  });
+
+  it('should return 404 if the answer is not found', async () => {
+    getRevisionHistorySpy.mockResolvedValueOnce({ error: 'Answer not found!' });
+
+    const response = await supertest(app)
+      .get('/answer/getAnswerRevisions/65e9b58910afe6e94fc6e6dc')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('Answer not found');
+  });
+
+  it('should return bad request error if the answer ID is invalid', async () => {
+    const response = await supertest(app)
+      .get('/answer/getAnswerRevisions/invalid-id')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('POST /deleteAnswer', () => {
+  const qid = '65e9b5a995b6c7045a30d823';
+  const aid = '65e9b58910afe6e94fc6e6dc';
+  const deletedAt = new Date('2024-06-08');
+  const ownAnswer = {
+    _id: new ObjectId(aid),
+    text: 'Original answer',
+    ansBy: 'user1',
+    ansDateTime: new Date('2024-06-03'),
+    comments: [],
+    upVotes: [],
+    downVotes: [],
+  };
+
+  it('should soft delete an answer written by the authenticated user', async () => {
+    popDocSpy.mockResolvedValueOnce(ownAnswer);
+    setAnswerDeletedSpy.mockResolvedValueOnce({ ...ownAnswer, deletedAt, deletedBy: 'user1' });
+
+    const response = await supertest(app)
+      .post('/answer/deleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedBy).toEqual('user1');
+    expect(setAnswerDeletedSpy).toHaveBeenCalledWith(aid, 'user1');
+  });
+
+  it('should return 403 if the authenticated user did not write the answer', async () => {
+    popDocSpy.mockResolvedValueOnce({ ...ownAnswer, ansBy: 'someone-else' });
+
+    const response = await supertest(app)
+      .post('/answer/deleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(403);
+    expect(setAnswerDeletedSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return bad request error if the answer ID is missing', async () => {
+    const response = await supertest(app)
+      .post('/answer/deleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return database error if setAnswerDeleted fails', async () => {
+    popDocSpy.mockResolvedValueOnce(ownAnswer);
+    setAnswerDeletedSpy.mockResolvedValueOnce({ error: 'Error when deleting the answer' });
+
+    const response = await supertest(app)
+      .post('/answer/deleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when deleting answer: Error when deleting the answer');
+  });
+
+  it('should let the author restore an answer they deleted', async () => {
+    const restoredAnswer = { ...ownAnswer, deletedAt: null, deletedBy: null };
+    popDocSpy
+      .mockResolvedValueOnce({ ...ownAnswer, deletedAt, deletedBy: 'user1' })
+      .mockResolvedValueOnce(restoredAnswer);
+    setAnswerDeletedSpy.mockResolvedValueOnce(restoredAnswer);
+
+    const response = await supertest(app)
+      .post('/answer/undeleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedAt).toBeNull();
+    expect(setAnswerDeletedSpy).toHaveBeenCalledWith(aid, null);
+  });
+
+  it('should not let the author restore an answer deleted by a moderator', async () => {
+    popDocSpy.mockResolvedValueOnce({ ...ownAnswer, deletedAt, deletedBy: 'moderator1' });
+
+    const response = await supertest(app)
+      .post('/answer/undeleteAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(403);
+    expect(setAnswerDeletedSpy).not.toHaveBeenCalled();
+  });
+});
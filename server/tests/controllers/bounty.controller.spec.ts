@@ -0,0 +1,210 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import { app } from '../../app';
+import * as bountyUtil from '../../services/bounty.service';
+import * as databaseUtil from '../../utils/database.util';
+import * as notificationUtil from '../../services/notification.service';
+import { Bounty, Notification, Question } from '../../types/types';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const OTHER_TOKEN = issueToken('user2');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
+
+const offerBountySpy = jest.spyOn(bountyUtil, 'offerBounty');
+const awardBountySpy = jest.spyOn(bountyUtil, 'awardBounty');
+const populateDocumentSpy = jest.spyOn(databaseUtil, 'populateDocument');
+const saveNotificationSpy = jest.spyOn(notificationUtil, 'saveNotification');
+
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+const aid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd');
+
+const bounty: Bounty = {
+  amount: 100,
+  offeredBy: 'user1',
+  offeredAt: new Date('2025-01-01'),
+  expiresAt: new Date('2025-01-08'),
+};
+
+const question: Question = {
+  _id: qid,
+  title: 'Question title',
+  text: 'Question text',
+  tags: [],
+  askedBy: 'user3',
+  askDateTime: new Date('2025-01-01'),
+  answers: [],
+  views: [],
+  upVotes: [],
+  downVotes: [],
+  comments: [],
+  bounty: null,
+};
+
+describe('Test bountyController', () => {
+  describe('POST /offerBounty', () => {
+    it('should offer the bounty and return the question with it', async () => {
+      offerBountySpy.mockResolvedValueOnce({ ...question, bounty });
+      populateDocumentSpy.mockResolvedValueOnce({ ...question, bounty });
+
+      const response = await supertest(app)
+        .post('/bounty/offerBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), amount: 100 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.bounty.amount).toEqual(100);
+      expect(offerBountySpy).toHaveBeenCalledWith(
+        qid.toString(),
+        'user1',
+        100,
+        bountyUtil.BOUNTY_DEFAULT_DAYS,
+      );
+    });
+
+    it('should return 400 if the amount is too small', async () => {
+      const response = await supertest(app)
+        .post('/bounty/offerBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), amount: bountyUtil.BOUNTY_MIN_AMOUNT - 1 });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+      expect(offerBountySpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the duration is too long', async () => {
+      const response = await supertest(app)
+        .post('/bounty/offerBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), amount: 100, days: bountyUtil.BOUNTY_MAX_DAYS + 1 });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 if the user does not have enough reputation', async () => {
+      offerBountySpy.mockResolvedValueOnce({ error: 'Not enough reputation' });
+
+      const response = await supertest(app)
+        .post('/bounty/offerBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), amount: 100, days: 3 });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Not enough reputation');
+    });
+
+    it('should return 404 if the question does not exist', async () => {
+      offerBountySpy.mockResolvedValueOnce({ error: 'Question not found' });
+
+      const response = await supertest(app)
+        .post('/bounty/offerBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), amount: 100 });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 500 if the bounty cannot be offered', async () => {
+      offerBountySpy.mockResolvedValueOnce({ error: 'Error when offering the bounty' });
+
+      const response = await supertest(app)
+        .post('/bounty/offerBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), amount: 100 });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when offering bounty: Error when offering the bounty');
+    });
+  });
+
+  describe('POST /awardBounty', () => {
+    it('should award the bounty and notify the author of the answer', async () => {
+      populateDocumentSpy
+        .mockResolvedValueOnce({ ...question, bounty })
+        .mockResolvedValueOnce(question);
+      awardBountySpy.mockResolvedValueOnce({
+        qid: qid.toString(),
+        title: question.title,
+        bounty,
+        awardedTo: 'user2',
+      });
+      saveNotificationSpy.mockImplementationOnce(async (n: Notification) => n);
+
+      const response = await supertest(app)
+        .post('/bounty/awardBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), aid: aid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.bounty).toBeNull();
+      expect(awardBountySpy).toHaveBeenCalledWith(qid.toString(), aid.toString());
+      expect(saveNotificationSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ recipient: 'user2', type: 'bounty', actor: 'user1' }),
+      );
+    });
+
+    it('should return 403 if the user did not offer the bounty', async () => {
+      populateDocumentSpy.mockResolvedValueOnce({ ...question, bounty });
+
+      const response = await supertest(app)
+        .post('/bounty/awardBounty')
+        .set('Authorization', `Bearer ${OTHER_TOKEN}`)
+        .send({ qid: qid.toString(), aid: aid.toString() });
+
+      expect(response.status).toBe(403);
+      expect(awardBountySpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the question has no bounty', async () => {
+      populateDocumentSpy.mockResolvedValueOnce(question);
+
+      const response = await supertest(app)
+        .post('/bounty/awardBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), aid: aid.toString() });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Question has no bounty');
+    });
+
+    it('should return 400 if the answer is by the user who offered the bounty', async () => {
+      populateDocumentSpy.mockResolvedValueOnce({ ...question, bounty });
+      awardBountySpy.mockResolvedValueOnce({
+        error: 'The bounty cannot be awarded to an answer of the user who offered it',
+      });
+
+      const response = await supertest(app)
+        .post('/bounty/awardBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), aid: aid.toString() });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 if the answer does not belong to the question', async () => {
+      populateDocumentSpy.mockResolvedValueOnce({ ...question, bounty });
+      awardBountySpy.mockResolvedValueOnce({ error: 'Answer not found' });
+
+      const response = await supertest(app)
+        .post('/bounty/awardBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), aid: aid.toString() });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 if the answer ID is invalid', async () => {
+      const response = await supertest(app)
+        .post('/bounty/awardBounty')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), aid: 'invalid' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+  });
+});
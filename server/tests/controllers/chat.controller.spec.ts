@@ -3,8 +3,19 @@ import supertest from 'supertest';
 import { app } from '../../app';
 import * as chatService from '../../services/chat.service';
 import * as databaseUtil from '../../utils/database.util';
-import { Chat, CreateChatPayload } from '../../types/chat';
+import * as notificationService from '../../services/notification.service';
+import * as messageService from '../../services/message.service';
+import { Chat, CreateChatPayload, MessageInChat } from '../../types/chat';
 import { Message } from '../../types/message';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const ADMIN_TOKEN = issueToken('user2');
+const MEMBER_TOKEN = issueToken('user3');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
 
 /**
  * Spies on the service functions
@@ -16,6 +27,48 @@ const getChatSpy = jest.spyOn(chatService, 'getChat');
 const addParticipantSpy = jest.spyOn(chatService, 'addParticipantToChat');
 const populateDocumentSpy = jest.spyOn(databaseUtil, 'populateDocument');
 const getChatsByParticipantsSpy = jest.spyOn(chatService, 'getChatsByParticipants');
+const removeParticipantSpy = jest.spyOn(chatService, 'removeParticipantFromChat');
+const renameChatSpy = jest.spyOn(chatService, 'renameChat');
+const transferOwnershipSpy = jest.spyOn(chatService, 'transferChatOwnership');
+const setChatAdminSpy = jest.spyOn(chatService, 'setChatAdmin');
+const getChatMessagesSpy = jest.spyOn(chatService, 'getChatMessages');
+const getMessageSpy = jest.spyOn(messageService, 'getMessage');
+const editMessageSpy = jest.spyOn(messageService, 'editMessage');
+const deleteMessageSpy = jest.spyOn(messageService, 'deleteMessage');
+const populateMessagesSpy = jest.spyOn(databaseUtil, 'populateMessages');
+const markChatReadSpy = jest.spyOn(chatService, 'markChatRead');
+const countUnreadMessagesSpy = jest.spyOn(chatService, 'countUnreadMessages');
+const saveNotificationSpy = jest.spyOn(notificationService, 'saveNotification');
+
+/**
+ * A group chat owned by user1, with user2 as an admin and user3 as a member.
+ */
+const groupChat: Chat = {
+  _id: new mongoose.Types.ObjectId(),
+  participants: ['user1', 'user2', 'user3'],
+  messages: [],
+  name: 'Study group',
+  owner: 'user1',
+  admins: ['user1', 'user2'],
+};
+const GROUP_CHAT_ID = groupChat._id!.toString();
+
+const systemMessage = {
+  _id: new mongoose.Types.ObjectId(),
+  msg: 'user1 changed the chat',
+  msgFrom: 'user1',
+  msgDateTime: new Date('2025-01-01'),
+  type: 'system' as const,
+};
+
+/**
+ * Mocks recording a change to the group chat as a system message, returning the updated chat.
+ */
+const mockChatChange = (updatedChat: Chat) => {
+  createMessageSpy.mockResolvedValueOnce(systemMessage);
+  addMessageSpy.mockResolvedValueOnce(updatedChat);
+  populateDocumentSpy.mockResolvedValueOnce(updatedChat);
+};
 
 /**
  * Sample test suite for the /chat endpoints
@@ -33,6 +86,7 @@ describe('Chat Controller', () => {
         messages: validChatPayload.messages.map(message => ({
           ...message,
           msgDateTime: message.msgDateTime.toISOString(),
+          type: 'direct',
         })),
       };
 
@@ -59,7 +113,10 @@ describe('Chat Controller', () => {
       saveChatSpy.mockResolvedValue(chatResponse);
       populateDocumentSpy.mockResolvedValue(chatResponse);
 
-      const response = await supertest(app).post('/chat/createChat').send(validChatPayload);
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(validChatPayload);
 
       expect(response.status).toBe(200);
 
@@ -84,7 +141,9 @@ describe('Chat Controller', () => {
     });
 
     it('should return 400 for request missing body', async () => {
-      const response = await supertest(app).post('/chat/createChat');
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(400);
     });
 
@@ -97,7 +156,10 @@ describe('Chat Controller', () => {
       },
       { label: 'missing messages', chatPayload: { participants: ['user1', 'user2'] } },
     ])('it should return 400 for request $label', async ({ chatPayload }) => {
-      const response = await supertest(app).post('/chat/createChat').send(chatPayload);
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(chatPayload);
       expect(response.status).toBe(400);
     });
 
@@ -114,7 +176,10 @@ describe('Chat Controller', () => {
           },
         ],
       };
-      const response = await supertest(app).post('/chat/createChat').send(chatPayload);
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(chatPayload);
       expect(response.status).toBe(500);
     });
 
@@ -154,12 +219,92 @@ describe('Chat Controller', () => {
       saveChatSpy.mockResolvedValueOnce(chatResponse);
       populateDocumentSpy.mockResolvedValueOnce({ error: 'Populate Error' });
 
-      const response = await supertest(app).post('/chat/createChat').send(chatPayload);
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(chatPayload);
+      expect(response.status).toBe(500);
+    });
+    it('should create a group chat owned by the authenticated user', async () => {
+      saveChatSpy.mockResolvedValueOnce(groupChat);
+      populateDocumentSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ participants: ['user1', 'user2', 'user3'], messages: [], name: ' Study group ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toEqual('Study group');
+      expect(saveChatSpy).toHaveBeenCalledWith(
+        {
+          participants: ['user1', 'user2', 'user3'],
+          name: 'Study group',
+          messages: [
+            expect.objectContaining({
+              msg: 'user1 created the group "Study group"',
+              msgFrom: 'user1',
+              type: 'system',
+            }),
+          ],
+        },
+        'user1',
+      );
+    });
+
+    it('should send the initial messages as direct messages from the authenticated user', async () => {
+      saveChatSpy.mockResolvedValueOnce({ error: 'Save Error' });
+
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({
+          participants: ['user1', 'user2'],
+          messages: [
+            { msg: 'Hi', msgFrom: 'user2', msgDateTime: new Date('2025-06-02'), type: 'system' },
+          ],
+        });
+
       expect(response.status).toBe(500);
+      expect(saveChatSpy).toHaveBeenCalledWith({
+        participants: ['user1', 'user2'],
+        messages: [
+          {
+            msg: 'Hi',
+            msgFrom: 'user1',
+            msgDateTime: new Date('2025-06-02').toISOString(),
+            type: 'direct',
+          },
+        ],
+      });
+    });
+
+    it('should return 400 for a blank group chat name', async () => {
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ participants: ['user1', 'user2'], messages: [], name: '  ' });
+
+      expect(response.status).toBe(400);
+      expect(saveChatSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 if the authenticated user is not a participant', async () => {
+      const response = await supertest(app)
+        .post('/chat/createChat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ participants: ['user2', 'user3'], messages: [] });
+
+      expect(response.status).toBe(403);
+      expect(saveChatSpy).not.toHaveBeenCalled();
     });
   });
 
   describe('POST /chat/:chatId/addMessage', () => {
+    beforeEach(() => {
+      getChatSpy.mockResolvedValue({ participants: ['user1', 'user2'], messages: [] });
+    });
+
     it('should add a message to chat successfully', async () => {
       const chatId = new mongoose.Types.ObjectId();
       const messagePayload: Message = {
@@ -194,8 +339,12 @@ describe('Chat Controller', () => {
       createMessageSpy.mockResolvedValue(messageResponse);
       addMessageSpy.mockResolvedValue(chatResponse);
       populateDocumentSpy.mockResolvedValue(chatResponse);
+      saveNotificationSpy.mockImplementationOnce(async notification => notification);
 
-      const response = await supertest(app).post(`/chat/${chatId}/addMessage`).send(messagePayload);
+      const response = await supertest(app)
+        .post(`/chat/${chatId}/addMessage`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(messagePayload);
 
       expect(response.status).toBe(200);
       expect(response.body).toMatchObject({
@@ -217,11 +366,35 @@ describe('Chat Controller', () => {
       expect(createMessageSpy).toHaveBeenCalledWith(serializedPayload);
       expect(addMessageSpy).toHaveBeenCalledWith(chatId.toString(), messageResponse._id.toString());
       expect(populateDocumentSpy).toHaveBeenCalledWith(chatResponse._id.toString(), 'chat');
+      // Only the other participant is notified of the message
+      expect(saveNotificationSpy).toHaveBeenCalledTimes(1);
+      expect(saveNotificationSpy).toHaveBeenCalledWith({
+        recipient: 'user2',
+        type: 'message',
+        actor: 'user1',
+        text: 'Hello!',
+        chatId: chatId.toString(),
+        read: false,
+      });
+    });
+
+    it('should return 403 if the authenticated user is not a participant', async () => {
+      getChatSpy.mockResolvedValueOnce({ participants: ['user2', 'user3'], messages: [] });
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/addMessage`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ msg: 'Hello!' });
+
+      expect(response.status).toBe(403);
+      expect(createMessageSpy).not.toHaveBeenCalled();
     });
 
     it('should return 400 if request missing body', async () => {
       const chatId = new mongoose.Types.ObjectId();
-      const response = await supertest(app).post(`/chat/${chatId}/addMessage`);
+      const response = await supertest(app)
+        .post(`/chat/${chatId}/addMessage`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(400);
     });
 
@@ -234,21 +407,16 @@ describe('Chat Controller', () => {
         label: 'empty msg',
         messagePayload: { msg: '', msgFrom: 'user5', msgDateTime: new Date('2025-08-07') },
       },
-      {
-        label: 'missing msgFrom',
-        messagePayload: { msg: 'Hello', msgDateTime: new Date('2025-08-07') },
-      },
-      {
-        label: 'empty msgFrom',
-        messagePayload: { msg: 'Hello', msgFrom: '', msgDateTime: new Date('2025-08-07') },
-      },
       {
         label: 'null msgDateTime',
         messagePayload: { msg: '', msgFrom: 'user5', msgDateTime: null },
       },
     ])('it should return 400 if request $label', async ({ messagePayload }) => {
       const chatId = new mongoose.Types.ObjectId();
-      const response = await supertest(app).post(`/chat/${chatId}/addMessage`).send(messagePayload);
+      const response = await supertest(app)
+        .post(`/chat/${chatId}/addMessage`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(messagePayload);
       expect(response.status).toBe(400);
     });
 
@@ -261,7 +429,10 @@ describe('Chat Controller', () => {
       };
       createMessageSpy.mockResolvedValueOnce({ error: 'Create message error' });
 
-      const response = await supertest(app).post(`/chat/${chatId}/addMessage`).send(messagePayload);
+      const response = await supertest(app)
+        .post(`/chat/${chatId}/addMessage`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(messagePayload);
       expect(response.status).toBe(500);
     });
 
@@ -285,7 +456,10 @@ describe('Chat Controller', () => {
       createMessageSpy.mockResolvedValueOnce(messageResponse);
       addMessageSpy.mockResolvedValueOnce({ error: 'Add message error' });
 
-      const response = await supertest(app).post(`/chat/${chatId}/addMessage`).send(messagePayload);
+      const response = await supertest(app)
+        .post(`/chat/${chatId}/addMessage`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(messagePayload);
       expect(response.status).toBe(500);
     });
 
@@ -317,7 +491,10 @@ describe('Chat Controller', () => {
       addMessageSpy.mockResolvedValueOnce(chatResponse);
       populateDocumentSpy.mockResolvedValueOnce({ error: 'Populate error' });
 
-      const response = await supertest(app).post(`/chat/${chatId}/addMessage`).send(messagePayload);
+      const response = await supertest(app)
+        .post(`/chat/${chatId}/addMessage`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(messagePayload);
       expect(response.status).toBe(500);
     });
   });
@@ -353,7 +530,9 @@ describe('Chat Controller', () => {
       populateDocumentSpy.mockResolvedValue(mockFoundChat);
 
       // 4) Invoke the endpoint
-      const response = await supertest(app).get(`/chat/${chatId}`);
+      const response = await supertest(app)
+        .get(`/chat/${chatId}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       // 5) Assertions
       expect(response.status).toBe(200);
@@ -379,8 +558,21 @@ describe('Chat Controller', () => {
       });
     });
 
+    it('should return 403 if the authenticated user is not a participant', async () => {
+      getChatSpy.mockResolvedValueOnce({ participants: ['user2', 'user3'], messages: [] });
+
+      const response = await supertest(app)
+        .get(`/chat/${new mongoose.Types.ObjectId().toString()}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(403);
+      expect(populateDocumentSpy).not.toHaveBeenCalled();
+    });
+
     it('should return 404 for missing ID', async () => {
-      const response = await supertest(app).get('/chat');
+      const response = await supertest(app)
+        .get('/chat')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(404);
     });
 
@@ -388,7 +580,9 @@ describe('Chat Controller', () => {
       const chatId = new mongoose.Types.ObjectId().toString();
 
       getChatSpy.mockResolvedValue({ error: 'Get chat error' });
-      const response = await supertest(app).get(`/chat/${chatId}`);
+      const response = await supertest(app)
+        .get(`/chat/${chatId}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(500);
     });
 
@@ -417,69 +611,712 @@ describe('Chat Controller', () => {
 
       getChatSpy.mockResolvedValueOnce(mockFoundChat);
       populateDocumentSpy.mockResolvedValue({ error: 'Population error' });
-      const response = await supertest(app).get(`/chat/${chatId}`);
+      const response = await supertest(app)
+        .get(`/chat/${chatId}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(500);
     });
   });
 
-  describe('POST /chat/:chatId/addParticipant', () => {
-    it('should add a participant to an existing chat', async () => {
-      const chatId = new mongoose.Types.ObjectId().toString();
-      const userId = new mongoose.Types.ObjectId().toString();
+  describe('GET /chat/:chatId/messages', () => {
+    const messagesPage = {
+      messages: [
+        {
+          _id: new mongoose.Types.ObjectId(),
+          msg: 'Hello!',
+          msgFrom: 'user1',
+          msgDateTime: new Date('2025-01-01T00:00:00Z'),
+          user: { _id: new mongoose.Types.ObjectId(), username: 'user1' },
+          type: 'direct' as const,
+        },
+      ],
+      hasMore: true,
+    };
 
-      const updatedChat: Chat = {
-        _id: new mongoose.Types.ObjectId(),
-        participants: ['user1', 'user2'],
-        messages: [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+    it('should return the latest messages of the chat', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      getChatMessagesSpy.mockResolvedValueOnce(messagesPage);
 
-      addParticipantSpy.mockResolvedValue(updatedChat);
+      const response = await supertest(app)
+        .get(`/chat/${GROUP_CHAT_ID}/messages`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
 
-      const response = await supertest(app).post(`/chat/${chatId}/addParticipant`).send({ userId });
+      expect(response.status).toBe(200);
+      expect(getChatMessagesSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, undefined);
+      expect(response.body.hasMore).toBe(true);
+      expect(response.body.messages).toHaveLength(1);
+      expect(response.body.messages[0].msg).toBe('Hello!');
+    });
+
+    it('should return the messages sent before the given message', async () => {
+      const before = new mongoose.Types.ObjectId().toString();
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      getChatMessagesSpy.mockResolvedValueOnce({ ...messagesPage, hasMore: false });
+
+      const response = await supertest(app)
+        .get(`/chat/${GROUP_CHAT_ID}/messages`)
+        .query({ before })
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
 
       expect(response.status).toBe(200);
+      expect(getChatMessagesSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, before);
+      expect(response.body.hasMore).toBe(false);
+    });
 
-      expect(response.body).toMatchObject({
-        _id: updatedChat._id?.toString(),
-        participants: updatedChat.participants.map(id => id.toString()),
-        messages: [],
-        createdAt: updatedChat.createdAt?.toISOString(),
-        updatedAt: updatedChat.updatedAt?.toISOString(),
+    it('should return 400 if the message cursor is invalid', async () => {
+      const response = await supertest(app)
+        .get(`/chat/${GROUP_CHAT_ID}/messages`)
+        .query({ before: 'not-an-id' })
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid message cursor');
+      expect(getChatMessagesSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 if the user is not a participant of the chat', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .get(`/chat/${GROUP_CHAT_ID}/messages`)
+        .set('Authorization', `Bearer ${issueToken('outsider')}`);
+
+      expect(response.status).toBe(403);
+      expect(getChatMessagesSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 if the chat does not exist', async () => {
+      getChatSpy.mockResolvedValueOnce({ error: 'Chat not found' });
+
+      const response = await supertest(app)
+        .get(`/chat/${GROUP_CHAT_ID}/messages`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toContain('Error retrieving chat messages: Chat not found');
+    });
+
+    it('should return 500 if fetching the messages fails', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      getChatMessagesSpy.mockResolvedValueOnce({ error: 'Messages error' });
+
+      const response = await supertest(app)
+        .get(`/chat/${GROUP_CHAT_ID}/messages`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toContain('Error retrieving chat messages: Messages error');
+    });
+  });
+
+  describe('Editing and deleting chat messages', () => {
+    const directMessage: Message = {
+      _id: new mongoose.Types.ObjectId(),
+      msg: 'Hello!',
+      msgFrom: 'user3',
+      msgDateTime: new Date('2025-01-01T00:00:00Z'),
+      type: 'direct',
+    };
+    const messageId = directMessage._id!.toString();
+    // Chats from getChat are not populated, so their messages hold the message IDs
+    const chatWithMessage: Chat = {
+      ...groupChat,
+      messages: [directMessage._id] as unknown as MessageInChat[],
+    };
+
+    /**
+     * Mocks sending the changed message to the participants, returning it enriched with its sender.
+     */
+    const mockMessageUpdate = (changes: Partial<Message>): MessageInChat => {
+      const changedMessage = {
+        ...directMessage,
+        ...changes,
+        user: { _id: new mongoose.Types.ObjectId(), username: 'user3' },
+      };
+      populateDocumentSpy.mockResolvedValueOnce(groupChat);
+      populateMessagesSpy.mockResolvedValueOnce([changedMessage]);
+      return changedMessage;
+    };
+
+    describe('PATCH /chat/:chatId/editMessage', () => {
+      it('should edit the message and send it to the participants', async () => {
+        const editedAt = new Date('2025-01-02T00:00:00Z');
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+        getMessageSpy.mockResolvedValueOnce(directMessage);
+        editMessageSpy.mockResolvedValueOnce({ ...directMessage, msg: 'Hi!', editedAt });
+        mockMessageUpdate({ msg: 'Hi!', editedAt });
+
+        const response = await supertest(app)
+          .patch(`/chat/${GROUP_CHAT_ID}/editMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId, msg: 'Hi!' });
+
+        expect(response.status).toBe(200);
+        expect(editMessageSpy).toHaveBeenCalledWith(messageId, 'Hi!');
+        expect(populateDocumentSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'chat');
+        expect(response.body.msg).toBe('Hi!');
+        expect(response.body.editedAt).toBe(editedAt.toISOString());
+      });
+
+      it('should return 400 if the text is empty', async () => {
+        const response = await supertest(app)
+          .patch(`/chat/${GROUP_CHAT_ID}/editMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId, msg: '' });
+
+        expect(response.status).toBe(400);
+        expect(response.text).toBe('Invalid request body');
+      });
+
+      it('should return 403 if the user is not a participant of the chat', async () => {
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+
+        const response = await supertest(app)
+          .patch(`/chat/${GROUP_CHAT_ID}/editMessage`)
+          .set('Authorization', `Bearer ${issueToken('outsider')}`)
+          .send({ messageId, msg: 'Hi!' });
+
+        expect(response.status).toBe(403);
+        expect(editMessageSpy).not.toHaveBeenCalled();
+      });
+
+      it('should return 403 if the user is not the author of the message', async () => {
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+        getMessageSpy.mockResolvedValueOnce(directMessage);
+
+        const response = await supertest(app)
+          .patch(`/chat/${GROUP_CHAT_ID}/editMessage`)
+          .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+          .send({ messageId, msg: 'Hi!' });
+
+        expect(response.status).toBe(403);
+        expect(response.body.error).toBe('Forbidden: only the author of the message can change it');
+        expect(editMessageSpy).not.toHaveBeenCalled();
+      });
+
+      it('should return 400 if the message is not part of the chat', async () => {
+        getChatSpy.mockResolvedValueOnce(groupChat);
+
+        const response = await supertest(app)
+          .patch(`/chat/${GROUP_CHAT_ID}/editMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId, msg: 'Hi!' });
+
+        expect(response.status).toBe(400);
+        expect(response.text).toBe('The message is not part of this chat');
+      });
+
+      it('should return 400 if the message is a system message', async () => {
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+        getMessageSpy.mockResolvedValueOnce({ ...directMessage, type: 'system' });
+
+        const response = await supertest(app)
+          .patch(`/chat/${GROUP_CHAT_ID}/editMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId, msg: 'Hi!' });
+
+        expect(response.status).toBe(400);
+        expect(response.text).toBe('System messages cannot be changed');
       });
 
-      expect(addParticipantSpy).toHaveBeenCalledWith(chatId, userId);
+      it('should return 400 if the message was deleted', async () => {
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+        getMessageSpy.mockResolvedValueOnce({ ...directMessage, msg: '', deletedAt: new Date() });
+
+        const response = await supertest(app)
+          .patch(`/chat/${GROUP_CHAT_ID}/editMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId, msg: 'Hi!' });
+
+        expect(response.status).toBe(400);
+        expect(response.text).toBe('The message was deleted');
+      });
+
+      it('should return 500 if editing the message fails', async () => {
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+        getMessageSpy.mockResolvedValueOnce(directMessage);
+        editMessageSpy.mockResolvedValueOnce({ error: 'Edit error' });
+
+        const response = await supertest(app)
+          .patch(`/chat/${GROUP_CHAT_ID}/editMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId, msg: 'Hi!' });
+
+        expect(response.status).toBe(500);
+        expect(response.text).toBe('Error editing message: Edit error');
+      });
+    });
+
+    describe('POST /chat/:chatId/deleteMessage', () => {
+      it('should delete the message and send it to the participants', async () => {
+        const deletedAt = new Date('2025-01-02T00:00:00Z');
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+        getMessageSpy.mockResolvedValueOnce(directMessage);
+        deleteMessageSpy.mockResolvedValueOnce({ ...directMessage, msg: '', deletedAt });
+        mockMessageUpdate({ msg: '', deletedAt });
+
+        const response = await supertest(app)
+          .post(`/chat/${GROUP_CHAT_ID}/deleteMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId });
+
+        expect(response.status).toBe(200);
+        expect(deleteMessageSpy).toHaveBeenCalledWith(messageId);
+        expect(response.body.msg).toBe('');
+        expect(response.body.deletedAt).toBe(deletedAt.toISOString());
+      });
+
+      it('should return 400 if the message ID is invalid', async () => {
+        const response = await supertest(app)
+          .post(`/chat/${GROUP_CHAT_ID}/deleteMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId: 'invalid' });
+
+        expect(response.status).toBe(400);
+        expect(response.text).toBe('Invalid request body');
+      });
+
+      it('should return 403 if the user is not the author of the message', async () => {
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+        getMessageSpy.mockResolvedValueOnce(directMessage);
+
+        const response = await supertest(app)
+          .post(`/chat/${GROUP_CHAT_ID}/deleteMessage`)
+          .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+          .send({ messageId });
+
+        expect(response.status).toBe(403);
+        expect(deleteMessageSpy).not.toHaveBeenCalled();
+      });
+
+      it('should return 500 if the chat cannot be found', async () => {
+        getChatSpy.mockResolvedValueOnce({ error: 'Chat not found' });
+
+        const response = await supertest(app)
+          .post(`/chat/${GROUP_CHAT_ID}/deleteMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId });
+
+        expect(response.status).toBe(500);
+        expect(response.text).toBe('Error deleting message: Chat not found');
+      });
+
+      it('should return 500 if deleting the message fails', async () => {
+        getChatSpy.mockResolvedValueOnce(chatWithMessage);
+        getMessageSpy.mockResolvedValueOnce(directMessage);
+        deleteMessageSpy.mockResolvedValueOnce({ error: 'Delete error' });
+
+        const response = await supertest(app)
+          .post(`/chat/${GROUP_CHAT_ID}/deleteMessage`)
+          .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+          .send({ messageId });
+
+        expect(response.status).toBe(500);
+        expect(response.text).toBe('Error deleting message: Delete error');
+      });
+    });
+  });
+
+  describe('POST /chat/:chatId/markRead', () => {
+    it('should mark the chat as read and send it to the participants', async () => {
+      const readChat: Chat = {
+        ...groupChat,
+        lastRead: [{ username: 'user3', messageId: new mongoose.Types.ObjectId() }],
+      };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      markChatReadSpy.mockResolvedValueOnce(readChat);
+      populateDocumentSpy.mockResolvedValueOnce(readChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/markRead`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(markChatReadSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'user3');
+      expect(response.body.lastRead[0].username).toBe('user3');
+    });
+
+    it('should return 403 if the user is not a participant of the chat', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/markRead`)
+        .set('Authorization', `Bearer ${issueToken('outsider')}`);
+
+      expect(response.status).toBe(403);
+      expect(markChatReadSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 if marking the chat as read fails', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      markChatReadSpy.mockResolvedValueOnce({ error: 'Update error' });
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/markRead`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error marking chat as read: Update error');
+    });
+  });
+
+  describe('POST /chat/:chatId/addParticipant', () => {
+    it('should add a participant and record it in the chat', async () => {
+      const updatedChat = { ...groupChat, participants: [...groupChat.participants, 'user4'] };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      addParticipantSpy.mockResolvedValueOnce(updatedChat);
+      mockChatChange(updatedChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/addParticipant`)
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: 'user4' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.participants).toEqual(['user1', 'user2', 'user3', 'user4']);
+      expect(addParticipantSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'user4');
+      expect(createMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ msg: 'user2 added user4', msgFrom: 'user2', type: 'system' }),
+      );
+    });
+
+    it('should return 403 if the authenticated user is not an admin', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/addParticipant`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+        .send({ username: 'user4' });
+
+      expect(response.status).toBe(403);
+      expect(addParticipantSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 if the authenticated user is not a participant', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/addParticipant`)
+        .set('Authorization', `Bearer ${issueToken('user5')}`)
+        .send({ username: 'user4' });
+
+      expect(response.status).toBe(403);
+      expect(addParticipantSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a direct chat', async () => {
+      getChatSpy.mockResolvedValueOnce({ participants: ['user1', 'user2'], messages: [] });
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/addParticipant`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user4' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Only group chats can be managed');
+    });
+
+    it('should return 400 if the user is already a participant', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/addParticipant`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user3' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('User is already a participant');
     });
 
     it('should return 400 for request missing body', async () => {
       const chatId = new mongoose.Types.ObjectId().toString();
-      const response = await supertest(app).post(`/chat/${chatId}/addParticipant`);
+      const response = await supertest(app)
+        .post(`/chat/${chatId}/addParticipant`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(400);
     });
 
     it.each([
-      { label: 'missing user ID', addParticipantPayload: {} },
-      { label: 'empty user ID', addParticipantPayload: { userId: '' } },
+      { label: 'missing username', addParticipantPayload: {} },
+      { label: 'empty username', addParticipantPayload: { username: '' } },
     ])('it should return 400 for request $label', async ({ addParticipantPayload }) => {
       const chatId = new mongoose.Types.ObjectId().toString();
       const response = await supertest(app)
         .post(`/chat/${chatId}/addParticipant`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send(addParticipantPayload);
       expect(response.status).toBe(400);
     });
 
     it('should return 500 for participant addition failure', async () => {
-      const chatId = new mongoose.Types.ObjectId().toString();
-      const userId = new mongoose.Types.ObjectId().toString();
-
+      getChatSpy.mockResolvedValueOnce(groupChat);
       addParticipantSpy.mockResolvedValueOnce({ error: 'Add participant error' });
 
-      const addParticipantPayload = { userId };
       const response = await supertest(app)
-        .post(`/chat/${chatId}/addParticipant`)
-        .send(addParticipantPayload);
+        .post(`/chat/${GROUP_CHAT_ID}/addParticipant`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user4' });
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error adding participant to chat: Add participant error');
+    });
+  });
+
+  describe('POST /chat/:chatId/removeParticipant', () => {
+    it('should remove a participant and send them the update', async () => {
+      const updatedChat = { ...groupChat, participants: ['user1', 'user2'] };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      removeParticipantSpy.mockResolvedValueOnce(updatedChat);
+      mockChatChange(updatedChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/removeParticipant`)
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: 'user3' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.participants).toEqual(['user1', 'user2']);
+      expect(removeParticipantSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'user3');
+      expect(createMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ msg: 'user2 removed user3', type: 'system' }),
+      );
+    });
+
+    it('should let the owner remove an admin', async () => {
+      const updatedChat = { ...groupChat, participants: ['user1', 'user3'], admins: ['user1'] };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      removeParticipantSpy.mockResolvedValueOnce(updatedChat);
+      mockChatChange(updatedChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/removeParticipant`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user2' });
+
+      expect(response.status).toBe(200);
+      expect(removeParticipantSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'user2');
+    });
+
+    it('should return 403 if an admin removes the owner', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/removeParticipant`)
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: 'user1' });
+
+      expect(response.status).toBe(403);
+      expect(removeParticipantSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 if the authenticated user is not an admin', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/removeParticipant`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+        .send({ username: 'user2' });
+
+      expect(response.status).toBe(403);
+      expect(removeParticipantSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the user is not a participant', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/removeParticipant`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user4' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Only other participants can be removed');
+    });
+  });
+
+  describe('POST /chat/:chatId/leave', () => {
+    it('should remove the authenticated user from the chat', async () => {
+      const updatedChat = { ...groupChat, participants: ['user1', 'user2'] };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      removeParticipantSpy.mockResolvedValueOnce(updatedChat);
+      mockChatChange(updatedChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/leave`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ chatId: GROUP_CHAT_ID });
+      expect(removeParticipantSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'user3');
+      expect(createMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ msg: 'user3 left the chat', msgFrom: 'user3' }),
+      );
+    });
+
+    it('should return 400 if the owner leaves without transferring ownership', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/leave`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('The owner must transfer ownership before leaving the chat');
+      expect(removeParticipantSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 if the chat cannot be found', async () => {
+      getChatSpy.mockResolvedValueOnce({ error: `No chat found with ID: ${GROUP_CHAT_ID}` });
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/leave`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`);
+
       expect(response.status).toBe(500);
+      expect(response.text).toBe(`Error leaving chat: No chat found with ID: ${GROUP_CHAT_ID}`);
+    });
+  });
+
+  describe('POST /chat/:chatId/rename', () => {
+    it('should rename the chat', async () => {
+      const updatedChat = { ...groupChat, name: 'Exam prep' };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      renameChatSpy.mockResolvedValueOnce(updatedChat);
+      mockChatChange(updatedChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/rename`)
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ name: ' Exam prep ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toEqual('Exam prep');
+      expect(renameChatSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'Exam prep');
+      expect(createMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ msg: 'user2 renamed the chat to "Exam prep"' }),
+      );
+    });
+
+    it('should return 400 for a blank name', async () => {
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/rename`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: ' ' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 403 if the authenticated user is not an admin', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/rename`)
+        .set('Authorization', `Bearer ${MEMBER_TOKEN}`)
+        .send({ name: 'Exam prep' });
+
+      expect(response.status).toBe(403);
+      expect(renameChatSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /chat/:chatId/transferOwnership', () => {
+    it('should make another participant the owner', async () => {
+      const updatedChat = { ...groupChat, owner: 'user3', admins: ['user1', 'user2', 'user3'] };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      transferOwnershipSpy.mockResolvedValueOnce(updatedChat);
+      mockChatChange(updatedChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/transferOwnership`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user3' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.owner).toEqual('user3');
+      expect(transferOwnershipSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'user3');
+    });
+
+    it('should return 403 if the authenticated user is not the owner', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/transferOwnership`)
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: 'user3' });
+
+      expect(response.status).toBe(403);
+      expect(transferOwnershipSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the new owner is not a participant', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/transferOwnership`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user4' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Ownership can only be transferred to another participant');
+    });
+  });
+
+  describe('POST /chat/:chatId/setAdmin', () => {
+    it('should make a participant an admin', async () => {
+      const updatedChat = { ...groupChat, admins: ['user1', 'user2', 'user3'] };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      setChatAdminSpy.mockResolvedValueOnce(updatedChat);
+      mockChatChange(updatedChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/setAdmin`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user3', admin: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.admins).toEqual(['user1', 'user2', 'user3']);
+      expect(setChatAdminSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'user3', true);
+      expect(createMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ msg: 'user1 made user3 an admin' }),
+      );
+    });
+
+    it('should remove a participant as an admin', async () => {
+      const updatedChat = { ...groupChat, admins: ['user1'] };
+      getChatSpy.mockResolvedValueOnce(groupChat);
+      setChatAdminSpy.mockResolvedValueOnce(updatedChat);
+      mockChatChange(updatedChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/setAdmin`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user2', admin: false });
+
+      expect(response.status).toBe(200);
+      expect(setChatAdminSpy).toHaveBeenCalledWith(GROUP_CHAT_ID, 'user2', false);
+      expect(createMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ msg: 'user1 removed user2 as an admin' }),
+      );
+    });
+
+    it('should return 403 if the authenticated user is not the owner', async () => {
+      getChatSpy.mockResolvedValueOnce(groupChat);
+
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/setAdmin`)
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: 'user3', admin: true });
+
+      expect(response.status).toBe(403);
+      expect(setChatAdminSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if admin is not a boolean', async () => {
+      const response = await supertest(app)
+        .post(`/chat/${GROUP_CHAT_ID}/setAdmin`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user3', admin: 'yes' });
+
+      expect(response.status).toBe(400);
     });
   });
 
@@ -498,7 +1335,9 @@ describe('Chat Controller', () => {
       getChatsByParticipantsSpy.mockResolvedValueOnce(chats);
       populateDocumentSpy.mockResolvedValueOnce(chats[0]);
 
-      const response = await supertest(app).get(`/chat/getChatsByUser/${username}`);
+      const response = await supertest(app)
+        .get(`/chat/getChatsByUser/${username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(getChatsByParticipantsSpy).toHaveBeenCalledWith([username]);
       expect(populateDocumentSpy).toHaveBeenCalledWith(chats[0]._id?.toString(), 'chat');
@@ -510,10 +1349,55 @@ describe('Chat Controller', () => {
           messages: [],
           createdAt: chats[0].createdAt?.toISOString(),
           updatedAt: chats[0].updatedAt?.toISOString(),
+          unreadCount: 0,
         },
       ]);
     });
 
+    it('should return the number of unread messages of each chat', async () => {
+      const username = 'user1';
+      const chats: Chat[] = [
+        { _id: new mongoose.Types.ObjectId(), participants: ['user1', 'user2'], messages: [] },
+        { _id: new mongoose.Types.ObjectId(), participants: ['user1', 'user3'], messages: [] },
+      ];
+      getChatsByParticipantsSpy.mockResolvedValueOnce(chats);
+      populateDocumentSpy.mockResolvedValueOnce(chats[0]).mockResolvedValueOnce(chats[1]);
+      countUnreadMessagesSpy.mockResolvedValueOnce(2).mockResolvedValueOnce(0);
+
+      const response = await supertest(app)
+        .get(`/chat/getChatsByUser/${username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(countUnreadMessagesSpy).toHaveBeenCalledWith(chats[0], username);
+      expect(response.body.map((chat: Chat) => chat.unreadCount)).toEqual([2, 0]);
+    });
+
+    it('should return 500 if counting the unread messages fails', async () => {
+      const chats: Chat[] = [
+        { _id: new mongoose.Types.ObjectId(), participants: ['user1', 'user2'], messages: [] },
+      ];
+      getChatsByParticipantsSpy.mockResolvedValueOnce(chats);
+      populateDocumentSpy.mockResolvedValueOnce(chats[0]);
+      countUnreadMessagesSpy.mockResolvedValueOnce({ error: 'Count error' });
+
+      const response = await supertest(app)
+        .get('/chat/getChatsByUser/user1')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error retrieving chat: Count error');
+    });
+
+    it('should return 403 when retrieving the chats of another user', async () => {
+      const response = await supertest(app)
+        .get('/chat/getChatsByUser/user2')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(403);
+      expect(getChatsByParticipantsSpy).not.toHaveBeenCalled();
+    });
+
     it('should return 500 if populateDocument fails for any chat', async () => {
       const username = 'user1';
       const chats: Chat[] = [
@@ -528,7 +1412,9 @@ describe('Chat Controller', () => {
       getChatsByParticipantsSpy.mockResolvedValueOnce(chats);
       populateDocumentSpy.mockResolvedValueOnce({ error: 'Service error' });
 
-      const response = await supertest(app).get(`/chat/getChatsByUser/${username}`);
+      const response = await supertest(app)
+        .get(`/chat/getChatsByUser/${username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(getChatsByParticipantsSpy).toHaveBeenCalledWith([username]);
       expect(populateDocumentSpy).toHaveBeenCalledWith(chats[0]._id?.toString(), 'chat');
@@ -0,0 +1,401 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import { app } from '../../app';
+import * as closureUtil from '../../services/closure.service';
+import * as userUtil from '../../services/user.service';
+import * as databaseUtil from '../../utils/database.util';
+import { Question, SafeUser } from '../../types/types';
+import { issueToken } from '../../utils/token.util';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const MODERATOR_TOKEN = issueToken('moderator1', 'moderator');
+
+jest.spyOn(userUtil, 'getUserRole').mockImplementation(mockUserRole);
+
+const voteToCloseSpy = jest.spyOn(closureUtil, 'voteToClose');
+const retractCloseVoteSpy = jest.spyOn(closureUtil, 'retractCloseVote');
+const voteToReopenSpy = jest.spyOn(closureUtil, 'voteToReopen');
+const retractReopenVoteSpy = jest.spyOn(closureUtil, 'retractReopenVote');
+const setQuestionLockedSpy = jest.spyOn(closureUtil, 'setQuestionLocked');
+const getUserByUsernameSpy = jest.spyOn(userUtil, 'getUserByUsername');
+const populateDocumentSpy = jest.spyOn(databaseUtil, 'populateDocument');
+
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+const originalId = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd');
+
+const question: Question = {
+  _id: qid,
+  title: 'Question title',
+  text: 'Question text',
+  tags: [],
+  askedBy: 'user3',
+  askDateTime: new Date('2025-01-01'),
+  answers: [],
+  views: [],
+  upVotes: [],
+  downVotes: [],
+  comments: [],
+  status: 'open',
+  closeVotes: [],
+  reopenVotes: [],
+};
+
+const closedQuestion: Question = {
+  ...question,
+  status: 'closed',
+  closeReason: 'unclear',
+};
+
+const voter: SafeUser = {
+  username: 'user1',
+  dateJoined: new Date('2024-12-03'),
+  reputation: closureUtil.CLOSE_VOTE_REPUTATION,
+};
+
+describe('Test closureController', () => {
+  describe('POST /voteClose', () => {
+    it('should record the vote and return the question', async () => {
+      const voted = { ...question, closeVotes: [{ voter: 'user1', reason: 'unclear' as const }] };
+      populateDocumentSpy.mockResolvedValueOnce(question).mockResolvedValueOnce(voted);
+      getUserByUsernameSpy.mockResolvedValueOnce(voter);
+      voteToCloseSpy.mockResolvedValueOnce(voted);
+
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'unclear' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.closeVotes).toEqual([{ voter: 'user1', reason: 'unclear' }]);
+      expect(voteToCloseSpy).toHaveBeenCalledWith(
+        qid.toString(),
+        'user1',
+        'unclear',
+        undefined,
+        false,
+      );
+    });
+
+    it('should make the vote of a moderator binding', async () => {
+      populateDocumentSpy.mockResolvedValueOnce(question).mockResolvedValueOnce(closedQuestion);
+      voteToCloseSpy.mockResolvedValueOnce(closedQuestion);
+
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'unclear' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toEqual('closed');
+      expect(getUserByUsernameSpy).not.toHaveBeenCalled();
+      expect(voteToCloseSpy).toHaveBeenCalledWith(
+        qid.toString(),
+        'moderator1',
+        'unclear',
+        undefined,
+        true,
+      );
+    });
+
+    it('should make the vote of the asker to close as a duplicate binding', async () => {
+      const asked = { ...question, askedBy: 'user1' };
+      const duplicate = { ...closedQuestion, closeReason: 'duplicate' as const };
+      populateDocumentSpy.mockResolvedValueOnce(asked).mockResolvedValueOnce(duplicate);
+      voteToCloseSpy.mockResolvedValueOnce(duplicate);
+
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'duplicate', duplicateOf: originalId.toString() });
+
+      expect(response.status).toBe(200);
+      expect(voteToCloseSpy).toHaveBeenCalledWith(
+        qid.toString(),
+        'user1',
+        'duplicate',
+        originalId.toString(),
+        true,
+      );
+    });
+
+    it('should return 403 if the user does not have enough reputation', async () => {
+      populateDocumentSpy.mockResolvedValueOnce(question);
+      getUserByUsernameSpy.mockResolvedValueOnce({ ...voter, reputation: 10 });
+
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'offTopic' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+      expect(voteToCloseSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the reason is not valid', async () => {
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'boring' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 400 if a duplicate vote has no original question', async () => {
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'duplicate' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 400 if another reason has an original question', async () => {
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'unclear', duplicateOf: originalId.toString() });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 400 if the user already voted', async () => {
+      populateDocumentSpy.mockResolvedValueOnce(question);
+      getUserByUsernameSpy.mockResolvedValueOnce(voter);
+      voteToCloseSpy.mockResolvedValueOnce({ error: 'You already voted to close this question' });
+
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'unclear' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('You already voted to close this question');
+    });
+
+    it('should return 404 if the original question is not found', async () => {
+      populateDocumentSpy.mockResolvedValueOnce(question);
+      getUserByUsernameSpy.mockResolvedValueOnce(voter);
+      voteToCloseSpy.mockResolvedValueOnce({ error: 'Original question not found' });
+
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'duplicate', duplicateOf: originalId.toString() });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Original question not found');
+    });
+
+    it('should return 500 if the vote cannot be saved', async () => {
+      populateDocumentSpy.mockResolvedValueOnce(question);
+      getUserByUsernameSpy.mockResolvedValueOnce(voter);
+      voteToCloseSpy.mockResolvedValueOnce({ error: 'Error when voting to close the question' });
+
+      const response = await supertest(app)
+        .post('/closure/voteClose')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString(), reason: 'unclear' });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when voting to close question: Error when voting to close the question',
+      );
+    });
+  });
+
+  describe('POST /retractCloseVote', () => {
+    it('should return the question without the vote', async () => {
+      retractCloseVoteSpy.mockResolvedValueOnce(question);
+      populateDocumentSpy.mockResolvedValueOnce(question);
+
+      const response = await supertest(app)
+        .post('/closure/retractCloseVote')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(retractCloseVoteSpy).toHaveBeenCalledWith(qid.toString(), 'user1');
+    });
+
+    it('should return 400 if the user has not voted', async () => {
+      retractCloseVoteSpy.mockResolvedValueOnce({
+        error: 'You have not voted to close this question',
+      });
+
+      const response = await supertest(app)
+        .post('/closure/retractCloseVote')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('You have not voted to close this question');
+    });
+
+    it('should return 400 if the question ID is not valid', async () => {
+      const response = await supertest(app)
+        .post('/closure/retractCloseVote')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: 'invalid' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+  });
+
+  describe('POST /voteReopen', () => {
+    it('should record the vote and return the question', async () => {
+      const voted = { ...closedQuestion, reopenVotes: ['user1'] };
+      getUserByUsernameSpy.mockResolvedValueOnce(voter);
+      voteToReopenSpy.mockResolvedValueOnce(voted);
+      populateDocumentSpy.mockResolvedValueOnce(voted);
+
+      const response = await supertest(app)
+        .post('/closure/voteReopen')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.reopenVotes).toEqual(['user1']);
+      expect(voteToReopenSpy).toHaveBeenCalledWith(qid.toString(), 'user1', false);
+    });
+
+    it('should make the vote of a moderator binding', async () => {
+      voteToReopenSpy.mockResolvedValueOnce(question);
+      populateDocumentSpy.mockResolvedValueOnce(question);
+
+      const response = await supertest(app)
+        .post('/closure/voteReopen')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toEqual('open');
+      expect(voteToReopenSpy).toHaveBeenCalledWith(qid.toString(), 'moderator1', true);
+    });
+
+    it('should return 403 if the user does not have enough reputation', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce({ ...voter, reputation: 10 });
+
+      const response = await supertest(app)
+        .post('/closure/voteReopen')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(403);
+      expect(voteToReopenSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the question is not closed', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce(voter);
+      voteToReopenSpy.mockResolvedValueOnce({ error: 'Question is open' });
+
+      const response = await supertest(app)
+        .post('/closure/voteReopen')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Question is open');
+    });
+  });
+
+  describe('POST /retractReopenVote', () => {
+    it('should return the question without the vote', async () => {
+      retractReopenVoteSpy.mockResolvedValueOnce(closedQuestion);
+      populateDocumentSpy.mockResolvedValueOnce(closedQuestion);
+
+      const response = await supertest(app)
+        .post('/closure/retractReopenVote')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(retractReopenVoteSpy).toHaveBeenCalledWith(qid.toString(), 'user1');
+    });
+
+    it('should return 500 if the vote cannot be retracted', async () => {
+      retractReopenVoteSpy.mockResolvedValueOnce({ error: 'Error when retracting the vote' });
+
+      const response = await supertest(app)
+        .post('/closure/retractReopenVote')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when retracting vote: Error when retracting the vote');
+    });
+  });
+
+  describe('POST /lockQuestion', () => {
+    it('should lock the question', async () => {
+      const locked = { ...question, status: 'locked' as const };
+      setQuestionLockedSpy.mockResolvedValueOnce(locked);
+      populateDocumentSpy.mockResolvedValueOnce(locked);
+
+      const response = await supertest(app)
+        .post('/closure/lockQuestion')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toEqual('locked');
+      expect(setQuestionLockedSpy).toHaveBeenCalledWith(qid.toString(), true);
+    });
+
+    it('should return 403 if the user is not a moderator', async () => {
+      const response = await supertest(app)
+        .post('/closure/lockQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+      expect(setQuestionLockedSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the question is not found', async () => {
+      setQuestionLockedSpy.mockResolvedValueOnce({ error: 'Question not found' });
+
+      const response = await supertest(app)
+        .post('/closure/lockQuestion')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Question not found');
+    });
+  });
+
+  describe('POST /unlockQuestion', () => {
+    it('should unlock the question', async () => {
+      setQuestionLockedSpy.mockResolvedValueOnce(closedQuestion);
+      populateDocumentSpy.mockResolvedValueOnce(closedQuestion);
+
+      const response = await supertest(app)
+        .post('/closure/unlockQuestion')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toEqual('closed');
+      expect(setQuestionLockedSpy).toHaveBeenCalledWith(qid.toString(), false);
+    });
+
+    it('should return 400 if the question is not locked', async () => {
+      setQuestionLockedSpy.mockResolvedValueOnce({ error: 'Question is not locked' });
+
+      const response = await supertest(app)
+        .post('/closure/unlockQuestion')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ qid: qid.toString() });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Question is not locked');
+    });
+  });
+});
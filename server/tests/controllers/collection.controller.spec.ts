@@ -0,0 +1,332 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import { app } from '../../app';
+import * as collectionUtil from '../../services/collection.service';
+import { Collection } from '../../types/types';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const OTHER_TOKEN = issueToken('user2');
+const ADMIN_TOKEN = issueToken('admin1', 'admin');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
+
+const saveCollectionSpy = jest.spyOn(collectionUtil, 'saveCollection');
+const getCollectionByIdSpy = jest.spyOn(collectionUtil, 'getCollectionById');
+const getCollectionsByOwnerSpy = jest.spyOn(collectionUtil, 'getCollectionsByOwner');
+const updateCollectionSpy = jest.spyOn(collectionUtil, 'updateCollection');
+const setCollectionQuestionSpy = jest.spyOn(collectionUtil, 'setCollectionQuestion');
+const deleteCollectionSpy = jest.spyOn(collectionUtil, 'deleteCollection');
+
+const cid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6f0');
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+
+const collection: Collection = {
+  _id: cid,
+  name: 'Promises',
+  description: '',
+  owner: 'user1',
+  questions: [],
+  shared: false,
+};
+
+const serializedCollection = { ...collection, _id: cid.toString() };
+
+describe('Test collectionController', () => {
+  describe('POST /createCollection', () => {
+    it('should create a collection owned by the authenticated user', async () => {
+      saveCollectionSpy.mockResolvedValueOnce(collection);
+
+      const response = await supertest(app)
+        .post('/collection/createCollection')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: ' Promises ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(serializedCollection);
+      expect(saveCollectionSpy).toHaveBeenCalledWith({
+        name: 'Promises',
+        description: '',
+        owner: 'user1',
+        questions: [],
+        shared: false,
+      });
+    });
+
+    it('should return 400 if the name is missing', async () => {
+      const response = await supertest(app)
+        .post('/collection/createCollection')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ shared: true });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 400 if the sharing is not a boolean', async () => {
+      const response = await supertest(app)
+        .post('/collection/createCollection')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'Promises', shared: 'yes' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 500 if the collection cannot be saved', async () => {
+      saveCollectionSpy.mockResolvedValueOnce({ error: 'Error when saving a collection' });
+
+      const response = await supertest(app)
+        .post('/collection/createCollection')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'Promises' });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe('Error when creating collection: Error when saving a collection');
+    });
+  });
+
+  describe('GET /getCollection/:id', () => {
+    it('should return a private collection to its owner', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+
+      const response = await supertest(app)
+        .get(`/collection/getCollection/${cid}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(serializedCollection);
+    });
+
+    it('should return a shared collection to other users', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce({ ...collection, shared: true });
+
+      const response = await supertest(app)
+        .get(`/collection/getCollection/${cid}`)
+        .set('Authorization', `Bearer ${OTHER_TOKEN}`);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 403 if another user requests a private collection', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+
+      const response = await supertest(app)
+        .get(`/collection/getCollection/${cid}`)
+        .set('Authorization', `Bearer ${OTHER_TOKEN}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 404 if the collection does not exist', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce({ error: 'Collection not found' });
+
+      const response = await supertest(app)
+        .get(`/collection/getCollection/${cid}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Collection not found');
+    });
+
+    it('should return 400 if the ID is invalid', async () => {
+      const response = await supertest(app)
+        .get('/collection/getCollection/invalid')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid ID format');
+    });
+  });
+
+  describe('GET /getCollectionsByUser/:username', () => {
+    it('should return all the collections of the authenticated user', async () => {
+      getCollectionsByOwnerSpy.mockResolvedValueOnce([collection]);
+
+      const response = await supertest(app)
+        .get('/collection/getCollectionsByUser/user1')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([serializedCollection]);
+      expect(getCollectionsByOwnerSpy).toHaveBeenCalledWith('user1', false);
+    });
+
+    it('should only return the shared collections to other users', async () => {
+      getCollectionsByOwnerSpy.mockResolvedValueOnce([]);
+
+      const response = await supertest(app)
+        .get('/collection/getCollectionsByUser/user1')
+        .set('Authorization', `Bearer ${OTHER_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(getCollectionsByOwnerSpy).toHaveBeenCalledWith('user1', true);
+    });
+
+    it('should return 500 if the collections cannot be fetched', async () => {
+      getCollectionsByOwnerSpy.mockResolvedValueOnce({ error: 'Error when fetching collections' });
+
+      const response = await supertest(app)
+        .get('/collection/getCollectionsByUser/user1')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('PATCH /updateCollection', () => {
+    it('should let the owner share the collection', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+      updateCollectionSpy.mockResolvedValueOnce({ ...collection, shared: true });
+
+      const response = await supertest(app)
+        .patch('/collection/updateCollection')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: cid.toString(), shared: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.shared).toBe(true);
+      expect(updateCollectionSpy).toHaveBeenCalledWith(cid.toString(), { shared: true });
+    });
+
+    it('should let an admin rename the collection of another user', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+      updateCollectionSpy.mockResolvedValueOnce({ ...collection, name: 'Async' });
+
+      const response = await supertest(app)
+        .patch('/collection/updateCollection')
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ id: cid.toString(), name: 'Async ' });
+
+      expect(response.status).toBe(200);
+      expect(updateCollectionSpy).toHaveBeenCalledWith(cid.toString(), { name: 'Async' });
+    });
+
+    it('should return 403 if another user tries to update the collection', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+
+      const response = await supertest(app)
+        .patch('/collection/updateCollection')
+        .set('Authorization', `Bearer ${OTHER_TOKEN}`)
+        .send({ id: cid.toString(), shared: true });
+
+      expect(response.status).toBe(403);
+      expect(updateCollectionSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the name is empty', async () => {
+      const response = await supertest(app)
+        .patch('/collection/updateCollection')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: cid.toString(), name: ' ' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /addQuestion', () => {
+    it('should add the question to the collection', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+      setCollectionQuestionSpy.mockResolvedValueOnce({ ...collection, questions: [qid] });
+
+      const response = await supertest(app)
+        .post('/collection/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: cid.toString(), qid: qid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.questions).toEqual([qid.toString()]);
+      expect(setCollectionQuestionSpy).toHaveBeenCalledWith(cid.toString(), qid.toString(), true);
+    });
+
+    it('should return 404 if the question does not exist', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+      setCollectionQuestionSpy.mockResolvedValueOnce({ error: 'Question not found' });
+
+      const response = await supertest(app)
+        .post('/collection/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: cid.toString(), qid: qid.toString() });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Question not found');
+    });
+
+    it('should return 400 if the question ID is invalid', async () => {
+      const response = await supertest(app)
+        .post('/collection/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: cid.toString(), qid: 'invalid' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+  });
+
+  describe('POST /removeQuestion', () => {
+    it('should remove the question from the collection', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce({ ...collection, questions: [qid] });
+      setCollectionQuestionSpy.mockResolvedValueOnce(collection);
+
+      const response = await supertest(app)
+        .post('/collection/removeQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: cid.toString(), qid: qid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(setCollectionQuestionSpy).toHaveBeenCalledWith(cid.toString(), qid.toString(), false);
+    });
+
+    it('should return 404 if the collection does not exist', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce({ error: 'Collection not found' });
+
+      const response = await supertest(app)
+        .post('/collection/removeQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: cid.toString(), qid: qid.toString() });
+
+      expect(response.status).toBe(404);
+      expect(setCollectionQuestionSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /deleteCollection/:id', () => {
+    it('should let the owner delete the collection', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+      deleteCollectionSpy.mockResolvedValueOnce(collection);
+
+      const response = await supertest(app)
+        .delete(`/collection/deleteCollection/${cid}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(deleteCollectionSpy).toHaveBeenCalledWith(cid.toString());
+    });
+
+    it('should return 403 if another user tries to delete the collection', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+
+      const response = await supertest(app)
+        .delete(`/collection/deleteCollection/${cid}`)
+        .set('Authorization', `Bearer ${OTHER_TOKEN}`);
+
+      expect(response.status).toBe(403);
+      expect(deleteCollectionSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 if the collection cannot be deleted', async () => {
+      getCollectionByIdSpy.mockResolvedValueOnce(collection);
+      deleteCollectionSpy.mockResolvedValueOnce({ error: 'Error when deleting the collection' });
+
+      const response = await supertest(app)
+        .delete(`/collection/deleteCollection/${cid}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when deleting collection: Error when deleting the collection',
+      );
+    });
+  });
+});
@@ -3,11 +3,26 @@ import supertest from 'supertest';
 import { app } from '../../app';
 import * as commentUtil from '../../services/comment.service';
 import * as databaseUtil from '../../utils/database.util';
+import * as notificationUtil from '../../services/notification.service';
+import * as closureUtil from '../../services/closure.service';
 import { Question } from '../../types/types';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const MODERATOR_TOKEN = issueToken('moderator1', 'moderator');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
 
 const saveCommentSpy = jest.spyOn(commentUtil, 'saveComment');
 const addCommentSpy = jest.spyOn(commentUtil, 'addComment');
 const popDocSpy = jest.spyOn(databaseUtil, 'populateDocument');
+const getCommentByIdSpy = jest.spyOn(commentUtil, 'getCommentById');
+const setCommentDeletedSpy = jest.spyOn(commentUtil, 'setCommentDeleted');
+const saveNotificationSpy = jest.spyOn(notificationUtil, 'saveNotification');
+const getNotificationTargetSpy = jest.spyOn(notificationUtil, 'getNotificationTarget');
+const getQuestionStatusSpy = jest.spyOn(closureUtil, 'getQuestionStatus').mockResolvedValue('open');
 
 describe('POST /addComment', () => {
   it('should add a new comment to the question', async () => {
@@ -59,8 +74,17 @@ describe('POST /addComment', () => {
       answers: [],
       comments: [mockComment],
     });
+    getNotificationTargetSpy.mockResolvedValueOnce({
+      author: 'dummyUserId',
+      qid: validQid,
+      title: 'This is a test question',
+    });
+    saveNotificationSpy.mockImplementationOnce(async notification => notification);
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -69,6 +93,15 @@ describe('POST /addComment', () => {
       commentBy: 'dummyUserId',
       commentDateTime: mockComment.commentDateTime.toISOString(),
     });
+    expect(getNotificationTargetSpy).toHaveBeenCalledWith(validQid.toString(), 'question');
+    expect(saveNotificationSpy).toHaveBeenCalledWith({
+      recipient: 'dummyUserId',
+      type: 'comment',
+      actor: 'user1',
+      text: 'This is a test question',
+      qid: validQid,
+      read: false,
+    });
   });
 
   it('should add a new comment to the answer', async () => {
@@ -99,6 +132,8 @@ describe('POST /addComment', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [mockComment._id],
+      upVotes: [],
+      downVotes: [],
     });
 
     popDocSpy.mockResolvedValueOnce({
@@ -107,9 +142,21 @@ describe('POST /addComment', () => {
       ansBy: 'dummyUserId',
       ansDateTime: new Date('2024-06-03'),
       comments: [mockComment],
+      upVotes: [],
+      downVotes: [],
+    });
+    // The user comments on their own answer, so no one is notified
+    getNotificationTargetSpy.mockResolvedValueOnce({
+      author: 'user1',
+      qid: new mongoose.Types.ObjectId(),
+      title: 'This is a test question',
     });
+    saveNotificationSpy.mockClear();
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual({
@@ -118,6 +165,8 @@ describe('POST /addComment', () => {
       commentBy: 'dummyUserId',
       commentDateTime: mockComment.commentDateTime.toISOString(),
     });
+    expect(getNotificationTargetSpy).toHaveBeenCalledWith(validAid.toString(), 'answer');
+    expect(saveNotificationSpy).not.toHaveBeenCalled();
   });
 
   it('should return bad request error if id property missing', async () => {
@@ -129,7 +178,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -145,7 +197,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -163,7 +218,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -180,7 +238,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -198,7 +259,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid comment body');
@@ -214,7 +278,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -230,19 +297,69 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
 
   it('should return bad request error if request body is missing', async () => {
-    const response = await supertest(app).post('/comment/addComment');
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
   });
 
+  it('should return 403 if the question of the answer is closed', async () => {
+    const aid = new mongoose.Types.ObjectId().toString();
+    const mockReqBody = {
+      id: aid,
+      type: 'answer',
+      comment: {
+        text: 'This is a test comment',
+        commentBy: 'dummyUserId',
+        commentDateTime: new Date('2024-06-03'),
+      },
+    };
+    getQuestionStatusSpy.mockResolvedValueOnce('closed');
+
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ error: 'Forbidden: the question is closed' });
+    expect(getQuestionStatusSpy).toHaveBeenCalledWith(aid, 'answer');
+    expect(saveCommentSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 if the answer is not found', async () => {
+    const mockReqBody = {
+      id: new mongoose.Types.ObjectId().toString(),
+      type: 'answer',
+      comment: {
+        text: 'This is a test comment',
+        commentBy: 'dummyUserId',
+        commentDateTime: new Date('2024-06-03'),
+      },
+    };
+    getQuestionStatusSpy.mockResolvedValueOnce({ error: 'Answer not found' });
+
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('Answer not found');
+  });
+
   it('should return bad request error if qid is not a valid ObjectId', async () => {
     const mockReqBody = {
       id: 'invalidObjectId',
@@ -254,7 +371,10 @@ describe('POST /addComment', () => {
       },
     };
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid ID format');
@@ -274,7 +394,10 @@ describe('POST /addComment', () => {
 
     saveCommentSpy.mockResolvedValueOnce({ error: 'Error when saving a comment' });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when saving a comment');
@@ -305,7 +428,10 @@ describe('POST /addComment', () => {
       error: 'Error when adding comment',
     });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when adding comment');
@@ -349,9 +475,117 @@ describe('POST /addComment', () => {
     addCommentSpy.mockResolvedValueOnce(mockQuestion);
     popDocSpy.mockResolvedValueOnce({ error: 'Error when populating document' });
 
-    const response = await supertest(app).post('/comment/addComment').send(mockReqBody);
+    const response = await supertest(app)
+      .post('/comment/addComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
 
     expect(response.status).toBe(500);
     expect(response.text).toBe('Error when adding comment: Error when populating document');
   });
 });
+
+describe('POST /deleteComment', () => {
+  const qid = new mongoose.Types.ObjectId();
+  const cid = new mongoose.Types.ObjectId();
+  const deletedAt = new Date('2024-06-08');
+  const mockComment = {
+    _id: cid,
+    text: 'This is a test comment',
+    commentBy: 'user1',
+    commentDateTime: new Date('2024-06-03'),
+  };
+  const mockQuestion = {
+    _id: qid,
+    title: 'This is a test question',
+    text: 'This is a test question',
+    tags: [],
+    askedBy: 'dummyUserId',
+    askDateTime: new Date('2024-06-03'),
+    views: [],
+    upVotes: [],
+    downVotes: [],
+    answers: [],
+    comments: [],
+  };
+  const mockReqBody = { id: qid.toString(), type: 'question', cid: cid.toString() };
+
+  it('should soft delete a comment written by the authenticated user', async () => {
+    getCommentByIdSpy.mockResolvedValueOnce(mockComment);
+    setCommentDeletedSpy.mockResolvedValueOnce({ ...mockComment, deletedAt, deletedBy: 'user1' });
+    popDocSpy.mockResolvedValueOnce(mockQuestion);
+
+    const response = await supertest(app)
+      .post('/comment/deleteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedBy).toEqual('user1');
+    expect(setCommentDeletedSpy).toHaveBeenCalledWith(cid.toString(), 'user1');
+  });
+
+  it("should let a moderator delete another user's comment", async () => {
+    getCommentByIdSpy.mockResolvedValueOnce({ ...mockComment, commentBy: 'someone-else' });
+    setCommentDeletedSpy.mockResolvedValueOnce({
+      ...mockComment,
+      deletedAt,
+      deletedBy: 'moderator1',
+    });
+    popDocSpy.mockResolvedValueOnce(mockQuestion);
+
+    const response = await supertest(app)
+      .post('/comment/deleteComment')
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(200);
+    expect(setCommentDeletedSpy).toHaveBeenCalledWith(cid.toString(), 'moderator1');
+  });
+
+  it('should return 403 if the authenticated user did not write the comment', async () => {
+    getCommentByIdSpy.mockResolvedValueOnce({ ...mockComment, commentBy: 'someone-else' });
+
+    const response = await supertest(app)
+      .post('/comment/deleteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(403);
+    expect(setCommentDeletedSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return bad request error if the type is invalid', async () => {
+    const response = await supertest(app)
+      .post('/comment/deleteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...mockReqBody, type: 'invalidType' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return database error if the comment is not found', async () => {
+    getCommentByIdSpy.mockResolvedValueOnce({ error: 'Comment not found!' });
+
+    const response = await supertest(app)
+      .post('/comment/deleteComment')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when deleting comment: Comment not found!');
+  });
+
+  it('should return bad request error when restoring a comment that is not deleted', async () => {
+    getCommentByIdSpy.mockResolvedValueOnce(mockComment);
+
+    const response = await supertest(app)
+      .post('/comment/undeleteComment')
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+      .send(mockReqBody);
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Comment is not deleted');
+  });
+});
@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import { app } from '../../app';
+import * as duplicateUtil from '../../services/duplicate.service';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
+
+const getSimilarQuestionsSpy = jest.spyOn(duplicateUtil, 'getSimilarQuestions');
+
+const originalId = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd');
+
+describe('Test duplicateController', () => {
+  describe('GET /getSimilarQuestions', () => {
+    it('should return the questions similar to the title, text and tags', async () => {
+      getSimilarQuestionsSpy.mockResolvedValueOnce([
+        { _id: originalId, title: 'Promises', answerCount: 1, accepted: false, similarity: 2 },
+      ]);
+
+      const response = await supertest(app)
+        .get('/duplicate/getSimilarQuestions')
+        .query({ title: 'Using promises', text: 'How?', tags: 'js,node' })
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          _id: originalId.toString(),
+          title: 'Promises',
+          answerCount: 1,
+          accepted: false,
+          similarity: 2,
+        },
+      ]);
+      expect(getSimilarQuestionsSpy).toHaveBeenCalledWith(
+        'Using promises',
+        'How?',
+        ['js', 'node'],
+        undefined,
+      );
+    });
+
+    it('should return 400 if the title is missing', async () => {
+      const response = await supertest(app)
+        .get('/duplicate/getSimilarQuestions')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 400 if the excluded question ID is invalid', async () => {
+      const response = await supertest(app)
+        .get('/duplicate/getSimilarQuestions')
+        .query({ title: 'Using promises', exclude: 'invalid' })
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 500 if the search fails', async () => {
+      getSimilarQuestionsSpy.mockResolvedValueOnce({
+        error: 'Error when finding similar questions',
+      });
+
+      const response = await supertest(app)
+        .get('/duplicate/getSimilarQuestions')
+        .query({ title: 'Using promises' })
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
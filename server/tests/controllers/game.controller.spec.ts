@@ -3,7 +3,15 @@ import { app } from '../../app';
 import GameManager from '../../services/games/gameManager';
 import { GameInstance, NimGameState } from '../../types/game';
 import * as util from '../../services/game.service';
+import * as notificationService from '../../services/notification.service';
 import { MAX_NIM_OBJECTS } from '../../types/gameConstants';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
 
 const mockGameManager = GameManager.getInstance();
 
@@ -14,7 +22,10 @@ describe('POST /create', () => {
     it('should return 200 with a game ID when successful', async () => {
       addGameSpy.mockResolvedValueOnce('testGameID');
 
-      const response = await supertest(app).post('/games/create').send({ gameType: 'Nim' });
+      const response = await supertest(app)
+        .post('/games/create')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ gameType: 'Nim' });
 
       expect(response.status).toEqual(200);
       expect(response.text).toEqual(JSON.stringify('testGameID'));
@@ -24,21 +35,30 @@ describe('POST /create', () => {
 
   describe('400 Invalid Request', () => {
     it('should return 400 for an undefined response body', async () => {
-      const response = await supertest(app).post('/games/create').send(undefined);
+      const response = await supertest(app)
+        .post('/games/create')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(undefined);
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
     });
 
     it('should return 400 for an empty response body', async () => {
-      const response = await supertest(app).post('/games/create').send({});
+      const response = await supertest(app)
+        .post('/games/create')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({});
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
     });
 
     it('should return 400 for an invalid game type', async () => {
-      const response = await supertest(app).post('/games/create').send({ gameType: 'TicTacToe' });
+      const response = await supertest(app)
+        .post('/games/create')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ gameType: 'TicTacToe' });
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
@@ -49,7 +69,10 @@ describe('POST /create', () => {
     it('should return 500 if addGame fails', async () => {
       addGameSpy.mockResolvedValueOnce({ error: 'test error' });
 
-      const response = await supertest(app).post('/games/create').send({ gameType: 'Nim' });
+      const response = await supertest(app)
+        .post('/games/create')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ gameType: 'Nim' });
 
       expect(response.status).toEqual(500);
       expect(response.text).toContain('Error when creating game: test error');
@@ -59,7 +82,10 @@ describe('POST /create', () => {
     it('should return 500 if addGame throws an error', async () => {
       addGameSpy.mockRejectedValueOnce(new Error('test error'));
 
-      const response = await supertest(app).post('/games/create').send({ gameType: 'Nim' });
+      const response = await supertest(app)
+        .post('/games/create')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ gameType: 'Nim' });
 
       expect(response.status).toEqual(500);
       expect(response.text).toContain('Error when creating game: test error');
@@ -83,38 +109,81 @@ describe('POST /join', () => {
 
       const response = await supertest(app)
         .post('/games/join')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ gameID: 'testGameID', playerID: 'user1' });
 
       expect(response.status).toEqual(200);
       expect(response.body).toEqual(gameState);
       expect(joinGameSpy).toHaveBeenCalledWith('testGameID', 'user1');
     });
+
+    it('should notify the players already in the game', async () => {
+      const saveNotificationSpy = jest
+        .spyOn(notificationService, 'saveNotification')
+        .mockImplementation(async notification => notification);
+      const gameState: GameInstance<NimGameState> = {
+        state: { moves: [], status: 'IN_PROGRESS', remainingObjects: MAX_NIM_OBJECTS },
+        gameID: 'testGameID',
+        players: ['user2', 'user1'],
+        gameType: 'Nim',
+      };
+      joinGameSpy.mockResolvedValueOnce(gameState);
+
+      const response = await supertest(app)
+        .post('/games/join')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ gameID: 'testGameID' });
+
+      expect(response.status).toEqual(200);
+      expect(saveNotificationSpy).toHaveBeenCalledTimes(1);
+      expect(saveNotificationSpy).toHaveBeenCalledWith({
+        recipient: 'user2',
+        type: 'game',
+        actor: 'user1',
+        text: 'Nim',
+        gameID: 'testGameID',
+        read: false,
+      });
+      saveNotificationSpy.mockRestore();
+    });
   });
 
   describe('400 Invalid Request', () => {
     it('should return 400 for an undefined response body', async () => {
-      const response = await supertest(app).post('/games/join').send(undefined);
+      const response = await supertest(app)
+        .post('/games/join')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(undefined);
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
     });
 
     it('should return 400 for an empty response body', async () => {
-      const response = await supertest(app).post('/games/join').send({});
+      const response = await supertest(app)
+        .post('/games/join')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({});
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
     });
 
     it('should return 400 for a missing gameID', async () => {
-      const response = await supertest(app).post('/games/join').send({ playerID: 'user1' });
+      const response = await supertest(app)
+        .post('/games/join')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ playerID: 'user1' });
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
     });
 
-    it('should return 400 for a missing playerID', async () => {
-      const response = await supertest(app).post('/games/join').send({ gameID: 'testGameID' });
+    it('should return 400 for a missing gameID', async () => {
+      const response = await supertest(app)
+        .post('/games/join')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ playerID: 'user1' });
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
@@ -127,6 +196,7 @@ describe('POST /join', () => {
 
       const response = await supertest(app)
         .post('/games/join')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ gameID: 'testGameID', playerID: 'user1' });
 
       expect(response.status).toEqual(500);
@@ -138,6 +208,7 @@ describe('POST /join', () => {
 
       const response = await supertest(app)
         .post('/games/join')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ gameID: 'testGameID', playerID: 'user1' });
 
       expect(response.status).toEqual(500);
@@ -161,6 +232,7 @@ describe('POST /leave', () => {
 
       const response = await supertest(app)
         .post('/games/leave')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ gameID: 'testGameID', playerID: 'user1' });
 
       expect(response.status).toEqual(200);
@@ -171,28 +243,40 @@ describe('POST /leave', () => {
 
   describe('400 Invalid Request', () => {
     it('should return 400 for an undefined response body', async () => {
-      const response = await supertest(app).post('/games/leave').send(undefined);
+      const response = await supertest(app)
+        .post('/games/leave')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(undefined);
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
     });
 
     it('should return 400 for an empty response body', async () => {
-      const response = await supertest(app).post('/games/leave').send({});
+      const response = await supertest(app)
+        .post('/games/leave')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({});
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
     });
 
     it('should return 400 for a missing gameID', async () => {
-      const response = await supertest(app).post('/games/leave').send({ playerID: 'user1' });
+      const response = await supertest(app)
+        .post('/games/leave')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ playerID: 'user1' });
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
     });
 
-    it('should return 400 for a missing playerID', async () => {
-      const response = await supertest(app).post('/games/leave').send({ gameID: 'testGameID' });
+    it('should return 400 for a missing gameID', async () => {
+      const response = await supertest(app)
+        .post('/games/leave')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ playerID: 'user1' });
 
       expect(response.status).toEqual(400);
       expect(response.text).toEqual('Invalid request');
@@ -205,6 +289,7 @@ describe('POST /leave', () => {
 
       const response = await supertest(app)
         .post('/games/leave')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ gameID: 'testGameID', playerID: 'user1' });
 
       expect(response.status).toEqual(500);
@@ -216,6 +301,7 @@ describe('POST /leave', () => {
 
       const response = await supertest(app)
         .post('/games/leave')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ gameID: 'testGameID', playerID: 'user1' });
 
       expect(response.status).toEqual(500);
@@ -240,6 +326,7 @@ describe('GET /games', () => {
 
       const response = await supertest(app)
         .get('/games/games')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .query({ gameType: 'Nim', status: 'WAITING_TO_START' });
 
       expect(response.status).toEqual(200);
@@ -252,6 +339,7 @@ describe('GET /games', () => {
 
       const response = await supertest(app)
         .get('/games/games')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .query({ gameType: 'Nim', status: 'IN_PROGRESS' });
 
       expect(response.status).toEqual(200);
@@ -266,6 +354,7 @@ describe('GET /games', () => {
 
       const response = await supertest(app)
         .get('/games/games')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .query({ gameType: 'Nim', status: 'WAITING_TO_START' });
 
       expect(response.status).toEqual(500);
@@ -3,9 +3,27 @@ import supertest from 'supertest';
 import { app } from '../../app';
 import * as util from '../../services/message.service';
 import { Message } from '../../types/message';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
 
 const saveMessageSpy = jest.spyOn(util, 'saveMessage');
 const getMessagesSpy = jest.spyOn(util, 'getMessages');
+const getMessageSpy = jest.spyOn(util, 'getMessage');
+const editMessageSpy = jest.spyOn(util, 'editMessage');
+const deleteMessageSpy = jest.spyOn(util, 'deleteMessage');
+
+const ownMessage: Message = {
+  _id: new mongoose.Types.ObjectId(),
+  msg: 'Hello',
+  msgFrom: 'user1',
+  msgDateTime: new Date('2024-06-04'),
+  type: 'global',
+};
 
 describe('POST /addMessage', () => {
   it('should add a new message', async () => {
@@ -22,6 +40,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
       .send({ messageToAdd: message });
 
     expect(response.status).toBe(200);
@@ -35,7 +54,10 @@ describe('POST /addMessage', () => {
   });
 
   it('should return bad request error if messageToAdd is missing', async () => {
-    const response = await supertest(app).post('/messaging/addMessage').send({});
+    const response = await supertest(app)
+      .post('/messaging/addMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({});
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid request');
@@ -50,6 +72,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
       .send({ messageToAdd: badMessage });
 
     expect(response.status).toBe(400);
@@ -64,39 +87,40 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
       .send({ messageToAdd: badMessage });
 
     expect(response.status).toBe(400);
     expect(response.text).toBe('Invalid message body');
   });
 
-  it('should return bad message body error if msgFrom is empty', async () => {
-    const badMessage = {
+  it('should send the message as the authenticated user', async () => {
+    const message = {
       msg: 'Hello',
-      msgFrom: '',
+      msgFrom: 'someone-else',
       msgDateTime: new Date('2024-06-04'),
     };
 
-    const response = await supertest(app)
+    saveMessageSpy.mockResolvedValueOnce({ error: 'Error saving document' });
+
+    await supertest(app)
       .post('/messaging/addMessage')
-      .send({ messageToAdd: badMessage });
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageToAdd: message });
 
-    expect(response.status).toBe(400);
-    expect(response.text).toBe('Invalid message body');
+    expect(saveMessageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ msgFrom: 'user1', type: 'global' }),
+    );
   });
 
-  it('should return bad message body error if msgFrom is missing', async () => {
-    const badMessage = {
-      msg: 'Hello',
-      msgDateTime: new Date('2024-06-04'),
-    };
-
+  it('should return 401 if the request is not authenticated', async () => {
     const response = await supertest(app)
       .post('/messaging/addMessage')
-      .send({ messageToAdd: badMessage });
+      .set('Authorization', 'Bearer invalid-token')
+      .send({ messageToAdd: { msg: 'Hello', msgDateTime: new Date('2024-06-04') } });
 
-    expect(response.status).toBe(400);
-    expect(response.text).toBe('Invalid message body');
+    expect(response.status).toBe(401);
+    expect(saveMessageSpy).not.toHaveBeenCalled();
   });
 
   it('should return bad message body error if msgDateTime is missing', async () => {
@@ -107,6 +131,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
       .send({ messageToAdd: badMessage });
 
     expect(response.status).toBe(400);
@@ -122,6 +147,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
       .send({ messageToAdd: badMessage });
 
     expect(response.status).toBe(400);
@@ -141,6 +167,7 @@ describe('POST /addMessage', () => {
 
     const response = await supertest(app)
       .post('/messaging/addMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
       .send({ messageToAdd: message });
 
     expect(response.status).toBe(500);
@@ -166,7 +193,9 @@ describe('GET /getMessages', () => {
 
     getMessagesSpy.mockResolvedValue([message1, message2]);
 
-    const response = await supertest(app).get('/messaging/getMessages');
+    const response = await supertest(app)
+      .get('/messaging/getMessages')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
     expect(response.status).toBe(200);
     expect(response.body).toEqual([
@@ -185,3 +214,166 @@ describe('GET /getMessages', () => {
     ]);
   });
 });
+
+describe('PATCH /editMessage', () => {
+  it('should edit the message of the authenticated user', async () => {
+    const editedAt = new Date('2024-06-05');
+    getMessageSpy.mockResolvedValueOnce(ownMessage);
+    editMessageSpy.mockResolvedValueOnce({ ...ownMessage, msg: 'Hello there', editedAt });
+
+    const response = await supertest(app)
+      .patch('/messaging/editMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString(), msg: 'Hello there' });
+
+    expect(response.status).toBe(200);
+    expect(editMessageSpy).toHaveBeenCalledWith(ownMessage._id?.toString(), 'Hello there');
+    expect(response.body.msg).toBe('Hello there');
+    expect(response.body.editedAt).toBe(editedAt.toISOString());
+  });
+
+  it('should return bad request error if the text is empty', async () => {
+    const response = await supertest(app)
+      .patch('/messaging/editMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString(), msg: '  ' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return bad request error if the message ID is invalid', async () => {
+    const response = await supertest(app)
+      .patch('/messaging/editMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: 'invalid', msg: 'Hello there' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if the user is not the author of the message', async () => {
+    getMessageSpy.mockResolvedValueOnce({ ...ownMessage, msgFrom: 'user2' });
+
+    const response = await supertest(app)
+      .patch('/messaging/editMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString(), msg: 'Hello there' });
+
+    expect(response.status).toBe(403);
+    expect(editMessageSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return bad request error if the message was deleted', async () => {
+    getMessageSpy.mockResolvedValueOnce({ ...ownMessage, msg: '', deletedAt: new Date() });
+
+    const response = await supertest(app)
+      .patch('/messaging/editMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString(), msg: 'Hello there' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('The message was deleted');
+  });
+
+  it('should return bad request error if the message is not a global message', async () => {
+    getMessageSpy.mockResolvedValueOnce({ ...ownMessage, type: 'direct' });
+
+    const response = await supertest(app)
+      .patch('/messaging/editMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString(), msg: 'Hello there' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Only global messages can be changed here');
+  });
+
+  it('should return internal server error if the message cannot be found', async () => {
+    getMessageSpy.mockResolvedValueOnce({ error: 'No message found' });
+
+    const response = await supertest(app)
+      .patch('/messaging/editMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString(), msg: 'Hello there' });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when editing a message: No message found');
+  });
+
+  it('should return internal server error if editing the message fails', async () => {
+    getMessageSpy.mockResolvedValueOnce(ownMessage);
+    editMessageSpy.mockResolvedValueOnce({ error: 'Error when editing a message' });
+
+    const response = await supertest(app)
+      .patch('/messaging/editMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString(), msg: 'Hello there' });
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('POST /deleteMessage', () => {
+  it('should delete the message of the authenticated user', async () => {
+    const deletedAt = new Date('2024-06-05');
+    getMessageSpy.mockResolvedValueOnce(ownMessage);
+    deleteMessageSpy.mockResolvedValueOnce({ ...ownMessage, msg: '', deletedAt });
+
+    const response = await supertest(app)
+      .post('/messaging/deleteMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString() });
+
+    expect(response.status).toBe(200);
+    expect(deleteMessageSpy).toHaveBeenCalledWith(ownMessage._id?.toString());
+    expect(response.body.msg).toBe('');
+    expect(response.body.deletedAt).toBe(deletedAt.toISOString());
+  });
+
+  it('should return bad request error if the message ID is missing', async () => {
+    const response = await supertest(app)
+      .post('/messaging/deleteMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({});
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return forbidden if the user is not the author of the message', async () => {
+    getMessageSpy.mockResolvedValueOnce({ ...ownMessage, msgFrom: 'user2' });
+
+    const response = await supertest(app)
+      .post('/messaging/deleteMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString() });
+
+    expect(response.status).toBe(403);
+    expect(deleteMessageSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return bad request error if the message was already deleted', async () => {
+    getMessageSpy.mockResolvedValueOnce({ ...ownMessage, msg: '', deletedAt: new Date() });
+
+    const response = await supertest(app)
+      .post('/messaging/deleteMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString() });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('The message was deleted');
+  });
+
+  it('should return internal server error if deleting the message fails', async () => {
+    getMessageSpy.mockResolvedValueOnce(ownMessage);
+    deleteMessageSpy.mockResolvedValueOnce({ error: 'Error when deleting a message' });
+
+    const response = await supertest(app)
+      .post('/messaging/deleteMessage')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ messageId: ownMessage._id?.toString() });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when deleting a message: Error when deleting a message');
+  });
+});
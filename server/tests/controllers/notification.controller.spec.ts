@@ -0,0 +1,168 @@
+import mongoose from 'mongoose';
+import supertest from 'supertest';
+import { app } from '../../app';
+import * as notificationUtil from '../../services/notification.service';
+import { Notification } from '../../types/types';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
+
+const getNotificationsSpy = jest.spyOn(notificationUtil, 'getNotifications');
+const setNotificationReadSpy = jest.spyOn(notificationUtil, 'setNotificationRead');
+const markAllNotificationsReadSpy = jest.spyOn(notificationUtil, 'markAllNotificationsRead');
+
+const nid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6de');
+
+const notification: Notification = {
+  _id: nid,
+  recipient: 'user1',
+  type: 'comment',
+  actor: 'user2',
+  text: 'How do I use promises?',
+  qid: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  read: false,
+  createdAt: new Date('2025-01-01'),
+};
+
+const serializedNotification = {
+  ...notification,
+  _id: nid.toString(),
+  qid: notification.qid?.toString(),
+  createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('Test notificationController', () => {
+  describe('GET /getNotifications', () => {
+    it('should return the notifications of the authenticated user', async () => {
+      getNotificationsSpy.mockResolvedValueOnce({ notifications: [notification], unreadCount: 1 });
+
+      const response = await supertest(app)
+        .get('/notification/getNotifications')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ notifications: [serializedNotification], unreadCount: 1 });
+      expect(getNotificationsSpy).toHaveBeenCalledWith('user1');
+    });
+
+    it('should return 401 without a token', async () => {
+      const response = await supertest(app).get('/notification/getNotifications');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 500 if the notifications cannot be fetched', async () => {
+      getNotificationsSpy.mockResolvedValueOnce({ error: 'Error when fetching notifications' });
+
+      const response = await supertest(app)
+        .get('/notification/getNotifications')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching notifications: Error when fetching notifications',
+      );
+    });
+  });
+
+  describe('POST /markRead', () => {
+    it('should mark the notification as read', async () => {
+      setNotificationReadSpy.mockResolvedValueOnce({ ...notification, read: true });
+
+      const response = await supertest(app)
+        .post('/notification/markRead')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: nid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ...serializedNotification, read: true });
+      expect(setNotificationReadSpy).toHaveBeenCalledWith(nid.toString(), 'user1', true);
+    });
+
+    it('should return 400 if the notification ID is missing', async () => {
+      const response = await supertest(app)
+        .post('/notification/markRead')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 404 if the notification is not one of the user', async () => {
+      setNotificationReadSpy.mockResolvedValueOnce({ error: 'Notification not found' });
+
+      const response = await supertest(app)
+        .post('/notification/markRead')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: nid.toString() });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Notification not found');
+    });
+
+    it('should return 500 if the update fails', async () => {
+      setNotificationReadSpy.mockResolvedValueOnce({
+        error: 'Error when updating the notification',
+      });
+
+      const response = await supertest(app)
+        .post('/notification/markRead')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: nid.toString() });
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when updating notification: Error when updating the notification',
+      );
+    });
+  });
+
+  describe('POST /markUnread', () => {
+    it('should mark the notification as unread', async () => {
+      setNotificationReadSpy.mockResolvedValueOnce(notification);
+
+      const response = await supertest(app)
+        .post('/notification/markUnread')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ id: nid.toString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(serializedNotification);
+      expect(setNotificationReadSpy).toHaveBeenCalledWith(nid.toString(), 'user1', false);
+    });
+  });
+
+  describe('POST /markAllRead', () => {
+    it('should mark all the notifications of the user as read', async () => {
+      markAllNotificationsReadSpy.mockResolvedValueOnce(2);
+
+      const response = await supertest(app)
+        .post('/notification/markAllRead')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ updated: 2 });
+      expect(markAllNotificationsReadSpy).toHaveBeenCalledWith('user1');
+    });
+
+    it('should return 500 if the update fails', async () => {
+      markAllNotificationsReadSpy.mockResolvedValueOnce({
+        error: 'Error when updating the notifications',
+      });
+
+      const response = await supertest(app)
+        .post('/notification/markAllRead')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when updating notifications: Error when updating the notifications',
+      );
+    });
+  });
+});
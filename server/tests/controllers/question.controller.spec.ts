@@ -3,15 +3,34 @@ import supertest from 'supertest';
 import { app } from '../../app';
 import * as questionUtil from '../../services/question.service';
 import * as tagUtil from '../../services/tag.service';
+import * as revisionUtil from '../../services/revision.service';
 import * as databaseUtil from '../../utils/database.util';
-import { Answer, Question, Tag } from '../../types/types';
+import * as notificationUtil from '../../services/notification.service';
+import * as collectionUtil from '../../services/collection.service';
+import * as bountyUtil from '../../services/bounty.service';
+import { Answer, Collection, Question, Revision, Tag } from '../../types/types';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const MODERATOR_TOKEN = issueToken('moderator1', 'moderator');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
 
 const addVoteToQuestionSpy = jest.spyOn(questionUtil, 'addVoteToQuestion');
-const getQuestionsByOrderSpy: jest.SpyInstance = jest.spyOn(questionUtil, 'getQuestionsByOrder');
-const filterQuestionsBySearchSpy: jest.SpyInstance = jest.spyOn(
-  questionUtil,
-  'filterQuestionsBySearch',
-);
+const setAcceptedAnswerSpy = jest.spyOn(questionUtil, 'setAcceptedAnswer');
+const editQuestionSpy = jest.spyOn(questionUtil, 'editQuestion');
+const setQuestionDeletedSpy = jest.spyOn(questionUtil, 'setQuestionDeleted');
+const setQuestionBookmarkedSpy = jest.spyOn(questionUtil, 'setQuestionBookmarked');
+const isQuestionBookmarkedSpy = jest
+  .spyOn(questionUtil, 'isQuestionBookmarked')
+  .mockResolvedValue(false);
+const getCollectionByIdSpy = jest.spyOn(collectionUtil, 'getCollectionById');
+const awardBountySpy = jest.spyOn(bountyUtil, 'awardBounty');
+const processTagsSpy = jest.spyOn(tagUtil, 'processTags');
+const getRevisionHistorySpy = jest.spyOn(revisionUtil, 'getRevisionHistory');
+const getQuestionPageSpy: jest.SpyInstance = jest.spyOn(questionUtil, 'getQuestionPage');
 
 const tag1: Tag = {
   _id: new mongoose.Types.ObjectId('507f191e810c19729de860ea'),
@@ -50,6 +69,8 @@ const ans1: Answer = {
   ansBy: 'answer1_user',
   ansDateTime: new Date('2024-06-09'), // The mock date is string type but in the actual implementation it is a Date type
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 const ans2: Answer = {
@@ -58,6 +79,8 @@ const ans2: Answer = {
   ansBy: 'answer2_user',
   ansDateTime: new Date('2024-06-10'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 const ans3: Answer = {
@@ -66,6 +89,8 @@ const ans3: Answer = {
   ansBy: 'answer3_user',
   ansDateTime: new Date('2024-06-11'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 const ans4: Answer = {
@@ -74,6 +99,8 @@ const ans4: Answer = {
   ansBy: 'answer4_user',
   ansDateTime: new Date('2024-06-14'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 const MOCK_QUESTIONS: Question[] = [
@@ -140,7 +167,10 @@ describe('Test questionController', () => {
       jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(mockQuestion as Question);
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(200);
@@ -154,7 +184,10 @@ describe('Test questionController', () => {
         .mockResolvedValueOnce({ error: 'Error while saving question' });
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(500);
@@ -168,17 +201,55 @@ describe('Test questionController', () => {
         .mockResolvedValueOnce({ error: 'Error while populating' });
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(500);
     });
 
+    it('should only save the content of the question from the request', async () => {
+      jest.spyOn(tagUtil, 'processTags').mockResolvedValue([tag1, tag2] as Tag[]);
+      const saveQuestionSpy = jest
+        .spyOn(questionUtil, 'saveQuestion')
+        .mockResolvedValueOnce({ error: 'Error while saving question' });
+
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({
+          ...mockQuestion,
+          upVotes: ['user2'],
+          status: 'closed',
+          bounty: { amount: 100, offeredBy: 'user2', expiresAt: new Date('2020-01-01') },
+          acceptedAnswer: new mongoose.Types.ObjectId(),
+        });
+
+      expect(response.status).toBe(500);
+      expect(saveQuestionSpy).toHaveBeenCalledWith({
+        title: mockQuestion.title,
+        text: mockQuestion.text,
+        tags: [tag1, tag2],
+        askedBy: 'user1',
+        askDateTime: mockQuestion.askDateTime.toISOString(),
+        answers: [],
+        views: [],
+        upVotes: [],
+        downVotes: [],
+        comments: [],
+      });
+    });
+
     it('should return 500 if tag ids could not be retrieved', async () => {
       jest.spyOn(tagUtil, 'processTags').mockResolvedValue([]);
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(500);
@@ -188,6 +259,7 @@ describe('Test questionController', () => {
       // Making the request
       const response = await supertest(app)
         .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ ...mockQuestion, title: '' });
 
       // Asserting the response
@@ -199,6 +271,7 @@ describe('Test questionController', () => {
       // Making the request
       const response = await supertest(app)
         .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ ...mockQuestion, text: '' });
 
       // Asserting the response
@@ -210,6 +283,7 @@ describe('Test questionController', () => {
       // Making the request
       const response = await supertest(app)
         .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ ...mockQuestion, tags: [] });
 
       // Asserting the response
@@ -217,15 +291,33 @@ describe('Test questionController', () => {
       expect(response.text).toBe('Invalid question body');
     });
 
-    it('should return bad request if askedBy is empty string', async () => {
+    it('should attribute the question to the authenticated user', async () => {
+      jest.spyOn(tagUtil, 'processTags').mockResolvedValue([tag1, tag2] as Tag[]);
+      const saveQuestionSpy = jest
+        .spyOn(questionUtil, 'saveQuestion')
+        .mockResolvedValueOnce({ ...mockQuestion, askedBy: 'user1' } as Question);
+      jest
+        .spyOn(databaseUtil, 'populateDocument')
+        .mockResolvedValueOnce({ ...mockQuestion, askedBy: 'user1' } as Question);
+
       // Making the request
       const response = await supertest(app)
         .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send({ ...mockQuestion, askedBy: '' });
 
       // Asserting the response
-      expect(response.status).toBe(400);
-      expect(response.text).toBe('Invalid question body');
+      expect(response.status).toBe(200);
+      expect(saveQuestionSpy).toHaveBeenCalledWith(expect.objectContaining({ askedBy: 'user1' }));
+    });
+
+    it('should return 401 if the request is not authenticated', async () => {
+      // Making the request
+      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+
+      // Asserting the response
+      expect(response.status).toBe(401);
+      expect(response.text).toBe('Authentication required');
     });
 
     it('should ensure only unique tags are added', async () => {
@@ -268,7 +360,10 @@ describe('Test questionController', () => {
       jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(result);
 
       // Making the request
-      const response = await supertest(app).post('/question/addQuestion').send(mockQuestion);
+      const response = await supertest(app)
+        .post('/question/addQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockQuestion);
 
       // Asserting the response
       expect(response.status).toBe(200);
@@ -291,12 +386,50 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-      const response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+      const response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponse);
     });
 
+    it('should notify the author of the question when the upvote is cast', async () => {
+      const qid = '65e9b5a995b6c7045a30d823';
+      const getNotificationTargetSpy = jest
+        .spyOn(notificationUtil, 'getNotificationTarget')
+        .mockResolvedValueOnce({
+          author: 'author1',
+          qid: new mongoose.Types.ObjectId(qid),
+          title: 'Question title',
+        });
+      const saveNotificationSpy = jest
+        .spyOn(notificationUtil, 'saveNotification')
+        .mockImplementationOnce(async notification => notification);
+      addVoteToQuestionSpy.mockResolvedValueOnce({
+        msg: 'Question upvoted successfully',
+        upVotes: ['user1'],
+        downVotes: [],
+      });
+
+      const response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ qid });
+
+      expect(response.status).toBe(200);
+      expect(getNotificationTargetSpy).toHaveBeenCalledWith(qid, 'question');
+      expect(saveNotificationSpy).toHaveBeenCalledWith({
+        recipient: 'author1',
+        type: 'upvote',
+        actor: 'user1',
+        text: 'Question title',
+        qid: new mongoose.Types.ObjectId(qid),
+        read: false,
+      });
+    });
+
     it('should cancel the upvote successfully', async () => {
       const mockReqBody = {
         qid: '65e9b5a995b6c7045a30d823',
@@ -317,7 +450,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockFirstResponse);
 
-      const firstResponse = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+      const firstResponse = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
       expect(firstResponse.status).toBe(200);
       expect(firstResponse.body).toEqual(mockFirstResponse);
 
@@ -325,6 +461,7 @@ describe('Test questionController', () => {
 
       const secondResponse = await supertest(app)
         .post('/question/upvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send(mockReqBody);
 
       expect(secondResponse.status).toBe(200);
@@ -346,7 +483,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponseWithBothVotes);
 
-      let response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+      let response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponseWithBothVotes);
@@ -360,7 +500,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponseWithBothVotes);
 
-      response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+      response = await supertest(app)
+        .post('/question/downvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponseWithBothVotes);
@@ -371,19 +514,33 @@ describe('Test questionController', () => {
         username: 'some-user',
       };
 
-      const response = await supertest(app).post(`/question/upvoteQuestion`).send(mockReqBody);
+      const response = await supertest(app)
+        .post(`/question/upvoteQuestion`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(400);
     });
 
-    it('should return bad request error if the request had username missing', async () => {
+    it('should cast the vote as the authenticated user', async () => {
       const mockReqBody = {
         qid: '65e9b5a995b6c7045a30d823',
+        username: 'someone-else',
       };
 
-      const response = await supertest(app).post(`/question/upvoteQuestion`).send(mockReqBody);
+      addVoteToQuestionSpy.mockResolvedValueOnce({
+        msg: 'Vote recorded',
+        upVotes: [],
+        downVotes: [],
+      });
+
+      const response = await supertest(app)
+        .post(`/question/upvoteQuestion`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(200);
+      expect(addVoteToQuestionSpy).toHaveBeenCalledWith(mockReqBody.qid, 'user1', 'upvote');
     });
   });
 
@@ -402,7 +559,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-      const response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+      const response = await supertest(app)
+        .post('/question/downvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponse);
@@ -430,6 +590,7 @@ describe('Test questionController', () => {
 
       const firstResponse = await supertest(app)
         .post('/question/downvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send(mockReqBody);
       expect(firstResponse.status).toBe(200);
       expect(firstResponse.body).toEqual(mockFirstResponse);
@@ -438,6 +599,7 @@ describe('Test questionController', () => {
 
       const secondResponse = await supertest(app)
         .post('/question/downvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
         .send(mockReqBody);
 
       expect(secondResponse.status).toBe(200);
@@ -459,7 +621,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-      let response = await supertest(app).post('/question/downvoteQuestion').send(mockReqBody);
+      let response = await supertest(app)
+        .post('/question/downvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponse);
@@ -473,7 +638,10 @@ describe('Test questionController', () => {
 
       addVoteToQuestionSpy.mockResolvedValueOnce(mockResponse);
 
-      response = await supertest(app).post('/question/upvoteQuestion').send(mockReqBody);
+      response = await supertest(app)
+        .post('/question/upvoteQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockResponse);
@@ -484,19 +652,33 @@ describe('Test questionController', () => {
         username: 'some-user',
       };
 
-      const response = await supertest(app).post(`/question/downvoteQuestion`).send(mockReqBody);
+      const response = await supertest(app)
+        .post(`/question/downvoteQuestion`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(400);
     });
 
-    it('should return bad request error if the request had username missing', async () => {
+    it('should cast the vote as the authenticated user', async () => {
       const mockReqBody = {
         qid: '65e9b5a995b6c7045a30d823',
+        username: 'someone-else',
       };
 
-      const response = await supertest(app).post(`/question/downvoteQuestion`).send(mockReqBody);
+      addVoteToQuestionSpy.mockResolvedValueOnce({
+        msg: 'Vote recorded',
+        upVotes: [],
+        downVotes: [],
+      });
+
+      const response = await supertest(app)
+        .post(`/question/downvoteQuestion`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(200);
+      expect(addVoteToQuestionSpy).toHaveBeenCalledWith(mockReqBody.qid, 'user1', 'downvote');
     });
   });
 
@@ -527,20 +709,52 @@ describe('Test questionController', () => {
         .mockResolvedValueOnce(mockPopulatedQuestion as Question);
 
       // Making the request
-      const response = await supertest(app).get(
-        `/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`,
-      );
+      const response = await supertest(app)
+        .get(`/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       const expectedResponse = {
         ...mockPopulatedQuestion,
         _id: mockPopulatedQuestion._id.toString(),
         askDateTime: mockPopulatedQuestion.askDateTime.toISOString(),
+        bookmarked: false,
       };
       // Asserting the response
       expect(response.status).toBe(200);
       expect(response.body).toEqual(expectedResponse);
     });
 
+    it('should return whether the user bookmarked the question, without broadcasting it', async () => {
+      const mockPopulatedQuestion = { ...MOCK_QUESTIONS[0], tags: [], answers: [] };
+      jest
+        .spyOn(questionUtil, 'fetchAndIncrementQuestionViewsById')
+        .mockResolvedValueOnce(mockPopulatedQuestion as Question);
+      isQuestionBookmarkedSpy.mockResolvedValueOnce(true);
+
+      const response = await supertest(app)
+        .get(`/question/getQuestionById/${mockPopulatedQuestion._id}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.bookmarked).toBe(true);
+      expect(response.body.bookmarks).toBeUndefined();
+      expect(isQuestionBookmarkedSpy).toHaveBeenCalledWith(
+        mockPopulatedQuestion._id!.toString(),
+        'user1',
+      );
+    });
+
+    it('should return 403 if a non-moderator asks for deleted content', async () => {
+      const fetchSpy = jest.spyOn(questionUtil, 'fetchAndIncrementQuestionViewsById');
+
+      const response = await supertest(app)
+        .get('/question/getQuestionById/65e9b5a995b6c7045a30d823?includeDeleted=true')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(403);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
     it('should not return a question object with a duplicated user in the views if the user is viewing the same question again', async () => {
       // Mock request parameters
       const mockReqParams = {
@@ -566,14 +780,15 @@ describe('Test questionController', () => {
         .mockResolvedValueOnce(mockPopulatedQuestion as Question);
 
       // Making the request
-      const response = await supertest(app).get(
-        `/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`,
-      );
+      const response = await supertest(app)
+        .get(`/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       const expectedResponse = {
         ...mockPopulatedQuestion,
         _id: mockPopulatedQuestion._id.toString(),
         askDateTime: mockPopulatedQuestion.askDateTime.toISOString(),
+        bookmarked: false,
       };
       // Asserting the response
       expect(response.status).toBe(200);
@@ -592,29 +807,32 @@ describe('Test questionController', () => {
       jest.spyOn(questionUtil, 'fetchAndIncrementQuestionViewsById').mockResolvedValueOnce(null);
 
       // Making the request
-      const response = await supertest(app).get(
-        `/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`,
-      );
+      const response = await supertest(app)
+        .get(`/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       // Asserting the response
       expect(response.status).toBe(400);
       expect(response.text).toBe('Invalid ID format');
     });
 
-    it('should return bad request error if the username is not provided', async () => {
+    it('should record the view for the authenticated user', async () => {
       // Mock request parameters
       const mockReqParams = {
         qid: '65e9b5a995b6c7045a30d823',
       };
 
-      jest.spyOn(questionUtil, 'fetchAndIncrementQuestionViewsById').mockResolvedValueOnce(null);
+      const fetchSpy = jest
+        .spyOn(questionUtil, 'fetchAndIncrementQuestionViewsById')
+        .mockResolvedValueOnce(null);
 
       // Making the request
-      const response = await supertest(app).get(`/question/getQuestionById/${mockReqParams.qid}`);
+      await supertest(app)
+        .get(`/question/getQuestionById/${mockReqParams.qid}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
-      // Asserting the response
-      expect(response.status).toBe(400);
-      expect(response.text).toBe('Invalid username requesting question.');
+      // Asserting the view was attributed to the token's user
+      expect(fetchSpy).toHaveBeenCalledWith(mockReqParams.qid, 'user1', false);
     });
 
     it('should return database error if the question id is not found in the database', async () => {
@@ -629,9 +847,9 @@ describe('Test questionController', () => {
       jest.spyOn(questionUtil, 'fetchAndIncrementQuestionViewsById').mockResolvedValueOnce(null);
 
       // Making the request
-      const response = await supertest(app).get(
-        `/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`,
-      );
+      const response = await supertest(app)
+        .get(`/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       // Asserting the response
       expect(response.status).toBe(500);
@@ -651,9 +869,9 @@ describe('Test questionController', () => {
         .mockResolvedValueOnce({ error: 'Error when fetching and updating a question' });
 
       // Making the request
-      const response = await supertest(app).get(
-        `/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`,
-      );
+      const response = await supertest(app)
+        .get(`/question/getQuestionById/${mockReqParams.qid}?username=${mockReqQuery.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       // Asserting the response
       expect(response.status).toBe(500);
@@ -661,60 +879,811 @@ describe('Test questionController', () => {
   });
 
   describe('GET /getQuestion', () => {
-    it('should return the result of filterQuestionsBySearch as response even if request parameters of order and search are absent', async () => {
-      getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-      filterQuestionsBySearchSpy.mockReturnValueOnce(MOCK_QUESTIONS);
+    const mockPage = { questions: MOCK_QUESTIONS, total: 3, page: 1, pageSize: 20 };
+
+    it('should return the first page of questions if the request parameters are absent', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce(mockPage);
       // Making the request
-      const response = await supertest(app).get('/question/getQuestion');
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       // Asserting the response
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(EXPECTED_QUESTIONS);
+      expect(response.body).toEqual({ ...mockPage, questions: EXPECTED_QUESTIONS });
+      expect(getQuestionPageSpy).toHaveBeenCalledWith({
+        order: undefined,
+        search: {
+          keywords: [],
+          phrases: [],
+          tags: [],
+          excludedKeywords: [],
+          excludedTags: [],
+        },
+        askedBy: undefined,
+        viewer: 'user1',
+        includeDeleted: false,
+        page: 1,
+        pageSize: 20,
+      });
     });
 
-    it('should return the result of filterQuestionsBySearch as response for an order and search criteria in the request parameters', async () => {
+    it('should pass the order, search criteria and page in the request parameters', async () => {
       // Mock request query parameters
       const mockReqQuery = {
         order: 'dummyOrder',
         search: 'dummySearch',
+        askedBy: 'question1_user',
+        page: '2',
+        pageSize: '10',
       };
-      getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-      filterQuestionsBySearchSpy.mockReturnValueOnce(MOCK_QUESTIONS);
+      getQuestionPageSpy.mockResolvedValueOnce({ ...mockPage, page: 2, pageSize: 10 });
       // Making the request
-      const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query(mockReqQuery);
 
       // Asserting the response
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(EXPECTED_QUESTIONS);
+      expect(response.body.page).toEqual(2);
+      expect(getQuestionPageSpy).toHaveBeenCalledWith({
+        order: 'dummyOrder',
+        search: expect.objectContaining({ keywords: ['dummySearch'] }),
+        askedBy: 'question1_user',
+        viewer: 'user1',
+        includeDeleted: false,
+        page: 2,
+        pageSize: 10,
+      });
     });
 
-    it('should return error if getQuestionsByOrder throws an error', async () => {
-      // Mock request query parameters
-      const mockReqQuery = {
-        order: 'dummyOrder',
-        search: 'dummySearch',
-      };
-      getQuestionsByOrderSpy.mockRejectedValueOnce(new Error('Error fetching questions'));
+    it('should return 400 if the page is not a positive integer', async () => {
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({ page: '0' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+      expect(getQuestionPageSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the page size is too large', async () => {
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({ pageSize: '1000' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should parse the search operators in the search string', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce(mockPage);
+
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({
+          search:
+            '"event loop" node -java [react] -[vue] user:alice answers:0 score:>=2 is:unaccepted created:2025-01..2025-03',
+        });
+
+      expect(response.status).toBe(200);
+      expect(getQuestionPageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          search: {
+            keywords: ['node'],
+            phrases: ['event loop'],
+            tags: ['react'],
+            excludedKeywords: ['java'],
+            excludedTags: ['vue'],
+            user: 'alice',
+            answers: { min: 0, max: 0 },
+            score: { min: 2 },
+            accepted: false,
+            created: {
+              from: new Date('2025-01-01T00:00:00Z'),
+              to: new Date('2025-04-01T00:00:00Z'),
+            },
+          },
+        }),
+      );
+    });
+
+    it('should search for unknown operators as keywords', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce(mockPage);
+
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({ search: 'TypeError:undefined' });
+
+      expect(response.status).toBe(200);
+      expect(getQuestionPageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          search: expect.objectContaining({ keywords: ['TypeError', 'undefined'] }),
+        }),
+      );
+    });
+
+    it.each([
+      ['score:abc', "Invalid value 'abc' for score:"],
+      ['answers:5..1', 'The range for answers: must not end before it starts'],
+      ['is:open', "Invalid value 'open' for is:"],
+      ['created:2025-13', "Invalid date '2025-13' for created:"],
+      ['created:2025-03..2025-01', 'The range for created: must not end before it starts'],
+      ['user:', 'Missing value for user:'],
+      ['user:alice user:bob', 'The user: operator can only be used once'],
+      ['-user:alice', 'The user: operator cannot be excluded'],
+      ['-"event loop"', 'Quoted phrases cannot be excluded'],
+    ])('should return 400 with an explanation for the invalid search %s', async (search, error) => {
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({ search });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toContain(`Invalid search: ${error}`);
+      expect(getQuestionPageSpy).not.toHaveBeenCalled();
+    });
+
+    it('should include deleted questions for moderators', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce(mockPage);
+
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .query({ order: 'newest', includeDeleted: 'true' });
+
+      expect(response.status).toBe(200);
+      expect(getQuestionPageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ order: 'newest', includeDeleted: true }),
+      );
+    });
+
+    it('should return 403 if a non-moderator asks for deleted questions', async () => {
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({ includeDeleted: 'true' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+      expect(getQuestionPageSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return error if getQuestionPage returns an error', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce({ error: 'Error when fetching questions' });
       // Making the request
-      const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({ order: 'dummyOrder', search: 'dummySearch' });
 
       // Asserting the response
       expect(response.status).toBe(500);
+      expect(response.text).toBe(
+        'Error when fetching questions by filter: Error when fetching questions',
+      );
     });
 
-    it('should return error if filterQuestionsBySearch throws an error', async () => {
-      // Mock request query parameters
-      const mockReqQuery = {
-        order: 'dummyOrder',
-        search: 'dummySearch',
-      };
-      getQuestionsByOrderSpy.mockResolvedValueOnce(MOCK_QUESTIONS);
-      filterQuestionsBySearchSpy.mockRejectedValueOnce(new Error('Error filtering questions'));
+    it('should return error if getQuestionPage throws an error', async () => {
+      getQuestionPageSpy.mockRejectedValueOnce(new Error('Error fetching questions'));
       // Making the request
-      const response = await supertest(app).get('/question/getQuestion').query(mockReqQuery);
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       // Asserting the response
       expect(response.status).toBe(500);
     });
+
+    it('should return the questions bookmarked by the user', async () => {
+      getQuestionPageSpy.mockResolvedValueOnce(mockPage);
+
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({ order: 'active', bookmarkedBy: 'user1' });
+
+      expect(response.status).toBe(200);
+      expect(getQuestionPageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ order: 'active', bookmarkedBy: 'user1' }),
+      );
+    });
+
+    it('should return 403 if the bookmarks of another user are requested', async () => {
+      const response = await supertest(app)
+        .get('/question/getQuestion')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .query({ bookmarkedBy: 'user2' });
+
+      expect(response.status).toBe(403);
+      expect(getQuestionPageSpy).not.toHaveBeenCalled();
+    });
+
+    describe('with a collection', () => {
+      const collection: Collection = {
+        _id: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6f0'),
+        name: 'Promises',
+        description: '',
+        owner: 'user2',
+        questions: [mockQuestion._id!],
+        shared: true,
+      };
+      const collectionId = collection._id!.toString();
+
+      it('should return the questions of a shared collection', async () => {
+        getCollectionByIdSpy.mockResolvedValueOnce(collection);
+        getQuestionPageSpy.mockResolvedValueOnce(mockPage);
+
+        const response = await supertest(app)
+          .get('/question/getQuestion')
+          .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+          .query({ collection: collectionId });
+
+        expect(response.status).toBe(200);
+        expect(getQuestionPageSpy).toHaveBeenCalledWith(
+          expect.objectContaining({ questionIds: [mockQuestion._id!.toString()] }),
+        );
+      });
+
+      it('should return 403 if the collection is private', async () => {
+        getCollectionByIdSpy.mockResolvedValueOnce({ ...collection, shared: false });
+
+        const response = await supertest(app)
+          .get('/question/getQuestion')
+          .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+          .query({ collection: collectionId });
+
+        expect(response.status).toBe(403);
+        expect(getQuestionPageSpy).not.toHaveBeenCalled();
+      });
+
+      it('should return 404 if the collection does not exist', async () => {
+        getCollectionByIdSpy.mockResolvedValueOnce({ error: 'Collection not found' });
+
+        const response = await supertest(app)
+          .get('/question/getQuestion')
+          .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+          .query({ collection: collectionId });
+
+        expect(response.status).toBe(404);
+      });
+
+      it('should return 400 if the collection ID is invalid', async () => {
+        const response = await supertest(app)
+          .get('/question/getQuestion')
+          .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+          .query({ collection: 'invalid' });
+
+        expect(response.status).toBe(400);
+        expect(response.text).toBe('Invalid request');
+      });
+    });
+  });
+});
+
+describe('POST /acceptAnswer', () => {
+  const ownQuestion: Question = { ...MOCK_QUESTIONS[0], askedBy: 'user1' };
+  const aid = ans1._id!.toString();
+  const qid = ownQuestion._id!.toString();
+
+  it('should accept an answer of a question asked by the authenticated user', async () => {
+    const acceptedQuestion = { ...ownQuestion, acceptedAnswer: ans1._id };
+    jest
+      .spyOn(databaseUtil, 'populateDocument')
+      .mockResolvedValueOnce(ownQuestion)
+      .mockResolvedValueOnce(acceptedQuestion);
+    setAcceptedAnswerSpy.mockResolvedValueOnce(acceptedQuestion);
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(200);
+    expect(response.body.acceptedAnswer).toEqual(aid);
+    expect(setAcceptedAnswerSpy).toHaveBeenCalledWith(qid, aid);
+    expect(awardBountySpy).not.toHaveBeenCalled();
+  });
+
+  it('should award the bounty of the question to the accepted answer', async () => {
+    const bounty = {
+      amount: 100,
+      offeredBy: 'user3',
+      offeredAt: new Date('2025-01-01'),
+      expiresAt: new Date('2025-01-08'),
+    };
+    const acceptedQuestion = { ...ownQuestion, acceptedAnswer: ans1._id };
+    jest
+      .spyOn(databaseUtil, 'populateDocument')
+      .mockResolvedValueOnce({ ...ownQuestion, bounty })
+      .mockResolvedValueOnce(acceptedQuestion);
+    setAcceptedAnswerSpy.mockResolvedValueOnce(acceptedQuestion);
+    awardBountySpy.mockResolvedValueOnce({
+      qid,
+      title: ownQuestion.title,
+      bounty,
+      awardedTo: ans1.ansBy,
+    });
+    const saveNotificationSpy = jest
+      .spyOn(notificationUtil, 'saveNotification')
+      .mockImplementationOnce(async notification => notification);
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(200);
+    expect(awardBountySpy).toHaveBeenCalledWith(qid, aid);
+    expect(saveNotificationSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ recipient: ans1.ansBy, type: 'bounty', actor: 'user3' }),
+    );
+  });
+
+  it('should unaccept the accepted answer when the answer ID is null', async () => {
+    jest
+      .spyOn(databaseUtil, 'populateDocument')
+      .mockResolvedValueOnce({ ...ownQuestion, acceptedAnswer: ans1._id })
+      .mockResolvedValueOnce({ ...ownQuestion, acceptedAnswer: null });
+    setAcceptedAnswerSpy.mockResolvedValueOnce({ ...ownQuestion, acceptedAnswer: null });
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid: null });
+
+    expect(response.status).toBe(200);
+    expect(response.body.acceptedAnswer).toBeNull();
+    expect(setAcceptedAnswerSpy).toHaveBeenCalledWith(qid, null);
+  });
+
+  it('should return 403 if the authenticated user did not ask the question', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(MOCK_QUESTIONS[0]);
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+    expect(setAcceptedAnswerSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 if the answer does not belong to the question', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(ownQuestion);
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid: ans2._id!.toString() });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Answer does not belong to the question');
+    expect(setAcceptedAnswerSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 if the answer ID is missing', async () => {
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return 400 if the question ID is invalid', async () => {
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: 'invalid-id', aid });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return 500 if setting the accepted answer fails', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(ownQuestion);
+    setAcceptedAnswerSpy.mockResolvedValueOnce({ error: 'Error when setting the accepted answer' });
+
+    const response = await supertest(app)
+      .post('/question/acceptAnswer')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid, aid });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when accepting answer: Error when setting the accepted answer',
+    );
+  });
+});
+
+describe('PATCH /editQuestion', () => {
+  const ownQuestion: Question = { ...mockQuestion, askedBy: 'user1' };
+  const qid = ownQuestion._id!.toString();
+  const edit = {
+    qid,
+    title: 'Edited Title',
+    text: 'Edited Text',
+    tags: [tag1],
+    summary: 'Fixed the title',
+  };
+
+  it('should edit a question asked by the authenticated user', async () => {
+    const editedQuestion = { ...ownQuestion, title: edit.title, text: edit.text, tags: [tag1] };
+    jest
+      .spyOn(databaseUtil, 'populateDocument')
+      .mockResolvedValueOnce(ownQuestion)
+      .mockResolvedValueOnce(editedQuestion);
+    processTagsSpy.mockResolvedValueOnce([tag1]);
+    editQuestionSpy.mockResolvedValueOnce(editedQuestion);
+
+    const response = await supertest(app)
+      .patch('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(edit);
+
+    expect(response.status).toBe(200);
+    expect(response.body.title).toEqual(edit.title);
+    expect(editQuestionSpy).toHaveBeenCalledWith(
+      qid,
+      { title: edit.title, text: edit.text, tags: [tag1] },
+      'user1',
+      edit.summary,
+    );
+  });
+
+  it("should let a moderator edit another user's question", async () => {
+    jest
+      .spyOn(databaseUtil, 'populateDocument')
+      .mockResolvedValueOnce(mockQuestion)
+      .mockResolvedValueOnce(mockQuestion);
+    processTagsSpy.mockResolvedValueOnce([tag1]);
+    editQuestionSpy.mockResolvedValueOnce(mockQuestion);
+
+    const response = await supertest(app)
+      .patch('/question/editQuestion')
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+      .send(edit);
+
+    expect(response.status).toBe(200);
+    expect(editQuestionSpy).toHaveBeenCalledWith(
+      qid,
+      expect.anything(),
+      'moderator1',
+      edit.summary,
+    );
+  });
+
+  it('should return 403 if the authenticated user did not ask the question', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(mockQuestion);
+
+    const response = await supertest(app)
+      .patch('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(edit);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+    expect(editQuestionSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 if the question has no tags', async () => {
+    const response = await supertest(app)
+      .patch('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ ...edit, tags: [] });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return 500 if editing the question fails', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(ownQuestion);
+    processTagsSpy.mockResolvedValueOnce([tag1]);
+    editQuestionSpy.mockResolvedValueOnce({ error: 'Error when editing the question' });
+
+    const response = await supertest(app)
+      .patch('/question/editQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send(edit);
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when editing question: Error when editing the question');
+  });
+});
+
+describe('GET /getQuestionRevisions/:id', () => {
+  it('should return the revisions of the question', async () => {
+    const revision: Revision = {
+      targetType: 'question',
+      targetId: mockQuestion._id!,
+      title: 'Old Title',
+      text: 'Old Text',
+      tags: ['tag1'],
+      editedBy: 'user1',
+      editedAt: new Date('2024-06-07'),
+      summary: 'Fixed the title',
+    };
+    getRevisionHistorySpy.mockResolvedValueOnce([revision]);
+
+    const response = await supertest(app)
+      .get(`/question/getQuestionRevisions/${mockQuestion._id}`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([
+      {
+        ...revision,
+        targetId: mockQuestion._id!.toString(),
+        editedAt: revision.editedAt.toISOString(),
+      },
+    ]);
+    expect(getRevisionHistorySpy).toHaveBeenCalledWith(
+      'question',
+      mockQuestion._id!.toString(),
+      false,
+    );
+  });
+
+  it('should include the history of deleted questions for moderators', async () => {
+    getRevisionHistorySpy.mockResolvedValueOnce([]);
+
+    const response = await supertest(app)
+      .get(`/question/getQuestionRevisions/${mockQuestion._id}`)
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`);
+
+    expect(response.status).toBe(200);
+    expect(getRevisionHistorySpy).toHaveBeenCalledWith(
+      'question',
+      mockQuestion._id!.toString(),
+      true,
+    );
+  });
+
+  it('should return 404 if the question is not found', async () => {
+    getRevisionHistorySpy.mockResolvedValueOnce({ error: 'Question not found!' });
+
+    const response = await supertest(app)
+      .get(`/question/getQuestionRevisions/${mockQuestion._id}`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(404);
+    expect(response.text).toBe('Question not found');
+  });
+
+  it('should return 400 if the question ID is invalid', async () => {
+    const response = await supertest(app)
+      .get('/question/getQuestionRevisions/invalid-id')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid ID format');
+  });
+
+  it('should return 500 if fetching the revisions fails', async () => {
+    getRevisionHistorySpy.mockResolvedValueOnce({ error: 'Error when fetching revision history' });
+
+    const response = await supertest(app)
+      .get(`/question/getQuestionRevisions/${mockQuestion._id}`)
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('POST /deleteQuestion', () => {
+  const ownQuestion: Question = { ...mockQuestion, askedBy: 'user1' };
+  const qid = ownQuestion._id!.toString();
+  const deletedAt = new Date('2024-06-08');
+
+  it('should soft delete a question asked by the authenticated user', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(ownQuestion);
+    setQuestionDeletedSpy.mockResolvedValueOnce({ ...ownQuestion, deletedAt, deletedBy: 'user1' });
+
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedBy).toEqual('user1');
+    expect(response.body.deletedAt).toEqual(deletedAt.toISOString());
+    expect(setQuestionDeletedSpy).toHaveBeenCalledWith(qid, 'user1');
+  });
+
+  it("should let a moderator delete another user's question", async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(mockQuestion);
+    setQuestionDeletedSpy.mockResolvedValueOnce({
+      ...mockQuestion,
+      deletedAt,
+      deletedBy: 'moderator1',
+    });
+
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(200);
+    expect(setQuestionDeletedSpy).toHaveBeenCalledWith(qid, 'moderator1');
+  });
+
+  it('should return 403 if the authenticated user did not ask the question', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(mockQuestion);
+
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+    expect(setQuestionDeletedSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 if the question is already deleted', async () => {
+    jest
+      .spyOn(databaseUtil, 'populateDocument')
+      .mockResolvedValueOnce({ ...ownQuestion, deletedAt, deletedBy: 'user1' });
+
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Question is already deleted');
+  });
+
+  it('should return 400 if the question ID is invalid', async () => {
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: 'invalid-id' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return 500 if deleting the question fails', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(ownQuestion);
+    setQuestionDeletedSpy.mockResolvedValueOnce({ error: 'Error when deleting the question' });
+
+    const response = await supertest(app)
+      .post('/question/deleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe('Error when deleting question: Error when deleting the question');
+  });
+});
+
+describe('POST /undeleteQuestion', () => {
+  const qid = mockQuestion._id!.toString();
+  const deletedQuestion: Question = {
+    ...mockQuestion,
+    askedBy: 'user1',
+    deletedAt: new Date('2024-06-08'),
+    deletedBy: 'moderator1',
+  };
+
+  it('should let a moderator restore a deleted question', async () => {
+    const restoredQuestion = { ...deletedQuestion, deletedAt: null, deletedBy: null };
+    jest
+      .spyOn(databaseUtil, 'populateDocument')
+      .mockResolvedValueOnce(deletedQuestion)
+      .mockResolvedValueOnce(restoredQuestion);
+    setQuestionDeletedSpy.mockResolvedValueOnce(restoredQuestion);
+
+    const response = await supertest(app)
+      .post('/question/undeleteQuestion')
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(200);
+    expect(response.body.deletedAt).toBeNull();
+    expect(setQuestionDeletedSpy).toHaveBeenCalledWith(qid, null);
+  });
+
+  it('should return 403 if the author tries to restore a question deleted by a moderator', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(deletedQuestion);
+
+    const response = await supertest(app)
+      .post('/question/undeleteQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(403);
+    expect(setQuestionDeletedSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 if the question is not deleted', async () => {
+    jest.spyOn(databaseUtil, 'populateDocument').mockResolvedValueOnce(mockQuestion);
+
+    const response = await supertest(app)
+      .post('/question/undeleteQuestion')
+      .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Question is not deleted');
+  });
+});
+
+describe('POST /bookmarkQuestion', () => {
+  const qid = mockQuestion._id!.toString();
+
+  it('should bookmark the question for the authenticated user', async () => {
+    setQuestionBookmarkedSpy.mockResolvedValueOnce({ ...mockQuestion, bookmarkCount: 1 });
+
+    const response = await supertest(app)
+      .post('/question/bookmarkQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ qid, bookmarkCount: 1, bookmarked: true });
+    expect(setQuestionBookmarkedSpy).toHaveBeenCalledWith(qid, 'user1', true);
+  });
+
+  it('should return 400 if the question ID is invalid', async () => {
+    const response = await supertest(app)
+      .post('/question/bookmarkQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid: 'invalid' });
+
+    expect(response.status).toBe(400);
+    expect(response.text).toBe('Invalid request');
+  });
+
+  it('should return 404 if the question does not exist', async () => {
+    setQuestionBookmarkedSpy.mockResolvedValueOnce({ error: 'Question not found!' });
+
+    const response = await supertest(app)
+      .post('/question/bookmarkQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 500 if the bookmark cannot be saved', async () => {
+    setQuestionBookmarkedSpy.mockResolvedValueOnce({
+      error: 'Error when bookmarking the question',
+    });
+
+    const response = await supertest(app)
+      .post('/question/bookmarkQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe(
+      'Error when bookmarking question: Error when bookmarking the question',
+    );
+  });
+});
+
+describe('POST /unbookmarkQuestion', () => {
+  it('should remove the bookmark of the authenticated user', async () => {
+    const qid = mockQuestion._id!.toString();
+    setQuestionBookmarkedSpy.mockResolvedValueOnce({ ...mockQuestion, bookmarkCount: 0 });
+
+    const response = await supertest(app)
+      .post('/question/unbookmarkQuestion')
+      .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+      .send({ qid });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ qid, bookmarkCount: 0, bookmarked: false });
+    expect(setQuestionBookmarkedSpy).toHaveBeenCalledWith(qid, 'user1', false);
   });
 });
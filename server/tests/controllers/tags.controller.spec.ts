@@ -2,8 +2,20 @@ import supertest from 'supertest';
 import { app } from '../../app';
 import * as tagUtil from '../../services/tag.service';
 import TagModel from '../../models/tags.model';
+import { issueToken } from '../../utils/token.util';
+import * as userService from '../../services/user.service';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const MODERATOR_TOKEN = issueToken('moderator1', 'moderator');
+
+jest.spyOn(userService, 'getUserRole').mockImplementation(mockUserRole);
 
 const getTagCountMapSpy: jest.SpyInstance = jest.spyOn(tagUtil, 'getTagCountMap');
+const updateTagDescriptionSpy = jest.spyOn(tagUtil, 'updateTagDescription');
+const addTagSynonymSpy = jest.spyOn(tagUtil, 'addTagSynonym');
+const removeTagSynonymSpy = jest.spyOn(tagUtil, 'removeTagSynonym');
+const mergeTagsSpy = jest.spyOn(tagUtil, 'mergeTags');
 // Spy on the TagModel.findOne method
 const findOneSpy = jest.spyOn(TagModel, 'findOne');
 
@@ -14,7 +26,9 @@ describe('Test tagController', () => {
       const mockTag = { name: 'exampleTag', description: 'This is a test tag' };
       findOneSpy.mockResolvedValueOnce(mockTag);
 
-      const response = await supertest(app).get('/tag/getTagByName/exampleTag');
+      const response = await supertest(app)
+        .get('/tag/getTagByName/exampleTag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockTag);
@@ -24,7 +38,9 @@ describe('Test tagController', () => {
       // Mock findOne to return null to simulate tag not found
       findOneSpy.mockResolvedValueOnce(null);
 
-      const response = await supertest(app).get('/tag/getTagByName/nonExistentTag');
+      const response = await supertest(app)
+        .get('/tag/getTagByName/nonExistentTag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(404);
       expect(response.text).toBe('Tag with name "nonExistentTag" not found');
@@ -34,7 +50,9 @@ describe('Test tagController', () => {
       // Mock findOne to throw an error
       findOneSpy.mockRejectedValueOnce(new Error('Error fetching tag'));
 
-      const response = await supertest(app).get('/tag/getTagByName/errorTag');
+      const response = await supertest(app)
+        .get('/tag/getTagByName/errorTag')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(500);
       expect(response.text).toContain('Error when fetching tag: Error fetching tag');
@@ -48,7 +66,9 @@ describe('Test tagController', () => {
       mockTagCountMap.set('tag2', 1);
       getTagCountMapSpy.mockResolvedValueOnce(mockTagCountMap);
 
-      const response = await supertest(app).get('/tag/getTagsWithQuestionNumber');
+      const response = await supertest(app)
+        .get('/tag/getTagsWithQuestionNumber')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual([
@@ -60,7 +80,9 @@ describe('Test tagController', () => {
     it('should return error 500 if getTagCountMap returns null', async () => {
       getTagCountMapSpy.mockResolvedValueOnce(null);
 
-      const response = await supertest(app).get('/tag/getTagsWithQuestionNumber');
+      const response = await supertest(app)
+        .get('/tag/getTagsWithQuestionNumber')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(500);
     });
@@ -68,9 +90,172 @@ describe('Test tagController', () => {
     it('should return error 500 if getTagCountMap throws an error', async () => {
       getTagCountMapSpy.mockRejectedValueOnce(new Error('Error fetching tags'));
 
-      const response = await supertest(app).get('/tag/getTagsWithQuestionNumber');
+      const response = await supertest(app)
+        .get('/tag/getTagsWithQuestionNumber')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(500);
     });
   });
+
+  describe('PATCH /updateDescription', () => {
+    it('should update the description of the tag', async () => {
+      const mockTag = { name: 'react', description: 'A UI library' };
+      updateTagDescriptionSpy.mockResolvedValueOnce(mockTag);
+
+      const response = await supertest(app)
+        .patch('/tag/updateDescription')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ name: 'react', description: ' A UI library ' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockTag);
+      expect(updateTagDescriptionSpy).toHaveBeenCalledWith('react', 'A UI library');
+    });
+
+    it('should return 400 if the description is missing', async () => {
+      const response = await supertest(app)
+        .patch('/tag/updateDescription')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ name: 'react', description: ' ' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+
+    it('should return 403 if the user is not a moderator', async () => {
+      const response = await supertest(app)
+        .patch('/tag/updateDescription')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'react', description: 'A UI library' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Forbidden: only moderators can edit tags' });
+      expect(updateTagDescriptionSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the tag is not found', async () => {
+      updateTagDescriptionSpy.mockResolvedValueOnce({ error: 'Tag not found' });
+
+      const response = await supertest(app)
+        .patch('/tag/updateDescription')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ name: 'missing', description: 'A UI library' });
+
+      expect(response.status).toBe(404);
+      expect(response.text).toBe('Error when editing the tag: Tag not found');
+    });
+  });
+
+  describe('POST /addSynonym', () => {
+    it('should add the synonym to the tag', async () => {
+      const mockTag = { name: 'javascript', description: 'JS', synonyms: ['js'] };
+      addTagSynonymSpy.mockResolvedValueOnce(mockTag);
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'js' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockTag);
+      expect(addTagSynonymSpy).toHaveBeenCalledWith('javascript', 'js');
+    });
+
+    it('should return 400 if the synonym conflicts with another tag', async () => {
+      addTagSynonymSpy.mockResolvedValueOnce({
+        error: '"react" is already used by the tag "react", merge the tags instead',
+      });
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'react' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toContain('merge the tags instead');
+    });
+
+    it('should return 500 if the synonym cannot be saved', async () => {
+      addTagSynonymSpy.mockResolvedValueOnce({ error: 'Error when adding the tag synonym' });
+
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'js' });
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should return 403 if the user is not a moderator', async () => {
+      const response = await supertest(app)
+        .post('/tag/addSynonym')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'js' });
+
+      expect(response.status).toBe(403);
+      expect(addTagSynonymSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /removeSynonym', () => {
+    it('should remove the synonym from the tag', async () => {
+      const mockTag = { name: 'javascript', description: 'JS', synonyms: [] };
+      removeTagSynonymSpy.mockResolvedValueOnce(mockTag);
+
+      const response = await supertest(app)
+        .post('/tag/removeSynonym')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ name: 'javascript', synonym: 'js' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockTag);
+    });
+
+    it('should return 400 if the synonym is missing', async () => {
+      const response = await supertest(app)
+        .post('/tag/removeSynonym')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ name: 'javascript' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid request');
+    });
+  });
+
+  describe('POST /mergeTags', () => {
+    it('should merge the source tag into the target tag', async () => {
+      const mockTag = { name: 'javascript', description: 'JS', synonyms: ['js'] };
+      mergeTagsSpy.mockResolvedValueOnce(mockTag);
+
+      const response = await supertest(app)
+        .post('/tag/mergeTags')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ source: 'js', target: 'javascript' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockTag);
+      expect(mergeTagsSpy).toHaveBeenCalledWith('js', 'javascript');
+    });
+
+    it('should return 400 if the target is missing', async () => {
+      const response = await supertest(app)
+        .post('/tag/mergeTags')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ source: 'js' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 403 if the user is not a moderator', async () => {
+      const response = await supertest(app)
+        .post('/tag/mergeTags')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ source: 'js', target: 'javascript' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Forbidden: only moderators can merge tags' });
+      expect(mergeTagsSpy).not.toHaveBeenCalled();
+    });
+  });
 });
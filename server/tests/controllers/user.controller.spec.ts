@@ -2,7 +2,18 @@ import supertest from 'supertest';
 import mongoose from 'mongoose';
 import { app } from '../../app';
 import * as util from '../../services/user.service';
-import { SafeUser, User } from '../../types/types';
+import * as reputationUtil from '../../services/reputation.service';
+import { addConnection, removeConnection } from '../../services/presence.service';
+import * as databaseUtil from '../../utils/database.util';
+import { ReputationEvent, SafeUser, User } from '../../types/types';
+import { issueToken, verifyToken } from '../../utils/token.util';
+import { mockUserRole } from '../mockData.models';
+
+const AUTH_TOKEN = issueToken('user1');
+const MODERATOR_TOKEN = issueToken('moderator1', 'moderator');
+const ADMIN_TOKEN = issueToken('admin1', 'admin');
+
+jest.spyOn(util, 'getUserRole').mockImplementation(mockUserRole);
 
 const mockUser: User = {
   _id: new mongoose.Types.ObjectId(),
@@ -26,9 +37,12 @@ const mockUserJSONResponse = {
 const saveUserSpy = jest.spyOn(util, 'saveUser');
 const loginUserSpy = jest.spyOn(util, 'loginUser');
 const updatedUserSpy = jest.spyOn(util, 'updateUser');
+const setTagPreferenceSpy = jest.spyOn(util, 'setTagPreference');
 const getUserByUsernameSpy = jest.spyOn(util, 'getUserByUsername');
 const getUsersListSpy = jest.spyOn(util, 'getUsersList');
 const deleteUserByUsernameSpy = jest.spyOn(util, 'deleteUserByUsername');
+const popDocSpy = jest.spyOn(databaseUtil, 'populateDocument');
+const getReputationHistorySpy = jest.spyOn(reputationUtil, 'getReputationHistory');
 
 describe('Test userController', () => {
   describe('POST /signup', () => {
@@ -44,8 +58,36 @@ describe('Test userController', () => {
       const response = await supertest(app).post('/user/signup').send(mockReqBody);
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(mockUserJSONResponse);
-      expect(saveUserSpy).toHaveBeenCalledWith({ ...mockReqBody, dateJoined: expect.any(Date) });
+      expect(response.body).toEqual({ user: mockUserJSONResponse, token: expect.any(String) });
+      expect(verifyToken(response.body.token)).toEqual({
+        username: mockUser.username,
+        role: 'user',
+      });
+      expect(saveUserSpy).toHaveBeenCalledWith({
+        ...mockReqBody,
+        dateJoined: expect.any(Date),
+        role: 'user',
+      });
+    });
+
+    it('should not save the role or reputation sent with the new user', async () => {
+      saveUserSpy.mockResolvedValueOnce(mockSafeUser);
+
+      const response = await supertest(app).post('/user/signup').send({
+        username: mockUser.username,
+        password: mockUser.password,
+        role: 'admin',
+        reputation: 10000,
+      });
+
+      expect(response.status).toBe(200);
+      expect(saveUserSpy).toHaveBeenCalledWith({
+        username: mockUser.username,
+        password: mockUser.password,
+        dateJoined: expect.any(Date),
+        biography: '',
+        role: 'user',
+      });
     });
 
     it('should return 400 for request missing username', async () => {
@@ -71,6 +113,19 @@ describe('Test userController', () => {
       expect(response.text).toEqual('Invalid user body');
     });
 
+    it('should return 400 for request with the reserved username of deleted users', async () => {
+      const mockReqBody = {
+        username: util.DELETED_USERNAME,
+        password: mockUser.password,
+      };
+
+      const response = await supertest(app).post('/user/signup').send(mockReqBody);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toEqual('Invalid user body');
+      expect(saveUserSpy).not.toHaveBeenCalled();
+    });
+
     it('should return 400 for request missing password', async () => {
       const mockReqBody = {
         username: mockUser.username,
@@ -120,7 +175,11 @@ describe('Test userController', () => {
       const response = await supertest(app).post('/user/login').send(mockReqBody);
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(mockUserJSONResponse);
+      expect(response.body).toEqual({ user: mockUserJSONResponse, token: expect.any(String) });
+      expect(verifyToken(response.body.token)).toEqual({
+        username: mockUser.username,
+        role: 'user',
+      });
       expect(loginUserSpy).toHaveBeenCalledWith(mockReqBody);
     });
 
@@ -193,7 +252,10 @@ describe('Test userController', () => {
 
       updatedUserSpy.mockResolvedValueOnce(mockSafeUser);
 
-      const response = await supertest(app).patch('/user/resetPassword').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({ ...mockUserJSONResponse });
@@ -205,7 +267,10 @@ describe('Test userController', () => {
         password: 'newPassword',
       };
 
-      const response = await supertest(app).patch('/user/resetPassword').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(400);
       expect(response.text).toEqual('Invalid user body');
@@ -217,7 +282,10 @@ describe('Test userController', () => {
         password: 'newPassword',
       };
 
-      const response = await supertest(app).patch('/user/resetPassword').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(400);
       expect(response.text).toEqual('Invalid user body');
@@ -228,7 +296,10 @@ describe('Test userController', () => {
         username: mockUser.username,
       };
 
-      const response = await supertest(app).patch('/user/resetPassword').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(400);
       expect(response.text).toEqual('Invalid user body');
@@ -240,7 +311,10 @@ describe('Test userController', () => {
         password: '',
       };
 
-      const response = await supertest(app).patch('/user/resetPassword').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(400);
       expect(response.text).toEqual('Invalid user body');
@@ -254,27 +328,68 @@ describe('Test userController', () => {
 
       updatedUserSpy.mockResolvedValueOnce({ error: 'Error updating user' });
 
-      const response = await supertest(app).patch('/user/resetPassword').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(500);
     });
+
+    it('should return 403 when resetting the password of another user', async () => {
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user2', password: 'newPassword' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+      expect(updatedUserSpy).not.toHaveBeenCalled();
+    });
+
+    it('should allow an admin to reset the password of another user', async () => {
+      updatedUserSpy.mockResolvedValueOnce({ ...mockSafeUser, username: 'user2' });
+
+      const response = await supertest(app)
+        .patch('/user/resetPassword')
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: 'user2', password: 'newPassword' });
+
+      expect(response.status).toBe(200);
+      expect(updatedUserSpy).toHaveBeenCalledWith('user2', { password: 'newPassword' });
+    });
   });
 
   describe('GET /getUser', () => {
     it('should return the user given correct arguments', async () => {
       getUserByUsernameSpy.mockResolvedValueOnce(mockSafeUser);
 
-      const response = await supertest(app).get(`/user/getUser/${mockUser.username}`);
+      const response = await supertest(app)
+        .get(`/user/getUser/${mockUser.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockUserJSONResponse);
-      expect(getUserByUsernameSpy).toHaveBeenCalledWith(mockUser.username);
+      expect(getUserByUsernameSpy).toHaveBeenCalledWith(mockUser.username, true);
+    });
+
+    it('should leave out the tag preferences of another user', async () => {
+      getUserByUsernameSpy.mockResolvedValueOnce({ ...mockSafeUser, username: 'user2' });
+
+      const response = await supertest(app)
+        .get('/user/getUser/user2')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(getUserByUsernameSpy).toHaveBeenCalledWith('user2', false);
     });
 
     it('should return 500 if database error while searching username', async () => {
       getUserByUsernameSpy.mockResolvedValueOnce({ error: 'Error finding user' });
 
-      const response = await supertest(app).get(`/user/getUser/${mockUser.username}`);
+      const response = await supertest(app)
+        .get(`/user/getUser/${mockUser.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(500);
     });
@@ -282,7 +397,9 @@ describe('Test userController', () => {
     it('should return 404 if username not provided', async () => {
       // Express automatically returns 404 for missing parameters when
       // defined as required in the route
-      const response = await supertest(app).get('/user/getUser/');
+      const response = await supertest(app)
+        .get('/user/getUser/')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(404);
     });
   });
@@ -291,7 +408,9 @@ describe('Test userController', () => {
     it('should return the users from the database', async () => {
       getUsersListSpy.mockResolvedValueOnce([mockSafeUser]);
 
-      const response = await supertest(app).get(`/user/getUsers`);
+      const response = await supertest(app)
+        .get(`/user/getUsers`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual([mockUserJSONResponse]);
@@ -301,7 +420,53 @@ describe('Test userController', () => {
     it('should return 500 if database error while retrieving users', async () => {
       getUsersListSpy.mockResolvedValueOnce({ error: 'Error finding user' });
 
-      const response = await supertest(app).get('/user/getUsers');
+      const response = await supertest(app)
+        .get('/user/getUsers')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('GET /getOnlineUsers', () => {
+    it('should return the users with an open connection', async () => {
+      addConnection('user2');
+
+      const response = await supertest(app)
+        .get('/user/getOnlineUsers')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      removeConnection('user2');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(['user2']);
+    });
+  });
+
+  describe('GET /getReputationHistory', () => {
+    it('should return the reputation history of the user', async () => {
+      const event: ReputationEvent = {
+        username: mockUser.username,
+        change: 10,
+        reason: 'answerUpvote',
+        createdAt: new Date('2024-12-04'),
+      };
+      getReputationHistorySpy.mockResolvedValueOnce([event]);
+
+      const response = await supertest(app)
+        .get(`/user/getReputationHistory/${mockUser.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([{ ...event, createdAt: event.createdAt.toISOString() }]);
+      expect(getReputationHistorySpy).toHaveBeenCalledWith(mockUser.username);
+    });
+
+    it('should return 500 if database error while retrieving the history', async () => {
+      getReputationHistorySpy.mockResolvedValueOnce({ error: 'Error finding history' });
+
+      const response = await supertest(app)
+        .get(`/user/getReputationHistory/${mockUser.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(500);
     });
@@ -309,19 +474,71 @@ describe('Test userController', () => {
 
   describe('DELETE /deleteUser', () => {
     it('should return the deleted user given correct arguments', async () => {
-      deleteUserByUsernameSpy.mockResolvedValueOnce(mockSafeUser);
+      deleteUserByUsernameSpy.mockResolvedValueOnce({
+        user: mockSafeUser,
+        questions: [],
+        chats: [],
+      });
 
-      const response = await supertest(app).delete(`/user/deleteUser/${mockUser.username}`);
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockUserJSONResponse);
-      expect(deleteUserByUsernameSpy).toHaveBeenCalledWith(mockUser.username);
+      expect(deleteUserByUsernameSpy).toHaveBeenCalledWith(mockUser.username, 'anonymize');
+    });
+
+    it('should apply the deletion policy given in the query', async () => {
+      deleteUserByUsernameSpy.mockResolvedValueOnce({
+        user: mockSafeUser,
+        questions: [],
+        chats: [],
+      });
+
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}?policy=hardDelete`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(deleteUserByUsernameSpy).toHaveBeenCalledWith(mockUser.username, 'hardDelete');
+    });
+
+    it('should return 400 for an invalid deletion policy', async () => {
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}?policy=archive`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toBe('Invalid deletion policy');
+      expect(deleteUserByUsernameSpy).not.toHaveBeenCalled();
+    });
+
+    it('should populate the affected questions and chats', async () => {
+      const qid = new mongoose.Types.ObjectId().toString();
+      const chatId = new mongoose.Types.ObjectId().toString();
+      deleteUserByUsernameSpy.mockResolvedValueOnce({
+        user: mockSafeUser,
+        questions: [qid],
+        chats: [chatId],
+      });
+      popDocSpy.mockResolvedValue({ error: 'Error when populating document' });
+
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(popDocSpy).toHaveBeenCalledWith(qid, 'question');
+      expect(popDocSpy).toHaveBeenCalledWith(chatId, 'chat');
     });
 
     it('should return 500 if database error while searching username', async () => {
       deleteUserByUsernameSpy.mockResolvedValueOnce({ error: 'Error deleting user' });
 
-      const response = await supertest(app).delete(`/user/deleteUser/${mockUser.username}`);
+      const response = await supertest(app)
+        .delete(`/user/deleteUser/${mockUser.username}`)
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
 
       expect(response.status).toBe(500);
     });
@@ -329,9 +546,36 @@ describe('Test userController', () => {
     it('should return 404 if username not provided', async () => {
       // Express automatically returns 404 for missing parameters when
       // defined as required in the route
-      const response = await supertest(app).delete('/user/deleteUser/');
+      const response = await supertest(app)
+        .delete('/user/deleteUser/')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(404);
     });
+
+    it('should return 403 when deleting another user', async () => {
+      const response = await supertest(app)
+        .delete('/user/deleteUser/user2')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+      expect(deleteUserByUsernameSpy).not.toHaveBeenCalled();
+    });
+
+    it('should allow an admin to delete another user', async () => {
+      deleteUserByUsernameSpy.mockResolvedValueOnce({
+        user: { ...mockSafeUser, username: 'user2' },
+        questions: [],
+        chats: [],
+      });
+
+      const response = await supertest(app)
+        .delete('/user/deleteUser/user2')
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`);
+
+      expect(response.status).toBe(200);
+      expect(deleteUserByUsernameSpy).toHaveBeenCalledWith('user2', 'anonymize');
+    });
   });
 
   describe('PATCH /updateBiography', () => {
@@ -344,7 +588,10 @@ describe('Test userController', () => {
       // Mock a successful updateUser call
       updatedUserSpy.mockResolvedValueOnce(mockSafeUser);
 
-      const response = await supertest(app).patch('/user/updateBiography').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/updateBiography')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockUserJSONResponse);
@@ -355,16 +602,21 @@ describe('Test userController', () => {
     });
 
     it('should return 400 for request with missing body', async () => {
-      const response = await supertest(app).patch('/user/updateBiography');
+      const response = await supertest(app)
+        .patch('/user/updateBiography')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`);
       expect(response.status).toBe(400);
     });
 
     it.each([
       { label: 'missing username', mockReqBody: { biography: 'My bio' } },
       { label: 'empty username', mockReqBody: { username: '', biography: 'My bio' } },
-      { label: 'missing biography', mockReqBody: { username: 'user01' } },
+      { label: 'missing biography', mockReqBody: { username: 'user1' } },
     ])('should return 400 for request with $label', async ({ mockReqBody }) => {
-      const response = await supertest(app).patch('/user/updateBiography').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/updateBiography')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
       expect(response.status).toBe(400);
     });
 
@@ -372,12 +624,146 @@ describe('Test userController', () => {
       updatedUserSpy.mockResolvedValueOnce({ error: 'Error updating user' });
 
       const mockReqBody = {
-        username: 'someUser',
+        username: mockUser.username,
         biography: 'bio of some user',
       };
-      const response = await supertest(app).patch('/user/updateBiography').send(mockReqBody);
+      const response = await supertest(app)
+        .patch('/user/updateBiography')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should return 403 when a regular user updates the biography of another user', async () => {
+      const response = await supertest(app)
+        .patch('/user/updateBiography')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: 'user2', biography: 'Not my biography' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+      expect(updatedUserSpy).not.toHaveBeenCalled();
+    });
+
+    it('should allow a moderator to update the biography of another user', async () => {
+      updatedUserSpy.mockResolvedValueOnce({ ...mockSafeUser, username: 'user2', biography: '' });
+
+      const response = await supertest(app)
+        .patch('/user/updateBiography')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ username: 'user2', biography: '' });
+
+      expect(response.status).toBe(200);
+      expect(updatedUserSpy).toHaveBeenCalledWith('user2', { biography: '' });
+    });
+  });
+
+  describe('PATCH /updateRole', () => {
+    it('should update the role of another user when requested by an admin', async () => {
+      updatedUserSpy.mockResolvedValueOnce({ ...mockSafeUser, role: 'moderator' });
+
+      const response = await supertest(app)
+        .patch('/user/updateRole')
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: mockUser.username, role: 'moderator' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.role).toEqual('moderator');
+      expect(updatedUserSpy).toHaveBeenCalledWith(mockUser.username, { role: 'moderator' });
+    });
+
+    it('should return 400 for an unknown role', async () => {
+      const response = await supertest(app)
+        .patch('/user/updateRole')
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: mockUser.username, role: 'superuser' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 403 if the caller is not an admin', async () => {
+      const response = await supertest(app)
+        .patch('/user/updateRole')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ username: mockUser.username, role: 'admin' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: expect.stringContaining('Forbidden') });
+      expect(updatedUserSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 if an admin changes their own role', async () => {
+      const response = await supertest(app)
+        .patch('/user/updateRole')
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: 'admin1', role: 'user' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 500 for a database error while updating', async () => {
+      updatedUserSpy.mockResolvedValueOnce({ error: 'Error updating user' });
+
+      const response = await supertest(app)
+        .patch('/user/updateRole')
+        .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+        .send({ username: mockUser.username, role: 'moderator' });
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('PATCH /updateTagPreference', () => {
+    it('should update the tag preference of the user', async () => {
+      setTagPreferenceSpy.mockResolvedValueOnce({ ...mockSafeUser, watchedTags: ['react'] });
+
+      const response = await supertest(app)
+        .patch('/user/updateTagPreference')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: mockUser.username, tag: 'react', preference: 'watched' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ ...mockUserJSONResponse, watchedTags: ['react'] });
+      expect(setTagPreferenceSpy).toHaveBeenCalledWith(mockUser.username, 'react', 'watched');
+    });
+
+    it.each([
+      { label: 'missing tag', mockReqBody: { username: 'user1', preference: 'watched' } },
+      {
+        label: 'unknown preference',
+        mockReqBody: { username: 'user1', tag: 'react', preference: 'loved' },
+      },
+    ])('should return 400 for request with $label', async ({ mockReqBody }) => {
+      const response = await supertest(app)
+        .patch('/user/updateTagPreference')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send(mockReqBody);
+
+      expect(response.status).toBe(400);
+      expect(setTagPreferenceSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when updating the preferences of another user', async () => {
+      const response = await supertest(app)
+        .patch('/user/updateTagPreference')
+        .set('Authorization', `Bearer ${MODERATOR_TOKEN}`)
+        .send({ username: mockUser.username, tag: 'react', preference: 'ignored' });
+
+      expect(response.status).toBe(403);
+      expect(setTagPreferenceSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 if the preference cannot be saved', async () => {
+      setTagPreferenceSpy.mockResolvedValueOnce({ error: 'Error updating user' });
+
+      const response = await supertest(app)
+        .patch('/user/updateTagPreference')
+        .set('Authorization', `Bearer ${AUTH_TOKEN}`)
+        .send({ username: mockUser.username, tag: 'react', preference: 'none' });
 
       expect(response.status).toBe(500);
+      expect(response.text).toContain('Error when updating tag preference');
     });
   });
 });
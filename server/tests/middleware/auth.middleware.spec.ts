@@ -0,0 +1,142 @@
+import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticate, authenticateSocket } from '../../middleware/auth.middleware';
+import * as userService from '../../services/user.service';
+import { FakeSOConnection } from '../../types/types';
+import { issueToken } from '../../utils/token.util';
+
+const getUserRoleSpy = jest.spyOn(userService, 'getUserRole');
+
+const mockResponse = () => {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.send = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const mockRequest = (path: string, authorization?: string) =>
+  ({ path, headers: { authorization } }) as unknown as Request;
+
+describe('authenticate', () => {
+  it('should resolve the caller from a valid bearer token', async () => {
+    getUserRoleSpy.mockResolvedValueOnce('user');
+    const req = mockRequest('/question/addQuestion', `Bearer ${issueToken('user1')}`);
+    const res = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await authenticate(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toEqual({ username: 'user1', role: 'user' });
+    expect(getUserRoleSpy).toHaveBeenCalledWith('user1');
+  });
+
+  it('should use the current role of the caller rather than the role in the token', async () => {
+    getUserRoleSpy.mockResolvedValueOnce('user');
+    const req = mockRequest('/question/addQuestion', `Bearer ${issueToken('admin1', 'admin')}`);
+    const res = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await authenticate(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toEqual({ username: 'admin1', role: 'user' });
+  });
+
+  it('should return 401 if the user of the token no longer exists', async () => {
+    getUserRoleSpy.mockResolvedValueOnce({ error: 'User not found' });
+    const req = mockRequest('/question/addQuestion', `Bearer ${issueToken('user1')}`);
+    const res = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await authenticate(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('should allow public routes without a token', async () => {
+    const req = mockRequest('/user/login');
+    const res = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await authenticate(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toBeUndefined();
+  });
+
+  it('should return 401 if the token is missing', async () => {
+    const req = mockRequest('/question/addQuestion');
+    const res = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await authenticate(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.send).toHaveBeenCalledWith('Authentication required');
+  });
+
+  it('should return 401 if the token is invalid', async () => {
+    const req = mockRequest('/question/addQuestion', 'Bearer not-a-token');
+    const res = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await authenticate(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('should return 401 if the token is signed with a key that is not the secret', async () => {
+    const forgedToken = jwt.sign({ role: 'admin' }, 'fake-so-development-secret', {
+      subject: 'user1',
+    });
+    const req = mockRequest('/question/addQuestion', `Bearer ${forgedToken}`);
+    const res = mockResponse();
+    const next: NextFunction = jest.fn();
+
+    await authenticate(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+describe('authenticateSocket', () => {
+  const mockConnection = (token?: string) =>
+    ({ handshake: { auth: { token } }, data: {} }) as unknown as FakeSOConnection;
+
+  it('should attach the username to the connection for a valid token', async () => {
+    getUserRoleSpy.mockResolvedValueOnce('user');
+    const conn = mockConnection(issueToken('user1'));
+    const next = jest.fn();
+
+    await authenticateSocket(conn, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(conn.data.username).toEqual('user1');
+  });
+
+  it('should reject the connection if the token is invalid', async () => {
+    const conn = mockConnection('not-a-token');
+    const next = jest.fn();
+
+    await authenticateSocket(conn, next);
+
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+    expect(conn.data.username).toBeUndefined();
+  });
+
+  it('should reject the connection if the user of the token no longer exists', async () => {
+    getUserRoleSpy.mockResolvedValueOnce({ error: 'User not found' });
+    const conn = mockConnection(issueToken('user1'));
+    const next = jest.fn();
+
+    await authenticateSocket(conn, next);
+
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+    expect(conn.data.username).toBeUndefined();
+  });
+});
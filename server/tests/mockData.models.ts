@@ -1,5 +1,5 @@
 import { ObjectId } from 'mongodb';
-import { Answer, Comment, Question, SafeUser, Tag, User } from '../types/types';
+import { Answer, Comment, Question, SafeUser, Tag, User, UserRole } from '../types/types';
 import { T1_DESC, T2_DESC, T3_DESC } from '../data/posts_strings';
 
 export const tag1: Tag = {
@@ -33,6 +33,8 @@ export const ans1: Answer = {
   ansBy: 'ansBy1',
   ansDateTime: new Date('2023-11-18T09:24:00'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 export const ans2: Answer = {
@@ -41,6 +43,8 @@ export const ans2: Answer = {
   ansBy: 'ansBy2',
   ansDateTime: new Date('2023-11-20T09:24:00'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 export const ans3: Answer = {
@@ -49,6 +53,8 @@ export const ans3: Answer = {
   ansBy: 'ansBy3',
   ansDateTime: new Date('2023-11-19T09:24:00'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 export const ans4: Answer = {
@@ -57,6 +63,8 @@ export const ans4: Answer = {
   ansBy: 'ansBy4',
   ansDateTime: new Date('2023-11-19T09:24:00'),
   comments: [],
+  upVotes: [],
+  downVotes: [],
 };
 
 export const QUESTIONS: Question[] = [
@@ -124,3 +132,21 @@ export const safeUser: SafeUser = {
   username: 'user1',
   dateJoined: new Date('2024-12-03'),
 };
+
+/**
+ * Resolves the current role of the users the controller tests authenticate as: `admin1` is an
+ * admin, `moderator1` a moderator, and everyone else a regular user.
+ *
+ * @param username The username of the authenticated user.
+ *
+ * @returns The role of the user.
+ */
+export const mockUserRole = async (username: string): Promise<UserRole> => {
+  if (username === 'admin1') {
+    return 'admin';
+  }
+  if (username === 'moderator1') {
+    return 'moderator';
+  }
+  return 'user';
+};
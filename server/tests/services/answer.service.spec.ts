@@ -1,7 +1,17 @@
 import QuestionModel from '../../models/questions.model';
-import { saveAnswer, addAnswerToQuestion } from '../../services/answer.service';
+import AnswerModel from '../../models/answers.model';
+import RevisionModel from '../../models/revisions.model';
+import {
+  saveAnswer,
+  addAnswerToQuestion,
+  addVoteToAnswer,
+  editAnswer,
+  setAnswerDeleted,
+} from '../../services/answer.service';
+import * as reputationUtil from '../../services/reputation.service';
+import { ANSWER_UPVOTE_REPUTATION } from '../../services/reputation.service';
 import { Answer, Question } from '../../types/types';
-import { QUESTIONS, ans1, ans4 } from '../mockData.models';
+import { QUESTIONS, ans1, ans4, safeUser } from '../mockData.models';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -17,6 +27,8 @@ describe('Answer model', () => {
         ansBy: 'dummyUserId',
         ansDateTime: new Date('2024-06-06'),
         comments: [],
+        upVotes: [],
+        downVotes: [],
       };
 
       const result = (await saveAnswer(mockAnswer)) as Answer;
@@ -82,4 +94,220 @@ describe('Answer model', () => {
       }
     });
   });
+
+  describe('addVoteToAnswer', () => {
+    beforeEach(() => {
+      mockingoose(QuestionModel).toReturn({ _id: 'someQuestionId' }, 'findOne');
+    });
+
+    test('addVoteToAnswer should upvote an answer', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { _id: 'someAnswerId', ansBy: 'author', upVotes: [], downVotes: [] },
+        'findOneAndUpdate',
+      );
+
+      const result = await addVoteToAnswer('someQuestionId', 'someAnswerId', 'testUser', 'upvote');
+
+      expect(result).toEqual({
+        msg: 'Answer upvoted successfully',
+        upVotes: ['testUser'],
+        downVotes: [],
+      });
+    });
+
+    test('If an upvoter downvotes, add them to downvotes and remove them from upvotes', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { _id: 'someAnswerId', ansBy: 'author', upVotes: ['testUser'], downVotes: [] },
+        'findOneAndUpdate',
+      );
+
+      const result = await addVoteToAnswer(
+        'someQuestionId',
+        'someAnswerId',
+        'testUser',
+        'downvote',
+      );
+
+      expect(result).toEqual({
+        msg: 'Answer downvoted successfully',
+        upVotes: [],
+        downVotes: ['testUser'],
+      });
+    });
+
+    test('should cancel the downvote if already downvoted', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { _id: 'someAnswerId', ansBy: 'author', upVotes: [], downVotes: ['testUser'] },
+        'findOneAndUpdate',
+      );
+
+      const result = await addVoteToAnswer(
+        'someQuestionId',
+        'someAnswerId',
+        'testUser',
+        'downvote',
+      );
+
+      expect(result).toEqual({
+        msg: 'Downvote cancelled successfully',
+        upVotes: [],
+        downVotes: [],
+      });
+    });
+
+    test('addVoteToAnswer should upvote an answer saved without votes', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { _id: 'someAnswerId', ansBy: 'author' },
+        'findOneAndUpdate',
+      );
+      const updateSpy = jest.spyOn(AnswerModel, 'findOneAndUpdate');
+
+      const result = await addVoteToAnswer('someQuestionId', 'someAnswerId', 'testUser', 'upvote');
+
+      expect(result).toEqual({
+        msg: 'Answer upvoted successfully',
+        upVotes: ['testUser'],
+        downVotes: [],
+      });
+      // Missing vote arrays must count as empty: every reference to them defaults to []
+      const pipeline = JSON.stringify(updateSpy.mock.calls[0][1])
+        .split(JSON.stringify({ $ifNull: ['$upVotes', []] }))
+        .join('')
+        .split(JSON.stringify({ $ifNull: ['$downVotes', []] }))
+        .join('');
+      expect(pipeline).not.toContain('"$upVotes"');
+      expect(pipeline).not.toContain('"$downVotes"');
+    });
+
+    test('addVoteToAnswer should return an error if the answer is not part of the question', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+      const questionSpy = jest.spyOn(QuestionModel, 'exists');
+      const updateSpy = jest.spyOn(AnswerModel, 'findOneAndUpdate');
+
+      const result = await addVoteToAnswer('someQuestionId', 'someAnswerId', 'testUser', 'upvote');
+
+      expect(result).toEqual({ error: 'Answer not found!' });
+      expect(questionSpy).toHaveBeenCalledWith({
+        _id: 'someQuestionId',
+        answers: 'someAnswerId',
+        deletedAt: null,
+      });
+      expect(updateSpy).not.toHaveBeenCalled();
+    });
+
+    test('addVoteToAnswer should only vote on visible answers', async () => {
+      const updateSpy = jest.spyOn(AnswerModel, 'findOneAndUpdate');
+      mockingoose(AnswerModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await addVoteToAnswer('someQuestionId', 'someAnswerId', 'testUser', 'upvote');
+
+      expect(result).toEqual({ error: 'Answer not found!' });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: 'someAnswerId', deletedAt: null },
+        expect.any(Array),
+        { new: false },
+      );
+    });
+
+    test('addVoteToAnswer should credit the reputation from the votes read in the update', async () => {
+      const changeReputationSpy = jest
+        .spyOn(reputationUtil, 'changeReputation')
+        .mockResolvedValue(safeUser);
+      mockingoose(AnswerModel).toReturn(
+        { _id: 'someAnswerId', ansBy: 'author', upVotes: ['testUser'], downVotes: [] },
+        'findOneAndUpdate',
+      );
+
+      await addVoteToAnswer('someQuestionId', 'someAnswerId', 'testUser', 'upvote');
+
+      expect(changeReputationSpy).toHaveBeenCalledTimes(1);
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'author',
+        -ANSWER_UPVOTE_REPUTATION,
+        'answerUpvote',
+        { qid: 'someQuestionId', aid: 'someAnswerId' },
+      );
+      changeReputationSpy.mockRestore();
+    });
+
+    test('addVoteToAnswer should return an error if the answer is not found', async () => {
+      mockingoose(AnswerModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await addVoteToAnswer('someQuestionId', 'nonExistentId', 'testUser', 'upvote');
+
+      expect(result).toEqual({ error: 'Answer not found!' });
+    });
+
+    test('addVoteToAnswer should return an error when there is an issue with adding an upvote', async () => {
+      mockingoose(AnswerModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await addVoteToAnswer('someQuestionId', 'someAnswerId', 'testUser', 'upvote');
+
+      expect(result).toEqual({ error: 'Error when adding upvote to answer' });
+    });
+  });
+
+  describe('editAnswer', () => {
+    test('editAnswer should store the previous version and return the edited answer', async () => {
+      const saveSpy = jest.spyOn(RevisionModel, 'create');
+      mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+      mockingoose(AnswerModel).toReturn({ ...ans1, text: 'Edited text' }, 'findOneAndUpdate');
+
+      const result = (await editAnswer(
+        ans1._id!.toString(),
+        'Edited text',
+        'editor',
+        'Clarified',
+      )) as Answer;
+
+      expect(result.text).toEqual('Edited text');
+      expect(saveSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          targetType: 'answer',
+          targetId: ans1._id,
+          text: ans1.text,
+          editedBy: 'editor',
+          summary: 'Clarified',
+        }),
+      );
+    });
+
+    test('editAnswer should return an error if the answer is not found', async () => {
+      mockingoose(AnswerModel).toReturn(null, 'findOne');
+
+      const result = await editAnswer(ans1._id!.toString(), 'Edited text', 'editor', '');
+
+      expect(result).toEqual({ error: 'Answer not found!' });
+    });
+
+    test('editAnswer should return an error if the update fails', async () => {
+      mockingoose(AnswerModel).toReturn(ans1, 'findOne');
+      mockingoose(AnswerModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await editAnswer(ans1._id!.toString(), 'Edited text', 'editor', '');
+
+      expect(result).toEqual({ error: 'Error when editing the answer' });
+    });
+  });
+
+  describe('setAnswerDeleted', () => {
+    test('setAnswerDeleted should mark the answer as deleted by the user', async () => {
+      mockingoose(AnswerModel).toReturn(
+        { ...ans1, deletedAt: new Date('2024-06-08'), deletedBy: 'user1' },
+        'findOneAndUpdate',
+      );
+
+      const result = (await setAnswerDeleted(ans1._id!.toString(), 'user1')) as Answer;
+
+      expect(result.deletedBy).toEqual('user1');
+    });
+
+    test('setAnswerDeleted should return an error if deleting fails', async () => {
+      mockingoose(AnswerModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await setAnswerDeleted(ans1._id!.toString(), 'user1');
+
+      expect(result).toEqual({ error: 'Error when deleting the answer' });
+    });
+  });
 });
@@ -0,0 +1,228 @@
+import mongoose from 'mongoose';
+import AnswerModel from '../../models/answers.model';
+import QuestionModel from '../../models/questions.model';
+import ReputationEventModel from '../../models/reputationEvents.model';
+import UserModel from '../../models/users.model';
+import * as reputationUtil from '../../services/reputation.service';
+import { awardBounty, offerBounty, resolveExpiredBounties } from '../../services/bounty.service';
+import { Bounty, BountyResolution, Question } from '../../types/types';
+import { safeUser } from '../mockData.models';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+const aid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd');
+
+const bounty: Bounty = {
+  amount: 100,
+  offeredBy: 'user1',
+  offeredAt: new Date('2025-01-01'),
+  expiresAt: new Date('2025-01-08'),
+};
+
+describe('Bounty service', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  describe('offerBounty', () => {
+    it('should set the bounty and charge the user who offered it', async () => {
+      const createSpy = jest.spyOn(ReputationEventModel, 'create').mockResolvedValueOnce([]);
+      mockingoose(QuestionModel).toReturn(
+        { _id: qid, bounty: null, acceptedAnswer: null },
+        'findOne',
+      );
+      mockingoose(UserModel).toReturn({ ...safeUser, reputation: 500 }, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty }, 'findOneAndUpdate');
+
+      const result = (await offerBounty(qid.toString(), 'user1', 100, 7)) as Question;
+
+      expect(result.bounty?.amount).toEqual(100);
+      expect(createSpy).toHaveBeenCalledWith({
+        username: 'user1',
+        change: -100,
+        reason: 'bountyOffered',
+        qid: qid.toString(),
+      });
+    });
+
+    it('should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await offerBounty(qid.toString(), 'user1', 100, 7);
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+
+    it('should return an error if the question already has a bounty', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty }, 'findOne');
+
+      const result = await offerBounty(qid.toString(), 'user2', 100, 7);
+
+      expect(result).toEqual({ error: 'Question already has a bounty' });
+    });
+
+    it('should return an error if the question has an accepted answer', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: qid, bounty: null, acceptedAnswer: aid },
+        'findOne',
+      );
+
+      const result = await offerBounty(qid.toString(), 'user1', 100, 7);
+
+      expect(result).toEqual({ error: 'Question already has an accepted answer' });
+    });
+
+    it('should return an error if the user does not have enough reputation', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: qid, bounty: null, acceptedAnswer: null },
+        'findOne',
+      );
+      mockingoose(UserModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await offerBounty(qid.toString(), 'user1', 100, 7);
+
+      expect(result).toEqual({ error: 'Not enough reputation' });
+    });
+
+    it('should give the payment back if another bounty was offered in the meantime', async () => {
+      const updateSpy = jest.spyOn(UserModel, 'updateOne');
+      mockingoose(QuestionModel).toReturn(
+        { _id: qid, bounty: null, acceptedAnswer: null },
+        'findOne',
+      );
+      mockingoose(UserModel).toReturn({ ...safeUser, reputation: 500 }, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(UserModel).toReturn({ acknowledged: true, modifiedCount: 1 }, 'updateOne');
+
+      const result = await offerBounty(qid.toString(), 'user1', 100, 7);
+
+      expect(result).toEqual({ error: 'Question already has a bounty' });
+      expect(updateSpy).toHaveBeenCalledWith({ username: 'user1' }, { $inc: { reputation: 100 } });
+      updateSpy.mockRestore();
+    });
+
+    it('should return an error if the database fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOne');
+
+      const result = await offerBounty(qid.toString(), 'user1', 100, 7);
+
+      expect(result).toEqual({ error: 'Error when offering the bounty' });
+    });
+  });
+
+  describe('awardBounty', () => {
+    it('should close the bounty and give its points to the author of the answer', async () => {
+      const changeReputationSpy = jest
+        .spyOn(reputationUtil, 'changeReputation')
+        .mockResolvedValueOnce(safeUser);
+      mockingoose(QuestionModel).toReturn(
+        { _id: qid, title: 'Question title', bounty, answers: [aid] },
+        'findOne',
+      );
+      mockingoose(AnswerModel).toReturn({ _id: aid, ansBy: 'user2' }, 'findOne');
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty: null }, 'findOneAndUpdate');
+
+      const result = (await awardBounty(qid.toString(), aid.toString())) as BountyResolution;
+
+      expect(result.awardedTo).toEqual('user2');
+      expect(result.title).toEqual('Question title');
+      expect(changeReputationSpy).toHaveBeenCalledWith('user2', 100, 'bountyAwarded', {
+        qid: qid.toString(),
+        aid: aid.toString(),
+      });
+    });
+
+    it('should return an error if the question has no bounty', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty: null, answers: [aid] }, 'findOne');
+
+      const result = await awardBounty(qid.toString(), aid.toString());
+
+      expect(result).toEqual({ error: 'Question has no bounty' });
+    });
+
+    it('should return an error if the answer does not belong to the question', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty, answers: [] }, 'findOne');
+
+      const result = await awardBounty(qid.toString(), aid.toString());
+
+      expect(result).toEqual({ error: 'Answer not found' });
+    });
+
+    it('should not award the bounty to an answer of the user who offered it', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty, answers: [aid] }, 'findOne');
+      mockingoose(AnswerModel).toReturn({ _id: aid, ansBy: 'user1' }, 'findOne');
+
+      const result = await awardBounty(qid.toString(), aid.toString());
+
+      expect(result).toEqual({
+        error: 'The bounty cannot be awarded to an answer of the user who offered it',
+      });
+    });
+
+    it('should not award a bounty that was closed in the meantime', async () => {
+      const changeReputationSpy = jest.spyOn(reputationUtil, 'changeReputation');
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty, answers: [aid] }, 'findOne');
+      mockingoose(AnswerModel).toReturn({ _id: aid, ansBy: 'user2' }, 'findOne');
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await awardBounty(qid.toString(), aid.toString());
+
+      expect(result).toEqual({ error: 'Question has no bounty' });
+      expect(changeReputationSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveExpiredBounties', () => {
+    it('should award an expired bounty to the accepted answer', async () => {
+      const changeReputationSpy = jest
+        .spyOn(reputationUtil, 'changeReputation')
+        .mockResolvedValueOnce(safeUser);
+      const expired = { _id: qid, title: 'Question title', bounty, answers: [aid] };
+      mockingoose(QuestionModel).toReturn([{ ...expired, acceptedAnswer: aid }], 'find');
+      mockingoose(AnswerModel).toReturn([{ _id: aid, upVotes: [], downVotes: [] }], 'find');
+      mockingoose(QuestionModel).toReturn(expired, 'findOne');
+      mockingoose(AnswerModel).toReturn({ _id: aid, ansBy: 'user2' }, 'findOne');
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty: null }, 'findOneAndUpdate');
+
+      const result = (await resolveExpiredBounties(new Date('2025-01-09'))) as BountyResolution[];
+
+      expect(result).toHaveLength(1);
+      expect(result[0].awardedTo).toEqual('user2');
+      expect(changeReputationSpy).toHaveBeenCalledWith('user2', 100, 'bountyAwarded', {
+        qid: qid.toString(),
+        aid: aid.toString(),
+      });
+    });
+
+    it('should refund an expired bounty if no answer has a positive score', async () => {
+      const changeReputationSpy = jest
+        .spyOn(reputationUtil, 'changeReputation')
+        .mockResolvedValueOnce(safeUser);
+      mockingoose(QuestionModel).toReturn(
+        [{ _id: qid, title: 'Question title', bounty, answers: [aid], acceptedAnswer: null }],
+        'find',
+      );
+      mockingoose(AnswerModel).toReturn([{ _id: aid, upVotes: [], downVotes: ['user3'] }], 'find');
+      mockingoose(QuestionModel).toReturn({ _id: qid, bounty: null }, 'findOneAndUpdate');
+
+      const result = (await resolveExpiredBounties(new Date('2025-01-09'))) as BountyResolution[];
+
+      expect(result).toEqual([
+        { qid: qid.toString(), title: 'Question title', bounty, awardedTo: null },
+      ]);
+      expect(changeReputationSpy).toHaveBeenCalledWith('user1', 100, 'bountyRefunded', {
+        qid: qid.toString(),
+      });
+    });
+
+    it('should return an error if the expired bounties cannot be fetched', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await resolveExpiredBounties();
+
+      expect(result).toEqual({ error: 'Error when resolving expired bounties' });
+    });
+  });
+});
@@ -11,6 +11,13 @@ import {
   getChat,
   addParticipantToChat,
   getChatsByParticipants,
+  removeParticipantFromChat,
+  renameChat,
+  transferChatOwnership,
+  setChatAdmin,
+  getChatMessages,
+  markChatRead,
+  countUnreadMessages,
 } from '../../services/chat.service';
 import { Chat, CreateChatPayload } from '../../types/chat';
 import { Message } from '../../types/message';
@@ -79,6 +86,18 @@ describe('Chat service', () => {
       expect(result.messages[0]?.toString()).toEqual(expect.any(String));
     });
 
+    it('should save a named chat as a group chat owned by its creator', async () => {
+      const createSpy = jest.spyOn(ChatModel, 'create');
+      mockingoose(MessageModel).toReturn({ _id: new mongoose.Types.ObjectId() }, 'create');
+      mockingoose(ChatModel).toReturn({ _id: new mongoose.Types.ObjectId() }, 'create');
+
+      await saveChat({ ...mockChatPayload, name: 'Study group' }, 'testUser');
+
+      expect(createSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Study group', owner: 'testUser', admins: ['testUser'] }),
+      );
+    });
+
     it('should return an error if any message creation fails', async () => {
       jest.spyOn(MessageModel, 'create').mockRejectedValueOnce(new Error('Error creating message'));
 
@@ -281,38 +300,44 @@ describe('Chat service', () => {
 
       mockingoose(ChatModel).toReturn(mockChat, 'findOneAndUpdate');
 
-      const result = await addParticipantToChat(mockChat._id!.toString(), 'newUserId');
+      const updateSpy = jest.spyOn(ChatModel, 'findOneAndUpdate');
+      const result = await addParticipantToChat(mockChat._id!.toString(), 'newUser');
       if ('error' in result) {
         throw new Error('Expected a chat, got an error');
       }
       expect(result._id).toEqual(mockChat._id);
+      expect(updateSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { $addToSet: { participants: 'newUser' } },
+        expect.anything(),
+      );
     });
 
     it('should return an error if the user does not exist', async () => {
       mockingoose(UserModel).toReturn(null, 'findOne');
       const chatId = new mongoose.Types.ObjectId();
-      const result = await addParticipantToChat(chatId.toString(), 'newUserId');
-      expect(result).toHaveProperty('error');
+      const result = await addParticipantToChat(chatId.toString(), 'newUser');
+      expect(result).toEqual({ error: 'No user found with username: newUser' });
     });
 
     it('should return an error if the chat does not exist', async () => {
       mockingoose(ChatModel).toReturn(null, 'findOneAndUpdate');
       const chatId = new mongoose.Types.ObjectId();
-      const result = await addParticipantToChat(chatId.toString(), 'newUserId');
+      const result = await addParticipantToChat(chatId.toString(), 'newUser');
       expect(result).toHaveProperty('error');
     });
 
     it('should return an error if the user lookup fails', async () => {
       mockingoose(UserModel).toReturn(new Error('Error finding user'), 'findOne');
       const chatId = new mongoose.Types.ObjectId();
-      const result = await addParticipantToChat(chatId.toString(), 'newUserId');
+      const result = await addParticipantToChat(chatId.toString(), 'newUser');
       expect(result).toHaveProperty('error');
     });
 
     it('should return an error if the chat update fails', async () => {
       mockingoose(ChatModel).toReturn(new Error('Error updating chat'), 'findOneAndUpdate');
       const chatId = new mongoose.Types.ObjectId();
-      const result = await addParticipantToChat(chatId.toString(), 'newUserId');
+      const result = await addParticipantToChat(chatId.toString(), 'newUser');
       expect(result).toHaveProperty('error');
     });
   });
@@ -399,4 +424,328 @@ describe('Chat service', () => {
       expect(result).toHaveLength(0);
     });
   });
+
+  // ----------------------------------------------------------------------------
+  // 7. Group chat membership
+  // ----------------------------------------------------------------------------
+  describe('removeParticipantFromChat', () => {
+    it('should remove the participant and their admin role', async () => {
+      const updateSpy = jest.spyOn(ChatModel, 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      mockingoose(ChatModel).toReturn(
+        { _id: chatId, participants: ['owner'], admins: ['owner'] },
+        'findOneAndUpdate',
+      );
+
+      const result = (await removeParticipantFromChat(chatId.toString(), 'member')) as Chat;
+
+      expect(result.participants).toEqual(['owner']);
+      expect(updateSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { $pull: { participants: 'member', admins: 'member' } },
+        expect.anything(),
+      );
+    });
+
+    it('should return an error if the chat does not exist', async () => {
+      mockingoose(ChatModel).toReturn(null, 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      const result = await removeParticipantFromChat(chatId.toString(), 'member');
+      expect(result).toEqual({ error: `No chat found with ID: ${chatId}` });
+    });
+
+    it('should return an error if the chat update fails', async () => {
+      mockingoose(ChatModel).toReturn(new Error('Error updating chat'), 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      const result = await removeParticipantFromChat(chatId.toString(), 'member');
+      expect(result).toHaveProperty('error');
+    });
+  });
+
+  describe('renameChat', () => {
+    it('should return the renamed chat', async () => {
+      const chatId = new mongoose.Types.ObjectId();
+      mockingoose(ChatModel).toReturn({ _id: chatId, name: 'Exam prep' }, 'findOneAndUpdate');
+
+      const result = (await renameChat(chatId.toString(), 'Exam prep')) as Chat;
+
+      expect(result.name).toEqual('Exam prep');
+    });
+
+    it('should return an error if the chat does not exist', async () => {
+      mockingoose(ChatModel).toReturn(null, 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      const result = await renameChat(chatId.toString(), 'Exam prep');
+      expect(result).toEqual({ error: `No chat found with ID: ${chatId}` });
+    });
+  });
+
+  describe('transferChatOwnership', () => {
+    it('should make the participant the owner and an admin', async () => {
+      const updateSpy = jest.spyOn(ChatModel, 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      mockingoose(ChatModel).toReturn(
+        { _id: chatId, owner: 'member', admins: ['owner', 'member'] },
+        'findOneAndUpdate',
+      );
+
+      const result = (await transferChatOwnership(chatId.toString(), 'member')) as Chat;
+
+      expect(result.owner).toEqual('member');
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: chatId.toString(), participants: 'member' },
+        { $set: { owner: 'member' }, $addToSet: { admins: 'member' } },
+        expect.anything(),
+      );
+    });
+
+    it('should return an error if the user is not a participant', async () => {
+      mockingoose(ChatModel).toReturn(null, 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      const result = await transferChatOwnership(chatId.toString(), 'stranger');
+      expect(result).toEqual({
+        error: `No chat found with ID ${chatId} and participant stranger`,
+      });
+    });
+  });
+
+  describe('setChatAdmin', () => {
+    it('should add the participant to the admins', async () => {
+      const updateSpy = jest.spyOn(ChatModel, 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      mockingoose(ChatModel).toReturn(
+        { _id: chatId, admins: ['owner', 'member'] },
+        'findOneAndUpdate',
+      );
+
+      await setChatAdmin(chatId.toString(), 'member', true);
+
+      expect(updateSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { $addToSet: { admins: 'member' } },
+        expect.anything(),
+      );
+    });
+
+    it('should remove the participant from the admins', async () => {
+      const updateSpy = jest.spyOn(ChatModel, 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      mockingoose(ChatModel).toReturn({ _id: chatId, admins: ['owner'] }, 'findOneAndUpdate');
+
+      const result = (await setChatAdmin(chatId.toString(), 'member', false)) as Chat;
+
+      expect(result.admins).toEqual(['owner']);
+      expect(updateSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { $pull: { admins: 'member' } },
+        expect.anything(),
+      );
+    });
+
+    it('should return an error if the chat update fails', async () => {
+      mockingoose(ChatModel).toReturn(new Error('Error updating chat'), 'findOneAndUpdate');
+      const chatId = new mongoose.Types.ObjectId();
+      const result = await setChatAdmin(chatId.toString(), 'member', true);
+      expect(result).toHaveProperty('error');
+    });
+  });
+
+  // ----------------------------------------------------------------------------
+  // 8. getChatMessages
+  // ----------------------------------------------------------------------------
+  describe('getChatMessages', () => {
+    const messageIds = Array.from({ length: 35 }, () => new mongoose.Types.ObjectId());
+    const chatWithMessages = {
+      _id: new mongoose.Types.ObjectId(),
+      participants: ['user1', 'user2'],
+      messages: messageIds,
+    };
+    const sender = { _id: new mongoose.Types.ObjectId(), username: 'user1' };
+
+    beforeEach(() => {
+      mockingoose(ChatModel).toReturn(chatWithMessages, 'findOne');
+      // Returns the requested messages in reverse, to check that the chat order is kept
+      mockingoose(MessageModel).toReturn(
+        (query: mongoose.Query<unknown, unknown>) =>
+          [...query.getFilter()._id.$in].reverse().map((messageId: mongoose.Types.ObjectId) => ({
+            _id: messageId,
+            msg: `Message ${messageIds.findIndex(id => id.equals(messageId))}`,
+            msgFrom: 'user1',
+            msgDateTime: new Date('2025-01-01T00:00:00Z'),
+            type: 'direct',
+          })),
+        'find',
+      );
+      mockingoose(UserModel).toReturn([sender], 'find');
+    });
+
+    it('should return the latest page of messages, in order, with their senders', async () => {
+      const findUsersSpy = jest.spyOn(UserModel, 'find');
+
+      const result = await getChatMessages(chatWithMessages._id.toString());
+      if ('error' in result) {
+        throw new Error(`Expected a page of messages, got error: ${result.error}`);
+      }
+
+      expect(result.hasMore).toBe(true);
+      expect(result.messages).toHaveLength(30);
+      expect(result.messages[0].msg).toBe('Message 5');
+      expect(result.messages[29].msg).toBe('Message 34');
+      expect(result.messages[0].user?.username).toBe('user1');
+      expect(findUsersSpy).toHaveBeenCalledTimes(1);
+      expect(findUsersSpy).toHaveBeenCalledWith({ username: { $in: ['user1'] } });
+    });
+
+    it('should return the messages sent before the given message', async () => {
+      const result = await getChatMessages(
+        chatWithMessages._id.toString(),
+        messageIds[4].toString(),
+      );
+      if ('error' in result) {
+        throw new Error(`Expected a page of messages, got error: ${result.error}`);
+      }
+
+      expect(result.hasMore).toBe(false);
+      expect(result.messages.map(message => message.msg)).toEqual([
+        'Message 0',
+        'Message 1',
+        'Message 2',
+        'Message 3',
+      ]);
+    });
+
+    it('should set the sender to null if the user does not exist', async () => {
+      mockingoose(UserModel).toReturn([], 'find');
+
+      const result = await getChatMessages(
+        chatWithMessages._id.toString(),
+        messageIds[1].toString(),
+      );
+      if ('error' in result) {
+        throw new Error(`Expected a page of messages, got error: ${result.error}`);
+      }
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].user).toBeNull();
+    });
+
+    it('should return an error if the message is not in the chat', async () => {
+      const result = await getChatMessages(
+        chatWithMessages._id.toString(),
+        new mongoose.Types.ObjectId().toString(),
+      );
+      expect(result).toHaveProperty('error');
+    });
+
+    it('should return an error if the chat does not exist', async () => {
+      mockingoose(ChatModel).toReturn(null, 'findOne');
+      const result = await getChatMessages(chatWithMessages._id.toString());
+      expect(result).toHaveProperty('error');
+    });
+
+    it('should return an error if the message lookup fails', async () => {
+      mockingoose(MessageModel).toReturn(new Error('Error finding messages'), 'find');
+      const result = await getChatMessages(chatWithMessages._id.toString());
+      expect(result).toHaveProperty('error');
+    });
+  });
+
+  // ----------------------------------------------------------------------------
+  // 9. Read receipts
+  // ----------------------------------------------------------------------------
+  describe('markChatRead', () => {
+    const chatId = new mongoose.Types.ObjectId().toString();
+
+    it('should replace the read receipt of the participant with the latest message', async () => {
+      mockingoose(ChatModel).toReturn((query: mongoose.Query<unknown, unknown>) => {
+        const [stage] = query.getUpdate() as unknown as [
+          { $set: { lastRead: { $concatArrays: [unknown, [{ username: string }]] } } },
+        ];
+        const [, [receipt]] = stage.$set.lastRead.$concatArrays;
+        return {
+          _id: chatId,
+          participants: ['user1', 'user2'],
+          messages: [],
+          lastRead: [{ username: receipt.username, messageId: new mongoose.Types.ObjectId() }],
+        };
+      }, 'findOneAndUpdate');
+
+      const result = await markChatRead(chatId, 'user1');
+      if ('error' in result) {
+        throw new Error(`Expected a chat, got error: ${result.error}`);
+      }
+
+      expect(result.lastRead).toHaveLength(1);
+      expect(result.lastRead?.[0].username).toBe('user1');
+    });
+
+    it('should return an error if the user is not a participant of the chat', async () => {
+      mockingoose(ChatModel).toReturn(null, 'findOneAndUpdate');
+      const result = await markChatRead(chatId, 'outsider');
+      expect(result).toHaveProperty('error');
+    });
+
+    it('should return an error if the update fails', async () => {
+      mockingoose(ChatModel).toReturn(new Error('Update failed'), 'findOneAndUpdate');
+      const result = await markChatRead(chatId, 'user1');
+      expect(result).toHaveProperty('error');
+    });
+  });
+
+  describe('countUnreadMessages', () => {
+    const messageIds = Array.from({ length: 4 }, () => new mongoose.Types.ObjectId());
+    const chatWithMessages = {
+      _id: new mongoose.Types.ObjectId(),
+      participants: ['user1', 'user2'],
+      messages: messageIds,
+    } as unknown as Chat;
+
+    it('should count the messages from others after the last read message', async () => {
+      const countSpy = jest.spyOn(MessageModel, 'countDocuments');
+      mockingoose(MessageModel).toReturn(1, 'countDocuments');
+
+      const result = await countUnreadMessages(
+        { ...chatWithMessages, lastRead: [{ username: 'user1', messageId: messageIds[1] }] },
+        'user1',
+      );
+
+      expect(result).toBe(1);
+      expect(countSpy).toHaveBeenCalledWith({
+        _id: { $in: messageIds.slice(2) },
+        msgFrom: { $ne: 'user1' },
+        deletedAt: null,
+      });
+    });
+
+    it('should count every message from others if the user never read the chat', async () => {
+      const countSpy = jest.spyOn(MessageModel, 'countDocuments');
+      mockingoose(MessageModel).toReturn(3, 'countDocuments');
+
+      const result = await countUnreadMessages(
+        { ...chatWithMessages, lastRead: [{ username: 'user2', messageId: messageIds[3] }] },
+        'user1',
+      );
+
+      expect(result).toBe(3);
+      expect(countSpy).toHaveBeenCalledWith(expect.objectContaining({ _id: { $in: messageIds } }));
+    });
+
+    it('should return 0 without a query if the user read the latest message', async () => {
+      const countSpy = jest.spyOn(MessageModel, 'countDocuments');
+
+      const result = await countUnreadMessages(
+        { ...chatWithMessages, lastRead: [{ username: 'user1', messageId: messageIds[3] }] },
+        'user1',
+      );
+
+      expect(result).toBe(0);
+      expect(countSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return an error if counting the messages fails', async () => {
+      mockingoose(MessageModel).toReturn(new Error('Count failed'), 'countDocuments');
+      const result = await countUnreadMessages(chatWithMessages, 'user1');
+      expect(result).toHaveProperty('error');
+    });
+  });
 });
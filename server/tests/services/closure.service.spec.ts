@@ -0,0 +1,478 @@
+import mongoose from 'mongoose';
+import QuestionModel from '../../models/questions.model';
+import {
+  CLOSE_VOTES_NEEDED,
+  getQuestionStatus,
+  REOPEN_VOTES_NEEDED,
+  retractCloseVote,
+  retractReopenVote,
+  setQuestionLocked,
+  voteToClose,
+  voteToReopen,
+} from '../../services/closure.service';
+import { CloseVote, Question } from '../../types/types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+const originalId = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd');
+const rootId = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6de');
+const aid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6df');
+
+const openQuestion = { _id: qid, title: 'Promises?', status: 'open', closeVotes: [] };
+const closedQuestion = {
+  _id: qid,
+  title: 'Promises?',
+  status: 'closed',
+  closeReason: 'unclear',
+  reopenVotes: [],
+};
+
+/**
+ * Mocks `findOneAndUpdate` to return one document for the update recording a vote, and another
+ * for the update that changes the status of the question.
+ */
+const mockVoteAndStatusUpdate = (voted: object, updated: object) => {
+  mockingoose(QuestionModel).toReturn((query: mongoose.Query<unknown, unknown>) => {
+    const update = query.getUpdate() as { $set?: unknown };
+    return update.$set ? updated : voted;
+  }, 'findOneAndUpdate');
+};
+
+/**
+ * Mocks `findOne` to return the original question when it is looked up, and the question
+ * being voted on otherwise.
+ */
+const mockOriginalAndQuestion = (original: object, question: object) => {
+  mockingoose(QuestionModel).toReturn((query: mongoose.Query<unknown, unknown>) => {
+    const filter = query.getFilter();
+    return filter._id?.toString() === originalId.toString() ? original : question;
+  }, 'findOne');
+};
+
+describe('Closure service', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  describe('getQuestionStatus', () => {
+    it('should return the status of a question', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: qid, status: 'locked' }, 'findOne');
+
+      const result = await getQuestionStatus(qid.toString(), 'question');
+
+      expect(result).toEqual('locked');
+    });
+
+    it('should return the status of the question an answer belongs to', async () => {
+      const findOneSpy = jest.spyOn(QuestionModel, 'findOne');
+      mockingoose(QuestionModel).toReturn({ _id: qid, status: 'closed' }, 'findOne');
+
+      const result = await getQuestionStatus(aid.toString(), 'answer');
+
+      expect(result).toEqual('closed');
+      expect(findOneSpy).toHaveBeenCalledWith({ answers: aid.toString(), deletedAt: null });
+    });
+
+    it('should treat a question without a status as open', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: qid }, 'findOne');
+
+      const result = await getQuestionStatus(qid.toString(), 'question');
+
+      expect(result).toEqual('open');
+    });
+
+    it('should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      expect(await getQuestionStatus(qid.toString(), 'question')).toEqual({
+        error: 'Question not found',
+      });
+      expect(await getQuestionStatus(aid.toString(), 'answer')).toEqual({
+        error: 'Answer not found',
+      });
+    });
+
+    it('should return an error if the lookup fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOne');
+
+      const result = await getQuestionStatus(qid.toString(), 'question');
+
+      expect(result).toEqual({ error: 'Error when finding the question status' });
+    });
+  });
+
+  describe('voteToClose', () => {
+    it('should record the vote without closing the question', async () => {
+      const vote = { voter: 'user1', reason: 'unclear', duplicateOf: null };
+      mockVoteAndStatusUpdate({ ...openQuestion, closeVotes: [vote] }, closedQuestion);
+
+      const result = (await voteToClose(
+        qid.toString(),
+        'user1',
+        'unclear',
+        undefined,
+        false,
+      )) as Question;
+
+      expect(result.status).toEqual('open');
+      expect(result.closeVotes).toHaveLength(1);
+    });
+
+    it('should close the question once enough votes agree on the reason', async () => {
+      const votes = Array.from({ length: CLOSE_VOTES_NEEDED }, (_, i) => ({
+        voter: `user${i}`,
+        reason: 'unclear',
+      }));
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+      mockVoteAndStatusUpdate({ ...openQuestion, closeVotes: votes }, closedQuestion);
+
+      const result = (await voteToClose(
+        qid.toString(),
+        'user0',
+        'unclear',
+        undefined,
+        false,
+      )) as Question;
+
+      expect(result.status).toEqual('closed');
+      expect(result.closeReason).toEqual('unclear');
+      expect(updateSpy).toHaveBeenLastCalledWith(
+        expect.anything(),
+        {
+          $set: expect.objectContaining({
+            status: 'closed',
+            closeReason: 'unclear',
+            duplicateOf: null,
+          }),
+        },
+        { new: true },
+      );
+    });
+
+    it('should not close the question while the votes disagree on the reason', async () => {
+      const votes: CloseVote[] = [
+        { voter: 'user1', reason: 'unclear' },
+        { voter: 'user2', reason: 'offTopic' },
+        { voter: 'user3', reason: 'unclear' },
+      ];
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+      mockVoteAndStatusUpdate({ ...openQuestion, closeVotes: votes }, closedQuestion);
+
+      const result = (await voteToClose(
+        qid.toString(),
+        'user3',
+        'unclear',
+        undefined,
+        false,
+      )) as Question;
+
+      expect(result.status).toEqual('open');
+      expect(updateSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close the question as a duplicate once enough votes agree on the original', async () => {
+      const votes = Array.from({ length: CLOSE_VOTES_NEEDED }, (_, i) => ({
+        voter: `user${i}`,
+        reason: 'duplicate',
+        duplicateOf: originalId,
+      }));
+      mockOriginalAndQuestion({ _id: originalId, duplicateOf: null }, openQuestion);
+      mockVoteAndStatusUpdate(
+        { ...openQuestion, closeVotes: votes },
+        { ...closedQuestion, closeReason: 'duplicate', duplicateOf: originalId },
+      );
+
+      const result = (await voteToClose(
+        qid.toString(),
+        'user0',
+        'duplicate',
+        originalId.toString(),
+        false,
+      )) as Question;
+
+      expect(result.duplicateOf?.toString()).toEqual(originalId.toString());
+    });
+
+    it('should close the question at once for a binding vote', async () => {
+      mockVoteAndStatusUpdate(
+        { ...openQuestion, closeVotes: [{ voter: 'moderator1', reason: 'offTopic' }] },
+        { ...closedQuestion, closeReason: 'offTopic' },
+      );
+
+      const result = (await voteToClose(
+        qid.toString(),
+        'moderator1',
+        'offTopic',
+        undefined,
+        true,
+      )) as Question;
+
+      expect(result.status).toEqual('closed');
+      expect(result.closeReason).toEqual('offTopic');
+    });
+
+    it('should vote for the original of a question that is itself a duplicate', async () => {
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+      mockOriginalAndQuestion({ _id: originalId, duplicateOf: rootId }, openQuestion);
+      mockingoose(QuestionModel).toReturn(openQuestion, 'findOneAndUpdate');
+
+      await voteToClose(qid.toString(), 'user1', 'duplicate', originalId.toString(), false);
+
+      expect(updateSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { $push: { closeVotes: { voter: 'user1', reason: 'duplicate', duplicateOf: rootId } } },
+        { new: true },
+      );
+    });
+
+    it('should return an error if the question would be a duplicate of itself', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: qid, duplicateOf: null }, 'findOne');
+
+      const result = await voteToClose(qid.toString(), 'user1', 'duplicate', qid.toString(), false);
+
+      expect(result).toEqual({ error: 'A question cannot be a duplicate of itself' });
+    });
+
+    it('should return an error if the original question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await voteToClose(
+        qid.toString(),
+        'user1',
+        'duplicate',
+        originalId.toString(),
+        false,
+      );
+
+      expect(result).toEqual({ error: 'Original question not found' });
+    });
+
+    it('should return an error if the user already voted', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(openQuestion, 'findOne');
+
+      const result = await voteToClose(qid.toString(), 'user1', 'unclear', undefined, false);
+
+      expect(result).toEqual({ error: 'You already voted to close this question' });
+    });
+
+    it('should return an error if the question is not open', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(closedQuestion, 'findOne');
+
+      const result = await voteToClose(qid.toString(), 'user1', 'unclear', undefined, false);
+
+      expect(result).toEqual({ error: 'Question is closed' });
+    });
+
+    it('should return an error if the vote cannot be saved', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await voteToClose(qid.toString(), 'user1', 'unclear', undefined, false);
+
+      expect(result).toEqual({ error: 'Error when voting to close the question' });
+    });
+  });
+
+  describe('retractCloseVote', () => {
+    it('should return the question without the vote', async () => {
+      mockingoose(QuestionModel).toReturn(openQuestion, 'findOneAndUpdate');
+
+      const result = (await retractCloseVote(qid.toString(), 'user1')) as Question;
+
+      expect(result.closeVotes).toEqual([]);
+    });
+
+    it('should return an error if the user has not voted', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(openQuestion, 'findOne');
+
+      const result = await retractCloseVote(qid.toString(), 'user1');
+
+      expect(result).toEqual({ error: 'You have not voted to close this question' });
+    });
+
+    it('should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await retractCloseVote(qid.toString(), 'user1');
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+
+    it('should return an error if the update fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await retractCloseVote(qid.toString(), 'user1');
+
+      expect(result).toEqual({ error: 'Error when retracting the vote' });
+    });
+  });
+
+  describe('voteToReopen', () => {
+    it('should record the vote without reopening the question', async () => {
+      mockVoteAndStatusUpdate({ ...closedQuestion, reopenVotes: ['user1'] }, openQuestion);
+
+      const result = (await voteToReopen(qid.toString(), 'user1', false)) as Question;
+
+      expect(result.status).toEqual('closed');
+      expect(result.reopenVotes).toEqual(['user1']);
+    });
+
+    it('should reopen the question once enough users voted', async () => {
+      const votes = Array.from({ length: REOPEN_VOTES_NEEDED }, (_, i) => `user${i}`);
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+      mockVoteAndStatusUpdate({ ...closedQuestion, reopenVotes: votes }, openQuestion);
+
+      const result = (await voteToReopen(qid.toString(), 'user0', false)) as Question;
+
+      expect(result.status).toEqual('open');
+      expect(updateSpy).toHaveBeenLastCalledWith(
+        expect.anything(),
+        {
+          $set: {
+            status: 'open',
+            closeReason: null,
+            closedAt: null,
+            duplicateOf: null,
+            closeVotes: [],
+            reopenVotes: [],
+          },
+        },
+        { new: true },
+      );
+    });
+
+    it('should reopen the question at once for a binding vote', async () => {
+      mockVoteAndStatusUpdate({ ...closedQuestion, reopenVotes: ['moderator1'] }, openQuestion);
+
+      const result = (await voteToReopen(qid.toString(), 'moderator1', true)) as Question;
+
+      expect(result.status).toEqual('open');
+    });
+
+    it('should return an error if the user already voted', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(closedQuestion, 'findOne');
+
+      const result = await voteToReopen(qid.toString(), 'user1', false);
+
+      expect(result).toEqual({ error: 'You already voted to reopen this question' });
+    });
+
+    it('should return an error if the question is not closed', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn({ ...openQuestion, status: 'locked' }, 'findOne');
+
+      const result = await voteToReopen(qid.toString(), 'user1', false);
+
+      expect(result).toEqual({ error: 'Question is locked' });
+    });
+
+    it('should return an error if the vote cannot be saved', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await voteToReopen(qid.toString(), 'user1', false);
+
+      expect(result).toEqual({ error: 'Error when voting to reopen the question' });
+    });
+  });
+
+  describe('retractReopenVote', () => {
+    it('should return the question without the vote', async () => {
+      mockingoose(QuestionModel).toReturn(closedQuestion, 'findOneAndUpdate');
+
+      const result = (await retractReopenVote(qid.toString(), 'user1')) as Question;
+
+      expect(result.reopenVotes).toEqual([]);
+    });
+
+    it('should return an error if the user has not voted', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(closedQuestion, 'findOne');
+
+      const result = await retractReopenVote(qid.toString(), 'user1');
+
+      expect(result).toEqual({ error: 'You have not voted to reopen this question' });
+    });
+  });
+
+  describe('setQuestionLocked', () => {
+    it('should lock an open question', async () => {
+      mockingoose(QuestionModel).toReturn(openQuestion, 'findOne');
+      mockingoose(QuestionModel).toReturn(
+        { ...openQuestion, status: 'locked' },
+        'findOneAndUpdate',
+      );
+
+      const result = (await setQuestionLocked(qid.toString(), true)) as Question;
+
+      expect(result.status).toEqual('locked');
+    });
+
+    it('should unlock a question that was closed back to closed', async () => {
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn({ ...closedQuestion, status: 'locked' }, 'findOne');
+      mockingoose(QuestionModel).toReturn(closedQuestion, 'findOneAndUpdate');
+
+      const result = (await setQuestionLocked(qid.toString(), false)) as Question;
+
+      expect(result.status).toEqual('closed');
+      expect(updateSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { $set: { status: 'closed' } },
+        { new: true },
+      );
+    });
+
+    it('should unlock a question that was open back to open', async () => {
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn({ ...openQuestion, status: 'locked' }, 'findOne');
+      mockingoose(QuestionModel).toReturn(openQuestion, 'findOneAndUpdate');
+
+      await setQuestionLocked(qid.toString(), false);
+
+      expect(updateSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        { $set: { status: 'open' } },
+        { new: true },
+      );
+    });
+
+    it('should return an error if the question is already locked', async () => {
+      mockingoose(QuestionModel).toReturn({ ...openQuestion, status: 'locked' }, 'findOne');
+
+      const result = await setQuestionLocked(qid.toString(), true);
+
+      expect(result).toEqual({ error: 'Question is already locked' });
+    });
+
+    it('should return an error if the question is not locked', async () => {
+      mockingoose(QuestionModel).toReturn(openQuestion, 'findOne');
+
+      const result = await setQuestionLocked(qid.toString(), false);
+
+      expect(result).toEqual({ error: 'Question is not locked' });
+    });
+
+    it('should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await setQuestionLocked(qid.toString(), true);
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+
+    it('should return an error if the status changed in the meantime', async () => {
+      mockingoose(QuestionModel).toReturn(openQuestion, 'findOne');
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await setQuestionLocked(qid.toString(), true);
+
+      expect(result).toEqual({ error: 'Error when locking the question' });
+    });
+  });
+});
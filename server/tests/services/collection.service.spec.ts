@@ -0,0 +1,178 @@
+import mongoose from 'mongoose';
+import CollectionModel from '../../models/collections.model';
+import QuestionModel from '../../models/questions.model';
+import {
+  deleteCollection,
+  getCollectionById,
+  getCollectionsByOwner,
+  saveCollection,
+  setCollectionQuestion,
+  updateCollection,
+} from '../../services/collection.service';
+import { Collection } from '../../types/types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const cid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6f0');
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+
+const collection: Collection = {
+  _id: cid,
+  name: 'Promises',
+  description: 'Questions about promises',
+  owner: 'user1',
+  questions: [],
+  shared: false,
+};
+
+describe('Collection service', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  describe('saveCollection', () => {
+    it('should return the saved collection', async () => {
+      mockingoose(CollectionModel).toReturn(collection, 'create');
+
+      const result = (await saveCollection(collection)) as Collection;
+
+      expect(result.name).toEqual('Promises');
+      expect(result.owner).toEqual('user1');
+      expect(result.shared).toBe(false);
+    });
+
+    it('should return an error if the collection cannot be saved', async () => {
+      jest.spyOn(CollectionModel, 'create').mockRejectedValueOnce(new Error('Database error'));
+
+      const result = await saveCollection(collection);
+
+      expect(result).toEqual({ error: 'Error when saving a collection' });
+    });
+  });
+
+  describe('getCollectionById', () => {
+    it('should return the collection', async () => {
+      mockingoose(CollectionModel).toReturn(collection, 'findOne');
+
+      const result = (await getCollectionById(cid.toString())) as Collection;
+
+      expect(result.name).toEqual('Promises');
+    });
+
+    it('should return an error if the collection is not found', async () => {
+      mockingoose(CollectionModel).toReturn(null, 'findOne');
+
+      const result = await getCollectionById(cid.toString());
+
+      expect(result).toEqual({ error: 'Collection not found' });
+    });
+
+    it('should return an error if the lookup fails', async () => {
+      mockingoose(CollectionModel).toReturn(new Error('Database error'), 'findOne');
+
+      const result = await getCollectionById(cid.toString());
+
+      expect(result).toEqual({ error: 'Error when fetching the collection' });
+    });
+  });
+
+  describe('getCollectionsByOwner', () => {
+    it('should return the collections of the user', async () => {
+      mockingoose(CollectionModel).toReturn([collection], 'find');
+
+      const result = (await getCollectionsByOwner('user1', false)) as Collection[];
+
+      expect(result).toHaveLength(1);
+      expect(result[0].owner).toEqual('user1');
+    });
+
+    it('should only look for shared collections when asked to', async () => {
+      const findSpy = jest.spyOn(CollectionModel, 'find');
+      mockingoose(CollectionModel).toReturn([], 'find');
+
+      await getCollectionsByOwner('user1', true);
+
+      expect(findSpy).toHaveBeenCalledWith({ owner: 'user1', shared: true });
+      findSpy.mockRestore();
+    });
+
+    it('should return an error if the collections cannot be fetched', async () => {
+      mockingoose(CollectionModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getCollectionsByOwner('user1', false);
+
+      expect(result).toEqual({ error: 'Error when fetching collections' });
+    });
+  });
+
+  describe('updateCollection', () => {
+    it('should return the updated collection', async () => {
+      mockingoose(CollectionModel).toReturn({ ...collection, shared: true }, 'findOneAndUpdate');
+
+      const result = (await updateCollection(cid.toString(), { shared: true })) as Collection;
+
+      expect(result.shared).toBe(true);
+    });
+
+    it('should return an error if the collection is not found', async () => {
+      mockingoose(CollectionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await updateCollection(cid.toString(), { name: 'Async' });
+
+      expect(result).toEqual({ error: 'Collection not found' });
+    });
+  });
+
+  describe('setCollectionQuestion', () => {
+    it('should add the question to the collection', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: qid }, 'findOne');
+      mockingoose(CollectionModel).toReturn(
+        { ...collection, questions: [qid] },
+        'findOneAndUpdate',
+      );
+
+      const result = (await setCollectionQuestion(
+        cid.toString(),
+        qid.toString(),
+        true,
+      )) as Collection;
+
+      expect(result.questions).toEqual([qid]);
+    });
+
+    it('should return an error if the question to add does not exist', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await setCollectionQuestion(cid.toString(), qid.toString(), true);
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+
+    it('should return an error if removing the question fails', async () => {
+      mockingoose(CollectionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await setCollectionQuestion(cid.toString(), qid.toString(), false);
+
+      expect(result).toEqual({ error: 'Error when removing the question from the collection' });
+    });
+  });
+
+  describe('deleteCollection', () => {
+    it('should return the deleted collection', async () => {
+      mockingoose(CollectionModel).toReturn(collection, 'findOneAndDelete');
+
+      const result = (await deleteCollection(cid.toString())) as Collection;
+
+      expect(result.name).toEqual('Promises');
+    });
+
+    it('should return an error if the collection is not found', async () => {
+      mockingoose(CollectionModel).toReturn(null, 'findOneAndDelete');
+
+      const result = await deleteCollection(cid.toString());
+
+      expect(result).toEqual({ error: 'Collection not found' });
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import QuestionModel from '../../models/questions.model';
-import { saveComment, addComment } from '../../services/comment.service';
+import CommentModel from '../../models/comments.model';
+import {
+  saveComment,
+  addComment,
+  getCommentById,
+  setCommentDeleted,
+} from '../../services/comment.service';
 import { Answer, Question, Comment } from '../../types/types';
 import AnswerModel from '../../models/answers.model';
 import { QUESTIONS, ans1, com1 } from '../mockData.models';
@@ -83,4 +89,43 @@ describe('Comment model', () => {
       }
     });
   });
+
+  describe('getCommentById', () => {
+    test('getCommentById should return the comment', async () => {
+      mockingoose(CommentModel).toReturn(com1, 'findOne');
+
+      const result = (await getCommentById(com1._id!.toString())) as Comment;
+
+      expect(result.text).toEqual(com1.text);
+    });
+
+    test('getCommentById should return an error if the comment is not found', async () => {
+      mockingoose(CommentModel).toReturn(null, 'findOne');
+
+      const result = await getCommentById(com1._id!.toString());
+
+      expect(result).toEqual({ error: 'Comment not found!' });
+    });
+  });
+
+  describe('setCommentDeleted', () => {
+    test('setCommentDeleted should restore the comment', async () => {
+      mockingoose(CommentModel).toReturn(
+        { ...com1, deletedAt: null, deletedBy: null },
+        'findOneAndUpdate',
+      );
+
+      const result = (await setCommentDeleted(com1._id!.toString(), null)) as Comment;
+
+      expect(result.deletedAt).toBeNull();
+    });
+
+    test('setCommentDeleted should return an error if the comment is not found', async () => {
+      mockingoose(CommentModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await setCommentDeleted(com1._id!.toString(), 'user1');
+
+      expect(result).toEqual({ error: 'Comment not found!' });
+    });
+  });
 });
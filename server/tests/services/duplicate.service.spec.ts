@@ -0,0 +1,86 @@
+import mongoose from 'mongoose';
+import QuestionModel from '../../models/questions.model';
+import TagModel from '../../models/tags.model';
+import { getSimilarQuestions } from '../../services/duplicate.service';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+const originalId = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd');
+
+const similar = {
+  _id: originalId,
+  title: 'How do I use promises?',
+  answerCount: 2,
+  accepted: true,
+  similarity: 3.5,
+};
+
+describe('Duplicate service', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  describe('getSimilarQuestions', () => {
+    it('should return the similar questions', async () => {
+      mockingoose(TagModel).toReturn([{ _id: new mongoose.Types.ObjectId(), name: 'js' }], 'find');
+      mockingoose(QuestionModel).toReturn([similar], 'aggregate');
+
+      const result = await getSimilarQuestions('Using promises', '', ['js']);
+
+      expect(result).toEqual([similar]);
+    });
+
+    it('should search for the words of the title and text only', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate').mockResolvedValueOnce([]);
+
+      await getSimilarQuestions('"promises" -async', 'in node?', [], qid.toString());
+
+      const [match] = aggregateSpy.mock.calls[0][0];
+      expect(match).toEqual({
+        $match: {
+          $text: { $search: 'promises async in node' },
+          deletedAt: null,
+          duplicateOf: null,
+          _id: { $ne: qid },
+        },
+      });
+    });
+
+    it('should only count the visible answers', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate').mockResolvedValueOnce([]);
+
+      await getSimilarQuestions('Using promises');
+
+      const pipeline = aggregateSpy.mock.calls[0][0];
+      expect(pipeline).toContainEqual({
+        $lookup: expect.objectContaining({
+          localField: 'answers',
+          pipeline: [{ $match: { deletedAt: null } }, { $project: { _id: 1 } }],
+          as: 'visibleAnswers',
+        }),
+      });
+      expect(pipeline).toContainEqual({
+        $project: expect.objectContaining({ answerCount: { $size: '$visibleAnswers' } }),
+      });
+    });
+
+    it('should return no questions if the title has no words', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+
+      const result = await getSimilarQuestions('  ?! ');
+
+      expect(result).toEqual([]);
+      expect(aggregateSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return an error if the search fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'aggregate');
+
+      const result = await getSimilarQuestions('Using promises');
+
+      expect(result).toEqual({ error: 'Error when finding similar questions' });
+    });
+  });
+});
@@ -1,5 +1,12 @@
+import mongoose from 'mongoose';
 import MessageModel from '../../models/messages.model';
-import { getMessages, saveMessage } from '../../services/message.service';
+import {
+  deleteMessage,
+  editMessage,
+  getMessage,
+  getMessages,
+  saveMessage,
+} from '../../services/message.service';
 import { Message } from '../../types/message';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -67,4 +74,114 @@ describe('Message model', () => {
       expect(messages).toEqual([]);
     });
   });
+
+  describe('getMessage', () => {
+    it('should return the message with the given ID', async () => {
+      mockingoose(MessageModel).toReturn(message1, 'findOne');
+
+      const message = await getMessage(new mongoose.Types.ObjectId().toString());
+
+      expect(message).toMatchObject(message1);
+    });
+
+    it('should return an error if the message does not exist', async () => {
+      mockingoose(MessageModel).toReturn(null, 'findOne');
+
+      const message = await getMessage(new mongoose.Types.ObjectId().toString());
+
+      expect('error' in message).toBe(true);
+    });
+
+    it('should return an error if error when retrieving the message', async () => {
+      mockingoose(MessageModel).toReturn(new Error('Error retrieving document'), 'findOne');
+
+      const message = await getMessage(new mongoose.Types.ObjectId().toString());
+
+      expect('error' in message).toBe(true);
+    });
+  });
+
+  describe('editMessage', () => {
+    it('should replace the text and record when the message was edited', async () => {
+      mockingoose(MessageModel).toReturn(
+        (query: mongoose.Query<unknown, unknown>) => ({
+          ...message1,
+          ...(query.getUpdate() as mongoose.UpdateQuery<Message>).$set,
+        }),
+        'findOneAndUpdate',
+      );
+
+      const edited = await editMessage(new mongoose.Types.ObjectId().toString(), 'Hello there');
+
+      if ('error' in edited) {
+        throw new Error(`Expected a message, got error: ${edited.error}`);
+      }
+      expect(edited.msg).toBe('Hello there');
+      expect(edited.editedAt).toBeInstanceOf(Date);
+    });
+
+    it('should only edit messages that were not deleted', async () => {
+      mockingoose(MessageModel).toReturn(
+        (query: mongoose.Query<unknown, unknown>) =>
+          query.getFilter().deletedAt === null ? message1 : null,
+        'findOneAndUpdate',
+      );
+
+      await expect(
+        editMessage(new mongoose.Types.ObjectId().toString(), 'Hello there'),
+      ).resolves.not.toHaveProperty('error');
+    });
+
+    it('should return an error if the message does not exist or was deleted', async () => {
+      mockingoose(MessageModel).toReturn(null, 'findOneAndUpdate');
+
+      const edited = await editMessage(new mongoose.Types.ObjectId().toString(), 'Hello there');
+
+      expect('error' in edited).toBe(true);
+    });
+
+    it('should return an error if error when editing the message', async () => {
+      mockingoose(MessageModel).toReturn(new Error('Error updating document'), 'findOneAndUpdate');
+
+      const edited = await editMessage(new mongoose.Types.ObjectId().toString(), 'Hello there');
+
+      expect('error' in edited).toBe(true);
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('should clear the text and record when the message was deleted', async () => {
+      mockingoose(MessageModel).toReturn(
+        (query: mongoose.Query<unknown, unknown>) => ({
+          ...message1,
+          ...(query.getUpdate() as mongoose.UpdateQuery<Message>).$set,
+        }),
+        'findOneAndUpdate',
+      );
+
+      const deleted = await deleteMessage(new mongoose.Types.ObjectId().toString());
+
+      if ('error' in deleted) {
+        throw new Error(`Expected a message, got error: ${deleted.error}`);
+      }
+      expect(deleted.msg).toBe('');
+      expect(deleted.deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return an error if the message does not exist or was already deleted', async () => {
+      mockingoose(MessageModel).toReturn(null, 'findOneAndUpdate');
+
+      const deleted = await deleteMessage(new mongoose.Types.ObjectId().toString());
+
+      expect('error' in deleted).toBe(true);
+    });
+
+    it('should return an error if error when deleting the message', async () => {
+      mockingoose(MessageModel).toReturn(new Error('Error updating document'), 'findOneAndUpdate');
+
+      const deleted = await deleteMessage(new mongoose.Types.ObjectId().toString());
+
+      expect('error' in deleted).toBe(true);
+    });
+  });
 });
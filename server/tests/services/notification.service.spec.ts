@@ -0,0 +1,170 @@
+import mongoose from 'mongoose';
+import AnswerModel from '../../models/answers.model';
+import NotificationModel from '../../models/notifications.model';
+import QuestionModel from '../../models/questions.model';
+import {
+  getNotifications,
+  getNotificationTarget,
+  markAllNotificationsRead,
+  saveNotification,
+  setNotificationRead,
+} from '../../services/notification.service';
+import { Notification, NotificationList, NotificationTarget } from '../../types/types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+const aid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd');
+const nid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6de');
+
+const notification: Notification = {
+  _id: nid,
+  recipient: 'user1',
+  type: 'answer',
+  actor: 'user2',
+  text: 'How do I use promises?',
+  qid,
+  read: false,
+};
+
+describe('Notification service', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  describe('saveNotification', () => {
+    it('should return the saved notification', async () => {
+      mockingoose(NotificationModel).toReturn(notification, 'create');
+
+      const result = (await saveNotification(notification)) as Notification;
+
+      expect(result.recipient).toEqual('user1');
+      expect(result.type).toEqual('answer');
+      expect(result.read).toBe(false);
+    });
+
+    it('should return an error if the notification cannot be saved', async () => {
+      jest.spyOn(NotificationModel, 'create').mockRejectedValueOnce(new Error('Database error'));
+
+      const result = await saveNotification(notification);
+
+      expect(result).toEqual({ error: 'Error when saving a notification' });
+    });
+  });
+
+  describe('getNotificationTarget', () => {
+    it('should return the author and title of a question', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { _id: qid, askedBy: 'author1', title: 'Question title' },
+        'findOne',
+      );
+
+      const result = (await getNotificationTarget(
+        qid.toString(),
+        'question',
+      )) as NotificationTarget;
+
+      expect(result).toEqual({ author: 'author1', qid, title: 'Question title' });
+    });
+
+    it('should return the author of an answer and the question it belongs to', async () => {
+      mockingoose(AnswerModel).toReturn({ _id: aid, ansBy: 'author2' }, 'findOne');
+      mockingoose(QuestionModel).toReturn({ _id: qid, title: 'Question title' }, 'findOne');
+
+      const result = (await getNotificationTarget(aid.toString(), 'answer')) as NotificationTarget;
+
+      expect(result).toEqual({ author: 'author2', qid, title: 'Question title' });
+    });
+
+    it('should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await getNotificationTarget(qid.toString(), 'question');
+
+      expect(result).toEqual({ error: 'Question not found' });
+    });
+
+    it('should return an error if the answer is not found', async () => {
+      mockingoose(AnswerModel).toReturn(null, 'findOne');
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await getNotificationTarget(aid.toString(), 'answer');
+
+      expect(result).toEqual({ error: 'Answer not found' });
+    });
+
+    it('should return an error if the lookup fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOne');
+
+      const result = await getNotificationTarget(qid.toString(), 'question');
+
+      expect(result).toEqual({ error: 'Error when finding the notification target' });
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('should return the notifications and the unread count', async () => {
+      mockingoose(NotificationModel).toReturn([notification], 'find');
+      mockingoose(NotificationModel).toReturn(3, 'countDocuments');
+
+      const result = (await getNotifications('user1')) as NotificationList;
+
+      expect(result.notifications).toHaveLength(1);
+      expect(result.notifications[0].recipient).toEqual('user1');
+      expect(result.unreadCount).toEqual(3);
+    });
+
+    it('should return an error if the notifications cannot be fetched', async () => {
+      mockingoose(NotificationModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getNotifications('user1');
+
+      expect(result).toEqual({ error: 'Error when fetching notifications' });
+    });
+  });
+
+  describe('setNotificationRead', () => {
+    it('should return the updated notification', async () => {
+      mockingoose(NotificationModel).toReturn({ ...notification, read: true }, 'findOneAndUpdate');
+
+      const result = (await setNotificationRead(nid.toString(), 'user1', true)) as Notification;
+
+      expect(result.read).toBe(true);
+    });
+
+    it('should only update the notifications of the user', async () => {
+      mockingoose(NotificationModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await setNotificationRead(nid.toString(), 'user2', true);
+
+      expect(result).toEqual({ error: 'Notification not found' });
+    });
+
+    it('should return an error if the update fails', async () => {
+      mockingoose(NotificationModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await setNotificationRead(nid.toString(), 'user1', false);
+
+      expect(result).toEqual({ error: 'Error when updating the notification' });
+    });
+  });
+
+  describe('markAllNotificationsRead', () => {
+    it('should return the number of notifications marked as read', async () => {
+      mockingoose(NotificationModel).toReturn({ modifiedCount: 2 }, 'updateMany');
+
+      const result = await markAllNotificationsRead('user1');
+
+      expect(result).toEqual(2);
+    });
+
+    it('should return an error if the update fails', async () => {
+      mockingoose(NotificationModel).toReturn(new Error('Database error'), 'updateMany');
+
+      const result = await markAllNotificationsRead('user1');
+
+      expect(result).toEqual({ error: 'Error when updating the notifications' });
+    });
+  });
+});
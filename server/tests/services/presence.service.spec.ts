@@ -0,0 +1,51 @@
+import { addConnection, getOnlineUsers, removeConnection } from '../../services/presence.service';
+
+describe('Presence service', () => {
+  afterEach(() => {
+    getOnlineUsers().forEach(username => {
+      while (!removeConnection(username));
+    });
+  });
+
+  describe('addConnection', () => {
+    it('should report the first connection of a user', () => {
+      expect(addConnection('user1')).toBe(true);
+      expect(getOnlineUsers()).toEqual(['user1']);
+    });
+
+    it('should not report further connections of an online user', () => {
+      addConnection('user1');
+
+      expect(addConnection('user1')).toBe(false);
+      expect(getOnlineUsers()).toEqual(['user1']);
+    });
+  });
+
+  describe('removeConnection', () => {
+    it('should keep a user online until their last connection is closed', () => {
+      addConnection('user1');
+      addConnection('user1');
+
+      expect(removeConnection('user1')).toBe(false);
+      expect(getOnlineUsers()).toEqual(['user1']);
+      expect(removeConnection('user1')).toBe(true);
+      expect(getOnlineUsers()).toEqual([]);
+    });
+
+    it('should not report users who were not connected', () => {
+      expect(removeConnection('user1')).toBe(false);
+      expect(getOnlineUsers()).toEqual([]);
+    });
+  });
+
+  describe('getOnlineUsers', () => {
+    it('should list every user with an open connection', () => {
+      addConnection('user1');
+      addConnection('user2');
+      addConnection('user2');
+      removeConnection('user2');
+
+      expect(getOnlineUsers()).toEqual(['user1', 'user2']);
+    });
+  });
+});
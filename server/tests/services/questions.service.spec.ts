@@ -1,14 +1,30 @@
+import { PipelineStage, Query } from 'mongoose';
 import QuestionModel from '../../models/questions.model';
+import AnswerModel from '../../models/answers.model';
+import RevisionModel from '../../models/revisions.model';
+import * as reputationUtil from '../../services/reputation.service';
+import * as searchService from '../../services/search.service';
 import {
-  filterQuestionsBySearch,
-  filterQuestionsByAskedBy,
-  getQuestionsByOrder,
+  ACCEPTED_ANSWER_REPUTATION,
+  QUESTION_DOWNVOTE_REPUTATION,
+  QUESTION_UPVOTE_REPUTATION,
+} from '../../services/reputation.service';
+import {
+  getQuestionPage,
   fetchAndIncrementQuestionViewsById,
   saveQuestion,
   addVoteToQuestion,
+  setAcceptedAnswer,
+  editQuestion,
+  setQuestionDeleted,
+  setQuestionBookmarked,
+  isQuestionBookmarked,
 } from '../../services/question.service';
-import { Question } from '../../types/types';
-import { QUESTIONS, tag1, tag2, ans1, ans2, ans3, ans4 } from '../mockData.models';
+import TagModel from '../../models/tags.model';
+import UserModel from '../../models/users.model';
+import { Question, QuestionPage, QuestionQuery, SearchQuery } from '../../types/types';
+import { parseSearchQuery } from '../../utils/parse.util';
+import { QUESTIONS, tag1, tag2, ans1, ans2, safeUser } from '../mockData.models';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -18,188 +34,258 @@ describe('Question model', () => {
     mockingoose.resetAll();
   });
 
-  describe('filterQuestionsBySearch', () => {
-    test('filter questions with empty search string should return all questions', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, '');
-
-      expect(result.length).toEqual(QUESTIONS.length);
-    });
-
-    test('filter questions with empty list of questions should return empty list', () => {
-      const result = filterQuestionsBySearch([], 'react');
+  describe('getQuestionPage', () => {
+    const query: QuestionQuery = {
+      order: 'newest',
+      search: parseSearchQuery('') as SearchQuery,
+      includeDeleted: false,
+      page: 1,
+      pageSize: 20,
+    };
 
-      expect(result.length).toEqual(0);
-    });
+    test('getQuestionPage should return the questions in the order of the aggregation', async () => {
+      mockingoose(QuestionModel).toReturn(
+        [
+          {
+            questions: [{ _id: QUESTIONS[1]._id }, { _id: QUESTIONS[0]._id }],
+            total: [{ count: 4 }],
+          },
+        ],
+        'aggregate',
+      );
+      mockingoose(QuestionModel).toReturn(QUESTIONS.slice(0, 2), 'find');
+      QuestionModel.schema.path('answers', Object);
+      QuestionModel.schema.path('tags', Object);
 
-    test('filter questions with empty questions and empty string should return empty list', () => {
-      const result = filterQuestionsBySearch([], '');
+      const result = (await getQuestionPage(query)) as QuestionPage;
 
-      expect(result.length).toEqual(0);
+      expect(result.total).toEqual(4);
+      expect(result.page).toEqual(1);
+      expect(result.pageSize).toEqual(20);
+      expect(result.questions.map(q => q._id?.toString())).toEqual([
+        '65e9b5a995b6c7045a30d823',
+        '65e9b58910afe6e94fc6e6dc',
+      ]);
     });
 
-    test('filter question by one tag', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, '[android]');
-
-      expect(result.length).toEqual(1);
-      expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-    });
+    test('getQuestionPage should return an empty page if no question matches', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'find');
 
-    test('filter question by multiple tags', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, '[android] [react]');
+      const result = (await getQuestionPage(query)) as QuestionPage;
 
-      expect(result.length).toEqual(2);
-      expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      expect(result[1]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+      expect(result.total).toEqual(0);
+      expect(result.questions).toEqual([]);
     });
 
-    test('filter question by one user', () => {
-      const result = filterQuestionsByAskedBy(QUESTIONS, 'q_by4');
+    test('getQuestionPage should filter, sort and skip in the aggregation', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'find');
+
+      await getQuestionPage({
+        ...query,
+        order: 'unanswered',
+        askedBy: 'q_by1',
+        page: 3,
+        pageSize: 5,
+      });
 
-      expect(result.length).toEqual(1);
-      expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
+      const pipeline = aggregateSpy.mock.calls[0][0] as PipelineStage[];
+      expect(pipeline[0]).toEqual({ $match: { deletedAt: null, askedBy: 'q_by1' } });
+      expect(pipeline).toContainEqual({ $match: { answerCount: 0 } });
+      expect(pipeline).toContainEqual({ $sort: { askDateTime: -1, _id: -1 } });
+      expect(pipeline[pipeline.length - 1]).toEqual({
+        $facet: {
+          questions: [{ $skip: 10 }, { $limit: 5 }, { $project: { _id: 1 } }],
+          total: [{ $count: 'count' }],
+        },
+      });
+      aggregateSpy.mockRestore();
     });
 
-    test('filter question by tag and then by user', () => {
-      let result = filterQuestionsBySearch(QUESTIONS, '[javascript]');
-      result = filterQuestionsByAskedBy(result, 'q_by2');
-
-      expect(result.length).toEqual(1);
-      expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
-    });
+    test('getQuestionPage should only match the bookmarked questions among the given IDs', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'find');
+      const qid = QUESTIONS[0]._id!;
 
-    test('filter question by one keyword', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, 'website');
+      await getQuestionPage({
+        ...query,
+        bookmarkedBy: 'user1',
+        questionIds: [qid.toString()],
+      });
 
-      expect(result.length).toEqual(1);
-      expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+      const pipeline = aggregateSpy.mock.calls[0][0] as PipelineStage[];
+      expect(pipeline[0]).toEqual({
+        $match: { deletedAt: null, bookmarks: 'user1', _id: { $in: [qid] } },
+      });
+      aggregateSpy.mockRestore();
     });
 
-    test('filter question by tag and keyword', () => {
-      const result = filterQuestionsBySearch(QUESTIONS, 'website [android]');
+    test('getQuestionPage should match the keywords and tags of the search string', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+      const findTextMatchesSpy = jest
+        .spyOn(searchService, 'findTextMatches')
+        .mockResolvedValueOnce(
+          new Map([[QUESTIONS[0]._id!.toString(), { score: 1.5, texts: [] }]]),
+        );
+      mockingoose(TagModel).toReturn([tag1], 'find');
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'find');
+
+      await getQuestionPage({
+        ...query,
+        search: parseSearchQuery('website [react]') as SearchQuery,
+        includeDeleted: true,
+      });
 
-      expect(result.length).toEqual(2);
-      expect(result[0]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      expect(result[1]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
+      expect(findTextMatchesSpy).toHaveBeenCalledWith(['website'], [], true);
+      const pipeline = aggregateSpy.mock.calls[0][0] as PipelineStage[];
+      expect(pipeline[0]).toEqual({
+        $match: {
+          $and: [{ $or: [{ _id: { $in: [QUESTIONS[0]._id] } }, { tags: { $in: [tag1._id] } }] }],
+        },
+      });
+      aggregateSpy.mockRestore();
     });
-  });
-
-  describe('getQuestionsByOrder', () => {
-    test('get active questions, newest questions sorted by most recently answered 1', async () => {
-      mockingoose(QuestionModel).toReturn(QUESTIONS.slice(0, 3), 'find');
-      QuestionModel.schema.path('answers', Object);
-      QuestionModel.schema.path('tags', Object);
-
-      const result = await getQuestionsByOrder('active');
 
-      expect(result.length).toEqual(3);
-      expect(result[0]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
-      expect(result[1]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      expect(result[2]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
-    });
+    test('getQuestionPage should translate the search operators into filters', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+      mockingoose(TagModel).toReturn([tag2], 'find');
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'find');
+
+      await getQuestionPage({
+        ...query,
+        search: parseSearchQuery(
+          'user:alice -[javascript] -php is:accepted created:2025-01 answers:0 score:>5',
+        ) as SearchQuery,
+      });
 
-    test('get active questions, newest questions sorted by most recently answered 2', async () => {
-      const questions = [
-        {
-          _id: '65e9b716ff0e892116b2de01',
-          answers: [ans1, ans3], // 18, 19 => 19
-          askDateTime: new Date('2023-11-20T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de02',
-          answers: [ans1, ans2, ans3, ans4], // 18, 20, 19, 19 => 20
-          askDateTime: new Date('2023-11-20T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de03',
-          answers: [ans1], // 18 => 18
-          askDateTime: new Date('2023-11-19T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de04',
-          answers: [ans4], // 19 => 19
-          askDateTime: new Date('2023-11-21T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de05',
-          answers: [],
-          askDateTime: new Date('2023-11-19T10:24:00'),
+      const pipeline = aggregateSpy.mock.calls[0][0] as PipelineStage[];
+      expect(pipeline[0]).toEqual({
+        $match: {
+          deletedAt: null,
+          $and: [
+            { tags: { $nin: [tag2._id] } },
+            { title: { $not: /\bphp\b/i }, text: { $not: /\bphp\b/i } },
+            { askedBy: 'alice' },
+            { acceptedAnswer: { $ne: null } },
+            {
+              askDateTime: {
+                $gte: new Date('2025-01-01T00:00:00Z'),
+                $lt: new Date('2025-02-01T00:00:00Z'),
+              },
+            },
+          ],
         },
-      ];
-      mockingoose(QuestionModel).toReturn(questions, 'find');
-      QuestionModel.schema.path('answers', Object);
-      QuestionModel.schema.path('tags', Object);
-
-      const result = await getQuestionsByOrder('active');
-
-      expect(result.length).toEqual(5);
-      expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de02');
-      expect(result[1]._id?.toString()).toEqual('65e9b716ff0e892116b2de04');
-      expect(result[2]._id?.toString()).toEqual('65e9b716ff0e892116b2de01');
-      expect(result[3]._id?.toString()).toEqual('65e9b716ff0e892116b2de03');
-      expect(result[4]._id?.toString()).toEqual('65e9b716ff0e892116b2de05');
+      });
+      expect(pipeline).toContainEqual({
+        $match: { answerCount: { $gte: 0, $lte: 0 }, score: { $gte: 6 } },
+      });
+      aggregateSpy.mockRestore();
     });
 
-    test('get newest unanswered questions', async () => {
-      mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
-
-      const result = await getQuestionsByOrder('unanswered');
-
-      expect(result.length).toEqual(2);
-      expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
-      expect(result[1]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
+    test('getQuestionPage should hide ignored tags and boost watched tags for the viewer', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+      mockingoose(UserModel).toReturn(
+        { ...safeUser, watchedTags: ['react'], ignoredTags: ['javascript'] },
+        'findOne',
+      );
+      mockingoose(TagModel).toReturn(
+        (tagQuery: Query<unknown, unknown>) =>
+          tagQuery.getFilter().$or?.[0].name.$in[0] === 'react' ? [tag1] : [tag2],
+        'find',
+      );
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'find');
+
+      await getQuestionPage({ ...query, order: 'forYou', viewer: safeUser.username });
+
+      const pipeline = aggregateSpy.mock.calls[0][0] as PipelineStage[];
+      expect(pipeline).toContainEqual(
+        expect.objectContaining({
+          $addFields: expect.objectContaining({
+            isWatched: { $gt: [{ $size: { $setIntersection: ['$tags', [tag1._id]] } }, 0] },
+            isIgnored: { $gt: [{ $size: { $setIntersection: ['$tags', [tag2._id]] } }, 0] },
+          }),
+        }),
+      );
+      expect(pipeline).toContainEqual({ $match: { isIgnored: { $ne: true } } });
+      expect(pipeline).toContainEqual({ $sort: { isWatched: -1, askDateTime: -1, _id: -1 } });
+      aggregateSpy.mockRestore();
     });
 
-    test('get newest questions', async () => {
-      const questions = [
-        {
-          _id: '65e9b716ff0e892116b2de01',
-          askDateTime: new Date('2023-11-20T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de04',
-          askDateTime: new Date('2023-11-21T09:24:00'),
-        },
-        {
-          _id: '65e9b716ff0e892116b2de05',
-          askDateTime: new Date('2023-11-19T10:24:00'),
-        },
-      ];
-      mockingoose(QuestionModel).toReturn(questions, 'find');
-
-      const result = await getQuestionsByOrder('newest');
+    test('getQuestionPage should sort by the text score for the relevance order', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+      jest
+        .spyOn(searchService, 'findTextMatches')
+        .mockResolvedValueOnce(
+          new Map([[QUESTIONS[0]._id!.toString(), { score: 1.5, texts: [] }]]),
+        );
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'find');
+
+      await getQuestionPage({
+        ...query,
+        order: 'relevance',
+        search: parseSearchQuery('website') as SearchQuery,
+      });
 
-      expect(result.length).toEqual(3);
-      expect(result[0]._id?.toString()).toEqual('65e9b716ff0e892116b2de04');
-      expect(result[1]._id?.toString()).toEqual('65e9b716ff0e892116b2de01');
-      expect(result[2]._id?.toString()).toEqual('65e9b716ff0e892116b2de05');
+      const pipeline = aggregateSpy.mock.calls[0][0] as PipelineStage[];
+      expect(JSON.stringify(pipeline)).toContain('"$arrayElemAt":[[1.5]');
+      expect(pipeline).toContainEqual({ $sort: { relevance: -1, askDateTime: -1, _id: -1 } });
+      aggregateSpy.mockRestore();
     });
 
-    test('get newest most viewed questions', async () => {
-      mockingoose(QuestionModel).toReturn(QUESTIONS, 'find');
+    test('getQuestionPage should return a highlighted snippet of each question when searching', async () => {
+      jest
+        .spyOn(searchService, 'findTextMatches')
+        .mockResolvedValueOnce(
+          new Map([
+            [QUESTIONS[0]._id!.toString(), { score: 0.5, texts: ['Check the React docs'] }],
+          ]),
+        );
+      mockingoose(QuestionModel).toReturn(
+        [{ questions: [{ _id: QUESTIONS[0]._id }], total: [{ count: 1 }] }],
+        'aggregate',
+      );
+      mockingoose(QuestionModel).toReturn(
+        [{ ...QUESTIONS[0], title: 'Routing', text: 'How do I route pages?' }],
+        'find',
+      );
+      QuestionModel.schema.path('answers', Object);
+      QuestionModel.schema.path('tags', Object);
 
-      const result = await getQuestionsByOrder('mostViewed');
+      const result = (await getQuestionPage({
+        ...query,
+        search: parseSearchQuery('docs') as SearchQuery,
+      })) as QuestionPage;
 
-      expect(result.length).toEqual(4);
-      expect(result[0]._id?.toString()).toEqual('65e9b9b44c052f0a08ecade0');
-      expect(result[1]._id?.toString()).toEqual('65e9b58910afe6e94fc6e6dc');
-      expect(result[2]._id?.toString()).toEqual('65e9b5a995b6c7045a30d823');
-      expect(result[3]._id?.toString()).toEqual('65e9b716ff0e892116b2de09');
+      expect(result.snippets).toEqual({
+        [QUESTIONS[0]._id!.toString()]: [
+          { text: 'Check the React ', match: false },
+          { text: 'docs', match: true },
+        ],
+      });
     });
 
-    test('getQuestionsByOrder should return empty list if find throws an error', async () => {
-      mockingoose(QuestionModel).toReturn(new Error('error'), 'find');
+    test('getQuestionPage should not return snippets without search keywords', async () => {
+      mockingoose(QuestionModel).toReturn([{ questions: [], total: [] }], 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'find');
 
-      const result = await getQuestionsByOrder('newest');
+      const result = (await getQuestionPage(query)) as QuestionPage;
 
-      expect(result.length).toEqual(0);
+      expect(result.snippets).toBeUndefined();
     });
 
-    test('getQuestionsByOrder should return empty list if find returns null', async () => {
-      mockingoose(QuestionModel).toReturn(null, 'find');
+    test('getQuestionPage should return an error if the aggregation fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
 
-      const result = await getQuestionsByOrder('newest');
+      const result = await getQuestionPage(query);
 
-      expect(result.length).toEqual(0);
+      expect(result).toEqual({ error: 'Error when fetching questions' });
     });
   });
 
@@ -312,7 +398,7 @@ describe('Question model', () => {
       };
 
       mockingoose(QuestionModel).toReturn(
-        { ...mockQuestion, upVotes: ['testUser'], downVotes: [] },
+        { ...mockQuestion, askedBy: 'author' },
         'findOneAndUpdate',
       );
 
@@ -333,7 +419,7 @@ describe('Question model', () => {
       };
 
       mockingoose(QuestionModel).toReturn(
-        { ...mockQuestion, upVotes: ['testUser'], downVotes: [] },
+        { ...mockQuestion, askedBy: 'author' },
         'findOneAndUpdate',
       );
 
@@ -354,7 +440,7 @@ describe('Question model', () => {
       };
 
       mockingoose(QuestionModel).toReturn(
-        { ...mockQuestion, upVotes: [], downVotes: [] },
+        { ...mockQuestion, askedBy: 'author' },
         'findOneAndUpdate',
       );
 
@@ -368,7 +454,7 @@ describe('Question model', () => {
     });
 
     test('addVoteToQuestion should return an error if the question is not found', async () => {
-      mockingoose(QuestionModel).toReturn(null, 'findById');
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
 
       const result = await addVoteToQuestion('nonExistentId', 'testUser', 'upvote');
 
@@ -391,7 +477,7 @@ describe('Question model', () => {
       };
 
       mockingoose(QuestionModel).toReturn(
-        { ...mockQuestion, upVotes: [], downVotes: ['testUser'] },
+        { ...mockQuestion, askedBy: 'author' },
         'findOneAndUpdate',
       );
 
@@ -412,7 +498,7 @@ describe('Question model', () => {
       };
 
       mockingoose(QuestionModel).toReturn(
-        { ...mockQuestion, upVotes: [], downVotes: ['testUser'] },
+        { ...mockQuestion, askedBy: 'author' },
         'findOneAndUpdate',
       );
 
@@ -433,7 +519,7 @@ describe('Question model', () => {
       };
 
       mockingoose(QuestionModel).toReturn(
-        { ...mockQuestion, upVotes: [], downVotes: [] },
+        { ...mockQuestion, askedBy: 'author' },
         'findOneAndUpdate',
       );
 
@@ -447,7 +533,7 @@ describe('Question model', () => {
     });
 
     test('addVoteToQuestion should return an error if the question is not found', async () => {
-      mockingoose(QuestionModel).toReturn(null, 'findById');
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
 
       const result = await addVoteToQuestion('nonExistentId', 'testUser', 'downvote');
 
@@ -461,5 +547,268 @@ describe('Question model', () => {
 
       expect(result).toEqual({ error: 'Error when adding downvote to question' });
     });
+
+    test('addVoteToQuestion should read the previous votes of a visible question in the update', async () => {
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+      const changeReputationSpy = jest
+        .spyOn(reputationUtil, 'changeReputation')
+        .mockResolvedValue(safeUser);
+      mockingoose(QuestionModel).toReturn(
+        { _id: QUESTIONS[0]._id, askedBy: 'author', upVotes: [], downVotes: ['testUser'] },
+        'findOneAndUpdate',
+      );
+
+      const result = await addVoteToQuestion(QUESTIONS[0]._id!.toString(), 'testUser', 'upvote');
+
+      expect(result).toEqual({
+        msg: 'Question upvoted successfully',
+        upVotes: ['testUser'],
+        downVotes: [],
+      });
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: QUESTIONS[0]._id!.toString(), deletedAt: null },
+        expect.any(Array),
+        { new: false },
+      );
+      expect(changeReputationSpy).toHaveBeenCalledTimes(2);
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'author',
+        -QUESTION_DOWNVOTE_REPUTATION,
+        'questionDownvote',
+        { qid: QUESTIONS[0]._id!.toString() },
+      );
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'author',
+        QUESTION_UPVOTE_REPUTATION,
+        'questionUpvote',
+        { qid: QUESTIONS[0]._id!.toString() },
+      );
+      updateSpy.mockRestore();
+      changeReputationSpy.mockRestore();
+    });
+  });
+
+  describe('setAcceptedAnswer', () => {
+    test('setAcceptedAnswer should return the question with the accepted answer', async () => {
+      mockingoose(QuestionModel).toReturn({ ...QUESTIONS[0], acceptedAnswer: null }, 'findOne');
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], acceptedAnswer: ans1._id },
+        'findOneAndUpdate',
+      );
+
+      const result = (await setAcceptedAnswer(
+        '65e9b58910afe6e94fc6e6dc',
+        ans1._id!.toString(),
+      )) as Question;
+
+      expect(result.acceptedAnswer?.toString()).toEqual(ans1._id?.toString());
+    });
+
+    test('setAcceptedAnswer should move the reputation to the author of the new accepted answer', async () => {
+      const changeReputationSpy = jest
+        .spyOn(reputationUtil, 'changeReputation')
+        .mockResolvedValue(safeUser);
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], askedBy: 'asker', acceptedAnswer: ans2._id },
+        'findOne',
+      );
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], askedBy: 'asker', acceptedAnswer: ans1._id },
+        'findOneAndUpdate',
+      );
+      mockingoose(AnswerModel).toReturn({ ...ans1, ansBy: 'answerer' }, 'findOne');
+
+      await setAcceptedAnswer('65e9b58910afe6e94fc6e6dc', ans1._id!.toString());
+
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'answerer',
+        -ACCEPTED_ANSWER_REPUTATION,
+        'answerAccepted',
+        { qid: '65e9b58910afe6e94fc6e6dc', aid: ans2._id!.toString() },
+      );
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'answerer',
+        ACCEPTED_ANSWER_REPUTATION,
+        'answerAccepted',
+        { qid: '65e9b58910afe6e94fc6e6dc', aid: ans1._id!.toString() },
+      );
+      changeReputationSpy.mockRestore();
+    });
+
+    test('setAcceptedAnswer should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await setAcceptedAnswer('65e9b58910afe6e94fc6e6dc', null);
+
+      expect(result).toEqual({ error: 'Question not found!' });
+    });
+
+    test('setAcceptedAnswer should return an error if the update fails', async () => {
+      mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOne');
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await setAcceptedAnswer('65e9b58910afe6e94fc6e6dc', null);
+
+      expect(result).toEqual({ error: 'Error when setting the accepted answer' });
+    });
+  });
+
+  describe('editQuestion', () => {
+    test('editQuestion should store the previous version and return the edited question', async () => {
+      const saveSpy = jest.spyOn(RevisionModel, 'create');
+      mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOne');
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], title: 'Edited title', tags: [tag2] },
+        'findOneAndUpdate',
+      );
+
+      const result = (await editQuestion(
+        QUESTIONS[0]._id!.toString(),
+        { title: 'Edited title', text: QUESTIONS[0].text, tags: [tag2] },
+        'editor',
+        'Better title',
+      )) as Question;
+
+      expect(result.title).toEqual('Edited title');
+      expect(saveSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          targetType: 'question',
+          targetId: QUESTIONS[0]._id,
+          title: QUESTIONS[0].title,
+          text: QUESTIONS[0].text,
+          editedBy: 'editor',
+          summary: 'Better title',
+        }),
+      );
+    });
+
+    test('editQuestion should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await editQuestion(
+        QUESTIONS[0]._id!.toString(),
+        { title: 'Edited title', text: 'Edited text', tags: [tag2] },
+        'editor',
+        '',
+      );
+
+      expect(result).toEqual({ error: 'Question not found!' });
+    });
+
+    test('editQuestion should return an error if the update fails', async () => {
+      mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOne');
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await editQuestion(
+        QUESTIONS[0]._id!.toString(),
+        { title: 'Edited title', text: 'Edited text', tags: [tag2] },
+        'editor',
+        '',
+      );
+
+      expect(result).toEqual({ error: 'Error when editing the question' });
+    });
+  });
+
+  describe('setQuestionDeleted', () => {
+    test('setQuestionDeleted should mark the question as deleted by the user', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], deletedAt: new Date('2024-06-08'), deletedBy: 'user1' },
+        'findOneAndUpdate',
+      );
+
+      const result = (await setQuestionDeleted(QUESTIONS[0]._id!.toString(), 'user1')) as Question;
+
+      expect(result.deletedBy).toEqual('user1');
+      expect(result.deletedAt).toEqual(new Date('2024-06-08'));
+    });
+
+    test('setQuestionDeleted should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await setQuestionDeleted(QUESTIONS[0]._id!.toString(), 'user1');
+
+      expect(result).toEqual({ error: 'Question not found!' });
+    });
+
+    test('setQuestionDeleted should return an error if restoring fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await setQuestionDeleted(QUESTIONS[0]._id!.toString(), null);
+
+      expect(result).toEqual({ error: 'Error when restoring the question' });
+    });
+  });
+
+  describe('setQuestionBookmarked', () => {
+    test('setQuestionBookmarked should return the question with the new bookmark', async () => {
+      mockingoose(QuestionModel).toReturn(
+        { ...QUESTIONS[0], bookmarks: ['user1'], bookmarkCount: 1 },
+        'findOneAndUpdate',
+      );
+
+      const result = (await setQuestionBookmarked(
+        QUESTIONS[0]._id!.toString(),
+        'user1',
+        true,
+      )) as Question;
+
+      expect(result.bookmarkCount).toEqual(1);
+    });
+
+    test('setQuestionBookmarked should recount the bookmarks in the same update', async () => {
+      const updateSpy = jest.spyOn(QuestionModel, 'findOneAndUpdate');
+      mockingoose(QuestionModel).toReturn(QUESTIONS[0], 'findOneAndUpdate');
+
+      await setQuestionBookmarked(QUESTIONS[0]._id!.toString(), 'user1', false);
+
+      expect(updateSpy).toHaveBeenCalledWith(
+        { _id: QUESTIONS[0]._id!.toString() },
+        [
+          {
+            $set: {
+              bookmarks: { $setDifference: [{ $ifNull: ['$bookmarks', []] }, ['user1']] },
+            },
+          },
+          { $set: { bookmarkCount: { $size: '$bookmarks' } } },
+        ],
+        { new: true },
+      );
+      updateSpy.mockRestore();
+    });
+
+    test('setQuestionBookmarked should return an error if the question is not found', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await setQuestionBookmarked(QUESTIONS[0]._id!.toString(), 'user1', true);
+
+      expect(result).toEqual({ error: 'Question not found!' });
+    });
+
+    test('setQuestionBookmarked should return an error if removing the bookmark fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await setQuestionBookmarked(QUESTIONS[0]._id!.toString(), 'user1', false);
+
+      expect(result).toEqual({ error: 'Error when unbookmarking the question' });
+    });
+  });
+
+  describe('isQuestionBookmarked', () => {
+    test('isQuestionBookmarked should return true if the user bookmarked the question', async () => {
+      mockingoose(QuestionModel).toReturn({ _id: QUESTIONS[0]._id }, 'findOne');
+
+      const result = await isQuestionBookmarked(QUESTIONS[0]._id!.toString(), 'user1');
+
+      expect(result).toBe(true);
+    });
+
+    test('isQuestionBookmarked should return false if the user did not bookmark the question', async () => {
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await isQuestionBookmarked(QUESTIONS[0]._id!.toString(), 'user1');
+
+      expect(result).toBe(false);
+    });
   });
 });
@@ -0,0 +1,173 @@
+import UserModel from '../../models/users.model';
+import ReputationEventModel from '../../models/reputationEvents.model';
+import * as reputationUtil from '../../services/reputation.service';
+import {
+  ANSWER_UPVOTE_REPUTATION,
+  QUESTION_DOWNVOTE_REPUTATION,
+  QUESTION_UPVOTE_REPUTATION,
+  applyVoteReputation,
+  changeReputation,
+  getReputationHistory,
+} from '../../services/reputation.service';
+import { ReputationEvent, SafeUser } from '../../types/types';
+import { safeUser } from '../mockData.models';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+describe('Reputation service', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  describe('changeReputation', () => {
+    it('should return the user with the updated reputation', async () => {
+      mockingoose(UserModel).toReturn({ ...safeUser, reputation: 10 }, 'findOneAndUpdate');
+      mockingoose(ReputationEventModel).toReturn({}, 'save');
+
+      const result = (await changeReputation(safeUser.username, 10, 'answerUpvote', {
+        qid: '65e9b58910afe6e94fc6e6dc',
+        aid: '65e9b58910afe6e94fc6e6dd',
+      })) as SafeUser;
+
+      expect(result.username).toEqual(safeUser.username);
+      expect(result.reputation).toEqual(10);
+    });
+
+    it('should return an error if the user is not found', async () => {
+      mockingoose(UserModel).toReturn(null, 'findOneAndUpdate');
+
+      const result = await changeReputation('missing', 5, 'questionUpvote', {
+        qid: '65e9b58910afe6e94fc6e6dc',
+      });
+
+      expect('error' in result).toBe(true);
+    });
+
+    it('should return an error if the update fails', async () => {
+      mockingoose(UserModel).toReturn(new Error('Database error'), 'findOneAndUpdate');
+
+      const result = await changeReputation(safeUser.username, 5, 'questionUpvote', {
+        qid: '65e9b58910afe6e94fc6e6dc',
+      });
+
+      expect('error' in result).toBe(true);
+    });
+  });
+
+  describe('applyVoteReputation', () => {
+    const target = { qid: '65e9b58910afe6e94fc6e6dc' };
+    let changeReputationSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      changeReputationSpy = jest
+        .spyOn(reputationUtil, 'changeReputation')
+        .mockResolvedValue(safeUser);
+    });
+
+    afterEach(() => {
+      changeReputationSpy.mockRestore();
+    });
+
+    it('should reward the author for a new upvote', async () => {
+      await applyVoteReputation(
+        'question',
+        'author',
+        'voter',
+        { upVotes: [], downVotes: [] },
+        { upVotes: ['voter'], downVotes: [] },
+        target,
+      );
+
+      expect(changeReputationSpy).toHaveBeenCalledTimes(1);
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'author',
+        QUESTION_UPVOTE_REPUTATION,
+        'questionUpvote',
+        target,
+      );
+    });
+
+    it('should revert the upvote and apply the downvote when a voter switches', async () => {
+      await applyVoteReputation(
+        'question',
+        'author',
+        'voter',
+        { upVotes: ['voter'], downVotes: [] },
+        { upVotes: [], downVotes: ['voter'] },
+        target,
+      );
+
+      expect(changeReputationSpy).toHaveBeenCalledTimes(2);
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'author',
+        -QUESTION_UPVOTE_REPUTATION,
+        'questionUpvote',
+        target,
+      );
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'author',
+        QUESTION_DOWNVOTE_REPUTATION,
+        'questionDownvote',
+        target,
+      );
+    });
+
+    it('should revert the reward when an answer upvote is cancelled', async () => {
+      await applyVoteReputation(
+        'answer',
+        'author',
+        'voter',
+        { upVotes: ['voter'], downVotes: [] },
+        { upVotes: [], downVotes: [] },
+        target,
+      );
+
+      expect(changeReputationSpy).toHaveBeenCalledWith(
+        'author',
+        -ANSWER_UPVOTE_REPUTATION,
+        'answerUpvote',
+        target,
+      );
+    });
+
+    it('should not change reputation when authors vote on their own content', async () => {
+      await applyVoteReputation(
+        'answer',
+        'author',
+        'author',
+        { upVotes: [], downVotes: [] },
+        { upVotes: ['author'], downVotes: [] },
+        target,
+      );
+
+      expect(changeReputationSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReputationHistory', () => {
+    it('should return the reputation changes of the user', async () => {
+      const event: ReputationEvent = {
+        username: safeUser.username,
+        change: 5,
+        reason: 'questionUpvote',
+        createdAt: new Date('2024-06-06'),
+      };
+      mockingoose(ReputationEventModel).toReturn([event], 'find');
+
+      const result = (await getReputationHistory(safeUser.username)) as ReputationEvent[];
+
+      expect(result).toHaveLength(1);
+      expect(result[0].change).toEqual(5);
+      expect(result[0].reason).toEqual('questionUpvote');
+    });
+
+    it('should return an error if the database query fails', async () => {
+      mockingoose(ReputationEventModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getReputationHistory(safeUser.username);
+
+      expect('error' in result).toBe(true);
+    });
+  });
+});
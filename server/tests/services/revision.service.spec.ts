@@ -0,0 +1,105 @@
+import mongoose from 'mongoose';
+import RevisionModel from '../../models/revisions.model';
+import QuestionModel from '../../models/questions.model';
+import AnswerModel from '../../models/answers.model';
+import { getRevisionHistory, saveRevision } from '../../services/revision.service';
+import { Revision } from '../../types/types';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const revision: Revision = {
+  targetType: 'answer',
+  targetId: new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc'),
+  text: 'Original answer',
+  editedBy: 'user1',
+  editedAt: new Date('2024-06-06'),
+  summary: 'Fixed a typo',
+};
+
+describe('Revision model', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  describe('saveRevision', () => {
+    test('saveRevision should return the saved revision', async () => {
+      const result = (await saveRevision(revision)) as Revision;
+
+      expect(result._id).toBeDefined();
+      expect(result.text).toEqual(revision.text);
+      expect(result.editedBy).toEqual(revision.editedBy);
+    });
+
+    test('saveRevision should return an error if the save fails', async () => {
+      jest.spyOn(RevisionModel, 'create').mockRejectedValueOnce(new Error('Database error'));
+
+      const result = await saveRevision(revision);
+
+      expect(result).toEqual({ error: 'Error when saving a revision' });
+    });
+  });
+
+  describe('getRevisionHistory', () => {
+    beforeEach(() => {
+      mockingoose(AnswerModel).toReturn({ _id: revision.targetId }, 'findOne');
+    });
+
+    test('getRevisionHistory should return the revisions of the post', async () => {
+      mockingoose(RevisionModel).toReturn([revision], 'find');
+
+      const result = (await getRevisionHistory(
+        'answer',
+        revision.targetId.toString(),
+      )) as Revision[];
+
+      expect(result).toHaveLength(1);
+      expect(result[0].summary).toEqual(revision.summary);
+    });
+
+    test('getRevisionHistory should return an error if the query fails', async () => {
+      mockingoose(RevisionModel).toReturn(new Error('Database error'), 'find');
+
+      const result = await getRevisionHistory('answer', revision.targetId.toString());
+
+      expect(result).toEqual({ error: 'Error when fetching revision history' });
+    });
+
+    test('getRevisionHistory should only look for a visible post', async () => {
+      const existsSpy = jest.spyOn(QuestionModel, 'exists');
+      mockingoose(QuestionModel).toReturn(null, 'findOne');
+
+      const result = await getRevisionHistory('question', revision.targetId.toString());
+
+      expect(result).toEqual({ error: 'Question not found!' });
+      expect(existsSpy).toHaveBeenCalledWith({
+        _id: revision.targetId.toString(),
+        deletedAt: null,
+      });
+      existsSpy.mockRestore();
+    });
+
+    test('getRevisionHistory should return the history of a deleted post if asked for', async () => {
+      const existsSpy = jest.spyOn(AnswerModel, 'exists');
+      mockingoose(RevisionModel).toReturn([revision], 'find');
+
+      const result = (await getRevisionHistory(
+        'answer',
+        revision.targetId.toString(),
+        true,
+      )) as Revision[];
+
+      expect(result).toHaveLength(1);
+      expect(existsSpy).toHaveBeenCalledWith({ _id: revision.targetId.toString() });
+      existsSpy.mockRestore();
+    });
+
+    test('getRevisionHistory should return an error if the answer is not found', async () => {
+      mockingoose(AnswerModel).toReturn(null, 'findOne');
+
+      const result = await getRevisionHistory('answer', revision.targetId.toString());
+
+      expect(result).toEqual({ error: 'Answer not found!' });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import QuestionModel from '../../models/questions.model';
+import AnswerModel from '../../models/answers.model';
+import CommentModel from '../../models/comments.model';
+import {
+  ANSWER_MATCH_WEIGHT,
+  COMMENT_MATCH_WEIGHT,
+  findTextMatches,
+} from '../../services/search.service';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const mockingoose = require('mockingoose');
+
+const qid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dc');
+const aid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6dd');
+const cid = new mongoose.Types.ObjectId('65e9b58910afe6e94fc6e6de');
+
+describe('Search service', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  describe('findTextMatches', () => {
+    test('findTextMatches should return the text score of the matching questions', async () => {
+      mockingoose(QuestionModel).toReturn([{ _id: qid, text: 'question', score: 2 }], 'aggregate');
+      mockingoose(AnswerModel).toReturn([], 'aggregate');
+      mockingoose(CommentModel).toReturn([], 'aggregate');
+
+      const result = await findTextMatches(['question']);
+
+      expect(result).toEqual(new Map([[qid.toString(), { score: 2, texts: [] }]]));
+    });
+
+    test('findTextMatches should add the matching answers and comments to their question', async () => {
+      mockingoose(QuestionModel).toReturn([], 'aggregate');
+      mockingoose(QuestionModel).toReturn([{ _id: qid, answers: [aid], comments: [cid] }], 'find');
+      mockingoose(AnswerModel).toReturn([{ _id: aid, text: 'answer text', score: 2 }], 'aggregate');
+      mockingoose(AnswerModel).toReturn([], 'find');
+      mockingoose(CommentModel).toReturn(
+        [{ _id: cid, text: 'comment text', score: 4 }],
+        'aggregate',
+      );
+
+      const result = await findTextMatches(['text']);
+
+      expect(result.get(qid.toString())).toEqual({
+        score: 4 * COMMENT_MATCH_WEIGHT + 2 * ANSWER_MATCH_WEIGHT,
+        texts: ['comment text', 'answer text'],
+      });
+    });
+
+    test('findTextMatches should only search visible content by default', async () => {
+      const aggregateSpy = jest.spyOn(QuestionModel, 'aggregate');
+      mockingoose(QuestionModel).toReturn([], 'aggregate');
+      mockingoose(AnswerModel).toReturn([], 'aggregate');
+      mockingoose(CommentModel).toReturn([], 'aggregate');
+
+      await findTextMatches(['react', 'hooks']);
+
+      const pipeline = aggregateSpy.mock.calls[0][0] as PipelineStage[];
+      expect(pipeline[0]).toEqual({
+        $match: { $text: { $search: 'react hooks' }, deletedAt: null },
+      });
+      aggregateSpy.mockRestore();
+    });
+
+    test('findTextMatches should throw if a search fails', async () => {
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'aggregate');
+      mockingoose(AnswerModel).toReturn([], 'aggregate');
+      mockingoose(CommentModel).toReturn([], 'aggregate');
+
+      await expect(findTextMatches(['question'])).rejects.toThrow();
+    });
+  });
+});
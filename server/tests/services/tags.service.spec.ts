@@ -1,7 +1,17 @@
+import { Query } from 'mongoose';
 import Tags from '../../models/tags.model';
 import QuestionModel from '../../models/questions.model';
-import { addTag, processTags, getTagCountMap } from '../../services/tag.service';
+import {
+  addTag,
+  processTags,
+  getTagCountMap,
+  updateTagDescription,
+  addTagSynonym,
+  removeTagSynonym,
+  mergeTags,
+} from '../../services/tag.service';
 import { QUESTIONS, tag1, tag2, tag3 } from '../mockData.models';
+import { Tag } from '../../types/types';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -47,13 +57,29 @@ describe('Tag model', () => {
 
   describe('processTags', () => {
     test('processTags should return the tags of tag names in the collection', async () => {
-      mockingoose(Tags).toReturn(tag1, 'findOne');
+      mockingoose(Tags).toReturn(
+        (query: Query<unknown, unknown>) =>
+          query.getFilter().$or?.[0].name === tag1.name ? tag1 : tag2,
+        'findOne',
+      );
 
       const result = await processTags([tag1, tag2]);
 
       expect(result.length).toEqual(2);
       expect(result[0]._id).toEqual(tag1._id);
-      expect(result[1]._id).toEqual(tag1._id);
+      expect(result[1]._id).toEqual(tag2._id);
+    });
+
+    test('processTags should replace synonyms with the tag they belong to', async () => {
+      const findOneSpy = jest.spyOn(Tags, 'findOne');
+      mockingoose(Tags).toReturn({ ...tag2, synonyms: ['js'] }, 'findOne');
+
+      const result = await processTags([tag2, { name: 'js', description: '' }]);
+
+      expect(result.length).toEqual(1);
+      expect(result[0]._id).toEqual(tag2._id);
+      expect(findOneSpy).toHaveBeenCalledWith({ $or: [{ name: 'js' }, { synonyms: 'js' }] });
+      findOneSpy.mockRestore();
     });
 
     test('processTags should return a list of new tags ids if they do not exist in the collection', async () => {
@@ -148,4 +174,145 @@ describe('Tag model', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('updateTagDescription', () => {
+    test('updateTagDescription should return the updated tag', async () => {
+      mockingoose(Tags).toReturn({ ...tag1, description: 'New description' }, 'findOneAndUpdate');
+
+      const result = (await updateTagDescription(tag1.name, 'New description')) as Tag;
+
+      expect(result.description).toEqual('New description');
+    });
+
+    test('updateTagDescription should return an error if the tag is not found', async () => {
+      mockingoose(Tags).toReturn(null, 'findOneAndUpdate');
+
+      const result = await updateTagDescription('missing', 'New description');
+
+      expect(result).toEqual({ error: 'Tag not found' });
+    });
+
+    test('updateTagDescription should return an error if the update fails', async () => {
+      mockingoose(Tags).toReturn(new Error('error'), 'findOneAndUpdate');
+
+      const result = await updateTagDescription(tag1.name, 'New description');
+
+      expect(result).toEqual({ error: 'Error when updating the tag description' });
+    });
+  });
+
+  describe('addTagSynonym', () => {
+    test('addTagSynonym should add the synonym to the tag', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+      mockingoose(Tags).toReturn({ ...tag2, synonyms: ['js'] }, 'findOneAndUpdate');
+
+      const result = (await addTagSynonym(tag2.name, 'js')) as Tag;
+
+      expect(result.synonyms).toEqual(['js']);
+    });
+
+    test('addTagSynonym should reject a name used by another tag', async () => {
+      mockingoose(Tags).toReturn(tag1, 'findOne');
+
+      const result = await addTagSynonym(tag2.name, 'react');
+
+      expect(result).toEqual({
+        error: '"react" is already used by the tag "react", merge the tags instead',
+      });
+    });
+
+    test('addTagSynonym should reject the name of the tag itself', async () => {
+      const result = await addTagSynonym(tag2.name, tag2.name);
+
+      expect(result).toEqual({ error: 'A tag cannot be a synonym of itself' });
+    });
+
+    test('addTagSynonym should return an error if the tag is not found', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+      mockingoose(Tags).toReturn(null, 'findOneAndUpdate');
+
+      const result = await addTagSynonym('missing', 'js');
+
+      expect(result).toEqual({ error: 'Tag not found' });
+    });
+  });
+
+  describe('removeTagSynonym', () => {
+    test('removeTagSynonym should remove the synonym from the tag', async () => {
+      mockingoose(Tags).toReturn({ ...tag2, synonyms: [] }, 'findOneAndUpdate');
+
+      const result = (await removeTagSynonym(tag2.name, 'js')) as Tag;
+
+      expect(result.synonyms).toEqual([]);
+    });
+
+    test('removeTagSynonym should return an error if the update fails', async () => {
+      mockingoose(Tags).toReturn(new Error('error'), 'findOneAndUpdate');
+
+      const result = await removeTagSynonym(tag2.name, 'js');
+
+      expect(result).toEqual({ error: 'Error when removing the tag synonym' });
+    });
+  });
+
+  describe('mergeTags', () => {
+    const source = { ...tag3, name: 'js', synonyms: ['ecmascript'] };
+
+    test('mergeTags should move the questions and names of the source tag to the target', async () => {
+      const updateManySpy = jest.spyOn(QuestionModel, 'updateMany');
+      const deleteOneSpy = jest.spyOn(Tags, 'deleteOne');
+      const findOneAndUpdateSpy = jest.spyOn(Tags, 'findOneAndUpdate');
+      mockingoose(Tags).toReturn(
+        (query: Query<unknown, unknown>) => (query.getFilter().name === 'js' ? source : tag2),
+        'findOne',
+      );
+      mockingoose(QuestionModel).toReturn({ modifiedCount: 2 }, 'updateMany');
+      mockingoose(Tags).toReturn({ ...tag2, synonyms: ['js', 'ecmascript'] }, 'findOneAndUpdate');
+      mockingoose(Tags).toReturn({ deletedCount: 1 }, 'deleteOne');
+
+      const result = (await mergeTags('js', tag2.name)) as Tag;
+
+      expect(result.synonyms).toEqual(['js', 'ecmascript']);
+      expect(updateManySpy).toHaveBeenCalledWith(
+        { tags: source._id },
+        { $addToSet: { tags: tag2._id } },
+      );
+      expect(updateManySpy).toHaveBeenCalledWith(
+        { tags: source._id },
+        { $pull: { tags: source._id } },
+      );
+      expect(findOneAndUpdateSpy).toHaveBeenCalledWith(
+        { _id: tag2._id },
+        { $addToSet: { synonyms: { $each: ['js', 'ecmascript'] } } },
+        { new: true },
+      );
+      expect(deleteOneSpy).toHaveBeenCalledWith({ _id: source._id });
+      updateManySpy.mockRestore();
+      deleteOneSpy.mockRestore();
+      findOneAndUpdateSpy.mockRestore();
+    });
+
+    test('mergeTags should return an error if a tag is not found', async () => {
+      mockingoose(Tags).toReturn(null, 'findOne');
+
+      const result = await mergeTags('js', tag2.name);
+
+      expect(result).toEqual({ error: 'Tag not found' });
+    });
+
+    test('mergeTags should reject merging a tag into itself', async () => {
+      const result = await mergeTags(tag2.name, tag2.name);
+
+      expect(result).toEqual({ error: 'A tag cannot be merged into itself' });
+    });
+
+    test('mergeTags should return an error if the questions cannot be updated', async () => {
+      mockingoose(Tags).toReturn(tag2, 'findOne');
+      mockingoose(QuestionModel).toReturn(new Error('error'), 'updateMany');
+
+      const result = await mergeTags('js', tag2.name);
+
+      expect(result).toEqual({ error: 'Error when merging the tags' });
+    });
+  });
 });
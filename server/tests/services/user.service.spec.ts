@@ -1,14 +1,29 @@
+import mongoose, { ClientSession } from 'mongoose';
 import UserModel from '../../models/users.model';
+import QuestionModel from '../../models/questions.model';
+import AnswerModel from '../../models/answers.model';
+import CommentModel from '../../models/comments.model';
+import ChatModel from '../../models/chat.model';
+import MessageModel from '../../models/messages.model';
+import GameModel from '../../models/games.model';
+import NotificationModel from '../../models/notifications.model';
+import CollectionModel from '../../models/collections.model';
+import ReputationEventModel from '../../models/reputationEvents.model';
 import {
+  DELETED_USERNAME,
   deleteUserByUsername,
   getUserByUsername,
+  getUserRole,
   getUsersList,
   loginUser,
   saveUser,
+  setTagPreference,
   updateUser,
 } from '../../services/user.service';
-import { SafeUser, User, UserCredentials } from '../../types/user';
-import { user, safeUser } from '../mockData.models';
+import { SafeUser, User, UserCredentials, UserDeletionResult } from '../../types/user';
+import { user, safeUser, QUESTIONS, ans1 } from '../mockData.models';
+import * as passwordUtil from '../../utils/password.util';
+import { hashPassword, isPasswordHashed, verifyPassword } from '../../utils/password.util';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const mockingoose = require('mockingoose');
@@ -33,6 +48,18 @@ describe('User model', () => {
       expect(savedUser.dateJoined).toEqual(user.dateJoined);
     });
 
+    it('should store a hash instead of the plaintext password', async () => {
+      const createSpy = jest.spyOn(UserModel, 'create');
+      mockingoose(UserModel).toReturn(user, 'create');
+
+      await saveUser(user);
+
+      const storedUser = createSpy.mock.calls[0][0] as User;
+      expect(storedUser.password).not.toEqual(user.password);
+      expect(isPasswordHashed(storedUser.password)).toBe(true);
+      expect(await verifyPassword(user.password, storedUser.password)).toBe(true);
+    });
+
     it('should throw an error if error when saving to database', async () => {
       jest
         .spyOn(UserModel, 'create')
@@ -59,6 +86,21 @@ describe('getUserByUsername', () => {
     expect(retrievedUser.dateJoined).toEqual(user.dateJoined);
   });
 
+  it('should only select the tag preferences when asked for', async () => {
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    const selectSpy = jest.spyOn(mongoose.Query.prototype, 'select');
+
+    await getUserByUsername(user.username);
+    await getUserByUsername(user.username, true);
+
+    // Mongoose also calls `select` itself, without arguments
+    expect(selectSpy.mock.calls.filter(([fields]) => fields !== undefined)).toEqual([
+      ['-password -watchedTags -ignoredTags'],
+      ['-password'],
+    ]);
+    selectSpy.mockRestore();
+  });
+
   it('should throw an error if the user is not found', async () => {
     mockingoose(UserModel).toReturn(null, 'findOne');
 
@@ -76,6 +118,28 @@ describe('getUserByUsername', () => {
   });
 });
 
+describe('getUserRole', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  it('should return the role of the user', async () => {
+    mockingoose(UserModel).toReturn({ ...safeUser, role: 'moderator' }, 'findOne');
+
+    const role = await getUserRole(user.username);
+
+    expect(role).toEqual('moderator');
+  });
+
+  it('should return an error if the user is not found', async () => {
+    mockingoose(UserModel).toReturn(null, 'findOne');
+
+    const role = await getUserRole(user.username);
+
+    expect(typeof role === 'object' && 'error' in role).toBe(true);
+  });
+});
+
 describe('getUsersList', () => {
   beforeEach(() => {
     mockingoose.resetAll();
@@ -90,6 +154,16 @@ describe('getUsersList', () => {
     expect(retrievedUsers[0].dateJoined).toEqual(safeUser.dateJoined);
   });
 
+  it('should leave out the passwords and tag preferences', async () => {
+    mockingoose(UserModel).toReturn([safeUser], 'find');
+    const selectSpy = jest.spyOn(mongoose.Query.prototype, 'select');
+
+    await getUsersList();
+
+    expect(selectSpy).toHaveBeenCalledWith('-password -watchedTags -ignoredTags');
+    selectSpy.mockRestore();
+  });
+
   it('should throw an error if there is an error while retrieving from the database', async () => {
     mockingoose(UserModel).toReturn(new Error('Error retrieving users'), 'find');
 
@@ -128,7 +202,11 @@ describe('loginUser', () => {
   });
 
   it('should return the user if authentication succeeds', async () => {
-    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    const updateOneSpy = jest.spyOn(UserModel, 'updateOne');
+    mockingoose(UserModel).toReturn(
+      { ...user, password: await hashPassword(user.password) },
+      'findOne',
+    );
 
     const credentials: UserCredentials = {
       username: user.username,
@@ -139,10 +217,53 @@ describe('loginUser', () => {
 
     expect(loggedInUser.username).toEqual(user.username);
     expect(loggedInUser.dateJoined).toEqual(user.dateJoined);
+    expect('password' in loggedInUser).toBe(false);
+    expect(updateOneSpy).not.toHaveBeenCalled();
+  });
+
+  it('should rehash a plaintext password after a successful login', async () => {
+    const updateOneSpy = jest.spyOn(UserModel, 'updateOne');
+    mockingoose(UserModel).toReturn(user, 'findOne');
+    mockingoose(UserModel).toReturn({ acknowledged: true, modifiedCount: 1 }, 'updateOne');
+
+    const credentials: UserCredentials = {
+      username: user.username,
+      password: user.password,
+    };
+
+    const loggedInUser = (await loginUser(credentials)) as SafeUser;
+
+    expect(loggedInUser.username).toEqual(user.username);
+    expect('password' in loggedInUser).toBe(false);
+    expect(updateOneSpy).toHaveBeenCalledTimes(1);
+
+    const [filter, update] = updateOneSpy.mock.calls[0] as unknown as [
+      { username: string },
+      { $set: { password: string } },
+    ];
+    expect(filter).toEqual({ username: user.username });
+    expect(isPasswordHashed(update.$set.password)).toBe(true);
+    expect(await verifyPassword(user.password, update.$set.password)).toBe(true);
+  });
+
+  it('should return an error if the password does not match the stored hash', async () => {
+    mockingoose(UserModel).toReturn(
+      { ...user, password: await hashPassword(user.password) },
+      'findOne',
+    );
+
+    const credentials: UserCredentials = {
+      username: user.username,
+      password: 'wrongPassword',
+    };
+
+    const loginError = await loginUser(credentials);
+
+    expect('error' in loginError).toBe(true);
   });
 
   it('should return the user if the password fails', async () => {
-    mockingoose(UserModel).toReturn(null, 'findOne');
+    mockingoose(UserModel).toReturn(user, 'findOne');
 
     const credentials: UserCredentials = {
       username: user.username,
@@ -154,6 +275,17 @@ describe('loginUser', () => {
     expect('error' in loginError).toBe(true);
   });
 
+  it('should verify the password against a dummy hash if the user is not found', async () => {
+    mockingoose(UserModel).toReturn(null, 'findOne');
+    const verifyPasswordSpy = jest.spyOn(passwordUtil, 'verifyPassword');
+
+    const loginError = await loginUser({ username: 'wrongUsername', password: user.password });
+
+    expect('error' in loginError).toBe(true);
+    expect(verifyPasswordSpy).toHaveBeenCalledWith(user.password, passwordUtil.DUMMY_PASSWORD_HASH);
+    expect(isPasswordHashed(passwordUtil.DUMMY_PASSWORD_HASH)).toBe(true);
+  });
+
   it('should return the user is not found', async () => {
     mockingoose(UserModel).toReturn(null, 'findOne');
 
@@ -169,21 +301,171 @@ describe('loginUser', () => {
 });
 
 describe('deleteUserByUsername', () => {
+  // Transactions need a replica set, so the session only runs the transaction callback
+  const mockSession = {
+    withTransaction: jest.fn(async (fn: () => Promise<void>) => fn()),
+    endSession: jest.fn(),
+  };
+
   beforeEach(() => {
     mockingoose.resetAll();
+    [QuestionModel, AnswerModel, CommentModel, ChatModel, MessageModel].forEach(model =>
+      mockingoose(model).toReturn([], 'find'),
+    );
+    jest.spyOn(mongoose, 'startSession').mockResolvedValue(mockSession as unknown as ClientSession);
+    mockSession.endSession.mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   it('should return the deleted user when deleted succesfully', async () => {
-    mockingoose(UserModel).toReturn(safeUser, 'findOneAndDelete');
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+
+    const result = (await deleteUserByUsername(user.username)) as UserDeletionResult;
+
+    expect(result.user.username).toEqual(user.username);
+    expect(result.user.dateJoined).toEqual(user.dateJoined);
+    expect(mockSession.endSession).toHaveBeenCalled();
+  });
+
+  it('should anonymize the content of the user and return the affected documents', async () => {
+    const chatId = new mongoose.Types.ObjectId();
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    mockingoose(QuestionModel).toReturn([QUESTIONS[0]], 'find');
+    mockingoose(ChatModel).toReturn([{ _id: chatId, participants: [user.username] }], 'find');
+    const answerUpdateSpy = jest.spyOn(AnswerModel, 'updateMany');
+    const chatUpdateSpy = jest.spyOn(ChatModel, 'updateMany');
+
+    const result = (await deleteUserByUsername(user.username, 'anonymize')) as UserDeletionResult;
+
+    expect(result.questions).toEqual([QUESTIONS[0]._id?.toString()]);
+    expect(result.chats).toEqual([chatId.toString()]);
+    expect(answerUpdateSpy).toHaveBeenCalledWith(
+      { ansBy: user.username },
+      { $set: { ansBy: DELETED_USERNAME } },
+      expect.anything(),
+    );
+    expect(chatUpdateSpy).toHaveBeenCalledWith(
+      { participants: user.username },
+      {
+        $pull: {
+          participants: user.username,
+          admins: user.username,
+          lastRead: { username: user.username },
+        },
+      },
+      expect.anything(),
+    );
+  });
+
+  it('should remove the notifications, collections and reputation history of the user', async () => {
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    const notificationDeleteSpy = jest.spyOn(NotificationModel, 'deleteMany');
+    const collectionDeleteSpy = jest.spyOn(CollectionModel, 'deleteMany');
+    const reputationDeleteSpy = jest.spyOn(ReputationEventModel, 'deleteMany');
+    const userDeleteSpy = jest.spyOn(UserModel, 'deleteOne');
+
+    await deleteUserByUsername(user.username, 'anonymize');
+
+    expect(notificationDeleteSpy).toHaveBeenCalledWith(
+      { recipient: user.username },
+      expect.anything(),
+    );
+    expect(collectionDeleteSpy).toHaveBeenCalledWith({ owner: user.username }, expect.anything());
+    expect(reputationDeleteSpy).toHaveBeenCalledWith(
+      { username: user.username },
+      expect.anything(),
+    );
+    expect(userDeleteSpy).toHaveBeenCalledWith({ username: user.username }, expect.anything());
+  });
+
+  it('should hand the group chats owned by the user over to another member', async () => {
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    const chatUpdateSpy = jest.spyOn(ChatModel, 'updateMany');
 
-    const deletedUser = (await deleteUserByUsername(user.username)) as SafeUser;
+    await deleteUserByUsername(user.username, 'anonymize');
+
+    expect(chatUpdateSpy).toHaveBeenCalledWith(
+      { owner: user.username },
+      expect.any(Array),
+      expect.anything(),
+    );
+  });
+
+  it('should delete the user without a transaction if the database does not support them', async () => {
+    mockSession.withTransaction.mockRejectedValueOnce(
+      Object.assign(new Error('Transaction numbers are only allowed on a replica set member'), {
+        code: 20,
+      }),
+    );
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    const userDeleteSpy = jest.spyOn(UserModel, 'deleteOne');
+
+    const result = (await deleteUserByUsername(user.username)) as UserDeletionResult;
+
+    expect(result.user.username).toEqual(user.username);
+    expect(userDeleteSpy).toHaveBeenCalledWith({ username: user.username }, { session: undefined });
+    expect(mockSession.endSession).toHaveBeenCalled();
+  });
+
+  it('should return an error if the transaction fails for another reason', async () => {
+    mockSession.withTransaction.mockRejectedValueOnce(new Error('Write conflict'));
+    const userDeleteSpy = jest.spyOn(UserModel, 'deleteOne');
+
+    const deletedError = await deleteUserByUsername(user.username);
+
+    expect('error' in deletedError).toBe(true);
+    expect(userDeleteSpy).not.toHaveBeenCalled();
+  });
+
+  it('should remove the content of the user and leave out their own questions', async () => {
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    mockingoose(QuestionModel).toReturn([QUESTIONS[0]], 'find');
+    mockingoose(AnswerModel).toReturn([ans1], 'find');
+    const questionDeleteSpy = jest.spyOn(QuestionModel, 'deleteMany');
+    const messageDeleteSpy = jest.spyOn(MessageModel, 'deleteMany');
+    const commentDeleteSpy = jest.spyOn(CommentModel, 'deleteMany');
+
+    const result = (await deleteUserByUsername(user.username, 'hardDelete')) as UserDeletionResult;
+
+    expect(result.questions).toEqual([]);
+    expect(questionDeleteSpy).toHaveBeenCalledWith({ askedBy: user.username }, expect.anything());
+    expect(messageDeleteSpy).toHaveBeenCalled();
+    expect(commentDeleteSpy).toHaveBeenCalled();
+  });
 
-    expect(deletedUser.username).toEqual(user.username);
-    expect(deletedUser.dateJoined).toEqual(user.dateJoined);
+  it('should only remove the games the user played alone, and ghost them in shared games', async () => {
+    mockingoose(UserModel).toReturn(safeUser, 'findOne');
+    const gameDeleteSpy = jest.spyOn(GameModel, 'deleteMany');
+    const gameUpdateSpy = jest.spyOn(GameModel, 'updateMany');
+
+    await deleteUserByUsername(user.username, 'hardDelete');
+
+    expect(gameDeleteSpy).toHaveBeenCalledWith(
+      {
+        $and: [
+          { players: user.username },
+          { players: { $not: { $elemMatch: { $ne: user.username } } } },
+        ],
+      },
+      expect.anything(),
+    );
+    expect(gameUpdateSpy).toHaveBeenCalledWith(
+      { players: user.username },
+      { $set: { 'players.$[player]': DELETED_USERNAME } },
+      expect.objectContaining({ arrayFilters: [{ player: user.username }] }),
+    );
+    expect(gameUpdateSpy).toHaveBeenCalledWith(
+      { 'state.winners': user.username },
+      { $set: { 'state.winners.$[winner]': DELETED_USERNAME } },
+      expect.objectContaining({ arrayFilters: [{ winner: user.username }] }),
+    );
   });
 
   it('should throw an error if the username is not found', async () => {
-    mockingoose(UserModel).toReturn(null, 'findOneAndDelete');
+    mockingoose(UserModel).toReturn(null, 'findOne');
 
     const deletedError = await deleteUserByUsername(user.username);
 
@@ -191,11 +473,12 @@ describe('deleteUserByUsername', () => {
   });
 
   it('should throw an error if a database error while deleting', async () => {
-    mockingoose(UserModel).toReturn(new Error('Error deleting object'), 'findOneAndDelete');
+    mockingoose(UserModel).toReturn(new Error('Error deleting object'), 'findOne');
 
     const deletedError = await deleteUserByUsername(user.username);
 
     expect('error' in deletedError).toBe(true);
+    expect(mockSession.endSession).toHaveBeenCalled();
   });
 });
 
@@ -229,6 +512,17 @@ describe('updateUser', () => {
     expect(result.dateJoined).toEqual(updatedUser.dateJoined);
   });
 
+  it('should hash a new password before storing it', async () => {
+    const findOneAndUpdateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+    mockingoose(UserModel).toReturn(safeUpdatedUser, 'findOneAndUpdate');
+
+    await updateUser(user.username, updates);
+
+    const update = findOneAndUpdateSpy.mock.calls[0][1] as { $set: Partial<User> };
+    expect(update.$set.password).not.toEqual(updates.password);
+    expect(await verifyPassword('newPassword', update.$set.password as string)).toBe(true);
+  });
+
   it('should throw an error if the username is not found', async () => {
     mockingoose(UserModel).toReturn(null, 'findOneAndUpdate');
 
@@ -274,3 +568,60 @@ describe('updateUser', () => {
     expect('error' in updatedError).toBe(true);
   });
 });
+
+describe('setTagPreference', () => {
+  beforeEach(() => {
+    mockingoose.resetAll();
+  });
+
+  it('should watch the tag and stop ignoring it', async () => {
+    const findOneAndUpdateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+    mockingoose(UserModel).toReturn({ ...safeUser, watchedTags: ['react'] }, 'findOneAndUpdate');
+
+    const result = (await setTagPreference(user.username, 'react', 'watched')) as SafeUser;
+
+    expect(result.watchedTags).toEqual(['react']);
+    expect(findOneAndUpdateSpy).toHaveBeenCalledWith(
+      { username: user.username },
+      { $pull: { ignoredTags: 'react' }, $addToSet: { watchedTags: 'react' } },
+      { new: true },
+    );
+    findOneAndUpdateSpy.mockRestore();
+  });
+
+  it('should ignore the tag and stop watching it', async () => {
+    const findOneAndUpdateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+    mockingoose(UserModel).toReturn({ ...safeUser, ignoredTags: ['react'] }, 'findOneAndUpdate');
+
+    await setTagPreference(user.username, 'react', 'ignored');
+
+    expect(findOneAndUpdateSpy).toHaveBeenCalledWith(
+      { username: user.username },
+      { $pull: { watchedTags: 'react' }, $addToSet: { ignoredTags: 'react' } },
+      { new: true },
+    );
+    findOneAndUpdateSpy.mockRestore();
+  });
+
+  it('should clear both preferences for none', async () => {
+    const findOneAndUpdateSpy = jest.spyOn(UserModel, 'findOneAndUpdate');
+    mockingoose(UserModel).toReturn(safeUser, 'findOneAndUpdate');
+
+    await setTagPreference(user.username, 'react', 'none');
+
+    expect(findOneAndUpdateSpy).toHaveBeenCalledWith(
+      { username: user.username },
+      { $pull: { watchedTags: 'react', ignoredTags: 'react' } },
+      { new: true },
+    );
+    findOneAndUpdateSpy.mockRestore();
+  });
+
+  it('should return an error if the user is not found', async () => {
+    mockingoose(UserModel).toReturn(null, 'findOneAndUpdate');
+
+    const result = await setTagPreference(user.username, 'react', 'watched');
+
+    expect('error' in result).toBe(true);
+  });
+});
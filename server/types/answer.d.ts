@@ -8,6 +8,10 @@ import { Comment } from './comment';
  * - ansBy - The username of the user who wrote the answer
  * - ansDateTime - The date and time when the answer was created
  * - comments - Object IDs of comments that have been added to the answer by users, or comments themselves if populated
+ * - upVotes - An array of usernames that have upvoted the answer.
+ * - downVotes - An array of usernames that have downvoted the answer.
+ * - deletedAt - When the answer was soft deleted, or `null` if it is visible. Optional field.
+ * - deletedBy - The username of the user who deleted the answer, or `null` if it is visible. Optional field.
  */
 export interface Answer {
   _id?: ObjectId;
@@ -15,6 +19,10 @@ export interface Answer {
   ansBy: string;
   ansDateTime: Date;
   comments: Comment[] | ObjectId[];
+  upVotes: string[];
+  downVotes: string[];
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
 }
 
 /**
@@ -29,6 +37,52 @@ export interface AnswerRequest extends Request {
   };
 }
 
+/**
+ * Interface for the request body when upvoting or downvoting an answer.
+ * The vote is cast by the authenticated user.
+ * - body - The question and answer IDs.
+ *  - qid - The unique identifier of the question the answer belongs to.
+ *  - aid - The unique identifier of the answer.
+ */
+export interface AnswerVoteRequest extends Request {
+  body: {
+    qid: string;
+    aid: string;
+  };
+}
+
+/**
+ * Interface for the request body when editing an answer.
+ * Only the author of the answer or a moderator can edit it.
+ * - body - The IDs, the new content, and an optional edit summary.
+ *  - qid - The unique identifier of the question the answer belongs to.
+ *  - aid - The unique identifier of the answer.
+ *  - text - The new content of the answer.
+ *  - summary - A description of the edit.
+ */
+export interface EditAnswerRequest extends Request {
+  body: {
+    qid: string;
+    aid: string;
+    text: string;
+    summary?: string;
+  };
+}
+
+/**
+ * Interface for the request body when deleting or restoring an answer.
+ * Only the author of the answer or a moderator can delete it.
+ * - body - The question and answer IDs.
+ *  - qid - The unique identifier of the question the answer belongs to.
+ *  - aid - The unique identifier of the answer.
+ */
+export interface AnswerDeletionRequest extends Request {
+  body: {
+    qid: string;
+    aid: string;
+  };
+}
+
 /**
  * Type representing the possible responses for an Answer-related operation.
  */
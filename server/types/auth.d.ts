@@ -0,0 +1,42 @@
+import { SafeUser, UserRole } from './user';
+
+/**
+ * Interface representing the identity resolved from a verified token, which contains:
+ * - username - The username of the authenticated user.
+ * - role - The role of the user. Tokens carry the role the user held when they were issued, and
+ *   the `authenticate` middleware replaces it with the current role of the user.
+ */
+export interface AuthenticatedUser {
+  username: string;
+  role: UserRole;
+}
+
+/**
+ * Interface representing the response of a successful login or signup, which contains:
+ * - user - The authenticated user, without the password.
+ * - token - The signed token to send with subsequent requests and socket connections.
+ */
+export interface AuthResponse {
+  user: SafeUser;
+  token: string;
+}
+
+/**
+ * Interface representing the data attached to each authenticated socket connection, which contains:
+ * - username - The username of the user who opened the connection.
+ */
+export interface SocketData {
+  username: string;
+}
+
+declare global {
+  namespace Express {
+    /**
+     * Extends every Express request with the identity resolved by the `authenticate` middleware.
+     * - user - The authenticated caller. Set on all routes that require authentication.
+     */
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
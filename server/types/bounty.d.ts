@@ -0,0 +1,63 @@
+import { Request } from 'express';
+
+/**
+ * Interface representing an open bounty on a question, which contains:
+ * - amount - The reputation points that go to the answer the bounty is awarded to.
+ * - offeredBy - The username of the user who offered the bounty, and paid for it.
+ * - offeredAt - When the bounty was offered.
+ * - expiresAt - When the bounty is awarded automatically, or refunded if no answer deserves it.
+ */
+export interface Bounty {
+  amount: number;
+  offeredBy: string;
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Interface for the request body when offering a bounty on a question.
+ * The bounty is paid from the reputation of the authenticated user.
+ * - qid - The unique identifier of the question.
+ * - amount - The reputation points offered.
+ * - days - The number of days before the bounty expires. Defaults to `BOUNTY_DEFAULT_DAYS`.
+ */
+export interface OfferBountyRequest extends Request {
+  body: {
+    qid: string;
+    amount: number;
+    days?: number;
+  };
+}
+
+/**
+ * Interface for the request body when awarding the bounty of a question to one of its answers.
+ * Only the user who offered the bounty can award it.
+ * - qid - The unique identifier of the question.
+ * - aid - The unique identifier of the answer.
+ */
+export interface AwardBountyRequest extends Request {
+  body: {
+    qid: string;
+    aid: string;
+  };
+}
+
+/**
+ * Interface representing how a bounty was closed, which contains:
+ * - qid - The unique identifier of the question.
+ * - title - The title of the question.
+ * - bounty - The bounty that was closed.
+ * - awardedTo - The username of the author of the answer the bounty was awarded to, or `null` if
+ *   it was refunded to the user who offered it.
+ */
+export interface BountyResolution {
+  qid: string;
+  title: string;
+  bounty: Bounty;
+  awardedTo: string | null;
+}
+
+/**
+ * Type representing the possible responses when closing a bounty.
+ */
+export type BountyResolutionResponse = BountyResolution | { error: string };
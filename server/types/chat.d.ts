@@ -13,11 +13,28 @@ export interface MessageInChat extends Message {
   } | null; // If user not found
 }
 
+/**
+ * Records how far a participant has read a chat:
+ * - `username`: The username of the participant.
+ * - `messageId`: The ID of the last message of the chat when they read it.
+ */
+export interface ChatReadReceipt {
+  username: string;
+  messageId: ObjectId;
+}
+
 /**
  * Represents a Chat with participants and messages (fully enriched). Contains:
  * - `_id`: The unique identifier of the chat. Optional field.
- * - `participants`: Array of user ObjectIds.
+ * - `participants`: Array of participant usernames.
  * - `messages`: Array of `MessageInChat` objects.
+ * - `name`: The name of a group chat. Direct chats have none. Optional field.
+ * - `owner`: The username of the owner of a group chat. Direct chats have none. Optional field.
+ * - `admins`: The usernames of the participants who manage a group chat, including its owner. Optional field.
+ * - `hasMoreMessages`: Whether the chat has older messages than the ones loaded with it. Optional field.
+ * - `lastRead`: How far each participant who read the chat has read it. Optional field.
+ * - `unreadCount`: The number of messages from others the user has not read yet, when listing
+ *   the chats of a user. Optional field.
  * - `createdAt`: Chat creation datetime. Optional field.
  * - `updatedAt`: Chat latest update datetime. Optional field.
  */
@@ -25,17 +42,25 @@ export interface Chat {
   _id?: ObjectId;
   participants: string[];
   messages: MessageInChat[];
+  name?: string | null;
+  owner?: string | null;
+  admins?: string[];
+  hasMoreMessages?: boolean;
+  lastRead?: ChatReadReceipt[];
+  unreadCount?: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 /**
  * Payload for creating a new chat,
- * containing `participants` (array of user IDs) and `messages` (raw message objects).
+ * containing `participants` (array of usernames) and `messages` (raw message objects).
+ * Chats created with a `name` are group chats, owned by the user who created them.
  */
 export interface CreateChatPayload {
   participants: string[];
   messages: Message[];
+  name?: string;
 }
 
 /**
@@ -47,11 +72,11 @@ export interface CreateChatRequest extends Request {
 
 /**
  * Payload for adding a new message to a chat,
- * containing `msg`, `msgFrom`, and optionally `msgDateTime`.
+ * containing `msg`, and optionally `msgDateTime`.
+ * The message is sent by the authenticated user.
  */
 export interface AddMessagePayload
-  extends Pick<Message, 'msg' | 'msgFrom'>,
-    Pick<Partial<Message>, 'msgDateTime'> {}
+  extends Pick<Message, 'msg'>, Pick<Partial<Message>, 'msgDateTime'> {}
 
 /**
  * Custom request type for routes that require a chatId in params.
@@ -70,17 +95,75 @@ export interface AddMessageRequestToChat extends ChatIdRequest {
 }
 
 /**
- * Payload for adding a participant to a chat.
+ * Payload for adding a participant to a group chat, or removing one from it.
+ */
+export interface ParticipantPayload {
+  username: string;
+}
+
+/**
+ * Express request for adding or removing a participant, or transferring the ownership of a
+ * group chat to them, with `chatId` in the route params.
+ */
+export interface ParticipantRequest extends ChatIdRequest {
+  body: ParticipantPayload;
+}
+
+/**
+ * Express request for making a participant of a group chat an admin, or removing them as one,
+ * with `chatId` in the route params.
+ */
+export interface SetChatAdminRequest extends ChatIdRequest {
+  body: ParticipantPayload & {
+    admin: boolean;
+  };
+}
+
+/**
+ * Express request for renaming a group chat, with `chatId` in the route params.
+ */
+export interface RenameChatRequest extends ChatIdRequest {
+  body: {
+    name: string;
+  };
+}
+
+/**
+ * Express request for editing a message of a chat, with `chatId` in the route params.
  */
-export interface AddParticipantPayload {
-  userId: string;
+export interface EditChatMessageRequest extends ChatIdRequest {
+  body: {
+    messageId: string;
+    msg: string;
+  };
+}
+
+/**
+ * Express request for deleting a message of a chat, with `chatId` in the route params.
+ */
+export interface DeleteChatMessageRequest extends ChatIdRequest {
+  body: {
+    messageId: string;
+  };
+}
+
+/**
+ * Express request for fetching a page of messages of a chat, with `chatId` in the route params.
+ * The page holds the messages sent right before the message with the ID `before`, or the
+ * latest messages if it is not given.
+ */
+export interface GetChatMessagesRequest extends ChatIdRequest {
+  query: {
+    before?: string;
+  };
 }
 
 /**
- * Express request for adding a participant, with `chatId` in the route params.
+ * A page of messages of a chat, in the order they were sent, and whether older messages are left.
  */
-export interface AddParticipantRequest extends ChatIdRequest {
-  body: AddParticipantPayload;
+export interface ChatMessagesPage {
+  messages: MessageInChat[];
+  hasMore: boolean;
 }
 
 /**
@@ -94,17 +177,54 @@ export interface GetChatByParticipantsRequest extends Request {
   };
 }
 
+/**
+ * Payload for a typing update, sent to the participants viewing a chat when one of them starts or
+ * stops typing a message in it.
+ */
+export interface TypingUpdatePayload {
+  chatId: string;
+  username: string;
+  typing: boolean;
+}
+
 /**
  * A type representing the possible responses for a Chat operation:
  * either a fully shaped Chat object or an error.
  */
 export type ChatResponse = Chat | { error: string };
 
+/**
+ * A type representing the possible responses for fetching a page of messages of a chat:
+ * either the page or an error.
+ */
+export type ChatMessagesResponse = ChatMessagesPage | { error: string };
+
+/**
+ * A type representing the possible responses for counting the unread messages of a chat:
+ * either the number of unread messages or an error.
+ */
+export type UnreadCountResponse = number | { error: string };
+
 /**
  * Payload for updating a chat with various changes.
  * This interface contains the updated `chat` object and a `type` to specify the type of update.
+ * When a participant is removed or leaves, `removed` is their username, so that they are sent
+ * the update too. When a message is edited or deleted, `message` is the updated message, which
+ * may be older than the messages loaded with the chat. When a participant reads the chat, `readBy`
+ * is their username.
  */
 export interface ChatUpdatePayload {
   chat: Chat;
-  type: 'created' | 'newMessage';
+  type:
+    | 'created'
+    | 'newMessage'
+    | 'participantAdded'
+    | 'participantRemoved'
+    | 'renamed'
+    | 'rolesChanged'
+    | 'messageUpdated'
+    | 'messagesRead';
+  removed?: string;
+  message?: MessageInChat;
+  readBy?: string;
 }
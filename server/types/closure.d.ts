@@ -0,0 +1,57 @@
+import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
+/**
+ * Type representing the lifecycle state of a question:
+ * - open - Anyone can answer and comment on the question.
+ * - closed - The question was closed for a reason, and can be reopened by votes.
+ * - locked - A moderator froze the question, which can only be unlocked by a moderator.
+ */
+export type QuestionStatus = 'open' | 'closed' | 'locked';
+
+/**
+ * Type representing the reasons a question can be closed for:
+ * - duplicate - The question was already asked, and answered in another question.
+ * - offTopic - The question is not about programming.
+ * - unclear - It is not clear what the question is asking.
+ * - needsFocus - The question asks too many things at once.
+ * - opinionBased - The question can only be answered with opinions.
+ */
+export type CloseReason = 'duplicate' | 'offTopic' | 'unclear' | 'needsFocus' | 'opinionBased';
+
+/**
+ * Interface representing a vote to close a question, which contains:
+ * - voter - The username of the user who voted.
+ * - reason - The reason the voter wants the question closed for.
+ * - duplicateOf - The ID of the question the voter considers the original, for duplicates.
+ */
+export interface CloseVote {
+  voter: string;
+  reason: CloseReason;
+  duplicateOf?: ObjectId | null;
+}
+
+/**
+ * Interface for the request body when voting to close a question.
+ * - qid - The unique identifier of the question to close.
+ * - reason - The reason to close the question for.
+ * - duplicateOf - The unique identifier of the original question. Only for duplicates.
+ */
+export interface CloseVoteRequest extends Request {
+  body: {
+    qid: string;
+    reason: CloseReason;
+    duplicateOf?: string;
+  };
+}
+
+/**
+ * Interface for the request body when changing the status of a question, such as retracting a
+ * vote, voting to reopen it, or locking it.
+ * - qid - The unique identifier of the question.
+ */
+export interface QuestionStatusRequest extends Request {
+  body: {
+    qid: string;
+  };
+}
@@ -0,0 +1,105 @@
+import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
+/**
+ * Interface representing a named collection of questions put together by a user, which contains:
+ * - _id - The unique identifier for the collection. Optional field.
+ * - name - The name of the collection.
+ * - description - What the collection is about.
+ * - owner - The username of the user who created the collection.
+ * - questions - The object IDs of the questions in the collection, in the order they were added.
+ * - shared - Whether other users with a link to the collection can view it.
+ * - createdAt - When the collection was created. Optional field.
+ * - updatedAt - When the collection was last changed. Optional field.
+ */
+export interface Collection {
+  _id?: ObjectId;
+  name: string;
+  description: string;
+  owner: string;
+  questions: ObjectId[];
+  shared: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Type representing the possible responses for a Collection-related operation.
+ */
+export type CollectionResponse = Collection | { error: string };
+
+/**
+ * Type representing the possible responses when fetching several collections.
+ */
+export type CollectionsResponse = Collection[] | { error: string };
+
+/**
+ * Interface representing the details of a collection its owner can change, which contains:
+ * - name - The new name of the collection. Optional field.
+ * - description - The new description of the collection. Optional field.
+ * - shared - Whether the collection can be viewed by others. Optional field.
+ */
+export interface CollectionUpdate {
+  name?: string;
+  description?: string;
+  shared?: boolean;
+}
+
+/**
+ * Interface for the request body when creating a collection.
+ * The collection is owned by the authenticated user.
+ * - name - The name of the collection.
+ * - description - What the collection is about. Optional field.
+ * - shared - Whether the collection can be viewed by others. Defaults to `false`.
+ */
+export interface CreateCollectionRequest extends Request {
+  body: {
+    name: string;
+    description?: string;
+    shared?: boolean;
+  };
+}
+
+/**
+ * Interface for the request body when updating the details of a collection.
+ * Only the owner of the collection or an admin can update it.
+ * - id - The unique identifier of the collection.
+ */
+export interface UpdateCollectionRequest extends Request {
+  body: CollectionUpdate & {
+    id: string;
+  };
+}
+
+/**
+ * Interface for the request body when adding a question to a collection or removing it.
+ * Only the owner of the collection or an admin can change its questions.
+ * - id - The unique identifier of the collection.
+ * - qid - The unique identifier of the question.
+ */
+export interface CollectionQuestionRequest extends Request {
+  body: {
+    id: string;
+    qid: string;
+  };
+}
+
+/**
+ * Interface for the request parameters when fetching or deleting a collection.
+ * - id - The unique identifier of the collection.
+ */
+export interface CollectionIdRequest extends Request {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * Interface for the request parameters when fetching the collections of a user.
+ * - username - The username of the user who owns the collections.
+ */
+export interface UserCollectionsRequest extends Request {
+  params: {
+    username: string;
+  };
+}
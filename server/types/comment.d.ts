@@ -6,12 +6,16 @@ import { ObjectId } from 'mongodb';
  * - text - The content of the comment.
  * - commentBy - The username of the user who commented.
  * - commentDateTime - The date and time when the comment was posted.
+ * - deletedAt - When the comment was soft deleted, or `null` if it is visible. Optional field.
+ * - deletedBy - The username of the user who deleted the comment, or `null` if it is visible. Optional field.
  */
 export interface Comment {
   _id?: ObjectId;
   text: string;
   commentBy: string;
   commentDateTime: Date;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
 }
 
 /**
@@ -28,6 +32,21 @@ export interface AddCommentRequest extends Request {
   };
 }
 
+/**
+ * Interface for the request body when deleting or restoring a comment.
+ * Only the author of the comment or a moderator can delete it.
+ * - id - The unique identifier of the question or answer the comment belongs to.
+ * - type - The type of the commented item, either 'question' or 'answer'.
+ * - cid - The unique identifier of the comment.
+ */
+export interface CommentDeletionRequest extends Request {
+  body: {
+    id: string;
+    type: 'question' | 'answer';
+    cid: string;
+  };
+}
+
 /**
  * Type representing the possible responses for a Comment-related operation.
  */
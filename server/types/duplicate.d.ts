@@ -0,0 +1,39 @@
+import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
+/**
+ * Interface representing an existing question similar to one being written, which contains:
+ * - _id - The unique identifier of the question.
+ * - title - The title of the question.
+ * - answerCount - The number of answers to the question, leaving out deleted answers.
+ * - accepted - Whether the question has an accepted answer.
+ * - similarity - How similar the question is, from its title, text and shared tags.
+ */
+export interface SimilarQuestion {
+  _id: ObjectId;
+  title: string;
+  answerCount: number;
+  accepted: boolean;
+  similarity: number;
+}
+
+/**
+ * Type representing the possible responses when looking up similar questions.
+ */
+export type SimilarQuestionsResponse = SimilarQuestion[] | { error: string };
+
+/**
+ * Interface for the query parameters when looking up the questions similar to a new one.
+ * - title - The title written so far.
+ * - text - The text written so far. Optional.
+ * - tags - The names of the tags, separated by commas. Optional.
+ * - exclude - The ID of a question to leave out, such as the question itself. Optional.
+ */
+export interface SimilarQuestionsRequest extends Request {
+  query: {
+    title?: string;
+    text?: string;
+    tags?: string;
+    exclude?: string;
+  };
+}
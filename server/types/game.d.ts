@@ -103,15 +103,13 @@ export interface GetGamesRequest extends Request {
 }
 
 /**
- * Interface extending the request body when performing a game-related action,
- * which contains:
+ * Interface extending the request body when performing a game-related action
+ * on behalf of the authenticated user, which contains:
  * - gameID - The ID of the game.
- * - playerID - The ID of the player.
  */
 export interface GameRequest extends Request {
   body: {
     gameID: GameInstanceID;
-    playerID: string;
   };
 }
 
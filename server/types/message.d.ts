@@ -7,13 +7,20 @@ import { Request } from 'express';
  * - msg - The text of the message.
  * - msgFrom - The username of the user sending the message.
  * - msgDateTime - The date and time when the message was sent.
+ * - type - Whether the message was sent to everyone, or in a chat. System messages record changes
+ *   to the membership of a group chat, made by `msgFrom`.
+ * - editedAt - When the text of the message was last edited by its author. Optional field.
+ * - deletedAt - When the message was deleted by its author. Deleted messages are kept, without
+ *   their text, so that their place in the conversation is shown. Optional field.
  */
 export interface Message {
   _id?: ObjectId;
   msg: string;
   msgFrom: string;
   msgDateTime: Date;
-  type: 'global' | 'direct';
+  type: 'global' | 'direct' | 'system';
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
 }
 
 /**
@@ -31,10 +38,34 @@ export interface AddMessageRequest extends Request {
   };
 }
 
+/**
+ * Interface extending the request body when editing a message, which contains:
+ * - messageId - The ID of the message to edit.
+ * - msg - The new text of the message.
+ */
+export interface EditMessageRequest extends Request {
+  body: {
+    messageId: string;
+    msg: string;
+  };
+}
+
+/**
+ * Interface extending the request body when deleting a message, which contains:
+ * - messageId - The ID of the message to delete.
+ */
+export interface DeleteMessageRequest extends Request {
+  body: {
+    messageId: string;
+  };
+}
+
 /**
  * Interface representing the payload for a message update event, which contains:
  * - msg - The updated message.
+ * - type - Whether the message was sent, edited or deleted.
  */
 export interface MessageUpdatePayload {
   msg: Message;
+  type: 'created' | 'edited' | 'deleted';
 }
@@ -0,0 +1,105 @@
+import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
+/**
+ * Type representing the activity a notification is about:
+ * - answer - Someone answered the recipient's question.
+ * - comment - Someone commented on the recipient's question or answer.
+ * - upvote / downvote - Someone voted on the recipient's question or answer.
+ * - message - Someone sent the recipient a direct message.
+ * - game - Someone joined a game the recipient is playing.
+ * - bounty - Someone awarded the recipient the bounty they offered on a question.
+ */
+export type NotificationType =
+  'answer' | 'comment' | 'upvote' | 'downvote' | 'message' | 'game' | 'bounty';
+
+/**
+ * Interface representing a notification, which contains:
+ * - _id - The unique identifier for the notification. Optional field.
+ * - recipient - The username of the user the notification is for.
+ * - type - The activity the notification is about.
+ * - actor - The username of the user whose activity caused the notification.
+ * - text - A short description of the content, such as the question title or the message.
+ * - qid - The ID of the question the notification relates to. Optional field.
+ * - chatId - The ID of the chat the notification relates to. Optional field.
+ * - gameID - The ID of the game the notification relates to. Optional field.
+ * - read - Whether the recipient has read the notification.
+ * - createdAt - When the notification was created.
+ */
+export interface Notification {
+  _id?: ObjectId;
+  recipient: string;
+  type: NotificationType;
+  actor: string;
+  text: string;
+  qid?: ObjectId | string;
+  chatId?: ObjectId | string;
+  gameID?: string;
+  read: boolean;
+  createdAt?: Date;
+}
+
+/**
+ * Interface representing the question a notification about a question, answer or comment
+ * relates to, which contains:
+ * - author - The username of the author of the question or answer.
+ * - qid - The ID of the question, or of the question the answer belongs to.
+ * - title - The title of the question.
+ */
+export interface NotificationTarget {
+  author: string;
+  qid: ObjectId;
+  title: string;
+}
+
+/**
+ * Type representing the response for finding the target of a notification, which can be:
+ * - NotificationTarget - The author and question (if the operation is successful)
+ * - error - An object containing an error message (if the operation fails)
+ */
+export type NotificationTargetResponse = NotificationTarget | { error: string };
+
+/**
+ * Type representing the response for notification-related operations, which can be:
+ * - Notification - The notification (if the operation is successful)
+ * - error - An object containing an error message (if the operation fails)
+ */
+export type NotificationResponse = Notification | { error: string };
+
+/**
+ * Interface representing the recent notifications of a user, which contains:
+ * - notifications - The most recent notifications, newest first.
+ * - unreadCount - The total number of unread notifications.
+ */
+export interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+/**
+ * Type representing the response for fetching the notifications of a user, which can be:
+ * - NotificationList - The recent notifications and the unread count (if the operation is successful)
+ * - error - An object containing an error message (if the operation fails)
+ */
+export type NotificationListResponse = NotificationList | { error: string };
+
+/**
+ * Interface representing the payload for a notification update event, which contains:
+ * - notification - The created or updated notification. Absent when all notifications were read.
+ * - type - The modification to the notifications.
+ */
+export interface NotificationUpdatePayload {
+  notification?: Notification;
+  type: 'created' | 'updated' | 'allRead';
+}
+
+/**
+ * Interface extending Express Request for routes marking a notification as read or unread.
+ * Ensures that the request body contains:
+ * - id - The ID of the notification
+ */
+export interface NotificationIdRequest extends Request {
+  body: {
+    id: string;
+  };
+}
@@ -3,10 +3,21 @@ import { Request } from 'express';
 import { Answer } from './answer';
 import { Tag } from './tag';
 import { Comment } from './comment';
+import { SearchQuery, SnippetPart } from './search';
+import { Bounty } from './bounty';
+import { CloseReason, CloseVote, QuestionStatus } from './closure';
 /**
  * Type representing the possible ordering options for questions.
  */
-export type OrderType = 'newest' | 'unanswered' | 'active' | 'mostViewed';
+export type OrderType =
+  | 'newest'
+  | 'unanswered'
+  | 'unaccepted'
+  | 'active'
+  | 'mostViewed'
+  | 'relevance'
+  | 'forYou'
+  | 'featured';
 /**
  * Interface representing a Question document, which contains:
  * - _id - The unique identifier for the question. Optional field.
@@ -20,6 +31,19 @@ export type OrderType = 'newest' | 'unanswered' | 'active' | 'mostViewed';
  * - upVotes - An array of usernames that have upvoted the question.
  * - downVotes - An array of usernames that have downvoted the question.
  * - comments - Object IDs of comments that have been added to the question by users, or comments themselves if populated.
+ * - acceptedAnswer - The object ID of the answer the asker accepted as the solution, if any. Optional field.
+ * - deletedAt - When the question was soft deleted, or `null` if it is visible. Optional field.
+ * - deletedBy - The username of the user who deleted the question, or `null` if it is visible. Optional field.
+ * - bookmarks - An array of usernames that have bookmarked the question. Never sent to clients. Optional field.
+ * - bookmarkCount - The number of users who bookmarked the question. Optional field.
+ * - bookmarked - Whether the user viewing the question bookmarked it. Only set on the question fetched by its ID. Optional field.
+ * - bounty - The open bounty on the question, or `null` if there is none. Optional field.
+ * - status - Whether the question is open, closed or locked. Optional field, `open` when missing.
+ * - closeReason - The reason the question was closed for, or `null` if it was not. Optional field.
+ * - closedAt - When the question was closed, or `null` if it is not closed. Optional field.
+ * - duplicateOf - The object ID of the original question, if the question was closed as its duplicate. Optional field.
+ * - closeVotes - The votes to close the question, while it is open. Optional field.
+ * - reopenVotes - The usernames of the users who voted to reopen the question, while it is closed. Optional field.
  */
 export interface Question {
   _id?: ObjectId;
@@ -33,6 +57,19 @@ export interface Question {
   upVotes: string[];
   downVotes: string[];
   comments: Comment[] | ObjectId[];
+  acceptedAnswer?: ObjectId | null;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+  bookmarks?: string[];
+  bookmarkCount?: number;
+  bookmarked?: boolean;
+  bounty?: Bounty | null;
+  status?: QuestionStatus;
+  closeReason?: CloseReason | null;
+  closedAt?: Date | null;
+  duplicateOf?: ObjectId | null;
+  closeVotes?: CloseVote[];
+  reopenVotes?: string[];
 }
 
 /**
@@ -40,30 +77,102 @@ export interface Question {
  */
 export type QuestionResponse = Question | { error: string };
 
+/**
+ * Interface representing the filters, order and page of a question list query, which contains:
+ * - order - The order in which to sort the questions
+ * - search - The parsed search string used to find questions
+ * - askedBy - The username of the user who asked the questions, if only their questions are wanted
+ * - bookmarkedBy - The username of a user, if only the questions they bookmarked are wanted
+ * - questionIds - The IDs of the questions to choose from, such as the questions of a collection
+ * - viewer - The username of the user viewing the questions, whose tag preferences personalize
+ *   the `forYou` order
+ * - includeDeleted - Whether soft deleted questions and answers are included
+ * - page - The number of the page to return, starting at 1
+ * - pageSize - The number of questions per page
+ */
+export interface QuestionQuery {
+  order: OrderType;
+  search: SearchQuery;
+  askedBy?: string;
+  bookmarkedBy?: string;
+  questionIds?: string[];
+  viewer?: string;
+  includeDeleted: boolean;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Interface representing a page of questions, which contains:
+ * - questions - The questions on the page
+ * - total - The number of questions matching the query, across all pages
+ * - page - The number of the page, starting at 1
+ * - pageSize - The maximum number of questions per page
+ * - snippets - Excerpts of the questions on the page with the matched search terms highlighted,
+ *   by question ID. Only set when searching by keywords.
+ */
+export interface QuestionPage {
+  questions: Question[];
+  total: number;
+  page: number;
+  pageSize: number;
+  snippets?: Record<string, SnippetPart[]>;
+}
+
+/**
+ * Type representing the possible responses when fetching a page of questions.
+ */
+export type QuestionPageResponse = QuestionPage | { error: string };
+
 /**
  * Interface for the request query to find questions using a search string, which contains:
  * - order - The order in which to sort the questions
  * - search - The search string used to find questions
  * - askedBy - The username of the user who asked the question
+ * - bookmarkedBy - The username of the user who bookmarked the questions. Only allowed for that user
+ *   and admins.
+ * - collection - The ID of a collection, if only its questions are wanted. The collection must be
+ *   shared or owned by the user.
+ * - includeDeleted - 'true' to include soft deleted questions. Only allowed for moderators.
+ * - page - The number of the page to return, starting at 1. Defaults to the first page.
+ * - pageSize - The number of questions per page. Defaults to `DEFAULT_PAGE_SIZE`.
  */
 export interface FindQuestionRequest extends Request {
   query: {
     order: OrderType;
     search: string;
     askedBy: string;
+    bookmarkedBy?: string;
+    collection?: string;
+    includeDeleted?: string;
+    page?: string;
+    pageSize?: string;
   };
 }
 
 /**
  * Interface for the request parameters when finding a question by its ID.
  * - qid - The unique identifier of the question.
+ * - includeDeleted - Query parameter, 'true' to include soft deleted content. Only allowed for moderators.
  */
 export interface FindQuestionByIdRequest extends Request {
   params: {
     qid: string;
   };
   query: {
-    username: string;
+    includeDeleted?: string;
+  };
+}
+
+/**
+ * Interface for the request body when deleting or restoring a question.
+ * Only the author of the question or a moderator can delete it.
+ * - body - The question ID.
+ *  - qid - The unique identifier of the question.
+ */
+export interface QuestionDeletionRequest extends Request {
+  body: {
+    qid: string;
   };
 }
 
@@ -75,16 +184,77 @@ export interface AddQuestionRequest extends Request {
   body: Question;
 }
 
+/**
+ * Interface representing the editable content of a question, which contains:
+ * - title - The new title of the question.
+ * - text - The new content of the question.
+ * - tags - The new tags of the question.
+ */
+export interface QuestionEdit {
+  title: string;
+  text: string;
+  tags: Tag[];
+}
+
+/**
+ * Interface for the request body when editing a question.
+ * Only the author of the question or a moderator can edit it.
+ * - body - The question ID, the new content, and an optional edit summary.
+ */
+export interface EditQuestionRequest extends Request {
+  body: QuestionEdit & {
+    qid: string;
+    summary?: string;
+  };
+}
+
 /**
  * Interface for the request body when upvoting or downvoting a question.
- * - body - The question ID and the username of the user voting.
+ * The vote is cast by the authenticated user.
+ * - body - The question ID.
  *  - qid - The unique identifier of the question.
- *  - username - The username of the user voting.
  */
 export interface VoteRequest extends Request {
   body: {
     qid: string;
-    username: string;
+  };
+}
+
+/**
+ * Interface for the request body when bookmarking a question or removing the bookmark.
+ * The bookmark belongs to the authenticated user.
+ * - body - The question ID.
+ *  - qid - The unique identifier of the question.
+ */
+export interface BookmarkRequest extends Request {
+  body: {
+    qid: string;
+  };
+}
+
+/**
+ * Interface representing the bookmarks of a question after one was added or removed, which contains:
+ * - qid - The unique identifier of the question.
+ * - bookmarkCount - The number of users who bookmarked the question.
+ * - bookmarked - Whether the authenticated user bookmarked the question.
+ */
+export interface BookmarkUpdatePayload {
+  qid: string;
+  bookmarkCount: number;
+  bookmarked: boolean;
+}
+
+/**
+ * Interface for the request body when accepting or unaccepting an answer to a question.
+ * Only the author of the question can accept one of its answers.
+ * - body - The question and answer IDs.
+ *  - qid - The unique identifier of the question.
+ *  - aid - The unique identifier of the answer to accept, or `null` to unaccept the current one.
+ */
+export interface AcceptAnswerRequest extends Request {
+  body: {
+    qid: string;
+    aid: string | null;
   };
 }
 
@@ -99,3 +269,12 @@ export interface VoteUpdatePayload {
   upVotes: string[];
   downVotes: string[];
 }
+
+/**
+ * Interface representing the payload for a vote update event on an answer, which extends the
+ * question vote payload with:
+ * - aid - The unique identifier of the answer that was voted on.
+ */
+export interface AnswerVoteUpdatePayload extends VoteUpdatePayload {
+  aid: string;
+}
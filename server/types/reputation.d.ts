@@ -0,0 +1,77 @@
+import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
+/**
+ * Type representing the actions that change the reputation of a user:
+ * - questionUpvote / questionDownvote - A vote on one of the user's questions was cast or cancelled.
+ * - answerUpvote / answerDownvote - A vote on one of the user's answers was cast or cancelled.
+ * - answerAccepted - One of the user's answers was accepted or unaccepted.
+ * - bountyOffered - The user paid for a bounty they offered on a question.
+ * - bountyAwarded - The user was awarded the bounty of a question.
+ * - bountyRefunded - The bounty the user offered expired without an answer deserving it.
+ */
+export type ReputationReason =
+  | 'questionUpvote'
+  | 'questionDownvote'
+  | 'answerUpvote'
+  | 'answerDownvote'
+  | 'answerAccepted'
+  | 'bountyOffered'
+  | 'bountyAwarded'
+  | 'bountyRefunded';
+
+/**
+ * Interface representing a change to the reputation of a user, which contains:
+ * - _id - The unique identifier for the change. Optional field.
+ * - username - The username of the user whose reputation changed.
+ * - change - The number of reputation points gained (positive) or lost (negative).
+ * - reason - The action that caused the change.
+ * - qid - The ID of the question the change relates to. Optional field.
+ * - aid - The ID of the answer the change relates to. Optional field.
+ * - createdAt - When the change happened.
+ */
+export interface ReputationEvent {
+  _id?: ObjectId;
+  username: string;
+  change: number;
+  reason: ReputationReason;
+  qid?: ObjectId;
+  aid?: ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Interface representing the documents a reputation change relates to, which contains:
+ * - qid - The ID of the question.
+ * - aid - The ID of the answer. Optional field.
+ */
+export interface ReputationTarget {
+  qid: string;
+  aid?: string;
+}
+
+/**
+ * Interface representing the votes of a votable document (a question or an answer).
+ */
+export interface VoteState {
+  upVotes: string[];
+  downVotes: string[];
+}
+
+/**
+ * Type representing the response for fetching the reputation history of a user, which can be:
+ * - ReputationEvent[] - The reputation changes, most recent first (if the operation is successful)
+ * - error - An object containing an error message (if the operation fails)
+ */
+export type ReputationHistoryResponse = ReputationEvent[] | { error: string };
+
+/**
+ * Interface extending Express Request for routes querying the reputation history of a user.
+ * Ensures that the request params include:
+ * - username - The username provided as a route parameter
+ */
+export interface ReputationHistoryRequest extends Request {
+  params: {
+    username: string;
+  };
+}
@@ -0,0 +1,54 @@
+import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
+/**
+ * Type representing the kinds of posts that can be edited.
+ */
+export type RevisionTargetType = 'question' | 'answer';
+
+/**
+ * Interface representing a prior version of an edited question or answer, which contains:
+ * - _id - The unique identifier for the revision. Optional field.
+ * - targetType - Whether the revision belongs to a question or an answer.
+ * - targetId - The ID of the question or answer that was edited.
+ * - title - The title of the question before the edit. Only set for questions.
+ * - text - The text of the post before the edit.
+ * - tags - The names of the tags of the question before the edit. Only set for questions.
+ * - editedBy - The username of the user who made the edit that replaced this version.
+ * - editedAt - When the edit was made.
+ * - summary - The edit summary provided by the editor.
+ */
+export interface Revision {
+  _id?: ObjectId;
+  targetType: RevisionTargetType;
+  targetId: ObjectId;
+  title?: string;
+  text: string;
+  tags?: string[];
+  editedBy: string;
+  editedAt: Date;
+  summary: string;
+}
+
+/**
+ * Type representing the possible responses for a Revision-related operation.
+ */
+export type RevisionResponse = Revision | { error: string };
+
+/**
+ * Type representing the response for fetching the revision history of a post, which can be:
+ * - Revision[] - The prior versions, oldest first (if the operation is successful)
+ * - error - An object containing an error message (if the operation fails)
+ */
+export type RevisionHistoryResponse = Revision[] | { error: string };
+
+/**
+ * Interface extending Express Request for routes querying the revision history of a post.
+ * Ensures that the request params include:
+ * - id - The ID of the question or answer
+ */
+export interface RevisionHistoryRequest extends Request {
+  params: {
+    id: string;
+  };
+}
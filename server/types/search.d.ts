@@ -0,0 +1,71 @@
+/**
+ * Interface representing how well a question matches a text search, which contains:
+ * - score - The relevance of the question, combining the matches in the question, its answers and comments
+ * - texts - The texts of the matching answers and comments of the question
+ */
+export interface TextMatch {
+  score: number;
+  texts: string[];
+}
+
+/**
+ * Interface representing a part of a search result snippet, which contains:
+ * - text - The text of the part
+ * - match - Whether the part is a matched search term, to be highlighted
+ */
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Interface representing an inclusive range of numbers, which contains:
+ * - min - The smallest accepted number, if the range has a lower bound
+ * - max - The largest accepted number, if the range has an upper bound
+ */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Interface representing a range of dates, which contains:
+ * - from - The start of the range, inclusive, if the range has a start
+ * - to - The end of the range, exclusive, if the range has an end
+ */
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Interface representing a parsed search string, which contains:
+ * - keywords - The bare words to look up in the text indexes
+ * - phrases - The quoted phrases that must appear as written
+ * - tags - The names of the tags in square brackets, any of which a question may have
+ * - excludedKeywords - The words prefixed with `-`, which questions must not contain
+ * - excludedTags - The names of the tags prefixed with `-`, which questions must not have
+ * - user - The username from `user:`, if only the questions asked by that user are wanted
+ * - answers - The number of answers from `answers:`, if given
+ * - score - The score from `score:`, if given
+ * - accepted - Whether the questions must have an accepted answer, from `is:accepted` or `is:unaccepted`
+ * - created - The range of asking dates from `created:`, if given
+ */
+export interface SearchQuery {
+  keywords: string[];
+  phrases: string[];
+  tags: string[];
+  excludedKeywords: string[];
+  excludedTags: string[];
+  user?: string;
+  answers?: NumberRange;
+  score?: NumberRange;
+  accepted?: boolean;
+  created?: DateRange;
+}
+
+/**
+ * Type representing the possible responses when parsing a search string.
+ * - Either the parsed search query or an error message explaining what is wrong with the search.
+ */
+export type SearchQueryResponse = SearchQuery | { error: string };
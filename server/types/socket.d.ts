@@ -1,15 +1,35 @@
-import { Server } from 'socket.io';
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
 import { AnswerUpdatePayload } from './answer';
 import { CommentUpdatePayload } from './comment';
-import { QuestionResponse, VoteUpdatePayload } from './question';
+import { AnswerVoteUpdatePayload, Question, QuestionResponse, VoteUpdatePayload } from './question';
 import { MessageUpdatePayload } from './message';
-import { GameMovePayload, GameUpdatePayload } from './game';
+import { GameErrorPayload, GameMovePayload, GameUpdatePayload } from './game';
+import { SocketData } from './auth';
+import { NotificationUpdatePayload } from './notification';
+import { ChatUpdatePayload, TypingUpdatePayload } from './chat';
+import { PresenceUpdatePayload, UserUpdatePayload } from './user';
 
 /**
  * A type alias for the Socket.io Server instance that handles communication
- * between the client and server, using the defined events.
+ * between the client and server, using the defined events and the per-connection
+ * data attached during the authentication handshake.
  */
-export type FakeSOSocket = Server<ClientToServerEvents, ServerToClientEvents>;
+export type FakeSOSocket = Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  SocketData
+>;
+
+/**
+ * A type alias for a single client connection to the FakeSOSocket server.
+ */
+export type FakeSOConnection = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  SocketData
+>;
 
 /**
  * Interface representing the events the client can emit to the server.
@@ -18,8 +38,16 @@ export interface ClientToServerEvents {
   makeMove: (move: GameMovePayload) => void;
   joinGame: (gameID: string) => void;
   leaveGame: (gameID: string) => void;
-  joinChat: (chatID: string) => void;
-  leaveChat: (chatID: string | undefined) => void;
+  joinQuestion: (qid: string) => void;
+  leaveQuestion: (qid: string) => void;
+  joinQuestionList: () => void;
+  leaveQuestionList: () => void;
+  joinUserList: () => void;
+  leaveUserList: () => void;
+  joinChat: (chatId: string) => void;
+  leaveChat: (chatId: string) => void;
+  typing: (chatId: string) => void;
+  stopTyping: (chatId: string) => void;
 }
 
 /**
@@ -29,11 +57,42 @@ export interface ServerToClientEvents {
   questionUpdate: (question: QuestionResponse) => void;
   answerUpdate: (result: AnswerUpdatePayload) => void;
   viewsUpdate: (question: QuestionResponse) => void;
-  voteUpdate: (vote: VoteUpdatePayload) => void;
+  voteUpdate: (vote: VoteUpdatePayload | AnswerVoteUpdatePayload) => void;
   commentUpdate: (comment: CommentUpdatePayload) => void;
   messageUpdate: (message: MessageUpdatePayload) => void;
   userUpdate: (user: UserUpdatePayload) => void;
   gameUpdate: (game: GameUpdatePayload) => void;
   gameError: (error: GameErrorPayload) => void;
   chatUpdate: (chat: ChatUpdatePayload) => void;
+  notificationUpdate: (update: NotificationUpdatePayload) => void;
+  presenceUpdate: (update: PresenceUpdatePayload) => void;
+  typingUpdate: (update: TypingUpdatePayload) => void;
+}
+
+/**
+ * Interface representing the functions controllers use to send events to clients. Each function
+ * decides which connections receive its event, so that the routing rules live in one place:
+ * - questionUpdate / viewsUpdate - The connections viewing the question list or the question.
+ * - answerUpdate / commentUpdate / voteUpdate / messageUpdate - Every connection.
+ * - userUpdate - The connections viewing the user list.
+ * - chatUpdate - The connections of every participant of the chat, and of a participant who was removed.
+ * - gameUpdate / gameError - The connections that joined the game.
+ * - notificationUpdate - The connections of the recipient.
+ * - presenceUpdate - Every connection.
+ * - typingUpdate - The connections viewing the chat.
+ */
+export interface SocketEmitter {
+  questionUpdate: (question: Question) => void;
+  viewsUpdate: (question: Question) => void;
+  answerUpdate: (update: AnswerUpdatePayload) => void;
+  commentUpdate: (update: CommentUpdatePayload) => void;
+  voteUpdate: (vote: VoteUpdatePayload | AnswerVoteUpdatePayload) => void;
+  messageUpdate: (message: MessageUpdatePayload) => void;
+  userUpdate: (update: UserUpdatePayload) => void;
+  chatUpdate: (update: ChatUpdatePayload) => void;
+  gameUpdate: (gameID: string, update: GameUpdatePayload) => void;
+  gameError: (gameID: string, error: GameErrorPayload) => void;
+  notificationUpdate: (username: string, update: NotificationUpdatePayload) => void;
+  presenceUpdate: (update: PresenceUpdatePayload) => void;
+  typingUpdate: (update: TypingUpdatePayload) => void;
 }
@@ -1,11 +1,58 @@
 import { ObjectId } from 'mongodb';
+import { Request } from 'express';
+
 /**
  * Interface representing a Tag document, which contains:
  * - _id - The unique identifier for the tag. Optional field.
  * - name - Name of the tag
+ * - description - A brief description of the tag
+ * - synonyms - Other names of the tag, which are replaced by the tag name when questions are tagged
  */
 export interface Tag {
   _id?: ObjectId;
   name: string;
   description: string;
+  synonyms?: string[];
+}
+
+/**
+ * Type representing the possible responses for a Tag-related operation.
+ * - Either a `Tag` object or an error message.
+ */
+export type TagResponse = Tag | { error: string };
+
+/**
+ * Interface for the request body when editing the description of a tag.
+ * - name - The name of the tag
+ * - description - The new description of the tag
+ */
+export interface TagDescriptionRequest extends Request {
+  body: {
+    name: string;
+    description: string;
+  };
+}
+
+/**
+ * Interface for the request body when adding or removing a synonym of a tag.
+ * - name - The name of the tag
+ * - synonym - The synonym to add or remove
+ */
+export interface TagSynonymRequest extends Request {
+  body: {
+    name: string;
+    synonym: string;
+  };
+}
+
+/**
+ * Interface for the request body when merging a tag into another.
+ * - source - The name of the tag to merge, which is removed
+ * - target - The name of the tag to keep
+ */
+export interface MergeTagsRequest extends Request {
+  body: {
+    source: string;
+    target: string;
+  };
 }
@@ -8,3 +8,12 @@ export * from './message';
 export * from './game';
 export * from './gameConstants';
 export * from './chat';
+export * from './auth';
+export * from './reputation';
+export * from './revision';
+export * from './search';
+export * from './notification';
+export * from './collection';
+export * from './bounty';
+export * from './duplicate';
+export * from './closure';
@@ -11,6 +11,14 @@ export interface UserCredentials {
   password: string;
 }
 
+/**
+ * Type representing the roles a user can hold, from least to most privileged:
+ * - user - A regular user, who can only modify their own account and content.
+ * - moderator - Can additionally moderate content and profiles of other users.
+ * - admin - Can additionally manage the accounts and roles of other users.
+ */
+export type UserRole = 'user' | 'moderator' | 'admin';
+
 /**
  * Interface representing a User document, which contains:
  * - _id - The unique identifier for the user. Optional field
@@ -18,11 +26,19 @@ export interface UserCredentials {
  * - password - The user's password
  * - dateJoined - The date when the user registered
  * - biography - The user's biography information
+ * - role - The role of the user. Defaults to 'user' when not provided.
+ * - reputation - The reputation points earned from votes, accepted answers and bounties. Defaults to 0.
+ * - watchedTags - The names of the tags whose questions are boosted in the user's feed.
+ * - ignoredTags - The names of the tags whose questions are hidden from the user's feed.
  */
 export interface User extends UserCredentials {
   _id?: ObjectId;
   dateJoined: Date;
   biography?: string;
+  role?: UserRole;
+  reputation?: number;
+  watchedTags?: string[];
+  ignoredTags?: string[];
 }
 
 /**
@@ -51,6 +67,28 @@ export interface UserByUsernameRequest extends Request {
   };
 }
 
+/**
+ * Type representing how the content of a deleted user is handled:
+ * - anonymize - Questions, answers, comments, messages and games are kept, but attributed to a
+ *   "deleted user" ghost account.
+ * - hardDelete - Everything the user authored is removed, along with any content that only exists
+ *   because of it (e.g. the answers and comments of the user's questions).
+ */
+export type DeletionPolicy = 'anonymize' | 'hardDelete';
+
+/**
+ * Interface extending Express Request for routes deleting a user by username.
+ * Ensures that the request params include:
+ * - username - The username provided as a route parameter
+ * The request query can optionally include:
+ * - policy - The deletion policy to apply, overriding the configured default
+ */
+export interface DeleteUserRequest extends UserByUsernameRequest {
+  query: {
+    policy?: DeletionPolicy;
+  };
+}
+
 /**
  * Type representing a "safe" user object, which excludes sensitive fields like `password`.
  * This is used for responses where exposing the password is not allowed.
@@ -71,14 +109,43 @@ export type UserResponse = SafeUser | { error: string };
  */
 export type UsersResponse = SafeUser[] | { error: string };
 
+/**
+ * Interface representing the outcome of deleting a user account, which contains:
+ * - user - The deleted user.
+ * - questions - The IDs of the remaining questions whose content changed because of the deletion.
+ * - chats - The IDs of the remaining chats the user was removed from.
+ */
+export interface UserDeletionResult {
+  user: SafeUser;
+  questions: string[];
+  chats: string[];
+}
+
+/**
+ * Type representing the response for deleting a user account, which can be:
+ * - UserDeletionResult - The deleted user and the affected documents (if the operation is successful)
+ * - error - An object containing an error message (if the operation fails)
+ */
+export type UserDeletionResponse = UserDeletionResult | { error: string };
+
 /**
  * Interface representing the payload for a user update event, which contains:
  * - user - The updated user.
  * - type - The modification to the user.
  */
 export interface UserUpdatePayload {
-  user: User;
-  type: 'created' | 'deleted';
+  user: SafeUser;
+  type: 'created' | 'deleted' | 'updated';
+}
+
+/**
+ * Interface representing the payload for a presence update event, which contains:
+ * - username - The username of the user who came online or went offline.
+ * - online - Whether the user is now online, i.e. has at least one open connection.
+ */
+export interface PresenceUpdatePayload {
+  username: string;
+  online: boolean;
 }
 
 /**
@@ -93,3 +160,39 @@ export interface UpdateBiographyRequest extends Request {
     biography: string;
   };
 }
+
+/**
+ * Type representing how a user follows a tag:
+ * - watched - Questions with the tag are boosted in the user's feed.
+ * - ignored - Questions with the tag are hidden from the user's feed.
+ * - none - The tag is neither watched nor ignored.
+ */
+export type TagPreference = 'watched' | 'ignored' | 'none';
+
+/**
+ * Interface extending Express Request for routes handling tag preference updates.
+ * Ensures that the request body contains:
+ * - username - The username whose tag preferences are being updated
+ * - tag - The name of the tag
+ * - preference - The new preference for the tag
+ */
+export interface UpdateTagPreferenceRequest extends Request {
+  body: {
+    username: string;
+    tag: string;
+    preference: TagPreference;
+  };
+}
+
+/**
+ * Interface extending Express Request for routes handling user role updates.
+ * Ensures that the request body contains:
+ * - username - The username whose role is being updated
+ * - role - The new role of the user
+ */
+export interface UpdateRoleRequest extends Request {
+  body: {
+    username: string;
+    role: UserRole;
+  };
+}
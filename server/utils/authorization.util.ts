@@ -0,0 +1,67 @@
+import { AuthenticatedUser, Collection, UserRole } from '../types/types';
+
+/**
+ * The privilege level of each role. A role grants every permission of the roles ranked below it.
+ */
+const roleRank: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+/**
+ * The roles a user can be assigned.
+ */
+export const USER_ROLES = Object.keys(roleRank) as UserRole[];
+
+/**
+ * Checks whether a user holds at least the given role.
+ *
+ * @param {AuthenticatedUser} user - The authenticated user.
+ * @param {UserRole} role - The minimum role required.
+ *
+ * @returns {boolean} - `true` if the user's role is at least as privileged as `role`.
+ */
+export const hasRole = (user: AuthenticatedUser, role: UserRole): boolean =>
+  roleRank[user.role] >= roleRank[role];
+
+/**
+ * Checks whether a user may modify a resource. Owners can always modify their own resources,
+ * other users only if they hold at least the given role.
+ *
+ * @param {AuthenticatedUser} user - The authenticated user attempting the modification.
+ * @param {string} owner - The username of the user who owns the resource.
+ * @param {UserRole} role - The minimum role required to modify resources owned by others.
+ *
+ * @returns {boolean} - `true` if the modification is allowed, otherwise `false`.
+ */
+export const canModify = (user: AuthenticatedUser, owner: string, role: UserRole): boolean =>
+  user.username === owner || hasRole(user, role);
+
+/**
+ * Checks whether a user may restore a soft deleted resource. Moderators can restore any resource,
+ * owners only if they deleted it themselves.
+ *
+ * @param {AuthenticatedUser} user - The authenticated user attempting the restoration.
+ * @param {string} owner - The username of the user who owns the resource.
+ * @param {string | null | undefined} deletedBy - The username of the user who deleted the resource.
+ *
+ * @returns {boolean} - `true` if the restoration is allowed, otherwise `false`.
+ */
+export const canRestore = (
+  user: AuthenticatedUser,
+  owner: string,
+  deletedBy: string | null | undefined,
+): boolean => hasRole(user, 'moderator') || (user.username === owner && deletedBy === owner);
+
+/**
+ * Checks whether a user may view a collection of questions. Shared collections can be viewed by
+ * anyone with a link to them, private ones only by their owner and admins.
+ *
+ * @param {AuthenticatedUser} user - The authenticated user viewing the collection.
+ * @param {Collection} collection - The collection to view.
+ *
+ * @returns {boolean} - `true` if the user may view the collection, otherwise `false`.
+ */
+export const canViewCollection = (user: AuthenticatedUser, collection: Collection): boolean =>
+  collection.shared || canModify(user, collection.owner, 'admin');
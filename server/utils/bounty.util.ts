@@ -0,0 +1,88 @@
+import { ObjectId } from 'mongodb';
+import { BountyResolution, FakeSOSocket, QuestionResponse, SocketEmitter } from '../types/types';
+import { resolveExpiredBounties } from '../services/bounty.service';
+import { populateDocument } from './database.util';
+import { createEmitter } from './emitter.util';
+import { sendNotification } from './notification.util';
+
+/**
+ * The number of milliseconds between two checks for expired bounties.
+ */
+export const BOUNTY_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Notifies the author of the answer a bounty was awarded to. Refunded bounties are not notified,
+ * as the user who offered the bounty would be notifying themselves.
+ *
+ * @param emitter The emitter used to send the notification.
+ * @param resolution How the bounty was closed.
+ *
+ * @returns A Promise that resolves once the notification has been sent or dropped.
+ */
+export const notifyBountyAward = async (
+  emitter: SocketEmitter,
+  resolution: BountyResolution,
+): Promise<void> => {
+  if (!resolution.awardedTo) {
+    return;
+  }
+
+  await sendNotification(emitter, {
+    recipient: resolution.awardedTo,
+    type: 'bounty',
+    actor: resolution.bounty.offeredBy,
+    text: resolution.title,
+    qid: new ObjectId(resolution.qid),
+  });
+};
+
+/**
+ * Lets clients know that the bounty of a question was closed: the question is sent again without
+ * its bounty, and the author of the answer the bounty was awarded to is notified.
+ *
+ * @param emitter The emitter used to send the updates.
+ * @param resolution How the bounty was closed.
+ *
+ * @returns A Promise that resolves to the question without its bounty, or an error message.
+ */
+export const announceBountyResolution = async (
+  emitter: SocketEmitter,
+  resolution: BountyResolution,
+): Promise<QuestionResponse> => {
+  const question = (await populateDocument(resolution.qid, 'question')) as QuestionResponse;
+
+  if (!('error' in question)) {
+    emitter.questionUpdate(question);
+  }
+
+  await notifyBountyAward(emitter, resolution);
+
+  return question;
+};
+
+/**
+ * Starts the job that periodically closes the bounties that have expired, inside the server
+ * process, and announces how each was closed.
+ *
+ * @param socket The socket server used to announce the closed bounties.
+ * @param onError Called with the error message when the expired bounties could not be closed.
+ *
+ * @returns The timer of the job, to stop it when the server shuts down.
+ */
+export const startBountyExpiryJob = (
+  socket: FakeSOSocket,
+  onError: (error: string) => void,
+): NodeJS.Timeout => {
+  const emitter = createEmitter(socket);
+
+  return setInterval(async () => {
+    const resolutions = await resolveExpiredBounties();
+
+    if ('error' in resolutions) {
+      onError(resolutions.error);
+      return;
+    }
+
+    await Promise.all(resolutions.map(r => announceBountyResolution(emitter, r)));
+  }, BOUNTY_CHECK_INTERVAL_MS);
+};
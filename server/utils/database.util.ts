@@ -1,3 +1,4 @@
+import { ObjectId } from 'mongodb';
 import {
   AnswerResponse,
   Chat,
@@ -13,20 +14,78 @@ import CommentModel from '../models/comments.model';
 import ChatModel from '../models/chat.model';
 import UserModel from '../models/users.model';
 import MessageModel from '../models/messages.model';
+import { getVisibilityFilter } from './deletion.util';
+
+/**
+ * The number of messages loaded with a chat, and per page of older messages.
+ */
+export const CHAT_MESSAGES_PAGE_SIZE = 30;
+
+/**
+ * Fetches the given messages, in the given order, and enriches each with the details of its sender.
+ * The senders are looked up in a single query.
+ *
+ * @param {ObjectId[]} messageIds - The IDs of the messages to fetch.
+ *
+ * @returns {Promise<MessageInChat[]>} - Promise that resolves to the enriched messages. Messages
+ *          that no longer exist are left out.
+ */
+export const populateMessages = async (messageIds: ObjectId[]): Promise<MessageInChat[]> => {
+  const messageDocs: Message[] = await MessageModel.find({ _id: { $in: messageIds } }).lean();
+  const messagesById = new Map(
+    messageDocs.map(messageDoc => [messageDoc._id!.toString(), messageDoc]),
+  );
+
+  const senders = [...new Set(messageDocs.map(messageDoc => messageDoc.msgFrom).filter(Boolean))];
+  const userDocs =
+    senders.length > 0
+      ? await UserModel.find({ username: { $in: senders } })
+          .select('_id username')
+          .lean()
+      : [];
+  const usersByUsername = new Map(userDocs.map(userDoc => [userDoc.username, userDoc]));
+
+  return messageIds.flatMap(messageId => {
+    const messageDoc = messagesById.get(messageId.toString());
+    if (!messageDoc) return [];
+
+    const userDoc = usersByUsername.get(messageDoc.msgFrom);
+    return [
+      {
+        _id: messageDoc._id!,
+        msg: messageDoc.msg,
+        msgFrom: messageDoc.msgFrom,
+        msgDateTime: messageDoc.msgDateTime,
+        type: messageDoc.type,
+        editedAt: messageDoc.editedAt,
+        deletedAt: messageDoc.deletedAt,
+        user: userDoc
+          ? {
+              _id: userDoc._id!,
+              username: userDoc.username,
+            }
+          : null,
+      },
+    ];
+  });
+};
 
 /**
  * Fetches and populates a question or answer document based on the provided ID and type.
+ * Soft deleted questions, answers and comments are treated as missing, unless `includeDeleted` is set.
+ * Chats are populated with their latest page of messages only, and whether older ones are left.
  *
  * @param {string | undefined} id - The ID of the question or answer to fetch.
  * @param {'question' | 'answer'} type - Specifies whether to fetch a question or an answer.
+ * @param {boolean} includeDeleted - Whether to fetch and populate soft deleted content.
  *
  * @returns {Promise<QuestionResponse | AnswerResponse | ChatResponse>} - Promise that resolves to the
  *          populated question or answer, or an error message if the operation fails
  */
-/* eslint-disable import/prefer-default-export */
 export const populateDocument = async (
   id: string | undefined,
   type: 'question' | 'answer' | 'chat',
+  includeDeleted: boolean = false,
 ): Promise<QuestionResponse | AnswerResponse | ChatResponse> => {
   try {
     if (!id) {
@@ -34,9 +93,10 @@ export const populateDocument = async (
     }
 
     let result = null;
+    const visible = getVisibilityFilter(includeDeleted);
 
     if (type === 'question') {
-      result = await QuestionModel.findOne({ _id: id }).populate([
+      result = await QuestionModel.findOne({ _id: id, ...visible }).populate([
         {
           path: 'tags',
           model: TagModel,
@@ -44,53 +104,28 @@ export const populateDocument = async (
         {
           path: 'answers',
           model: AnswerModel,
-          populate: { path: 'comments', model: CommentModel },
+          match: visible,
+          populate: { path: 'comments', model: CommentModel, match: visible },
         },
-        { path: 'comments', model: CommentModel },
+        { path: 'comments', model: CommentModel, match: visible },
       ]);
     } else if (type === 'answer') {
-      result = await AnswerModel.findOne({ _id: id }).populate([
-        { path: 'comments', model: CommentModel },
+      result = await AnswerModel.findOne({ _id: id, ...visible }).populate([
+        { path: 'comments', model: CommentModel, match: visible },
       ]);
     } else if (type === 'chat') {
-      const chatDoc = await ChatModel.findOne({ _id: id }).populate([
-        { path: 'messages', model: MessageModel },
-      ]);
+      const chatDoc = await ChatModel.findOne({ _id: id });
 
       if (!chatDoc) {
         throw new Error('Chat not found');
       }
 
-      const messagesWithUser = await Promise.all(
-        chatDoc.messages.map(async (messageDoc: Message) => {
-          if (!messageDoc) return null;
-
-          let userDoc = null;
-          if (messageDoc.msgFrom) {
-            userDoc = await UserModel.findOne({ username: messageDoc.msgFrom });
-          }
-
-          return {
-            _id: messageDoc._id!,
-            msg: messageDoc.msg,
-            msgFrom: messageDoc.msgFrom,
-            msgDateTime: messageDoc.msgDateTime,
-            type: messageDoc.type,
-            user: userDoc
-              ? {
-                  _id: userDoc._id!,
-                  username: userDoc.username,
-                }
-              : null,
-          };
-        }),
-      );
-
-      // filters out null values
-      const enrichedMessages = messagesWithUser.filter(Boolean);
+      // messages are not populated, so they hold the message IDs
+      const messageIds = chatDoc.toObject().messages as unknown as ObjectId[];
       const transformedChat: Chat = {
         ...chatDoc.toObject(),
-        messages: enrichedMessages as MessageInChat[],
+        messages: await populateMessages(messageIds.slice(-CHAT_MESSAGES_PAGE_SIZE)),
+        hasMoreMessages: messageIds.length > CHAT_MESSAGES_PAGE_SIZE,
       };
 
       return transformedChat;
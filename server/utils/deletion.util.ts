@@ -0,0 +1,22 @@
+import { UpdateQuery } from 'mongoose';
+
+/**
+ * Builds the query filter that hides soft deleted documents (questions, answers or comments).
+ *
+ * @param includeDeleted Whether soft deleted documents should be kept, e.g. for moderators.
+ *
+ * @returns The filter to merge into a query, or to use as the `match` of a populated path.
+ */
+export const getVisibilityFilter = (includeDeleted: boolean = false): { deletedAt?: null } =>
+  includeDeleted ? {} : { deletedAt: null };
+
+/**
+ * Builds the update that soft deletes a document, or restores it.
+ *
+ * @param deletedBy The username of the user deleting the document, or `null` to restore it.
+ *
+ * @returns The update to pass to `findOneAndUpdate`.
+ */
+export const getDeletionUpdate = <T>(deletedBy: string | null): UpdateQuery<T> => ({
+  $set: { deletedAt: deletedBy ? new Date() : null, deletedBy },
+});
@@ -0,0 +1,83 @@
+import { FakeSOSocket, Question, SocketEmitter } from '../types/types';
+
+/**
+ * The name of the socket room joined by the connections viewing the question list.
+ */
+export const QUESTION_LIST_ROOM = 'questions';
+
+/**
+ * The name of the socket room joined by the connections viewing the user list.
+ */
+export const USER_LIST_ROOM = 'users';
+
+/**
+ * Gets the name of the socket room that every connection of a user joins, so that events meant
+ * for that user only can be sent to all of their open tabs.
+ *
+ * @param username The username of the user.
+ *
+ * @returns The name of the user's room.
+ */
+export const getUserRoom = (username: string): string => `user:${username}`;
+
+/**
+ * Gets the name of the socket room joined by the connections viewing a question.
+ *
+ * @param qid The ID of the question.
+ *
+ * @returns The name of the question's room.
+ */
+export const getQuestionRoom = (qid: string): string => `question:${qid}`;
+
+/**
+ * Gets the name of the socket room joined by the connections of participants viewing a chat.
+ *
+ * @param chatId The ID of the chat.
+ *
+ * @returns The name of the chat's room.
+ */
+export const getChatRoom = (chatId: string): string => `chat:${chatId}`;
+
+/**
+ * Gets the rooms that receive the updates of a question: the question list, and the question
+ * itself once it has an ID.
+ *
+ * @param question The updated question.
+ *
+ * @returns The names of the rooms.
+ */
+const getQuestionRooms = (question: Question): string[] =>
+  question._id
+    ? [QUESTION_LIST_ROOM, getQuestionRoom(question._id.toString())]
+    : [QUESTION_LIST_ROOM];
+
+/**
+ * Creates the emitter controllers use to send events to clients, routing each event to the
+ * connections that need it.
+ *
+ * @param socket The socket server used to send the events.
+ *
+ * @returns The emitter.
+ */
+export const createEmitter = (socket: FakeSOSocket): SocketEmitter => ({
+  questionUpdate: question =>
+    socket.to(getQuestionRooms(question)).emit('questionUpdate', question),
+  viewsUpdate: question => socket.to(getQuestionRooms(question)).emit('viewsUpdate', question),
+  answerUpdate: update => socket.emit('answerUpdate', update),
+  commentUpdate: update => socket.emit('commentUpdate', update),
+  voteUpdate: vote => socket.emit('voteUpdate', vote),
+  messageUpdate: message => socket.emit('messageUpdate', message),
+  userUpdate: update => socket.to(USER_LIST_ROOM).emit('userUpdate', update),
+  chatUpdate: update =>
+    socket
+      .to(
+        [...update.chat.participants, ...(update.removed ? [update.removed] : [])].map(getUserRoom),
+      )
+      .emit('chatUpdate', update),
+  gameUpdate: (gameID, update) => socket.to(gameID).emit('gameUpdate', update),
+  gameError: (gameID, error) => socket.to(gameID).emit('gameError', error),
+  notificationUpdate: (username, update) =>
+    socket.to(getUserRoom(username)).emit('notificationUpdate', update),
+  presenceUpdate: update => socket.emit('presenceUpdate', update),
+  typingUpdate: update => socket.to(getChatRoom(update.chatId)).emit('typingUpdate', update),
+});
@@ -0,0 +1,63 @@
+import { Notification, NotificationType, SocketEmitter } from '../types/types';
+import { getNotificationTarget, saveNotification } from '../services/notification.service';
+
+/**
+ * Saves a notification and sends it to the connections of its recipient. Users are not notified
+ * of their own activity. Notifications are best effort: the activity that caused one has already
+ * succeeded, so a notification that cannot be saved is dropped rather than reported.
+ *
+ * @param emitter The emitter used to send the notification.
+ * @param notification The notification to send, which is saved as unread.
+ *
+ * @returns A Promise that resolves once the notification has been sent or dropped.
+ */
+export const sendNotification = async (
+  emitter: SocketEmitter,
+  notification: Omit<Notification, 'read'>,
+): Promise<void> => {
+  if (notification.recipient === notification.actor) {
+    return;
+  }
+
+  const saved = await saveNotification({ ...notification, read: false });
+
+  if ('error' in saved) {
+    return;
+  }
+
+  emitter.notificationUpdate(saved.recipient, { notification: saved, type: 'created' });
+};
+
+/**
+ * Notifies the author of a question or answer of activity on it, such as a vote or a comment.
+ * The notification links to the question, or to the question the answer belongs to.
+ *
+ * @param emitter The emitter used to send the notification.
+ * @param id The ID of the question or answer.
+ * @param contentType Whether the ID is of a question or an answer.
+ * @param type The activity the notification is about.
+ * @param actor The username of the user whose activity caused the notification.
+ *
+ * @returns A Promise that resolves once the notification has been sent or dropped.
+ */
+export const sendAuthorNotification = async (
+  emitter: SocketEmitter,
+  id: string,
+  contentType: 'question' | 'answer',
+  type: NotificationType,
+  actor: string,
+): Promise<void> => {
+  const target = await getNotificationTarget(id, contentType);
+
+  if ('error' in target) {
+    return;
+  }
+
+  await sendNotification(emitter, {
+    recipient: target.author,
+    type,
+    actor,
+    text: target.title,
+    qid: target.qid,
+  });
+};
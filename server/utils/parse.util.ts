@@ -1,19 +1,235 @@
+import { DateRange, NumberRange, SearchQuery, SearchQueryResponse } from '../types/types';
+
+/**
+ * The search operators that can be written as `operator:value` in a search string.
+ */
+const SEARCH_OPERATORS = ['user', 'answers', 'score', 'is', 'created'];
+
+/**
+ * Matches the tokens of a search string, each optionally prefixed with `-` to exclude it:
+ * a tag in square brackets, a quoted phrase, an `operator:value` pair, or any other text.
+ */
+const searchTokenPattern = /(-?)(?:\[([^\]]+)\]|"([^"]*)"|([a-z]+):(\S*)|(\S+))/gi;
+
 /**
- * Parses tags from a search string.
+ * Extracts the individual words from a piece of search text.
  *
- * @param {string} search - Search string containing tags in square brackets (e.g., "[tag1][tag2]")
+ * @param {string} text - The text to extract the words from
  *
- * @returns {string[]} - An array of tags found in the search string
+ * @returns {string[]} - The words in the text, which only contain word characters
  */
-export const parseTags = (search: string): string[] =>
-  (search.match(/\[([^\]]+)\]/g) || []).map(word => word.slice(1, -1));
+const parseWords = (text: string): string[] => text.match(/\b\w+\b/g) || [];
+
+/**
+ * Parses the value of a numeric search operator, such as `answers:0`, `score:>5`, `score:<=-1`
+ * or `answers:1..3`. The bounds of the resulting range are inclusive.
+ *
+ * @param {string} operator - The name of the operator, for the error message
+ * @param {string} value - The value of the operator
+ *
+ * @returns {NumberRange | { error: string }} - The range of accepted numbers, or an error message
+ */
+const parseNumberRange = (operator: string, value: string): NumberRange | { error: string } => {
+  const comparison = value.match(/^(>=|<=|>|<)?(-?\d+)$/);
+
+  if (comparison) {
+    const n = Number(comparison[2]);
+
+    switch (comparison[1]) {
+      case '>':
+        return { min: n + 1 };
+      case '>=':
+        return { min: n };
+      case '<':
+        return { max: n - 1 };
+      case '<=':
+        return { max: n };
+      default:
+        return { min: n, max: n };
+    }
+  }
+
+  const range = value.match(/^(-?\d+)?\.\.(-?\d+)?$/);
+
+  if (range && (range[1] || range[2])) {
+    const min = range[1] ? Number(range[1]) : undefined;
+    const max = range[2] ? Number(range[2]) : undefined;
+
+    if (min !== undefined && max !== undefined && min > max) {
+      return { error: `The range for ${operator}: must not end before it starts` };
+    }
+
+    return { min, max };
+  }
+
+  return {
+    error:
+      `Invalid value '${value}' for ${operator}:. Use a number such as ${operator}:5, ` +
+      `a comparison such as ${operator}:>5, or a range such as ${operator}:1..5`,
+  };
+};
+
+/**
+ * Parses a date written as `YYYY`, `YYYY-MM` or `YYYY-MM-DD`, in UTC.
+ *
+ * @param {string} value - The date to parse
+ * @param {boolean} end - Whether to return the end of the period rather than its start,
+ *        e.g. the first day of the next month for `YYYY-MM`
+ *
+ * @returns {Date | null} - The start or end of the period, or `null` if the date is invalid
+ */
+const parseDate = (value: string, end: boolean): Date | null => {
+  const parts = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+
+  if (!parts) {
+    return null;
+  }
+
+  const year = Number(parts[1]);
+  const month = parts[2] ? Number(parts[2]) - 1 : 0;
+  const day = parts[3] ? Number(parts[3]) : 1;
+  const date = new Date(Date.UTC(year, month, day));
+
+  // Out of range months and days roll over into the next month or year
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  if (end) {
+    if (parts[3]) {
+      date.setUTCDate(date.getUTCDate() + 1);
+    } else if (parts[2]) {
+      date.setUTCMonth(date.getUTCMonth() + 1);
+    } else {
+      date.setUTCFullYear(date.getUTCFullYear() + 1);
+    }
+  }
+
+  return date;
+};
+
+/**
+ * Parses the value of the `created:` operator, either a single period such as `2025-01`, or a range
+ * of periods such as `2025-01..2025-03`, where either end may be left out.
+ *
+ * @param {string} value - The value of the operator
+ *
+ * @returns {DateRange | { error: string }} - The range of dates, or an error message
+ */
+const parseDateRange = (value: string): DateRange | { error: string } => {
+  const [start, end] = value.includes('..') ? value.split('..', 2) : [value, value];
+
+  if (!start && !end) {
+    return { error: 'Missing dates for created:. Use a range such as created:2025-01..2025-03' };
+  }
+
+  const from = start ? parseDate(start, false) : undefined;
+  const to = end ? parseDate(end, true) : undefined;
+  const invalid = from === null ? start : end;
+
+  if (from === null || to === null) {
+    return {
+      error: `Invalid date '${invalid}' for created:. Use YYYY, YYYY-MM or YYYY-MM-DD`,
+    };
+  }
+
+  if (from && to && from >= to) {
+    return { error: 'The range for created: must not end before it starts' };
+  }
+
+  return { from, to };
+};
+
+/**
+ * Parses a search string into a structured search query. Besides tags in square brackets and
+ * bare keywords, the search string may contain:
+ * - quoted phrases, e.g. `"event loop"`
+ * - excluded keywords and tags, e.g. `-java` or `-[java]`
+ * - `user:<username>`, for the questions asked by a user
+ * - `answers:<number>` and `score:<number>`, with an optional comparison (`>`, `>=`, `<`, `<=`)
+ *   or as a range such as `1..3`
+ * - `is:accepted` or `is:unaccepted`
+ * - `created:<date>`, where the date is `YYYY`, `YYYY-MM` or `YYYY-MM-DD`, or a range of dates
+ *   such as `2025-01..2025-03`
+ *
+ * Text that looks like an operator but does not name a known one is searched for as keywords.
+ *
+ * @param {string} search - The search string
+ *
+ * @returns {SearchQueryResponse} - The parsed search query, or an error message explaining
+ *          what is wrong with the search string
+ */
+export const parseSearchQuery = (search: string): SearchQueryResponse => {
+  const query: SearchQuery = {
+    keywords: [],
+    phrases: [],
+    tags: [],
+    excludedKeywords: [],
+    excludedTags: [],
+  };
+
+  for (const token of search.matchAll(searchTokenPattern)) {
+    const [text, exclude, tag, phrase, key, value, other] = token;
+    const operator = key?.toLowerCase();
+
+    if (tag !== undefined) {
+      (exclude ? query.excludedTags : query.tags).push(tag);
+    } else if (phrase !== undefined) {
+      if (exclude) {
+        return { error: `Quoted phrases cannot be excluded, use -word instead of -"${phrase}"` };
+      }
+      if (phrase.trim()) {
+        query.phrases.push(phrase.trim());
+      }
+    } else if (operator !== undefined && SEARCH_OPERATORS.includes(operator)) {
+      if (exclude) {
+        return { error: `The ${operator}: operator cannot be excluded` };
+      }
+      if (!value) {
+        return { error: `Missing value for ${operator}:` };
+      }
+      if (operator !== 'is' && query[operator as keyof SearchQuery] !== undefined) {
+        return { error: `The ${operator}: operator can only be used once` };
+      }
+
+      if (operator === 'user') {
+        query.user = value;
+      } else if (operator === 'answers' || operator === 'score') {
+        const range = parseNumberRange(operator, value);
+        if ('error' in range) {
+          return range;
+        }
+        query[operator] = range;
+      } else if (operator === 'is') {
+        if (value !== 'accepted' && value !== 'unaccepted') {
+          return { error: `Invalid value '${value}' for is:. Use is:accepted or is:unaccepted` };
+        }
+        if (query.accepted !== undefined) {
+          return { error: 'The is: operator can only be used once' };
+        }
+        query.accepted = value === 'accepted';
+      } else {
+        const range = parseDateRange(value);
+        if ('error' in range) {
+          return range;
+        }
+        query.created = range;
+      }
+    } else {
+      const words = parseWords(other ?? text);
+      (exclude ? query.excludedKeywords : query.keywords).push(...words);
+    }
+  }
+
+  return query;
+};
 
 /**
- * Parses keywords from a search string by removing tags and extracting individual words.
+ * Checks whether a search query filters questions on their text, and so needs a text search.
  *
- * @param {string} search - The search string containing keywords and possibly tags
+ * @param {SearchQuery} query - The parsed search query
  *
- * @returns {string[]} - An array of keywords found in the search string
+ * @returns {boolean} - `true` if the query has any keywords or phrases
  */
-export const parseKeyword = (search: string): string[] =>
-  search.replace(/\[([^\]]+)\]/g, ' ').match(/\b\w+\b/g) || [];
+export const hasTextSearch = (query: SearchQuery): boolean =>
+  query.keywords.length > 0 || query.phrases.length > 0;
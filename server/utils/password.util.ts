@@ -0,0 +1,86 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * A well-formed hash that no password is expected to match. Logins for unknown users are checked
+ * against it, so that they take as long as logins for existing users.
+ */
+export const DUMMY_PASSWORD_HASH = `${HASH_PREFIX}$${'0'.repeat(SALT_BYTES * 2)}$${'0'.repeat(
+  KEY_LENGTH * 2,
+)}`;
+
+/**
+ * Derives a key from the given password and salt using scrypt.
+ *
+ * @param {string} password - The plaintext password.
+ * @param {Buffer} salt - The salt to derive the key with.
+ *
+ * @returns {Promise<Buffer>} - Resolves with the derived key.
+ */
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (err, derivedKey) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(derivedKey);
+    });
+  });
+
+/**
+ * Checks whether a stored password value was produced by `hashPassword`.
+ * Any other value is treated as a legacy plaintext password.
+ *
+ * @param {string} stored - The password value stored on the user document.
+ *
+ * @returns {boolean} - `true` if the value is a hash, otherwise `false`.
+ */
+export const isPasswordHashed = (stored: string): boolean =>
+  stored.startsWith(`${HASH_PREFIX}$`) && stored.split('$').length === 3;
+
+/**
+ * Hashes a password with a random salt. The result has the form `scrypt$<salt>$<key>`,
+ * with salt and key hex-encoded, so it can be verified later without extra fields.
+ *
+ * @param {string} password - The plaintext password to hash.
+ *
+ * @returns {Promise<string>} - Resolves with the encoded hash.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+
+  return `${HASH_PREFIX}$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+/**
+ * Verifies a password against a stored value in constant time.
+ * Legacy plaintext values are compared by deriving keys for both sides with the same salt,
+ * so the comparison never leaks the length or content of the stored password.
+ *
+ * @param {string} password - The plaintext password submitted by the user.
+ * @param {string} stored - The password value stored on the user document.
+ *
+ * @returns {Promise<boolean>} - Resolves with `true` if the password matches, otherwise `false`.
+ */
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (!isPasswordHashed(stored)) {
+    const salt = randomBytes(SALT_BYTES);
+    const [candidate, expected] = await Promise.all([
+      deriveKey(password, salt),
+      deriveKey(stored, salt),
+    ]);
+
+    return timingSafeEqual(candidate, expected);
+  }
+
+  const [, saltHex, keyHex] = stored.split('$');
+  const expected = Buffer.from(keyHex, 'hex');
+  const candidate = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+
+  return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+};
@@ -0,0 +1,65 @@
+import { SnippetPart } from '../types/types';
+
+/**
+ * The number of characters kept on each side of the first matched term in a snippet.
+ */
+const SNIPPET_RADIUS = 80;
+
+/**
+ * Builds the pattern matching the search terms in a text. The text index stems the terms, so any
+ * word starting with a term is matched, e.g. `store` also matches `stored` and `stores`.
+ *
+ * @param terms The search terms. Terms only contain word characters, so they need no escaping.
+ *
+ * @returns A case insensitive pattern matching the words that start with any of the terms.
+ */
+const getTermPattern = (terms: string[]): RegExp =>
+  new RegExp(`\\b(?:${terms.join('|')})\\w*`, 'gi');
+
+/**
+ * Builds a short excerpt of the first text containing any of the search terms, split into parts
+ * so that the matched terms can be highlighted.
+ *
+ * @param texts The texts to take the excerpt from, in order of preference.
+ * @param terms The search terms to highlight.
+ *
+ * @returns The parts of the excerpt, or an empty array if no text contains a search term.
+ */
+const buildSnippet = (texts: string[], terms: string[]): SnippetPart[] => {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const text = texts.find(t => getTermPattern(terms).test(t));
+
+  if (!text) {
+    return [];
+  }
+
+  const first = text.search(getTermPattern(terms));
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+
+  const parts: SnippetPart[] = [];
+  let last = 0;
+
+  for (const match of excerpt.matchAll(getTermPattern(terms))) {
+    const index = match.index ?? 0;
+
+    if (index > last) {
+      parts.push({ text: excerpt.slice(last, index), match: false });
+    }
+
+    parts.push({ text: match[0], match: true });
+    last = index + match[0].length;
+  }
+
+  if (last < excerpt.length) {
+    parts.push({ text: excerpt.slice(last), match: false });
+  }
+
+  return parts;
+};
+
+export default buildSnippet;
@@ -1,75 +1,60 @@
-import { Question } from '../types/types';
-import { getMostRecentAnswerTime } from '../services/answer.service';
-/**
- * Gets the newest questions from a list, sorted by the asking date in descending order.
- *
- * @param {Question[]} qlist - The list of questions to sort
- *
- * @returns {Question[]} - The sorted list of questions
- */
-export const sortQuestionsByNewest = (qlist: Question[]): Question[] =>
-  qlist.sort((a, b) => {
-    if (a.askDateTime > b.askDateTime) {
-      return -1;
-    }
-
-    if (a.askDateTime < b.askDateTime) {
-      return 1;
-    }
-
-    return 0;
-  });
+import { PipelineStage } from 'mongoose';
+import { OrderType } from '../types/types';
 
 /**
- * Gets unanswered questions from a list, sorted by the asking date in descending order.
- *
- * @param {Question[]} qlist - The list of questions to filter and sort
- *
- * @returns {Question[]} - The filtered and sorted list of unanswered questions
+ * Sorts questions by the asking date in descending order. The ID breaks ties between questions
+ * asked at the same time, so that the order is stable across pages.
  */
-export const sortQuestionsByUnanswered = (qlist: Question[]): Question[] =>
-  sortQuestionsByNewest(qlist).filter(q => q.answers.length === 0);
+const newestSort: PipelineStage.Sort = { $sort: { askDateTime: -1, _id: -1 } };
 
 /**
- * Gets active questions from a list, sorted by the most recent answer date in descending order.
- *
- * @param {Question[]} qlist - The list of questions to filter and sort
- *
- * @returns {Question[]} - The filtered and sorted list of active questions
+ * Gets the aggregation stages that filter and sort questions in the specified order.
+ * The stages expect the `answerCount`, `lastAnswerTime` and `viewCount` fields to be computed
+ * from the visible answers and the views of each question.
+ *
+ * - `newest`: all questions, sorted by the asking date in descending order.
+ * - `unanswered`: questions without answers, newest first.
+ * - `unaccepted`: questions without an accepted answer, newest first.
+ * - `active`: questions sorted by the most recent answer date in descending order. Questions
+ *   without answers come last, newest first.
+ * - `mostViewed`: questions sorted by the number of views, from highest to lowest. Questions with
+ *   the same number of views are sorted newest first.
+ * - `relevance`: questions sorted by how well they match the search keywords, newest first for
+ *   equally relevant questions. Expects the `relevance` field to be computed as well.
+ * - `forYou`: questions without ignored tags, those with watched tags first, newest first
+ *   otherwise. Expects the `isWatched` and `isIgnored` fields to be computed as well.
+ * - `featured`: questions with an open bounty, the largest bounties first, then those expiring
+ *   soonest.
+ *
+ * @param order The order type of the questions.
+ *
+ * @returns The stages to add to the question aggregation pipeline.
  */
-export const sortQuestionsByActive = (qlist: Question[]): Question[] => {
-  const mp = new Map();
-  qlist.forEach(q => {
-    getMostRecentAnswerTime(q, mp);
-  });
-
-  return sortQuestionsByNewest(qlist).sort((a, b) => {
-    const adate = mp.get(a._id?.toString());
-    const bdate = mp.get(b._id?.toString());
-    if (!adate) {
-      return 1;
-    }
-    if (!bdate) {
-      return -1;
-    }
-    if (adate > bdate) {
-      return -1;
-    }
-    if (adate < bdate) {
-      return 1;
-    }
-    return 0;
-  });
+const getQuestionOrderStages = (order: OrderType): PipelineStage[] => {
+  switch (order) {
+    case 'unanswered':
+      return [{ $match: { answerCount: 0 } }, newestSort];
+    case 'unaccepted':
+      return [{ $match: { acceptedAnswer: null } }, newestSort];
+    case 'active':
+      return [{ $sort: { lastAnswerTime: -1, askDateTime: -1, _id: -1 } }];
+    case 'mostViewed':
+      return [{ $sort: { viewCount: -1, askDateTime: -1, _id: -1 } }];
+    case 'relevance':
+      return [{ $sort: { relevance: -1, askDateTime: -1, _id: -1 } }];
+    case 'forYou':
+      return [
+        { $match: { isIgnored: { $ne: true } } },
+        { $sort: { isWatched: -1, askDateTime: -1, _id: -1 } },
+      ];
+    case 'featured':
+      return [
+        { $match: { bounty: { $ne: null } } },
+        { $sort: { 'bounty.amount': -1, 'bounty.expiresAt': 1, '_id': -1 } },
+      ];
+    default:
+      return [newestSort];
+  }
 };
 
-/**
- * Sorts a list of questions by the number of views in descending order. First, the questions are
- * sorted by creation date (newest first), then by number of views, from highest to lowest.
- * If questions have the same number of views, the newer question will be before the older question.
- *
- * @param qlist The array of Question objects to be sorted.
- *
- * @returns A new array of Question objects sorted by the number of views.
- */
-export const sortQuestionsByMostViews = (qlist: Question[]): Question[] =>
-  sortQuestionsByNewest(qlist).sort((a, b) => b.views.length - a.views.length);
+export default getQuestionOrderStages;
@@ -0,0 +1,56 @@
+import { randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AuthenticatedUser, UserRole } from '../types/types';
+
+const TOKEN_EXPIRY = '12h';
+
+/**
+ * The secret used when `JWT_SECRET` is not set. It is random for each process, so tokens cannot be
+ * forged from a known key, but they are no longer valid once the server restarts.
+ */
+const PROCESS_SECRET = randomBytes(32).toString('hex');
+
+/**
+ * Reads the signing secret. This is resolved on every call, since `dotenv` populates
+ * the environment only after the modules importing this file have been loaded.
+ *
+ * @returns {string} - The secret used to sign and verify tokens.
+ */
+const getSecret = (): string => process.env.JWT_SECRET || PROCESS_SECRET;
+
+/**
+ * Issues a signed token identifying the given user and their role.
+ *
+ * @param {string} username - The username of the authenticated user.
+ * @param {UserRole} role - The role of the authenticated user. Defaults to a regular user.
+ *
+ * @returns {string} - The signed token.
+ */
+export const issueToken = (username: string, role: UserRole = 'user'): string =>
+  jwt.sign({ role }, getSecret(), { subject: username, expiresIn: TOKEN_EXPIRY });
+
+/**
+ * Verifies a token and extracts the user it was issued for.
+ *
+ * @param {string} token - The token to verify.
+ *
+ * @returns {AuthenticatedUser | null} - The authenticated user, or `null` if the token is
+ *          missing, malformed, expired or signed with a different secret.
+ */
+export const verifyToken = (token: string | undefined): AuthenticatedUser | null => {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const payload = jwt.verify(token, getSecret());
+
+    if (typeof payload === 'string' || typeof payload.sub !== 'string') {
+      return null;
+    }
+
+    return { username: payload.sub, role: payload.role ?? 'user' };
+  } catch (error) {
+    return null;
+  }
+};
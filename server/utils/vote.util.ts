@@ -0,0 +1,92 @@
+import { QueryOptions } from 'mongoose';
+import { VoteState } from '../types/types';
+
+/**
+ * Builds the update pipeline that toggles a user's vote on a votable document (a question or an answer).
+ * Casting a vote the user has already cast removes it, and casting the opposite vote replaces it.
+ * Documents saved before votes were tracked have no vote arrays, which count as empty.
+ *
+ * @param username The username of the user who voted.
+ * @param type The type of vote to toggle, either 'upvote' or 'downvote'.
+ *
+ * @returns The update pipeline to pass to `findOneAndUpdate`.
+ */
+export const getVoteUpdateOperation = (
+  username: string,
+  type: 'upvote' | 'downvote',
+): QueryOptions => {
+  const upVotes = { $ifNull: ['$upVotes', []] };
+  const downVotes = { $ifNull: ['$downVotes', []] };
+
+  if (type === 'upvote') {
+    return [
+      {
+        $set: {
+          upVotes: {
+            $cond: [
+              { $in: [username, upVotes] },
+              { $filter: { input: upVotes, as: 'u', cond: { $ne: ['$$u', username] } } },
+              { $concatArrays: [upVotes, [username]] },
+            ],
+          },
+          downVotes: {
+            $cond: [
+              { $in: [username, upVotes] },
+              downVotes,
+              { $filter: { input: downVotes, as: 'd', cond: { $ne: ['$$d', username] } } },
+            ],
+          },
+        },
+      },
+    ];
+  }
+
+  return [
+    {
+      $set: {
+        downVotes: {
+          $cond: [
+            { $in: [username, downVotes] },
+            { $filter: { input: downVotes, as: 'd', cond: { $ne: ['$$d', username] } } },
+            { $concatArrays: [downVotes, [username]] },
+          ],
+        },
+        upVotes: {
+          $cond: [
+            { $in: [username, downVotes] },
+            upVotes,
+            { $filter: { input: upVotes, as: 'u', cond: { $ne: ['$$u', username] } } },
+          ],
+        },
+      },
+    },
+  ];
+};
+
+/**
+ * Computes the votes of a document after a user toggled their vote on it, the same way the
+ * pipeline from `getVoteUpdateOperation` does. Missing vote arrays count as empty.
+ *
+ * @param votes The votes of the document before the vote.
+ * @param username The username of the user who voted.
+ * @param type The type of vote to toggle, either 'upvote' or 'downvote'.
+ *
+ * @returns The votes of the document after the vote.
+ */
+export const getVotesAfterToggle = (
+  votes: Partial<VoteState>,
+  username: string,
+  type: 'upvote' | 'downvote',
+): VoteState => {
+  const upVotes = votes.upVotes ?? [];
+  const downVotes = votes.downVotes ?? [];
+  const [toggled, opposite] = type === 'upvote' ? [upVotes, downVotes] : [downVotes, upVotes];
+  const hadVote = toggled.includes(username);
+
+  const newToggled = hadVote ? toggled.filter(u => u !== username) : [...toggled, username];
+  const newOpposite = hadVote ? opposite : opposite.filter(u => u !== username);
+
+  return type === 'upvote'
+    ? { upVotes: newToggled, downVotes: newOpposite }
+    : { upVotes: newOpposite, downVotes: newToggled };
+};